@@ -0,0 +1,26 @@
+-- CreateTable DocumentVersion (content snapshots for history/restore)
+CREATE TABLE `DocumentVersion` (
+  `id` VARCHAR(191) NOT NULL,
+  `documentId` VARCHAR(191) NOT NULL,
+  `ownerId` VARCHAR(191) NOT NULL,
+  `title` VARCHAR(255) NOT NULL,
+  `content` LONGTEXT NOT NULL,
+  `reason` VARCHAR(20) NOT NULL,
+  `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- Indexes for DocumentVersion
+CREATE INDEX `DocumentVersion_documentId_createdAt_idx` ON `DocumentVersion`(`documentId`, `createdAt`);
+CREATE INDEX `DocumentVersion_ownerId_idx` ON `DocumentVersion`(`ownerId`);
+
+-- Foreign Keys
+ALTER TABLE `DocumentVersion`
+  ADD CONSTRAINT `DocumentVersion_documentId_fkey`
+  FOREIGN KEY (`documentId`) REFERENCES `Document`(`id`)
+  ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `DocumentVersion`
+  ADD CONSTRAINT `DocumentVersion_ownerId_fkey`
+  FOREIGN KEY (`ownerId`) REFERENCES `User`(`id`)
+  ON DELETE CASCADE ON UPDATE CASCADE;
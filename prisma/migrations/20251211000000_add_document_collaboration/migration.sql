@@ -0,0 +1,35 @@
+-- CreateTable DocumentCollaborator (share ACL beyond Document.ownerId)
+CREATE TABLE `DocumentCollaborator` (
+  `documentId` VARCHAR(191) NOT NULL,
+  `userId` VARCHAR(191) NOT NULL,
+  `role` VARCHAR(20) NOT NULL DEFAULT 'editor',
+  `addedAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  PRIMARY KEY (`documentId`, `userId`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable DocumentCollabState (persisted Yjs document per shared Document)
+CREATE TABLE `DocumentCollabState` (
+  `documentId` VARCHAR(191) NOT NULL,
+  `state` LONGBLOB NOT NULL,
+  `updatedAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3) ON UPDATE CURRENT_TIMESTAMP(3),
+  PRIMARY KEY (`documentId`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- Indexes for DocumentCollaborator
+CREATE INDEX `DocumentCollaborator_userId_idx` ON `DocumentCollaborator`(`userId`);
+
+-- Foreign Keys
+ALTER TABLE `DocumentCollaborator`
+  ADD CONSTRAINT `DocumentCollaborator_documentId_fkey`
+  FOREIGN KEY (`documentId`) REFERENCES `Document`(`id`)
+  ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `DocumentCollaborator`
+  ADD CONSTRAINT `DocumentCollaborator_userId_fkey`
+  FOREIGN KEY (`userId`) REFERENCES `User`(`id`)
+  ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `DocumentCollabState`
+  ADD CONSTRAINT `DocumentCollabState_documentId_fkey`
+  FOREIGN KEY (`documentId`) REFERENCES `Document`(`id`)
+  ON DELETE CASCADE ON UPDATE CASCADE;
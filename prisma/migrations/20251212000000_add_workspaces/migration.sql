@@ -0,0 +1,96 @@
+-- CreateTable Workspace (team space that shares personas, styles, folders and documents)
+CREATE TABLE `Workspace` (
+  `id` VARCHAR(191) NOT NULL,
+  `name` VARCHAR(120) NOT NULL,
+  `createdById` VARCHAR(191) NOT NULL,
+  `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  `updatedAt` DATETIME(3) NOT NULL,
+  PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable WorkspaceMember
+CREATE TABLE `WorkspaceMember` (
+  `workspaceId` VARCHAR(191) NOT NULL,
+  `userId` VARCHAR(191) NOT NULL,
+  `role` VARCHAR(20) NOT NULL DEFAULT 'editor',
+  `joinedAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  PRIMARY KEY (`workspaceId`, `userId`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable WorkspaceInvitation (pending invites are matched to users by email)
+CREATE TABLE `WorkspaceInvitation` (
+  `id` VARCHAR(191) NOT NULL,
+  `workspaceId` VARCHAR(191) NOT NULL,
+  `email` VARCHAR(191) NOT NULL,
+  `role` VARCHAR(20) NOT NULL DEFAULT 'editor',
+  `invitedById` VARCHAR(191) NOT NULL,
+  `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- Workspace scoping for shared content (NULL = personal)
+ALTER TABLE `Document` ADD COLUMN `workspaceId` VARCHAR(191) NULL;
+ALTER TABLE `Folder` ADD COLUMN `workspaceId` VARCHAR(191) NULL;
+ALTER TABLE `Persona` ADD COLUMN `workspaceId` VARCHAR(191) NULL;
+ALTER TABLE `User` ADD COLUMN `activeWorkspaceId` VARCHAR(191) NULL;
+
+-- Folder names are unique per owner within a workspace (or within the personal space)
+DROP INDEX `Folder_ownerId_name_key` ON `Folder`;
+CREATE UNIQUE INDEX `Folder_ownerId_workspaceId_name_key` ON `Folder`(`ownerId`, `workspaceId`, `name`);
+
+-- Indexes
+CREATE INDEX `Workspace_createdById_idx` ON `Workspace`(`createdById`);
+CREATE INDEX `WorkspaceMember_userId_idx` ON `WorkspaceMember`(`userId`);
+CREATE UNIQUE INDEX `WorkspaceInvitation_workspaceId_email_key` ON `WorkspaceInvitation`(`workspaceId`, `email`);
+CREATE INDEX `WorkspaceInvitation_email_idx` ON `WorkspaceInvitation`(`email`);
+CREATE INDEX `Document_workspaceId_idx` ON `Document`(`workspaceId`);
+CREATE INDEX `Folder_workspaceId_idx` ON `Folder`(`workspaceId`);
+CREATE INDEX `Persona_workspaceId_idx` ON `Persona`(`workspaceId`);
+CREATE INDEX `User_activeWorkspaceId_idx` ON `User`(`activeWorkspaceId`);
+
+-- Foreign Keys
+ALTER TABLE `Workspace`
+  ADD CONSTRAINT `Workspace_createdById_fkey`
+  FOREIGN KEY (`createdById`) REFERENCES `User`(`id`)
+  ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `WorkspaceMember`
+  ADD CONSTRAINT `WorkspaceMember_workspaceId_fkey`
+  FOREIGN KEY (`workspaceId`) REFERENCES `Workspace`(`id`)
+  ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `WorkspaceMember`
+  ADD CONSTRAINT `WorkspaceMember_userId_fkey`
+  FOREIGN KEY (`userId`) REFERENCES `User`(`id`)
+  ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `WorkspaceInvitation`
+  ADD CONSTRAINT `WorkspaceInvitation_workspaceId_fkey`
+  FOREIGN KEY (`workspaceId`) REFERENCES `Workspace`(`id`)
+  ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `WorkspaceInvitation`
+  ADD CONSTRAINT `WorkspaceInvitation_invitedById_fkey`
+  FOREIGN KEY (`invitedById`) REFERENCES `User`(`id`)
+  ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Deleting a workspace hands its content back to the members who created it
+ALTER TABLE `Document`
+  ADD CONSTRAINT `Document_workspaceId_fkey`
+  FOREIGN KEY (`workspaceId`) REFERENCES `Workspace`(`id`)
+  ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE `Folder`
+  ADD CONSTRAINT `Folder_workspaceId_fkey`
+  FOREIGN KEY (`workspaceId`) REFERENCES `Workspace`(`id`)
+  ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE `Persona`
+  ADD CONSTRAINT `Persona_workspaceId_fkey`
+  FOREIGN KEY (`workspaceId`) REFERENCES `Workspace`(`id`)
+  ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE `User`
+  ADD CONSTRAINT `User_activeWorkspaceId_fkey`
+  FOREIGN KEY (`activeWorkspaceId`) REFERENCES `Workspace`(`id`)
+  ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- Full-text indexes backing GET /api/search (MATCH ... AGAINST in BOOLEAN MODE)
+CREATE FULLTEXT INDEX `Document_search_idx` ON `Document`(`title`, `content`, `prompt`, `styleTitle`, `styleSummary`);
+
+CREATE FULLTEXT INDEX `Persona_search_idx` ON `Persona`(`name`, `info`);
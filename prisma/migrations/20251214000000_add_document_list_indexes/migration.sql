@@ -0,0 +1,4 @@
+-- Keyset pagination for GET /api/documents walks (scope, updatedAt, id)
+CREATE INDEX `Document_ownerId_updatedAt_idx` ON `Document`(`ownerId`, `updatedAt`);
+
+CREATE INDEX `Document_workspaceId_updatedAt_idx` ON `Document`(`workspaceId`, `updatedAt`);
@@ -0,0 +1,22 @@
+-- CreateTable DocumentEmbedding (vectors behind GET /api/documents/[id]/similar)
+CREATE TABLE `DocumentEmbedding` (
+  `id` VARCHAR(191) NOT NULL,
+  `documentId` VARCHAR(191) NOT NULL,
+  `field` VARCHAR(20) NOT NULL,
+  `model` VARCHAR(100) NOT NULL,
+  `contentHash` CHAR(64) NOT NULL,
+  `dimensions` INTEGER NOT NULL,
+  `vector` MEDIUMBLOB NOT NULL,
+  `updatedAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3) ON UPDATE CURRENT_TIMESTAMP(3),
+  PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- Indexes for DocumentEmbedding
+CREATE UNIQUE INDEX `DocumentEmbedding_documentId_field_key` ON `DocumentEmbedding`(`documentId`, `field`);
+CREATE INDEX `DocumentEmbedding_model_idx` ON `DocumentEmbedding`(`model`);
+
+-- Foreign Keys
+ALTER TABLE `DocumentEmbedding`
+  ADD CONSTRAINT `DocumentEmbedding_documentId_fkey`
+  FOREIGN KEY (`documentId`) REFERENCES `Document`(`id`)
+  ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,83 @@
+-- CreateTable Source (uploaded reference material)
+CREATE TABLE `Source` (
+  `id` VARCHAR(191) NOT NULL,
+  `title` VARCHAR(255) NOT NULL,
+  `kind` VARCHAR(10) NOT NULL,
+  `fileName` VARCHAR(255) NULL,
+  `url` TEXT NULL,
+  `byteSize` INTEGER NOT NULL DEFAULT 0,
+  `characterCount` INTEGER NOT NULL DEFAULT 0,
+  `ownerId` VARCHAR(191) NOT NULL,
+  `workspaceId` VARCHAR(191) NULL,
+  `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  `updatedAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3) ON UPDATE CURRENT_TIMESTAMP(3),
+  PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable SourceChunk
+CREATE TABLE `SourceChunk` (
+  `id` VARCHAR(191) NOT NULL,
+  `sourceId` VARCHAR(191) NOT NULL,
+  `position` INTEGER NOT NULL,
+  `content` TEXT NOT NULL,
+  PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable PersonaSource / FolderSource (attachments)
+CREATE TABLE `PersonaSource` (
+  `personaId` VARCHAR(191) NOT NULL,
+  `sourceId` VARCHAR(191) NOT NULL,
+  `attachedAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  PRIMARY KEY (`personaId`, `sourceId`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+CREATE TABLE `FolderSource` (
+  `folderId` VARCHAR(191) NOT NULL,
+  `sourceId` VARCHAR(191) NOT NULL,
+  `attachedAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  PRIMARY KEY (`folderId`, `sourceId`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- Indexes
+CREATE INDEX `Source_ownerId_idx` ON `Source`(`ownerId`);
+CREATE INDEX `Source_workspaceId_idx` ON `Source`(`workspaceId`);
+CREATE UNIQUE INDEX `SourceChunk_sourceId_position_key` ON `SourceChunk`(`sourceId`, `position`);
+CREATE FULLTEXT INDEX `SourceChunk_search_idx` ON `SourceChunk`(`content`);
+CREATE INDEX `PersonaSource_sourceId_idx` ON `PersonaSource`(`sourceId`);
+CREATE INDEX `FolderSource_sourceId_idx` ON `FolderSource`(`sourceId`);
+
+-- Foreign Keys
+ALTER TABLE `Source`
+  ADD CONSTRAINT `Source_ownerId_fkey`
+  FOREIGN KEY (`ownerId`) REFERENCES `User`(`id`)
+  ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `Source`
+  ADD CONSTRAINT `Source_workspaceId_fkey`
+  FOREIGN KEY (`workspaceId`) REFERENCES `Workspace`(`id`)
+  ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE `SourceChunk`
+  ADD CONSTRAINT `SourceChunk_sourceId_fkey`
+  FOREIGN KEY (`sourceId`) REFERENCES `Source`(`id`)
+  ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `PersonaSource`
+  ADD CONSTRAINT `PersonaSource_personaId_fkey`
+  FOREIGN KEY (`personaId`) REFERENCES `Persona`(`id`)
+  ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `PersonaSource`
+  ADD CONSTRAINT `PersonaSource_sourceId_fkey`
+  FOREIGN KEY (`sourceId`) REFERENCES `Source`(`id`)
+  ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `FolderSource`
+  ADD CONSTRAINT `FolderSource_folderId_fkey`
+  FOREIGN KEY (`folderId`) REFERENCES `Folder`(`id`)
+  ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `FolderSource`
+  ADD CONSTRAINT `FolderSource_sourceId_fkey`
+  FOREIGN KEY (`sourceId`) REFERENCES `Source`(`id`)
+  ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,39 @@
+-- CreateTable ExportTemplate (reference .docx for branded exports)
+CREATE TABLE `ExportTemplate` (
+  `id` VARCHAR(191) NOT NULL,
+  `name` VARCHAR(120) NOT NULL,
+  `fileName` VARCHAR(255) NOT NULL,
+  `byteSize` INTEGER NOT NULL DEFAULT 0,
+  `data` LONGBLOB NOT NULL,
+  `titlePage` JSON NULL,
+  `isDefault` BOOLEAN NOT NULL DEFAULT false,
+  `ownerId` VARCHAR(191) NOT NULL,
+  `workspaceId` VARCHAR(191) NULL,
+  `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  `updatedAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3) ON UPDATE CURRENT_TIMESTAMP(3),
+  PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AlterTable Persona: the template its exports use
+ALTER TABLE `Persona` ADD COLUMN `exportTemplateId` VARCHAR(191) NULL;
+
+-- Indexes
+CREATE INDEX `ExportTemplate_ownerId_idx` ON `ExportTemplate`(`ownerId`);
+CREATE INDEX `ExportTemplate_workspaceId_idx` ON `ExportTemplate`(`workspaceId`);
+CREATE INDEX `Persona_exportTemplateId_idx` ON `Persona`(`exportTemplateId`);
+
+-- Foreign Keys
+ALTER TABLE `ExportTemplate`
+  ADD CONSTRAINT `ExportTemplate_ownerId_fkey`
+  FOREIGN KEY (`ownerId`) REFERENCES `User`(`id`)
+  ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `ExportTemplate`
+  ADD CONSTRAINT `ExportTemplate_workspaceId_fkey`
+  FOREIGN KEY (`workspaceId`) REFERENCES `Workspace`(`id`)
+  ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE `Persona`
+  ADD CONSTRAINT `Persona_exportTemplateId_fkey`
+  FOREIGN KEY (`exportTemplateId`) REFERENCES `ExportTemplate`(`id`)
+  ON DELETE SET NULL ON UPDATE CASCADE;
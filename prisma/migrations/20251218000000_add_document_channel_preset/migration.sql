@@ -0,0 +1,3 @@
+-- Platform output preset a document was composed with (Google RSA, email, SMS, ...)
+ALTER TABLE `Document`
+ADD COLUMN `channelPreset` VARCHAR(40) NULL;
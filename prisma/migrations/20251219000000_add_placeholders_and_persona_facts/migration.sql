@@ -0,0 +1,7 @@
+-- Typed placeholder values per document, keyed by normalized label
+ALTER TABLE `Document`
+ADD COLUMN `placeholders` JSON NULL;
+
+-- Persona facts (company name, website, CTA, phone, ...) that auto-fill matching placeholders
+ALTER TABLE `Persona`
+ADD COLUMN `facts` JSON NULL;
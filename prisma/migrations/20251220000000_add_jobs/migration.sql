@@ -0,0 +1,41 @@
+-- CreateTable Job (background work claimed by the job worker)
+CREATE TABLE `Job` (
+  `id` VARCHAR(191) NOT NULL,
+  `kind` VARCHAR(20) NOT NULL,
+  `status` VARCHAR(20) NOT NULL DEFAULT 'queued',
+  `payload` JSON NOT NULL,
+  `progress` JSON NULL,
+  `result` JSON NULL,
+  `error` TEXT NULL,
+  `artifact` LONGBLOB NULL,
+  `artifactName` VARCHAR(255) NULL,
+  `attempts` INTEGER NOT NULL DEFAULT 0,
+  `maxAttempts` INTEGER NOT NULL DEFAULT 3,
+  `runAfter` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  `lockedBy` VARCHAR(120) NULL,
+  `lockedAt` DATETIME(3) NULL,
+  `cancelRequested` BOOLEAN NOT NULL DEFAULT false,
+  `ownerId` VARCHAR(191) NOT NULL,
+  `documentId` VARCHAR(191) NULL,
+  `startedAt` DATETIME(3) NULL,
+  `finishedAt` DATETIME(3) NULL,
+  `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  `updatedAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3) ON UPDATE CURRENT_TIMESTAMP(3),
+  PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- Indexes: the worker claims by status and due time; users list their own jobs newest first
+CREATE INDEX `Job_status_runAfter_idx` ON `Job`(`status`, `runAfter`);
+CREATE INDEX `Job_ownerId_createdAt_idx` ON `Job`(`ownerId`, `createdAt`);
+CREATE INDEX `Job_documentId_idx` ON `Job`(`documentId`);
+
+-- Foreign Keys
+ALTER TABLE `Job`
+  ADD CONSTRAINT `Job_ownerId_fkey`
+  FOREIGN KEY (`ownerId`) REFERENCES `User`(`id`)
+  ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `Job`
+  ADD CONSTRAINT `Job_documentId_fkey`
+  FOREIGN KEY (`documentId`) REFERENCES `Document`(`id`)
+  ON DELETE SET NULL ON UPDATE CASCADE;
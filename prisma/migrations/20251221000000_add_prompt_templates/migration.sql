@@ -0,0 +1,45 @@
+-- CreateTable PromptTemplate (reusable compose prompts with variables)
+CREATE TABLE `PromptTemplate` (
+  `id` VARCHAR(191) NOT NULL,
+  `name` VARCHAR(120) NOT NULL,
+  `description` VARCHAR(300) NULL,
+  `body` TEXT NOT NULL,
+  `variables` JSON NULL,
+  `settings` JSON NULL,
+  `folder` VARCHAR(80) NULL,
+  `tags` JSON NULL,
+  `styleDocumentId` VARCHAR(191) NULL,
+  `personaId` VARCHAR(191) NULL,
+  `ownerId` VARCHAR(191) NOT NULL,
+  `workspaceId` VARCHAR(191) NULL,
+  `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  `updatedAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3) ON UPDATE CURRENT_TIMESTAMP(3),
+  PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- Indexes
+CREATE INDEX `PromptTemplate_ownerId_idx` ON `PromptTemplate`(`ownerId`);
+CREATE INDEX `PromptTemplate_workspaceId_idx` ON `PromptTemplate`(`workspaceId`);
+CREATE INDEX `PromptTemplate_styleDocumentId_idx` ON `PromptTemplate`(`styleDocumentId`);
+CREATE INDEX `PromptTemplate_personaId_idx` ON `PromptTemplate`(`personaId`);
+
+-- Foreign Keys
+ALTER TABLE `PromptTemplate`
+  ADD CONSTRAINT `PromptTemplate_ownerId_fkey`
+  FOREIGN KEY (`ownerId`) REFERENCES `User`(`id`)
+  ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `PromptTemplate`
+  ADD CONSTRAINT `PromptTemplate_workspaceId_fkey`
+  FOREIGN KEY (`workspaceId`) REFERENCES `Workspace`(`id`)
+  ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE `PromptTemplate`
+  ADD CONSTRAINT `PromptTemplate_styleDocumentId_fkey`
+  FOREIGN KEY (`styleDocumentId`) REFERENCES `Document`(`id`)
+  ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE `PromptTemplate`
+  ADD CONSTRAINT `PromptTemplate_personaId_fkey`
+  FOREIGN KEY (`personaId`) REFERENCES `Persona`(`id`)
+  ON DELETE SET NULL ON UPDATE CASCADE;
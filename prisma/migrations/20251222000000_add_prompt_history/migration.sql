@@ -0,0 +1,45 @@
+-- CreateTable PromptHistory (compose and rewrite prompts, for users and guests)
+CREATE TABLE `PromptHistory` (
+  `id` VARCHAR(191) NOT NULL,
+  `kind` VARCHAR(20) NOT NULL,
+  `prompt` TEXT NOT NULL,
+  `settings` JSON NULL,
+  `personaId` VARCHAR(191) NULL,
+  `personaName` VARCHAR(100) NULL,
+  `styleDocumentId` VARCHAR(191) NULL,
+  `styleGuide` JSON NULL,
+  `documentId` VARCHAR(191) NULL,
+  `tokens` INTEGER NOT NULL DEFAULT 0,
+  `userId` VARCHAR(191) NULL,
+  `guestId` VARCHAR(64) NULL,
+  `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- Indexes
+CREATE INDEX `PromptHistory_userId_createdAt_idx` ON `PromptHistory`(`userId`, `createdAt`);
+CREATE INDEX `PromptHistory_guestId_createdAt_idx` ON `PromptHistory`(`guestId`, `createdAt`);
+CREATE INDEX `PromptHistory_personaId_idx` ON `PromptHistory`(`personaId`);
+CREATE INDEX `PromptHistory_documentId_idx` ON `PromptHistory`(`documentId`);
+CREATE INDEX `PromptHistory_styleDocumentId_idx` ON `PromptHistory`(`styleDocumentId`);
+
+-- Foreign Keys
+ALTER TABLE `PromptHistory`
+  ADD CONSTRAINT `PromptHistory_userId_fkey`
+  FOREIGN KEY (`userId`) REFERENCES `User`(`id`)
+  ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `PromptHistory`
+  ADD CONSTRAINT `PromptHistory_personaId_fkey`
+  FOREIGN KEY (`personaId`) REFERENCES `Persona`(`id`)
+  ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE `PromptHistory`
+  ADD CONSTRAINT `PromptHistory_documentId_fkey`
+  FOREIGN KEY (`documentId`) REFERENCES `Document`(`id`)
+  ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE `PromptHistory`
+  ADD CONSTRAINT `PromptHistory_styleDocumentId_fkey`
+  FOREIGN KEY (`styleDocumentId`) REFERENCES `Document`(`id`)
+  ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable WorkspaceInvitation (SHA-256 of the secret sent in the invite link; older invitations have none and must be re-sent)
+ALTER TABLE `WorkspaceInvitation` ADD COLUMN `tokenHash` VARCHAR(64) NULL;
+
+-- Indexes
+CREATE UNIQUE INDEX `WorkspaceInvitation_tokenHash_key` ON `WorkspaceInvitation`(`tokenHash`);
@@ -0,0 +1,54 @@
+/**
+ * Embeds every saved document and style that has no vector yet (or was indexed with a
+ * different model), so "find similar" covers content written before embeddings existed.
+ *
+ *   EMBEDDING_PROVIDER=openai npm run embeddings:backfill
+ *
+ * Safe to re-run: unchanged fields are skipped by content hash.
+ */
+import { PrismaClient } from "@prisma/client";
+import { indexDocumentEmbeddings } from "../src/lib/embeddings";
+import { getEmbeddingProvider } from "../src/lib/llm";
+
+const BATCH_SIZE = 50;
+
+const prisma = new PrismaClient();
+
+async function backfillEmbeddings() {
+  if (!getEmbeddingProvider()) {
+    throw new Error("No embedding provider configured. Set EMBEDDING_PROVIDER to openai, local or fake.");
+  }
+
+  let cursor: string | undefined;
+  let scanned = 0;
+  let embedded = 0;
+  for (;;) {
+    const batch = await prisma.document.findMany({
+      select: { id: true },
+      orderBy: { id: "asc" },
+      take: BATCH_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {})
+    });
+    if (!batch.length) break;
+
+    for (const { id } of batch) {
+      try {
+        embedded += await indexDocumentEmbeddings(prisma, id, { force: true });
+      } catch (error) {
+        console.error(`   ✗ ${id}:`, error instanceof Error ? error.message : error);
+      }
+    }
+    scanned += batch.length;
+    cursor = batch[batch.length - 1].id;
+    console.log(`   ✓ ${scanned} documents scanned, ${embedded} fields embedded`);
+  }
+
+  console.log(`\nDone. ${embedded} fields embedded across ${scanned} documents.`);
+}
+
+backfillEmbeddings()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,370 @@
+/**
+ * Self-hosted Yjs websocket server for collaborative document editing.
+ *
+ *   COLLAB_PORT=1234 npm run collab
+ *
+ * Clients connect to ws://host:COLLAB_PORT/<documentId>?token=<collab token> using the token
+ * issued by GET /api/documents/[id]/collab. The merged Yjs state is persisted to
+ * DocumentCollabState and rendered back into Document.content as markdown.
+ *
+ * POST /<documentId>/reload { content } (Authorization: Bearer <editor token>) replaces a live
+ * room's content, e.g. after a version restore, as an edit every connected client receives.
+ */
+import http from "http";
+import { PrismaClient } from "@prisma/client";
+import { WebSocketServer, WebSocket, type RawData } from "ws";
+import * as Y from "yjs";
+import * as syncProtocol from "y-protocols/sync";
+import * as awarenessProtocol from "y-protocols/awareness";
+import * as encoding from "lib0/encoding";
+import * as decoding from "lib0/decoding";
+import { getSchema } from "@tiptap/core";
+import StarterKit from "@tiptap/starter-kit";
+import { prosemirrorJSONToYXmlFragment, yXmlFragmentToProsemirrorJSON } from "@tiptap/y-tiptap";
+import { verifyCollabToken, type CollabTokenPayload } from "../src/lib/collab/token";
+import { markdownToProseMirrorJSON, proseMirrorJSONToMarkdown, type PMNode } from "../src/lib/collab/markdown";
+
+const PORT = Number(process.env.COLLAB_PORT ?? "1234");
+const PERSIST_DEBOUNCE_MS = Number(process.env.COLLAB_PERSIST_DEBOUNCE_MS ?? "2000");
+const MAX_RELOAD_BODY_BYTES = 5 * 1024 * 1024;
+// Tiptap's Collaboration extension binds to this fragment name by default
+const FRAGMENT_NAME = "default";
+
+const MESSAGE_SYNC = 0;
+const MESSAGE_AWARENESS = 1;
+// Marks updates replayed from DocumentCollabState so loading a room does not count as an edit
+const LOAD_ORIGIN = "collab-load";
+
+const prisma = new PrismaClient();
+const schema = getSchema([StarterKit]);
+
+type Room = {
+  documentId: string;
+  doc: Y.Doc;
+  awareness: awarenessProtocol.Awareness;
+  connections: Map<WebSocket, { readOnly: boolean; clientIds: Set<number> }>;
+  persistTimer: NodeJS.Timeout | null;
+  dirty: boolean;
+  ready: Promise<void>;
+};
+
+const rooms = new Map<string, Room>();
+
+function send(room: Room, socket: WebSocket, message: Uint8Array) {
+  if (socket.readyState !== WebSocket.OPEN) {
+    closeConnection(room, socket);
+    return;
+  }
+  socket.send(message, (error) => {
+    if (error) closeConnection(room, socket);
+  });
+}
+
+function broadcast(room: Room, message: Uint8Array) {
+  room.connections.forEach((_state, socket) => send(room, socket, message));
+}
+
+async function loadRoomState(room: Room) {
+  const stored = await prisma.documentCollabState.findUnique({ where: { documentId: room.documentId } });
+  if (stored?.state) {
+    Y.applyUpdate(room.doc, new Uint8Array(stored.state), LOAD_ORIGIN);
+    return;
+  }
+
+  // First collaborative session for this document: seed the CRDT from the saved markdown
+  const document = await prisma.document.findUnique({
+    where: { id: room.documentId },
+    select: { content: true }
+  });
+  if (document?.content) {
+    prosemirrorJSONToYXmlFragment(schema, markdownToProseMirrorJSON(document.content), room.doc.getXmlFragment(FRAGMENT_NAME));
+  }
+}
+
+async function persistRoom(room: Room) {
+  if (room.persistTimer) {
+    clearTimeout(room.persistTimer);
+    room.persistTimer = null;
+  }
+  if (!room.dirty) return;
+  room.dirty = false;
+  const state = Buffer.from(Y.encodeStateAsUpdate(room.doc));
+  const content = proseMirrorJSONToMarkdown(
+    yXmlFragmentToProsemirrorJSON(room.doc.getXmlFragment(FRAGMENT_NAME)) as PMNode
+  );
+
+  try {
+    await prisma.$transaction([
+      prisma.documentCollabState.upsert({
+        where: { documentId: room.documentId },
+        create: { documentId: room.documentId, state },
+        update: { state }
+      }),
+      prisma.document.update({
+        where: { id: room.documentId },
+        data: { content }
+      })
+    ]);
+  } catch (error) {
+    room.dirty = true;
+    console.error("[collab] persist failed", room.documentId, error);
+  }
+}
+
+function getRoom(documentId: string): Room {
+  const existing = rooms.get(documentId);
+  if (existing) return existing;
+
+  const doc = new Y.Doc({ gc: true });
+  const awareness = new awarenessProtocol.Awareness(doc);
+  awareness.setLocalState(null);
+
+  const room: Room = {
+    documentId,
+    doc,
+    awareness,
+    connections: new Map(),
+    persistTimer: null,
+    dirty: false,
+    ready: Promise.resolve()
+  };
+
+  room.ready = loadRoomState(room).catch((error) => {
+    console.error("[collab] failed to load document", documentId, error);
+  });
+
+  doc.on("update", (update: Uint8Array, origin: unknown) => {
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_SYNC);
+    syncProtocol.writeUpdate(encoder, update);
+    broadcast(room, encoding.toUint8Array(encoder));
+
+    if (origin === LOAD_ORIGIN) return;
+    room.dirty = true;
+    if (room.persistTimer) clearTimeout(room.persistTimer);
+    room.persistTimer = setTimeout(() => void persistRoom(room), PERSIST_DEBOUNCE_MS);
+  });
+
+  awareness.on(
+    "update",
+    (
+      { added, updated, removed }: { added: number[]; updated: number[]; removed: number[] },
+      origin: unknown
+    ) => {
+      const changed = added.concat(updated, removed);
+      const connectionState = origin instanceof WebSocket ? room.connections.get(origin) : undefined;
+      if (connectionState) {
+        added.forEach((clientId) => connectionState.clientIds.add(clientId));
+        removed.forEach((clientId) => connectionState.clientIds.delete(clientId));
+      }
+      const encoder = encoding.createEncoder();
+      encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+      encoding.writeVarUint8Array(encoder, awarenessProtocol.encodeAwarenessUpdate(awareness, changed));
+      broadcast(room, encoding.toUint8Array(encoder));
+    }
+  );
+
+  rooms.set(documentId, room);
+  return room;
+}
+
+function closeConnection(room: Room, socket: WebSocket) {
+  const state = room.connections.get(socket);
+  if (!state) return;
+  room.connections.delete(socket);
+  awarenessProtocol.removeAwarenessStates(room.awareness, Array.from(state.clientIds), null);
+  socket.close();
+
+  if (room.connections.size === 0) {
+    // Last editor left: flush immediately and free the room
+    void persistRoom(room).finally(() => {
+      if (room.connections.size === 0) {
+        room.doc.destroy();
+        rooms.delete(room.documentId);
+      }
+    });
+  }
+}
+
+function handleMessage(room: Room, socket: WebSocket, data: Uint8Array) {
+  const state = room.connections.get(socket);
+  if (!state) return;
+
+  const decoder = decoding.createDecoder(data);
+  const encoder = encoding.createEncoder();
+  const messageType = decoding.readVarUint(decoder);
+
+  if (messageType === MESSAGE_SYNC) {
+    encoding.writeVarUint(encoder, MESSAGE_SYNC);
+    if (state.readOnly) {
+      // Viewers may request state (step 1) but their updates are never applied
+      const syncType = decoding.readVarUint(decoder);
+      if (syncType === syncProtocol.messageYjsSyncStep1) {
+        syncProtocol.readSyncStep1(decoder, encoder, room.doc);
+      }
+    } else {
+      syncProtocol.readSyncMessage(decoder, encoder, room.doc, socket);
+    }
+    if (encoding.length(encoder) > 1) {
+      send(room, socket, encoding.toUint8Array(encoder));
+    }
+  } else if (messageType === MESSAGE_AWARENESS) {
+    awarenessProtocol.applyAwarenessUpdate(room.awareness, decoding.readVarUint8Array(decoder), socket);
+  }
+}
+
+async function handleConnection(socket: WebSocket, documentId: string, readOnly: boolean) {
+  const room = getRoom(documentId);
+  room.connections.set(socket, { readOnly, clientIds: new Set() });
+
+  // Buffer messages that arrive while the room is still loading from MySQL
+  const pending: Uint8Array[] = [];
+  let loaded = false;
+  socket.on("message", (raw: RawData) => {
+    const data = new Uint8Array(raw as Buffer);
+    if (loaded) handleMessage(room, socket, data);
+    else pending.push(data);
+  });
+  socket.on("close", () => closeConnection(room, socket));
+
+  await room.ready;
+  loaded = true;
+
+  const syncEncoder = encoding.createEncoder();
+  encoding.writeVarUint(syncEncoder, MESSAGE_SYNC);
+  syncProtocol.writeSyncStep1(syncEncoder, room.doc);
+  send(room, socket, encoding.toUint8Array(syncEncoder));
+
+  const awarenessStates = room.awareness.getStates();
+  if (awarenessStates.size > 0) {
+    const awarenessEncoder = encoding.createEncoder();
+    encoding.writeVarUint(awarenessEncoder, MESSAGE_AWARENESS);
+    encoding.writeVarUint8Array(
+      awarenessEncoder,
+      awarenessProtocol.encodeAwarenessUpdate(room.awareness, Array.from(awarenessStates.keys()))
+    );
+    send(room, socket, encoding.toUint8Array(awarenessEncoder));
+  }
+
+  pending.splice(0).forEach((data) => handleMessage(room, socket, data));
+}
+
+/** A missing secret makes verification throw; treat it like a bad token. */
+function readCollabToken(token: string): CollabTokenPayload | null {
+  try {
+    return verifyCollabToken(token);
+  } catch (error) {
+    console.error("[collab] token verification failed", error);
+    return null;
+  }
+}
+
+function readBody(request: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    request.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_RELOAD_BODY_BYTES) {
+        reject(new Error("Body too large"));
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    request.on("error", reject);
+  });
+}
+
+/**
+ * Rewrites the room's fragment to `content`. The fragment is diffed like any edit, so connected
+ * clients converge on the new text instead of syncing their old state back over it.
+ */
+async function reloadRoom(documentId: string, content: string): Promise<boolean> {
+  const room = rooms.get(documentId);
+  if (!room) return false;
+  await room.ready;
+  room.doc.transact(() => {
+    prosemirrorJSONToYXmlFragment(schema, markdownToProseMirrorJSON(content), room.doc.getXmlFragment(FRAGMENT_NAME));
+  });
+  return true;
+}
+
+async function handleReload(request: http.IncomingMessage, response: http.ServerResponse, documentId: string) {
+  const token = (request.headers.authorization ?? "").replace(/^Bearer\s+/i, "");
+  const payload = readCollabToken(token);
+  if (!payload || payload.documentId !== documentId || payload.readOnly) {
+    response.writeHead(401, { "Content-Type": "application/json" });
+    response.end(JSON.stringify({ error: "Unauthorized" }));
+    return;
+  }
+
+  let content: unknown;
+  try {
+    content = JSON.parse(await readBody(request))?.content;
+  } catch {
+    content = undefined;
+  }
+  if (typeof content !== "string") {
+    response.writeHead(400, { "Content-Type": "application/json" });
+    response.end(JSON.stringify({ error: "Expected { content }" }));
+    return;
+  }
+
+  const reloaded = await reloadRoom(documentId, content);
+  response.writeHead(200, { "Content-Type": "application/json" });
+  response.end(JSON.stringify({ reloaded }));
+}
+
+const server = http.createServer((request, response) => {
+  const url = new URL(request.url ?? "/", "http://localhost");
+  const reload = request.method === "POST" ? /^\/+([^/]+)\/reload$/.exec(url.pathname) : null;
+  if (reload) {
+    handleReload(request, response, decodeURIComponent(reload[1])).catch((error) => {
+      console.error("[collab] reload failed", error);
+      if (!response.headersSent) response.writeHead(500);
+      response.end();
+    });
+    return;
+  }
+  response.writeHead(200, { "Content-Type": "text/plain" });
+  response.end("ok");
+});
+const wss = new WebSocketServer({ noServer: true });
+
+server.on("upgrade", (request, socket, head) => {
+  const url = new URL(request.url ?? "/", "http://localhost");
+  let documentId = "";
+  try {
+    documentId = decodeURIComponent(url.pathname.replace(/^\/+/, ""));
+  } catch {
+    // Malformed escape sequence; rejected below like a missing id
+  }
+  const payload = documentId ? readCollabToken(url.searchParams.get("token") ?? "") : null;
+
+  if (!documentId || !payload || payload.documentId !== documentId) {
+    socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
+    socket.destroy();
+    return;
+  }
+
+  wss.handleUpgrade(request, socket, head, (ws) => {
+    void handleConnection(ws, documentId, payload.readOnly);
+  });
+});
+
+async function shutdown() {
+  const flushes: Promise<void>[] = [];
+  rooms.forEach((room) => flushes.push(persistRoom(room)));
+  await Promise.all(flushes);
+  await prisma.$disconnect();
+  process.exit(0);
+}
+
+process.on("SIGINT", () => void shutdown());
+process.on("SIGTERM", () => void shutdown());
+
+server.listen(PORT, () => {
+  console.log(`[collab] listening on ws://localhost:${PORT}`);
+});
@@ -0,0 +1,55 @@
+/**
+ * Runs queued background jobs (compose, batch generation, style extraction, exports) outside the
+ * web server. Start one or more alongside `next start` with the web server set to enqueue only:
+ *
+ *   JOB_RUNNER=worker npm run start
+ *   npm run jobs:worker
+ *
+ * Polls every JOB_POLL_INTERVAL_MS (default 2000) and runs JOB_CONCURRENCY jobs at a time.
+ * SIGINT/SIGTERM stop claiming new jobs and exit once the running ones finish.
+ */
+import { PrismaClient } from "@prisma/client";
+import { createWorkerId } from "../src/lib/jobs/queue";
+import { JOB_CONCURRENCY, drainJobs } from "../src/lib/jobs/worker";
+
+const POLL_INTERVAL_MS = Math.max(250, Number(process.env.JOB_POLL_INTERVAL_MS ?? "2000") || 2000);
+
+const prisma = new PrismaClient();
+
+let stopping = false;
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function runWorker() {
+  const workerId = createWorkerId();
+  console.log(`Job worker ${workerId} started (${JOB_CONCURRENCY} at a time, polling every ${POLL_INTERVAL_MS}ms)`);
+
+  while (!stopping) {
+    try {
+      const ran = await drainJobs(prisma, { workerId, shouldStop: () => stopping });
+      if (ran) console.log(`   ✓ ${ran} jobs run`);
+    } catch (error) {
+      console.error("   ✗ drain failed:", error instanceof Error ? error.message : error);
+    }
+    if (!stopping) await sleep(POLL_INTERVAL_MS);
+  }
+
+  console.log("\nJob worker stopped.");
+}
+
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.on(signal, () => {
+    if (stopping) process.exit(1);
+    console.log(`\n${signal} received; finishing running jobs (send again to exit now)...`);
+    stopping = true;
+  });
+}
+
+runWorker()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -4,36 +4,28 @@ import { auth } from "@/auth";
 import { composeRequestSchema } from "@/lib/validators";
 import { prisma } from "@/lib/prisma";
 import { smartTitleFromPrompt } from "@/lib/utils";
-import { getOpenAIClient } from "@/lib/openai";
-import { generateStyleMetadata } from "@/lib/style-metadata";
-
-const TOKEN_LIMIT = Number(process.env.LLM_TOKEN_LIMIT ?? "500000");
-type CookieStore = Awaited<ReturnType<typeof cookies>>;
-type UsageIdentifier = { userId: string } | { guestId: string };
-type UsageContext = { identifier: UsageIdentifier; guestCookie?: string };
-
-const SHORT_RULES =
-  "RULES: No em/en dashes, AI clichés, or repeated lines. Every word must earn its place and feel bespoke + human. Missing info stays in [brackets]; never ask follow-ups. Skip emojis unless requested. Vary pacing to avoid tidy triads or recap paragraphs. Never use 'X instead of Y' phrasing patterns. Vary list lengths—avoid always defaulting to exactly 3 bullet points. Favor sensory detail over filler.";
-const EXTENDED_RULES = `VITAL RULES FOR ALL OUTPUT:
-
-1. DO NOT USE EM DASHES OR EN DASHES.
-2. DO NOT WRITE WITH ANY AI WRITING TELLS OR RED FLAGS, ESPECIALLY NOT "NOT _, but _"-esque phrasing OR "X instead of Y" patterns (e.g., "Clicking instead of crafting", "Supervising instead of doing", "Approving instead of owning").
-3. DO NOT REPEAT SOMETHING THAT MEANS ESSENTIALLY THE SAME THING BUT IN DIFFERENT WORDS. 
-4. MAKE SURE THAT EVERY WORD SERVES A PURPOSE AND BRINGS ADDITIONAL MEANING OR DON'T USE IT AT ALL.
-5. ONLY PROVIDE TEXT THAT FEELS BESPOKE AND HUMAN.
-6. All missing info should be formatted in [] like [persona name], etc. Don't guess product name, service name, business name etc.
-7. DO NOT use emojis unless the user EXPLICITLY asks you to.
-8. NEVER ask the user for more information—provide the best possible answer immediately.
-9. Keep tone sharply specific; inject real-world detail and asymmetric sentence lengths.
-10. Avoid recap paragraphs, tidy triads, or BuzzFeed-style bullets. Vary list lengths—never default to exactly 3 bullet points. Use 2, 4, 5, or other counts naturally based on content needs.`;
-
-function buildSystemPrompt(personaInfo: string | null, useExtendedRules: boolean): string {
-  const base = useExtendedRules ? EXTENDED_RULES : SHORT_RULES;
-  if (!personaInfo) {
-    return base;
-  }
-  return `${base}\n\nPERSONA GUIDELINES:\n${personaInfo}\n\nAlways follow the persona guidance above.`;
-}
+import { estimateTokens, getLLMProvider, type LLMProvider } from "@/lib/llm";
+import { describeWritingStyle, generateStyleMetadata } from "@/lib/style-metadata";
+import { creationWorkspaceId, resolveWorkspaceScope } from "@/lib/workspaces";
+import { scheduleDocumentIndexing } from "@/lib/embeddings";
+import { variantAngles, type VariantAngle } from "@/lib/variants";
+import type { HouseRuleOptions } from "@/lib/house-rules";
+import type { LengthConstraints, LengthReport } from "@/lib/length-limits";
+import { reviseDraft } from "@/lib/draft-revision";
+import { channelFieldsToMarkdown, channelPreset, type ChannelFieldIssue, type ChannelFieldValues } from "@/lib/channel-presets";
+import { composeChannelFields } from "@/lib/channel-compose";
+import { autofillPlaceholders, syncPlaceholders } from "@/lib/placeholders";
+import { buildComposePrompts } from "@/lib/compose-prompt";
+import { loadComposeContext, type ComposeContext } from "@/lib/compose-context";
+import {
+  TOKEN_LIMIT,
+  attachGuestUsageCookie,
+  findTokenUsage,
+  incrementTokenUsage,
+  resolveUsageContext,
+  type UsageContext
+} from "@/lib/token-usage";
+import { recordPromptHistory } from "@/lib/prompt-history";
 
 export async function POST(request: Request) {
   const session = await auth();
@@ -55,22 +47,27 @@ export async function POST(request: Request) {
     return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
   }
 
-  const { prompt, settings, personaSummary, styleGuide, editorContext } = parsed.data;
+  const { prompt, settings, personaSummary, styleGuide, styleId, editorContext, grounding, personaId, variants, repairRules } =
+    parsed.data;
   const effectiveMarketTier = settings.marketTier ?? null;
+  // A channel preset's per-field limits replace the free-form length brief
+  const channel = channelPreset(settings.channelPreset);
+  const lengthConstraints: LengthConstraints = channel ? {} : settings;
 
-  let openai;
+  let llm;
   try {
-    openai = getOpenAIClient();
+    llm = getLLMProvider();
   } catch (error) {
-    console.error("compose openai init failed", error);
-    return NextResponse.json({ error: "OPENAI_API_KEY missing" }, { status: 500 });
+    console.error("compose llm init failed", error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : "LLM provider unavailable" }, { status: 500 });
   }
 
+  // Resolved whenever there is a database: usage and prompt history are recorded even with no limit set
   let usageContext: UsageContext | null = null;
-  if (prisma && TOKEN_LIMIT > 0) {
+  if (prisma) {
     try {
-      usageContext = resolveUsageContext(session, cookieStore);
-      if (usageContext) {
+      usageContext = resolveUsageContext(session?.user?.id, cookieStore);
+      if (TOKEN_LIMIT > 0) {
         const existingUsage = await findTokenUsage(usageContext.identifier);
         const consumed = existingUsage?.tokens ?? 0;
         if (consumed >= TOKEN_LIMIT) {
@@ -88,19 +85,26 @@ export async function POST(request: Request) {
     }
   }
 
-  // Fetch persona info from database or cookie
-  let personaInfo: string | null = personaSummary?.trim() || null;
-  if (!personaInfo && isAuthenticated && session?.user?.id && prisma) {
-    try {
-      const user = await prisma.user.findUnique({
-        where: { id: session.user.id }
-      }) as any;
-      personaInfo = user?.personaInfo ?? null;
-    } catch (error) {
-      console.error("Failed to fetch persona info from database", error);
-    }
+  // Signed-in composes draw on the saved persona, its facts and sources, and grounding
+  let context: ComposeContext = {
+    personaInfo: personaSummary?.trim() || null,
+    personaFacts: null,
+    groundingSection: "",
+    groundingSources: []
+  };
+  if (isAuthenticated && session?.user?.id && prisma) {
+    context = await loadComposeContext(prisma, {
+      userId: session.user.id,
+      query: prompt,
+      personaSummary,
+      personaId,
+      grounding,
+      excludeDocumentId: editorContext?.documentId ?? null
+    });
   }
-  
+  const { personaFacts, groundingSection, groundingSources } = context;
+  let personaInfo = context.personaInfo;
+
   // Fall back to cookie for guests or if DB lookup failed
   if (!personaInfo) {
     const guestPersonaValue = cookieStore.get("guest_persona_info")?.value ?? null;
@@ -114,282 +118,481 @@ export async function POST(request: Request) {
     }
   }
 
-  const wantsLongForm = /\b(long|longer|lengthy|detailed|essay|story|paragraphs?|pages?|novella|novel)\b/i.test(prompt);
-  const conciseDirective =
-    !wantsLongForm && !settings.wordLength && !settings.characterLength
-      ? "Keep the full response under ~180 words (roughly 12 lines) unless the user explicitly demands more length."
-      : null;
-
-  const directiveLines = [
-    conciseDirective,
-    effectiveMarketTier ? `Target market: ${effectiveMarketTier}.` : null,
-    settings.gradeLevel 
-      ? settings.gradeLevel === "ESL (English as Second Language)"
-        ? `Write for ESL (English as a Second Language) readers: Use literal, direct language. Avoid colloquialisms, idioms, slang, and figurative expressions. Prefer straightforward, concrete words over abstract or metaphorical language. Use clear, simple sentence structures.`
-        : `Write at approximately a ${settings.gradeLevel} reading level.`
-      : null,
-    settings.benchmark ? `Mirror the tone and polish of ${settings.benchmark}.` : null,
-    settings.characterLength
-      ? `Keep the entire response within ${settings.characterLength} characters. If it exceeds this limit, revise until it fits.`
-      : null,
-    settings.wordLength
-      ? `Aim for roughly ${settings.wordLength} words. Shorten or expand as needed to stay near that count.`
-      : null,
-    settings.avoidWords
-      ? `Do not use any of these words or close variants: ${settings.avoidWords}. If they are unavoidable, replace them with luxury synonyms.`
-      : null
-  ].filter(Boolean);
-
-  const briefSection = directiveLines.length ? `\n\nBrief:\n- ${directiveLines.join("\n- ")}` : "";
-  const personaSection = personaInfo
-    ? `\n\nPersona Summary (follow this precisely):\n${personaInfo}\n\nUse the persona summary above to fill in any missing context, voice, or positioning.`
-    : "";
-  const styleSection = styleGuide
-    ? `\n\nWriting Style (${styleGuide.name}):\n${styleGuide.description}\n\nMirror the cadence, vocabulary, and structure of the style described above in every sentence.`
-    : "";
-  const editorContextLines: string[] = [];
-  if (editorContext?.before) {
-    editorContextLines.push(`Text before cursor:\n${editorContext.before}`);
-  }
-  if (editorContext?.selection) {
-    editorContextLines.push(`Selected text (if any):\n${editorContext.selection}`);
-  }
-  if (editorContext?.after) {
-    editorContextLines.push(`Text after cursor:\n${editorContext.after}`);
-  }
-  const editorContextSection = editorContextLines.length
-    ? `\n\nEditor Cursor Context:\n${editorContextLines.join("\n\n")}\n\nUse this context to understand what surrounds the cursor so that instructions like "fill in the blank" or "finish the sentence" align with the existing copy. Continue directly after the "before" text without repeating or paraphrasing it, and flow cleanly into the "after" text if it exists. Only produce the missing connective copy.`
-    : "";
+  const { systemPrompt, userPrompt, maxOutputTokens } = buildComposePrompts({
+    prompt,
+    settings,
+    personaInfo,
+    styleGuide,
+    editorContext,
+    groundingSection,
+    channel: Boolean(channel)
+  });
+  const title = smartTitleFromPrompt(prompt);
+  // If there's an existing documentId, don't create/update here - let client handle saving via autosave
+  // This prevents creating duplicate documents when AI writes to an untitled doc
+  const existingDocumentId = editorContext?.documentId ?? null;
+  // Channel output is structured, so it is always a single draft
+  const angles = variants && !channel ? variantAngles(variants) : null;
+
+  // Aborted when the client disconnects (Stop button, closed tab) so the upstream call stops generating
+  const upstreamAbort = new AbortController();
+  const abortUpstream = () => upstreamAbort.abort();
+  request.signal?.addEventListener("abort", abortUpstream);
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    async start(controller) {
+      let closed = false;
+      const send = (type: string, data: Record<string, unknown> = {}) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(createSSEMessage(type, data)));
+        } catch {
+          closed = true;
+        }
+      };
+
+      let contentText = "";
+      let contentTokens = 0;
+      let styleTokens = 0;
+      let variantTokens = 0;
+      // House-rule repair and length revise passes
+      let revisionTokens = 0;
+      // Set once a draft reaches the client; only delivered drafts join the prompt history
+      let delivered = false;
+      let deliveredDocumentId: string | null = null;
+      // The new document a signed-in single draft is written into, created before generation starts
+      let createdDocumentId: string | null = null;
 
-  const instructionSection = `\n\nExecution Requirements:\n- Do not ask the user for more details.\n- Produce the final copy immediately.\n- If specific details are missing, infer them from the persona summary and the prompt.\n- When editor context is provided, start precisely after the "before" text and transition into the "after" text without repeating either.\n- Never return placeholder instructions to the user.\n- Output ONLY in markdown format. Use markdown syntax for headings (# for H1, ## for H2, ### for H3), bold (**text**), italic (*text*), lists (- or 1.), etc.\n`;
-  const userPrompt = `${prompt}${editorContextSection}${personaSection}${styleSection}${instructionSection}${briefSection}`;
-  const wantsExtendedRules = /(?:long|full|detailed|extended)\s+rules?/i.test(prompt);
+      try {
+        if (grounding?.enabled || groundingSources.length) {
+          send("sources", { sources: groundingSources });
+        }
 
-  try {
-    const systemPrompt = buildSystemPrompt(personaInfo, wantsExtendedRules);
+        // Variants are drafts to choose from: nothing is saved until the client accepts or merges one
+        if (angles) {
+          send("variants", { variants: angles.map((angle, index) => ({ index, label: angle.label })) });
+          const drafts = await streamVariantDrafts({
+            llm,
+            angles,
+            systemPrompt,
+            userPrompt,
+            maxOutputTokens,
+            rules: { avoidWords: settings.avoidWords },
+            repair: Boolean(repairRules),
+            constraints: settings,
+            signal: upstreamAbort.signal,
+            send
+          });
+          variantTokens = drafts.tokens;
+          if (upstreamAbort.signal.aborted) {
+            return;
+          }
+          if (!drafts.results.some((draft) => draft.text)) {
+            send("error", { error: "Unable to generate draft variants." });
+            return;
+          }
+          delivered = true;
+          deliveredDocumentId = existingDocumentId;
+          send("content", {
+            documentId: existingDocumentId,
+            title,
+            variants: angles.map((angle, index) => ({
+              index,
+              label: angle.label,
+              content: drafts.results[index].text,
+              length: drafts.results[index].length
+            })),
+            createdAt: new Date().toISOString(),
+            prompt,
+            groundingSources,
+            settings: {
+              ...settings,
+              marketTier: settings.marketTier ?? null
+            }
+          });
+          send("done");
+          return;
+        }
 
-    let contentText: string | null = null;
-    let contentTokens = 0;
-    const maxOutputTokens = conciseDirective ? 600 : 900;
-    try {
-      const contentResponse = await openai.responses.create({
-        model: "gpt-5.1",
-        temperature: 0.62,
-        max_output_tokens: maxOutputTokens,
-        input: [
-          {
-            role: "system",
-            content: systemPrompt
-          },
-          {
-            role: "user",
-            content: userPrompt
+        // Saved before the first token so a draft cut short by a closed tab or Stop is kept; the
+        // client learns the id from the `document` event and picks the document up from the list
+        if (!existingDocumentId && isAuthenticated && session?.user?.id && prisma) {
+          try {
+            const scope = await resolveWorkspaceScope(prisma, session.user.id);
+            const document = await prisma.document.create({
+              data: {
+                title,
+                content: "",
+                tone: effectiveMarketTier ?? undefined,
+                prompt,
+                characterLength: settings.characterLength ?? undefined,
+                wordLength: settings.wordLength ?? undefined,
+                gradeLevel: settings.gradeLevel ?? undefined,
+                benchmark: settings.benchmark ?? undefined,
+                avoidWords: settings.avoidWords ?? undefined,
+                channelPreset: channel?.id,
+                ownerId: session.user.id,
+                workspaceId: creationWorkspaceId(scope)
+              } as any
+            });
+            createdDocumentId = document.id;
+            send("document", { documentId: document.id });
+          } catch (err) {
+            console.error("[compose] Failed to persist composed document", err);
           }
-        ]
-      });
-      contentText = contentResponse.output_text?.trim() ?? null;
-      contentTokens = contentResponse.usage?.total_tokens ?? 0;
-    } catch (err) {
-      console.error("OpenAI content generation failed", err);
-      return NextResponse.json({ error: "Unable to generate draft content." }, { status: 502 });
-    }
+        }
 
-    if (!contentText) {
-      return NextResponse.json({ error: "The writing model returned an empty response." }, { status: 502 });
-    }
+        // Channel presets come back as JSON fields: nothing streams, and the fields are stored as markdown sections
+        let channelOutput: { values: ChannelFieldValues; issues: ChannelFieldIssue[] } | null = null;
+        if (channel) {
+          try {
+            const result = await composeChannelFields(channel, {
+              provider: llm,
+              systemPrompt,
+              userPrompt,
+              signal: upstreamAbort.signal
+            });
+            if (!result) {
+              send("error", { error: `Unable to generate ${channel.label} copy.` });
+              return;
+            }
+            contentTokens = result.tokensUsed;
+            channelOutput = { values: result.values, issues: result.issues };
+            contentText = channelFieldsToMarkdown(channel, result.values);
+          } catch (err) {
+            if (!upstreamAbort.signal.aborted) {
+              console.error("[compose] channel generation failed", err);
+              send("error", { error: `Unable to generate ${channel.label} copy.` });
+            }
+            return;
+          }
+        } else {
+          try {
+            const contentStream = llm.stream({
+              task: "draft",
+              temperature: 0.62,
+              maxOutputTokens,
+              messages: [
+                {
+                  role: "system",
+                  content: systemPrompt
+                },
+                {
+                  role: "user",
+                  content: userPrompt
+                }
+              ],
+              signal: upstreamAbort.signal
+            });
+            for await (const event of contentStream) {
+              if (event.type === "delta") {
+                contentText += event.text;
+                send("delta", { text: event.text });
+              } else {
+                contentTokens = event.usage.totalTokens;
+              }
+            }
+          } catch (err) {
+            if (!upstreamAbort.signal.aborted) {
+              console.error("LLM content generation failed", err);
+              send("error", { error: "Unable to generate draft content." });
+            }
+            return;
+          }
+        }
 
-    let writingStyle: string | null = null;
-    let styleTitle: string | null = null;
-    let styleSummary: string | null = null;
-    let styleTokens = 0;
-    try {
-      const styleResponse = await openai.responses.create({
-        model: "gpt-5.1",
-        temperature: 0.4,
-        max_output_tokens: 200,
-        response_format: { type: "json_object" },
-        input: [
-          {
-            role: "system",
-            content: `You are a writing analyst. Analyze the writing style of the given text and return a JSON object with exactly this field:
-- "description": A 2-3 sentence description of the writing style focusing on tone, voice, structure, vocabulary choices, and any distinctive characteristics.
-
-Return ONLY valid JSON with the "description" field, no other text.`
-          },
-          {
-            role: "user",
-            content: `Analyze the writing style of this text:\n\n${contentText}\n\nReturn JSON with "description" field.`
+        if (upstreamAbort.signal.aborted) {
+          return;
+        }
+
+        contentText = contentText.trim();
+        if (!contentText) {
+          send("error", { error: "The writing model returned an empty response." });
+          return;
+        }
+
+        // The streamed text is replaced by the revised draft in the `content` event. A free rewrite
+        // of channel sections could break their limits, so those drafts are only linted
+        const revised = await reviseDraft(contentText, {
+          provider: llm,
+          systemPrompt,
+          maxOutputTokens,
+          rules: { avoidWords: settings.avoidWords },
+          repair: Boolean(repairRules) && !channel,
+          constraints: lengthConstraints,
+          signal: upstreamAbort.signal
+        });
+        revisionTokens += revised.tokensUsed;
+        if (upstreamAbort.signal.aborted) {
+          return;
+        }
+        contentText = revised.text;
+
+        const placeholders = autofillPlaceholders(syncPlaceholders(contentText), personaFacts).placeholders;
+        let documentId: string | null = null;
+        let timestamp = new Date().toISOString();
+
+        if (createdDocumentId && prisma) {
+          try {
+            const document = await prisma.document.update({
+              where: { id: createdDocumentId },
+              data: {
+                content: contentText,
+                placeholders: Object.keys(placeholders).length ? placeholders : undefined
+              }
+            });
+            documentId = document.id;
+            timestamp = document.createdAt.toISOString();
+            console.log("[compose] Document saved:", documentId, "title:", title);
+          } catch (err) {
+            console.error("[compose] Failed to persist composed document", err);
+            // The client saves the draft itself when `content` has no document id
+            await prisma.document.delete({ where: { id: createdDocumentId } }).catch(() => undefined);
+            createdDocumentId = null;
           }
-        ]
-      });
-      
-      try {
-        const jsonText = styleResponse.output_text?.trim() ?? null;
-        if (jsonText) {
-          const parsed = JSON.parse(jsonText);
-          writingStyle = parsed.description?.trim() ?? null;
+        } else if (existingDocumentId) {
+          // Return the existing documentId so client knows which document to update
+          documentId = existingDocumentId;
+          console.log("[compose] Using existing document (content will be saved via autosave):", documentId);
         }
-      } catch (parseError) {
-        console.error("OpenAI style generation JSON parse failed", parseError, styleResponse.output_text);
-        // Fallback to raw text if JSON parsing fails
-        writingStyle = styleResponse.output_text?.trim() ?? null;
-      }
-      styleTokens = styleResponse.usage?.total_tokens ?? 0;
-    } catch (err) {
-      console.error("OpenAI style generation failed", err);
-      // Non-blocking: continue without style metadata
-    }
 
-    try {
-      const generatedMetadata = await generateStyleMetadata(
-        {
-          writingStyle,
+        // The draft is final at this point; style metadata follows as a separate event
+        delivered = true;
+        deliveredDocumentId = documentId;
+        send("content", {
+          documentId,
+          title,
           content: contentText,
-          styleTitle,
-          styleSummary
-        },
-        { openai }
-      );
-      styleTitle = generatedMetadata.styleTitle;
-      styleSummary = generatedMetadata.styleSummary;
-      styleTokens += generatedMetadata.tokensUsed;
-    } catch (err) {
-      console.error("Style metadata generation failed", err);
-    }
+          createdAt: timestamp,
+          prompt,
+          groundingSources,
+          houseRules: { remaining: revised.violations.length, fixed: revised.fixed },
+          length: revised.length,
+          placeholders,
+          ...(channel && channelOutput ? { channel: { preset: channel.id, fields: channelOutput.values, issues: channelOutput.issues } } : {}),
+          settings: {
+            ...settings,
+            marketTier: settings.marketTier ?? null
+          }
+        });
 
-    const title = smartTitleFromPrompt(prompt);
-    let documentId: string | null = null;
-    let timestamp = new Date().toISOString();
+        let writingStyle: string | null = null;
+        let styleTitle: string | null = null;
+        let styleSummary: string | null = null;
+        try {
+          const description = await describeWritingStyle(contentText, { provider: llm, signal: upstreamAbort.signal });
+          writingStyle = description.writingStyle;
+          styleTokens = description.tokensUsed;
+        } catch (err) {
+          if (upstreamAbort.signal.aborted) {
+            return;
+          }
+          console.error("LLM style generation failed", err);
+          // Non-blocking: continue without style metadata
+        }
 
-    // Check if we should update an existing document instead of creating a new one
-    const existingDocumentId = (editorContext as any)?.documentId;
+        try {
+          const generatedMetadata = await generateStyleMetadata(
+            {
+              writingStyle,
+              content: contentText,
+              styleTitle,
+              styleSummary
+            },
+            { provider: llm }
+          );
+          styleTitle = generatedMetadata.styleTitle;
+          styleSummary = generatedMetadata.styleSummary;
+          styleTokens += generatedMetadata.tokensUsed;
+        } catch (err) {
+          console.error("Style metadata generation failed", err);
+        }
 
-    // If there's an existing documentId, don't create/update here - let client handle saving via autosave
-    // This prevents creating duplicate documents when AI writes to an untitled doc
-    if (!existingDocumentId && isAuthenticated && session?.user?.id && prisma) {
-      try {
-        // Create new document only if no existing documentId was provided
-        const document = await prisma.document.create({
-          data: {
-            title,
-            content: contentText,
-            tone: effectiveMarketTier ?? undefined,
-            prompt,
-            characterLength: settings.characterLength ?? undefined,
-            wordLength: settings.wordLength ?? undefined,
-            gradeLevel: settings.gradeLevel ?? undefined,
-            benchmark: settings.benchmark ?? undefined,
-            avoidWords: settings.avoidWords ?? undefined,
-            writingStyle: writingStyle ?? undefined,
-            styleSummary: styleSummary ?? undefined,
-            styleTitle: styleTitle ?? undefined,
-            ownerId: session.user.id
-          } as any
-        });
-        documentId = document.id;
-        timestamp = document.createdAt.toISOString();
-        console.log("[compose] Document saved:", documentId, "title:", title);
-      } catch (err) {
-        console.error("[compose] Failed to persist composed document", err);
-        // Log more details about the error
-        if (err instanceof Error) {
-          console.error("[compose] Error message:", err.message);
-          console.error("[compose] Error stack:", err.stack);
+        if (createdDocumentId && prisma && (writingStyle || styleTitle || styleSummary)) {
+          try {
+            await prisma.document.update({
+              where: { id: createdDocumentId },
+              data: {
+                writingStyle: writingStyle ?? undefined,
+                styleSummary: styleSummary ?? undefined,
+                styleTitle: styleTitle ?? undefined
+              } as any
+            });
+          } catch (err) {
+            console.error("[compose] Failed to persist style metadata", err);
+          }
         }
-      }
-    } else if (existingDocumentId) {
-      // Return the existing documentId so client knows which document to update
-      documentId = existingDocumentId;
-      console.log("[compose] Using existing document (content will be saved via autosave):", documentId);
-    }
 
-    const totalTokensUsed = contentTokens + styleTokens;
-
-    const jsonResponse = NextResponse.json({
-      documentId,
-      title,
-      content: contentText,
-      writingStyle,
-      styleSummary,
-      styleTitle,
-      createdAt: timestamp,
-      prompt,
-      settings: {
-        ...settings,
-        marketTier: settings.marketTier ?? null
-      }
-    });
+        if (createdDocumentId && prisma) {
+          scheduleDocumentIndexing(prisma, createdDocumentId);
+        }
 
-    if (enforceGuestLimit && !isAuthenticated) {
-      jsonResponse.cookies.set("guest_outputs", String(guestCounter + 1), {
-        maxAge: 60 * 60 * 24,
-        path: "/"
-      });
-    }
-    if (usageContext?.guestCookie) {
-      jsonResponse.cookies.set("guest_usage_id", usageContext.guestCookie, {
-        maxAge: 60 * 60 * 24 * 30,
-        path: "/"
-      });
-    }
-    if (prisma && usageContext && totalTokensUsed > 0) {
-      try {
-        await incrementTokenUsage(usageContext.identifier, totalTokensUsed);
+        send("style", { documentId, writingStyle, styleTitle, styleSummary });
+        send("done");
       } catch (error) {
-        console.error("token usage increment failed", error);
+        console.error("compose error", error);
+        send("error", { error: "Generation failed" });
+      } finally {
+        request.signal?.removeEventListener("abort", abortUpstream);
+
+        // An undelivered draft keeps whatever streamed before an abort; one that failed outright leaves no empty document
+        if (createdDocumentId && prisma && !delivered) {
+          const partial = upstreamAbort.signal.aborted ? contentText.trim() : "";
+          try {
+            if (partial) {
+              const placeholders = autofillPlaceholders(syncPlaceholders(partial), personaFacts).placeholders;
+              await prisma.document.update({
+                where: { id: createdDocumentId },
+                data: { content: partial, placeholders: Object.keys(placeholders).length ? placeholders : undefined }
+              });
+              scheduleDocumentIndexing(prisma, createdDocumentId);
+            } else {
+              await prisma.document.delete({ where: { id: createdDocumentId } });
+            }
+          } catch (err) {
+            console.error("[compose] Failed to settle the draft document", err);
+          }
+        }
+
+        // A cancelled stream never reports usage, so bill the prompt plus whatever was generated before the abort
+        const billedContentTokens =
+          contentTokens > 0
+            ? contentTokens
+            : upstreamAbort.signal.aborted && contentText
+              ? estimateTokens(systemPrompt) + estimateTokens(userPrompt) + estimateTokens(contentText)
+              : 0;
+        const totalTokensUsed = billedContentTokens + styleTokens + variantTokens + revisionTokens;
+        if (prisma && usageContext && totalTokensUsed > 0) {
+          try {
+            await incrementTokenUsage(usageContext.identifier, totalTokensUsed);
+          } catch (error) {
+            console.error("token usage increment failed", error);
+          }
+        }
+        if (prisma && usageContext && delivered) {
+          await recordPromptHistory(prisma, usageContext.identifier, {
+            kind: "compose",
+            prompt,
+            settings,
+            personaId,
+            styleId,
+            styleGuide,
+            documentId: deliveredDocumentId,
+            tokens: totalTokensUsed
+          });
+        }
+
+        if (!closed) {
+          closed = true;
+          try {
+            controller.close();
+          } catch {
+            // Stream already torn down by the client
+          }
+        }
       }
+    },
+    cancel() {
+      upstreamAbort.abort();
     }
+  });
 
-    return jsonResponse;
-  } catch (error) {
-    console.error("compose error", error);
-    return NextResponse.json({ error: "Generation failed" }, { status: 500 });
-  }
-}
+  const streamResponse = new NextResponse(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Connection": "keep-alive"
+    }
+  });
 
-function resolveUsageContext(session: any, cookieStore: CookieStore): UsageContext | null {
-  if (session?.user?.id) {
-    return { identifier: { userId: session.user.id } };
-  }
-  let guestId = cookieStore.get("guest_usage_id")?.value;
-  let guestCookie: string | undefined;
-  if (!guestId) {
-    guestId = crypto.randomUUID();
-    guestCookie = guestId;
+  if (enforceGuestLimit && !isAuthenticated) {
+    streamResponse.cookies.set("guest_outputs", String(guestCounter + 1), {
+      maxAge: 60 * 60 * 24,
+      path: "/"
+    });
   }
-  return { identifier: { guestId }, guestCookie };
-}
+  attachGuestUsageCookie(streamResponse, usageContext);
 
-async function findTokenUsage(identifier: UsageIdentifier) {
-  if (!prisma) return null;
-  if ("userId" in identifier) {
-    return prisma.tokenUsage.findUnique({ where: { userId: identifier.userId } });
-  }
-  return prisma.tokenUsage.findUnique({ where: { guestId: identifier.guestId } });
+  return streamResponse;
 }
 
-async function incrementTokenUsage(identifier: UsageIdentifier, amount: number) {
-  if (!prisma || amount <= 0) return;
-  if ("userId" in identifier) {
-    await prisma.tokenUsage.upsert({
-      where: { userId: identifier.userId },
-      update: { tokens: { increment: amount } },
-      create: { userId: identifier.userId, tokens: amount }
-    });
-    return;
-  }
-  await prisma.tokenUsage.upsert({
-    where: { guestId: identifier.guestId },
-    update: { tokens: { increment: amount } },
-    create: { guestId: identifier.guestId, tokens: amount }
-  });
+/**
+ * Streams one draft per angle in parallel. Deltas carry their `variant` index; a variant that
+ * fails reports `variant-error` and comes back empty while the others finish. Finished drafts get
+ * the same house-rule repair and length passes as a single draft. Tokens cover every variant,
+ * estimated for those cut short by an abort.
+ */
+async function streamVariantDrafts(params: {
+  llm: LLMProvider;
+  angles: VariantAngle[];
+  systemPrompt: string;
+  userPrompt: string;
+  maxOutputTokens: number;
+  rules: HouseRuleOptions;
+  repair: boolean;
+  constraints: LengthConstraints;
+  signal: AbortSignal;
+  send: (type: string, data?: Record<string, unknown>) => void;
+}): Promise<{ results: Array<{ text: string; length: LengthReport | null }>; tokens: number }> {
+  const { llm, angles, systemPrompt, signal, send } = params;
+  const results = await Promise.all(
+    angles.map(async (angle, index) => {
+      const userPrompt = angle.directive ? `${params.userPrompt}\n\nVariant Angle:\n${angle.directive}` : params.userPrompt;
+      let text = "";
+      let tokens = 0;
+      try {
+        const stream = llm.stream({
+          task: "draft",
+          temperature: angle.temperature,
+          maxOutputTokens: params.maxOutputTokens,
+          messages: [
+            { role: "system", content: systemPrompt },
+            { role: "user", content: userPrompt }
+          ],
+          signal
+        });
+        for await (const event of stream) {
+          if (event.type === "delta") {
+            text += event.text;
+            send("delta", { variant: index, text: event.text });
+          } else {
+            tokens = event.usage.totalTokens;
+          }
+        }
+      } catch (err) {
+        if (!signal.aborted) {
+          console.error("[compose] variant generation failed", err);
+          send("variant-error", { variant: index, error: "Unable to generate this variant." });
+          text = "";
+        }
+      }
+      if (!tokens && signal.aborted && text) {
+        tokens = estimateTokens(systemPrompt) + estimateTokens(userPrompt) + estimateTokens(text);
+      }
+      text = text.trim();
+      if (!text) {
+        return { text, length: null, tokens };
+      }
+      const revised = await reviseDraft(text, {
+        provider: llm,
+        systemPrompt,
+        maxOutputTokens: params.maxOutputTokens,
+        rules: params.rules,
+        repair: params.repair,
+        constraints: params.constraints,
+        signal
+      });
+      tokens += revised.tokensUsed;
+      return { text: revised.text, length: revised.length, tokens };
+    })
+  );
+  return {
+    results: results.map(({ text, length }) => ({ text, length })),
+    tokens: results.reduce((sum, result) => sum + result.tokens, 0)
+  };
 }
 
-function attachGuestUsageCookie(response: NextResponse, context?: UsageContext | null) {
-  if (!context?.guestCookie) return;
-  response.cookies.set("guest_usage_id", context.guestCookie, {
-    maxAge: 60 * 60 * 24 * 30,
-    path: "/"
-  });
+function createSSEMessage(type: string, data: Record<string, unknown>): string {
+  return `data: ${JSON.stringify({ type, ...data })}\n\n`;
 }
-
@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { canEditDocument, resolveDocumentAccess } from "@/lib/document-access";
+import { createCollabToken } from "@/lib/collab/token";
+import type { CollabSession } from "@/types/writer";
+
+export const dynamic = "force-dynamic";
+
+const CARET_COLORS = ["#f97316", "#22c55e", "#3b82f6", "#a855f7", "#ec4899", "#14b8a6", "#eab308", "#ef4444"];
+
+function caretColorFor(userId: string): string {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i += 1) {
+    hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+  }
+  return CARET_COLORS[Math.abs(hash) % CARET_COLORS.length];
+}
+
+/**
+ * Issues a short-lived token for the collaboration server. Documents nobody else can
+ * open stay on the regular autosave path, so `enabled` is false unless the document
+ * is shared and a collaboration server is configured.
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const db = prisma;
+  if (!db) {
+    return NextResponse.json({ enabled: false });
+  }
+
+  const { id } = await params;
+  const url = process.env.NEXT_PUBLIC_COLLAB_URL;
+
+  try {
+    const access = await resolveDocumentAccess(db, id, session.user.id);
+    if (!access) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+    if (!url) {
+      return NextResponse.json({ enabled: false });
+    }
+
+    // Documents with invited collaborators or living in a multi-member workspace open a shared session
+    const collaboratorCount = await db.documentCollaborator.count({ where: { documentId: id } });
+    const document = await db.document.findUnique({ where: { id }, select: { workspaceId: true } });
+    const workspaceMemberCount = document?.workspaceId
+      ? await db.workspaceMember.count({ where: { workspaceId: document.workspaceId } })
+      : 0;
+    if (collaboratorCount === 0 && workspaceMemberCount < 2) {
+      return NextResponse.json({ enabled: false });
+    }
+
+    const name = session.user.name || session.user.email || "Collaborator";
+    const readOnly = !canEditDocument(access);
+    const token = createCollabToken({ documentId: id, userId: session.user.id, name, readOnly });
+
+    const payload: CollabSession = {
+      enabled: true,
+      url,
+      token,
+      readOnly,
+      user: { name, color: caretColorFor(session.user.id) }
+    };
+    return NextResponse.json(payload);
+  } catch (error) {
+    console.error("[documents][collab][GET] failed", error);
+    const message = error instanceof Error ? error.message : "Unable to start collaboration.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
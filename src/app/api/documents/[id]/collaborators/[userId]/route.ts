@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { resolveDocumentAccess } from "@/lib/document-access";
+
+export const dynamic = "force-dynamic";
+
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string; userId: string }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const db = prisma;
+  if (!db) {
+    return NextResponse.json(
+      { error: "Sharing is unavailable until the database is configured." },
+      { status: 503 }
+    );
+  }
+
+  const { id, userId } = await params;
+
+  try {
+    const access = await resolveDocumentAccess(db, id, session.user.id);
+    if (!access) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+    // Owners manage the list; collaborators may only remove themselves
+    if (access !== "owner" && userId !== session.user.id) {
+      return NextResponse.json({ error: "Only the document owner can remove collaborators." }, { status: 403 });
+    }
+
+    await db.documentCollaborator.deleteMany({
+      where: { documentId: id, userId }
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[documents][collaborators][DELETE] failed", error);
+    return NextResponse.json({ error: "Unable to remove collaborator." }, { status: 500 });
+  }
+}
@@ -0,0 +1,117 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { documentCollaboratorSchema } from "@/lib/validators";
+import { resolveDocumentAccess } from "@/lib/document-access";
+import type { DocumentCollaboratorSummary } from "@/types/writer";
+
+export const dynamic = "force-dynamic";
+
+function serializeCollaborator(entry: any): DocumentCollaboratorSummary {
+  return {
+    userId: entry.userId,
+    name: entry.User?.name ?? null,
+    email: entry.User?.email ?? null,
+    role: entry.role === "viewer" ? "viewer" : "editor",
+    addedAt: entry.addedAt instanceof Date ? entry.addedAt.toISOString() : String(entry.addedAt)
+  };
+}
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const db = prisma;
+  if (!db) {
+    return NextResponse.json(
+      { error: "Sharing is unavailable until the database is configured." },
+      { status: 503 }
+    );
+  }
+
+  const { id } = await params;
+
+  try {
+    const access = await resolveDocumentAccess(db, id, session.user.id);
+    if (!access) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+
+    const collaborators = await db.documentCollaborator.findMany({
+      where: { documentId: id },
+      orderBy: { addedAt: "asc" },
+      include: { User: { select: { name: true, email: true } } }
+    });
+
+    return NextResponse.json({ access, collaborators: collaborators.map(serializeCollaborator) });
+  } catch (error) {
+    console.error("[documents][collaborators][GET] failed", error);
+    return NextResponse.json({ error: "Unable to load collaborators." }, { status: 500 });
+  }
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const db = prisma;
+  if (!db) {
+    return NextResponse.json(
+      { error: "Sharing is unavailable until the database is configured." },
+      { status: 503 }
+    );
+  }
+
+  const { id } = await params;
+  const json = await request.json().catch(() => null);
+  const parsed = documentCollaboratorSchema.safeParse(json ?? {});
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  try {
+    const access = await resolveDocumentAccess(db, id, session.user.id);
+    if (!access) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+    if (access !== "owner") {
+      return NextResponse.json({ error: "Only the document owner can share it." }, { status: 403 });
+    }
+
+    const invitee = await db.user.findUnique({
+      where: { email: parsed.data.email },
+      select: { id: true }
+    });
+    if (!invitee) {
+      return NextResponse.json(
+        { error: "No account uses that email. Ask them to sign up first." },
+        { status: 404 }
+      );
+    }
+    if (invitee.id === session.user.id) {
+      return NextResponse.json({ error: "You already own this document." }, { status: 400 });
+    }
+
+    const collaborator = await db.documentCollaborator.upsert({
+      where: { documentId_userId: { documentId: id, userId: invitee.id } },
+      create: { documentId: id, userId: invitee.id, role: parsed.data.role },
+      update: { role: parsed.data.role },
+      include: { User: { select: { name: true, email: true } } }
+    });
+
+    return NextResponse.json(serializeCollaborator(collaborator), { status: 201 });
+  } catch (error) {
+    console.error("[documents][collaborators][POST] failed", error);
+    return NextResponse.json({ error: "Unable to share document." }, { status: 500 });
+  }
+}
@@ -2,10 +2,68 @@ import { NextResponse } from "next/server";
 import { auth } from "@/auth";
 import { prisma } from "@/lib/prisma";
 import { generateStyleMetadata } from "@/lib/style-metadata";
+import { recordAutosaveCheckpoint } from "@/lib/document-versions";
+import { canEditDocument, resolveDocumentAccess } from "@/lib/document-access";
+import { scheduleDocumentIndexing } from "@/lib/embeddings";
+import { channelPreset } from "@/lib/channel-presets";
+import { syncPlaceholders } from "@/lib/placeholders";
+import { documentPlaceholdersSchema } from "@/lib/validators";
 import { Prisma } from "@prisma/client";
 
 export const dynamic = "force-dynamic";
 
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const db = prisma;
+  if (!db) {
+    return NextResponse.json(
+      { error: "Document storage is disabled until the database is configured." },
+      { status: 503 }
+    );
+  }
+
+  const { id } = await params;
+
+  try {
+    const access = await resolveDocumentAccess(db, id, session.user.id);
+    if (!access) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+
+    const doc = await db.document.findUnique({
+      where: { id },
+      include: {
+        DocumentFolder: {
+          include: { Folder: { select: { id: true, name: true } } }
+        },
+        _count: { select: { DocumentCollaborator: true } }
+      }
+    });
+    if (!doc) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+
+    // Same shape as the GET /api/documents list entries
+    const { DocumentFolder: documentFolders, _count: counts, ...rest } = doc;
+    return NextResponse.json({
+      ...rest,
+      folders: documentFolders.map((entry: { Folder: { id: string; name: string } }) => entry.Folder),
+      access,
+      shared: counts.DocumentCollaborator > 0 || Boolean(doc.workspaceId)
+    });
+  } catch (error) {
+    console.error("[documents][GET] failed", error);
+    return NextResponse.json({ error: "Unable to load document." }, { status: 500 });
+  }
+}
+
 export async function PATCH(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
@@ -37,18 +95,28 @@ export async function PATCH(
   }
 
   try {
-    // Check if document exists and belongs to user
-    const existingDoc = await db.document.findFirst({
-      where: {
-        id,
-        ownerId: session.user.id
-      }
+    // Owners and editor collaborators may update; viewers get a 403
+    const access = await resolveDocumentAccess(db, id, session.user.id);
+    if (!access) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+    if (!canEditDocument(access)) {
+      return NextResponse.json({ error: "You have view-only access to this document." }, { status: 403 });
+    }
+
+    const existingDoc = await db.document.findUnique({
+      where: { id }
     });
 
     if (!existingDoc) {
       return NextResponse.json({ error: "Document not found" }, { status: 404 });
     }
 
+    // Pinning is per-owner library state; collaborators cannot change it
+    if (access !== "owner" && body.pinned !== undefined) {
+      delete body.pinned;
+    }
+
     // Build update data object
     const updateData: any = {};
     if (body.title !== undefined) {
@@ -63,6 +131,17 @@ export async function PATCH(
     if (body.gradeLevel !== undefined) updateData.gradeLevel = body.gradeLevel;
     if (body.benchmark !== undefined) updateData.benchmark = body.benchmark;
     if (body.avoidWords !== undefined) updateData.avoidWords = body.avoidWords;
+    if (body.channelPreset !== undefined) updateData.channelPreset = channelPreset(body.channelPreset)?.id ?? null;
+    if (body.placeholders !== undefined) {
+      const placeholders = documentPlaceholdersSchema.nullable().safeParse(body.placeholders);
+      if (!placeholders.success) {
+        return NextResponse.json({ error: placeholders.error.flatten() }, { status: 400 });
+      }
+      // Entries for labels that are no longer in the text are dropped
+      updateData.placeholders = placeholders.data
+        ? syncPlaceholders(body.content ?? existingDoc.content, placeholders.data)
+        : Prisma.JsonNull;
+    }
     if (body.writingStyle !== undefined) updateData.writingStyle = body.writingStyle;
     if (body.styleSummary !== undefined) updateData.styleSummary = body.styleSummary;
     if (body.styleTitle !== undefined) updateData.styleTitle = body.styleTitle;
@@ -99,12 +178,30 @@ export async function PATCH(
       return NextResponse.json(existingDoc);
     }
 
+    // Checkpoint the outgoing content before autosave overwrites it (throttled)
+    if (updateData.content !== undefined && updateData.content !== existingDoc.content) {
+      try {
+        await recordAutosaveCheckpoint(db, {
+          documentId: id,
+          ownerId: existingDoc.ownerId,
+          title: existingDoc.title,
+          content: existingDoc.content
+        });
+      } catch (error) {
+        console.error("[documents][PATCH] version checkpoint failed", error);
+      }
+    }
+
     // Update document with provided fields
     const updatedDoc = await db.document.update({
       where: { id },
       data: updateData
     });
 
+    if (updateData.content !== undefined || updateData.writingStyle !== undefined) {
+      scheduleDocumentIndexing(db, id);
+    }
+
     return NextResponse.json(updatedDoc);
   } catch (error) {
     // Handle Prisma-specific errors
@@ -180,17 +277,14 @@ export async function DELETE(
   const { id } = await params;
 
   try {
-    // Check if document exists and belongs to user
-    const existingDoc = await db.document.findFirst({
-      where: {
-        id,
-        ownerId: session.user.id
-      }
-    });
-
-    if (!existingDoc) {
+    // Only the document owner (or a workspace owner) may delete it
+    const access = await resolveDocumentAccess(db, id, session.user.id);
+    if (!access) {
       return NextResponse.json({ error: "Document not found" }, { status: 404 });
     }
+    if (access !== "owner") {
+      return NextResponse.json({ error: "Only the owner can delete this document." }, { status: 403 });
+    }
 
     // Delete the document (cascade will handle documentFolders)
     await db.document.delete({
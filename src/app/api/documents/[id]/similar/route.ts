@@ -0,0 +1,115 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { resolveDocumentAccess } from "@/lib/document-access";
+import { getEmbeddingProvider } from "@/lib/llm";
+import {
+  embedQueryText,
+  findSimilarDocuments,
+  indexDocumentEmbeddings,
+  loadDocumentEmbedding,
+  prepareEmbeddingText,
+  type EmbeddingQuery
+} from "@/lib/embeddings";
+import { similarDocumentsQuerySchema } from "@/lib/validators";
+import { resolveWorkspaceScope } from "@/lib/workspaces";
+import type { SimilarDocumentResult } from "@/types/writer";
+
+export const dynamic = "force-dynamic";
+
+const PREVIEW_LENGTH = 160;
+
+// GET - Saved documents and styles closest to this document (or to `?text=`, an editor selection)
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const db = prisma;
+  if (!db) {
+    return NextResponse.json(
+      { error: "Find similar is unavailable until the database is configured." },
+      { status: 503 }
+    );
+  }
+
+  const { id } = await params;
+  const { searchParams } = new URL(request.url);
+  const parsed = similarDocumentsQuerySchema.safeParse(Object.fromEntries(searchParams.entries()));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+  const { text, limit } = parsed.data;
+  const userId = session.user.id;
+
+  try {
+    if (!getEmbeddingProvider()) {
+      return NextResponse.json(
+        { error: "Find similar needs an embedding provider. Set EMBEDDING_PROVIDER to openai or local." },
+        { status: 503 }
+      );
+    }
+  } catch (error) {
+    console.error("[documents][similar][GET] embedding provider unavailable", error);
+    return NextResponse.json({ error: "The embedding provider is not configured." }, { status: 503 });
+  }
+
+  try {
+    const access = await resolveDocumentAccess(db, id, userId);
+    if (!access) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+
+    let query: EmbeddingQuery | null;
+    if (text) {
+      query = await embedQueryText(text);
+    } else {
+      // The source document may have been edited since its last throttled index
+      await indexDocumentEmbeddings(db, id, { force: true });
+      const source = await db.document.findUnique({ where: { id }, select: { styleTitle: true } });
+      // A style is defined by its voice description; a document by what it says
+      const [primary, fallback] = source?.styleTitle
+        ? (["writingStyle", "content"] as const)
+        : (["content", "writingStyle"] as const);
+      query = (await loadDocumentEmbedding(db, id, primary)) ?? (await loadDocumentEmbedding(db, id, fallback));
+    }
+    if (!query) {
+      return NextResponse.json({ results: [] });
+    }
+
+    const scope = await resolveWorkspaceScope(db, userId);
+    const hits = await findSimilarDocuments(db, { userId, scope, query, excludeId: id, limit });
+    const rows = hits.length
+      ? await db.document.findMany({
+          where: { id: { in: hits.map((hit) => hit.documentId) } },
+          select: { id: true, title: true, content: true, styleTitle: true, styleSummary: true, updatedAt: true }
+        })
+      : [];
+    const rowsById = new Map<string, (typeof rows)[number]>(rows.map((row: (typeof rows)[number]) => [row.id, row]));
+
+    const results: SimilarDocumentResult[] = [];
+    hits.forEach((hit) => {
+      const row = rowsById.get(hit.documentId);
+      if (!row) return;
+      const isStyle = Boolean(row.styleTitle);
+      results.push({
+        id: row.id,
+        kind: isStyle ? "style" : "doc",
+        title: row.styleTitle || row.title,
+        score: Math.round(hit.score * 1000) / 1000,
+        matchedOn: hit.field,
+        preview: prepareEmbeddingText(isStyle ? row.styleSummary || row.content : row.content).slice(0, PREVIEW_LENGTH),
+        updatedAt: row.updatedAt.toISOString()
+      });
+    });
+
+    return NextResponse.json({ results });
+  } catch (error) {
+    console.error("[documents][similar][GET] failed", error);
+    return NextResponse.json({ error: "Unable to find similar documents right now." }, { status: 500 });
+  }
+}
@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { recordDocumentVersion } from "@/lib/document-versions";
+import { canEditDocument, resolveDocumentAccess } from "@/lib/document-access";
+import { scheduleDocumentIndexing } from "@/lib/embeddings";
+import { reloadCollabRoom } from "@/lib/collab/room";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ id: string; versionId: string }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const db = prisma;
+  if (!db) {
+    return NextResponse.json(
+      { error: "Version history is unavailable until the database is configured." },
+      { status: 503 }
+    );
+  }
+
+  const { id, versionId } = await params;
+
+  try {
+    const access = await resolveDocumentAccess(db, id, session.user.id);
+    if (!access) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+    if (!canEditDocument(access)) {
+      return NextResponse.json({ error: "You have view-only access to this document." }, { status: 403 });
+    }
+
+    const [document, version] = await Promise.all([
+      db.document.findUnique({ where: { id } }),
+      db.documentVersion.findFirst({ where: { id: versionId, documentId: id } })
+    ]);
+    if (!document) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+    if (!version) {
+      return NextResponse.json({ error: "Version not found" }, { status: 404 });
+    }
+
+    // Keep the current content so a restore can itself be undone
+    await recordDocumentVersion(db, {
+      documentId: id,
+      ownerId: document.ownerId,
+      title: document.title,
+      content: document.content,
+      reason: "restore"
+    });
+
+    // Drop the stored CRDT state so the next collaborative session seeds from the restored text
+    const [updatedDoc] = await db.$transaction([
+      db.document.update({
+        where: { id },
+        data: { content: version.content }
+      }),
+      db.documentCollabState.deleteMany({ where: { documentId: id } })
+    ]);
+    // Editors still in a live session would otherwise persist their old state over the restore
+    await reloadCollabRoom(id, version.content, session.user.id);
+    scheduleDocumentIndexing(db, id);
+
+    return NextResponse.json(updatedDoc);
+  } catch (error) {
+    console.error("[documents][versions][restore] failed", error);
+    return NextResponse.json({ error: "Unable to restore version." }, { status: 500 });
+  }
+}
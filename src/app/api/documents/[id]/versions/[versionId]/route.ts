@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { serializeVersionDetail } from "@/lib/document-versions";
+import { resolveDocumentAccess } from "@/lib/document-access";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string; versionId: string }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const db = prisma;
+  if (!db) {
+    return NextResponse.json(
+      { error: "Version history is unavailable until the database is configured." },
+      { status: 503 }
+    );
+  }
+
+  const { id, versionId } = await params;
+
+  try {
+    const access = await resolveDocumentAccess(db, id, session.user.id);
+    if (!access) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+
+    const version = await db.documentVersion.findFirst({
+      where: { id: versionId, documentId: id }
+    });
+    if (!version) {
+      return NextResponse.json({ error: "Version not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(serializeVersionDetail(version));
+  } catch (error) {
+    console.error("[documents][versions][GET] fetch failed", error);
+    return NextResponse.json({ error: "Unable to load version." }, { status: 500 });
+  }
+}
@@ -0,0 +1,108 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { documentVersionCreateSchema } from "@/lib/validators";
+import { recordDocumentVersion, serializeVersionSummary, MAX_VERSIONS_PER_DOCUMENT } from "@/lib/document-versions";
+import { canEditDocument, resolveDocumentAccess } from "@/lib/document-access";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const db = prisma;
+  if (!db) {
+    return NextResponse.json(
+      { error: "Version history is unavailable until the database is configured." },
+      { status: 503 }
+    );
+  }
+
+  const { id } = await params;
+
+  try {
+    const access = await resolveDocumentAccess(db, id, session.user.id);
+    if (!access) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+
+    const versions = await db.documentVersion.findMany({
+      where: { documentId: id },
+      orderBy: { createdAt: "desc" },
+      take: MAX_VERSIONS_PER_DOCUMENT
+    });
+
+    return NextResponse.json(versions.map(serializeVersionSummary));
+  } catch (error) {
+    console.error("[documents][versions][GET] failed", error);
+    return NextResponse.json({ error: "Unable to load version history." }, { status: 500 });
+  }
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const db = prisma;
+  if (!db) {
+    return NextResponse.json(
+      { error: "Version history is unavailable until the database is configured." },
+      { status: 503 }
+    );
+  }
+
+  const { id } = await params;
+  const json = await request.json().catch(() => null);
+  const parsed = documentVersionCreateSchema.safeParse(json ?? {});
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  try {
+    const access = await resolveDocumentAccess(db, id, session.user.id);
+    if (!access) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+    if (!canEditDocument(access)) {
+      return NextResponse.json({ error: "You have view-only access to this document." }, { status: 403 });
+    }
+
+    const document = await db.document.findUnique({
+      where: { id },
+      select: { id: true, ownerId: true, title: true, content: true }
+    });
+    if (!document) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+
+    // Versions belong to the document owner so history survives collaborators being removed
+    const version = await recordDocumentVersion(db, {
+      documentId: id,
+      ownerId: document.ownerId,
+      title: parsed.data.title ?? document.title,
+      content: parsed.data.content ?? document.content,
+      reason: parsed.data.reason
+    });
+
+    // Identical to the newest snapshot (or empty); nothing new to keep
+    if (!version) {
+      return NextResponse.json({ created: false });
+    }
+
+    return NextResponse.json({ created: true, version: serializeVersionSummary(version) }, { status: 201 });
+  } catch (error) {
+    console.error("[documents][versions][POST] failed", error);
+    return NextResponse.json({ error: "Unable to save version." }, { status: 500 });
+  }
+}
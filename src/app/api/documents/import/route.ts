@@ -0,0 +1,121 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import {
+  convertImportFile,
+  DocumentImportError,
+  MAX_IMPORT_FILES,
+  type ImportedDocument
+} from "@/lib/document-import";
+import { scheduleDocumentIndexing } from "@/lib/embeddings";
+import { canWriteWorkspace, creationWorkspaceId, resolveRecordRole, resolveWorkspaceScope } from "@/lib/workspaces";
+import { touchFolder } from "@/lib/folders";
+
+export const dynamic = "force-dynamic";
+
+type ImportFailure = { fileName: string; error: string };
+
+/**
+ * Imports DOCX, HTML (including Google Docs exports) and Markdown files as documents.
+ * Multipart body: one or more `files` and an optional `folderId` to file them into.
+ */
+export async function POST(request: Request) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const db = prisma;
+  if (!db) {
+    return NextResponse.json({ error: "Document storage is disabled until the database is configured." }, { status: 503 });
+  }
+
+  const form = request.headers.get("content-type")?.includes("multipart/form-data")
+    ? await request.formData().catch(() => null)
+    : null;
+  const files = form?.getAll("files").filter((entry): entry is File => typeof entry !== "string") ?? [];
+  if (!files.length) {
+    return NextResponse.json({ error: "Attach at least one file to import." }, { status: 400 });
+  }
+  if (files.length > MAX_IMPORT_FILES) {
+    return NextResponse.json({ error: `Import at most ${MAX_IMPORT_FILES} files at a time.` }, { status: 400 });
+  }
+  const rawFolderId = form?.get("folderId");
+  const folderId = typeof rawFolderId === "string" && rawFolderId ? rawFolderId : null;
+  const userId = session.user.id;
+
+  try {
+    // Documents live in the target folder's space, whichever space is active in the sidebar
+    let workspaceId: string | null;
+    if (folderId) {
+      const folder = await db.folder.findUnique({ where: { id: folderId } });
+      const folderRole = folder ? await resolveRecordRole(db, folder, userId) : null;
+      if (!folder || !canWriteWorkspace(folderRole)) {
+        return NextResponse.json({ error: "Folder not found." }, { status: 404 });
+      }
+      workspaceId = folder.workspaceId;
+    } else {
+      workspaceId = creationWorkspaceId(await resolveWorkspaceScope(db, userId));
+    }
+
+    const converted: ImportedDocument[] = [];
+    const failed: ImportFailure[] = [];
+    for (const file of files) {
+      try {
+        converted.push(
+          await convertImportFile({ name: file.name, type: file.type, bytes: new Uint8Array(await file.arrayBuffer()) })
+        );
+      } catch (error) {
+        if (!(error instanceof DocumentImportError)) {
+          console.error("[documents][import] conversion failed", { fileName: file.name, error });
+        }
+        failed.push({
+          fileName: file.name,
+          error: error instanceof DocumentImportError ? error.message : "That file could not be imported."
+        });
+      }
+    }
+    if (!converted.length) {
+      return NextResponse.json({ error: failed[0]?.error ?? "Nothing to import.", documents: [], failed }, { status: 400 });
+    }
+
+    const documents = await db.$transaction(
+      converted.map((document) => {
+        const createData: any = {
+          title: document.title,
+          content: document.content,
+          ownerId: userId,
+          workspaceId
+        };
+        if (folderId) {
+          createData.DocumentFolder = { create: { folderId } };
+        }
+        return db.document.create({
+          data: createData,
+          include: { DocumentFolder: { include: { Folder: { select: { id: true, name: true } } } } }
+        });
+      })
+    );
+    if (folderId) {
+      await touchFolder(db, folderId);
+    }
+    documents.forEach((document) => scheduleDocumentIndexing(db, document.id));
+
+    console.log("[documents][import] imported", documents.length, "documents for user", userId, { failed: failed.length });
+    return NextResponse.json(
+      {
+        documents: documents.map(({ DocumentFolder: assignments, ...document }) => ({
+          ...document,
+          folders: assignments.map((entry) => entry.Folder),
+          access: "owner",
+          shared: Boolean(document.workspaceId)
+        })),
+        failed
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("[documents][import] failed", error);
+    return NextResponse.json({ error: "Unable to import documents." }, { status: 500 });
+  }
+}
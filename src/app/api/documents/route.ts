@@ -1,15 +1,19 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/auth";
 import { prisma } from "@/lib/prisma";
-import { documentSchema } from "@/lib/validators";
+import { documentListQuerySchema, documentSchema } from "@/lib/validators";
+import { syncPlaceholders } from "@/lib/placeholders";
 import { deriveTitleFromContent, stripMarkdownFromTitle } from "@/lib/utils";
 import { generateStyleMetadata } from "@/lib/style-metadata";
-import { getOpenAIClient } from "@/lib/openai";
+import { getLLMProvider } from "@/lib/llm";
+import { creationWorkspaceId, resolveWorkspaceScope, visibleDocumentsWhere } from "@/lib/workspaces";
+import { cursorWhere, decodeCursor, sortOrderBy, takePage } from "@/lib/pagination";
+import { scheduleDocumentIndexing } from "@/lib/embeddings";
 import { Prisma } from "@prisma/client";
 
 export const dynamic = "force-dynamic";
 
-export async function GET() {
+export async function GET(request: Request) {
   const session = await auth();
   if (!session?.user?.id) {
     console.warn("[documents][GET] unauthorized");
@@ -21,12 +25,43 @@ export async function GET() {
     return NextResponse.json({ error: "Document storage is disabled until the database is configured." }, { status: 503 });
   }
 
+  const { searchParams } = new URL(request.url);
+  const query = documentListQuerySchema.safeParse(Object.fromEntries(searchParams.entries()));
+  if (!query.success) {
+    return NextResponse.json({ error: query.error.flatten() }, { status: 400 });
+  }
+  const { cursor: rawCursor, limit, sort, kind, folderId } = query.data;
+  const cursor = decodeCursor(rawCursor);
+  if (rawCursor && !cursor) {
+    return NextResponse.json({ error: "Invalid cursor." }, { status: 400 });
+  }
+
+  const userId = session.user.id;
+
   try {
-    const docs = await db.document.findMany({
-      where: { ownerId: session.user.id },
-      orderBy: { createdAt: "desc" },
-      take: 25,
+    const scope = await resolveWorkspaceScope(db, userId);
+    // The personal space also lists documents other people shared directly with this user
+    const filters: Record<string, unknown>[] = [visibleDocumentsWhere(scope, userId)];
+    if (kind === "styles") {
+      filters.push({ styleTitle: { not: null } });
+    } else if (kind === "docs") {
+      filters.push({ styleTitle: null });
+    }
+    if (folderId) {
+      filters.push({ DocumentFolder: { some: { folderId } } });
+    }
+    if (cursor) {
+      filters.push(cursorWhere(sort, cursor));
+    }
+
+    const rows = await db.document.findMany({
+      where: { AND: filters },
+      orderBy: sortOrderBy(sort),
+      take: limit + 1,
       include: {
+        DocumentCollaborator: {
+          select: { userId: true, role: true }
+        },
         DocumentFolder: {
           include: {
             Folder: {
@@ -40,6 +75,8 @@ export async function GET() {
       }
     });
 
+    const { items: docs, nextCursor } = takePage<(typeof rows)[number]>(rows, limit, sort);
+
     // Transform documents to include folders array
     const docsWithFolders = docs.map((doc) => {
       try {
@@ -50,9 +87,15 @@ export async function GET() {
             name: df.Folder.name
           }));
         
+        const { DocumentCollaborator: collaborators = [], ...rest } = doc;
+        const membership = collaborators.find((entry: { userId: string }) => entry.userId === userId);
+        const access =
+          doc.ownerId === userId ? "owner" : scope.workspaceId ? scope.role : membership?.role ?? "viewer";
         return {
-          ...doc,
-          folders
+          ...rest,
+          folders,
+          access,
+          shared: collaborators.length > 0 || Boolean(doc.workspaceId)
         };
       } catch (mapError) {
         console.error("[documents][GET] Error mapping document folders", {
@@ -63,13 +106,15 @@ export async function GET() {
         // Return document without folders if mapping fails
         return {
           ...doc,
-          folders: []
+          folders: [],
+          access: doc.ownerId === userId ? "owner" : "viewer",
+          shared: doc.ownerId !== userId
         };
       }
     });
 
     console.log("[documents][GET] Found", docs.length, "documents for user", session.user.id);
-    return NextResponse.json(docsWithFolders);
+    return NextResponse.json({ documents: docsWithFolders, nextCursor });
   } catch (error) {
     // Handle Prisma-specific errors
     if (error instanceof Prisma.PrismaClientKnownRequestError) {
@@ -179,25 +224,25 @@ export async function POST(request: Request) {
       // Generate writingStyle if not provided (for style saves)
       if (!generatedWritingStyle && parsed.data.content) {
         try {
-          let openai;
+          let llm;
           try {
-            openai = getOpenAIClient();
+            llm = getLLMProvider();
           } catch (error) {
-            console.warn("[documents][POST] OpenAI unavailable for writingStyle generation", error);
+            console.warn("[documents][POST] LLM provider unavailable for writingStyle generation", error);
           }
 
-          if (openai) {
+          if (llm) {
             const contentText = parsed.data.content.trim();
             if (contentText) {
               console.log("[documents][POST] Generating writingStyle from content", {
                 contentLength: contentText.length
               });
-              const styleResponse = await openai.responses.create({
-                model: "gpt-5.1",
+              const styleResponse = await llm.generate({
+                task: "analysis",
                 temperature: 0.4,
-                max_output_tokens: 200,
-                response_format: { type: "json_object" },
-                input: [
+                maxOutputTokens: 200,
+                json: true,
+                messages: [
                   {
                     role: "system",
                     content: `You are a writing analyst. Analyze the writing style of the given text and return a JSON object with exactly this field:
@@ -213,15 +258,15 @@ Return ONLY valid JSON with the "description" field, no other text.`
               });
               
               try {
-                const jsonText = styleResponse.output_text?.trim() ?? null;
+                const jsonText = styleResponse.text || null;
                 if (jsonText) {
                   const parsed = JSON.parse(jsonText);
                   generatedWritingStyle = parsed.description?.trim() ?? null;
                 }
               } catch (parseError) {
-                console.error("[documents][POST] Failed to parse writingStyle JSON", parseError, styleResponse.output_text);
+                console.error("[documents][POST] Failed to parse writingStyle JSON", parseError, styleResponse.text);
                 // Fallback to raw text if JSON parsing fails
-                generatedWritingStyle = styleResponse.output_text?.trim() ?? null;
+                generatedWritingStyle = styleResponse.text || null;
               }
               console.log("[documents][POST] WritingStyle generated", {
                 hasWritingStyle: !!generatedWritingStyle,
@@ -310,7 +355,8 @@ Return ONLY valid JSON with the "description" field, no other text.`
     createData = {
       title: finalTitle, // Empty string for blank titles (DB requires non-null)
       content: parsed.data.content || "",
-      ownerId: session.user.id
+      ownerId: session.user.id,
+      workspaceId: creationWorkspaceId(await resolveWorkspaceScope(db, session.user.id))
     };
 
     // Add optional fields (Prisma accepts null for nullable fields)
@@ -321,6 +367,8 @@ Return ONLY valid JSON with the "description" field, no other text.`
     if (parsed.data.gradeLevel !== undefined && parsed.data.gradeLevel !== null) createData.gradeLevel = parsed.data.gradeLevel;
     if (parsed.data.benchmark !== undefined && parsed.data.benchmark !== null) createData.benchmark = parsed.data.benchmark;
     if (parsed.data.avoidWords !== undefined && parsed.data.avoidWords !== null) createData.avoidWords = parsed.data.avoidWords;
+    if (parsed.data.channelPreset !== undefined && parsed.data.channelPreset !== null) createData.channelPreset = parsed.data.channelPreset;
+    if (parsed.data.placeholders) createData.placeholders = syncPlaceholders(createData.content, parsed.data.placeholders);
     // Use generated writingStyle if available, otherwise use provided one
     const resolvedWritingStyle = generatedWritingStyle ?? parsed.data.writingStyle ?? null;
     if (resolvedWritingStyle !== null && resolvedWritingStyle !== undefined) {
@@ -387,6 +435,8 @@ Return ONLY valid JSON with the "description" field, no other text.`
       throw createError;
     }
 
+    scheduleDocumentIndexing(db, doc.id);
+
     console.log("[documents][POST] Successfully saved document:", {
       id: doc.id,
       title: doc.title,
@@ -2,11 +2,18 @@ import { auth } from "@/auth";
 import { prisma } from "@/lib/prisma";
 import { documentSchema } from "@/lib/validators";
 import { deriveTitleFromContent, stripMarkdownFromTitle } from "@/lib/utils";
-import { getOpenAIClient } from "@/lib/openai";
+import { creationWorkspaceId, resolveWorkspaceScope } from "@/lib/workspaces";
+import { scheduleDocumentIndexing } from "@/lib/embeddings";
+import { sanitizeStyleSummary, sanitizeStyleTitle } from "@/lib/style-metadata";
+import { submitJob } from "@/lib/jobs";
+import { findOwnedJob } from "@/lib/jobs/queue";
+import { isTerminalJobStatus, type StyleJobProgress } from "@/lib/jobs/types";
 import { Prisma } from "@prisma/client";
 
 export const dynamic = "force-dynamic";
 
+const JOB_POLL_INTERVAL_MS = 1000;
+
 // Helper to create SSE message
 function createSSEMessage(type: string, data: any): string {
   return `data: ${JSON.stringify({ type, ...data })}\n\n`;
@@ -18,18 +25,32 @@ export async function POST(request: Request) {
   // Create a readable stream for SSE
   const stream = new ReadableStream({
     async start(controller) {
+      // Set once the client goes away; the style job carries on without it
+      let closed = false;
+      const enqueue = (message: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(message));
+        } catch {
+          closed = true;
+        }
+      };
+
       const sendLog = (step: string, details?: Record<string, any>) => {
         const timestamp = new Date().toISOString();
-        controller.enqueue(encoder.encode(createSSEMessage("log", { step, details, timestamp })));
+        enqueue(createSSEMessage("log", { step, details, timestamp }));
       };
       
       const sendProgress = (progress: number, status: string) => {
-        controller.enqueue(encoder.encode(createSSEMessage("progress", { progress, status })));
+        enqueue(createSSEMessage("progress", { progress, status }));
       };
       
       const sendResult = (success: boolean, data?: any, error?: string) => {
-        controller.enqueue(encoder.encode(createSSEMessage("result", { success, data, error })));
-        controller.close();
+        enqueue(createSSEMessage("result", { success, data, error }));
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
       };
 
       try {
@@ -89,174 +110,18 @@ export async function POST(request: Request) {
         sendLog("Style payload detection", { isStylePayload, titleEndsWithStyle });
         sendProgress(30, "Style detected");
 
-        let generatedWritingStyle: string | null = parsed.data.writingStyle ?? null;
-        let generatedStyleTitle: string | null = null;
-        let generatedStyleSummary: string | null = null;
-
-        if (isStylePayload) {
-          // Step 6: Initialize OpenAI
-          sendLog("Initializing OpenAI client...");
-          let openai;
-          try {
-            openai = getOpenAIClient();
-            sendLog("OpenAI client initialized");
-          } catch (error) {
-            sendLog("OpenAI unavailable - will skip AI generation", { error: String(error) });
-          }
-          sendProgress(35, "OpenAI ready");
-
-          // Step 7: Generate writingStyle description
-          if (!generatedWritingStyle && parsed.data.content && openai) {
-            sendLog("Generating writing style description...");
-            sendProgress(40, "Analyzing style");
-            
-            const contentText = parsed.data.content.trim();
-            if (contentText) {
-              const contentPreview = contentText.length > 80 
-                ? contentText.substring(0, 80) + "..." 
-                : contentText;
-              sendLog(`Analyzing text (${contentText.length} chars): "${contentPreview}"`);
-              
-              try {
-                sendLog("Calling OpenAI API for style description...");
-                const styleResponse = await openai.responses.create({
-                  model: "gpt-4.1-mini",
-                  temperature: 0.4,
-                  max_output_tokens: 200,
-                  text: { format: { type: "json_object" } },
-                  input: [
-                    {
-                      role: "system",
-                      content: `You are a writing analyst. Analyze the writing style of the given text and return a JSON object with exactly this field:
-- "description": A 2-3 sentence description of the writing style focusing on tone, voice, structure, vocabulary choices, and any distinctive characteristics.
-
-Return ONLY valid JSON with the "description" field, no other text.`
-                    },
-                    {
-                      role: "user",
-                      content: `Analyze the writing style of this text:\n\n${contentText}\n\nReturn JSON with "description" field.`
-                    }
-                  ]
-                });
-                
-                sendLog(`Received AI response (${styleResponse.output_text?.length || 0} chars)`);
-                sendProgress(55, "Style analyzed");
-                
-                // Parse the response
-                sendLog("Parsing AI response...");
-                try {
-                  const jsonText = styleResponse.output_text?.trim() ?? null;
-                  if (jsonText) {
-                    const parsedResponse = JSON.parse(jsonText);
-                    generatedWritingStyle = parsedResponse.description?.trim() ?? null;
-                    if (generatedWritingStyle) {
-                      const preview = generatedWritingStyle.length > 100 
-                        ? generatedWritingStyle.substring(0, 100) + "..." 
-                        : generatedWritingStyle;
-                      sendLog(`Writing style analyzed: "${preview}"`);
-                    }
-                  }
-                } catch (parseError) {
-                  sendLog("Failed to parse JSON, using raw text", { error: String(parseError) });
-                  generatedWritingStyle = styleResponse.output_text?.trim() ?? null;
-                }
-                sendProgress(60, "Description generated");
-              } catch (error: any) {
-                const errorMessage = error?.message || error?.error?.message || error?.response?.data?.error?.message || String(error);
-                const errorCode = error?.status || error?.code || error?.error?.code || "unknown";
-                sendLog(`AI style generation failed [${errorCode}]: ${errorMessage}`);
-                console.error("[save-style] AI style generation error:", error);
-              }
-            }
-          } else if (generatedWritingStyle) {
-            sendLog("Using provided writing style", { length: generatedWritingStyle.length });
-            sendProgress(60, "Using existing style");
-          }
-
-          // Step 8: Generate style title and summary
-          sendLog("Generating style title and summary...");
-          sendProgress(65, "Generating metadata");
-          
-          if (openai) {
-            const descriptor = (generatedWritingStyle ?? parsed.data.content ?? "")?.trim();
-            if (descriptor) {
-              sendLog(`Generating title & summary from ${descriptor.length} chars of style data...`);
-              
-              try {
-                sendLog("Calling OpenAI API for style metadata...");
-                const metadataResponse = await openai.responses.create({
-                  model: "gpt-4.1-mini",
-                  temperature: 0.5,
-                  max_output_tokens: 200,
-                  text: { format: { type: "json_object" } },
-                  input: [
-                    {
-                      role: "system",
-                      content: `You are a writing style analyst. Analyze the given writing style and return a JSON object with exactly these fields:
-- "title": A title in the format "[adjective] [adjective] [noun]" that perfectly describes the writing STYLE. Examples: "Professional Concise Tone", "Casual Conversational Voice", "Formal Academic Prose", "Warm Friendly Approach", "Technical Precise Language". Use exactly 3 words: two adjectives followed by one noun that describes the style. No punctuation, no quotes, no "Style" suffix, just the three words.
-- "summary": A summary of the style in <=200 characters, plain text, no markdown or quotes. Mention tone, cadence, vocabulary, and pacing if possible.
-
-Return ONLY valid JSON, no other text.`
-                    },
-                    {
-                      role: "user",
-                      content: `Analyze this writing style:\n\n${descriptor}\n\nReturn JSON with "title" and "summary" fields.`
-                    }
-                  ]
-                });
-                
-                sendLog(`Received title/summary response (${metadataResponse.output_text?.length || 0} chars)`);
-                sendProgress(80, "Metadata received");
-                
-                // Parse the metadata response
-                sendLog("Parsing metadata response...");
-                try {
-                  const jsonText = metadataResponse.output_text?.trim() ?? null;
-                  if (jsonText) {
-                    const parsedMeta = JSON.parse(jsonText);
-                    if (parsedMeta.title) {
-                      generatedStyleTitle = sanitizeStyleTitle(parsedMeta.title);
-                      sendLog(`Generated style title: "${generatedStyleTitle}"`);
-                    }
-                    if (parsedMeta.summary) {
-                      generatedStyleSummary = sanitizeStyleSummary(parsedMeta.summary);
-                      sendLog(`Generated style summary: "${generatedStyleSummary}"`);
-                    }
-                  }
-                } catch (parseError) {
-                  sendLog("Failed to parse metadata JSON", { error: String(parseError) });
-                }
-                sendProgress(85, "Metadata parsed");
-              } catch (error: any) {
-                const errorMessage = error?.message || error?.error?.message || error?.response?.data?.error?.message || String(error);
-                const errorCode = error?.status || error?.code || error?.error?.code || "unknown";
-                sendLog(`AI metadata generation failed [${errorCode}]: ${errorMessage}`);
-                console.error("[save-style] AI metadata generation error:", error);
-              }
-            }
-          }
-        }
-        
-        // Step 9: Prepare document data
+        // Step 6: Prepare document data. The style itself is analyzed by a background job once the
+        // document is saved, so a closed tab no longer loses it
         sendLog("Preparing document data for database...");
-        sendProgress(88, "Preparing save");
-        
-        const resolvedStyleTitle = generatedStyleTitle ?? parsed.data.styleTitle ?? null;
-        const resolvedStyleSummary = generatedStyleSummary ?? parsed.data.styleSummary ?? null;
+        sendProgress(35, "Preparing save");
+
+        const providedStyleTitle = sanitizeStyleTitle(parsed.data.styleTitle);
+        const rawStyleTitleValue = providedStyleTitle ? stripMarkdownFromTitle(providedStyleTitle).trim().slice(0, 100) : null;
+        const styleTitleValue = rawStyleTitleValue && rawStyleTitleValue.length > 0 ? rawStyleTitleValue : null;
 
-        const rawStyleTitleValue =
-          resolvedStyleTitle !== null && resolvedStyleTitle !== undefined
-            ? stripMarkdownFromTitle(resolvedStyleTitle).trim().slice(0, 100)
-            : null;
-        const styleTitleValue = rawStyleTitleValue && rawStyleTitleValue.trim().length > 0 ? rawStyleTitleValue : null;
-        
         let autoTitle: string | null = null;
         if (isStylePayload && titleEndsWithStyle) {
-          if (styleTitleValue) {
-            autoTitle = styleTitleValue;
-          } else {
-            autoTitle = deriveTitleFromContent(parsed.data.content, "Writing Style");
-          }
+          autoTitle = styleTitleValue ?? deriveTitleFromContent(parsed.data.content, "Writing Style");
         } else if (styleTitleValue) {
           autoTitle = styleTitleValue;
         } else if (parsed.data.title && parsed.data.title.trim()) {
@@ -274,13 +139,13 @@ Return ONLY valid JSON, no other text.`
         const cleanedTitle = stripMarkdownFromTitle(autoTitle);
         const trimmedTitle = cleanedTitle.trim();
         const finalTitle = trimmedTitle.length > 255 ? trimmedTitle.substring(0, 255) : trimmedTitle;
-        
-        sendLog(`Final document title: "${finalTitle}"`);
 
         const createData: any = {
           title: finalTitle,
           content: parsed.data.content || "",
-          ownerId: session.user.id
+          ownerId: session.user.id,
+          // Styles saved while a workspace is active join its shared style library
+          workspaceId: creationWorkspaceId(await resolveWorkspaceScope(db, session.user.id))
         };
 
         if (parsed.data.tone !== undefined && parsed.data.tone !== null) createData.tone = parsed.data.tone;
@@ -290,14 +155,9 @@ Return ONLY valid JSON, no other text.`
         if (parsed.data.gradeLevel !== undefined && parsed.data.gradeLevel !== null) createData.gradeLevel = parsed.data.gradeLevel;
         if (parsed.data.benchmark !== undefined && parsed.data.benchmark !== null) createData.benchmark = parsed.data.benchmark;
         if (parsed.data.avoidWords !== undefined && parsed.data.avoidWords !== null) createData.avoidWords = parsed.data.avoidWords;
-        
-        const resolvedWritingStyle = generatedWritingStyle ?? parsed.data.writingStyle ?? null;
-        if (resolvedWritingStyle !== null && resolvedWritingStyle !== undefined) {
-          createData.writingStyle = resolvedWritingStyle;
-        }
-        if (resolvedStyleSummary !== undefined && resolvedStyleSummary !== null && resolvedStyleSummary.trim().length > 0) {
-          createData.styleSummary = resolvedStyleSummary;
-        }
+        if (parsed.data.writingStyle) createData.writingStyle = parsed.data.writingStyle;
+        const providedStyleSummary = sanitizeStyleSummary(parsed.data.styleSummary);
+        if (providedStyleSummary) createData.styleSummary = providedStyleSummary;
         if (isStylePayload) {
           createData.styleTitle = finalTitle;
         } else if (styleTitleValue !== null) {
@@ -305,33 +165,27 @@ Return ONLY valid JSON, no other text.`
         }
         if (parsed.data.pinned !== undefined) createData.pinned = parsed.data.pinned;
 
-        const dataStats = [
-          createData.writingStyle ? "style description" : null,
-          createData.styleTitle ? "title" : null,
-          createData.styleSummary ? "summary" : null
-        ].filter(Boolean).join(", ");
-        sendLog(`Document data prepared with: ${dataStats || "content only"}`);
-        sendProgress(90, "Data ready");
+        sendLog(`Document data prepared: "${finalTitle}"`);
+        sendProgress(40, "Data ready");
 
-        // Step 10: Verify user exists
+        // Step 7: Verify user exists
         sendLog("Verifying user exists in database...");
         const userExists = await db.user.findUnique({
           where: { id: session.user.id },
           select: { id: true }
         });
-        
+
         if (!userExists) {
           sendLog("User not found in database", { error: "User does not exist" });
           sendResult(false, null, "User account not found. Please sign in again.");
           return;
         }
         sendLog("User verified");
-        sendProgress(92, "User verified");
 
-        // Step 11: Save to database
+        // Step 8: Save to database
         sendLog("Saving document to database...");
-        sendProgress(95, "Saving");
-        
+        sendProgress(45, "Saving");
+
         let doc;
         try {
           doc = await db.document.create({
@@ -342,54 +196,62 @@ Return ONLY valid JSON, no other text.`
           sendLog("Database save failed", { error: String(createError) });
           throw createError;
         }
+
+        // Step 9: Analyze the style in the background and follow the job while the client listens
+        if (isStylePayload) {
+          sendLog("Queueing style analysis...");
+          const job = await submitJob(db, session.user.id, "style", { documentId: doc.id, titleFromStyle: true });
+          let lastStep = "";
+          for (let current = job; ; ) {
+            const progress = current.progress as StyleJobProgress | null;
+            if (progress?.step && progress.step !== lastStep) {
+              lastStep = progress.step;
+              sendLog(progress.step);
+              sendProgress(progress.progress, progress.status);
+            }
+            if (isTerminalJobStatus(current.status)) {
+              if (current.status === "failed") {
+                sendLog(`Style analysis failed: ${current.error ?? "unknown error"}`);
+              }
+              break;
+            }
+            if (closed || request.signal?.aborted) {
+              // The job keeps running; the style lands on the document without this stream
+              return;
+            }
+            await new Promise((resolve) => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+            const next = await findOwnedJob(db, job.id, session.user.id);
+            if (!next) break;
+            current = next;
+          }
+          doc = (await db.document.findUnique({ where: { id: doc.id } })) ?? doc;
+        } else {
+          scheduleDocumentIndexing(db, doc.id);
+        }
         sendProgress(100, "Complete");
 
         // Final step: Send success result
         sendLog(`✨ Style generation complete! Title: "${doc.styleTitle || doc.title}"`);
-        
+
         sendResult(true, doc);
         
       } catch (error) {
         // Handle Prisma-specific errors
         if (error instanceof Prisma.PrismaClientKnownRequestError) {
           if (error.code === "P2002") {
-            controller.enqueue(encoder.encode(createSSEMessage("log", { 
-              step: "Database error: duplicate entry", 
-              details: { code: error.code },
-              timestamp: new Date().toISOString()
-            })));
-            controller.enqueue(encoder.encode(createSSEMessage("result", { 
-              success: false, 
-              error: "A document with this identifier already exists." 
-            })));
-            controller.close();
+            sendLog("Database error: duplicate entry", { code: error.code });
+            sendResult(false, null, "A document with this identifier already exists.");
             return;
           }
           if (error.code === "P2003") {
-            controller.enqueue(encoder.encode(createSSEMessage("log", { 
-              step: "Database error: foreign key violation", 
-              details: { code: error.code },
-              timestamp: new Date().toISOString()
-            })));
-            controller.enqueue(encoder.encode(createSSEMessage("result", { 
-              success: false, 
-              error: "Database constraint violation. Please ensure your account is properly set up." 
-            })));
-            controller.close();
+            sendLog("Database error: foreign key violation", { code: error.code });
+            sendResult(false, null, "Database constraint violation. Please ensure your account is properly set up.");
             return;
           }
         }
 
-        controller.enqueue(encoder.encode(createSSEMessage("log", { 
-          step: "Unexpected error occurred", 
-          details: { error: error instanceof Error ? error.message : String(error) },
-          timestamp: new Date().toISOString()
-        })));
-        controller.enqueue(encoder.encode(createSSEMessage("result", { 
-          success: false, 
-          error: error instanceof Error ? error.message : "Unable to save document." 
-        })));
-        controller.close();
+        sendLog("Unexpected error occurred", { error: error instanceof Error ? error.message : String(error) });
+        sendResult(false, null, error instanceof Error ? error.message : "Unable to save document.");
       }
     }
   });
@@ -402,28 +264,3 @@ Return ONLY valid JSON, no other text.`
     }
   });
 }
-
-// Helper functions (duplicated from style-metadata.ts to avoid import issues with streaming)
-function sanitizeStyleTitle(rawTitle: string | null | undefined): string | null {
-  if (!rawTitle) return null;
-  let clean = stripMarkdownFromTitle(rawTitle)
-    .replace(/^["']|["']$/g, "")
-    .replace(/\.$/, "")
-    .trim();
-  if (!clean) return null;
-  const words = clean.split(/\s+/).filter(Boolean);
-  if (words.length === 3) {
-    return words.join(" ");
-  }
-  if (words.length > 3) {
-    return words.slice(0, 3).join(" ");
-  }
-  return clean;
-}
-
-function sanitizeStyleSummary(rawSummary: string | null | undefined): string | null {
-  if (!rawSummary) return null;
-  const normalized = rawSummary.replace(/\s+/g, " ").trim();
-  if (!normalized) return null;
-  return normalized.length > 200 ? normalized.slice(0, 200) : normalized;
-}
@@ -0,0 +1,107 @@
+import { NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import {
+  clearOtherDefaults,
+  exportTemplateSummarySelect,
+  mapExportTemplateSummary,
+  replaceTemplatePersonas
+} from "@/lib/export/templates";
+import { exportTemplateUpdateSchema } from "@/lib/validators";
+import { canWriteWorkspace, resolveRecordRole } from "@/lib/workspaces";
+
+export const dynamic = "force-dynamic";
+
+export async function PATCH(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const db = prisma;
+  if (!db) {
+    return NextResponse.json({ error: "Templates are unavailable until the database is configured." }, { status: 503 });
+  }
+
+  const { id } = await params;
+  let payload: unknown;
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+  const parsed = exportTemplateUpdateSchema.safeParse(payload);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  try {
+    const template = await db.exportTemplate.findUnique({
+      where: { id },
+      select: { id: true, ownerId: true, workspaceId: true }
+    });
+    const role = template ? await resolveRecordRole(db, template, session.user.id) : null;
+    if (!template || !role) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 });
+    }
+    if (!canWriteWorkspace(role)) {
+      return NextResponse.json({ error: "You have view-only access to this template." }, { status: 403 });
+    }
+
+    const { name, isDefault, titlePage, personaIds } = parsed.data;
+    const data: Prisma.ExportTemplateUpdateInput = {};
+    if (name !== undefined) data.name = name;
+    if (isDefault !== undefined) data.isDefault = isDefault;
+    if (titlePage !== undefined) data.titlePage = titlePage === null ? Prisma.JsonNull : titlePage;
+    if (Object.keys(data).length) {
+      await db.exportTemplate.update({ where: { id }, data });
+    }
+    if (isDefault) {
+      await clearOtherDefaults(db, template);
+    }
+    if (personaIds) {
+      await replaceTemplatePersonas(db, template, personaIds);
+    }
+
+    const row = await db.exportTemplate.findUnique({ where: { id }, select: exportTemplateSummarySelect });
+    return NextResponse.json({ template: mapExportTemplateSummary(row!, role) });
+  } catch (error) {
+    console.error("[export-templates][PATCH] failed", error);
+    return NextResponse.json({ error: "Unable to update template." }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const db = prisma;
+  if (!db) {
+    return NextResponse.json({ error: "Templates are unavailable until the database is configured." }, { status: 503 });
+  }
+
+  const { id } = await params;
+  try {
+    const template = await db.exportTemplate.findUnique({
+      where: { id },
+      select: { ownerId: true, workspaceId: true }
+    });
+    const role = template ? await resolveRecordRole(db, template, session.user.id) : null;
+    if (!template || !role) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 });
+    }
+    if (!canWriteWorkspace(role)) {
+      return NextResponse.json({ error: "You have view-only access to this template." }, { status: 403 });
+    }
+
+    // Personas using it fall back to the workspace default (exportTemplateId is set null)
+    await db.exportTemplate.delete({ where: { id } });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[export-templates][DELETE] failed", error);
+    return NextResponse.json({ error: "Unable to delete template." }, { status: 500 });
+  }
+}
@@ -0,0 +1,112 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { DocxTemplateError, validateDocxTemplate } from "@/lib/export/docx-template";
+import {
+  clearOtherDefaults,
+  exportTemplateSummarySelect,
+  mapExportTemplateSummary,
+  replaceTemplatePersonas
+} from "@/lib/export/templates";
+import { creationWorkspaceId, resolveWorkspaceScope, scopeWhere } from "@/lib/workspaces";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const db = prisma;
+  if (!db) {
+    return NextResponse.json({ error: "Templates are unavailable until the database is configured." }, { status: 503 });
+  }
+
+  try {
+    const scope = await resolveWorkspaceScope(db, session.user.id);
+    const rows = await db.exportTemplate.findMany({
+      where: scopeWhere(scope, session.user.id),
+      select: exportTemplateSummarySelect,
+      orderBy: { createdAt: "desc" }
+    });
+    return NextResponse.json({
+      templates: rows.map((row: (typeof rows)[number]) => mapExportTemplateSummary(row, scope.role))
+    });
+  } catch (error) {
+    console.error("[export-templates][GET] failed", error);
+    return NextResponse.json({ error: "Unable to load templates." }, { status: 500 });
+  }
+}
+
+/**
+ * Uploads a reference .docx/.dotx. Multipart body: `file`, optional `name`, `isDefault`
+ * ("true" to make it the workspace default) and `personaIds` to use it for.
+ */
+export async function POST(request: Request) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const db = prisma;
+  if (!db) {
+    return NextResponse.json({ error: "Templates are unavailable until the database is configured." }, { status: 503 });
+  }
+
+  const form = request.headers.get("content-type")?.includes("multipart/form-data")
+    ? await request.formData().catch(() => null)
+    : null;
+  const file = form?.get("file");
+  if (!form || !file || typeof file === "string") {
+    return NextResponse.json({ error: "Attach a .docx file to upload." }, { status: 400 });
+  }
+  if (!/\.(docx|dotx)$/i.test(file.name)) {
+    return NextResponse.json({ error: "Templates must be .docx or .dotx files." }, { status: 400 });
+  }
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  try {
+    await validateDocxTemplate(bytes);
+  } catch (error) {
+    if (error instanceof DocxTemplateError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("[export-templates][POST] validation failed", error);
+    return NextResponse.json({ error: "Unable to read that template." }, { status: 500 });
+  }
+
+  const rawName = form.get("name");
+  const name =
+    (typeof rawName === "string" && rawName.trim()) || file.name.replace(/\.(docx|dotx)$/i, "").trim() || "Template";
+  const personaIds = form.getAll("personaIds").filter((value): value is string => typeof value === "string" && value.length > 0);
+
+  try {
+    const scope = await resolveWorkspaceScope(db, session.user.id);
+    const template = await db.exportTemplate.create({
+      data: {
+        name: name.slice(0, 120),
+        fileName: file.name.slice(0, 255),
+        byteSize: bytes.byteLength,
+        data: Buffer.from(bytes),
+        isDefault: form.get("isDefault") === "true",
+        ownerId: session.user.id,
+        workspaceId: creationWorkspaceId(scope)
+      },
+      select: { id: true, ownerId: true, workspaceId: true, isDefault: true }
+    });
+    if (template.isDefault) {
+      await clearOtherDefaults(db, template);
+    }
+    if (personaIds.length) {
+      await replaceTemplatePersonas(db, template, personaIds.slice(0, 50));
+    }
+
+    const row = await db.exportTemplate.findUnique({ where: { id: template.id }, select: exportTemplateSummarySelect });
+    // The uploader owns the template even when they only view the rest of the workspace
+    return NextResponse.json({ template: mapExportTemplateSummary(row!, "owner") }, { status: 201 });
+  } catch (error) {
+    console.error("[export-templates][POST] failed", error);
+    return NextResponse.json({ error: "Unable to save template." }, { status: 500 });
+  }
+}
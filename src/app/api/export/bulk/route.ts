@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { generateDownloadFilename } from "@/lib/utils";
+import { bulkExportRequestSchema } from "@/lib/validators";
+import { buildExportArchive, loadBulkExportDocuments, streamArchive, unresolvedExportError } from "@/lib/export/bulk";
+import { ExportTemplateNotFoundError, resolveDocxWriterOptions } from "@/lib/export/templates";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Exports a folder (`folderId`) or a selection (`documentIds`) as a ZIP with one file per
+ * document in `format`, plus an index.json manifest. Documents the user cannot read are skipped.
+ * Placeholder values are filled in; a 409 lists documents with unfilled ones unless `allowUnresolved`.
+ */
+export async function POST(request: Request) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const db = prisma;
+  if (!db) {
+    return NextResponse.json({ error: "Document storage is disabled until the database is configured." }, { status: 503 });
+  }
+
+  const parsed = bulkExportRequestSchema.safeParse(await request.json().catch(() => ({})));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+  const { folderId, documentIds, format, pdf, allowUnresolved } = parsed.data;
+  const userId = session.user.id;
+
+  try {
+    const loaded = await loadBulkExportDocuments(db, userId, { folderId, documentIds });
+    if (!loaded) {
+      return NextResponse.json({ error: "Folder not found." }, { status: 404 });
+    }
+    const { label, documents } = loaded;
+    if (!documents.length) {
+      return NextResponse.json({ error: "No documents to export." }, { status: 404 });
+    }
+    const blocked = documents.filter((document) => document.unresolved.length);
+    if (blocked.length && !allowUnresolved) {
+      return NextResponse.json(unresolvedExportError(blocked), { status: 409 });
+    }
+
+    const docx = format === "docx" ? await resolveDocxWriterOptions(db, userId, parsed.data.docx) : undefined;
+    const zip = await buildExportArchive({ documents, format, pdf, docx, label });
+    const filename = generateDownloadFilename(label ?? "Documents", "", "zip");
+    console.log("[export][bulk] exporting", documents.length, "documents for user", userId, { format, folderId });
+    return new NextResponse(streamArchive(zip), {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="${filename}"`
+      }
+    });
+  } catch (error) {
+    if (error instanceof ExportTemplateNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error("[export][bulk] failed", error);
+    return NextResponse.json({ error: "Unable to export documents." }, { status: 500 });
+  }
+}
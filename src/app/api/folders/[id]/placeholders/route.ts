@@ -0,0 +1,153 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { folderPlaceholderFillSchema } from "@/lib/validators";
+import { canEditDocument, readableDocumentsWhere, resolveDocumentAccess } from "@/lib/document-access";
+import { resolveRecordRole } from "@/lib/workspaces";
+import {
+  autofillPlaceholders,
+  fillPlaceholders,
+  readDocumentPlaceholders,
+  readPersonaFacts,
+  syncPlaceholders,
+  type DocumentPlaceholders
+} from "@/lib/placeholders";
+import type { FolderPlaceholderSummary } from "@/types/writer";
+
+export const dynamic = "force-dynamic";
+
+type FolderDocument = { id: string; content: string; placeholders: DocumentPlaceholders };
+
+function summarize(documents: FolderDocument[]): FolderPlaceholderSummary[] {
+  const summaries = new Map<string, FolderPlaceholderSummary & { values: Map<string, number> }>();
+  documents.forEach((document) => {
+    Object.entries(document.placeholders).forEach(([key, entry]) => {
+      let summary = summaries.get(key);
+      if (!summary) {
+        summary = { key, label: entry.label, type: entry.type, documentCount: 0, unresolvedCount: 0, suggestedValue: null, values: new Map() };
+        summaries.set(key, summary);
+      }
+      summary.documentCount += 1;
+      const value = entry.value.trim();
+      if (value) {
+        summary.values.set(value, (summary.values.get(value) ?? 0) + 1);
+      } else {
+        summary.unresolvedCount += 1;
+      }
+    });
+  });
+  return Array.from(summaries.values())
+    .map(({ values, ...summary }) => ({
+      ...summary,
+      suggestedValue: Array.from(values.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] ?? null
+    }))
+    .sort((a, b) => b.unresolvedCount - a.unresolvedCount || b.documentCount - a.documentCount);
+}
+
+async function loadFolderDocuments(folderId: string, userId: string): Promise<FolderDocument[] | null> {
+  if (!prisma) return null;
+  const folder = await prisma.folder.findUnique({ where: { id: folderId } });
+  if (!folder || !(await resolveRecordRole(prisma, folder, userId))) return null;
+  const documents = await prisma.document.findMany({
+    where: { AND: [readableDocumentsWhere(userId), { DocumentFolder: { some: { folderId } } }] },
+    select: { id: true, content: true, placeholders: true }
+  });
+  return documents.map((document) => ({
+    id: document.id,
+    content: document.content,
+    placeholders: syncPlaceholders(document.content, readDocumentPlaceholders(document.placeholders))
+  }));
+}
+
+/** Placeholder labels across the folder's documents, most unresolved first. */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!prisma) {
+    return NextResponse.json({ error: "Folders are unavailable until the database is configured." }, { status: 503 });
+  }
+
+  const { id } = await params;
+  try {
+    const documents = await loadFolderDocuments(id, session.user.id);
+    if (!documents) {
+      return NextResponse.json({ error: "Folder not found" }, { status: 404 });
+    }
+    return NextResponse.json({ placeholders: summarize(documents), documentCount: documents.length });
+  } catch (error) {
+    console.error("[folders][placeholders][GET] failed", error);
+    return NextResponse.json({ error: "Unable to load placeholders." }, { status: 500 });
+  }
+}
+
+/**
+ * Fills placeholders in every editable document of the folder: `values` by placeholder key, then
+ * the persona's facts for labels still empty. Documents the user can only read are skipped.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const db = prisma;
+  if (!db) {
+    return NextResponse.json({ error: "Folders are unavailable until the database is configured." }, { status: 503 });
+  }
+
+  const parsed = folderPlaceholderFillSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+  const { values, personaId, overwrite } = parsed.data;
+  const userId = session.user.id;
+  const { id } = await params;
+
+  try {
+    const documents = await loadFolderDocuments(id, userId);
+    if (!documents) {
+      return NextResponse.json({ error: "Folder not found" }, { status: 404 });
+    }
+
+    let facts = null;
+    if (personaId) {
+      const persona = await db.persona.findUnique({ where: { id: personaId } });
+      if (!persona || !(await resolveRecordRole(db, persona, userId))) {
+        return NextResponse.json({ error: "Persona not found" }, { status: 404 });
+      }
+      facts = readPersonaFacts(persona.facts);
+    }
+
+    const updated: Array<{ id: string; placeholders: DocumentPlaceholders }> = [];
+    let skipped = 0;
+    for (const document of documents) {
+      const filled = fillPlaceholders(document.placeholders, values, overwrite);
+      const autofilled = autofillPlaceholders(filled.placeholders, facts);
+      if (!filled.filled && !autofilled.filled) continue;
+      if (!canEditDocument(await resolveDocumentAccess(db, document.id, userId))) {
+        skipped += 1;
+        continue;
+      }
+      await db.document.update({
+        where: { id: document.id },
+        data: { placeholders: autofilled.placeholders }
+      });
+      updated.push({ id: document.id, placeholders: autofilled.placeholders });
+    }
+
+    console.log("[folders][placeholders] filled", updated.length, "documents in folder", id, { skipped });
+    return NextResponse.json({ updated, skipped });
+  } catch (error) {
+    console.error("[folders][placeholders][POST] failed", error);
+    return NextResponse.json({ error: "Unable to fill placeholders." }, { status: 500 });
+  }
+}
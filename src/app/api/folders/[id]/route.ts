@@ -2,6 +2,9 @@ import { NextResponse } from "next/server";
 import { auth } from "@/auth";
 import { prisma } from "@/lib/prisma";
 import { Prisma } from "@prisma/client";
+import { canWriteWorkspace, resolveRecordRole } from "@/lib/workspaces";
+import { folderNameTaken } from "@/lib/folders";
+import { folderCreateSchema } from "@/lib/validators";
 
 export const dynamic = "force-dynamic";
 
@@ -35,21 +38,32 @@ export async function PATCH(
   }
 
   try {
-    // Check if folder exists and belongs to user
-    const existingFolder = await prisma.folder.findFirst({
-      where: {
-        id,
-        ownerId: session.user.id
-      }
+    // Check if folder exists and the user may edit it (owner, or editor in its workspace)
+    const existingFolder = await prisma.folder.findUnique({
+      where: { id }
     });
+    const role = existingFolder ? await resolveRecordRole(prisma, existingFolder, session.user.id) : null;
 
-    if (!existingFolder) {
+    if (!existingFolder || !role) {
       return NextResponse.json({ error: "Folder not found" }, { status: 404 });
     }
+    if (!canWriteWorkspace(role)) {
+      return NextResponse.json({ error: "You have view-only access to this folder." }, { status: 403 });
+    }
 
     // Build update data object
     const updateData: any = {};
-    if (body.name !== undefined) updateData.name = body.name;
+    if (body.name !== undefined) {
+      const parsedName = folderCreateSchema.shape.name.safeParse(typeof body.name === "string" ? body.name.trim() : body.name);
+      if (!parsedName.success) {
+        return NextResponse.json({ error: parsedName.error.issues[0]?.message ?? "Invalid folder name." }, { status: 400 });
+      }
+      const name = parsedName.data;
+      if (await folderNameTaken(prisma, existingFolder, name, id)) {
+        return NextResponse.json({ error: "A folder with this name already exists." }, { status: 409 });
+      }
+      updateData.name = name;
+    }
     if (body.pinned !== undefined) {
       // Ensure pinned is a boolean
       updateData.pinned = Boolean(body.pinned);
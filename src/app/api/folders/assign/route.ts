@@ -3,6 +3,9 @@ import { Prisma } from "@prisma/client";
 import { auth } from "@/auth";
 import { prisma } from "@/lib/prisma";
 import { folderAssignSchema } from "@/lib/validators";
+import { canEditDocument, resolveDocumentAccess } from "@/lib/document-access";
+import { canWriteWorkspace, resolveRecordRole } from "@/lib/workspaces";
+import { touchFolder } from "@/lib/folders";
 
 export const dynamic = "force-dynamic";
 
@@ -34,26 +37,20 @@ export async function POST(request: Request) {
   const { folderId, documentId } = parsed.data;
 
   try {
-    const [folder, document] = await Promise.all([
-      prisma.folder.findFirst({
-        where: {
-          id: folderId,
-          ownerId: session.user.id
-        }
+    const db = prisma;
+    const [folder, documentAccess] = await Promise.all([
+      db.folder.findUnique({
+        where: { id: folderId }
       }),
-      prisma.document.findFirst({
-        where: {
-          id: documentId,
-          ownerId: session.user.id
-        }
-      })
+      resolveDocumentAccess(db, documentId, session.user.id)
     ]);
+    const folderRole = folder ? await resolveRecordRole(db, folder, session.user.id) : null;
 
-    if (!folder) {
+    if (!folder || !canWriteWorkspace(folderRole)) {
       return NextResponse.json({ error: "Folder not found." }, { status: 404 });
     }
 
-    if (!document) {
+    if (!canEditDocument(documentAccess)) {
       return NextResponse.json({ error: "Document not found." }, { status: 404 });
     }
 
@@ -100,6 +97,8 @@ export async function POST(request: Request) {
       }
     }
 
+    await touchFolder(db, folderId);
+
     return NextResponse.json({
       documentId,
       folder: {
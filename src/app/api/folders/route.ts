@@ -2,11 +2,14 @@ import { NextResponse } from "next/server";
 import { Prisma } from "@prisma/client";
 import { auth } from "@/auth";
 import { prisma } from "@/lib/prisma";
-import { folderCreateSchema } from "@/lib/validators";
+import { folderCreateSchema, folderListQuerySchema } from "@/lib/validators";
+import { creationWorkspaceId, resolveWorkspaceScope, scopeWhere } from "@/lib/workspaces";
+import { cursorWhere, decodeCursor, sortOrderBy, takePage } from "@/lib/pagination";
+import { folderNameTaken } from "@/lib/folders";
 
 export const dynamic = "force-dynamic";
 
-export async function GET() {
+export async function GET(request: Request) {
   const session = await auth();
   if (!session?.user?.id) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
@@ -19,65 +22,72 @@ export async function GET() {
     );
   }
 
-  try {
-    // Ensure user has an "Archive" folder (create if missing)
-    const existingArchive = await prisma.folder.findFirst({
-      where: {
-        ownerId: session.user.id,
-        name: "Archive"
-      }
-    });
+  const { searchParams } = new URL(request.url);
+  const query = folderListQuerySchema.safeParse(Object.fromEntries(searchParams.entries()));
+  if (!query.success) {
+    return NextResponse.json({ error: query.error.flatten() }, { status: 400 });
+  }
+  const { cursor: rawCursor, limit } = query.data;
+  const cursor = decodeCursor(rawCursor);
+  if (rawCursor && !cursor) {
+    return NextResponse.json({ error: "Invalid cursor." }, { status: 400 });
+  }
 
-    if (!existingArchive) {
-      try {
-        await prisma.folder.create({
-          data: {
-            name: "Archive",
-            ownerId: session.user.id
-          }
-        });
-      } catch (createError) {
-        // Log but continue if creation fails (might be a race condition)
-        console.warn("[folders][GET] Failed to create Archive folder:", createError);
+  try {
+    // Ensure user has an "Archive" folder in their personal space (create if missing).
+    // Later pages continue the same listing, so only the first page checks.
+    if (!cursor) {
+      const existingArchive = await prisma.folder.findFirst({
+        where: {
+          ownerId: session.user.id,
+          workspaceId: null,
+          name: "Archive"
+        }
+      });
+
+      if (!existingArchive) {
+        try {
+          await prisma.folder.create({
+            data: {
+              name: "Archive",
+              ownerId: session.user.id
+            }
+          });
+        } catch (createError) {
+          // Log but continue if creation fails (might be a race condition)
+          console.warn("[folders][GET] Failed to create Archive folder:", createError);
+        }
       }
     }
 
-    const folders = await prisma.folder.findMany({
-      where: { ownerId: session.user.id },
+    const scope = await resolveWorkspaceScope(prisma, session.user.id);
+    // Pinned first, then most recently used: assigning a document bumps the folder's updatedAt
+    const rows = await prisma.folder.findMany({
+      where: cursor
+        ? { AND: [scopeWhere(scope, session.user.id), cursorWhere("pinned", cursor)] }
+        : scopeWhere(scope, session.user.id),
+      orderBy: sortOrderBy("pinned"),
+      take: limit + 1,
       include: {
         _count: {
-          select: { documentFolders: true }
-        },
-        documentFolders: {
-          orderBy: { assignedAt: "desc" },
-          take: 1,
-          select: { assignedAt: true }
+          select: { DocumentFolder: true }
         }
-      },
-      take: 100
+      }
     });
+    const { items: folders, nextCursor } = takePage<(typeof rows)[number]>(rows, limit, "pinned");
 
-    // Sort folders: pinned first, then by most recent document assignment, then by creation date
-    const sortedFolders = folders.sort((a, b) => {
-      // Pinned folders come first
-      if (a.pinned && !b.pinned) return -1;
-      if (!a.pinned && b.pinned) return 1;
-      
-      // Within pinned/unpinned groups, sort by most recent document assignment
-      const aLastAssigned = a.documentFolders[0]?.assignedAt ?? a.createdAt;
-      const bLastAssigned = b.documentFolders[0]?.assignedAt ?? b.createdAt;
-      return bLastAssigned.getTime() - aLastAssigned.getTime();
+    return NextResponse.json({
+      folders: folders.map(
+        (folder: { id: string; name: string; createdAt: Date; pinned: boolean; _count: { DocumentFolder: number } }) => ({
+          id: folder.id,
+          name: folder.name,
+          createdAt: folder.createdAt,
+          documentCount: folder._count.DocumentFolder,
+          pinned: folder.pinned
+        })
+      ),
+      nextCursor
     });
-
-    return NextResponse.json(
-      sortedFolders.map((folder) => ({
-        id: folder.id,
-        name: folder.name,
-        createdAt: folder.createdAt,
-        documentCount: folder._count.documentFolders,
-        pinned: folder.pinned
-      }))
-    );
   } catch (error) {
     console.error("[folders][GET] failed", error);
     return NextResponse.json(
@@ -118,10 +128,17 @@ export async function POST(request: Request) {
   }
 
   try {
+    const scope = await resolveWorkspaceScope(prisma, session.user.id);
+    const workspaceId = creationWorkspaceId(scope);
+    if (await folderNameTaken(prisma, { ownerId: session.user.id, workspaceId }, name)) {
+      return NextResponse.json({ error: "You already have a folder with that name." }, { status: 409 });
+    }
+
     const folder = await prisma.folder.create({
       data: {
         name,
-        ownerId: session.user.id
+        ownerId: session.user.id,
+        workspaceId
       }
     });
 
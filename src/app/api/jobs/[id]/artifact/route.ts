@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { loadJobArtifact } from "@/lib/jobs/queue";
+
+export const dynamic = "force-dynamic";
+
+/** Downloads the file a finished job produced (an export ZIP). */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const db = prisma;
+  if (!db) {
+    return NextResponse.json({ error: "Background jobs are unavailable until the database is configured." }, { status: 503 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const artifact = await loadJobArtifact(db, id, session.user.id);
+    if (!artifact) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+    return new NextResponse(new Uint8Array(artifact.data), {
+      headers: {
+        "Content-Type": artifact.filename.endsWith(".zip") ? "application/zip" : "application/octet-stream",
+        "Content-Disposition": `attachment; filename="${artifact.filename}"`
+      }
+    });
+  } catch (error) {
+    console.error("[jobs][artifact] failed", error);
+    return NextResponse.json({ error: "Unable to download the file." }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { findOwnedJob, requestJobCancel, serializeJob } from "@/lib/jobs/queue";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Cancels a queued job at once; a running one stops within a few seconds, keeping what it had
+ * already saved. Returns the job as it stands; cancelling a finished job changes nothing.
+ */
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const db = prisma;
+  if (!db) {
+    return NextResponse.json({ error: "Background jobs are unavailable until the database is configured." }, { status: 503 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const job = await findOwnedJob(db, id, session.user.id);
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+    const updated = await requestJobCancel(db, job);
+    return NextResponse.json({ job: serializeJob(updated) });
+  } catch (error) {
+    console.error("[jobs][cancel] failed", error);
+    return NextResponse.json({ error: "Unable to cancel the job." }, { status: 500 });
+  }
+}
@@ -0,0 +1,105 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { ensureJobRunner } from "@/lib/jobs";
+import { findOwnedJob, serializeJob } from "@/lib/jobs/queue";
+import { isTerminalJobStatus } from "@/lib/jobs/types";
+
+export const dynamic = "force-dynamic";
+
+const POLL_INTERVAL_MS = 1000;
+
+function createSSEMessage(type: string, data: Record<string, unknown>): string {
+  return `data: ${JSON.stringify({ type, ...data })}\n\n`;
+}
+
+/**
+ * Follows a job: streams a `job` event with the current state, another whenever it changes, and
+ * closes after the one that reaches a final status. Closing the stream leaves the job running;
+ * reconnecting picks it up again.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const db = prisma;
+  if (!db) {
+    return NextResponse.json({ error: "Background jobs are unavailable until the database is configured." }, { status: 503 });
+  }
+
+  const { id } = await params;
+  const userId = session.user.id;
+  const initial = await findOwnedJob(db, id, userId).catch((error) => {
+    console.error("[jobs][events] lookup failed", error);
+    return null;
+  });
+  if (!initial) {
+    return NextResponse.json({ error: "Job not found" }, { status: 404 });
+  }
+  if (!isTerminalJobStatus(initial.status)) ensureJobRunner(db);
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    async start(controller) {
+      let closed = false;
+      const send = (type: string, data: Record<string, unknown> = {}) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(createSSEMessage(type, data)));
+        } catch {
+          closed = true;
+        }
+      };
+      const stop = () => {
+        closed = true;
+      };
+      request.signal?.addEventListener("abort", stop);
+
+      try {
+        let job = initial;
+        let lastSeen = "";
+        while (!closed) {
+          const version = `${job.updatedAt.getTime()}:${job.status}`;
+          if (version !== lastSeen) {
+            lastSeen = version;
+            send("job", { job: serializeJob(job) });
+          }
+          if (isTerminalJobStatus(job.status)) break;
+          await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+          const next = await findOwnedJob(db, id, userId);
+          if (!next) {
+            send("error", { error: "Job not found" });
+            break;
+          }
+          job = next;
+        }
+      } catch (error) {
+        console.error("[jobs][events] error", error);
+        send("error", { error: "Unable to follow the job." });
+      } finally {
+        request.signal?.removeEventListener("abort", stop);
+        if (!closed) {
+          closed = true;
+          try {
+            controller.close();
+          } catch {
+            // Stream already torn down by the client
+          }
+        }
+      }
+    }
+  });
+
+  return new NextResponse(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Connection": "keep-alive"
+    }
+  });
+}
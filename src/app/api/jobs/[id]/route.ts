@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { findOwnedJob, serializeJob } from "@/lib/jobs/queue";
+
+export const dynamic = "force-dynamic";
+
+/** The job along with the input it was queued with, so a reopened page can show what it is running. */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const db = prisma;
+  if (!db) {
+    return NextResponse.json({ error: "Background jobs are unavailable until the database is configured." }, { status: 503 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const job = await findOwnedJob(db, id, session.user.id);
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+    return NextResponse.json({ job: serializeJob(job), input: job.payload });
+  } catch (error) {
+    console.error("[jobs][GET] failed", error);
+    return NextResponse.json({ error: "Unable to load the job." }, { status: 500 });
+  }
+}
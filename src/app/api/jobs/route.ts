@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { jobCreateSchema, jobListQuerySchema } from "@/lib/validators";
+import { JobRequestError, submitJob } from "@/lib/jobs";
+import { listOwnedJobs, serializeJob } from "@/lib/jobs/queue";
+
+export const dynamic = "force-dynamic";
+
+/** The user's jobs, newest first; `active=true` keeps queued and running ones, `kind` filters. */
+export async function GET(request: Request) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const db = prisma;
+  if (!db) {
+    return NextResponse.json({ error: "Background jobs are unavailable until the database is configured." }, { status: 503 });
+  }
+
+  const parsed = jobListQuerySchema.safeParse(Object.fromEntries(new URL(request.url).searchParams));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  try {
+    const jobs = await listOwnedJobs(db, session.user.id, parsed.data);
+    return NextResponse.json({ jobs: jobs.map(serializeJob) });
+  } catch (error) {
+    console.error("[jobs][GET] failed", error);
+    return NextResponse.json({ error: "Unable to load jobs." }, { status: 500 });
+  }
+}
+
+/**
+ * Queues `{ kind, input }` and answers 202 with the job; follow it with
+ * `GET /api/jobs/[id]/events`. `input` takes the same fields as the matching request
+ * (`/api/compose`, the batch dialog, `/api/export/bulk`), and refusals use the same statuses.
+ */
+export async function POST(request: Request) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const db = prisma;
+  if (!db) {
+    return NextResponse.json({ error: "Background jobs are unavailable until the database is configured." }, { status: 503 });
+  }
+
+  const parsed = jobCreateSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  try {
+    const job = await submitJob(db, session.user.id, parsed.data.kind, parsed.data.input);
+    return NextResponse.json({ job: serializeJob(job) }, { status: 202 });
+  } catch (error) {
+    if (error instanceof JobRequestError) {
+      return NextResponse.json({ error: error.message, ...error.details }, { status: error.status });
+    }
+    console.error("[jobs][POST] failed", error);
+    return NextResponse.json({ error: "Unable to queue the job." }, { status: 500 });
+  }
+}
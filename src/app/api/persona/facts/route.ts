@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { personaFactsUpdateSchema } from "@/lib/validators";
+import { readPersonaFacts } from "@/lib/placeholders";
+import { canWriteWorkspace, resolveRecordRole } from "@/lib/workspaces";
+
+// GET - A persona's facts (company name, website, CTA, phone, ...) used to fill placeholders
+export async function GET(request: Request) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!prisma) {
+    return NextResponse.json({ error: "Database unavailable" }, { status: 500 });
+  }
+
+  const personaId = new URL(request.url).searchParams.get("personaId");
+  if (!personaId) {
+    return NextResponse.json({ error: "personaId is required" }, { status: 400 });
+  }
+
+  try {
+    const persona = await prisma.persona.findUnique({ where: { id: personaId } });
+    if (!persona || !(await resolveRecordRole(prisma, persona, session.user.id))) {
+      return NextResponse.json({ error: "Persona not found" }, { status: 404 });
+    }
+    return NextResponse.json({ facts: readPersonaFacts(persona.facts) });
+  } catch (error) {
+    console.error("[persona][facts][GET] failed", error);
+    return NextResponse.json({ error: "Failed to fetch persona facts" }, { status: 500 });
+  }
+}
+
+// PUT - Replaces a persona's facts; empty values are removed
+export async function PUT(request: Request) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!prisma) {
+    return NextResponse.json({ error: "Database unavailable" }, { status: 500 });
+  }
+
+  const parsed = personaFactsUpdateSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+  const { personaId } = parsed.data;
+
+  try {
+    const persona = await prisma.persona.findUnique({ where: { id: personaId } });
+    if (!persona || !canWriteWorkspace(await resolveRecordRole(prisma, persona, session.user.id))) {
+      return NextResponse.json({ error: "Persona not found or unauthorized" }, { status: 403 });
+    }
+
+    const facts = readPersonaFacts(parsed.data.facts);
+    await prisma.persona.update({
+      where: { id: personaId },
+      data: { facts }
+    });
+    return NextResponse.json({ success: true, facts });
+  } catch (error) {
+    console.error("[persona][facts][PUT] failed", error);
+    return NextResponse.json({ error: "Failed to save persona facts" }, { status: 500 });
+  }
+}
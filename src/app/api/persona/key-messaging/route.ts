@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import { auth } from "@/auth";
 import { prisma } from "@/lib/prisma";
 import { z } from "zod";
+import { canWriteWorkspace, resolveRecordRole } from "@/lib/workspaces";
 
 const addKeyMessagingSchema = z.object({
   text: z.string().min(1, "Text must not be empty").max(500, "Text must be 500 characters or less"),
@@ -27,6 +28,14 @@ export async function GET(request: Request) {
 
     const where: any = { ownerId: session.user.id };
     if (personaId) {
+      // Key messaging travels with its persona, so workspace members see each other's items
+      const persona = await prisma.persona.findUnique({
+        where: { id: personaId },
+        select: { ownerId: true, workspaceId: true }
+      });
+      if (persona && (await resolveRecordRole(prisma, persona, session.user.id))) {
+        delete where.ownerId;
+      }
       where.personaId = personaId;
     }
 
@@ -65,12 +74,12 @@ export async function POST(request: Request) {
   const { text, brandId } = parsed.data; // Keep request param as brandId for backward compatibility
 
   try {
-    // If personaId is provided, verify it belongs to the user
+    // If personaId is provided, verify the user may edit it
     if (brandId && brandId.trim()) {
       const persona = await prisma.persona.findUnique({
         where: { id: brandId }
       });
-      if (!persona || persona.ownerId !== session.user.id) {
+      if (!persona || !canWriteWorkspace(await resolveRecordRole(prisma, persona, session.user.id))) {
         return NextResponse.json({ error: "Persona not found or unauthorized" }, { status: 403 });
       }
     }
@@ -140,7 +149,17 @@ export async function DELETE(request: Request) {
     }
 
     if (item.ownerId !== session.user.id) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+      // Workspace editors may prune key messaging on shared personas
+      const persona = item.personaId
+        ? await prisma.persona.findUnique({
+            where: { id: item.personaId },
+            select: { ownerId: true, workspaceId: true }
+          })
+        : null;
+      const role = persona ? await resolveRecordRole(prisma, persona, session.user.id) : null;
+      if (!canWriteWorkspace(role)) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+      }
     }
 
     await prisma.personaKeyMessaging.delete({
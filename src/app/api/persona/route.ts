@@ -2,9 +2,10 @@ import { NextResponse } from "next/server";
 import { auth } from "@/auth";
 import { prisma } from "@/lib/prisma";
 import { cookies } from "next/headers";
-import type OpenAI from "openai";
-import { getOpenAIClient } from "@/lib/openai";
+import { getLLMProvider, type LLMProvider } from "@/lib/llm";
 import { z } from "zod";
+import { readPersonaFacts } from "@/lib/placeholders";
+import { canWriteWorkspace, creationWorkspaceId, resolveRecordRole, resolveWorkspaceScope, scopeWhere } from "@/lib/workspaces";
 
 const personaProcessSchema = z.object({
   personaName: z.string().max(100, "Persona name must be 100 characters or less").optional(),
@@ -28,15 +29,12 @@ export async function POST(request: Request) {
     }
     
     try {
-      // Verify the persona belongs to the user
-      const persona = await prisma.persona.findFirst({
-        where: {
-          id: activatePersonaId,
-          ownerId: session.user.id
-        }
+      // Verify the persona belongs to the user or one of their workspaces
+      const persona = await prisma.persona.findUnique({
+        where: { id: activatePersonaId }
       });
       
-      if (!persona) {
+      if (!persona || !(await resolveRecordRole(prisma, persona, session.user.id))) {
         return NextResponse.json(
           { error: "Persona not found" },
           { status: 404 }
@@ -107,24 +105,24 @@ export async function POST(request: Request) {
   const { personaName, personaInfo } = parsed.data;
   const trimmedPersonaName = personaName?.trim() || null;
   const fallbackPersonaInfo = personaInfo.trim().substring(0, 400);
-  let openai: OpenAI | null = null;
+  let llm: LLMProvider | null = null;
 
   try {
-    openai = getOpenAIClient();
+    llm = getLLMProvider();
   } catch (error) {
-    console.warn("OPENAI_API_KEY missing for persona processing. Using fallback summary.", error);
+    console.warn("LLM provider unavailable for persona processing. Using fallback summary.", error);
   }
 
   let processedPersonaInfo = fallbackPersonaInfo;
 
-  if (openai) {
+  if (llm) {
     try {
       // Process and compact the persona information
-      const response = await openai.responses.create({
-        model: "gpt-5.1",
+      const response = await llm.generate({
+        task: "summarization",
         temperature: 0.3,
-        max_output_tokens: 200, // Reduced to help stay under 400 chars
-        input: [
+        maxOutputTokens: 200, // Reduced to help stay under 400 chars
+        messages: [
           {
             role: "system",
             content: `You are a persona strategist. Your task is to digest and compact persona information into a comprehensive persona guide that includes:
@@ -144,7 +142,7 @@ Create a concise but complete persona guide that captures all essential informat
         ]
       });
 
-      const aiSummary = response.output_text?.trim();
+      const aiSummary = response.text;
       if (aiSummary) {
         processedPersonaInfo = aiSummary.substring(0, 400);
       } else {
@@ -156,7 +154,7 @@ Create a concise but complete persona guide that captures all essential informat
       processedPersonaInfo = fallbackPersonaInfo;
     }
   } else {
-    console.warn("OPENAI_API_KEY missing. Using raw persona info without AI processing.");
+    console.warn("LLM provider unavailable. Using raw persona info without AI processing.");
   }
 
   // Save to database for authenticated users FIRST, before creating response
@@ -182,6 +180,14 @@ Create a concise but complete persona guide that captures all essential informat
       });
 
       if (user?.activePersonaId) {
+        const activePersona = await prisma.persona.findUnique({
+          where: { id: user.activePersonaId },
+          select: { ownerId: true, workspaceId: true }
+        });
+        const role = activePersona ? await resolveRecordRole(prisma, activePersona, session.user.id) : null;
+        if (!canWriteWorkspace(role)) {
+          return NextResponse.json({ error: "You have view-only access to this persona." }, { status: 403 });
+        }
         console.log("[persona][POST] Updating existing persona:", user.activePersonaId);
         // Update existing persona
         await prisma.persona.update({
@@ -195,11 +201,13 @@ Create a concise but complete persona guide that captures all essential informat
       } else {
         console.log("[persona][POST] Creating new persona for user:", session.user.id);
         // Create new persona and set it as active
+        const scope = await resolveWorkspaceScope(prisma, session.user.id);
         const persona = await prisma.persona.create({
           data: {
             name: trimmedPersonaName,
             info: processedPersonaInfo,
-            ownerId: session.user.id
+            ownerId: session.user.id,
+            workspaceId: creationWorkspaceId(scope)
           }
         });
         console.log("[persona][POST] Persona created:", persona.id);
@@ -306,12 +314,14 @@ export async function GET(request: Request) {
   // If requesting all personas, return list of all user personas
   if (allPersonas && isAuthenticated && session?.user?.id && prisma) {
     try {
+      const scope = await resolveWorkspaceScope(prisma, session.user.id);
       const personas = await prisma.persona.findMany({
-        where: { ownerId: session.user.id },
+        where: scopeWhere(scope, session.user.id),
         select: {
           id: true,
           name: true,
           info: true,
+          facts: true,
           createdAt: true,
           updatedAt: true
         },
@@ -325,10 +335,11 @@ export async function GET(request: Request) {
       });
       
       return NextResponse.json({ 
-        brands: personas.map(p => ({
+        brands: personas.map((p) => ({
           id: p.id,
           name: p.name,
           info: p.info,
+          facts: readPersonaFacts(p.facts),
           isActive: p.id === user?.activePersonaId,
           createdAt: p.createdAt,
           updatedAt: p.updatedAt
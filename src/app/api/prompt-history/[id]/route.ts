@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { deletePromptHistory, promptHistoryOwner } from "@/lib/prompt-history";
+
+// DELETE - Remove one entry from the caller's history
+export async function DELETE(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const db = prisma;
+  if (!db) {
+    return NextResponse.json({ error: "Prompt history is unavailable until the database is configured." }, { status: 503 });
+  }
+
+  const session = await auth();
+  const owner = promptHistoryOwner(session?.user?.id, await cookies());
+  const { id } = await params;
+  try {
+    const deleted = owner ? await deletePromptHistory(db, owner, id) : 0;
+    if (!deleted) {
+      return NextResponse.json({ error: "Entry not found" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[prompt-history][DELETE] failed", error);
+    return NextResponse.json({ error: "Unable to delete entry." }, { status: 500 });
+  }
+}
@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { deletePromptHistory, listPromptHistory, promptHistoryOwner } from "@/lib/prompt-history";
+import { promptHistoryQuerySchema } from "@/lib/validators";
+
+export const dynamic = "force-dynamic";
+
+// GET - The caller's compose and rewrite prompts, newest first; guests read theirs by cookie
+export async function GET(request: Request) {
+  const db = prisma;
+  if (!db) {
+    return NextResponse.json({ error: "Prompt history is unavailable until the database is configured." }, { status: 503 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const query = promptHistoryQuerySchema.safeParse(Object.fromEntries(searchParams.entries()));
+  if (!query.success) {
+    return NextResponse.json({ error: query.error.flatten() }, { status: 400 });
+  }
+
+  const session = await auth();
+  const owner = promptHistoryOwner(session?.user?.id, await cookies());
+  if (!owner) {
+    return NextResponse.json({ entries: [], nextCursor: null });
+  }
+
+  try {
+    const page = await listPromptHistory(db, owner, query.data);
+    if (!page) {
+      return NextResponse.json({ error: "Invalid cursor." }, { status: 400 });
+    }
+    return NextResponse.json(page);
+  } catch (error) {
+    console.error("[prompt-history][GET] failed", error);
+    return NextResponse.json({ error: "Unable to load prompt history." }, { status: 500 });
+  }
+}
+
+// DELETE - Clear the caller's whole history
+export async function DELETE() {
+  const db = prisma;
+  if (!db) {
+    return NextResponse.json({ error: "Prompt history is unavailable until the database is configured." }, { status: 503 });
+  }
+
+  const session = await auth();
+  const owner = promptHistoryOwner(session?.user?.id, await cookies());
+  if (!owner) {
+    return NextResponse.json({ success: true, deleted: 0 });
+  }
+
+  try {
+    const deleted = await deletePromptHistory(db, owner);
+    return NextResponse.json({ success: true, deleted });
+  } catch (error) {
+    console.error("[prompt-history][DELETE] failed", error);
+    return NextResponse.json({ error: "Unable to clear prompt history." }, { status: 500 });
+  }
+}
@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import {
+  deletePromptTemplate,
+  findPromptTemplate,
+  mapPromptTemplateSummary,
+  updatePromptTemplate
+} from "@/lib/prompt-template-library";
+import { promptTemplateUpdateSchema } from "@/lib/validators";
+import { canWriteWorkspace, resolveRecordRole } from "@/lib/workspaces";
+
+export const dynamic = "force-dynamic";
+
+export async function PATCH(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const db = prisma;
+  if (!db) {
+    return NextResponse.json({ error: "Templates are unavailable until the database is configured." }, { status: 503 });
+  }
+
+  const { id } = await params;
+  let payload: unknown;
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+  const parsed = promptTemplateUpdateSchema.safeParse(payload);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  try {
+    const template = await findPromptTemplate(db, id);
+    const role = template ? await resolveRecordRole(db, template, session.user.id) : null;
+    if (!template || !role) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 });
+    }
+    if (!canWriteWorkspace(role)) {
+      return NextResponse.json({ error: "You have view-only access to this template." }, { status: 403 });
+    }
+
+    const row = await updatePromptTemplate(db, template, parsed.data);
+    return NextResponse.json({ template: mapPromptTemplateSummary(row, role) });
+  } catch (error) {
+    console.error("[prompt-templates][PATCH] failed", error);
+    return NextResponse.json({ error: "Unable to update template." }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const db = prisma;
+  if (!db) {
+    return NextResponse.json({ error: "Templates are unavailable until the database is configured." }, { status: 503 });
+  }
+
+  const { id } = await params;
+  try {
+    const template = await findPromptTemplate(db, id);
+    const role = template ? await resolveRecordRole(db, template, session.user.id) : null;
+    if (!template || !role) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 });
+    }
+    if (!canWriteWorkspace(role)) {
+      return NextResponse.json({ error: "You have view-only access to this template." }, { status: 403 });
+    }
+
+    await deletePromptTemplate(db, id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[prompt-templates][DELETE] failed", error);
+    return NextResponse.json({ error: "Unable to delete template." }, { status: 500 });
+  }
+}
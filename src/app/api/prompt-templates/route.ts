@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { createPromptTemplate, listPromptTemplates, mapPromptTemplateSummary } from "@/lib/prompt-template-library";
+import { promptTemplateSchema } from "@/lib/validators";
+import { creationWorkspaceId, resolveWorkspaceScope } from "@/lib/workspaces";
+
+export const dynamic = "force-dynamic";
+
+// GET - Prompt templates in the current workspace (or personal space)
+export async function GET() {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const db = prisma;
+  if (!db) {
+    return NextResponse.json({ error: "Templates are unavailable until the database is configured." }, { status: 503 });
+  }
+
+  try {
+    const scope = await resolveWorkspaceScope(db, session.user.id);
+    const rows = await listPromptTemplates(db, { ownerId: session.user.id, workspaceId: scope.workspaceId });
+    return NextResponse.json({
+      templates: rows.map((row) => mapPromptTemplateSummary(row, scope.role))
+    });
+  } catch (error) {
+    console.error("[prompt-templates][GET] failed", error);
+    return NextResponse.json({ error: "Unable to load templates." }, { status: 500 });
+  }
+}
+
+// POST - Save a template; it is shared with the workspace when one is active and writable
+export async function POST(request: Request) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const db = prisma;
+  if (!db) {
+    return NextResponse.json({ error: "Templates are unavailable until the database is configured." }, { status: 503 });
+  }
+
+  let payload: unknown;
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+  const parsed = promptTemplateSchema.safeParse(payload);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  try {
+    const scope = await resolveWorkspaceScope(db, session.user.id);
+    const row = await createPromptTemplate(
+      db,
+      { ownerId: session.user.id, workspaceId: creationWorkspaceId(scope) },
+      parsed.data
+    );
+    // The author can edit the template even when they only view the rest of the workspace
+    return NextResponse.json({ template: mapPromptTemplateSummary(row, "owner") }, { status: 201 });
+  } catch (error) {
+    console.error("[prompt-templates][POST] failed", error);
+    return NextResponse.json({ error: "Unable to save template." }, { status: 500 });
+  }
+}
@@ -1,7 +1,10 @@
 import { NextResponse } from "next/server";
+import { cookies } from "next/headers";
 import { hash } from "bcryptjs";
 import { prisma } from "@/lib/prisma";
 import { registerSchema } from "@/lib/validators";
+import { claimGuestPromptHistory } from "@/lib/prompt-history";
+import { readGuestUsageId } from "@/lib/token-usage";
 
 export async function POST(request: Request) {
   const db = prisma;
@@ -43,6 +46,12 @@ export async function POST(request: Request) {
       // Log but don't fail registration if folder creation fails
       console.error("Failed to create Archive folder for new user:", folderError);
     }
+
+    // Prompts composed as a guest in this browser carry over to the new account
+    const guestId = readGuestUsageId(await cookies());
+    if (guestId) {
+      await claimGuestPromptHistory(db, guestId, user.id);
+    }
   } catch (error) {
     console.error("register error", error);
     return NextResponse.json(
@@ -1,7 +1,12 @@
 import { NextResponse } from "next/server";
+import { cookies } from "next/headers";
 import { auth } from "@/auth";
 import { z } from "zod";
-import { getOpenAIClient } from "@/lib/openai";
+import { getLLMProvider } from "@/lib/llm";
+import { prisma } from "@/lib/prisma";
+import { buildSourcesSection, loadSourceContext, type SourceContext } from "@/lib/sources/context";
+import { recordPromptHistory } from "@/lib/prompt-history";
+import { attachGuestUsageCookie, resolveUsageContext } from "@/lib/token-usage";
 
 const rewriteRequestSchema = z.object({
   selectedText: z.string().min(1),
@@ -13,7 +18,15 @@ const rewriteRequestSchema = z.object({
       name: z.string(),
       description: z.string()
     })
-    .optional()
+    .optional(),
+  // Attached sources of this persona and folder are added as reference material
+  personaId: z.string().min(1).nullable().optional(),
+  folderId: z.string().min(1).nullable().optional(),
+  // Kept with the prompt history entry: the document being edited and the saved style applied
+  documentId: z.string().min(1).nullable().optional(),
+  styleId: z.string().min(1).nullable().optional(),
+  // Built-in passes (e.g. readability simplify) opt out of the prompt history
+  history: z.boolean().default(true)
 });
 
 const SHORT_RULES =
@@ -30,14 +43,15 @@ export async function POST(request: Request) {
     return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
   }
 
-  const { selectedText, instruction, context, personaSummary, styleGuide } = parsed.data;
+  const { selectedText, instruction, context, personaSummary, styleGuide, personaId, folderId, documentId, styleId, history } =
+    parsed.data;
 
-  let openai;
+  let llm;
   try {
-    openai = getOpenAIClient();
+    llm = getLLMProvider();
   } catch (error) {
-    console.error("rewrite openai init failed", error);
-    return NextResponse.json({ error: "OPENAI_API_KEY missing" }, { status: 500 });
+    console.error("rewrite llm init failed", error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : "LLM provider unavailable" }, { status: 500 });
   }
 
   // Build the rewrite prompt
@@ -48,17 +62,27 @@ export async function POST(request: Request) {
   const styleSection = styleGuide
     ? `\n\nWriting Style (${styleGuide.name}):\n${styleGuide.description}\n\nMirror this style in the rewritten text.`
     : "";
+  let sourceContext: SourceContext = { passages: [], sources: [] };
+  if (isAuthenticated && session?.user?.id && prisma && (personaId || folderId)) {
+    sourceContext = await loadSourceContext(prisma, {
+      userId: session.user.id,
+      personaId,
+      folderId,
+      query: `${instruction} ${selectedText}`
+    });
+  }
+  const sourcesSection = buildSourcesSection(sourceContext.passages);
 
   const systemPrompt = `${SHORT_RULES}\n\nYou are rewriting a selected portion of text based on user instructions. Return ONLY the rewritten text in markdown format. Preserve any markdown formatting (headings, bold, italic, lists) that exists in the original text.`;
 
-  const userPrompt = `Rewrite the following selected text according to this instruction: "${instruction}"\n\nSelected text to rewrite:\n${selectedText}${contextSection}${personaSection}${styleSection}\n\nReturn ONLY the rewritten text in markdown format that replaces the selected portion. Preserve markdown syntax for headings (# ## ###), bold (**text**), italic (*text*), and lists.`;
+  const userPrompt = `Rewrite the following selected text according to this instruction: "${instruction}"\n\nSelected text to rewrite:\n${selectedText}${contextSection}${personaSection}${styleSection}${sourcesSection}\n\nReturn ONLY the rewritten text in markdown format that replaces the selected portion. Preserve markdown syntax for headings (# ## ###), bold (**text**), italic (*text*), and lists.`;
 
   try {
-    const response = await openai.responses.create({
-      model: "gpt-5.1",
+    const response = await llm.generate({
+      task: "draft",
       temperature: 0.62,
-      max_output_tokens: 500,
-      input: [
+      maxOutputTokens: 500,
+      messages: [
         {
           role: "system",
           content: systemPrompt
@@ -70,15 +94,30 @@ export async function POST(request: Request) {
       ]
     });
 
-    const rewrittenText = response.output_text?.trim() ?? null;
+    const rewrittenText = response.text || null;
 
     if (!rewrittenText) {
       return NextResponse.json({ error: "The model returned an empty response." }, { status: 502 });
     }
 
-    return NextResponse.json({
-      rewrittenText
+    const rewriteResponse = NextResponse.json({
+      rewrittenText,
+      sources: sourceContext.sources
     });
+    if (history && prisma) {
+      const usageContext = resolveUsageContext(session?.user?.id, await cookies());
+      await recordPromptHistory(prisma, usageContext.identifier, {
+        kind: "rewrite",
+        prompt: instruction,
+        personaId,
+        styleId,
+        styleGuide,
+        documentId,
+        tokens: response.usage.totalTokens
+      });
+      attachGuestUsageCookie(rewriteResponse, usageContext);
+    }
+    return rewriteResponse;
   } catch (error) {
     console.error("rewrite error", error);
     return NextResponse.json({ error: "Rewriting failed" }, { status: 500 });
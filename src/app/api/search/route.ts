@@ -0,0 +1,102 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { searchQuerySchema } from "@/lib/validators";
+import { resolveWorkspaceScope } from "@/lib/workspaces";
+import { buildSnippet, parseSearchTerms, searchDocumentIds, searchPersonas } from "@/lib/search";
+import type { DocumentSearchResult, PersonaSearchResult } from "@/types/writer";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const db = prisma;
+  if (!db) {
+    return NextResponse.json(
+      { error: "Search is unavailable until the database is configured." },
+      { status: 503 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const parsed = searchQuerySchema.safeParse(Object.fromEntries(searchParams.entries()));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const { q, folderId, pinned, kind, from, to, limit } = parsed.data;
+  const userId = session.user.id;
+  const terms = parseSearchTerms(q);
+  if (!terms.highlight.length) {
+    return NextResponse.json({ documents: [], personas: [] });
+  }
+
+  try {
+    const scope = await resolveWorkspaceScope(db, userId);
+    // Personas have no folders, pin state or dates, so any of those filters leaves them out
+    const includePersonas = kind === "all" && !folderId && !pinned && !from && !to;
+
+    const [hits, personaHits] = await Promise.all([
+      searchDocumentIds(db, { userId, scope, terms, filters: { folderId, pinned, kind, from, to }, limit }),
+      includePersonas ? searchPersonas(db, { userId, scope, terms, limit: 5 }) : Promise.resolve([])
+    ]);
+
+    const rows = hits.length
+      ? await db.document.findMany({
+          where: { id: { in: hits.map((hit) => hit.id) } },
+          select: {
+            id: true,
+            title: true,
+            content: true,
+            prompt: true,
+            styleTitle: true,
+            styleSummary: true,
+            pinned: true,
+            createdAt: true,
+            updatedAt: true,
+            DocumentFolder: {
+              select: { Folder: { select: { id: true, name: true } } }
+            }
+          }
+        })
+      : [];
+    const rowsById = new Map<string, (typeof rows)[number]>(rows.map((row: (typeof rows)[number]) => [row.id, row]));
+
+    const documents: DocumentSearchResult[] = [];
+    hits.forEach((hit) => {
+      const row = rowsById.get(hit.id);
+      if (!row) return;
+      const isStyle = Boolean(row.styleTitle);
+      // Prefer a content excerpt; fall back to whichever other field actually matched
+      const snippet =
+        buildSnippet(row.content, terms.highlight) ??
+        buildSnippet(isStyle ? row.styleSummary : row.prompt, terms.highlight) ??
+        buildSnippet(row.title, terms.highlight);
+      documents.push({
+        id: row.id,
+        kind: isStyle ? "style" : "doc",
+        title: row.title,
+        pinned: row.pinned,
+        createdAt: row.createdAt.toISOString(),
+        updatedAt: row.updatedAt.toISOString(),
+        folders: row.DocumentFolder.map((entry: { Folder: { id: string; name: string } }) => entry.Folder),
+        snippet
+      });
+    });
+
+    const personas: PersonaSearchResult[] = personaHits.map((persona) => ({
+      id: persona.id,
+      name: persona.name,
+      snippet: buildSnippet(persona.info, terms.highlight) ?? buildSnippet(persona.name, terms.highlight)
+    }));
+
+    return NextResponse.json({ documents, personas });
+  } catch (error) {
+    console.error("[search][GET] failed", error);
+    return NextResponse.json({ error: "Unable to search right now." }, { status: 500 });
+  }
+}
@@ -0,0 +1,92 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { mapSourceSummary, replaceSourceAttachments, sourceSummarySelect } from "@/lib/sources/store";
+import { sourceUpdateSchema } from "@/lib/validators";
+import { canWriteWorkspace, resolveRecordRole } from "@/lib/workspaces";
+
+export const dynamic = "force-dynamic";
+
+export async function PATCH(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const db = prisma;
+  if (!db) {
+    return NextResponse.json({ error: "Sources are unavailable until the database is configured." }, { status: 503 });
+  }
+
+  const { id } = await params;
+  let payload: unknown;
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+  const parsed = sourceUpdateSchema.safeParse(payload);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  try {
+    const source = await db.source.findUnique({
+      where: { id },
+      select: { id: true, ownerId: true, workspaceId: true }
+    });
+    const role = source ? await resolveRecordRole(db, source, session.user.id) : null;
+    if (!source || !role) {
+      return NextResponse.json({ error: "Source not found" }, { status: 404 });
+    }
+    if (!canWriteWorkspace(role)) {
+      return NextResponse.json({ error: "You have view-only access to this source." }, { status: 403 });
+    }
+
+    const { title, personaIds, folderIds } = parsed.data;
+    if (title) {
+      await db.source.update({ where: { id }, data: { title } });
+    }
+    await replaceSourceAttachments(db, { source, personaIds, folderIds });
+
+    const row = await db.source.findUnique({ where: { id }, select: sourceSummarySelect });
+    return NextResponse.json({ source: mapSourceSummary(row!, role) });
+  } catch (error) {
+    console.error("[sources][PATCH] failed", error);
+    return NextResponse.json({ error: "Unable to update source." }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const db = prisma;
+  if (!db) {
+    return NextResponse.json({ error: "Sources are unavailable until the database is configured." }, { status: 503 });
+  }
+
+  const { id } = await params;
+  try {
+    const source = await db.source.findUnique({
+      where: { id },
+      select: { ownerId: true, workspaceId: true }
+    });
+    const role = source ? await resolveRecordRole(db, source, session.user.id) : null;
+    if (!source || !role) {
+      return NextResponse.json({ error: "Source not found" }, { status: 404 });
+    }
+    if (!canWriteWorkspace(role)) {
+      return NextResponse.json({ error: "You have view-only access to this source." }, { status: 403 });
+    }
+
+    // Chunks and persona/folder attachments cascade
+    await db.source.delete({ where: { id } });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[sources][DELETE] failed", error);
+    return NextResponse.json({ error: "Unable to delete source." }, { status: 500 });
+  }
+}
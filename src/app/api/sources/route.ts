@@ -0,0 +1,120 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { fetchUrlSource, parseSourceFile, SourceParseError, type ParsedSource } from "@/lib/sources/parse";
+import { createSource, mapSourceSummary, replaceSourceAttachments, sourceSummarySelect } from "@/lib/sources/store";
+import { sourceUrlSchema } from "@/lib/validators";
+import { creationWorkspaceId, resolveWorkspaceScope, scopeWhere } from "@/lib/workspaces";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const db = prisma;
+  if (!db) {
+    return NextResponse.json({ error: "Sources are unavailable until the database is configured." }, { status: 503 });
+  }
+
+  try {
+    const scope = await resolveWorkspaceScope(db, session.user.id);
+    const rows = await db.source.findMany({
+      where: scopeWhere(scope, session.user.id),
+      select: sourceSummarySelect,
+      orderBy: { createdAt: "desc" }
+    });
+    return NextResponse.json({
+      sources: rows.map((row: (typeof rows)[number]) => mapSourceSummary(row, scope.role))
+    });
+  } catch (error) {
+    console.error("[sources][GET] failed", error);
+    return NextResponse.json({ error: "Unable to load sources." }, { status: 500 });
+  }
+}
+
+function formIds(form: FormData, field: string): string[] | undefined {
+  const values = form.getAll(field).filter((value): value is string => typeof value === "string" && value.length > 0);
+  return values.length ? values.slice(0, 50) : undefined;
+}
+
+/** Adds a source from a multipart file upload (`file`) or a JSON `{ url }` body. */
+export async function POST(request: Request) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const db = prisma;
+  if (!db) {
+    return NextResponse.json({ error: "Sources are unavailable until the database is configured." }, { status: 503 });
+  }
+
+  let parsed: ParsedSource;
+  let fileName: string | null = null;
+  let url: string | null = null;
+  let personaIds: string[] | undefined;
+  let folderIds: string[] | undefined;
+
+  try {
+    if (request.headers.get("content-type")?.includes("multipart/form-data")) {
+      const form = await request.formData().catch(() => null);
+      const file = form?.get("file");
+      if (!form || !file || typeof file === "string") {
+        return NextResponse.json({ error: "Attach a file to upload." }, { status: 400 });
+      }
+      fileName = file.name;
+      personaIds = formIds(form, "personaIds");
+      folderIds = formIds(form, "folderIds");
+      parsed = await parseSourceFile({
+        name: file.name,
+        type: file.type,
+        bytes: new Uint8Array(await file.arrayBuffer())
+      });
+    } else {
+      let payload: unknown;
+      try {
+        payload = await request.json();
+      } catch {
+        return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+      }
+      const body = sourceUrlSchema.safeParse(payload);
+      if (!body.success) {
+        return NextResponse.json({ error: body.error.flatten() }, { status: 400 });
+      }
+      url = body.data.url;
+      personaIds = body.data.personaIds;
+      folderIds = body.data.folderIds;
+      parsed = await fetchUrlSource(url);
+    }
+  } catch (error) {
+    if (error instanceof SourceParseError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("[sources][POST] parse failed", error);
+    return NextResponse.json({ error: "Unable to read that source." }, { status: 500 });
+  }
+
+  try {
+    const scope = await resolveWorkspaceScope(db, session.user.id);
+    const source = await createSource(db, {
+      parsed,
+      ownerId: session.user.id,
+      workspaceId: creationWorkspaceId(scope),
+      fileName,
+      url
+    });
+    if (personaIds || folderIds) {
+      await replaceSourceAttachments(db, { source, personaIds, folderIds });
+    }
+
+    const row = await db.source.findUnique({ where: { id: source.id }, select: sourceSummarySelect });
+    // The creator owns the source even when they only view the rest of the workspace
+    return NextResponse.json({ source: mapSourceSummary(row!, "owner") }, { status: 201 });
+  } catch (error) {
+    console.error("[sources][POST] failed", error);
+    return NextResponse.json({ error: "Unable to save source." }, { status: 500 });
+  }
+}
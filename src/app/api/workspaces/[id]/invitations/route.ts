@@ -0,0 +1,83 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { workspaceInvitationSchema } from "@/lib/validators";
+import { createInvitationToken, getWorkspaceRole, invitationUrl } from "@/lib/workspaces";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const db = prisma;
+  if (!db) {
+    return NextResponse.json(
+      { error: "Workspaces are unavailable until the database is configured." },
+      { status: 503 }
+    );
+  }
+
+  const { id } = await params;
+
+  let payload: unknown;
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const parsed = workspaceInvitationSchema.safeParse(payload);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const email = parsed.data.email.trim().toLowerCase();
+  const { role } = parsed.data;
+
+  try {
+    const callerRole = await getWorkspaceRole(db, id, session.user.id);
+    if (!callerRole) {
+      return NextResponse.json({ error: "Workspace not found." }, { status: 404 });
+    }
+    if (callerRole !== "owner") {
+      return NextResponse.json({ error: "Only workspace owners can invite members." }, { status: 403 });
+    }
+
+    const existingMember = await db.workspaceMember.findFirst({
+      where: { workspaceId: id, User: { email } },
+      select: { userId: true }
+    });
+    if (existingMember) {
+      return NextResponse.json({ error: "That person is already a member of this workspace." }, { status: 409 });
+    }
+
+    // Re-inviting the same address updates the offered role instead of stacking invitations,
+    // and issues a new link so any earlier one stops working
+    const { token, tokenHash } = createInvitationToken();
+    const invitation = await db.workspaceInvitation.upsert({
+      where: { workspaceId_email: { workspaceId: id, email } },
+      create: { workspaceId: id, email, role, invitedById: session.user.id, tokenHash },
+      update: { role, invitedById: session.user.id, tokenHash }
+    });
+
+    return NextResponse.json(
+      {
+        id: invitation.id,
+        email: invitation.email,
+        role: invitation.role,
+        createdAt: invitation.createdAt,
+        inviteUrl: invitationUrl(invitation.id, token)
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("[workspaces][invitations][POST] failed", error);
+    return NextResponse.json({ error: "Unable to send invitation." }, { status: 500 });
+  }
+}
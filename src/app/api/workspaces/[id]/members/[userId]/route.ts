@@ -0,0 +1,125 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { workspaceMemberUpdateSchema } from "@/lib/validators";
+import { getWorkspaceRole } from "@/lib/workspaces";
+
+export const dynamic = "force-dynamic";
+
+type MemberRouteParams = { params: Promise<{ id: string; userId: string }> };
+
+// PATCH - Change a member's role (owners only)
+export async function PATCH(request: Request, { params }: MemberRouteParams) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const db = prisma;
+  if (!db) {
+    return NextResponse.json(
+      { error: "Workspaces are unavailable until the database is configured." },
+      { status: 503 }
+    );
+  }
+
+  const { id, userId } = await params;
+
+  let payload: unknown;
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const parsed = workspaceMemberUpdateSchema.safeParse(payload);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  try {
+    const [callerRole, memberRole] = await Promise.all([
+      getWorkspaceRole(db, id, session.user.id),
+      getWorkspaceRole(db, id, userId)
+    ]);
+    if (!callerRole || !memberRole) {
+      return NextResponse.json({ error: "Member not found." }, { status: 404 });
+    }
+    if (callerRole !== "owner") {
+      return NextResponse.json({ error: "Only workspace owners can change roles." }, { status: 403 });
+    }
+
+    if (memberRole === "owner" && parsed.data.role !== "owner") {
+      const ownerCount = await db.workspaceMember.count({ where: { workspaceId: id, role: "owner" } });
+      if (ownerCount <= 1) {
+        return NextResponse.json({ error: "A workspace needs at least one owner." }, { status: 400 });
+      }
+    }
+
+    await db.workspaceMember.update({
+      where: { workspaceId_userId: { workspaceId: id, userId } },
+      data: { role: parsed.data.role }
+    });
+    return NextResponse.json({ userId, role: parsed.data.role });
+  } catch (error) {
+    console.error("[workspaces][members][PATCH] failed", error);
+    return NextResponse.json({ error: "Unable to update member." }, { status: 500 });
+  }
+}
+
+// DELETE - Owners remove members; any member may remove themselves to leave
+export async function DELETE(_request: Request, { params }: MemberRouteParams) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const db = prisma;
+  if (!db) {
+    return NextResponse.json(
+      { error: "Workspaces are unavailable until the database is configured." },
+      { status: 503 }
+    );
+  }
+
+  const { id, userId } = await params;
+  const isSelf = userId === session.user.id;
+
+  try {
+    const [callerRole, memberRole] = await Promise.all([
+      getWorkspaceRole(db, id, session.user.id),
+      getWorkspaceRole(db, id, userId)
+    ]);
+    if (!callerRole || !memberRole) {
+      return NextResponse.json({ error: "Member not found." }, { status: 404 });
+    }
+    if (!isSelf && callerRole !== "owner") {
+      return NextResponse.json({ error: "Only workspace owners can remove members." }, { status: 403 });
+    }
+
+    if (memberRole === "owner") {
+      const ownerCount = await db.workspaceMember.count({ where: { workspaceId: id, role: "owner" } });
+      if (ownerCount <= 1) {
+        return NextResponse.json(
+          { error: "Promote another owner or delete the workspace instead." },
+          { status: 400 }
+        );
+      }
+    }
+
+    await db.$transaction([
+      db.workspaceMember.delete({
+        where: { workspaceId_userId: { workspaceId: id, userId } }
+      }),
+      // Send the removed member back to their personal space if they were working here
+      db.user.updateMany({
+        where: { id: userId, activeWorkspaceId: id },
+        data: { activeWorkspaceId: null, activePersonaId: null }
+      })
+    ]);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[workspaces][members][DELETE] failed", error);
+    return NextResponse.json({ error: "Unable to remove member." }, { status: 500 });
+  }
+}
@@ -0,0 +1,184 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { workspaceCreateSchema } from "@/lib/validators";
+import { getWorkspaceRole, normalizeWorkspaceRole } from "@/lib/workspaces";
+import type { WorkspaceInvitationSummary, WorkspaceMemberSummary } from "@/types/writer";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const db = prisma;
+  if (!db) {
+    return NextResponse.json(
+      { error: "Workspaces are unavailable until the database is configured." },
+      { status: 503 }
+    );
+  }
+
+  const { id } = await params;
+
+  try {
+    const role = await getWorkspaceRole(db, id, session.user.id);
+    if (!role) {
+      return NextResponse.json({ error: "Workspace not found." }, { status: 404 });
+    }
+
+    const workspace = await db.workspace.findUnique({
+      where: { id },
+      include: {
+        WorkspaceMember: {
+          include: { User: { select: { name: true, email: true } } },
+          orderBy: { joinedAt: "asc" }
+        },
+        WorkspaceInvitation: {
+          include: { User: { select: { name: true, email: true } } },
+          orderBy: { createdAt: "desc" }
+        }
+      }
+    });
+    if (!workspace) {
+      return NextResponse.json({ error: "Workspace not found." }, { status: 404 });
+    }
+
+    const members: WorkspaceMemberSummary[] = workspace.WorkspaceMember.map(
+      (member: { userId: string; role: string; joinedAt: Date; User: { name: string | null; email: string | null } }) => ({
+        userId: member.userId,
+        name: member.User.name,
+        email: member.User.email,
+        role: normalizeWorkspaceRole(member.role) ?? "viewer",
+        joinedAt: member.joinedAt.toISOString()
+      })
+    );
+
+    // Only owners manage invitations, so other members do not see the pending list
+    const invitations: WorkspaceInvitationSummary[] =
+      role === "owner"
+        ? workspace.WorkspaceInvitation.map(
+            (invitation: {
+              id: string;
+              email: string;
+              role: string;
+              createdAt: Date;
+              User: { name: string | null; email: string | null };
+            }) => ({
+              id: invitation.id,
+              workspaceId: workspace.id,
+              workspaceName: workspace.name,
+              email: invitation.email,
+              role: normalizeWorkspaceRole(invitation.role) ?? "viewer",
+              invitedBy: invitation.User.name ?? invitation.User.email ?? null,
+              createdAt: invitation.createdAt.toISOString()
+            })
+          )
+        : [];
+
+    return NextResponse.json({
+      id: workspace.id,
+      name: workspace.name,
+      role,
+      currentUserId: session.user.id,
+      members,
+      invitations
+    });
+  } catch (error) {
+    console.error("[workspaces][GET] failed", error);
+    return NextResponse.json({ error: "Unable to load workspace." }, { status: 500 });
+  }
+}
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const db = prisma;
+  if (!db) {
+    return NextResponse.json(
+      { error: "Workspaces are unavailable until the database is configured." },
+      { status: 503 }
+    );
+  }
+
+  const { id } = await params;
+
+  let payload: unknown;
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const parsed = workspaceCreateSchema.safeParse(payload);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  try {
+    const role = await getWorkspaceRole(db, id, session.user.id);
+    if (!role) {
+      return NextResponse.json({ error: "Workspace not found." }, { status: 404 });
+    }
+    if (role !== "owner") {
+      return NextResponse.json({ error: "Only workspace owners can rename it." }, { status: 403 });
+    }
+
+    const workspace = await db.workspace.update({
+      where: { id },
+      data: { name: parsed.data.name }
+    });
+    return NextResponse.json({ id: workspace.id, name: workspace.name });
+  } catch (error) {
+    console.error("[workspaces][PATCH] failed", error);
+    return NextResponse.json({ error: "Unable to rename workspace." }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const db = prisma;
+  if (!db) {
+    return NextResponse.json(
+      { error: "Workspaces are unavailable until the database is configured." },
+      { status: 503 }
+    );
+  }
+
+  const { id } = await params;
+
+  try {
+    const role = await getWorkspaceRole(db, id, session.user.id);
+    if (!role) {
+      return NextResponse.json({ error: "Workspace not found." }, { status: 404 });
+    }
+    if (role !== "owner") {
+      return NextResponse.json({ error: "Only workspace owners can delete it." }, { status: 403 });
+    }
+
+    // Shared documents, folders and personas fall back to their creators' personal spaces (SET NULL)
+    await db.workspace.delete({ where: { id } });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[workspaces][DELETE] failed", error);
+    return NextResponse.json({ error: "Unable to delete workspace." }, { status: 500 });
+  }
+}
@@ -0,0 +1,178 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { workspaceShareSchema } from "@/lib/validators";
+import { canWriteWorkspace, getWorkspaceRole } from "@/lib/workspaces";
+import { folderNameTaken } from "@/lib/folders";
+import { listPersonalPromptTemplates, sharePromptTemplate } from "@/lib/prompt-template-library";
+import type { WorkspaceShareableItem } from "@/types/writer";
+
+export const dynamic = "force-dynamic";
+
+// GET - Personal personas, styles, folders and prompt templates the user could move into this workspace
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const db = prisma;
+  if (!db) {
+    return NextResponse.json(
+      { error: "Workspaces are unavailable until the database is configured." },
+      { status: 503 }
+    );
+  }
+
+  const { id } = await params;
+  const personal = { ownerId: session.user.id, workspaceId: null };
+
+  try {
+    if (!canWriteWorkspace(await getWorkspaceRole(db, id, session.user.id))) {
+      return NextResponse.json({ error: "Workspace not found." }, { status: 404 });
+    }
+
+    const [personas, styles, folders, prompts] = await Promise.all([
+      db.persona.findMany({
+        where: personal,
+        select: { id: true, name: true },
+        orderBy: { createdAt: "desc" }
+      }),
+      db.document.findMany({
+        where: { ...personal, styleTitle: { not: null } },
+        select: { id: true, title: true, styleTitle: true },
+        orderBy: { createdAt: "desc" },
+        take: 100
+      }),
+      db.folder.findMany({
+        where: { ...personal, NOT: { name: "Archive" } },
+        select: { id: true, name: true },
+        orderBy: { createdAt: "desc" }
+      }),
+      listPersonalPromptTemplates(db, session.user.id)
+    ]);
+
+    const items: WorkspaceShareableItem[] = [
+      ...personas.map((persona: { id: string; name: string | null }) => ({
+        kind: "persona" as const,
+        id: persona.id,
+        name: persona.name || "Untitled persona"
+      })),
+      ...styles.map((style: { id: string; title: string; styleTitle: string | null }) => ({
+        kind: "style" as const,
+        id: style.id,
+        name: style.styleTitle || style.title || "Untitled style"
+      })),
+      ...folders.map((folder: { id: string; name: string }) => ({
+        kind: "folder" as const,
+        id: folder.id,
+        name: folder.name
+      })),
+      ...prompts.map((prompt) => ({
+        kind: "prompt" as const,
+        id: prompt.id,
+        name: prompt.name
+      }))
+    ];
+
+    return NextResponse.json({ items });
+  } catch (error) {
+    console.error("[workspaces][share][GET] failed", error);
+    return NextResponse.json({ error: "Unable to load shareable items." }, { status: 500 });
+  }
+}
+
+// POST - Move a personal persona, style, folder or prompt template into the workspace library
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const db = prisma;
+  if (!db) {
+    return NextResponse.json(
+      { error: "Workspaces are unavailable until the database is configured." },
+      { status: 503 }
+    );
+  }
+
+  const { id } = await params;
+
+  let payload: unknown;
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const parsed = workspaceShareSchema.safeParse(payload);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const { kind, id: itemId } = parsed.data;
+  const userId = session.user.id;
+  const personal = { id: itemId, ownerId: userId, workspaceId: null };
+
+  try {
+    const role = await getWorkspaceRole(db, id, userId);
+    if (!role) {
+      return NextResponse.json({ error: "Workspace not found." }, { status: 404 });
+    }
+    if (!canWriteWorkspace(role)) {
+      return NextResponse.json({ error: "Viewers cannot add to the workspace library." }, { status: 403 });
+    }
+
+    if (kind === "persona") {
+      const result = await db.persona.updateMany({ where: personal, data: { workspaceId: id } });
+      if (result.count === 0) {
+        return NextResponse.json({ error: "Persona not found." }, { status: 404 });
+      }
+    } else if (kind === "style") {
+      const result = await db.document.updateMany({
+        where: { ...personal, styleTitle: { not: null } },
+        data: { workspaceId: id }
+      });
+      if (result.count === 0) {
+        return NextResponse.json({ error: "Style not found." }, { status: 404 });
+      }
+    } else if (kind === "prompt") {
+      // The template's style and persona stay attached only if they are already in the workspace
+      if (!(await sharePromptTemplate(db, userId, itemId, id))) {
+        return NextResponse.json({ error: "Template not found." }, { status: 404 });
+      }
+    } else {
+      const folder = await db.folder.findFirst({ where: personal, select: { id: true, name: true } });
+      if (!folder) {
+        return NextResponse.json({ error: "Folder not found." }, { status: 404 });
+      }
+      if (await folderNameTaken(db, { ownerId: userId, workspaceId: id }, folder.name)) {
+        return NextResponse.json({ error: "This workspace already has a folder with that name." }, { status: 409 });
+      }
+      // The folder's documents come along so members can open what they see in it
+      await db.$transaction([
+        db.folder.update({ where: { id: folder.id }, data: { workspaceId: id } }),
+        db.document.updateMany({
+          where: {
+            ownerId: userId,
+            workspaceId: null,
+            DocumentFolder: { some: { folderId: folder.id } }
+          },
+          data: { workspaceId: id }
+        })
+      ]);
+    }
+
+    return NextResponse.json({ success: true, kind, id: itemId, workspaceId: id });
+  } catch (error) {
+    console.error("[workspaces][share][POST] failed", error);
+    return NextResponse.json({ error: "Unable to share with the workspace." }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { workspaceActivateSchema } from "@/lib/validators";
+import { getWorkspaceRole } from "@/lib/workspaces";
+
+export const dynamic = "force-dynamic";
+
+export async function PUT(request: Request) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const db = prisma;
+  if (!db) {
+    return NextResponse.json(
+      { error: "Workspaces are unavailable until the database is configured." },
+      { status: 503 }
+    );
+  }
+
+  let payload: unknown;
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const parsed = workspaceActivateSchema.safeParse(payload);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const { workspaceId } = parsed.data;
+
+  try {
+    if (workspaceId && !(await getWorkspaceRole(db, workspaceId, session.user.id))) {
+      return NextResponse.json({ error: "Workspace not found." }, { status: 404 });
+    }
+
+    // Personas are scoped too, so drop an active persona that is not visible from the new space
+    const user = await db.user.findUnique({
+      where: { id: session.user.id },
+      select: { Persona_User_activePersonaIdToPersona: { select: { workspaceId: true } } }
+    });
+    const keepPersona = (user?.Persona_User_activePersonaIdToPersona?.workspaceId ?? null) === workspaceId;
+
+    await db.user.update({
+      where: { id: session.user.id },
+      data: {
+        activeWorkspaceId: workspaceId,
+        ...(keepPersona ? {} : { activePersonaId: null })
+      }
+    });
+
+    return NextResponse.json({ activeWorkspaceId: workspaceId });
+  } catch (error) {
+    console.error("[workspaces][active][PUT] failed", error);
+    return NextResponse.json({ error: "Unable to switch workspace." }, { status: 500 });
+  }
+}
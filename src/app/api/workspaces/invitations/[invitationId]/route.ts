@@ -0,0 +1,136 @@
+import { NextResponse } from "next/server";
+import type { PrismaClient } from "@prisma/client";
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { workspaceInvitationAcceptSchema } from "@/lib/validators";
+import { getWorkspaceRole, invitationTokenMatches, normalizeWorkspaceRole } from "@/lib/workspaces";
+import type { WorkspaceSummary } from "@/types/writer";
+
+export const dynamic = "force-dynamic";
+
+async function sessionEmail(db: PrismaClient, userId: string): Promise<string | null> {
+  const user = await db.user.findUnique({ where: { id: userId }, select: { email: true } });
+  return user?.email ? user.email.toLowerCase() : null;
+}
+
+// POST - Accept an invitation with the token from its link, signed in with the invited email
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ invitationId: string }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const db = prisma;
+  if (!db) {
+    return NextResponse.json(
+      { error: "Workspaces are unavailable until the database is configured." },
+      { status: 503 }
+    );
+  }
+
+  const { invitationId } = await params;
+  const userId = session.user.id;
+
+  let payload: unknown;
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const parsed = workspaceInvitationAcceptSchema.safeParse(payload);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Open the invite link you were sent to join this workspace." }, { status: 400 });
+  }
+
+  try {
+    const [invitation, email] = await Promise.all([
+      db.workspaceInvitation.findUnique({
+        where: { id: invitationId },
+        include: { Workspace: { select: { id: true, name: true } } }
+      }),
+      sessionEmail(db, userId)
+    ]);
+    if (!invitation || !email || invitation.email !== email) {
+      return NextResponse.json({ error: "Invitation not found." }, { status: 404 });
+    }
+    // Registering the invited address proves nothing, so the link's secret is what grants access
+    if (!invitationTokenMatches(invitation.tokenHash, parsed.data.token)) {
+      return NextResponse.json(
+        { error: "This invite link is no longer valid. Ask the workspace owner to send a new one." },
+        { status: 403 }
+      );
+    }
+
+    const role = normalizeWorkspaceRole(invitation.role) ?? "viewer";
+    await db.$transaction([
+      db.workspaceMember.upsert({
+        where: { workspaceId_userId: { workspaceId: invitation.workspaceId, userId } },
+        create: { workspaceId: invitation.workspaceId, userId, role },
+        update: {}
+      }),
+      db.workspaceInvitation.delete({ where: { id: invitationId } }),
+      db.user.update({
+        where: { id: userId },
+        data: { activeWorkspaceId: invitation.workspaceId, activePersonaId: null }
+      })
+    ]);
+
+    const memberCount = await db.workspaceMember.count({ where: { workspaceId: invitation.workspaceId } });
+    const summary: WorkspaceSummary = {
+      id: invitation.Workspace.id,
+      name: invitation.Workspace.name,
+      role: (await getWorkspaceRole(db, invitation.workspaceId, userId)) ?? role,
+      memberCount
+    };
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error("[workspaces][invitations][POST] failed", error);
+    return NextResponse.json({ error: "Unable to accept invitation." }, { status: 500 });
+  }
+}
+
+// DELETE - The invitee declines, or a workspace owner revokes
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ invitationId: string }> }
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const db = prisma;
+  if (!db) {
+    return NextResponse.json(
+      { error: "Workspaces are unavailable until the database is configured." },
+      { status: 503 }
+    );
+  }
+
+  const { invitationId } = await params;
+
+  try {
+    const invitation = await db.workspaceInvitation.findUnique({ where: { id: invitationId } });
+    if (!invitation) {
+      return NextResponse.json({ error: "Invitation not found." }, { status: 404 });
+    }
+
+    const [email, role] = await Promise.all([
+      sessionEmail(db, session.user.id),
+      getWorkspaceRole(db, invitation.workspaceId, session.user.id)
+    ]);
+    if (invitation.email !== email && role !== "owner") {
+      return NextResponse.json({ error: "Invitation not found." }, { status: 404 });
+    }
+
+    await db.workspaceInvitation.delete({ where: { id: invitationId } });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[workspaces][invitations][DELETE] failed", error);
+    return NextResponse.json({ error: "Unable to remove invitation." }, { status: 500 });
+  }
+}
@@ -0,0 +1,153 @@
+import { NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { workspaceCreateSchema } from "@/lib/validators";
+import { normalizeWorkspaceRole, resolveWorkspaceScope } from "@/lib/workspaces";
+import type { WorkspaceInvitationSummary, WorkspaceSummary } from "@/types/writer";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const db = prisma;
+  if (!db) {
+    return NextResponse.json(
+      { error: "Workspaces are unavailable until the database is configured." },
+      { status: 503 }
+    );
+  }
+
+  const userId = session.user.id;
+
+  try {
+    const [memberships, scope, user] = await Promise.all([
+      db.workspaceMember.findMany({
+        where: { userId },
+        include: {
+          Workspace: {
+            select: {
+              id: true,
+              name: true,
+              _count: { select: { WorkspaceMember: true } }
+            }
+          }
+        },
+        orderBy: { joinedAt: "asc" }
+      }),
+      resolveWorkspaceScope(db, userId),
+      db.user.findUnique({ where: { id: userId }, select: { email: true } })
+    ]);
+
+    // Invitations are matched on the signed-in account's email
+    const invitations = user?.email
+      ? await db.workspaceInvitation.findMany({
+          where: { email: user.email.toLowerCase() },
+          include: {
+            Workspace: { select: { id: true, name: true } },
+            User: { select: { name: true, email: true } }
+          },
+          orderBy: { createdAt: "desc" }
+        })
+      : [];
+
+    const workspaces: WorkspaceSummary[] = memberships.map(
+      (membership: { role: string; Workspace: { id: string; name: string; _count: { WorkspaceMember: number } } }) => ({
+        id: membership.Workspace.id,
+        name: membership.Workspace.name,
+        role: normalizeWorkspaceRole(membership.role) ?? "viewer",
+        memberCount: membership.Workspace._count.WorkspaceMember
+      })
+    );
+
+    const pendingInvitations: WorkspaceInvitationSummary[] = invitations.map(
+      (invitation: {
+        id: string;
+        email: string;
+        role: string;
+        createdAt: Date;
+        Workspace: { id: string; name: string };
+        User: { name: string | null; email: string | null };
+      }) => ({
+        id: invitation.id,
+        workspaceId: invitation.Workspace.id,
+        workspaceName: invitation.Workspace.name,
+        email: invitation.email,
+        role: normalizeWorkspaceRole(invitation.role) ?? "viewer",
+        invitedBy: invitation.User.name ?? invitation.User.email ?? null,
+        createdAt: invitation.createdAt.toISOString()
+      })
+    );
+
+    return NextResponse.json({
+      workspaces,
+      invitations: pendingInvitations,
+      activeWorkspaceId: scope.workspaceId
+    });
+  } catch (error) {
+    console.error("[workspaces][GET] failed", error);
+    return NextResponse.json({ error: "Unable to load workspaces." }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const db = prisma;
+  if (!db) {
+    return NextResponse.json(
+      { error: "Workspaces are unavailable until the database is configured." },
+      { status: 503 }
+    );
+  }
+
+  let payload: unknown;
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const parsed = workspaceCreateSchema.safeParse(payload);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const userId = session.user.id;
+
+  try {
+    // The creator becomes the first owner and switches into the new workspace
+    const workspace = await db.$transaction(async (tx: Prisma.TransactionClient) => {
+      const created = await tx.workspace.create({
+        data: {
+          name: parsed.data.name,
+          createdById: userId,
+          WorkspaceMember: { create: { userId, role: "owner" } }
+        }
+      });
+      await tx.user.update({
+        where: { id: userId },
+        data: { activeWorkspaceId: created.id }
+      });
+      return created;
+    });
+
+    const summary: WorkspaceSummary = {
+      id: workspace.id,
+      name: workspace.name,
+      role: "owner",
+      memberCount: 1
+    };
+    return NextResponse.json(summary, { status: 201 });
+  } catch (error) {
+    console.error("[workspaces][POST] failed", error);
+    return NextResponse.json({ error: "Unable to create workspace." }, { status: 500 });
+  }
+}
@@ -1,6 +1,10 @@
+import { redirect } from "next/navigation";
 import { auth } from "@/auth";
 import { prisma } from "@/lib/prisma";
+import { resolveWorkspaceScope, scopeWhere } from "@/lib/workspaces";
 import WriterWorkspace from "@/components/panels/WriterWorkspace";
+import { channelPreset } from "@/lib/channel-presets";
+import { readDocumentPlaceholders } from "@/lib/placeholders";
 
 export const dynamic = "force-dynamic";
 
@@ -18,14 +22,29 @@ type StoredDocument = {
   gradeLevel: string | null;
   benchmark: string | null;
   avoidWords: string | null;
+  channelPreset: string | null;
+  placeholders: unknown;
   writingStyle: string | null;
 };
 
-export default async function HomePage() {
+type HomePageProps = {
+  searchParams: Promise<{ invitation?: string | string[]; token?: string | string[] }>;
+};
+
+export default async function HomePage({ searchParams }: HomePageProps) {
   const session = await auth();
+  const { invitation, token } = await searchParams;
+  // Opened from a workspace invite link; the dialog accepts it once the user is signed in
+  const pendingInvitation =
+    typeof invitation === "string" && typeof token === "string" ? { id: invitation, token } : null;
   const sanitizeTier = (value: string | null | undefined) =>
     value && ["MASS", "PREMIUM", "LUXURY", "UHNW"].includes(value) ? (value as "MASS" | "PREMIUM" | "LUXURY" | "UHNW") : null;
 
+  if (!session?.user?.id && prisma && pendingInvitation) {
+    const params = new URLSearchParams({ invitation: pendingInvitation.id, token: pendingInvitation.token });
+    redirect(`/sign-in?callbackUrl=${encodeURIComponent(`/?${params.toString()}`)}`);
+  }
+
   if (!session?.user?.id || !prisma) {
     return (
       <WriterWorkspace
@@ -38,8 +57,9 @@ export default async function HomePage() {
   }
 
   const user = session.user;
+  const scope = await resolveWorkspaceScope(prisma, user.id);
   const documents = (await prisma.document.findMany({
-    where: { ownerId: user.id },
+    where: scopeWhere(scope, user.id),
     orderBy: { createdAt: "desc" },
     take: 5
   })) as unknown as StoredDocument[];
@@ -49,6 +69,7 @@ export default async function HomePage() {
       user={{
         name: user.name ?? "Creator"
       }}
+      pendingInvitation={pendingInvitation}
       initialOutputs={documents.map((doc) => ({
         id: doc.id,
         title: doc.title,
@@ -60,11 +81,12 @@ export default async function HomePage() {
           wordLength: doc.wordLength ?? null,
           gradeLevel: doc.gradeLevel ?? null,
           benchmark: doc.benchmark ?? null,
-          avoidWords: doc.avoidWords ?? null
+          avoidWords: doc.avoidWords ?? null,
+          channelPreset: channelPreset(doc.channelPreset)?.id ?? null
         },
         prompt: doc.prompt ?? "",
         writingStyle: doc.writingStyle ?? null,
-        placeholderValues: {}
+        placeholders: readDocumentPlaceholders(doc.placeholders)
       }))}
     />
   );
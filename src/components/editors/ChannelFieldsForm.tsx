@@ -0,0 +1,165 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { cn } from "@/lib/utils";
+import {
+  channelCharacterCount,
+  channelFieldsToMarkdown,
+  parseChannelMarkdown,
+  validateChannelFields,
+  type ChannelFieldValues,
+  type ChannelPreset
+} from "@/lib/channel-presets";
+
+type ChannelFieldsFormProps = {
+  preset: ChannelPreset;
+  /** The document's markdown; each preset field is a "## Label" section. */
+  content: string;
+  onChange: (content: string) => void;
+  onExportCsv?: () => void;
+  readOnly?: boolean;
+};
+
+const inputClassName =
+  "w-full rounded-lg border border-brand-stroke/70 bg-brand-ink px-3 py-2 text-sm text-brand-text placeholder:text-brand-muted placeholder:opacity-40 focus:border-brand-blue focus:outline-none disabled:opacity-60";
+
+/** Edits a channel document field by field, with live character counts and validation. */
+export default function ChannelFieldsForm({ preset, content, onChange, onExportCsv, readOnly = false }: ChannelFieldsFormProps) {
+  const [values, setValues] = useState<ChannelFieldValues>(() => parseChannelMarkdown(preset, content));
+  // Empty items exist only in the form, so content this form wrote is not parsed back over them
+  const [syncedContent, setSyncedContent] = useState(content);
+  if (content !== syncedContent) {
+    setSyncedContent(content);
+    setValues(parseChannelMarkdown(preset, content));
+  }
+
+  const issues = useMemo(() => validateChannelFields(preset, values), [preset, values]);
+
+  const commit = (next: ChannelFieldValues) => {
+    setValues(next);
+    const markdown = channelFieldsToMarkdown(preset, next);
+    if (markdown !== syncedContent) {
+      setSyncedContent(markdown);
+      onChange(markdown);
+    }
+  };
+
+  const updateItem = (key: string, index: number, text: string) => {
+    const items = [...(values[key] ?? [])];
+    items[index] = text;
+    commit({ ...values, [key]: items });
+  };
+
+  const removeItem = (key: string, index: number) => {
+    commit({ ...values, [key]: (values[key] ?? []).filter((_, position) => position !== index) });
+  };
+
+  const addItem = (key: string) => {
+    commit({ ...values, [key]: [...(values[key] ?? []), ""] });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <span className="material-symbols-outlined text-base leading-none text-brand-muted">{preset.icon}</span>
+        <p className="flex-1 text-sm text-brand-muted">
+          {preset.label}
+          {" · "}
+          <span className={issues.length ? "text-amber-400" : undefined}>
+            {issues.length ? `${issues.length} ${issues.length === 1 ? "issue" : "issues"}` : "All fields within limits"}
+          </span>
+        </p>
+        {onExportCsv && (
+          <button
+            type="button"
+            onClick={onExportCsv}
+            className="inline-flex items-center gap-1.5 rounded-full border border-white/20 bg-white/5 px-3 py-1 text-xs font-semibold text-white transition hover:border-brand-blue"
+          >
+            <span className="material-symbols-outlined text-sm leading-none">table_view</span>
+            Export CSV
+          </button>
+        )}
+      </div>
+
+      {preset.fields.map((field) => {
+        const items = values[field.key]?.length ? values[field.key] : field.count > 1 ? [] : [""];
+        const fieldIssues = issues.filter((issue) => issue.field === field.key && issue.index === null);
+        return (
+          <section key={field.key} className="space-y-2">
+            <div className="flex items-baseline gap-2">
+              <h3 className="text-sm font-semibold text-white">{field.label}</h3>
+              <span className="text-xs text-brand-muted">
+                {field.count > 1 ? `${items.filter((item) => item.trim()).length} / ${field.count}` : null}
+                {field.count > 1 && field.maxCharacters !== null ? " · " : null}
+                {field.maxCharacters !== null ? `≤${field.maxCharacters} characters${field.count > 1 ? " each" : ""}` : null}
+              </span>
+            </div>
+
+            {items.map((item, index) => {
+              const length = channelCharacterCount(item.trim());
+              const over = field.maxCharacters !== null && length > field.maxCharacters;
+              const itemIssues = issues.filter((issue) => issue.field === field.key && issue.index === index);
+              return (
+                <div key={index} className="space-y-1">
+                  <div className="flex items-start gap-2">
+                    {field.multiline ? (
+                      <textarea
+                        value={item}
+                        disabled={readOnly}
+                        rows={6}
+                        onChange={(event) => updateItem(field.key, index, event.target.value)}
+                        className={cn(inputClassName, "resize-y", over ? "border-red-400/70" : null)}
+                      />
+                    ) : (
+                      <input
+                        type="text"
+                        value={item}
+                        disabled={readOnly}
+                        placeholder={field.count > 1 ? `${field.itemLabel} ${index + 1}` : field.itemLabel}
+                        onChange={(event) => updateItem(field.key, index, event.target.value)}
+                        className={cn(inputClassName, over ? "border-red-400/70" : null)}
+                      />
+                    )}
+                    {field.count > 1 && !readOnly && (
+                      <button
+                        type="button"
+                        onClick={() => removeItem(field.key, index)}
+                        className="mt-1.5 rounded-full p-1 text-brand-muted transition hover:bg-white/10 hover:text-white"
+                        aria-label={`Remove ${field.itemLabel.toLowerCase()} ${index + 1}`}
+                        title="Remove"
+                      >
+                        <span className="material-symbols-outlined text-base leading-none">close</span>
+                      </button>
+                    )}
+                  </div>
+                  <div className="flex justify-between gap-3 text-xs">
+                    <span className="text-amber-400">{itemIssues.map((issue) => issue.message).join(" ")}</span>
+                    <span className={over ? "text-red-400" : "text-brand-muted"}>
+                      {field.maxCharacters !== null ? `${length} / ${field.maxCharacters}` : `${length} characters`}
+                    </span>
+                  </div>
+                </div>
+              );
+            })}
+
+            {field.count > 1 && !readOnly && items.length < field.count && (
+              <button
+                type="button"
+                onClick={() => addItem(field.key)}
+                className="inline-flex items-center gap-1 text-xs font-semibold text-brand-muted transition hover:text-white"
+              >
+                <span className="material-symbols-outlined text-sm leading-none">add</span>
+                Add {field.itemLabel.toLowerCase()}
+              </button>
+            )}
+            {fieldIssues.map((issue) => (
+              <p key={issue.message} className="text-xs text-amber-400">
+                {issue.message}
+              </p>
+            ))}
+          </section>
+        );
+      })}
+    </div>
+  );
+}
@@ -3,12 +3,23 @@
 import { useState, useRef, useCallback, useEffect, useMemo, Fragment } from "react";
 import { createPortal } from "react-dom";
 import { Dialog, Transition } from "@headlessui/react";
-import MarkdownEditor from "./MarkdownEditor";
+import MarkdownEditor, { type MarkdownEditorCollaboration } from "./MarkdownEditor";
+import VersionHistoryDialog from "@/components/modals/VersionHistoryDialog";
+import ReadabilityPanel from "@/components/panels/ReadabilityPanel";
+import PlaceholderPanel from "@/components/panels/PlaceholderPanel";
+import ChannelFieldsForm from "./ChannelFieldsForm";
+import ShareDocumentDialog from "@/components/modals/ShareDocumentDialog";
+import SimilarDocumentsDialog from "@/components/modals/SimilarDocumentsDialog";
 import { cn, generateDownloadFilename } from "@/lib/utils";
-import MarkdownIt from "markdown-it";
-import { WriterOutput } from "@/types/writer";
+import { EXPORT_FORMATS, exportFormatInfo } from "@/lib/export/formats";
+import type { ExportFormat } from "@/lib/validators";
+import { evaluateLength, measureDraft, wordTargetRange, type LengthConstraints } from "@/lib/length-limits";
+import { analyzeReadability, readabilityTarget, simplifyInstruction } from "@/lib/readability";
+import { findFlaggedSentences } from "./readability-highlight";
+import { channelPreset } from "@/lib/channel-presets";
+import { resolvePlaceholders, syncPlaceholders, unresolvedPlaceholders, type DocumentPlaceholders, type PersonaFacts } from "@/lib/placeholders";
+import { WriterOutput, type SimilarDocumentResult } from "@/types/writer";
 import type { Editor } from "@tiptap/react";
-import jsPDF from "jspdf";
 
 type DocumentEditorProps = {
   document: WriterOutput | null;
@@ -25,7 +36,7 @@ type DocumentEditorProps = {
     name: string;
     description: string;
   } | null;
-  onDownload?: (format: "docx" | "txt" | "pdf" | "md") => void;
+  onDownload?: (format: ExportFormat) => void;
   horizontalPadding?: {
     left?: number;
     right?: number;
@@ -37,60 +48,27 @@ type DocumentEditorProps = {
   onSaveStyle?: () => void;
   onTyping?: () => void;
   onDeleteDocument?: () => void;
+  onRestoreVersion?: (content: string) => void;
+  canShareDocument?: boolean;
+  onOpenSimilarDocument?: (result: SimilarDocumentResult) => void;
+  onOpenGroundingSource?: (documentId: string) => void;
+  onCollaboratorsChange?: (count: number) => void;
+  collaboration?: MarkdownEditorCollaboration | null;
+  // The brief's character/word limits; live counts render below the editor when either is set
+  lengthConstraints?: LengthConstraints | null;
+  // The brief's grade level; the readability panel scores the draft and flags sentences against it
+  gradeLevel?: string | null;
+  // The active persona's facts, offered as values for matching placeholders
+  personaFacts?: PersonaFacts | null;
+  // Saves placeholder values with the document; omitted when it is read-only
+  onPlaceholdersChange?: (placeholders: DocumentPlaceholders) => void;
 };
 
-function derivePlaceholderMeta(content: string): Array<{ id: string; label: string }> {
-  const meta: Array<{ id: string; label: string }> = [];
-  const regex = /\[([^\]]+)]/g;
-  let match: RegExpExecArray | null;
-  let index = 0;
-  while ((match = regex.exec(content)) !== null) {
-    const label = (match[1] ?? "").trim() || "missing info";
-    meta.push({ id: `ph-${index++}`, label });
-  }
-  return meta;
-}
-
-function hasPendingPlaceholders(document: WriterOutput | null): boolean {
-  if (!document) return false;
-  
-  // Derive placeholder metadata if missing
-  let meta = document.placeholderMeta ?? [];
-  if (!meta.length) {
-    meta = derivePlaceholderMeta(document.content);
-  }
-  
-  if (!meta.length) return false;
-  
-  const values = document.placeholderValues ?? {};
-  return meta.some((placeholder) => {
-    const value = values[placeholder.id];
-    return !value || !value.trim();
-  });
-}
+// Each flagged sentence is its own /api/rewrite call, so one simplify run is capped
+const MAX_SIMPLIFY_SENTENCES = 8;
 
 function resolveOutputContent(document: WriterOutput): string {
-  const meta = document.placeholderMeta ?? [];
-  const values = document.placeholderValues ?? {};
-  if (!meta.length) {
-    return document.content;
-  }
-  
-  // Create a map of placeholder labels to their values for more reliable matching
-  const labelToValue = new Map<string, string>();
-  meta.forEach((placeholder) => {
-    const value = values[placeholder.id];
-    if (value && value.trim()) {
-      labelToValue.set(placeholder.label, value.trim());
-    }
-  });
-  
-  // Replace placeholders by matching their label content
-  return document.content.replace(/\[([^\]]+)]/g, (match, label) => {
-    const trimmedLabel = label.trim();
-    const value = labelToValue.get(trimmedLabel);
-    return value || match;
-  });
+  return resolvePlaceholders(document.content, document.placeholders);
 }
 
 function markdownToPlainText(markdown: string): string {
@@ -132,11 +110,24 @@ export default function DocumentEditor({
   documentPinned = false,
   onSaveStyle,
   onTyping,
-  onDeleteDocument
+  onDeleteDocument,
+  onRestoreVersion,
+  canShareDocument = false,
+  onOpenSimilarDocument,
+  onOpenGroundingSource,
+  onCollaboratorsChange,
+  collaboration = null,
+  lengthConstraints = null,
+  gradeLevel = null,
+  personaFacts = null,
+  onPlaceholdersChange
 }: DocumentEditorProps) {
   const [selectedText, setSelectedText] = useState<string | null>(null);
   const [showDownloadMenu, setShowDownloadMenu] = useState(false);
-  const [pendingDownload, setPendingDownload] = useState<"docx" | "txt" | "pdf" | null>(null);
+  const [pendingDownload, setPendingDownload] = useState<ExportFormat | null>(null);
+  // Id of the document whose unfilled placeholders are highlighted after a blocked download
+  const [highlightPlaceholdersFor, setHighlightPlaceholdersFor] = useState<string | null>(null);
+  const placeholderPanelRef = useRef<HTMLDivElement>(null);
   const [downloadMenuPosition, setDownloadMenuPosition] = useState<{ left: number; top: number; height: number; isSticky?: boolean } | null>(null);
   const copyButtonRef = useRef<HTMLButtonElement | null>(null);
   const [isEditingTitle, setIsEditingTitle] = useState(false);
@@ -152,6 +143,14 @@ export default function DocumentEditor({
   const [documentMenuPosition, setDocumentMenuPosition] = useState<{ left: number; top: number; height: number; variant: "default" | "sticky" } | null>(null);
   const documentMenuRef = useRef<HTMLDivElement>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [showVersionHistory, setShowVersionHistory] = useState(false);
+  const [showShareDialog, setShowShareDialog] = useState(false);
+  const [showSimilarDialog, setShowSimilarDialog] = useState(false);
+  const [showHouseRules, setShowHouseRules] = useState(true);
+  const [showReadability, setShowReadability] = useState(false);
+  const [simplifying, setSimplifying] = useState(false);
+  const [simplifyStatus, setSimplifyStatus] = useState<string | null>(null);
+  const [editChannelAsText, setEditChannelAsText] = useState(false);
   const documentMenuOpenRef = useRef(documentMenuOpen);
   const documentMenuVariantRef = useRef<"default" | "sticky" | null>(null);
 
@@ -163,6 +162,20 @@ export default function DocumentEditor({
   const hasContent = useMemo(() => {
     return !!(document?.content?.trim());
   }, [document?.content]);
+  const characterLimit = lengthConstraints?.characterLength ?? null;
+  const wordTarget = lengthConstraints?.wordLength ?? null;
+  const lengthStatus = useMemo(() => {
+    if (characterLimit === null && wordTarget === null) return null;
+    return evaluateLength(measureDraft(document?.content ?? ""), { characterLength: characterLimit, wordLength: wordTarget });
+  }, [document?.content, characterLimit, wordTarget]);
+  const gradeTarget = useMemo(() => readabilityTarget(gradeLevel), [gradeLevel]);
+  const readabilityReport = useMemo(() => {
+    if (!showReadability) return null;
+    return analyzeReadability(markdownToPlainText(document?.content ?? ""), gradeTarget);
+  }, [showReadability, document?.content, gradeTarget]);
+  const channel = useMemo(() => channelPreset(document?.settings?.channelPreset), [document?.settings?.channelPreset]);
+  // Collaborative sessions edit the shared text directly; the form would overwrite peers' edits
+  const showChannelForm = Boolean(channel) && !collaboration && !editChannelAsText;
 
   const sharedHorizontalPaddingStyle = {
     paddingLeft: resolvedHorizontalPadding.left,
@@ -221,6 +234,74 @@ export default function DocumentEditor({
     }
   }, [onRewriteSelection]);
 
+  // Rewrites every flagged sentence through /api/rewrite, then swaps in the results that still match the draft
+  const handleSimplify = useCallback(async () => {
+    const editor = editorRef.current;
+    if (!editor || !gradeTarget || simplifying) return;
+    const flagged = findFlaggedSentences(editor.state.doc, gradeTarget).slice(0, MAX_SIMPLIFY_SENTENCES);
+    if (!flagged.length) return;
+    setSimplifying(true);
+    setSimplifyStatus(null);
+
+    try {
+      const rewrites = await Promise.all(
+        flagged.map(async (sentence) => {
+          try {
+            const response = await fetch("/api/rewrite", {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({
+                selectedText: sentence.text,
+                instruction: simplifyInstruction(sentence, gradeTarget),
+                context: editor.state.doc.resolve(sentence.from).parent.textContent,
+                personaSummary: personaSummary ?? undefined,
+                personaId: activePersonaId ?? undefined,
+                styleGuide: styleGuide ?? undefined,
+                // Readability passes are not prompts the user wrote
+                history: false
+              })
+            });
+            if (!response.ok) return null;
+            const data = await response.json();
+            const text = markdownToPlainText(typeof data.rewrittenText === "string" ? data.rewrittenText : "")
+              .replace(/\s+/g, " ")
+              .trim();
+            return text ? { original: sentence.text, text } : null;
+          } catch (error) {
+            console.error("[readability] simplify failed", error);
+            return null;
+          }
+        })
+      );
+
+      if (editor.isDestroyed) return;
+      // The draft may have changed while the rewrites ran, so locate each sentence again by its text
+      const current = findFlaggedSentences(editor.state.doc, gradeTarget);
+      const claimed = new Set<number>();
+      const replacements = rewrites.flatMap((rewrite) => {
+        if (!rewrite) return [];
+        const index = current.findIndex((sentence, position) => !claimed.has(position) && sentence.text === rewrite.original);
+        if (index === -1) return [];
+        claimed.add(index);
+        return [{ from: current[index].from, to: current[index].to, text: rewrite.text }];
+      });
+      if (replacements.length) {
+        const tr = editor.state.tr;
+        replacements
+          .sort((a, b) => b.from - a.from)
+          .forEach((replacement) => tr.insertText(replacement.text, replacement.from, replacement.to));
+        editor.view.dispatch(tr);
+      }
+      setSimplifyStatus(
+        replacements.length
+          ? `Simplified ${replacements.length} of ${flagged.length} ${flagged.length === 1 ? "sentence" : "sentences"}.`
+          : "Couldn't simplify the flagged sentences."
+      );
+    } finally {
+      setSimplifying(false);
+    }
+  }, [gradeTarget, simplifying, personaSummary, activePersonaId, styleGuide]);
+
   // Close download menu when clicking outside
   useEffect(() => {
     function handleClickOutside(event: MouseEvent) {
@@ -235,348 +316,16 @@ export default function DocumentEditor({
   }, [showDownloadMenu]);
 
 
-  const performDownloadWithContent = useCallback(async (format: "docx" | "txt" | "pdf" | "md", content: string, title: string) => {
+  const performDownloadWithContent = useCallback(async (format: ExportFormat, content: string, title: string) => {
     if (!content || !content.trim()) {
       console.error("Cannot download: content is empty");
       return;
     }
     
     const isUntitled = !title || title.trim() === "" || title.toLowerCase() === "untitled doc" || title.toLowerCase() === "untitled document";
-    const filename = generateDownloadFilename(title, content, format);
-
-    if (format === "pdf") {
-      // Generate PDF client-side with markdown parsing
-      const pdf = new jsPDF();
-      const pageWidth = pdf.internal.pageSize.getWidth();
-      const margin = 20;
-      const maxWidth = pageWidth - 2 * margin;
-      
-      // Parse markdown
-      // Preprocess strikethrough: convert ~~text~~ to <s>text</s> for markdown-it parsing
-      const preprocessedContent = content.replace(/~~([^~]+)~~/g, '<s>$1</s>');
-      
-      const md = new MarkdownIt({ html: true }); // Enable HTML parsing for <s> tags
-      const tokens = md.parse(preprocessedContent, {});
-      
-      // Helper to extract plain text from tokens
-      const getTextFromTokens = (tokens: any[]): string => {
-        let text = "";
-        for (const token of tokens) {
-          if (token.type === "text") {
-            text += token.content;
-          } else if (token.children) {
-            text += getTextFromTokens(token.children);
-          }
-        }
-        return text;
-      };
-      
-      // Add title only if not untitled (strip markdown from title)
-      let yPosition = margin;
-      if (!isUntitled) {
-        const plainTitle = markdownToPlainText(title);
-        pdf.setFontSize(18);
-        pdf.setFont("helvetica", "bold");
-        const titleLines = pdf.splitTextToSize(plainTitle, maxWidth);
-        pdf.text(titleLines, margin, margin + 10);
-        yPosition = margin + 20;
-      }
-      
-      // Process markdown tokens and render with formatting
-      pdf.setFontSize(12);
-      pdf.setFont("helvetica", "normal");
-      
-      for (let i = 0; i < tokens.length; i++) {
-        const token = tokens[i];
-        
-        if (yPosition > pdf.internal.pageSize.getHeight() - margin - 10) {
-          pdf.addPage();
-          yPosition = margin;
-        }
-        
-        if (token.type === "heading_open") {
-          const level = parseInt(token.tag.substring(1));
-          i++; // Skip to content
-          const headingText = getTextFromTokens(tokens[i].children || []);
-          i++; // Skip content
-          i++; // Skip closing tag
-          
-          // Set heading font size based on level
-          const headingSizes = [20, 18, 16, 14, 12, 12];
-          pdf.setFontSize(headingSizes[Math.min(level - 1, 5)]);
-          pdf.setFont("helvetica", "bold");
-          
-          const headingLines = pdf.splitTextToSize(headingText, maxWidth);
-          headingLines.forEach((line: string) => {
-            if (yPosition > pdf.internal.pageSize.getHeight() - margin - 10) {
-              pdf.addPage();
-              yPosition = margin;
-            }
-            pdf.text(line, margin, yPosition);
-            yPosition += 8;
-          });
-          yPosition += 5; // Extra spacing after heading
-          pdf.setFontSize(12);
-          pdf.setFont("helvetica", "normal");
-        } else if (token.type === "paragraph_open") {
-          i++; // Skip to content
-          const paraTokens = tokens[i].children || [];
-          
-          // Process paragraph with inline formatting - render segments as we go
-          let currentText = "";
-          let isBold = false;
-          let isItalic = false;
-          let isStrike = false;
-          let currentX = margin;
-          let currentY = yPosition;
-          
-          // Helper to render accumulated text with current formatting
-          const renderTextSegment = (text: string, bold: boolean, italic: boolean, strike: boolean) => {
-            if (!text.trim()) return;
-            
-            pdf.setFont("helvetica", bold ? "bold" : italic ? "italic" : "normal");
-            const textWidth = pdf.getTextWidth(text);
-            const lines = pdf.splitTextToSize(text, maxWidth - (currentX - margin));
-            
-            lines.forEach((line: string, lineIndex: number) => {
-              if (currentY > pdf.internal.pageSize.getHeight() - margin - 10) {
-                pdf.addPage();
-                currentY = margin;
-                currentX = margin;
-              }
-              
-              const lineWidth = pdf.getTextWidth(line);
-              pdf.text(line, currentX, currentY);
-              
-              // Draw strikethrough line if needed
-              if (strike) {
-                const lineHeight = 7;
-                const strikeY = currentY - (lineHeight * 0.3); // Position line through middle of text
-                pdf.setDrawColor(0, 0, 0);
-                pdf.setLineWidth(0.5);
-                pdf.line(currentX, strikeY, currentX + lineWidth, strikeY);
-              }
-              
-              if (lineIndex < lines.length - 1) {
-                currentY += 7;
-                currentX = margin;
-              } else {
-                currentX += lineWidth;
-              }
-            });
-          };
-          
-          for (const paraToken of paraTokens) {
-            if (paraToken.type === "text") {
-              currentText += paraToken.content;
-            } else if (paraToken.type === "strong_open") {
-              if (currentText) {
-                renderTextSegment(currentText, isBold, isItalic, isStrike);
-                currentText = "";
-              }
-              isBold = true;
-            } else if (paraToken.type === "strong_close") {
-              if (currentText) {
-                renderTextSegment(currentText, isBold, isItalic, isStrike);
-                currentText = "";
-              }
-              isBold = false;
-            } else if (paraToken.type === "em_open") {
-              if (currentText) {
-                renderTextSegment(currentText, isBold, isItalic, isStrike);
-                currentText = "";
-              }
-              isItalic = true;
-            } else if (paraToken.type === "em_close") {
-              if (currentText) {
-                renderTextSegment(currentText, isBold, isItalic, isStrike);
-                currentText = "";
-              }
-              isItalic = false;
-            } else if (paraToken.type === "s_open" || paraToken.type === "del_open") {
-              if (currentText) {
-                renderTextSegment(currentText, isBold, isItalic, isStrike);
-                currentText = "";
-              }
-              isStrike = true;
-            } else if (paraToken.type === "s_close" || paraToken.type === "del_close") {
-              if (currentText) {
-                renderTextSegment(currentText, isBold, isItalic, isStrike);
-                currentText = "";
-              }
-              isStrike = false;
-            } else if (paraToken.type === "html_inline") {
-              // Handle HTML tags like <s>text</s> or <del>text</del>
-              const htmlContent = paraToken.content || "";
-              if (htmlContent.match(/^<s[>\s]|^<del[>\s]/i)) {
-                // Opening strikethrough tag
-                if (currentText) {
-                  renderTextSegment(currentText, isBold, isItalic, isStrike);
-                  currentText = "";
-                }
-                isStrike = true;
-              } else if (htmlContent.match(/^<\/s>|^<\/del>/i)) {
-                // Closing strikethrough tag
-                if (currentText) {
-                  renderTextSegment(currentText, isBold, isItalic, isStrike);
-                  currentText = "";
-                }
-                isStrike = false;
-              } else {
-                // Extract text from HTML tag
-                const textMatch = htmlContent.match(/>([^<]+)</);
-                if (textMatch) {
-                  currentText += textMatch[1];
-                }
-              }
-            } else if (paraToken.children) {
-              currentText += getTextFromTokens(paraToken.children);
-            }
-          }
-          
-          // Render any remaining text
-          if (currentText.trim()) {
-            renderTextSegment(currentText, isBold, isItalic, isStrike);
-          }
-          
-          // Update yPosition and reset formatting
-          yPosition = currentY + 7;
-          pdf.setFont("helvetica", "normal");
-          
-          i++; // Skip content token
-          i++; // Skip closing tag
-        } else if (token.type === "bullet_list_open" || token.type === "ordered_list_open") {
-          const isOrdered = token.type === "ordered_list_open";
-          let listIndex = 1;
-          i++; // Process list items
-          
-          while (i < tokens.length && tokens[i].type !== (isOrdered ? "ordered_list_close" : "bullet_list_close")) {
-            if (tokens[i].type === "list_item_open") {
-              i++; // Skip list_item_open
-              
-              // List items may contain paragraph_open, so we need to extract text from all children
-              let itemText = "";
-              while (i < tokens.length && tokens[i].type !== "list_item_close") {
-                if (tokens[i].type === "paragraph_open") {
-                  i++; // Skip paragraph_open
-                  // Extract text from paragraph content
-                  if (tokens[i] && tokens[i].children) {
-                    itemText += getTextFromTokens(tokens[i].children);
-                  }
-                  i++; // Skip paragraph content token
-                  i++; // Skip paragraph_close
-                } else if (tokens[i].type === "text") {
-                  itemText += tokens[i].content || "";
-                  i++;
-                } else if (tokens[i].children) {
-                  itemText += getTextFromTokens(tokens[i].children);
-                  i++;
-                } else {
-                  i++;
-                }
-              }
-              i++; // Skip list_item_close
-              
-              const prefix = isOrdered ? `${listIndex}. ` : "• ";
-              const prefixWidth = pdf.getTextWidth(prefix);
-              const indentWidth = prefixWidth + 5; // Add small gap after bullet
-              
-              // Split only the item text (without prefix) to get proper wrapping
-              const itemLines = pdf.splitTextToSize(itemText, maxWidth - indentWidth);
-              
-              itemLines.forEach((line: string, lineIndex: number) => {
-                if (yPosition > pdf.internal.pageSize.getHeight() - margin - 10) {
-                  pdf.addPage();
-                  yPosition = margin;
-                }
-                
-                // First line includes the bullet prefix, subsequent lines are indented
-                if (lineIndex === 0) {
-                  pdf.text(prefix + line, margin + 10, yPosition);
-                } else {
-                  pdf.text(line, margin + 10 + indentWidth, yPosition);
-                }
-                yPosition += 7;
-              });
-              
-              if (isOrdered) listIndex++;
-            } else {
-              i++;
-            }
-          }
-          i++; // Skip closing tag
-        } else if (token.type === "blockquote_open") {
-          i++; // Skip to content
-          const quoteText = getTextFromTokens(tokens[i].children || []);
-          i++; // Skip content
-          i++; // Skip closing tag
-          
-          pdf.setFont("helvetica", "italic");
-          const quoteLines = pdf.splitTextToSize(quoteText, maxWidth - 20);
-          quoteLines.forEach((line: string) => {
-            if (yPosition > pdf.internal.pageSize.getHeight() - margin - 10) {
-              pdf.addPage();
-              yPosition = margin;
-            }
-            pdf.text(line, margin + 10, yPosition);
-            yPosition += 7;
-          });
-          pdf.setFont("helvetica", "normal");
-        } else if (token.type === "code_block" || token.type === "fence") {
-          const codeText = token.content || "";
-          pdf.setFont("courier", "normal");
-          const codeLines = pdf.splitTextToSize(codeText, maxWidth);
-          codeLines.forEach((line: string) => {
-            if (yPosition > pdf.internal.pageSize.getHeight() - margin - 10) {
-              pdf.addPage();
-              yPosition = margin;
-            }
-            pdf.text(line, margin, yPosition);
-            yPosition += 7;
-          });
-          pdf.setFont("helvetica", "normal");
-          i++;
-        } else {
-          i++;
-        }
-      }
-      
-      pdf.save(filename);
-      return;
-    }
+    const filename = generateDownloadFilename(title, content, exportFormatInfo(format).extension);
 
-    if (format === "txt") {
-      // Strip markdown formatting for plain text
-      const plainContent = markdownToPlainText(content);
-      const textContent = isUntitled ? plainContent : `${markdownToPlainText(title)}\n\n${plainContent}`;
-      const blob = new Blob([textContent], { type: "text/plain" });
-      const url = window.URL.createObjectURL(blob);
-      const link = window.document.createElement("a");
-      link.href = url;
-      link.download = filename;
-      window.document.body.appendChild(link);
-      link.click();
-      window.document.body.removeChild(link);
-      window.URL.revokeObjectURL(url);
-      return;
-    }
-
-    if (format === "md") {
-      // Markdown format - download as .md file
-      const markdownContent = isUntitled ? content : `# ${title}\n\n${content}`;
-      const blob = new Blob([markdownContent], { type: "text/markdown" });
-      const url = window.URL.createObjectURL(blob);
-      const link = window.document.createElement("a");
-      link.href = url;
-      link.download = filename;
-      window.document.body.appendChild(link);
-      link.click();
-      window.document.body.removeChild(link);
-      window.URL.revokeObjectURL(url);
-      return;
-    }
-
-    // DOCX format - use API
+    // Every format is rendered by the export writers on the server
     try {
       const response = await fetch("/api/export", {
         method: "POST",
@@ -584,7 +333,7 @@ export default function DocumentEditor({
         body: JSON.stringify({
           title: isUntitled ? "Untitled Document" : title,
           content: content,
-          format: "docx"
+          format
         })
       });
 
@@ -607,7 +356,7 @@ export default function DocumentEditor({
     }
   }, []);
 
-  const performDownload = useCallback(async (format: "docx" | "txt" | "pdf" | "md") => {
+  const performDownload = useCallback(async (format: ExportFormat) => {
     if (!document) {
       console.error("Cannot download: no document available");
       return;
@@ -622,7 +371,7 @@ export default function DocumentEditor({
     await performDownloadWithContent(format, resolvedContent, document.title || "Untitled Document");
   }, [document, performDownloadWithContent]);
 
-  const handleDownloadClick = useCallback(async (format: "docx" | "txt" | "pdf" | "md") => {
+  const handleDownloadClick = useCallback(async (format: ExportFormat) => {
     // If no document but editor has content, get content from editor
     let contentToDownload = "";
     let titleToUse = "Untitled Document";
@@ -647,9 +396,7 @@ export default function DocumentEditor({
         return;
       }
     } else {
-      const hasPlaceholders = hasPendingPlaceholders(document);
-      
-      if (hasPlaceholders) {
+      if (unresolvedPlaceholders(document.content, document.placeholders).length) {
         setPendingDownload(format);
         window.dispatchEvent(new CustomEvent("close-download-menu"));
         return;
@@ -681,6 +428,12 @@ export default function DocumentEditor({
     setPendingDownload(null);
   }
 
+  function handleFillPlaceholders() {
+    setPendingDownload(null);
+    setHighlightPlaceholdersFor(document?.id ?? null);
+    placeholderPanelRef.current?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }
+
   // Create empty document if none exists
   const displayDocument = document || {
     id: "new",
@@ -690,9 +443,16 @@ export default function DocumentEditor({
     settings: {},
     prompt: "",
     writingStyle: null,
-    placeholderValues: {},
+    placeholders: {},
     isPending: false
   };
+  const placeholderEntries = useMemo(
+    () => syncPlaceholders(displayDocument.content, displayDocument.placeholders),
+    [displayDocument.content, displayDocument.placeholders]
+  );
+  const pendingPlaceholderLabels = pendingDownload
+    ? Object.values(placeholderEntries).filter((entry) => !entry.value.trim()).map((entry) => entry.label)
+    : [];
 
   const handleTitleClick = useCallback(() => {
     setIsEditingTitle(true);
@@ -923,18 +683,13 @@ export default function DocumentEditor({
               transform: "translateX(-50%)"
             }}
           >
-            {[
-              { format: "docx", label: ".docx", detail: "MS Word" },
-              { format: "txt", label: ".txt", detail: "Plaintext" },
-              { format: "pdf", label: ".pdf", detail: "PDF" },
-              { format: "md", label: ".md", detail: "Markdown" }
-            ].map((entry) => (
+            {EXPORT_FORMATS.map((entry) => (
               <button
                 key={entry.format}
                 type="button"
                 onClick={() => {
                   setShowDownloadMenu(false);
-                  void handleDownloadClick(entry.format as "docx" | "txt" | "pdf" | "md");
+                  void handleDownloadClick(entry.format);
                 }}
                 className="flex w-full items-center justify-between rounded-xl px-4 py-2 text-sm text-white transition hover:bg-brand-blue/15"
               >
@@ -988,6 +743,62 @@ export default function DocumentEditor({
                 <p className="font-semibold">Add to Folder</p>
               </button>
             )}
+            {canShareDocument && document?.id && (
+              <button
+                type="button"
+                onClick={() => handleDocumentMenuAction(() => setShowShareDialog(true))}
+                className="mt-1 flex w-full items-center gap-3 rounded-xl px-3 py-2 text-left text-sm text-white transition hover:bg-white/10"
+              >
+                <span className="material-symbols-outlined text-base leading-none">group_add</span>
+                <p className="font-semibold">Share</p>
+              </button>
+            )}
+            {onRestoreVersion && document?.id && (
+              <button
+                type="button"
+                onClick={() => handleDocumentMenuAction(() => setShowVersionHistory(true))}
+                className="mt-1 flex w-full items-center gap-3 rounded-xl px-3 py-2 text-left text-sm text-white transition hover:bg-white/10"
+              >
+                <span className="material-symbols-outlined text-base leading-none">history</span>
+                <p className="font-semibold">Version History</p>
+              </button>
+            )}
+            {onOpenSimilarDocument && document?.id && (
+              <button
+                type="button"
+                onClick={() => handleDocumentMenuAction(() => setShowSimilarDialog(true))}
+                className="mt-1 flex w-full items-center gap-3 rounded-xl px-3 py-2 text-left text-sm text-white transition hover:bg-white/10"
+              >
+                <span className="material-symbols-outlined text-base leading-none">join_inner</span>
+                <p className="font-semibold">{selectedText?.trim() ? "Find Similar to Selection" : "Find Similar"}</p>
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => handleDocumentMenuAction(() => setShowHouseRules((prev) => !prev))}
+              className="mt-1 flex w-full items-center gap-3 rounded-xl px-3 py-2 text-left text-sm text-white transition hover:bg-white/10"
+            >
+              <span className="material-symbols-outlined text-base leading-none">spellcheck</span>
+              <p className="font-semibold">{showHouseRules ? "Hide Rule Highlights" : "Show Rule Highlights"}</p>
+            </button>
+            <button
+              type="button"
+              onClick={() => handleDocumentMenuAction(() => setShowReadability((prev) => !prev))}
+              className="mt-1 flex w-full items-center gap-3 rounded-xl px-3 py-2 text-left text-sm text-white transition hover:bg-white/10"
+            >
+              <span className="material-symbols-outlined text-base leading-none">menu_book</span>
+              <p className="font-semibold">{showReadability ? "Hide Readability" : "Readability"}</p>
+            </button>
+            {channel && !collaboration && (
+              <button
+                type="button"
+                onClick={() => handleDocumentMenuAction(() => setEditChannelAsText((prev) => !prev))}
+                className="mt-1 flex w-full items-center gap-3 rounded-xl px-3 py-2 text-left text-sm text-white transition hover:bg-white/10"
+              >
+                <span className="material-symbols-outlined text-base leading-none">{editChannelAsText ? "view_agenda" : "notes"}</span>
+                <p className="font-semibold">{editChannelAsText ? "Edit as Form" : "Edit as Text"}</p>
+              </button>
+            )}
             {onDeleteDocument && (
               <button
                 type="button"
@@ -1081,6 +892,32 @@ export default function DocumentEditor({
   return (
     <Fragment>
       {deleteConfirmationDialog}
+      {onRestoreVersion && (
+        <VersionHistoryDialog
+          open={showVersionHistory}
+          onClose={() => setShowVersionHistory(false)}
+          documentId={document?.id ?? null}
+          currentContent={document?.content ?? ""}
+          onRestored={onRestoreVersion}
+        />
+      )}
+      {canShareDocument && (
+        <ShareDocumentDialog
+          open={showShareDialog}
+          onClose={() => setShowShareDialog(false)}
+          documentId={document?.id ?? null}
+          onCollaboratorsChange={onCollaboratorsChange}
+        />
+      )}
+      {onOpenSimilarDocument && (
+        <SimilarDocumentsDialog
+          open={showSimilarDialog}
+          onClose={() => setShowSimilarDialog(false)}
+          documentId={document?.id ?? null}
+          selectionText={selectedText}
+          onOpenDocument={onOpenSimilarDocument}
+        />
+      )}
       <div className={cn("relative flex h-full flex-col", className)}>
       {/* Sticky Title Bar - appears when title scrolls out of view */}
       <div
@@ -1138,8 +975,17 @@ export default function DocumentEditor({
           <p className="flex-1 text-sm text-brand-muted">
             There are still{" "}
             <span className="underline decoration-2 decoration-brand-blue underline-offset-2">placeholders</span>{" "}
-            in your text.
+            in your text: {pendingPlaceholderLabels.map((label) => `[${label}]`).join(", ")}.
           </p>
+          {onPlaceholdersChange ? (
+            <button
+              type="button"
+              className="rounded-full border border-brand-stroke/60 px-3 py-1 text-xs font-semibold text-brand-text hover:border-brand-blue hover:text-brand-blue"
+              onClick={handleFillPlaceholders}
+            >
+              Fill in
+            </button>
+          ) : null}
           <button
             type="button"
             className="rounded-full bg-brand-blue px-3 py-1 text-xs font-semibold text-white transition hover:bg-brand-blue/80"
@@ -1251,22 +1097,101 @@ export default function DocumentEditor({
                 </div>
               </div>
             ) : (
-              <MarkdownEditor
-                key={displayDocument.instanceKey || displayDocument.id}
-                content={displayDocument.content}
-                onChange={onDocumentChange}
-                onSelectionChange={handleSelectionChange}
-                onReady={handleEditorReady}
-                editable={true}
-                placeholder="Start writing or select text to rewrite..."
-                className="min-h-[500px]"
-                hasPersona={!!personaSummary}
-                activePersonaId={activePersonaId}
-                horizontalPadding={horizontalPadding}
-                onSaveStyle={onSaveStyle}
-                onTyping={onTyping}
-              />
+              <>
+                {channel && showChannelForm ? (
+                  <ChannelFieldsForm
+                    key={displayDocument.id}
+                    preset={channel}
+                    content={displayDocument.content}
+                    onChange={onDocumentChange}
+                    onExportCsv={() => void handleDownloadClick("csv")}
+                  />
+                ) : null}
+                {/* Stays mounted under the form so inserts, rewrites and streaming keep their editor */}
+                <div className={showChannelForm ? "hidden" : undefined}>
+                  <MarkdownEditor
+                    key={`${displayDocument.instanceKey || displayDocument.id}${collaboration ? "-collab" : ""}`}
+                    content={displayDocument.content}
+                    onChange={onDocumentChange}
+                    onSelectionChange={handleSelectionChange}
+                    onReady={handleEditorReady}
+                    editable={true}
+                    placeholder="Start writing or select text to rewrite..."
+                    className="min-h-[500px]"
+                    hasPersona={!!personaSummary}
+                    activePersonaId={activePersonaId}
+                    horizontalPadding={horizontalPadding}
+                    onSaveStyle={onSaveStyle}
+                    onTyping={onTyping}
+                    collaboration={collaboration}
+                    houseRules={showHouseRules ? { avoidWords: document?.settings?.avoidWords ?? null } : null}
+                    readabilityTarget={showReadability ? gradeTarget : null}
+                  />
+                </div>
+              </>
             )}
+            {!loading && lengthStatus ? (
+              <div className="mt-6 flex flex-wrap justify-end gap-3 text-xs" aria-live="polite">
+                {lengthStatus.characterLimit !== null && (
+                  <span className={lengthStatus.characters > lengthStatus.characterLimit ? "text-red-400" : "text-brand-muted"}>
+                    {lengthStatus.characters.toLocaleString()} / {lengthStatus.characterLimit.toLocaleString()} characters
+                  </span>
+                )}
+                {lengthStatus.wordTarget !== null && (
+                  <span
+                    className={(() => {
+                      const range = wordTargetRange(lengthStatus.wordTarget);
+                      return lengthStatus.words > range.max ? "text-red-400" : lengthStatus.words < range.min ? "text-amber-400" : "text-brand-muted";
+                    })()}
+                  >
+                    {lengthStatus.words.toLocaleString()} / ~{lengthStatus.wordTarget.toLocaleString()} words
+                  </span>
+                )}
+              </div>
+            ) : null}
+            {!loading && readabilityReport ? (
+              <ReadabilityPanel
+                report={readabilityReport}
+                simplifying={simplifying}
+                status={simplifyStatus}
+                onSimplify={() => void handleSimplify()}
+                onClose={() => {
+                  setShowReadability(false);
+                  setSimplifyStatus(null);
+                }}
+              />
+            ) : null}
+            {!loading && Object.keys(placeholderEntries).length ? (
+              <div ref={placeholderPanelRef}>
+                <PlaceholderPanel
+                  placeholders={placeholderEntries}
+                  facts={personaFacts}
+                  onChange={onPlaceholdersChange}
+                  highlightUnresolved={highlightPlaceholdersFor === displayDocument.id}
+                />
+              </div>
+            ) : null}
+            {!loading && document?.groundingSources?.length ? (
+              <div className="mt-10 border-t border-brand-stroke/40 pt-4">
+                <p className="mb-2 text-[10px] font-bold uppercase tracking-wider text-white/40">Grounded in</p>
+                <div className="flex flex-wrap gap-2">
+                  {document.groundingSources.map((source) => (
+                    <button
+                      key={`${source.kind}:${source.id}`}
+                      type="button"
+                      disabled={!onOpenGroundingSource || source.kind !== "document"}
+                      onClick={() => onOpenGroundingSource?.(source.id)}
+                      className="inline-flex items-center gap-1.5 rounded-full border border-white/20 bg-white/5 px-3 py-1 text-xs text-brand-text transition hover:border-brand-blue hover:text-white disabled:cursor-default disabled:hover:border-white/20"
+                    >
+                      <span className="material-symbols-outlined text-sm leading-none">
+                        {source.kind === "source" ? "library_books" : "description"}
+                      </span>
+                      <span className="max-w-[220px] truncate">{source.title}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ) : null}
           </div>
         </div>
       </div>
@@ -3,10 +3,17 @@
 import { useEditor, EditorContent } from "@tiptap/react";
 import StarterKit from "@tiptap/starter-kit";
 import Placeholder from "@tiptap/extension-placeholder";
+import Collaboration from "@tiptap/extension-collaboration";
+import CollaborationCaret from "@tiptap/extension-collaboration-caret";
+import * as Y from "yjs";
+import { WebsocketProvider } from "y-websocket";
 import { useEffect, useCallback, useState, useRef, useMemo } from "react";
 import { createPortal } from "react-dom";
 import { cn } from "@/lib/utils";
 import MarkdownIt from "markdown-it";
+import { HouseRulesHighlight, setHouseRules } from "./house-rules-highlight";
+import { ReadabilityHighlight, setReadabilityTarget } from "./readability-highlight";
+import type { ReadabilityTarget } from "@/lib/readability";
 import { 
   BoldIcon, 
   ItalicIcon, 
@@ -53,6 +60,17 @@ function stripLinksFromHtml(html: string): { sanitized: string; removed: boolean
   return { sanitized: tempDiv.innerHTML, removed: true };
 }
 
+export type MarkdownEditorCollaboration = {
+  documentId: string;
+  url: string;
+  token: string;
+  readOnly: boolean;
+  user: {
+    name: string;
+    color: string;
+  };
+};
+
 type MarkdownEditorProps = {
   content: string;
   onChange: (content: string) => void;
@@ -69,6 +87,12 @@ type MarkdownEditorProps = {
   };
   onSaveStyle?: () => void;
   onTyping?: () => void;
+  // When set, the document is edited through the Yjs collaboration server instead of `content`
+  collaboration?: MarkdownEditorCollaboration | null;
+  // Underlines house-rule violations (dashes, banned phrasing, avoid words); null turns it off
+  houseRules?: { avoidWords: string | null } | null;
+  // Shades sentences that read above this grade level; null turns it off
+  readabilityTarget?: ReadabilityTarget | null;
 };
 
 export default function MarkdownEditor({
@@ -83,7 +107,10 @@ export default function MarkdownEditor({
   activePersonaId,
   horizontalPadding,
   onSaveStyle,
-  onTyping
+  onTyping,
+  collaboration = null,
+  houseRules = null,
+  readabilityTarget = null
 }: MarkdownEditorProps) {
   const [persistentSelection, setPersistentSelection] = useState<{ from: number; to: number } | null>(null);
   const [showFormattingToolbar, setShowFormattingToolbar] = useState(false);
@@ -213,6 +240,21 @@ export default function MarkdownEditor({
     lastSelectionRef.current = range;
   }, []);
 
+  // The Yjs document and provider live for the lifetime of this editor instance;
+  // DocumentEditor remounts the editor when collaboration is switched on or off.
+  const [collabSession] = useState(() => {
+    if (!collaboration || typeof window === "undefined") return null;
+    const ydoc = new Y.Doc();
+    const provider = new WebsocketProvider(collaboration.url, collaboration.documentId, ydoc, {
+      connect: false,
+      params: { token: collaboration.token }
+    });
+    return { ydoc, provider };
+  });
+  const collabSyncedRef = useRef(false);
+  const latestContentRef = useRef(content);
+  latestContentRef.current = content;
+
   const editor = useEditor({
     extensions: [
       StarterKit.configure({
@@ -227,14 +269,28 @@ export default function MarkdownEditor({
         orderedList: {
           keepMarks: true,
           keepAttributes: false
-        }
+        },
+        // Yjs keeps its own per-user undo stack
+        ...(collabSession ? { undoRedo: false as const } : {})
       }),
       Placeholder.configure({
         placeholder
-      })
+      }),
+      HouseRulesHighlight,
+      ReadabilityHighlight,
+      ...(collabSession && collaboration
+        ? [
+            Collaboration.configure({ document: collabSession.ydoc }),
+            CollaborationCaret.configure({
+              provider: collabSession.provider,
+              user: collaboration.user
+            })
+          ]
+        : [])
     ],
-    content: initialHtml,
-    editable,
+    // Collaborative content comes from the server's Yjs state, never from the prop
+    content: collabSession ? undefined : initialHtml,
+    editable: editable && !(collaboration?.readOnly ?? false),
     immediatelyRender: false, // Prevent SSR hydration issues
     onUpdate: ({ editor }) => {
       // Mark this as an internal update to prevent cursor reset
@@ -384,12 +440,42 @@ export default function MarkdownEditor({
     };
   }, [editor, showFormattingToolbar]);
 
+  useEffect(() => {
+    if (!collabSession) return;
+    const { provider } = collabSession;
+    const handleSync = (synced: boolean) => {
+      if (!synced) return;
+      collabSyncedRef.current = true;
+      // Treat whatever the parent currently holds as already applied so the first
+      // content sync after joining does not overwrite the shared document
+      if (editor) {
+        (editor as any).__lastMarkdownContent = latestContentRef.current;
+      }
+    };
+    provider.on("sync", handleSync);
+    provider.connect();
+    return () => {
+      provider.off("sync", handleSync);
+      provider.disconnect();
+    };
+  }, [collabSession, editor]);
+
   // Notify parent when editor is ready
   useEffect(() => {
     if (editor && onReady) {
       onReady(editor);
     }
   }, [editor, onReady]);
+  const houseRulesEnabled = Boolean(houseRules);
+  const houseRulesAvoidWords = houseRules?.avoidWords ?? null;
+  useEffect(() => {
+    if (!editor || editor.isDestroyed) return;
+    setHouseRules(editor, { enabled: houseRulesEnabled, avoidWords: houseRulesAvoidWords });
+  }, [editor, houseRulesEnabled, houseRulesAvoidWords]);
+  useEffect(() => {
+    if (!editor || editor.isDestroyed) return;
+    setReadabilityTarget(editor, readabilityTarget);
+  }, [editor, readabilityTarget]);
   useEffect(() => {
     if (!editor) return;
     const { from, to } = editor.state.selection;
@@ -1681,6 +1767,12 @@ export default function MarkdownEditor({
   // Sync content from parent - convert markdown to HTML for TipTap
   useEffect(() => {
     if (!editor) return;
+
+    // Before the first Yjs sync the editor is empty; pushing the parent's copy now
+    // would duplicate the document once the server state arrives
+    if (collabSession && !collabSyncedRef.current) {
+      return;
+    }
     
     // Skip if this update came from the editor itself (user typing)
     // Also skip if user was typing recently (within last 200ms) to prevent race conditions
@@ -1836,7 +1928,7 @@ export default function MarkdownEditor({
         }
       }
     }
-  }, [content, editor, md]);
+  }, [content, editor, md, collabSession]);
 
   // Convert markdown to HTML for display (TipTap works with HTML internally)
   const setMarkdownContent = useCallback(
@@ -1871,6 +1963,47 @@ export default function MarkdownEditor({
         }
       });
     });
+    assign("beginStreamingInsert", () => {
+      // Streams a growing markdown draft into the document at the cursor. Each update re-renders the
+      // whole draft into the range it occupied last time, so partial markdown settles as it completes.
+      const { from: start, to } = editor.state.selection;
+      if (start !== to) {
+        editor.commands.deleteSelection();
+      }
+      let end = start;
+      let pending: string | null = null;
+      let frame: number | null = null;
+      const render = (text: string) => {
+        const html = md.render(text);
+        editor.commands.insertContentAt({ from: start, to: end }, html, {
+          parseOptions: {
+            preserveWhitespace: "full"
+          }
+        });
+        end = editor.state.selection.to;
+      };
+      return {
+        update: (text: string) => {
+          pending = text;
+          if (frame !== null) return;
+          frame = window.requestAnimationFrame(() => {
+            frame = null;
+            if (pending !== null) {
+              render(pending);
+              pending = null;
+            }
+          });
+        },
+        finish: (text: string) => {
+          if (frame !== null) {
+            window.cancelAnimationFrame(frame);
+            frame = null;
+          }
+          pending = null;
+          render(text);
+        }
+      };
+    });
     assign("replaceSelection", (text: string, selectionRange?: { from: number; to: number }) => {
       const range = selectionRange || editor.state.selection;
       const { from, to } = range;
@@ -1923,7 +2056,7 @@ export default function MarkdownEditor({
     });
 
     return () => {
-      ["setMarkdown", "getMarkdown", "insertText", "replaceSelection", "getSelectionRange", "getSelectedText", "getPlainText"].forEach(
+      ["setMarkdown", "getMarkdown", "insertText", "beginStreamingInsert", "replaceSelection", "getSelectionRange", "getSelectedText", "getPlainText"].forEach(
         (key) => {
           Reflect.deleteProperty(editorAny, key);
         }
@@ -0,0 +1,120 @@
+import { Extension, type Editor } from "@tiptap/core";
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model";
+import { Plugin, PluginKey } from "@tiptap/pm/state";
+import { Decoration, DecorationSet } from "@tiptap/pm/view";
+import { lintDraft } from "@/lib/house-rules";
+
+export type HouseRulesStorage = {
+  enabled: boolean;
+  avoidWords: string | null;
+};
+
+declare module "@tiptap/core" {
+  interface Storage {
+    houseRules: HouseRulesStorage;
+  }
+}
+
+const houseRulesKey = new PluginKey<DecorationSet>("houseRules");
+
+export type TextSegment = { start: number; pos: number; length: number };
+
+/**
+ * Flattens the document into the text the linter sees: blocks separated by blank lines, list
+ * items prefixed with "- " so list rules apply. Segments map text offsets back to positions.
+ */
+function collectText(doc: ProseMirrorNode): { text: string; segments: TextSegment[] } {
+  let text = "";
+  const segments: TextSegment[] = [];
+  doc.descendants((node, pos) => {
+    if (!node.isTextblock) return true;
+    if (text) text += "\n\n";
+    const $pos = doc.resolve(pos);
+    const parent = $pos.parent;
+    if (parent.type.name === "listItem" && parent.firstChild === node) {
+      let depth = 0;
+      for (let level = $pos.depth; level > 0; level -= 1) {
+        if ($pos.node(level).type.name === "listItem") depth += 1;
+      }
+      text += `${"  ".repeat(Math.max(depth - 1, 0))}- `;
+    }
+    node.forEach((child, offset) => {
+      if (child.isText && child.text) {
+        segments.push({ start: text.length, pos: pos + 1 + offset, length: child.text.length });
+        text += child.text;
+      } else if (child.type.name === "hardBreak") {
+        text += "\n";
+      }
+    });
+    return false;
+  });
+  return { text, segments };
+}
+
+export function toPosition(segments: TextSegment[], offset: number, edge: "from" | "to"): number | null {
+  if (edge === "from") {
+    const segment = segments.find((entry) => entry.start + entry.length > offset);
+    return segment ? segment.pos + Math.max(offset - segment.start, 0) : null;
+  }
+  for (let index = segments.length - 1; index >= 0; index -= 1) {
+    const segment = segments[index];
+    if (segment.start < offset) return segment.pos + Math.min(offset - segment.start, segment.length);
+  }
+  return null;
+}
+
+function buildDecorations(doc: ProseMirrorNode, storage: HouseRulesStorage): DecorationSet {
+  if (!storage.enabled) return DecorationSet.empty;
+  const { text, segments } = collectText(doc);
+  if (!text.trim()) return DecorationSet.empty;
+  const decorations: Decoration[] = [];
+  lintDraft(text, { avoidWords: storage.avoidWords }).forEach((violation) => {
+    const from = toPosition(segments, violation.from, "from");
+    const to = toPosition(segments, violation.to, "to");
+    if (from === null || to === null || from >= to) return;
+    decorations.push(
+      Decoration.inline(from, to, {
+        class: "house-rule-violation",
+        title: violation.message,
+        "data-house-rule": violation.ruleId
+      })
+    );
+  });
+  return DecorationSet.create(doc, decorations);
+}
+
+/** Underlines house-rule violations in the editor; configured through `setHouseRules`. */
+export const HouseRulesHighlight = Extension.create<Record<string, never>, HouseRulesStorage>({
+  name: "houseRules",
+
+  addStorage() {
+    return { enabled: false, avoidWords: null };
+  },
+
+  addProseMirrorPlugins() {
+    const storage = this.storage;
+    return [
+      new Plugin<DecorationSet>({
+        key: houseRulesKey,
+        state: {
+          init: (_, state) => buildDecorations(state.doc, storage),
+          apply: (tr, decorations) =>
+            tr.docChanged || tr.getMeta(houseRulesKey) ? buildDecorations(tr.doc, storage) : decorations
+        },
+        props: {
+          decorations(state) {
+            return houseRulesKey.getState(state);
+          }
+        }
+      })
+    ];
+  }
+});
+
+export function setHouseRules(editor: Editor, next: HouseRulesStorage) {
+  const storage = editor.storage.houseRules;
+  if (!storage || (storage.enabled === next.enabled && storage.avoidWords === next.avoidWords)) return;
+  storage.enabled = next.enabled;
+  storage.avoidWords = next.avoidWords;
+  editor.view.dispatch(editor.state.tr.setMeta(houseRulesKey, true));
+}
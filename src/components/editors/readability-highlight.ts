@@ -0,0 +1,106 @@
+import { Extension, type Editor } from "@tiptap/core";
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model";
+import { Plugin, PluginKey } from "@tiptap/pm/state";
+import { Decoration, DecorationSet } from "@tiptap/pm/view";
+import { flagSentences, type ReadabilityTarget } from "@/lib/readability";
+import { toPosition, type TextSegment } from "./house-rules-highlight";
+
+export type ReadabilityStorage = {
+  target: ReadabilityTarget | null;
+};
+
+declare module "@tiptap/core" {
+  interface Storage {
+    readability: ReadabilityStorage;
+  }
+}
+
+/** A sentence that misses the target, located by document position. */
+export type FlaggedSentence = {
+  from: number;
+  to: number;
+  text: string;
+  reasons: string[];
+};
+
+const readabilityKey = new PluginKey<DecorationSet>("readability");
+
+// Headings and code are not prose, so they are never scored
+const SKIPPED_BLOCKS = new Set(["heading", "codeBlock"]);
+
+/** Flagged sentences of every prose block, scored one block at a time like `analyzeReadability` scores lines. */
+export function findFlaggedSentences(doc: ProseMirrorNode, target: ReadabilityTarget | null): FlaggedSentence[] {
+  if (!target) return [];
+  const flagged: FlaggedSentence[] = [];
+  doc.descendants((node, pos) => {
+    if (!node.isTextblock) return true;
+    if (SKIPPED_BLOCKS.has(node.type.name)) return false;
+    let text = "";
+    const segments: TextSegment[] = [];
+    node.forEach((child, offset) => {
+      if (child.isText && child.text) {
+        segments.push({ start: text.length, pos: pos + 1 + offset, length: child.text.length });
+        text += child.text;
+      } else if (child.type.name === "hardBreak") {
+        text += "\n";
+      }
+    });
+    flagSentences(text, target).forEach((sentence) => {
+      const from = toPosition(segments, sentence.from, "from");
+      const to = toPosition(segments, sentence.to, "to");
+      if (from === null || to === null || from >= to) return;
+      flagged.push({ from, to, text: sentence.text, reasons: sentence.reasons });
+    });
+    return false;
+  });
+  return flagged;
+}
+
+function buildDecorations(doc: ProseMirrorNode, storage: ReadabilityStorage): DecorationSet {
+  const flagged = findFlaggedSentences(doc, storage.target);
+  if (!flagged.length) return DecorationSet.empty;
+  return DecorationSet.create(
+    doc,
+    flagged.map((sentence) =>
+      Decoration.inline(sentence.from, sentence.to, {
+        class: "readability-flag",
+        title: sentence.reasons.join("; ")
+      })
+    )
+  );
+}
+
+/** Shades sentences that read above the target grade level; configured through `setReadabilityTarget`. */
+export const ReadabilityHighlight = Extension.create<Record<string, never>, ReadabilityStorage>({
+  name: "readability",
+
+  addStorage() {
+    return { target: null };
+  },
+
+  addProseMirrorPlugins() {
+    const storage = this.storage;
+    return [
+      new Plugin<DecorationSet>({
+        key: readabilityKey,
+        state: {
+          init: (_, state) => buildDecorations(state.doc, storage),
+          apply: (tr, decorations) =>
+            tr.docChanged || tr.getMeta(readabilityKey) ? buildDecorations(tr.doc, storage) : decorations
+        },
+        props: {
+          decorations(state) {
+            return readabilityKey.getState(state);
+          }
+        }
+      })
+    ];
+  }
+});
+
+export function setReadabilityTarget(editor: Editor, target: ReadabilityTarget | null) {
+  const storage = editor.storage.readability;
+  if (!storage || (storage.target?.label ?? null) === (target?.label ?? null)) return;
+  storage.target = target;
+  editor.view.dispatch(editor.state.tr.setMeta(readabilityKey, true));
+}
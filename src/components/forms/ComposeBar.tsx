@@ -2,9 +2,14 @@
 
 import { XMarkIcon } from "@heroicons/react/24/outline";
 import { WrenchIcon } from "@heroicons/react/24/solid";
-import { cn, getPromptHistory, PromptHistoryEntry } from "@/lib/utils";
+import { cn } from "@/lib/utils";
+import type { ComposeGroundingInput } from "@/lib/validators";
+import { MAX_COMPOSE_VARIANTS, VARIANT_ANGLES } from "@/lib/variants";
 import { useEffect, useMemo, useRef, useState } from "react";
 import Link from "next/link";
+import PromptTemplatePicker, { type AppliedPromptTemplate, type PromptTemplateContext } from "./PromptTemplatePicker";
+import PromptHistoryPanel from "./PromptHistoryPanel";
+import type { PromptHistorySummary } from "@/types/writer";
 
 // TypeScript definitions for Web Speech API
 interface SpeechRecognition extends EventTarget {
@@ -63,6 +68,8 @@ type ComposeBarProps = {
   value: string;
   onChange: (value: string) => void;
   onSubmit: () => void;
+  /** Stops an in-flight generation; the send button becomes a stop button while loading. */
+  onCancel?: () => void;
   disabled?: boolean;
   loading?: boolean;
   onToggleSettings: (anchorRect: DOMRect | null) => void;
@@ -82,12 +89,25 @@ type ComposeBarProps = {
   hasSelection?: boolean;
   selectedText?: string | null;
   isGuest?: boolean;
+  /** Grounding in saved documents; the toggle only renders when `onGroundingChange` is set. */
+  grounding?: ComposeGroundingInput | null;
+  groundingFolders?: Array<{ id: string; name: string }>;
+  onGroundingChange?: (grounding: ComposeGroundingInput) => void;
+  /** Drafts per compose; the picker only renders when `onVariantCountChange` is set. */
+  variantCount?: number;
+  onVariantCountChange?: (count: number) => void;
+  /** Saved prompt templates; the picker only renders when `onApplyTemplate` is set. */
+  templateContext?: Omit<PromptTemplateContext, "prompt">;
+  onApplyTemplate?: (applied: AppliedPromptTemplate) => void;
+  /** Composes a history entry again with its settings; the re-run button only renders when set. */
+  onRerunPrompt?: (entry: PromptHistorySummary) => void;
 };
 
 export default function ComposeBar({
   value,
   onChange,
   onSubmit,
+  onCancel,
   disabled,
   loading = false,
   onToggleSettings,
@@ -100,16 +120,32 @@ export default function ComposeBar({
   onClearPersona,
   hasSelection = false,
   selectedText = null,
-  isGuest = false
+  isGuest = false,
+  grounding = null,
+  groundingFolders = [],
+  onGroundingChange,
+  variantCount = 1,
+  onVariantCountChange,
+  templateContext,
+  onApplyTemplate,
+  onRerunPrompt
 }: ComposeBarProps) {
   const settingsButtonRef = useRef<HTMLButtonElement>(null);
   const historyButtonRef = useRef<HTMLButtonElement>(null);
   const historyPopupRef = useRef<HTMLDivElement>(null);
+  const groundingButtonRef = useRef<HTMLButtonElement>(null);
+  const groundingPopupRef = useRef<HTMLDivElement>(null);
+  const variantsButtonRef = useRef<HTMLButtonElement>(null);
+  const variantsPopupRef = useRef<HTMLDivElement>(null);
+  const templatesButtonRef = useRef<HTMLButtonElement>(null);
+  const templatesPopupRef = useRef<HTMLDivElement>(null);
   const sendButtonRef = useRef<HTMLButtonElement>(null);
   const internalTextareaRef = useRef<HTMLTextAreaElement>(null);
   const textareaRef = inputRef ?? internalTextareaRef;
   const [historyOpen, setHistoryOpen] = useState(false);
-  const [promptHistory, setPromptHistory] = useState<PromptHistoryEntry[]>([]);
+  const [groundingOpen, setGroundingOpen] = useState(false);
+  const [variantsOpen, setVariantsOpen] = useState(false);
+  const [templatesOpen, setTemplatesOpen] = useState(false);
   
   const rewriteExamples = useMemo(
     () => [
@@ -300,11 +336,6 @@ export default function ComposeBar({
     };
   }, [value, onChange]);
 
-  // Load prompt history
-  useEffect(() => {
-    setPromptHistory(getPromptHistory());
-  }, []);
-
   // Close history popup when clicking outside
   useEffect(() => {
     if (!historyOpen) return;
@@ -324,12 +355,86 @@ export default function ComposeBar({
     return () => document.removeEventListener("mousedown", handleClickOutside);
   }, [historyOpen]);
 
-  // Refresh history when it opens
   useEffect(() => {
-    if (historyOpen) {
-      setPromptHistory(getPromptHistory());
-    }
-  }, [historyOpen]);
+    if (!groundingOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (
+        groundingPopupRef.current &&
+        !groundingPopupRef.current.contains(event.target as Node) &&
+        groundingButtonRef.current &&
+        !groundingButtonRef.current.contains(event.target as Node)
+      ) {
+        setGroundingOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, [groundingOpen]);
+
+  useEffect(() => {
+    if (!variantsOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (
+        variantsPopupRef.current &&
+        !variantsPopupRef.current.contains(event.target as Node) &&
+        variantsButtonRef.current &&
+        !variantsButtonRef.current.contains(event.target as Node)
+      ) {
+        setVariantsOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, [variantsOpen]);
+
+  useEffect(() => {
+    if (!templatesOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (
+        templatesPopupRef.current &&
+        !templatesPopupRef.current.contains(event.target as Node) &&
+        templatesButtonRef.current &&
+        !templatesButtonRef.current.contains(event.target as Node)
+      ) {
+        setTemplatesOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, [templatesOpen]);
+
+  const groundingEnabled = Boolean(onGroundingChange && grounding?.enabled);
+  const groundingFolderName = grounding?.folderId
+    ? groundingFolders.find((folder) => folder.id === grounding.folderId)?.name ?? null
+    : null;
+
+  const handleGroundingSelect = (folderId: string | null) => {
+    onGroundingChange?.({ enabled: true, folderId });
+    setGroundingOpen(false);
+  };
+
+  // Rewrites always return one result, so variants only apply when composing
+  const showVariants = Boolean(onVariantCountChange) && !hasSelection;
+  const variantOptions = Array.from({ length: MAX_COMPOSE_VARIANTS }, (_, index) => index + 1);
+  // Templates start a new draft, so like variants they are hidden while rewriting a selection
+  const showTemplates = Boolean(onApplyTemplate) && !hasSelection;
+  const templatesOffset = ["right-0", "right-8", "right-16", "right-24"][
+    1 + (onGroundingChange ? 1 : 0) + (showVariants ? 1 : 0)
+  ];
+
+  const handleTemplateApply = (applied: AppliedPromptTemplate) => {
+    onApplyTemplate?.(applied);
+    setTemplatesOpen(false);
+    setTimeout(() => {
+      textareaRef.current?.focus();
+    }, 0);
+  };
 
   const handleHistorySelect = (prompt: string) => {
     onChange(prompt);
@@ -340,6 +445,11 @@ export default function ComposeBar({
     }, 0);
   };
 
+  const handleHistoryRerun = (entry: PromptHistorySummary) => {
+    onRerunPrompt?.(entry);
+    setHistoryOpen(false);
+  };
+
   const getBrowserSupportInfo = () => {
     const userAgent = navigator.userAgent;
     const isChrome = /Chrome/.test(userAgent) && !/Edge|OPR/.test(userAgent);
@@ -432,7 +542,7 @@ export default function ComposeBar({
 
   const content = (
     <div className="flex w-full flex-col gap-2 mt-[3px]">
-      {(activeStyle || activePersona) && (
+      {(activeStyle || activePersona || groundingEnabled) && (
         <div className="flex items-center gap-2 justify-center flex-wrap">
           {activePersona && (
             <div className="inline-flex items-center gap-1.5 h-[18px] rounded-full border border-white/40 bg-white/5 px-2.5 text-xs font-semibold uppercase text-white">
@@ -466,6 +576,20 @@ export default function ComposeBar({
               )}
             </div>
           )}
+          {groundingEnabled && (
+            <div className="inline-flex items-center gap-1.5 h-[18px] rounded-full border border-white/40 bg-white/5 px-2.5 text-xs font-semibold uppercase text-white">
+              <span className="text-[8px] font-bold text-white/50 cursor-default">SOURCES</span>
+              <span>{groundingFolderName ?? "All my docs"}</span>
+              <button
+                type="button"
+                onClick={() => onGroundingChange?.({ enabled: false, folderId: grounding?.folderId ?? null })}
+                aria-label="Stop grounding in saved documents"
+                className="text-white/80 hover:text-white transition-colors -mx-1 px-0.5"
+              >
+                <XMarkIcon className="h-3 w-3" />
+              </button>
+            </div>
+          )}
         </div>
       )}
       {hasSelection ? (
@@ -535,35 +659,201 @@ export default function ComposeBar({
         >
           <span className="material-symbols-outlined text-xl" style={{ color: 'rgba(255, 255, 255, 0.4)' }}>history</span>
         </button>
+        {onGroundingChange && (
+          <button
+            type="button"
+            aria-label="Ground in saved documents"
+            title="Sources"
+            ref={groundingButtonRef}
+            onClick={() => setGroundingOpen((prev) => !prev)}
+            className={cn(
+              "absolute -top-8 right-8 flex items-center justify-center transition hover:text-brand-blue",
+              groundingOpen ? "text-brand-blue" : null
+            )}
+            style={{ transform: 'translate(-11px, -8px)' }}
+          >
+            <span
+              className="material-symbols-outlined text-xl"
+              style={{ color: groundingEnabled ? "rgb(59, 130, 246)" : "rgba(255, 255, 255, 0.4)" }}
+            >
+              menu_book
+            </span>
+          </button>
+        )}
+        {showVariants && (
+          <button
+            type="button"
+            aria-label="Number of drafts"
+            title="Variants"
+            ref={variantsButtonRef}
+            onClick={() => setVariantsOpen((prev) => !prev)}
+            className={cn(
+              "absolute -top-8 flex items-center justify-center gap-0.5 transition hover:text-brand-blue",
+              onGroundingChange ? "right-16" : "right-8",
+              variantsOpen ? "text-brand-blue" : null
+            )}
+            style={{ transform: 'translate(-11px, -8px)' }}
+          >
+            <span
+              className="material-symbols-outlined text-xl"
+              style={{ color: variantCount > 1 ? "rgb(59, 130, 246)" : "rgba(255, 255, 255, 0.4)" }}
+            >
+              view_column
+            </span>
+            {variantCount > 1 && <span className="text-xs font-semibold text-brand-blue">{variantCount}</span>}
+          </button>
+        )}
+        {showTemplates && (
+          <button
+            type="button"
+            aria-label="Prompt templates"
+            title="Templates"
+            ref={templatesButtonRef}
+            onClick={() => setTemplatesOpen((prev) => !prev)}
+            className={cn(
+              "absolute -top-8 flex items-center justify-center transition hover:text-brand-blue",
+              templatesOffset,
+              templatesOpen ? "text-brand-blue" : null
+            )}
+            style={{ transform: 'translate(-11px, -8px)' }}
+          >
+            <span
+              className="material-symbols-outlined text-xl"
+              style={{ color: templatesOpen ? "rgb(59, 130, 246)" : "rgba(255, 255, 255, 0.4)" }}
+            >
+              description
+            </span>
+          </button>
+        )}
+        {templatesOpen && showTemplates && (
+          <div
+            ref={templatesPopupRef}
+            className={cn(
+              "absolute bottom-full mb-10 w-[400px] max-w-[calc(100vw-2rem)] max-h-[480px] overflow-y-auto rounded-2xl border border-brand-stroke/60 bg-brand-panel shadow-[0_20px_60px_rgba(0,0,0,0.45)] z-[100]",
+              templatesOffset
+            )}
+            style={{ transform: 'translate(-11px, 0)' }}
+          >
+            <PromptTemplatePicker
+              context={{
+                prompt: value,
+                settings: templateContext?.settings ?? null,
+                style: templateContext?.style ?? null,
+                persona: templateContext?.persona ?? null
+              }}
+              onApply={handleTemplateApply}
+            />
+          </div>
+        )}
+        {variantsOpen && showVariants && onVariantCountChange && (
+          <div
+            ref={variantsPopupRef}
+            className={cn(
+              "absolute bottom-full mb-10 w-[280px] max-w-[calc(100vw-2rem)] rounded-2xl border border-brand-stroke/60 bg-brand-panel shadow-[0_20px_60px_rgba(0,0,0,0.45)] z-[100]",
+              onGroundingChange ? "right-16" : "right-8"
+            )}
+            style={{ transform: 'translate(-11px, 0)' }}
+          >
+            <div className="flex items-center gap-2 p-4 border-b border-brand-stroke/40">
+              <span className="material-symbols-outlined text-lg text-brand-muted">view_column</span>
+              <h3 className="text-xs font-semibold text-brand-muted uppercase tracking-wider">Variants</h3>
+            </div>
+            <p className="px-4 pt-3 text-xs text-brand-muted">
+              Write several takes at once, then compare, merge or keep the one you like.
+            </p>
+            <div className="p-2">
+              {variantOptions.map((count) => (
+                <button
+                  key={count}
+                  type="button"
+                  onClick={() => {
+                    onVariantCountChange(count);
+                    setVariantsOpen(false);
+                  }}
+                  className={cn(
+                    "flex w-full items-center gap-3 rounded-lg px-3 py-2.5 text-left text-sm transition hover:bg-white/5",
+                    variantCount === count ? "text-brand-blue" : "text-brand-text hover:text-white"
+                  )}
+                >
+                  <span className="w-4 text-center font-semibold">{count}</span>
+                  <span className="flex-1 truncate">
+                    {count === 1
+                      ? "Single draft"
+                      : VARIANT_ANGLES.slice(0, count)
+                          .map((angle) => angle.label)
+                          .join(", ")}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+        {groundingOpen && onGroundingChange && (
+          <div
+            ref={groundingPopupRef}
+            className="absolute bottom-full right-8 mb-10 w-[320px] max-w-[calc(100vw-2rem)] max-h-[400px] overflow-y-auto rounded-2xl border border-brand-stroke/60 bg-brand-panel shadow-[0_20px_60px_rgba(0,0,0,0.45)] z-[100]"
+            style={{ transform: 'translate(-11px, 0)' }}
+          >
+            <div className="flex items-center gap-2 p-4 border-b border-brand-stroke/40">
+              <span className="material-symbols-outlined text-lg text-brand-muted">menu_book</span>
+              <h3 className="text-xs font-semibold text-brand-muted uppercase tracking-wider">Ground in my docs</h3>
+            </div>
+            <p className="px-4 pt-3 text-xs text-brand-muted">
+              Pull facts from your saved documents so details are filled in, not invented.
+            </p>
+            <div className="p-2">
+              <button
+                type="button"
+                onClick={() => handleGroundingSelect(null)}
+                className={cn(
+                  "flex w-full items-center gap-3 rounded-lg px-3 py-2.5 text-left text-sm transition hover:bg-white/5",
+                  groundingEnabled && !grounding?.folderId ? "text-brand-blue" : "text-brand-text hover:text-white"
+                )}
+              >
+                <span className="material-symbols-outlined text-base leading-none">library_books</span>
+                <span className="flex-1">All my documents</span>
+              </button>
+              {groundingFolders.map((folder) => (
+                <button
+                  key={folder.id}
+                  type="button"
+                  onClick={() => handleGroundingSelect(folder.id)}
+                  className={cn(
+                    "flex w-full items-center gap-3 rounded-lg px-3 py-2.5 text-left text-sm transition hover:bg-white/5",
+                    groundingEnabled && grounding?.folderId === folder.id ? "text-brand-blue" : "text-brand-text hover:text-white"
+                  )}
+                >
+                  <span className="material-symbols-outlined text-base leading-none">folder</span>
+                  <span className="flex-1 truncate">{folder.name}</span>
+                </button>
+              ))}
+              {groundingEnabled && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    onGroundingChange({ enabled: false, folderId: grounding?.folderId ?? null });
+                    setGroundingOpen(false);
+                  }}
+                  className="mt-1 flex w-full items-center gap-3 rounded-lg border-t border-brand-stroke/40 px-3 py-2.5 text-left text-sm text-brand-muted transition hover:bg-white/5 hover:text-white"
+                >
+                  <span className="material-symbols-outlined text-base leading-none">block</span>
+                  <span className="flex-1">Turn off</span>
+                </button>
+              )}
+            </div>
+          </div>
+        )}
         {historyOpen && (
           <div
             ref={historyPopupRef}
             className="absolute bottom-full right-0 mb-10 w-[400px] max-w-[calc(100vw-2rem)] max-h-[400px] overflow-y-auto rounded-2xl border border-brand-stroke/60 bg-brand-panel shadow-[0_20px_60px_rgba(0,0,0,0.45)] z-[100]"
             style={{ transform: 'translate(-11px, 0)' }}
           >
-            {/* Header with icon and title */}
-            <div className="flex items-center gap-2 p-4 border-b border-brand-stroke/40">
-              <span className="material-symbols-outlined text-lg text-brand-muted">history</span>
-              <h3 className="text-xs font-semibold text-brand-muted uppercase tracking-wider">History</h3>
-            </div>
-            {promptHistory.length === 0 ? (
-              <div className="p-4 text-sm text-brand-muted text-center">
-                No prompt history yet
-              </div>
-            ) : (
-              <div className="p-2">
-                {promptHistory.map((entry, index) => (
-                  <button
-                    key={`${entry.timestamp}-${index}`}
-                    type="button"
-                    onClick={() => handleHistorySelect(entry.prompt)}
-                    className="w-full text-left px-3 py-2.5 rounded-lg hover:bg-white/5 transition text-sm text-brand-text hover:text-white break-words"
-                  >
-                    <p className="line-clamp-2 break-words">{entry.prompt}</p>
-                  </button>
-                ))}
-              </div>
-            )}
+            <PromptHistoryPanel
+              onSelect={handleHistorySelect}
+              // Re-running starts a new draft, so it is not offered while rewriting a selection
+              onRerun={onRerunPrompt && !hasSelection && !loading ? handleHistoryRerun : undefined}
+            />
           </div>
         )}
         <div className={cn(
@@ -634,6 +924,17 @@ export default function ComposeBar({
             </span>
           </button>
         </div>
+        {loading && onCancel ? (
+          <button
+            type="button"
+            onClick={onCancel}
+            aria-label="Stop generating"
+            title="Stop generating"
+            className="flex min-w-[120px] items-center justify-center rounded-full px-4 py-2 transition h-12 bg-white text-black hover:bg-gray-100 shimmer-loading"
+          >
+            <span className="material-symbols-sharp text-black" style={{ fontSize: '32px' }}>stop</span>
+          </button>
+        ) : (
         <button
           type="button"
           ref={sendButtonRef}
@@ -657,6 +958,7 @@ export default function ComposeBar({
             <span className="material-symbols-sharp text-black" style={{ fontSize: '36px' }}>arrow_upward</span>
           )}
         </button>
+        )}
       </div>
     </div>
   );
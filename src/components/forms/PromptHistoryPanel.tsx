@@ -0,0 +1,229 @@
+"use client";
+
+import { XMarkIcon } from "@heroicons/react/24/outline";
+import { useEffect, useState } from "react";
+import { formatTimestamp, getPromptHistory, readApiErrorMessage } from "@/lib/utils";
+import type { PromptHistorySummary } from "@/types/writer";
+import { describeSettings } from "./PromptTemplatePicker";
+
+type PromptHistoryPanelProps = {
+  onSelect: (prompt: string) => void;
+  /** Composes again with the entry's settings, style and persona; hidden when unset. */
+  onRerun?: (entry: PromptHistorySummary) => void;
+};
+
+type HistoryPage = {
+  entries: PromptHistorySummary[];
+  nextCursor: string | null;
+  /** Read from this browser's local history because the server has no database. */
+  local: boolean;
+  error: string | null;
+};
+
+const PAGE_SIZE = 20;
+
+function localHistoryPage(query: string): HistoryPage {
+  const needle = query.toLowerCase();
+  const entries = getPromptHistory()
+    .filter((entry) => !needle || entry.prompt.toLowerCase().includes(needle))
+    .map<PromptHistorySummary>((entry, index) => ({
+      id: `local-${index}`,
+      kind: "compose",
+      prompt: entry.prompt,
+      settings: null,
+      persona: null,
+      style: null,
+      documentId: null,
+      tokens: 0,
+      createdAt: entry.timestamp
+    }));
+  return { entries, nextCursor: null, local: true, error: null };
+}
+
+async function fetchHistoryPage(query: string, cursor: string | null, signal?: AbortSignal): Promise<HistoryPage> {
+  const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+  if (query) params.set("q", query);
+  if (cursor) params.set("cursor", cursor);
+  const response = await fetch(`/api/prompt-history?${params.toString()}`, { signal, cache: "no-store" });
+  if (response.status === 503) {
+    return localHistoryPage(query);
+  }
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(readApiErrorMessage(payload, "Unable to load prompt history."));
+  }
+  return {
+    entries: Array.isArray(payload?.entries) ? payload.entries : [],
+    nextCursor: typeof payload?.nextCursor === "string" ? payload.nextCursor : null,
+    local: false,
+    error: null
+  };
+}
+
+/**
+ * Compose and rewrite prompts from every device signed in to the account, searchable and paged
+ * from the server. Mounted while the compose bar's history popup is open.
+ */
+export default function PromptHistoryPanel({ onSelect, onRerun }: PromptHistoryPanelProps) {
+  const [query, setQuery] = useState("");
+  const [page, setPage] = useState<HistoryPage | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  // Debounced so typing a search does not send a request per keystroke
+  useEffect(() => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      fetchHistoryPage(query.trim(), null, controller.signal)
+        .then(setPage)
+        .catch((error: Error) => {
+          if (controller.signal.aborted) return;
+          setPage({ entries: [], nextCursor: null, local: false, error: error.message });
+        });
+    }, query ? 250 : 0);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query]);
+
+  const loadMore = async () => {
+    if (!page?.nextCursor) return;
+    setLoadingMore(true);
+    setActionError(null);
+    try {
+      const next = await fetchHistoryPage(query.trim(), page.nextCursor);
+      setPage((prev) => (prev ? { ...next, entries: [...prev.entries, ...next.entries] } : next));
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : "Unable to load more prompts.");
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const removeEntry = async (entry: PromptHistorySummary) => {
+    setActionError(null);
+    try {
+      const response = await fetch(`/api/prompt-history/${entry.id}`, { method: "DELETE" });
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new Error(readApiErrorMessage(payload, "Unable to remove that prompt."));
+      }
+      setPage((prev) => (prev ? { ...prev, entries: prev.entries.filter((item) => item.id !== entry.id) } : prev));
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : "Unable to remove that prompt.");
+    }
+  };
+
+  const clearHistory = async () => {
+    if (!window.confirm("Clear your whole prompt history on every device?")) return;
+    setActionError(null);
+    try {
+      const response = await fetch("/api/prompt-history", { method: "DELETE" });
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new Error(readApiErrorMessage(payload, "Unable to clear prompt history."));
+      }
+      setPage({ entries: [], nextCursor: null, local: false, error: null });
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : "Unable to clear prompt history.");
+    }
+  };
+
+  const entries = page?.entries ?? [];
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 p-4 border-b border-brand-stroke/40">
+        <span className="material-symbols-outlined text-lg text-brand-muted">history</span>
+        <h3 className="flex-1 text-xs font-semibold text-brand-muted uppercase tracking-wider">History</h3>
+        {page && !page.local && entries.length > 0 && (
+          <button
+            type="button"
+            onClick={() => void clearHistory()}
+            className="text-xs text-brand-muted transition hover:text-white"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+      <div className="px-4 pt-3">
+        <input
+          type="search"
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          placeholder="Search prompts"
+          maxLength={200}
+          className="w-full rounded-lg border border-brand-stroke/60 bg-brand-ink px-3 py-2 text-sm text-brand-text placeholder:text-brand-muted/50 focus:border-brand-blue focus:outline-none"
+        />
+      </div>
+      {(actionError || page?.error) && <p className="px-4 pt-3 text-xs text-red-400">{actionError || page?.error}</p>}
+      {!page ? (
+        <div className="p-4 text-sm text-brand-muted text-center">Loading…</div>
+      ) : entries.length === 0 ? (
+        <div className="p-4 text-sm text-brand-muted text-center">
+          {query.trim() ? "No prompts match that search" : "No prompt history yet"}
+        </div>
+      ) : (
+        <div className="p-2">
+          {entries.map((entry) => {
+            const details = [
+              entry.kind === "rewrite" ? "Rewrite" : null,
+              entry.settings ? describeSettings(entry.settings) : null,
+              entry.style ? `Style: ${entry.style.name}` : null,
+              entry.persona ? `Persona: ${entry.persona.name}` : null,
+              entry.tokens ? `${entry.tokens.toLocaleString()} tokens` : null
+            ].filter((part): part is string => Boolean(part));
+            return (
+              <div key={entry.id} className="group flex items-start gap-1 rounded-lg transition hover:bg-white/5">
+                <button
+                  type="button"
+                  onClick={() => onSelect(entry.prompt)}
+                  className="min-w-0 flex-1 px-3 py-2.5 text-left text-sm text-brand-text hover:text-white"
+                >
+                  <p className="line-clamp-2 break-words">{entry.prompt}</p>
+                  <p className="mt-1 truncate text-[11px] text-brand-muted">
+                    {[formatTimestamp(entry.createdAt), ...details].join(" · ")}
+                  </p>
+                </button>
+                {!page.local && (
+                  <div className="flex shrink-0 items-center gap-1 py-2.5 pr-2">
+                    {onRerun && entry.kind === "compose" && (
+                      <button
+                        type="button"
+                        onClick={() => onRerun(entry)}
+                        aria-label="Re-run with the same settings"
+                        title="Re-run with the same settings"
+                        className="material-symbols-outlined text-base leading-none text-brand-muted transition hover:text-brand-blue"
+                      >
+                        replay
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => void removeEntry(entry)}
+                      aria-label="Remove from history"
+                      className="text-brand-muted opacity-0 transition hover:text-white group-hover:opacity-100"
+                    >
+                      <XMarkIcon className="h-4 w-4" />
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+          {page.nextCursor && (
+            <button
+              type="button"
+              onClick={() => void loadMore()}
+              disabled={loadingMore}
+              className="mt-1 w-full rounded-lg px-3 py-2 text-center text-xs text-brand-muted transition hover:bg-white/5 hover:text-white disabled:opacity-50"
+            >
+              {loadingMore ? "Loading…" : "Load more"}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
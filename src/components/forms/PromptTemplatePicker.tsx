@@ -0,0 +1,597 @@
+"use client";
+
+import { XMarkIcon } from "@heroicons/react/24/outline";
+import { useEffect, useMemo, useState } from "react";
+import { channelPreset } from "@/lib/channel-presets";
+import {
+  initialTemplateValues,
+  normalizeTemplateTags,
+  normalizeTemplateVariables,
+  renderPromptTemplate,
+  type PromptTemplateVariable
+} from "@/lib/prompt-templates";
+import { cn, readApiErrorMessage } from "@/lib/utils";
+import type { ComposerSettingsInput } from "@/lib/validators";
+import type { PromptTemplateSummary } from "@/types/writer";
+
+/** What the composer is set to right now, offered as the attachments of a new template. */
+export type PromptTemplateContext = {
+  prompt: string;
+  /** Null when every setting is at its default. */
+  settings: ComposerSettingsInput | null;
+  style: { id: string; name: string } | null;
+  persona: { id: string; name: string } | null;
+};
+
+export type AppliedPromptTemplate = {
+  /** The body with the variables filled in. */
+  prompt: string;
+  template: PromptTemplateSummary;
+};
+
+type PromptTemplatePickerProps = {
+  context: PromptTemplateContext;
+  onApply: (applied: AppliedPromptTemplate) => void;
+};
+
+type TemplateDraft = {
+  id: string | null;
+  name: string;
+  description: string;
+  body: string;
+  folder: string;
+  tags: string;
+  variables: PromptTemplateVariable[];
+  settings: ComposerSettingsInput | null;
+  style: { id: string; name: string } | null;
+  persona: { id: string; name: string } | null;
+};
+
+type PickerView =
+  | { kind: "list" }
+  | { kind: "fill"; template: PromptTemplateSummary; values: Record<string, string> }
+  | { kind: "edit"; draft: TemplateDraft };
+
+const inputClass =
+  "w-full rounded-lg border border-brand-stroke/60 bg-brand-ink px-3 py-2 text-sm text-brand-text placeholder:text-brand-muted/50 focus:border-brand-blue focus:outline-none";
+
+export function describeSettings(settings: ComposerSettingsInput): string {
+  const parts = [
+    settings.marketTier ? settings.marketTier.toLowerCase() : null,
+    settings.wordLength ? `${settings.wordLength} words` : null,
+    settings.characterLength ? `${settings.characterLength} characters` : null,
+    settings.gradeLevel ? `grade ${settings.gradeLevel}` : null,
+    channelPreset(settings.channelPreset)?.label ?? null,
+    settings.benchmark ? `like ${settings.benchmark}` : null,
+    settings.avoidWords ? "avoid list" : null
+  ].filter((part): part is string => Boolean(part));
+  return parts.length ? parts.join(", ") : "Default settings";
+}
+
+function matchesQuery(template: PromptTemplateSummary, query: string): boolean {
+  if (!query) return true;
+  const haystack = [template.name, template.description, template.body, template.folder, ...template.tags]
+    .filter(Boolean)
+    .join("\n")
+    .toLowerCase();
+  return haystack.includes(query);
+}
+
+function draftFromTemplate(template: PromptTemplateSummary): TemplateDraft {
+  return {
+    id: template.id,
+    name: template.name,
+    description: template.description ?? "",
+    body: template.body,
+    folder: template.folder ?? "",
+    tags: template.tags.join(", "),
+    variables: template.variables,
+    settings: template.settings,
+    style: template.style ? { id: template.style.id, name: template.style.title } : null,
+    persona: template.persona
+  };
+}
+
+function draftFromContext(context: PromptTemplateContext): TemplateDraft {
+  return {
+    id: null,
+    name: "",
+    description: "",
+    body: context.prompt.trim(),
+    folder: "",
+    tags: "",
+    variables: normalizeTemplateVariables(context.prompt),
+    settings: context.settings,
+    style: context.style,
+    persona: context.persona
+  };
+}
+
+function AttachmentChip({ label, value, onRemove }: { label: string; value: string; onRemove?: () => void }) {
+  return (
+    <span className="inline-flex max-w-full items-center gap-1.5 rounded-full border border-white/30 bg-white/5 px-2.5 py-0.5 text-xs text-white">
+      <span className="text-[8px] font-bold uppercase text-white/50">{label}</span>
+      <span className="truncate">{value}</span>
+      {onRemove && (
+        <button
+          type="button"
+          onClick={onRemove}
+          aria-label={`Remove ${label.toLowerCase()}`}
+          className="text-white/70 transition hover:text-white"
+        >
+          <XMarkIcon className="h-3 w-3" />
+        </button>
+      )}
+    </span>
+  );
+}
+
+/**
+ * The saved prompt library behind the compose bar's template button: browse by folder, tag or
+ * search, fill a template's variables, or save the current prompt and settings as a template.
+ */
+export default function PromptTemplatePicker({ context, onApply }: PromptTemplatePickerProps) {
+  const [loaded, setLoaded] = useState<{ templates: PromptTemplateSummary[]; error: string | null } | null>(null);
+  const [view, setView] = useState<PickerView>({ kind: "list" });
+  const [query, setQuery] = useState("");
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  // Mounted while the popup is open, so each opening shows the current workspace's templates
+  useEffect(() => {
+    const controller = new AbortController();
+    fetch("/api/prompt-templates", { signal: controller.signal, cache: "no-store" })
+      .then(async (response) => {
+        const payload = await response.json().catch(() => null);
+        if (!response.ok) {
+          throw new Error(readApiErrorMessage(payload, "Unable to load templates."));
+        }
+        setLoaded({ templates: Array.isArray(payload?.templates) ? payload.templates : [], error: null });
+      })
+      .catch((error: Error) => {
+        if (controller.signal.aborted) return;
+        setLoaded({ templates: [], error: error.message });
+      });
+    return () => controller.abort();
+  }, []);
+
+  const templates = useMemo(() => loaded?.templates ?? [], [loaded]);
+  const allTags = useMemo(() => normalizeTemplateTags(templates.flatMap((template) => template.tags)), [templates]);
+  const folderNames = useMemo(
+    () => Array.from(new Set(templates.map((template) => template.folder).filter((folder): folder is string => Boolean(folder)))),
+    [templates]
+  );
+
+  const groups = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    const visible = templates.filter(
+      (template) =>
+        matchesQuery(template, needle) &&
+        (!activeTag || template.tags.some((tag) => tag.toLowerCase() === activeTag.toLowerCase()))
+    );
+    const byFolder = new Map<string, PromptTemplateSummary[]>();
+    for (const template of visible) {
+      const key = template.folder ?? "";
+      byFolder.set(key, [...(byFolder.get(key) ?? []), template]);
+    }
+    // Unfiled templates come last, after the named folders
+    return Array.from(byFolder.entries()).sort(([a], [b]) => (!a ? 1 : !b ? -1 : a.localeCompare(b)));
+  }, [templates, query, activeTag]);
+
+  const mergeTemplate = (updated: PromptTemplateSummary) => {
+    setLoaded((prev) => {
+      const list = prev?.templates ?? [];
+      const exists = list.some((template) => template.id === updated.id);
+      return {
+        templates: exists ? list.map((template) => (template.id === updated.id ? updated : template)) : [updated, ...list],
+        error: null
+      };
+    });
+  };
+
+  const openTemplate = (template: PromptTemplateSummary) => {
+    setActionError(null);
+    setView({ kind: "fill", template, values: initialTemplateValues(template.variables) });
+  };
+
+  const updateDraft = (update: Partial<TemplateDraft>) => {
+    setView((prev) => {
+      if (prev.kind !== "edit") return prev;
+      const draft = { ...prev.draft, ...update };
+      // Keep a form entry for every {{variable}} the body uses, with labels and defaults carried over
+      if (update.body !== undefined) {
+        draft.variables = normalizeTemplateVariables(draft.body, prev.draft.variables);
+      }
+      return { kind: "edit", draft };
+    });
+  };
+
+  const updateDraftVariable = (name: string, update: Partial<PromptTemplateVariable>) => {
+    setView((prev) =>
+      prev.kind === "edit"
+        ? {
+            kind: "edit",
+            draft: {
+              ...prev.draft,
+              variables: prev.draft.variables.map((variable) => (variable.name === name ? { ...variable, ...update } : variable))
+            }
+          }
+        : prev
+    );
+  };
+
+  const saveDraft = async (draft: TemplateDraft) => {
+    setBusy(true);
+    setActionError(null);
+    try {
+      const response = await fetch(draft.id ? `/api/prompt-templates/${draft.id}` : "/api/prompt-templates", {
+        method: draft.id ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: draft.name,
+          description: draft.description.trim() || null,
+          body: draft.body,
+          variables: draft.variables,
+          settings: draft.settings,
+          folder: draft.folder.trim() || null,
+          tags: normalizeTemplateTags(draft.tags.split(",")),
+          styleDocumentId: draft.style?.id ?? null,
+          personaId: draft.persona?.id ?? null
+        })
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload?.template) {
+        throw new Error(readApiErrorMessage(payload, "Unable to save that template."));
+      }
+      mergeTemplate(payload.template as PromptTemplateSummary);
+      setView({ kind: "list" });
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : "Unable to save that template.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const deleteTemplate = async (template: PromptTemplateSummary) => {
+    if (!window.confirm(`Delete the template "${template.name}"?`)) return;
+    setActionError(null);
+    try {
+      const response = await fetch(`/api/prompt-templates/${template.id}`, { method: "DELETE" });
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new Error(readApiErrorMessage(payload, "Unable to delete that template."));
+      }
+      setLoaded((prev) => (prev ? { ...prev, templates: prev.templates.filter((item) => item.id !== template.id) } : prev));
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : "Unable to delete that template.");
+    }
+  };
+
+  const header = (icon: string, title: string, onBack?: () => void) => (
+    <div className="flex items-center gap-2 p-4 border-b border-brand-stroke/40">
+      {onBack ? (
+        <button
+          type="button"
+          onClick={() => {
+            setActionError(null);
+            onBack();
+          }}
+          aria-label="Back to templates"
+          className="material-symbols-outlined text-lg text-brand-muted transition hover:text-white"
+        >
+          arrow_back
+        </button>
+      ) : (
+        <span className="material-symbols-outlined text-lg text-brand-muted">{icon}</span>
+      )}
+      <h3 className="flex-1 truncate text-xs font-semibold text-brand-muted uppercase tracking-wider">{title}</h3>
+    </div>
+  );
+
+  const errorLine = actionError ? <p className="px-4 pt-3 text-xs text-red-400">{actionError}</p> : null;
+
+  if (view.kind === "fill") {
+    const { template, values } = view;
+    const preview = renderPromptTemplate(template.body, values);
+    return (
+      <div>
+        {header("description", template.name, () => setView({ kind: "list" }))}
+        <div className="flex flex-col gap-3 p-4">
+          {template.description && <p className="text-xs text-brand-muted">{template.description}</p>}
+          {template.variables.map((variable) => {
+            const fieldProps = {
+              value: values[variable.name] ?? "",
+              placeholder: variable.defaultValue || variable.name,
+              onChange: (event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+                setView({ kind: "fill", template, values: { ...values, [variable.name]: event.target.value } }),
+              className: inputClass
+            };
+            return (
+              <label key={variable.name} className="flex flex-col gap-1">
+                <span className="text-xs font-semibold text-brand-muted">{variable.label || variable.name}</span>
+                {variable.multiline ? <textarea rows={3} {...fieldProps} /> : <input type="text" {...fieldProps} />}
+              </label>
+            );
+          })}
+          <div className="rounded-lg border border-brand-stroke/40 bg-white/5 px-3 py-2 text-xs text-brand-text whitespace-pre-wrap break-words max-h-32 overflow-y-auto">
+            {preview}
+          </div>
+          {(template.settings || template.style || template.persona) && (
+            <div className="flex flex-wrap gap-1.5">
+              {template.settings && <AttachmentChip label="Settings" value={describeSettings(template.settings)} />}
+              {template.style && <AttachmentChip label="Style" value={template.style.title} />}
+              {template.persona && <AttachmentChip label="Persona" value={template.persona.name} />}
+            </div>
+          )}
+          {template.variables.some((variable) => !values[variable.name]?.trim()) && (
+            <p className="text-xs text-brand-muted">Blank variables stay in the draft as [brackets] to fill in later.</p>
+          )}
+          <button
+            type="button"
+            onClick={() => onApply({ prompt: preview, template })}
+            className="rounded-full bg-white px-4 py-2 text-sm font-semibold text-black transition hover:bg-gray-100"
+          >
+            Use template
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (view.kind === "edit") {
+    const { draft } = view;
+    const canUseCurrent = {
+      settings: Boolean(context.settings) && context.settings !== draft.settings,
+      style: Boolean(context.style) && context.style?.id !== draft.style?.id,
+      persona: Boolean(context.persona) && context.persona?.id !== draft.persona?.id
+    };
+    return (
+      <div>
+        {header("edit_note", draft.id ? "Edit template" : "Save as template", () => setView({ kind: "list" }))}
+        {errorLine}
+        <form
+          className="flex flex-col gap-3 p-4"
+          onSubmit={(event) => {
+            event.preventDefault();
+            void saveDraft(draft);
+          }}
+        >
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(event) => updateDraft({ name: event.target.value })}
+            placeholder="Name, e.g. Product launch email"
+            maxLength={120}
+            className={inputClass}
+            required
+          />
+          <textarea
+            value={draft.body}
+            onChange={(event) => updateDraft({ body: event.target.value })}
+            placeholder="Write a launch email for {{product}} aimed at {{audience}}..."
+            rows={4}
+            maxLength={8000}
+            className={inputClass}
+            required
+          />
+          <p className="text-xs text-brand-muted">
+            Wrap variables in double braces, like {"{{product}}"}; they become fields to fill in before composing.
+          </p>
+          {draft.variables.map((variable) => (
+            <div key={variable.name} className="flex flex-col gap-1.5 rounded-lg border border-brand-stroke/40 p-2">
+              <span className="text-xs font-semibold text-brand-blue">{`{{${variable.name}}}`}</span>
+              <input
+                type="text"
+                value={variable.label ?? ""}
+                onChange={(event) => updateDraftVariable(variable.name, { label: event.target.value || null })}
+                placeholder="Label"
+                maxLength={80}
+                className={inputClass}
+              />
+              <input
+                type="text"
+                value={variable.defaultValue ?? ""}
+                onChange={(event) => updateDraftVariable(variable.name, { defaultValue: event.target.value || null })}
+                placeholder="Default value"
+                maxLength={1000}
+                className={inputClass}
+              />
+              <label className="flex items-center gap-2 text-xs text-brand-muted">
+                <input
+                  type="checkbox"
+                  checked={variable.multiline}
+                  onChange={(event) => updateDraftVariable(variable.name, { multiline: event.target.checked })}
+                />
+                Long answer
+              </label>
+            </div>
+          ))}
+          <input
+            type="text"
+            value={draft.description}
+            onChange={(event) => updateDraft({ description: event.target.value })}
+            placeholder="Description (optional)"
+            maxLength={300}
+            className={inputClass}
+          />
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={draft.folder}
+              onChange={(event) => updateDraft({ folder: event.target.value })}
+              placeholder="Folder"
+              maxLength={80}
+              list="prompt-template-folders"
+              className={inputClass}
+            />
+            <datalist id="prompt-template-folders">
+              {folderNames.map((folder) => (
+                <option key={folder} value={folder} />
+              ))}
+            </datalist>
+            <input
+              type="text"
+              value={draft.tags}
+              onChange={(event) => updateDraft({ tags: event.target.value })}
+              placeholder="Tags, comma separated"
+              className={inputClass}
+            />
+          </div>
+          <div className="flex flex-wrap items-center gap-1.5">
+            {draft.settings && (
+              <AttachmentChip label="Settings" value={describeSettings(draft.settings)} onRemove={() => updateDraft({ settings: null })} />
+            )}
+            {draft.style && <AttachmentChip label="Style" value={draft.style.name} onRemove={() => updateDraft({ style: null })} />}
+            {draft.persona && (
+              <AttachmentChip label="Persona" value={draft.persona.name} onRemove={() => updateDraft({ persona: null })} />
+            )}
+            {canUseCurrent.settings && (
+              <button type="button" onClick={() => updateDraft({ settings: context.settings })} className="text-xs text-brand-blue hover:underline">
+                Use current settings
+              </button>
+            )}
+            {canUseCurrent.style && (
+              <button type="button" onClick={() => updateDraft({ style: context.style })} className="text-xs text-brand-blue hover:underline">
+                Use current style
+              </button>
+            )}
+            {canUseCurrent.persona && (
+              <button type="button" onClick={() => updateDraft({ persona: context.persona })} className="text-xs text-brand-blue hover:underline">
+                Use current persona
+              </button>
+            )}
+          </div>
+          <button
+            type="submit"
+            disabled={busy || !draft.name.trim() || draft.body.trim().length < 10}
+            className={cn(
+              "rounded-full px-4 py-2 text-sm font-semibold transition",
+              busy || !draft.name.trim() || draft.body.trim().length < 10
+                ? "bg-[#111111] text-white/60"
+                : "bg-white text-black hover:bg-gray-100"
+            )}
+          >
+            {busy ? "Saving..." : "Save template"}
+          </button>
+        </form>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 p-4 border-b border-brand-stroke/40">
+        <span className="material-symbols-outlined text-lg text-brand-muted">description</span>
+        <h3 className="flex-1 text-xs font-semibold text-brand-muted uppercase tracking-wider">Templates</h3>
+        <button
+          type="button"
+          onClick={() => {
+            setActionError(null);
+            setView({ kind: "edit", draft: draftFromContext(context) });
+          }}
+          className="text-xs font-semibold text-brand-blue transition hover:text-white"
+        >
+          {context.prompt.trim() ? "Save prompt as template" : "New template"}
+        </button>
+      </div>
+      {errorLine}
+      {templates.length > 0 && (
+        <div className="flex flex-col gap-2 px-4 pt-3">
+          <input
+            type="search"
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+            placeholder="Search templates"
+            className={inputClass}
+          />
+          {allTags.length > 0 && (
+            <div className="flex flex-wrap gap-1.5">
+              {allTags.map((tag) => (
+                <button
+                  key={tag}
+                  type="button"
+                  onClick={() => setActiveTag((prev) => (prev === tag ? null : tag))}
+                  className={cn(
+                    "rounded-full border px-2 py-0.5 text-xs transition",
+                    activeTag === tag
+                      ? "border-brand-blue text-brand-blue"
+                      : "border-brand-stroke/60 text-brand-muted hover:text-white"
+                  )}
+                >
+                  #{tag}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+      {!loaded ? (
+        <div className="p-4 text-sm text-brand-muted text-center">Loading templates...</div>
+      ) : loaded.error ? (
+        <div className="p-4 text-sm text-red-400 text-center">{loaded.error}</div>
+      ) : templates.length === 0 ? (
+        <div className="p-4 text-sm text-brand-muted text-center">
+          No templates yet. Save a prompt you reuse, with {"{{variables}}"} for the parts that change.
+        </div>
+      ) : groups.length === 0 ? (
+        <div className="p-4 text-sm text-brand-muted text-center">No templates match.</div>
+      ) : (
+        <div className="p-2">
+          {groups.map(([folder, items]) => (
+            <div key={folder || "unfiled"}>
+              {(folder || groups.length > 1) && (
+                <p className="flex items-center gap-1.5 px-3 pb-1 pt-2 text-[10px] font-semibold uppercase tracking-wider text-brand-muted">
+                  <span className="material-symbols-outlined text-sm leading-none">folder</span>
+                  {folder || "No folder"}
+                </p>
+              )}
+              {items.map((template) => (
+                <div key={template.id} className="group flex items-start gap-1 rounded-lg transition hover:bg-white/5">
+                  <button
+                    type="button"
+                    onClick={() => openTemplate(template)}
+                    className="min-w-0 flex-1 px-3 py-2.5 text-left text-sm text-brand-text hover:text-white"
+                  >
+                    <p className="flex items-center gap-1.5 truncate font-semibold">
+                      <span className="truncate">{template.name}</span>
+                      {template.shared && (
+                        <span className="material-symbols-outlined text-sm leading-none text-brand-muted" title="Shared with the workspace">
+                          group
+                        </span>
+                      )}
+                    </p>
+                    <p className="line-clamp-2 break-words text-xs text-brand-muted">{template.description || template.body}</p>
+                  </button>
+                  {template.canEdit && (
+                    <div className="flex shrink-0 items-center gap-1 px-2 py-2.5 opacity-0 transition group-hover:opacity-100">
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setActionError(null);
+                          setView({ kind: "edit", draft: draftFromTemplate(template) });
+                        }}
+                        aria-label={`Edit ${template.name}`}
+                        className="material-symbols-outlined text-base text-brand-muted hover:text-white"
+                      >
+                        edit
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => void deleteTemplate(template)}
+                        aria-label={`Delete ${template.name}`}
+                        className="material-symbols-outlined text-base text-brand-muted hover:text-red-400"
+                      >
+                        delete
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
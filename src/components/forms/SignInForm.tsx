@@ -9,6 +9,9 @@ import { cn } from "@/lib/utils";
 export default function SignInForm() {
   const params = useSearchParams();
   const registered = params?.get("registered");
+  // Only same-site paths, so the parameter cannot bounce a fresh session to another origin
+  const requestedCallback = params?.get("callbackUrl") ?? "";
+  const callbackUrl = requestedCallback.startsWith("/") && !requestedCallback.startsWith("//") ? requestedCallback : "/";
   const [pending, setPending] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -23,12 +26,12 @@ export default function SignInForm() {
       redirect: false,
       email,
       password,
-      callbackUrl: "/"
+      callbackUrl
     });
     if (result?.error) {
       setError("Unable to sign in with those credentials.");
     } else if (result?.ok !== false) {
-      window.location.href = "/";
+      window.location.href = callbackUrl;
     }
     setPending(false);
   }
@@ -68,7 +71,7 @@ export default function SignInForm() {
       </form>
       <button
         className="flex w-full items-center justify-center rounded-full border border-brand-stroke/70 px-4 py-2 text-sm font-semibold text-brand-text transition hover:border-brand-blue hover:text-brand-blue"
-        onClick={() => signIn("google", { callbackUrl: "/" })}
+        onClick={() => signIn("google", { callbackUrl })}
         type="button"
       >
         Continue with Google
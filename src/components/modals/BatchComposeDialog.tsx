@@ -0,0 +1,566 @@
+"use client";
+
+import { Dialog, Transition } from "@headlessui/react";
+import { Fragment, useCallback, useEffect, useRef, useState } from "react";
+import { cn, generateDownloadFilename, readApiErrorMessage } from "@/lib/utils";
+import { isAbortError, readEventStream } from "@/lib/sse";
+import {
+  DEFAULT_BATCH_CONCURRENCY,
+  MAX_BATCH_COLUMNS,
+  MAX_BATCH_CONCURRENCY,
+  MAX_BATCH_ROWS,
+  batchResultsCsv,
+  parseCsv,
+  renderTemplate,
+  unknownTemplateVariables,
+  type BatchRowResult,
+  type ParsedCsv
+} from "@/lib/batch";
+import { isTerminalJobStatus, type BatchJobProgress, type JobSummary } from "@/lib/jobs/types";
+import type { ComposerSettingsInput } from "@/lib/validators";
+
+type BatchComposeDialogProps = {
+  open: boolean;
+  onClose: () => void;
+  /** The current brief, persona and style, applied to every row. */
+  settings: ComposerSettingsInput;
+  personaId?: string | null;
+  personaSummary?: string | null;
+  styleGuide?: { name: string; description: string } | null;
+  repairRules?: boolean;
+  /** Each saved document as it lands, in the shape `/api/documents` returns. */
+  onDocumentCreated: (document: any) => void;
+  onFinished: (folder: { id: string; name: string }, summary: { completed: number; failed: number }) => void;
+};
+
+type BatchRun = {
+  /** The background job generating the rows; null until it is queued. */
+  jobId: string | null;
+  status: "running" | "finished" | "stopped" | "error";
+  folder: { id: string; name: string } | null;
+  results: BatchRowResult[];
+  error: string | null;
+};
+
+const STATUS_ICONS: Record<BatchRowResult["status"], string> = {
+  queued: "schedule",
+  running: "progress_activity",
+  done: "check_circle",
+  failed: "error",
+  skipped: "block"
+};
+
+function emptyResult(): BatchRowResult {
+  return { status: "queued", attempts: 0, documentId: null, title: null, content: null, error: null };
+}
+
+function runStatus(job: JobSummary): BatchRun["status"] {
+  if (job.status === "succeeded") return "finished";
+  if (job.status === "cancelled") return "stopped";
+  if (job.status === "failed") return "error";
+  return "running";
+}
+
+export default function BatchComposeDialog({
+  open,
+  onClose,
+  settings,
+  personaId,
+  personaSummary,
+  styleGuide,
+  repairRules = false,
+  onDocumentCreated,
+  onFinished
+}: BatchComposeDialogProps) {
+  const [csv, setCsv] = useState<(ParsedCsv & { fileName: string }) | null>(null);
+  const [csvError, setCsvError] = useState<string | null>(null);
+  const [template, setTemplate] = useState("");
+  const [titleTemplate, setTitleTemplate] = useState("");
+  const [folderName, setFolderName] = useState("");
+  const [concurrency, setConcurrency] = useState(DEFAULT_BATCH_CONCURRENCY);
+  const [run, setRun] = useState<BatchRun | null>(null);
+  const [stopping, setStopping] = useState(false);
+  const templateRef = useRef<HTMLTextAreaElement>(null);
+  const followRef = useRef<AbortController | null>(null);
+  const loadedDocumentsRef = useRef<Set<string>>(new Set());
+  const checkedActiveRef = useRef(false);
+
+  const columns = csv?.columns ?? [];
+  const unknownVariables = csv ? unknownTemplateVariables(`${template}\n${titleTemplate}`, columns) : [];
+  const preview = csv?.rows[0] ? renderTemplate(template, csv.rows[0], columns) : "";
+  const canStart = Boolean(csv?.rows.length) && template.trim().length >= 10 && Boolean(folderName.trim()) && !unknownVariables.length;
+  const settled = run ? run.results.filter((result) => result.status !== "queued" && result.status !== "running").length : 0;
+
+  // The batch runs as a background job: closing only hides its progress, and reopening shows it again
+  const handleClose = () => {
+    if (run && run.status !== "running") {
+      setRun(null);
+    }
+    onClose();
+  };
+
+  useEffect(() => () => followRef.current?.abort(), []);
+
+  // Each saved row is loaded once, for the workspace list and the Output column of the results CSV
+  const loadDocument = useCallback(
+    async (jobId: string, index: number, documentId: string) => {
+      try {
+        const response = await fetch(`/api/documents/${documentId}`);
+        if (!response.ok) return;
+        const document = await response.json();
+        setRun((prev) => {
+          if (!prev || prev.jobId !== jobId) return prev;
+          const results = prev.results.slice();
+          results[index] = { ...results[index], content: document.content ?? null };
+          return { ...prev, results };
+        });
+        onDocumentCreated(document);
+      } catch (error) {
+        console.error("batch document load failed:", error);
+      }
+    },
+    [onDocumentCreated]
+  );
+
+  const applyJob = useCallback(
+    (job: JobSummary) => {
+      const progress = job.progress as BatchJobProgress | null;
+      setRun((prev) => {
+        if (!prev || prev.jobId !== job.id) return prev;
+        const results = prev.results.map((result, index) => {
+          const row = progress?.rows?.[index];
+          return row ? { ...result, ...row } : result;
+        });
+        return {
+          ...prev,
+          status: runStatus(job),
+          folder: progress?.folder ?? prev.folder,
+          results,
+          error: job.status === "failed" ? job.error ?? "Batch generation failed" : null
+        };
+      });
+      progress?.rows?.forEach((row, index) => {
+        if (row.status !== "done" || !row.documentId || loadedDocumentsRef.current.has(row.documentId)) return;
+        loadedDocumentsRef.current.add(row.documentId);
+        void loadDocument(job.id, index, row.documentId);
+      });
+    },
+    [loadDocument]
+  );
+
+  const followJob = useCallback(
+    async (jobId: string) => {
+      followRef.current?.abort();
+      const controller = new AbortController();
+      followRef.current = controller;
+      let finalJob = null as JobSummary | null;
+      try {
+        const response = await fetch(`/api/jobs/${jobId}/events`, { signal: controller.signal });
+        if (!response.ok) {
+          const payload = await response.json().catch(() => null);
+          setRun((prev) =>
+            prev?.jobId === jobId ? { ...prev, status: "error", error: readApiErrorMessage(payload, "Unable to follow the batch.") } : prev
+          );
+          return;
+        }
+        await readEventStream(response, (event) => {
+          if (event.type === "job" && event.job) {
+            applyJob(event.job);
+            if (isTerminalJobStatus(event.job.status)) finalJob = event.job;
+          } else if (event.type === "error") {
+            setRun((prev) => (prev?.jobId === jobId ? { ...prev, error: event.error ?? "Unable to follow the batch." } : prev));
+          }
+        });
+      } catch (error) {
+        if (isAbortError(error)) return;
+        console.error("batch progress stream failed:", error);
+        setRun((prev) =>
+          prev?.jobId === jobId ? { ...prev, error: "Lost track of the batch. It keeps running; reopen this dialog to check on it." } : prev
+        );
+      } finally {
+        if (followRef.current === controller) followRef.current = null;
+      }
+      const progress = finalJob?.progress as BatchJobProgress | null | undefined;
+      if (progress?.folder) {
+        onFinished(progress.folder, { completed: progress.completed, failed: progress.failed });
+      }
+    },
+    [applyJob, onFinished]
+  );
+
+  // A batch started before the page was reloaded is picked up again the first time the dialog opens
+  useEffect(() => {
+    if (!open || checkedActiveRef.current) return;
+    checkedActiveRef.current = true;
+
+    fetch("/api/jobs?kind=batch&active=true&limit=1")
+      .then((response) => (response.ok ? response.json() : null))
+      .then(async (payload) => {
+        const active: JobSummary | undefined = payload?.jobs?.[0];
+        if (!active) return;
+        const response = await fetch(`/api/jobs/${active.id}`);
+        const detail = response.ok ? await response.json() : null;
+        const input = detail?.input;
+        if (!input || !Array.isArray(input.rows) || !Array.isArray(input.columns)) return;
+        setCsv({ columns: input.columns, rows: input.rows, fileName: input.folderName ?? "" });
+        setTemplate(input.template ?? "");
+        setTitleTemplate(input.titleTemplate ?? "");
+        setFolderName(input.folderName ?? "");
+        loadedDocumentsRef.current = new Set();
+        setRun({ jobId: active.id, status: "running", folder: null, results: input.rows.map(emptyResult), error: null });
+        void followJob(active.id);
+      })
+      .catch((error) => console.error("batch job lookup failed:", error));
+  }, [open, followJob]);
+
+  async function handleFile(file: File) {
+    setCsvError(null);
+    try {
+      const parsed = parseCsv(await file.text());
+      if (!parsed.columns.length || !parsed.rows.length) {
+        throw new Error("That file has no rows under its header.");
+      }
+      if (parsed.rows.length > MAX_BATCH_ROWS) {
+        throw new Error(`Batches are limited to ${MAX_BATCH_ROWS} rows; this file has ${parsed.rows.length}.`);
+      }
+      if (parsed.columns.length > MAX_BATCH_COLUMNS) {
+        throw new Error(`Batches are limited to ${MAX_BATCH_COLUMNS} columns.`);
+      }
+      const fileName = file.name.replace(/\.[^.]+$/, "");
+      setCsv({ ...parsed, fileName });
+      if (!folderName.trim()) {
+        setFolderName(fileName.slice(0, 120));
+      }
+    } catch (error) {
+      setCsv(null);
+      setCsvError(error instanceof Error ? error.message : "That file could not be read.");
+    }
+  }
+
+  function insertVariable(column: string) {
+    const token = `{{${column}}}`;
+    const textarea = templateRef.current;
+    const start = textarea?.selectionStart ?? template.length;
+    const end = textarea?.selectionEnd ?? template.length;
+    setTemplate(`${template.slice(0, start)}${token}${template.slice(end)}`);
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + token.length, start + token.length);
+    });
+  }
+
+  async function handleStart() {
+    if (!csv || !canStart) return;
+    setRun({ jobId: null, status: "running", folder: null, results: csv.rows.map(emptyResult), error: null });
+
+    try {
+      const response = await fetch("/api/jobs", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          kind: "batch",
+          input: {
+            folderName: folderName.trim(),
+            template,
+            titleTemplate: titleTemplate.trim() || null,
+            columns: csv.columns,
+            rows: csv.rows,
+            settings,
+            personaSummary: personaSummary ?? undefined,
+            personaId: personaId ?? undefined,
+            styleGuide: styleGuide ?? undefined,
+            repairRules,
+            concurrency
+          }
+        })
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload?.job) {
+        setRun((prev) => prev && { ...prev, status: "error", error: readApiErrorMessage(payload, "Unable to start the batch.") });
+        return;
+      }
+      loadedDocumentsRef.current = new Set();
+      setRun((prev) => prev && { ...prev, jobId: payload.job.id });
+      void followJob(payload.job.id);
+    } catch (error) {
+      console.error("batch compose failed:", error);
+      setRun((prev) => prev && { ...prev, status: "error", error: "Unable to start the batch." });
+    }
+  }
+
+  // Rows already saved stay in the folder; the job stops within a few seconds
+  async function handleStop() {
+    if (!run?.jobId) return;
+    setStopping(true);
+    try {
+      const response = await fetch(`/api/jobs/${run.jobId}/cancel`, { method: "POST" });
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        setRun((prev) => prev && { ...prev, error: readApiErrorMessage(payload, "Unable to stop the batch.") });
+      }
+    } catch (error) {
+      console.error("batch stop failed:", error);
+    } finally {
+      setStopping(false);
+    }
+  }
+
+  function handleDownloadResults() {
+    if (!csv || !run) return;
+    const blob = new Blob([batchResultsCsv(csv.columns, csv.rows, run.results)], { type: "text/csv;charset=utf-8" });
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = generateDownloadFilename(`${run.folder?.name ?? folderName} results`, "", "csv");
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    window.URL.revokeObjectURL(url);
+  }
+
+  return (
+    <Transition show={open} as={Fragment}>
+      <Dialog onClose={handleClose} className="fixed inset-0 z-[1300]">
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-200"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-150"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black/60" aria-hidden="true" />
+        </Transition.Child>
+        <div className="fixed inset-0 flex items-center justify-center p-4">
+          <Transition.Child
+            as={Fragment}
+            enter="ease-out duration-200"
+            enterFrom="opacity-0 scale-95"
+            enterTo="opacity-100 scale-100"
+            leave="ease-in duration-150"
+            leaveFrom="opacity-100 scale-100"
+            leaveTo="opacity-0 scale-95"
+          >
+            <Dialog.Panel className="relative flex max-h-[85vh] w-full max-w-3xl flex-col rounded-2xl border border-brand-stroke/60 bg-brand-panel p-6 shadow-[0_30px_80px_rgba(0,0,0,0.6)]">
+              <div className="mb-1 flex items-center justify-between">
+                <Dialog.Title className="text-lg font-semibold text-white">Batch from CSV</Dialog.Title>
+                <button
+                  onClick={handleClose}
+                  className="rounded-full p-1 text-brand-muted transition hover:bg-brand-background/50 hover:text-white"
+                  aria-label="Close"
+                >
+                  <span className="material-symbols-outlined text-xl leading-none">close</span>
+                </button>
+              </div>
+              <p className="mb-4 text-sm text-brand-muted">
+                One document per row, written with your current brief, persona and style, saved into a new folder.
+              </p>
+
+              {run ? (
+                <>
+                  <div className="mb-3">
+                    <div className="mb-1 flex items-center justify-between text-xs text-brand-muted">
+                      <span>
+                        {run.status === "running"
+                          ? `Generating ${settled} of ${run.results.length}…`
+                          : run.status === "stopped"
+                            ? `Stopped after ${settled} of ${run.results.length}.`
+                            : `${run.results.filter((result) => result.status === "done").length} of ${run.results.length} generated.`}
+                      </span>
+                      {run.folder && <span>Saving to {run.folder.name}</span>}
+                    </div>
+                    <div className="h-1.5 overflow-hidden rounded-full bg-white/10">
+                      <div
+                        className="h-full rounded-full bg-brand-blue transition-all"
+                        style={{ width: `${run.results.length ? (settled / run.results.length) * 100 : 0}%` }}
+                      />
+                    </div>
+                  </div>
+                  {run.error && <p className="mb-3 text-sm text-red-400">{run.error}</p>}
+                  {run.status === "running" && (
+                    <p className="mb-3 text-xs text-brand-muted">
+                      The batch runs in the background, so you can close this dialog or reload the page.
+                    </p>
+                  )}
+                  <ul className="min-h-0 flex-1 space-y-1 overflow-y-auto">
+                    {run.results.map((result, index) => (
+                      <li key={index} className="flex items-start gap-3 rounded-xl px-3 py-2 text-sm text-brand-text">
+                        <span
+                          className={cn(
+                            "material-symbols-outlined mt-0.5 text-base leading-none",
+                            result.status === "done"
+                              ? "text-emerald-400"
+                              : result.status === "failed"
+                                ? "text-red-400"
+                                : result.status === "running"
+                                  ? "animate-spin text-brand-blue"
+                                  : "text-white/40"
+                          )}
+                        >
+                          {STATUS_ICONS[result.status]}
+                        </span>
+                        <span className="min-w-0 flex-1">
+                          <span className="block truncate text-white">
+                            {result.title || (csv ? csv.rows[index][csv.columns[0]] : "") || `Row ${index + 1}`}
+                          </span>
+                          {result.error ? <span className="block text-xs text-red-400">{result.error}</span> : null}
+                        </span>
+                        {result.attempts > 1 ? (
+                          <span className="flex-shrink-0 text-xs text-white/50">Attempt {result.attempts}</span>
+                        ) : null}
+                      </li>
+                    ))}
+                  </ul>
+                  <div className="mt-4 flex justify-end gap-3">
+                    {run.status === "running" ? (
+                      <button
+                        type="button"
+                        onClick={() => void handleStop()}
+                        disabled={!run.jobId || stopping}
+                        className="rounded-full border border-brand-stroke/70 px-4 py-2 text-sm font-semibold text-brand-text transition hover:border-red-400 hover:text-red-400 disabled:cursor-not-allowed disabled:opacity-60"
+                      >
+                        {stopping ? "Stopping…" : "Stop"}
+                      </button>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => setRun(null)}
+                        className="rounded-full border border-brand-stroke/70 px-4 py-2 text-sm font-semibold text-brand-text transition hover:border-brand-blue hover:text-brand-blue"
+                      >
+                        New batch
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={handleDownloadResults}
+                      disabled={!settled}
+                      className="rounded-full bg-brand-blue px-4 py-2 text-sm font-semibold text-white transition hover:bg-brand-blue/80 disabled:cursor-not-allowed disabled:opacity-60"
+                    >
+                      Download results CSV
+                    </button>
+                  </div>
+                </>
+              ) : (
+                <>
+                  <div className="min-h-0 flex-1 space-y-4 overflow-y-auto pr-1">
+                    <div>
+                      <label className="text-sm text-brand-muted">Spreadsheet (CSV with a header row)</label>
+                      <input
+                        type="file"
+                        accept=".csv,text/csv"
+                        onChange={(event) => {
+                          const file = event.target.files?.[0];
+                          event.target.value = "";
+                          if (file) void handleFile(file);
+                        }}
+                        className="mt-2 block w-full text-sm text-brand-text file:mr-3 file:rounded-full file:border-0 file:bg-white/10 file:px-3 file:py-1.5 file:text-sm file:text-white"
+                      />
+                      {csvError && <p className="mt-2 text-sm text-red-400">{csvError}</p>}
+                      {csv && (
+                        <div className="mt-2">
+                          <p className="text-xs text-brand-muted">
+                            {csv.rows.length} row{csv.rows.length === 1 ? "" : "s"} in {csv.fileName}. Click a column to insert it.
+                          </p>
+                          <div className="mt-2 flex flex-wrap gap-1.5">
+                            {csv.columns.map((column) => (
+                              <button
+                                key={column}
+                                type="button"
+                                onClick={() => insertVariable(column)}
+                                className="rounded-full border border-white/20 bg-white/5 px-2.5 py-0.5 text-xs text-brand-text transition hover:border-brand-blue hover:text-white"
+                              >
+                                {`{{${column}}}`}
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                    <div>
+                      <label className="text-sm text-brand-muted">Prompt template</label>
+                      <textarea
+                        ref={templateRef}
+                        value={template}
+                        onChange={(event) => setTemplate(event.target.value.slice(0, 8000))}
+                        placeholder="Write a welcome email to {{Name}} at {{Company}} about…"
+                        rows={6}
+                        className="mt-2 w-full rounded-lg border border-brand-stroke/70 bg-brand-ink px-3 py-2 text-sm text-brand-text placeholder:text-brand-muted placeholder:opacity-40 focus:border-brand-blue focus:outline-none"
+                      />
+                      {unknownVariables.length > 0 && (
+                        <p className="mt-1 text-xs text-red-400">
+                          No column named {unknownVariables.map((variable) => `{{${variable}}}`).join(", ")}.
+                        </p>
+                      )}
+                    </div>
+                    <div className="grid gap-3 sm:grid-cols-[1fr_1fr_auto]">
+                      <div>
+                        <label className="text-sm text-brand-muted">Document title (optional)</label>
+                        <input
+                          type="text"
+                          value={titleTemplate}
+                          onChange={(event) => setTitleTemplate(event.target.value.slice(0, 200))}
+                          placeholder="Welcome – {{Name}}"
+                          className="mt-2 w-full rounded-lg border border-brand-stroke/70 bg-brand-ink px-3 py-2 text-sm text-brand-text placeholder:text-brand-muted placeholder:opacity-40 focus:border-brand-blue focus:outline-none"
+                        />
+                      </div>
+                      <div>
+                        <label className="text-sm text-brand-muted">New folder</label>
+                        <input
+                          type="text"
+                          value={folderName}
+                          onChange={(event) => setFolderName(event.target.value.slice(0, 120))}
+                          placeholder="Folder name"
+                          className="mt-2 w-full rounded-lg border border-brand-stroke/70 bg-brand-ink px-3 py-2 text-sm text-brand-text placeholder:text-brand-muted placeholder:opacity-40 focus:border-brand-blue focus:outline-none"
+                        />
+                      </div>
+                      <div>
+                        <label className="text-sm text-brand-muted">At a time</label>
+                        <select
+                          value={concurrency}
+                          onChange={(event) => setConcurrency(Number(event.target.value))}
+                          className="mt-2 w-full rounded-lg border border-brand-stroke/70 bg-brand-ink px-3 py-2 text-sm text-brand-text focus:border-brand-blue focus:outline-none"
+                        >
+                          {Array.from({ length: MAX_BATCH_CONCURRENCY }, (_, index) => index + 1).map((value) => (
+                            <option key={value} value={value}>
+                              {value}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    </div>
+                    {preview && template.trim() && (
+                      <div>
+                        <p className="text-xs font-semibold uppercase tracking-wider text-brand-muted">First row</p>
+                        <p className="mt-1 whitespace-pre-wrap rounded-lg border border-brand-stroke/40 bg-[#0A0A0A] px-3 py-2 text-sm text-brand-text">
+                          {preview}
+                        </p>
+                      </div>
+                    )}
+                  </div>
+                  <div className="mt-4 flex justify-end gap-3">
+                    <button
+                      type="button"
+                      onClick={handleClose}
+                      className="rounded-full border border-brand-stroke/70 px-4 py-2 text-sm font-semibold text-brand-text transition hover:border-brand-blue hover:text-brand-blue"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => void handleStart()}
+                      disabled={!canStart}
+                      className="rounded-full bg-brand-blue px-4 py-2 text-sm font-semibold text-white transition hover:bg-brand-blue/80 disabled:cursor-not-allowed disabled:opacity-60"
+                    >
+                      {csv ? `Generate ${csv.rows.length} document${csv.rows.length === 1 ? "" : "s"}` : "Generate"}
+                    </button>
+                  </div>
+                </>
+              )}
+            </Dialog.Panel>
+          </Transition.Child>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+}
@@ -0,0 +1,235 @@
+"use client";
+
+import { Dialog, Transition } from "@headlessui/react";
+import { Fragment, useEffect, useState } from "react";
+import { validatePlaceholderValue, type DocumentPlaceholders } from "@/lib/placeholders";
+import type { FolderPlaceholderSummary } from "@/types/writer";
+
+type FolderPlaceholdersDialogProps = {
+  open: boolean;
+  onClose: () => void;
+  folderId: string | null;
+  folderName?: string | null;
+  /** The active persona, whose facts can fill whatever the values below leave empty. */
+  persona?: { id: string; name: string } | null;
+  onFilled: (updated: Array<{ id: string; placeholders: DocumentPlaceholders }>, skipped: number) => void;
+};
+
+export default function FolderPlaceholdersDialog({
+  open,
+  onClose,
+  folderId,
+  folderName,
+  persona,
+  onFilled
+}: FolderPlaceholdersDialogProps) {
+  const [loaded, setLoaded] = useState<{
+    folderId: string;
+    placeholders: FolderPlaceholderSummary[];
+    documentCount: number;
+    error: string | null;
+  } | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [overwrite, setOverwrite] = useState(false);
+  const [usePersonaFacts, setUsePersonaFacts] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  // A summary belongs to the folder it was loaded for, so switching folders reads as loading
+  const current = loaded && loaded.folderId === folderId ? loaded : null;
+  const placeholders = current?.placeholders ?? [];
+  const status = open && folderId && !current ? "loading" : current?.error ? "error" : "idle";
+  const valueFor = (summary: FolderPlaceholderSummary) => values[summary.key] ?? summary.suggestedValue ?? "";
+  const hasInvalidValue = placeholders.some((summary) => validatePlaceholderValue(summary.type, valueFor(summary)));
+
+  // Forget the summary and edits on close so reopening reflects documents edited since
+  const handleClose = () => {
+    setLoaded(null);
+    setValues({});
+    setSaveError(null);
+    onClose();
+  };
+
+  useEffect(() => {
+    if (!open || !folderId) return;
+    let cancelled = false;
+
+    fetch(`/api/folders/${folderId}/placeholders`)
+      .then(async (response) => {
+        const payload = await response.json().catch(() => null);
+        if (!response.ok) {
+          throw new Error(typeof payload?.error === "string" ? payload.error : "Unable to load placeholders.");
+        }
+        return payload as { placeholders: FolderPlaceholderSummary[]; documentCount: number };
+      })
+      .then((payload) => {
+        if (!cancelled) setLoaded({ folderId, ...payload, error: null });
+      })
+      .catch((fetchError: Error) => {
+        if (!cancelled) setLoaded({ folderId, placeholders: [], documentCount: 0, error: fetchError.message });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, folderId]);
+
+  async function handleFill() {
+    if (!folderId) return;
+    setSaving(true);
+    setSaveError(null);
+    try {
+      const fillValues: Record<string, string> = {};
+      placeholders.forEach((summary) => {
+        const value = valueFor(summary).trim();
+        if (value) fillValues[summary.key] = value;
+      });
+      const response = await fetch(`/api/folders/${folderId}/placeholders`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          values: fillValues,
+          overwrite,
+          personaId: usePersonaFacts && persona ? persona.id : undefined
+        })
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(typeof payload?.error === "string" ? payload.error : "Unable to fill placeholders.");
+      }
+      onFilled(payload?.updated ?? [], payload?.skipped ?? 0);
+      handleClose();
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : "Unable to fill placeholders.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Transition show={open} as={Fragment}>
+      <Dialog onClose={handleClose} className="fixed inset-0 z-[1300]">
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-200"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-150"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black/60" aria-hidden="true" />
+        </Transition.Child>
+        <div className="fixed inset-0 flex items-center justify-center p-4">
+          <Transition.Child
+            as={Fragment}
+            enter="ease-out duration-200"
+            enterFrom="opacity-0 scale-95"
+            enterTo="opacity-100 scale-100"
+            leave="ease-in duration-150"
+            leaveFrom="opacity-100 scale-100"
+            leaveTo="opacity-0 scale-95"
+          >
+            <Dialog.Panel className="relative flex max-h-[80vh] w-full max-w-2xl flex-col rounded-2xl border border-brand-stroke/60 bg-brand-panel p-6 shadow-[0_30px_80px_rgba(0,0,0,0.6)]">
+              <div className="mb-1 flex items-center justify-between">
+                <Dialog.Title className="text-lg font-semibold text-white">Fill Placeholders</Dialog.Title>
+                <button
+                  onClick={handleClose}
+                  className="rounded-full p-1 text-brand-muted transition hover:bg-brand-background/50 hover:text-white"
+                  aria-label="Close"
+                >
+                  <span className="material-symbols-outlined text-xl leading-none">close</span>
+                </button>
+              </div>
+              <p className="mb-4 text-sm text-brand-muted">
+                {current
+                  ? `Placeholders across ${current.documentCount} document${current.documentCount === 1 ? "" : "s"} in ${folderName || "this folder"}.`
+                  : `Placeholders across the documents in ${folderName || "this folder"}.`}
+              </p>
+
+              {current?.error && <p className="mb-3 text-sm text-red-400">{current.error}</p>}
+
+              <div className="min-h-0 flex-1 space-y-2 overflow-y-auto">
+                {status === "loading" && <p className="px-3 py-2 text-sm text-brand-muted">Loading…</p>}
+                {status === "idle" && placeholders.length === 0 && (
+                  <p className="px-3 py-2 text-sm text-brand-muted">No document in this folder has placeholders.</p>
+                )}
+                {placeholders.map((summary) => {
+                  const value = valueFor(summary);
+                  const error = validatePlaceholderValue(summary.type, value);
+                  return (
+                    <div key={summary.key} className="flex flex-wrap items-start gap-2">
+                      <div className="w-48 shrink-0 pt-1">
+                        <p className="truncate text-sm text-white" title={`[${summary.label}]`}>
+                          [{summary.label}]
+                        </p>
+                        <p className="text-[11px] text-brand-muted">
+                          {summary.unresolvedCount
+                            ? `Empty in ${summary.unresolvedCount} of ${summary.documentCount}`
+                            : `Filled in all ${summary.documentCount}`}
+                        </p>
+                      </div>
+                      <div className="min-w-[12rem] flex-1">
+                        <input
+                          type={summary.type === "date" ? "date" : summary.type === "url" ? "url" : "text"}
+                          value={value}
+                          onChange={(event) => setValues((prev) => ({ ...prev, [summary.key]: event.target.value }))}
+                          placeholder={summary.type === "price" ? "$49" : summary.type === "url" ? "https://" : summary.label}
+                          className={
+                            error
+                              ? "w-full rounded-lg border border-red-400/70 bg-brand-ink px-3 py-2 text-sm text-brand-text focus:outline-none"
+                              : "w-full rounded-lg border border-brand-stroke/70 bg-brand-ink px-3 py-2 text-sm text-brand-text placeholder:text-brand-muted placeholder:opacity-40 focus:border-brand-blue focus:outline-none"
+                          }
+                        />
+                        {error ? <p className="mt-1 text-xs text-red-400">{error}</p> : null}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+
+              {placeholders.length > 0 && (
+                <div className="mt-4 space-y-2 border-t border-brand-stroke/40 pt-4 text-sm text-brand-text">
+                  <label className="flex items-center gap-2">
+                    <input type="checkbox" checked={overwrite} onChange={(event) => setOverwrite(event.target.checked)} />
+                    Replace values documents already have
+                  </label>
+                  {persona && (
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={usePersonaFacts}
+                        onChange={(event) => setUsePersonaFacts(event.target.checked)}
+                      />
+                      Fill anything left empty from {persona.name}&apos;s facts
+                    </label>
+                  )}
+                </div>
+              )}
+
+              {saveError && <p className="mt-3 text-sm text-red-400">{saveError}</p>}
+
+              <div className="mt-4 flex justify-end gap-3">
+                <button
+                  type="button"
+                  onClick={handleClose}
+                  className="rounded-full border border-brand-stroke/70 px-4 py-2 text-sm font-semibold text-brand-text transition hover:border-brand-blue hover:text-brand-blue"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={() => void handleFill()}
+                  disabled={saving || !placeholders.length || hasInvalidValue}
+                  className="rounded-full bg-brand-blue px-4 py-2 text-sm font-semibold text-white transition hover:bg-brand-blue/80 disabled:cursor-not-allowed disabled:opacity-60"
+                >
+                  {saving ? "Filling…" : "Fill documents"}
+                </button>
+              </div>
+            </Dialog.Panel>
+          </Transition.Child>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+}
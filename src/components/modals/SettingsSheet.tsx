@@ -5,6 +5,7 @@
 import { MinusSmallIcon } from "@heroicons/react/24/outline";
  import { ComposerSettingsInput, marketTiers } from "@/lib/validators";
  import { cn } from "@/lib/utils";
+import { CHANNEL_PRESETS, channelPreset, describeChannelStructure } from "@/lib/channel-presets";
  import { ErrorPopup, type ErrorDetails } from "@/components/shared/ErrorPopup";
  
 // Simplified type for styles passed to SettingsSheet
@@ -30,6 +31,9 @@ type SettingsSheetProps = {
   onApplyStyle?: (style: StyleDoc) => void;
   onClearStyle?: () => void;
   openPersonaModal?: boolean;
+  /** Auto-fix drafts the house-rule linter flags; the toggle only renders when `onRepairRulesChange` is set. */
+  repairRules?: boolean;
+  onRepairRulesChange?: (value: boolean) => void;
 };
  
 const marketLabels = {
@@ -66,7 +70,9 @@ export default function SettingsSheet({
   activeStyleId,
   onApplyStyle,
   onClearStyle,
-  openPersonaModal = false
+  openPersonaModal = false,
+  repairRules = false,
+  onRepairRulesChange
 }: SettingsSheetProps) {
   const [personaModalOpen, setPersonaModalOpen] = useState(false);
   const [personaInput, setPersonaInput] = useState("");
@@ -588,6 +594,10 @@ export default function SettingsSheet({
       });
       return;
     }
+    if (field === "channelPreset") {
+      onChange({ ...settings, channelPreset: channelPreset(value)?.id ?? null });
+      return;
+    }
     if (field === "characterLength" || field === "wordLength") {
        const parsed = value ? Number(value) : null;
        onChange({ ...settings, [field]: Number.isNaN(parsed) ? null : parsed });
@@ -603,7 +613,8 @@ export default function SettingsSheet({
       wordLength: null,
       gradeLevel: null,
       benchmark: null,
-      avoidWords: null
+      avoidWords: null,
+      channelPreset: null
     });
     
     // Also deselect persona if one is selected
@@ -612,6 +623,8 @@ export default function SettingsSheet({
     }
   }
 
+  const activeChannel = channelPreset(settings.channelPreset);
+
   const hasCustomAdjustments = Boolean(
     settings.marketTier ||
     settings.characterLength ||
@@ -619,6 +632,7 @@ export default function SettingsSheet({
     settings.gradeLevel ||
     settings.benchmark ||
     settings.avoidWords ||
+    settings.channelPreset ||
     hasPersona
   );
  
@@ -688,6 +702,44 @@ export default function SettingsSheet({
                  </button>
                </header>
               <div className="space-y-4">
+                <div className="space-y-2">
+                  <label className="text-sm text-brand-muted">Channel</label>
+                  <div className="flex flex-wrap gap-0.5">
+                    <button
+                      type="button"
+                      onClick={() => update("channelPreset", "")}
+                      className={cn(
+                        "rounded-full border px-3 py-1.5 text-xs font-semibold transition",
+                        !settings.channelPreset
+                          ? "border-white bg-white text-black"
+                          : "border-brand-stroke/70 bg-brand-ink text-brand-muted hover:border-brand-blue hover:text-white"
+                      )}
+                    >
+                      Free-form
+                    </button>
+                    {CHANNEL_PRESETS.map((preset) => (
+                      <button
+                        key={preset.id}
+                        type="button"
+                        onClick={() => update("channelPreset", preset.id)}
+                        title={describeChannelStructure(preset)}
+                        className={cn(
+                          "rounded-full border px-3 py-1.5 text-xs font-semibold transition",
+                          settings.channelPreset === preset.id
+                            ? "border-white bg-white text-black"
+                            : "border-brand-stroke/70 bg-brand-ink text-brand-muted hover:border-brand-blue hover:text-white"
+                        )}
+                      >
+                        {preset.label}
+                      </button>
+                    ))}
+                  </div>
+                  {activeChannel && (
+                    <p className="text-xs text-brand-muted">
+                      {describeChannelStructure(activeChannel)} characters. The preset&rsquo;s limits replace the counts below.
+                    </p>
+                  )}
+                </div>
                 <div className="grid gap-4 sm:grid-cols-2">
                 <Field
                   label="Character count"
@@ -865,6 +917,19 @@ export default function SettingsSheet({
                     className="flex-1 rounded-lg border border-brand-stroke/70 bg-brand-ink px-3 py-2 text-brand-text placeholder:text-brand-muted placeholder:opacity-30 focus:border-brand-blue focus:outline-none"
                   />
                 </div>
+                {onRepairRulesChange && (
+                  <div className="flex items-center gap-3">
+                    <label className="text-sm text-brand-muted whitespace-nowrap w-24">House rules</label>
+                    <label className="flex flex-1 cursor-pointer items-center gap-2 text-sm text-brand-text">
+                      <input
+                        type="checkbox"
+                        checked={repairRules}
+                        onChange={(e) => onRepairRulesChange(e.target.checked)}
+                      />
+                      <span>Auto-fix dashes, banned phrasing and avoid words</span>
+                    </label>
+                  </div>
+                )}
                 <div className="pt-2 border-t border-brand-stroke/60">
                   {styles.length > 0 ? (
                     <div className="flex items-center gap-3 mb-4">
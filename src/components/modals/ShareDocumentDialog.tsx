@@ -0,0 +1,231 @@
+"use client";
+
+import { Dialog, Transition } from "@headlessui/react";
+import { Fragment, useCallback, useEffect, useState } from "react";
+import { readApiErrorMessage } from "@/lib/utils";
+import type { DocumentCollaboratorSummary } from "@/types/writer";
+import type { DocumentAccess } from "@/lib/document-access";
+
+type ShareDocumentDialogProps = {
+  open: boolean;
+  onClose: () => void;
+  documentId: string | null;
+  onCollaboratorsChange?: (count: number) => void;
+};
+
+const roleLabels: Record<DocumentCollaboratorSummary["role"], string> = {
+  editor: "Can edit",
+  viewer: "Can view"
+};
+
+export default function ShareDocumentDialog({
+  open,
+  onClose,
+  documentId,
+  onCollaboratorsChange
+}: ShareDocumentDialogProps) {
+  const [collaborators, setCollaborators] = useState<DocumentCollaboratorSummary[]>([]);
+  const [access, setAccess] = useState<DocumentAccess | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<DocumentCollaboratorSummary["role"]>("editor");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || !documentId) return;
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    fetch(`/api/documents/${documentId}/collaborators`)
+      .then(async (response) => {
+        const payload = await response.json().catch(() => null);
+        if (!response.ok) {
+          throw new Error(readApiErrorMessage(payload, "Unable to load collaborators."));
+        }
+        return payload as { access: DocumentAccess; collaborators: DocumentCollaboratorSummary[] };
+      })
+      .then((payload) => {
+        if (cancelled) return;
+        setAccess(payload.access);
+        setCollaborators(payload.collaborators);
+      })
+      .catch((fetchError: Error) => {
+        if (!cancelled) setError(fetchError.message);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, documentId]);
+
+  const updateCollaborators = useCallback(
+    (next: DocumentCollaboratorSummary[]) => {
+      setCollaborators(next);
+      onCollaboratorsChange?.(next.length);
+    },
+    [onCollaboratorsChange]
+  );
+
+  const handleInvite = useCallback(
+    async (event: React.FormEvent) => {
+      event.preventDefault();
+      if (!documentId || !email.trim()) return;
+      setSubmitting(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/documents/${documentId}/collaborators`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ email: email.trim(), role })
+        });
+        const payload = await response.json().catch(() => null);
+        if (!response.ok) {
+          throw new Error(readApiErrorMessage(payload, "Unable to share document."));
+        }
+        const added = payload as DocumentCollaboratorSummary;
+        updateCollaborators([...collaborators.filter((entry) => entry.userId !== added.userId), added]);
+        setEmail("");
+      } catch (inviteError) {
+        setError(inviteError instanceof Error ? inviteError.message : "Unable to share document.");
+      } finally {
+        setSubmitting(false);
+      }
+    },
+    [documentId, email, role, collaborators, updateCollaborators]
+  );
+
+  const handleRemove = useCallback(
+    async (userId: string) => {
+      if (!documentId) return;
+      setError(null);
+      try {
+        const response = await fetch(`/api/documents/${documentId}/collaborators/${userId}`, {
+          method: "DELETE"
+        });
+        const payload = await response.json().catch(() => null);
+        if (!response.ok) {
+          throw new Error(readApiErrorMessage(payload, "Unable to remove collaborator."));
+        }
+        updateCollaborators(collaborators.filter((entry) => entry.userId !== userId));
+      } catch (removeError) {
+        setError(removeError instanceof Error ? removeError.message : "Unable to remove collaborator.");
+      }
+    },
+    [documentId, collaborators, updateCollaborators]
+  );
+
+  const isOwner = access === "owner";
+
+  return (
+    <Transition show={open} as={Fragment}>
+      <Dialog onClose={onClose} className="fixed inset-0 z-[1300]">
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-200"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-150"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black/60" aria-hidden="true" />
+        </Transition.Child>
+        <div className="fixed inset-0 flex items-center justify-center p-4">
+          <Transition.Child
+            as={Fragment}
+            enter="ease-out duration-200"
+            enterFrom="opacity-0 scale-95"
+            enterTo="opacity-100 scale-100"
+            leave="ease-in duration-150"
+            leaveFrom="opacity-100 scale-100"
+            leaveTo="opacity-0 scale-95"
+          >
+            <Dialog.Panel className="relative w-full max-w-lg rounded-2xl border border-brand-stroke/60 bg-brand-panel p-6 shadow-[0_30px_80px_rgba(0,0,0,0.6)]">
+              <div className="mb-4 flex items-center justify-between">
+                <Dialog.Title className="text-lg font-semibold text-white">Share Document</Dialog.Title>
+                <button
+                  onClick={onClose}
+                  className="rounded-full p-1 text-brand-muted transition hover:bg-brand-background/50 hover:text-white"
+                  aria-label="Close"
+                >
+                  <span className="material-symbols-outlined text-xl leading-none">close</span>
+                </button>
+              </div>
+
+              {isOwner && (
+                <form onSubmit={(event) => void handleInvite(event)} className="mb-4 flex gap-2">
+                  <input
+                    type="email"
+                    value={email}
+                    onChange={(event) => setEmail(event.target.value)}
+                    placeholder="teammate@example.com"
+                    className="min-w-0 flex-1 rounded-full border border-brand-stroke/70 bg-brand-background/60 px-4 py-2 text-sm text-white placeholder:text-brand-muted focus:border-brand-blue focus:outline-none"
+                  />
+                  <select
+                    value={role}
+                    onChange={(event) => setRole(event.target.value as DocumentCollaboratorSummary["role"])}
+                    className="rounded-full border border-brand-stroke/70 bg-brand-background/60 px-3 py-2 text-sm text-white focus:border-brand-blue focus:outline-none"
+                  >
+                    <option value="editor">{roleLabels.editor}</option>
+                    <option value="viewer">{roleLabels.viewer}</option>
+                  </select>
+                  <button
+                    type="submit"
+                    disabled={submitting || !email.trim()}
+                    className="rounded-full bg-brand-blue px-4 py-2 text-sm font-semibold text-white transition hover:bg-brand-blue/80 disabled:cursor-not-allowed disabled:opacity-40"
+                  >
+                    {submitting ? "Sharing…" : "Share"}
+                  </button>
+                </form>
+              )}
+
+              {error && <p className="mb-3 text-sm text-red-400">{error}</p>}
+
+              <div className="max-h-72 overflow-y-auto rounded-xl border border-brand-stroke/40 p-2">
+                {loading && <p className="px-3 py-2 text-sm text-brand-muted">Loading…</p>}
+                {!loading && collaborators.length === 0 && (
+                  <p className="px-3 py-2 text-sm text-brand-muted">
+                    Only you can open this document. Share it to edit together in real time.
+                  </p>
+                )}
+                {collaborators.map((collaborator) => (
+                  <div
+                    key={collaborator.userId}
+                    className="flex items-center justify-between gap-3 rounded-xl px-3 py-2 text-sm text-brand-text"
+                  >
+                    <div className="min-w-0">
+                      <p className="truncate font-semibold text-white">
+                        {collaborator.name || collaborator.email || "Unknown user"}
+                      </p>
+                      {collaborator.name && collaborator.email && (
+                        <p className="truncate text-xs text-white/60">{collaborator.email}</p>
+                      )}
+                    </div>
+                    <div className="flex flex-shrink-0 items-center gap-2">
+                      <span className="text-xs text-white/60">{roleLabels[collaborator.role]}</span>
+                      {isOwner && (
+                        <button
+                          type="button"
+                          onClick={() => void handleRemove(collaborator.userId)}
+                          className="rounded-full p-1 text-brand-muted transition hover:bg-red-500/20 hover:text-red-400"
+                          aria-label={`Remove ${collaborator.name || collaborator.email || "collaborator"}`}
+                        >
+                          <span className="material-symbols-outlined text-base leading-none">person_remove</span>
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </Dialog.Panel>
+          </Transition.Child>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+}
@@ -0,0 +1,159 @@
+"use client";
+
+import { Dialog, Transition } from "@headlessui/react";
+import { Fragment, useEffect, useState } from "react";
+import type { SimilarDocumentResult } from "@/types/writer";
+
+type SimilarDocumentsDialogProps = {
+  open: boolean;
+  onClose: () => void;
+  documentId: string | null;
+  selectionText?: string | null;
+  onOpenDocument: (result: SimilarDocumentResult) => void;
+};
+
+// Selections shorter than this say too little to search on; fall back to the whole document
+const MIN_SELECTION_LENGTH = 20;
+
+export default function SimilarDocumentsDialog({
+  open,
+  onClose,
+  documentId,
+  selectionText,
+  onOpenDocument
+}: SimilarDocumentsDialogProps) {
+  const [loaded, setLoaded] = useState<{
+    url: string;
+    results: SimilarDocumentResult[];
+    error: string | null;
+  } | null>(null);
+
+  const selection = selectionText?.trim() ?? "";
+  const querySelection = selection.length >= MIN_SELECTION_LENGTH ? selection.slice(0, 4000) : "";
+  const requestUrl = documentId
+    ? `/api/documents/${documentId}/similar${querySelection ? `?${new URLSearchParams({ text: querySelection }).toString()}` : ""}`
+    : null;
+  // Results belong to the request that produced them, so a new document or selection reads as loading
+  const current = loaded && loaded.url === requestUrl ? loaded : null;
+  const results = current?.results ?? [];
+  const error = current?.error ?? null;
+  const status = open && requestUrl && !current ? "loading" : current?.error ? "error" : "idle";
+
+  // Forget results on close so reopening after edits searches again
+  const handleClose = () => {
+    setLoaded(null);
+    onClose();
+  };
+
+  useEffect(() => {
+    if (!open || !requestUrl) return;
+    let cancelled = false;
+
+    fetch(requestUrl)
+      .then(async (response) => {
+        const payload = await response.json().catch(() => null);
+        if (!response.ok) {
+          throw new Error(typeof payload?.error === "string" ? payload.error : "Unable to find similar documents.");
+        }
+        return (payload?.results ?? []) as SimilarDocumentResult[];
+      })
+      .then((list) => {
+        if (!cancelled) setLoaded({ url: requestUrl, results: list, error: null });
+      })
+      .catch((fetchError: Error) => {
+        if (!cancelled) setLoaded({ url: requestUrl, results: [], error: fetchError.message });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, requestUrl]);
+
+  return (
+    <Transition show={open} as={Fragment}>
+      <Dialog onClose={handleClose} className="fixed inset-0 z-[1300]">
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-200"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-150"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black/60" aria-hidden="true" />
+        </Transition.Child>
+        <div className="fixed inset-0 flex items-center justify-center p-4">
+          <Transition.Child
+            as={Fragment}
+            enter="ease-out duration-200"
+            enterFrom="opacity-0 scale-95"
+            enterTo="opacity-100 scale-100"
+            leave="ease-in duration-150"
+            leaveFrom="opacity-100 scale-100"
+            leaveTo="opacity-0 scale-95"
+          >
+            <Dialog.Panel className="relative flex max-h-[80vh] w-full max-w-2xl flex-col rounded-2xl border border-brand-stroke/60 bg-brand-panel p-6 shadow-[0_30px_80px_rgba(0,0,0,0.6)]">
+              <div className="mb-1 flex items-center justify-between">
+                <Dialog.Title className="text-lg font-semibold text-white">Find Similar</Dialog.Title>
+                <button
+                  onClick={handleClose}
+                  className="rounded-full p-1 text-brand-muted transition hover:bg-brand-background/50 hover:text-white"
+                  aria-label="Close"
+                >
+                  <span className="material-symbols-outlined text-xl leading-none">close</span>
+                </button>
+              </div>
+              <p className="mb-4 text-sm text-brand-muted">
+                {querySelection ? "Documents and styles closest to the selected text." : "Documents and styles closest to this one."}
+              </p>
+
+              {error && <p className="mb-3 text-sm text-red-400">{error}</p>}
+
+              <div className="min-h-0 flex-1 overflow-y-auto">
+                {status === "loading" && <p className="px-3 py-2 text-sm text-brand-muted">Searching…</p>}
+                {status === "idle" && results.length === 0 && (
+                  <p className="px-3 py-2 text-sm text-brand-muted">
+                    Nothing similar yet. Documents are indexed shortly after they are saved.
+                  </p>
+                )}
+                <ul>
+                  {results.map((result) => (
+                    <li key={result.id}>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          onOpenDocument(result);
+                          handleClose();
+                        }}
+                        className="mb-1 flex w-full items-start gap-3 rounded-xl px-3 py-2 text-left text-sm text-brand-text transition hover:bg-white/10"
+                      >
+                        <span className="material-symbols-outlined mt-0.5 text-base leading-none text-white/60">
+                          {result.kind === "style" ? "palette" : "description"}
+                        </span>
+                        <span className="min-w-0 flex-1">
+                          <span className="flex items-center justify-between gap-3">
+                            <span className="truncate font-semibold text-white">{result.title || "Untitled"}</span>
+                            <span className="flex-shrink-0 text-xs text-white/50">{Math.round(result.score * 100)}%</span>
+                          </span>
+                          {result.preview && (
+                            <span className="mt-0.5 line-clamp-2 block text-xs text-white/60">{result.preview}</span>
+                          )}
+                          {result.matchedOn === "writingStyle" && (
+                            <span className="mt-1 block text-[11px] uppercase tracking-wide text-brand-blue">
+                              Matched on writing style
+                            </span>
+                          )}
+                        </span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </Dialog.Panel>
+          </Transition.Child>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+}
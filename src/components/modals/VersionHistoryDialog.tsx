@@ -0,0 +1,280 @@
+"use client";
+
+import { Dialog, Transition } from "@headlessui/react";
+import { Fragment, useCallback, useEffect, useMemo, useState } from "react";
+import { cn } from "@/lib/utils";
+import { countChangedRows, diffMarkdownSideBySide, type DiffCell } from "@/lib/text-diff";
+import type { DocumentVersionDetail, DocumentVersionSummary } from "@/types/writer";
+import type { DocumentVersionReason } from "@/lib/validators";
+
+type VersionHistoryDialogProps = {
+  open: boolean;
+  onClose: () => void;
+  documentId: string | null;
+  currentContent: string;
+  onRestored: (content: string) => void;
+};
+
+const reasonLabels: Record<DocumentVersionReason, string> = {
+  autosave: "Autosave checkpoint",
+  compose: "Before compose",
+  rewrite: "Before rewrite",
+  restore: "Before restore",
+  manual: "Snapshot"
+};
+
+function formatVersionTimestamp(value: string): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return date.toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit"
+  });
+}
+
+function DiffColumnCell({ cell }: { cell: DiffCell }) {
+  return (
+    <div
+      className={cn(
+        "flex min-h-[22px] gap-3 px-3 font-mono text-xs leading-[22px]",
+        {
+          "bg-red-500/15 text-red-200": cell.type === "removed",
+          "bg-emerald-500/15 text-emerald-200": cell.type === "added",
+          "text-brand-text/80": cell.type === "same",
+          "bg-white/[0.02]": cell.type === "empty"
+        }
+      )}
+    >
+      <span className="w-8 flex-shrink-0 select-none text-right text-white/25">{cell.lineNumber ?? ""}</span>
+      <span className="whitespace-pre-wrap break-words">{cell.text || (cell.type === "empty" ? "" : " ")}</span>
+    </div>
+  );
+}
+
+export default function VersionHistoryDialog({
+  open,
+  onClose,
+  documentId,
+  currentContent,
+  onRestored
+}: VersionHistoryDialogProps) {
+  const [versions, setVersions] = useState<DocumentVersionSummary[]>([]);
+  const [listStatus, setListStatus] = useState<"idle" | "loading" | "error">("idle");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [selectedVersion, setSelectedVersion] = useState<DocumentVersionDetail | null>(null);
+  const [detailLoading, setDetailLoading] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || !documentId) return;
+    let cancelled = false;
+    setListStatus("loading");
+    setError(null);
+    setSelectedId(null);
+    setSelectedVersion(null);
+
+    fetch(`/api/documents/${documentId}/versions`)
+      .then(async (response) => {
+        const payload = await response.json().catch(() => null);
+        if (!response.ok) {
+          throw new Error(typeof payload?.error === "string" ? payload.error : "Unable to load version history.");
+        }
+        return payload as DocumentVersionSummary[];
+      })
+      .then((list) => {
+        if (cancelled) return;
+        setVersions(list);
+        setListStatus("idle");
+        if (list.length) setSelectedId(list[0].id);
+      })
+      .catch((fetchError: Error) => {
+        if (cancelled) return;
+        setListStatus("error");
+        setError(fetchError.message);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, documentId]);
+
+  useEffect(() => {
+    if (!open || !documentId || !selectedId) return;
+    let cancelled = false;
+    setDetailLoading(true);
+
+    fetch(`/api/documents/${documentId}/versions/${selectedId}`)
+      .then(async (response) => {
+        const payload = await response.json().catch(() => null);
+        if (!response.ok) {
+          throw new Error(typeof payload?.error === "string" ? payload.error : "Unable to load version.");
+        }
+        return payload as DocumentVersionDetail;
+      })
+      .then((detail) => {
+        if (!cancelled) setSelectedVersion(detail);
+      })
+      .catch((fetchError: Error) => {
+        if (!cancelled) setError(fetchError.message);
+      })
+      .finally(() => {
+        if (!cancelled) setDetailLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, documentId, selectedId]);
+
+  const diffRows = useMemo(() => {
+    if (!selectedVersion) return [];
+    return diffMarkdownSideBySide(selectedVersion.content, currentContent);
+  }, [selectedVersion, currentContent]);
+  const changedRows = useMemo(() => countChangedRows(diffRows), [diffRows]);
+
+  const handleRestore = useCallback(async () => {
+    if (!documentId || !selectedVersion) return;
+    setRestoring(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/documents/${documentId}/versions/${selectedVersion.id}/restore`, {
+        method: "POST"
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(typeof payload?.error === "string" ? payload.error : "Unable to restore version.");
+      }
+      onRestored(typeof payload?.content === "string" ? payload.content : selectedVersion.content);
+      onClose();
+    } catch (restoreError) {
+      setError(restoreError instanceof Error ? restoreError.message : "Unable to restore version.");
+    } finally {
+      setRestoring(false);
+    }
+  }, [documentId, selectedVersion, onRestored, onClose]);
+
+  return (
+    <Transition show={open} as={Fragment}>
+      <Dialog onClose={onClose} className="fixed inset-0 z-[1300]">
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-200"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-150"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black/60" aria-hidden="true" />
+        </Transition.Child>
+        <div className="fixed inset-0 flex items-center justify-center p-4">
+          <Transition.Child
+            as={Fragment}
+            enter="ease-out duration-200"
+            enterFrom="opacity-0 scale-95"
+            enterTo="opacity-100 scale-100"
+            leave="ease-in duration-150"
+            leaveFrom="opacity-100 scale-100"
+            leaveTo="opacity-0 scale-95"
+          >
+            <Dialog.Panel className="relative flex h-[80vh] w-full max-w-6xl flex-col rounded-2xl border border-brand-stroke/60 bg-brand-panel p-6 shadow-[0_30px_80px_rgba(0,0,0,0.6)]">
+              <div className="mb-4 flex items-center justify-between">
+                <Dialog.Title className="text-lg font-semibold text-white">Version History</Dialog.Title>
+                <button
+                  onClick={onClose}
+                  className="rounded-full p-1 text-brand-muted transition hover:bg-brand-background/50 hover:text-white"
+                  aria-label="Close"
+                >
+                  <span className="material-symbols-outlined text-xl leading-none">close</span>
+                </button>
+              </div>
+
+              {error && <p className="mb-3 text-sm text-red-400">{error}</p>}
+
+              <div className="flex min-h-0 flex-1 gap-4">
+                <div className="w-60 flex-shrink-0 overflow-y-auto rounded-xl border border-brand-stroke/40 p-2">
+                  {listStatus === "loading" && <p className="px-3 py-2 text-sm text-brand-muted">Loading…</p>}
+                  {listStatus === "idle" && versions.length === 0 && (
+                    <p className="px-3 py-2 text-sm text-brand-muted">
+                      No versions yet. Checkpoints appear as you edit, compose and rewrite.
+                    </p>
+                  )}
+                  {versions.map((version) => (
+                    <button
+                      key={version.id}
+                      type="button"
+                      onClick={() => setSelectedId(version.id)}
+                      className={cn(
+                        "mb-1 flex w-full flex-col rounded-xl px-3 py-2 text-left text-sm transition",
+                        version.id === selectedId ? "bg-brand-blue/20 text-white" : "text-brand-text hover:bg-white/10"
+                      )}
+                    >
+                      <span className="font-semibold">{formatVersionTimestamp(version.createdAt)}</span>
+                      <span className="text-xs text-white/60">
+                        {reasonLabels[version.reason] ?? version.reason} · {version.characterCount.toLocaleString()} chars
+                      </span>
+                    </button>
+                  ))}
+                </div>
+
+                <div className="flex min-w-0 flex-1 flex-col">
+                  <div className="grid grid-cols-2 gap-px text-xs font-semibold uppercase tracking-wide text-white/50">
+                    <div className="px-3 pb-2">
+                      {selectedVersion ? `Version · ${formatVersionTimestamp(selectedVersion.createdAt)}` : "Version"}
+                    </div>
+                    <div className="px-3 pb-2">Current</div>
+                  </div>
+                  <div className="min-h-0 flex-1 overflow-y-auto rounded-xl border border-brand-stroke/40">
+                    {detailLoading && !selectedVersion ? (
+                      <p className="px-3 py-2 text-sm text-brand-muted">Loading…</p>
+                    ) : (
+                      diffRows.map((row, index) => (
+                        <div key={index} className="grid grid-cols-2 gap-px bg-brand-stroke/20">
+                          <div className="bg-brand-panel">
+                            <DiffColumnCell cell={row.left} />
+                          </div>
+                          <div className="bg-brand-panel">
+                            <DiffColumnCell cell={row.right} />
+                          </div>
+                        </div>
+                      ))
+                    )}
+                  </div>
+                  <div className="mt-4 flex items-center justify-between gap-3">
+                    <p className="text-xs text-brand-muted">
+                      {selectedVersion
+                        ? changedRows === 0
+                          ? "Identical to the current document."
+                          : `${changedRows} changed ${changedRows === 1 ? "line" : "lines"}.`
+                        : ""}
+                    </p>
+                    <div className="flex gap-3">
+                      <button
+                        type="button"
+                        onClick={onClose}
+                        className="rounded-full border border-brand-stroke/70 px-4 py-2 text-sm font-semibold text-brand-text transition hover:border-brand-blue hover:text-brand-blue"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        type="button"
+                        disabled={!selectedVersion || restoring || changedRows === 0}
+                        onClick={() => void handleRestore()}
+                        className="rounded-full bg-brand-blue px-4 py-2 text-sm font-semibold text-white transition hover:bg-brand-blue/80 disabled:cursor-not-allowed disabled:opacity-40"
+                      >
+                        {restoring ? "Restoring…" : "Restore this version"}
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            </Dialog.Panel>
+          </Transition.Child>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+}
@@ -0,0 +1,508 @@
+"use client";
+
+import { Dialog, Transition } from "@headlessui/react";
+import { Fragment, useCallback, useEffect, useState } from "react";
+import { cn, readApiErrorMessage } from "@/lib/utils";
+import type { WorkspaceRole } from "@/lib/validators";
+import type {
+  WorkspaceInvitationSummary,
+  WorkspaceMemberSummary,
+  WorkspaceShareableItem,
+  WorkspaceSummary
+} from "@/types/writer";
+
+type WorkspaceDialogProps = {
+  open: boolean;
+  onClose: () => void;
+  workspaces: WorkspaceSummary[];
+  invitations: WorkspaceInvitationSummary[];
+  /** Token from the invite link the page was opened with; only that invitation can be joined. */
+  pendingInvitation?: { id: string; token: string } | null;
+  activeWorkspaceId: string | null;
+  onSwitchWorkspace: (workspaceId: string | null) => Promise<void>;
+  onWorkspacesChange: () => Promise<void>;
+  onLibraryChange?: () => void;
+};
+
+type WorkspaceDetail = {
+  id: string;
+  name: string;
+  role: WorkspaceRole;
+  currentUserId: string;
+  members: WorkspaceMemberSummary[];
+  invitations: WorkspaceInvitationSummary[];
+};
+
+const roleLabels: Record<WorkspaceRole, string> = {
+  owner: "Owner",
+  editor: "Editor",
+  viewer: "Viewer"
+};
+
+const shareKindLabels: Record<WorkspaceShareableItem["kind"], { label: string; icon: string }> = {
+  persona: { label: "Persona", icon: "badge" },
+  style: { label: "Style", icon: "draw_abstract" },
+  folder: { label: "Folder", icon: "folder" },
+  prompt: { label: "Prompt template", icon: "description" }
+};
+
+const inputClassName =
+  "min-w-0 flex-1 rounded-full border border-brand-stroke/70 bg-brand-background/60 px-4 py-2 text-sm text-white placeholder:text-brand-muted focus:border-brand-blue focus:outline-none";
+const selectClassName =
+  "rounded-full border border-brand-stroke/70 bg-brand-background/60 px-3 py-2 text-sm text-white focus:border-brand-blue focus:outline-none";
+const primaryButtonClassName =
+  "rounded-full bg-brand-blue px-4 py-2 text-sm font-semibold text-white transition hover:bg-brand-blue/80 disabled:cursor-not-allowed disabled:opacity-40";
+
+export default function WorkspaceDialog({
+  open,
+  onClose,
+  workspaces,
+  invitations,
+  pendingInvitation = null,
+  activeWorkspaceId,
+  onSwitchWorkspace,
+  onWorkspacesChange,
+  onLibraryChange
+}: WorkspaceDialogProps) {
+  const [detail, setDetail] = useState<WorkspaceDetail | null>(null);
+  const [shareable, setShareable] = useState<WorkspaceShareableItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<WorkspaceRole>("editor");
+  const [inviteLink, setInviteLink] = useState<{ workspaceId: string; email: string; url: string } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const activeWorkspace = workspaces.find((workspace) => workspace.id === activeWorkspaceId) ?? null;
+  const canWrite = activeWorkspace?.role === "owner" || activeWorkspace?.role === "editor";
+
+  const loadDetail = useCallback(async (workspaceId: string, includeShareable: boolean) => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/workspaces/${workspaceId}`);
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(readApiErrorMessage(payload, "Unable to load workspace."));
+      }
+      setDetail(payload as WorkspaceDetail);
+
+      if (includeShareable) {
+        const shareResponse = await fetch(`/api/workspaces/${workspaceId}/share`);
+        const sharePayload = await shareResponse.json().catch(() => null);
+        setShareable(shareResponse.ok && Array.isArray(sharePayload?.items) ? sharePayload.items : []);
+      } else {
+        setShareable([]);
+      }
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : "Unable to load workspace.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!open) return;
+    setError(null);
+    if (!activeWorkspaceId) {
+      setDetail(null);
+      setShareable([]);
+      return;
+    }
+    void loadDetail(activeWorkspaceId, canWrite);
+  }, [open, activeWorkspaceId, canWrite, loadDetail]);
+
+  // Every mutation goes through here so errors and the busy flag are handled in one place
+  const runAction = useCallback(
+    async (request: () => Promise<Response>, fallback: string, after?: (payload: any) => Promise<void> | void) => {
+      setBusy(true);
+      setError(null);
+      try {
+        const response = await request();
+        const payload = await response.json().catch(() => null);
+        if (!response.ok) {
+          throw new Error(readApiErrorMessage(payload, fallback));
+        }
+        await after?.(payload);
+      } catch (actionError) {
+        setError(actionError instanceof Error ? actionError.message : fallback);
+      } finally {
+        setBusy(false);
+      }
+    },
+    []
+  );
+
+  const jsonRequest = (url: string, method: string, body?: unknown) => () =>
+    fetch(url, {
+      method,
+      headers: body === undefined ? undefined : { "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+
+  const handleCreate = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!newName.trim()) return;
+    void runAction(jsonRequest("/api/workspaces", "POST", { name: newName.trim() }), "Unable to create workspace.", async (payload) => {
+      setNewName("");
+      await onWorkspacesChange();
+      await onSwitchWorkspace((payload as WorkspaceSummary).id);
+    });
+  };
+
+  // Inviting again replaces the link, which is also how an owner re-sends a lost one
+  const sendInvite = (workspaceId: string, email: string, role: WorkspaceRole) => {
+    void runAction(
+      jsonRequest(`/api/workspaces/${workspaceId}/invitations`, "POST", { email, role }),
+      "Unable to send invitation.",
+      async (payload) => {
+        setInviteEmail("");
+        setInviteLink({ workspaceId, email: payload.email, url: payload.inviteUrl });
+        await loadDetail(workspaceId, canWrite);
+      }
+    );
+  };
+
+  const handleInvite = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!activeWorkspaceId || !inviteEmail.trim()) return;
+    sendInvite(activeWorkspaceId, inviteEmail.trim(), inviteRole);
+  };
+
+  const isOwner = detail?.role === "owner";
+
+  return (
+    <Transition show={open} as={Fragment}>
+      <Dialog onClose={onClose} className="fixed inset-0 z-[1300]">
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-200"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-150"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black/60" aria-hidden="true" />
+        </Transition.Child>
+        <div className="fixed inset-0 flex items-center justify-center p-4">
+          <Transition.Child
+            as={Fragment}
+            enter="ease-out duration-200"
+            enterFrom="opacity-0 scale-95"
+            enterTo="opacity-100 scale-100"
+            leave="ease-in duration-150"
+            leaveFrom="opacity-100 scale-100"
+            leaveTo="opacity-0 scale-95"
+          >
+            <Dialog.Panel className="relative flex max-h-[85vh] w-full max-w-xl flex-col rounded-2xl border border-brand-stroke/60 bg-brand-panel p-6 shadow-[0_30px_80px_rgba(0,0,0,0.6)]">
+              <div className="mb-4 flex items-center justify-between">
+                <Dialog.Title className="text-lg font-semibold text-white">Workspaces</Dialog.Title>
+                <button
+                  onClick={onClose}
+                  className="rounded-full p-1 text-brand-muted transition hover:bg-brand-background/50 hover:text-white"
+                  aria-label="Close"
+                >
+                  <span className="material-symbols-outlined text-xl leading-none">close</span>
+                </button>
+              </div>
+
+              {error && <p className="mb-3 text-sm text-red-400">{error}</p>}
+
+              <div className="min-h-0 flex-1 space-y-5 overflow-y-auto pr-1">
+                {invitations.length > 0 && (
+                  <section>
+                    <h3 className="mb-2 text-xs font-semibold uppercase tracking-wide text-white/50">Invitations</h3>
+                    <div className="rounded-xl border border-brand-stroke/40 p-2">
+                      {invitations.map((invitation) => (
+                        <div key={invitation.id} className="flex items-center justify-between gap-3 rounded-xl px-3 py-2 text-sm">
+                          <div className="min-w-0">
+                            <p className="truncate font-semibold text-white">{invitation.workspaceName}</p>
+                            <p className="truncate text-xs text-white/60">
+                              {roleLabels[invitation.role]}
+                              {invitation.invitedBy ? ` · invited by ${invitation.invitedBy}` : ""}
+                            </p>
+                            {pendingInvitation?.id !== invitation.id && (
+                              <p className="truncate text-xs text-white/40">Open the invite link you were sent to join.</p>
+                            )}
+                          </div>
+                          <div className="flex flex-shrink-0 gap-2">
+                            <button
+                              type="button"
+                              disabled={busy}
+                              onClick={() =>
+                                void runAction(
+                                  jsonRequest(`/api/workspaces/invitations/${invitation.id}`, "DELETE"),
+                                  "Unable to decline invitation.",
+                                  onWorkspacesChange
+                                )
+                              }
+                              className="rounded-full border border-brand-stroke/70 px-3 py-1 text-xs font-semibold text-brand-text transition hover:border-brand-blue hover:text-brand-blue"
+                            >
+                              Decline
+                            </button>
+                            {pendingInvitation?.id === invitation.id && (
+                              <button
+                                type="button"
+                                disabled={busy}
+                                onClick={() =>
+                                  void runAction(
+                                    jsonRequest(`/api/workspaces/invitations/${invitation.id}`, "POST", {
+                                      token: pendingInvitation.token
+                                    }),
+                                    "Unable to accept invitation.",
+                                    async () => {
+                                      // The link is spent, so keep it out of the address bar and history
+                                      window.history.replaceState(null, "", "/");
+                                      await onWorkspacesChange();
+                                      await onSwitchWorkspace(invitation.workspaceId);
+                                    }
+                                  )
+                                }
+                                className="rounded-full bg-brand-blue px-3 py-1 text-xs font-semibold text-white transition hover:bg-brand-blue/80 disabled:opacity-40"
+                              >
+                                Join
+                              </button>
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </section>
+                )}
+
+                {activeWorkspaceId && (
+                  <section>
+                    <h3 className="mb-2 text-xs font-semibold uppercase tracking-wide text-white/50">
+                      {detail?.name ?? activeWorkspace?.name ?? "Workspace"} · Members
+                    </h3>
+                    {isOwner && (
+                      <form onSubmit={handleInvite} className="mb-3 flex gap-2">
+                        <input
+                          type="email"
+                          value={inviteEmail}
+                          onChange={(event) => setInviteEmail(event.target.value)}
+                          placeholder="teammate@example.com"
+                          className={inputClassName}
+                        />
+                        <select
+                          value={inviteRole}
+                          onChange={(event) => setInviteRole(event.target.value as WorkspaceRole)}
+                          className={selectClassName}
+                        >
+                          <option value="editor">{roleLabels.editor}</option>
+                          <option value="viewer">{roleLabels.viewer}</option>
+                          <option value="owner">{roleLabels.owner}</option>
+                        </select>
+                        <button type="submit" disabled={busy || !inviteEmail.trim()} className={primaryButtonClassName}>
+                          Invite
+                        </button>
+                      </form>
+                    )}
+                    {isOwner && inviteLink?.workspaceId === activeWorkspaceId && (
+                      <div className="mb-3 rounded-xl border border-brand-stroke/40 px-3 py-2 text-xs text-white/60">
+                        <p className="mb-2">Send this link to {inviteLink.email}. It is shown once and works only for that address.</p>
+                        <div className="flex gap-2">
+                          <input
+                            type="text"
+                            readOnly
+                            value={inviteLink.url}
+                            onFocus={(event) => event.target.select()}
+                            className={cn(inputClassName, "py-1 text-xs")}
+                          />
+                          <button
+                            type="button"
+                            onClick={() => void navigator.clipboard?.writeText(inviteLink.url)}
+                            className="rounded-full border border-brand-stroke/70 px-3 py-1 text-xs font-semibold text-brand-text transition hover:border-brand-blue hover:text-brand-blue"
+                          >
+                            Copy
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                    <div className="rounded-xl border border-brand-stroke/40 p-2">
+                      {loading && !detail && <p className="px-3 py-2 text-sm text-brand-muted">Loading…</p>}
+                      {detail?.members.map((member) => {
+                        const isSelf = member.userId === detail.currentUserId;
+                        return (
+                          <div key={member.userId} className="flex items-center justify-between gap-3 rounded-xl px-3 py-2 text-sm">
+                            <div className="min-w-0">
+                              <p className="truncate font-semibold text-white">
+                                {member.name || member.email || "Unknown user"}
+                                {isSelf ? " (you)" : ""}
+                              </p>
+                              {member.name && member.email && <p className="truncate text-xs text-white/60">{member.email}</p>}
+                            </div>
+                            <div className="flex flex-shrink-0 items-center gap-2">
+                              {isOwner ? (
+                                <select
+                                  value={member.role}
+                                  disabled={busy}
+                                  onChange={(event) =>
+                                    void runAction(
+                                      jsonRequest(`/api/workspaces/${detail.id}/members/${member.userId}`, "PATCH", {
+                                        role: event.target.value
+                                      }),
+                                      "Unable to change role.",
+                                      () => loadDetail(detail.id, canWrite)
+                                    )
+                                  }
+                                  className={cn(selectClassName, "py-1 text-xs")}
+                                >
+                                  <option value="owner">{roleLabels.owner}</option>
+                                  <option value="editor">{roleLabels.editor}</option>
+                                  <option value="viewer">{roleLabels.viewer}</option>
+                                </select>
+                              ) : (
+                                <span className="text-xs text-white/60">{roleLabels[member.role]}</span>
+                              )}
+                              {(isOwner || isSelf) && (
+                                <button
+                                  type="button"
+                                  disabled={busy}
+                                  onClick={() =>
+                                    void runAction(
+                                      jsonRequest(`/api/workspaces/${detail.id}/members/${member.userId}`, "DELETE"),
+                                      isSelf ? "Unable to leave workspace." : "Unable to remove member.",
+                                      async () => {
+                                        if (isSelf) {
+                                          await onWorkspacesChange();
+                                          await onSwitchWorkspace(null);
+                                        } else {
+                                          await loadDetail(detail.id, canWrite);
+                                        }
+                                      }
+                                    )
+                                  }
+                                  className="rounded-full p-1 text-brand-muted transition hover:bg-red-500/20 hover:text-red-400"
+                                  aria-label={isSelf ? "Leave workspace" : `Remove ${member.name || member.email || "member"}`}
+                                >
+                                  <span className="material-symbols-outlined text-base leading-none">
+                                    {isSelf ? "logout" : "person_remove"}
+                                  </span>
+                                </button>
+                              )}
+                            </div>
+                          </div>
+                        );
+                      })}
+                      {detail?.invitations.map((invitation) => (
+                        <div key={invitation.id} className="flex items-center justify-between gap-3 rounded-xl px-3 py-2 text-sm">
+                          <div className="min-w-0">
+                            <p className="truncate text-white/70">{invitation.email}</p>
+                            <p className="text-xs text-white/40">Invited · {roleLabels[invitation.role]}</p>
+                          </div>
+                          <div className="flex flex-shrink-0 gap-3">
+                            <button
+                              type="button"
+                              disabled={busy}
+                              onClick={() => sendInvite(detail.id, invitation.email, invitation.role)}
+                              className="text-xs text-brand-muted transition hover:text-brand-blue"
+                            >
+                              New link
+                            </button>
+                            <button
+                              type="button"
+                              disabled={busy}
+                              onClick={() =>
+                                void runAction(
+                                  jsonRequest(`/api/workspaces/invitations/${invitation.id}`, "DELETE"),
+                                  "Unable to revoke invitation.",
+                                  () => loadDetail(detail.id, canWrite)
+                                )
+                              }
+                              className="text-xs text-brand-muted transition hover:text-red-400"
+                            >
+                              Revoke
+                            </button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </section>
+                )}
+
+                {activeWorkspaceId && canWrite && (
+                  <section>
+                    <h3 className="mb-2 text-xs font-semibold uppercase tracking-wide text-white/50">Add from your personal space</h3>
+                    <div className="max-h-56 overflow-y-auto rounded-xl border border-brand-stroke/40 p-2">
+                      {shareable.length === 0 && (
+                        <p className="px-3 py-2 text-sm text-brand-muted">
+                          Personal personas, styles, folders and prompt templates you can share with this workspace appear here.
+                        </p>
+                      )}
+                      {shareable.map((item) => (
+                        <div key={`${item.kind}-${item.id}`} className="flex items-center justify-between gap-3 rounded-xl px-3 py-2 text-sm">
+                          <div className="flex min-w-0 items-center gap-2">
+                            <span className="material-symbols-outlined text-base leading-none text-white/60">
+                              {shareKindLabels[item.kind].icon}
+                            </span>
+                            <p className="truncate text-white">{item.name}</p>
+                            <span className="flex-shrink-0 text-xs text-white/40">{shareKindLabels[item.kind].label}</span>
+                          </div>
+                          <button
+                            type="button"
+                            disabled={busy}
+                            onClick={() =>
+                              void runAction(
+                                jsonRequest(`/api/workspaces/${activeWorkspaceId}/share`, "POST", { kind: item.kind, id: item.id }),
+                                "Unable to share with the workspace.",
+                                () => {
+                                  setShareable((prev) => prev.filter((entry) => !(entry.kind === item.kind && entry.id === item.id)));
+                                  onLibraryChange?.();
+                                }
+                              )
+                            }
+                            className="rounded-full border border-brand-stroke/70 px-3 py-1 text-xs font-semibold text-brand-text transition hover:border-brand-blue hover:text-brand-blue"
+                          >
+                            Share
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  </section>
+                )}
+
+                <section>
+                  <h3 className="mb-2 text-xs font-semibold uppercase tracking-wide text-white/50">New workspace</h3>
+                  <form onSubmit={handleCreate} className="flex gap-2">
+                    <input
+                      type="text"
+                      value={newName}
+                      maxLength={120}
+                      onChange={(event) => setNewName(event.target.value)}
+                      placeholder="Marketing team"
+                      className={inputClassName}
+                    />
+                    <button type="submit" disabled={busy || !newName.trim()} className={primaryButtonClassName}>
+                      Create
+                    </button>
+                  </form>
+                </section>
+              </div>
+
+              {isOwner && detail && (
+                <div className="mt-4 flex justify-end border-t border-brand-stroke/40 pt-4">
+                  <button
+                    type="button"
+                    disabled={busy}
+                    onClick={() => {
+                      if (!window.confirm(`Delete "${detail.name}"? Shared items return to their creators' personal spaces.`)) return;
+                      void runAction(jsonRequest(`/api/workspaces/${detail.id}`, "DELETE"), "Unable to delete workspace.", async () => {
+                        await onWorkspacesChange();
+                        await onSwitchWorkspace(null);
+                      });
+                    }}
+                    className="rounded-full border border-red-500/50 px-4 py-2 text-sm font-semibold text-red-400 transition hover:bg-red-500/10"
+                  >
+                    Delete workspace
+                  </button>
+                </div>
+              )}
+            </Dialog.Panel>
+          </Transition.Child>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+}
@@ -0,0 +1,330 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { ExportTemplateSummary } from "@/types/writer";
+import type { DocxTitlePage } from "@/lib/validators";
+import { cn, formatTimestamp, readApiErrorMessage } from "@/lib/utils";
+
+type ExportTemplatesPanelProps = {
+  personas: Array<{ id: string; name: string }>;
+  activePersonaId: string | null;
+  // Templates are listed per workspace, so switching workspaces reloads the list
+  workspaceId: string | null;
+};
+
+const emptyTitlePage: DocxTitlePage = {
+  enabled: false,
+  subtitle: null,
+  preparedFor: null,
+  preparedBy: null,
+  showDate: true
+};
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export default function ExportTemplatesPanel({ personas, activePersonaId, workspaceId }: ExportTemplatesPanelProps) {
+  const [loaded, setLoaded] = useState<{ key: string; templates: ExportTemplateSummary[]; error: string | null } | null>(
+    null
+  );
+  const [busy, setBusy] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [titlePageDraft, setTitlePageDraft] = useState<DocxTitlePage>(emptyTitlePage);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const listKey = workspaceId ?? "personal";
+  const current = loaded && loaded.key === listKey ? loaded : null;
+  const templates = current?.templates ?? [];
+  const activePersonaTemplate = activePersonaId
+    ? templates.find((template) => template.personas.some((persona) => persona.id === activePersonaId))
+    : undefined;
+  const exportTemplate = activePersonaTemplate ?? templates.find((template) => template.isDefault);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetch("/api/export-templates", { signal: controller.signal, cache: "no-store" })
+      .then(async (response) => {
+        const payload = await response.json().catch(() => null);
+        if (!response.ok) {
+          throw new Error(readApiErrorMessage(payload, "Unable to load templates."));
+        }
+        setLoaded({ key: listKey, templates: Array.isArray(payload?.templates) ? payload.templates : [], error: null });
+      })
+      .catch((error: Error) => {
+        if (controller.signal.aborted) return;
+        setLoaded({ key: listKey, templates: [], error: error.message });
+      });
+    return () => controller.abort();
+  }, [listKey]);
+
+  const replaceTemplates = (update: (list: ExportTemplateSummary[]) => ExportTemplateSummary[]) => {
+    setLoaded((prev) => (prev && prev.key === listKey ? { ...prev, templates: update(prev.templates) } : prev));
+  };
+
+  // Making one template the default or taking over a persona changes its siblings too
+  const mergeTemplate = (updated: ExportTemplateSummary) => {
+    const personaIds = new Set(updated.personas.map((persona) => persona.id));
+    replaceTemplates((list) => {
+      const index = list.findIndex((item) => item.id === updated.id);
+      const others = list
+        .filter((item) => item.id !== updated.id)
+        .map((item) => ({
+          ...item,
+          isDefault: updated.isDefault ? false : item.isDefault,
+          personas: item.personas.filter((persona) => !personaIds.has(persona.id))
+        }));
+      if (index === -1) return [updated, ...others];
+      others.splice(index, 0, updated);
+      return others;
+    });
+  };
+
+  const handleFileChange = async (files: FileList | null) => {
+    const file = files?.[0];
+    if (!file) return;
+    const form = new FormData();
+    form.append("file", file);
+    // The first template becomes the default so exports pick it up straight away
+    if (!templates.length) form.append("isDefault", "true");
+    setBusy(true);
+    setActionError(null);
+    try {
+      const response = await fetch("/api/export-templates", { method: "POST", body: form });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload?.template) {
+        throw new Error(readApiErrorMessage(payload, "Unable to upload that template."));
+      }
+      mergeTemplate(payload.template as ExportTemplateSummary);
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : "Unable to upload that template.");
+    } finally {
+      setBusy(false);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  const updateTemplate = async (
+    template: ExportTemplateSummary,
+    update: { isDefault?: boolean; personaIds?: string[]; titlePage?: DocxTitlePage | null }
+  ) => {
+    setActionError(null);
+    try {
+      const response = await fetch(`/api/export-templates/${template.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(update)
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload?.template) {
+        throw new Error(readApiErrorMessage(payload, "Unable to update that template."));
+      }
+      mergeTemplate(payload.template as ExportTemplateSummary);
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : "Unable to update that template.");
+    }
+  };
+
+  const togglePersona = (template: ExportTemplateSummary, personaId: string) => {
+    const ids = template.personas.map((persona) => persona.id);
+    const next = ids.includes(personaId) ? ids.filter((id) => id !== personaId) : [...ids, personaId];
+    void updateTemplate(template, { personaIds: next });
+  };
+
+  const startEditing = (template: ExportTemplateSummary) => {
+    if (editingId === template.id) {
+      setEditingId(null);
+      return;
+    }
+    setEditingId(template.id);
+    setTitlePageDraft(template.titlePage ?? emptyTitlePage);
+  };
+
+  const handleDelete = async (template: ExportTemplateSummary) => {
+    if (!window.confirm(`Delete "${template.name}"? Personas using it will export with the default template.`)) return;
+    setActionError(null);
+    try {
+      const response = await fetch(`/api/export-templates/${template.id}`, { method: "DELETE" });
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new Error(readApiErrorMessage(payload, "Unable to delete that template."));
+      }
+      replaceTemplates((list) => list.filter((item) => item.id !== template.id));
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : "Unable to delete that template.");
+    }
+  };
+
+  const textField = (field: "subtitle" | "preparedFor" | "preparedBy", label: string) => (
+    <label className="block text-xs text-brand-muted">
+      {label}
+      <input
+        type="text"
+        value={titlePageDraft[field] ?? ""}
+        maxLength={200}
+        onChange={(event) => setTitlePageDraft((prev) => ({ ...prev, [field]: event.target.value || null }))}
+        className="mt-0.5 w-full rounded-lg border border-brand-stroke/60 bg-brand-background/60 px-2 py-1 text-xs text-white focus:border-brand-blue focus:outline-none"
+      />
+    </label>
+  );
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex-shrink-0 space-y-2 px-3 pb-3 pt-2">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".docx,.dotx"
+          className="hidden"
+          onChange={(event) => void handleFileChange(event.target.files)}
+        />
+        <button
+          type="button"
+          disabled={busy}
+          onClick={() => fileInputRef.current?.click()}
+          className="flex w-full items-center justify-center gap-2 rounded-full border border-brand-stroke/70 bg-brand-ink px-4 py-2 text-sm text-brand-text transition hover:border-brand-blue hover:text-brand-blue disabled:opacity-50"
+        >
+          <span className="material-symbols-outlined text-base leading-none">upload_file</span>
+          {busy ? "Uploading…" : "Upload letterhead .docx"}
+        </button>
+        {current && templates.length > 0 && (
+          <p className="text-xs text-brand-muted">
+            DOCX exports use{" "}
+            <span className="font-semibold text-white">{exportTemplate ? exportTemplate.name : "no template"}</span>
+            {activePersonaTemplate ? " (active persona)" : exportTemplate ? " (default)" : ""}.
+          </p>
+        )}
+        {(actionError || current?.error) && <p className="text-xs text-red-400">{actionError ?? current?.error}</p>}
+      </div>
+
+      <div className="flex-1 min-h-0 space-y-2 overflow-y-auto bg-[#131313] px-3 pt-[4px]">
+        {!current && <p className="px-1 py-2 text-sm text-brand-muted">Loading templates…</p>}
+        {current && !current.error && templates.length === 0 && (
+          <p className="px-1 py-2 text-sm text-brand-muted">
+            Upload a client&apos;s Word letterhead and DOCX exports will inherit its fonts, styles, header, footer and logo.
+            Assign it to a persona to use it whenever that persona is active.
+          </p>
+        )}
+        {templates.map((template) => (
+          <div key={template.id} className="rounded-2xl border border-brand-stroke/40 bg-[#0A0A0A] p-3 text-sm">
+            <div className="flex items-start gap-2">
+              <span className="material-symbols-outlined mt-0.5 text-base leading-none text-white/60">article</span>
+              <div className="min-w-0 flex-1">
+                <p className="truncate font-semibold text-white" title={template.fileName}>
+                  {template.name}
+                </p>
+                <p className="text-xs text-brand-muted">
+                  {formatSize(template.byteSize)} · {formatTimestamp(template.createdAt)}
+                </p>
+              </div>
+              {template.canEdit && (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => startEditing(template)}
+                    className={cn(
+                      "rounded-full p-1 transition hover:bg-white/10 hover:text-white",
+                      editingId === template.id ? "text-white" : "text-brand-muted"
+                    )}
+                    aria-label="Template settings"
+                    title="Personas, default and title page"
+                  >
+                    <span className="material-symbols-outlined text-base leading-none">tune</span>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => void handleDelete(template)}
+                    className="rounded-full p-1 text-brand-muted transition hover:bg-white/10 hover:text-[#f00]"
+                    aria-label="Delete template"
+                    title="Delete template"
+                  >
+                    <span className="material-symbols-outlined text-base leading-none">delete</span>
+                  </button>
+                </>
+              )}
+            </div>
+
+            {(template.isDefault || template.personas.length > 0 || template.titlePage?.enabled) && (
+              <div className="mt-2 flex flex-wrap gap-1">
+                {template.isDefault && (
+                  <span className="rounded-full bg-brand-blue/20 px-2 py-0.5 text-[11px] text-brand-blue">Default</span>
+                )}
+                {template.titlePage?.enabled && (
+                  <span className="rounded-full bg-white/10 px-2 py-0.5 text-[11px] text-white/80">Title page</span>
+                )}
+                {template.personas.map((persona) => (
+                  <span key={persona.id} className="rounded-full bg-white/10 px-2 py-0.5 text-[11px] text-white/80">
+                    {persona.name}
+                  </span>
+                ))}
+              </div>
+            )}
+
+            {editingId === template.id && (
+              <div className="mt-3 space-y-3 border-t border-brand-stroke/40 pt-3">
+                <label className="flex cursor-pointer items-center gap-2 text-xs text-white">
+                  <input
+                    type="checkbox"
+                    checked={template.isDefault}
+                    onChange={() => void updateTemplate(template, { isDefault: !template.isDefault })}
+                  />
+                  {workspaceId ? "Default for this workspace" : "Default for my exports"}
+                </label>
+                <div>
+                  <p className="mb-1 text-[11px] font-semibold uppercase tracking-wide text-brand-muted">Personas</p>
+                  {personas.length === 0 && <p className="text-xs text-brand-muted">No personas yet.</p>}
+                  {personas.map((persona) => (
+                    <label key={persona.id} className="flex cursor-pointer items-center gap-2 py-0.5 text-xs text-white">
+                      <input
+                        type="checkbox"
+                        checked={template.personas.some((entry) => entry.id === persona.id)}
+                        onChange={() => togglePersona(template, persona.id)}
+                      />
+                      <span className="truncate">{persona.name}</span>
+                    </label>
+                  ))}
+                </div>
+                <div className="space-y-2">
+                  <p className="text-[11px] font-semibold uppercase tracking-wide text-brand-muted">Title page</p>
+                  <label className="flex cursor-pointer items-center gap-2 text-xs text-white">
+                    <input
+                      type="checkbox"
+                      checked={titlePageDraft.enabled}
+                      onChange={(event) => setTitlePageDraft((prev) => ({ ...prev, enabled: event.target.checked }))}
+                    />
+                    Start exports with a title page
+                  </label>
+                  {titlePageDraft.enabled && (
+                    <>
+                      {textField("subtitle", "Subtitle")}
+                      {textField("preparedFor", "Prepared for")}
+                      {textField("preparedBy", "Prepared by")}
+                      <label className="flex cursor-pointer items-center gap-2 text-xs text-white">
+                        <input
+                          type="checkbox"
+                          checked={titlePageDraft.showDate}
+                          onChange={(event) => setTitlePageDraft((prev) => ({ ...prev, showDate: event.target.checked }))}
+                        />
+                        Show the export date
+                      </label>
+                    </>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => void updateTemplate(template, { titlePage: titlePageDraft })}
+                    className="rounded-full bg-white/10 px-3 py-1 text-xs font-semibold text-white transition hover:bg-white/20"
+                  >
+                    Save title page
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+import {
+  PLACEHOLDER_TYPES,
+  autofillPlaceholders,
+  validatePlaceholderValue,
+  type DocumentPlaceholders,
+  type PersonaFacts,
+  type PlaceholderType
+} from "@/lib/placeholders";
+
+type PlaceholderPanelProps = {
+  /** Entries for the placeholders currently in the document. */
+  placeholders: DocumentPlaceholders;
+  /** The active persona's facts; enables "Fill from persona". */
+  facts?: PersonaFacts | null;
+  /** Omitted when the document is read-only. */
+  onChange?: (placeholders: DocumentPlaceholders) => void;
+  /** Draws attention to unfilled entries (an export was just blocked). */
+  highlightUnresolved?: boolean;
+};
+
+const TYPE_LABELS: Record<PlaceholderType, string> = {
+  text: "Text",
+  url: "URL",
+  date: "Date",
+  price: "Price"
+};
+
+const INPUT_TYPES: Record<PlaceholderType, string> = {
+  text: "text",
+  url: "url",
+  date: "date",
+  price: "text"
+};
+
+export default function PlaceholderPanel({ placeholders, facts, onChange, highlightUnresolved = false }: PlaceholderPanelProps) {
+  const entries = Object.entries(placeholders);
+  const filledCount = entries.filter(([, entry]) => entry.value.trim()).length;
+  const autofill = autofillPlaceholders(placeholders, facts);
+
+  const update = (key: string, patch: Partial<DocumentPlaceholders[string]>) => {
+    onChange?.({ ...placeholders, [key]: { ...placeholders[key], ...patch } });
+  };
+
+  return (
+    <section className="mt-6 rounded-2xl border border-brand-stroke/40 bg-[#0A0A0A] p-4">
+      <div className="flex items-center gap-2">
+        <div className="min-w-0 flex-1">
+          <p className="text-xs font-semibold uppercase tracking-wider text-brand-muted">Placeholders</p>
+          <p className="text-sm text-white">
+            {filledCount === entries.length
+              ? "Every placeholder is filled in on copy and export."
+              : `${filledCount} of ${entries.length} filled; the rest stay in [brackets].`}
+          </p>
+        </div>
+        {onChange && autofill.filled > 0 && (
+          <button
+            type="button"
+            onClick={() => onChange(autofill.placeholders)}
+            className="inline-flex items-center gap-1.5 rounded-full border border-white/20 bg-white/5 px-3 py-1 text-xs font-semibold text-white transition hover:border-brand-blue"
+          >
+            <span className="material-symbols-outlined text-sm leading-none">person</span>
+            Fill from persona ({autofill.filled})
+          </button>
+        )}
+      </div>
+
+      <div className="mt-3 space-y-2">
+        {entries.map(([key, entry]) => {
+          const error = validatePlaceholderValue(entry.type, entry.value);
+          const unresolved = !entry.value.trim();
+          return (
+            <div key={key} className="flex flex-wrap items-start gap-2">
+              <p
+                className={cn(
+                  "w-40 shrink-0 truncate pt-2 text-sm",
+                  unresolved && highlightUnresolved ? "text-amber-400" : "text-brand-text"
+                )}
+                title={`[${entry.label}]`}
+              >
+                [{entry.label}]
+              </p>
+              <select
+                value={entry.type}
+                disabled={!onChange}
+                onChange={(event) => {
+                  const type = event.target.value as PlaceholderType;
+                  // Date inputs only hold YYYY-MM-DD, so other text is cleared when switching to one
+                  update(key, { type, value: type === "date" && !/^\d{4}-\d{2}-\d{2}$/.test(entry.value) ? "" : entry.value });
+                }}
+                className="rounded-lg border border-brand-stroke/70 bg-brand-ink px-2 py-2 text-xs text-brand-text focus:border-brand-blue focus:outline-none disabled:opacity-60"
+                aria-label={`Type of ${entry.label}`}
+              >
+                {PLACEHOLDER_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {TYPE_LABELS[type]}
+                  </option>
+                ))}
+              </select>
+              <div className="min-w-[12rem] flex-1">
+                <input
+                  type={INPUT_TYPES[entry.type]}
+                  value={entry.value}
+                  disabled={!onChange}
+                  placeholder={entry.type === "price" ? "$49" : entry.type === "url" ? "https://" : entry.label}
+                  onChange={(event) => update(key, { value: event.target.value })}
+                  className={cn(
+                    "w-full rounded-lg border bg-brand-ink px-3 py-2 text-sm text-brand-text placeholder:text-brand-muted placeholder:opacity-40 focus:border-brand-blue focus:outline-none disabled:opacity-60",
+                    error ? "border-red-400/70" : unresolved && highlightUnresolved ? "border-amber-400/70" : "border-brand-stroke/70"
+                  )}
+                />
+                {error ? <p className="mt-1 text-xs text-red-400">{error}</p> : null}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
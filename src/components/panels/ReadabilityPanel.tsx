@@ -0,0 +1,103 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+import type { ReadabilityReport } from "@/lib/readability";
+
+type ReadabilityPanelProps = {
+  report: ReadabilityReport;
+  /** True while flagged sentences are being rewritten. */
+  simplifying: boolean;
+  /** Outcome of the last simplify run, if any. */
+  status: string | null;
+  onSimplify: () => void;
+  onClose: () => void;
+};
+
+const FLAGGED_PREVIEW_LIMIT = 5;
+
+export default function ReadabilityPanel({ report, simplifying, status, onSimplify, onClose }: ReadabilityPanelProps) {
+  const { target } = report;
+  const metrics: Array<{ label: string; value: string; over?: boolean }> = [
+    { label: "Flesch-Kincaid", value: `Grade ${report.fleschKincaid}`, over: report.met === false },
+    { label: "Gunning Fog", value: String(report.gunningFog) },
+    { label: "SMOG", value: String(report.smog) },
+    {
+      label: "Avg sentence",
+      value: `${report.averageSentenceLength} words`,
+      over: target ? report.averageSentenceLength > target.maxSentenceWords : false
+    },
+    { label: "Passive voice", value: `${Math.round(report.passiveRate * 100)}%`, over: Boolean(target?.esl && report.passiveRate > 0.1) },
+    { label: "Idioms", value: String(report.idioms.length), over: Boolean(target?.esl && report.idioms.length) }
+  ];
+
+  return (
+    <section className="mt-6 rounded-2xl border border-brand-stroke/40 bg-[#0A0A0A] p-4" aria-live="polite">
+      <div className="flex items-start gap-2">
+        <div className="min-w-0 flex-1">
+          <p className="text-xs font-semibold uppercase tracking-wider text-brand-muted">Readability</p>
+          <p className="text-sm text-white">
+            {!report.sentences
+              ? "Write a few sentences to score this draft."
+              : target
+                ? report.met
+                  ? `Reads at the ${target.label} level.`
+                  : `Reads above the ${target.label} level.`
+                : "Pick a grade level in settings to flag sentences."}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded-full p-1 text-brand-muted transition hover:bg-white/10 hover:text-white"
+          aria-label="Close readability"
+          title="Close readability"
+        >
+          <span className="material-symbols-outlined text-base leading-none">close</span>
+        </button>
+      </div>
+
+      <div className="mt-3 grid grid-cols-2 gap-2 sm:grid-cols-3">
+        {metrics.map((metric) => (
+          <div key={metric.label} className="rounded-xl border border-brand-stroke/40 px-3 py-2">
+            <p className="text-[10px] font-bold uppercase tracking-wider text-white/40">{metric.label}</p>
+            <p className={cn("text-sm font-semibold", metric.over ? "text-amber-400" : "text-white")}>{metric.value}</p>
+          </div>
+        ))}
+      </div>
+
+      {target?.esl && report.idioms.length ? (
+        <p className="mt-3 text-xs text-brand-muted">Idioms: {report.idioms.map((idiom) => `"${idiom}"`).join(", ")}</p>
+      ) : null}
+
+      {report.flagged.length ? (
+        <div className="mt-4 space-y-2">
+          <p className="text-xs text-brand-muted">
+            {report.flagged.length} {report.flagged.length === 1 ? "sentence misses" : "sentences miss"} the target
+          </p>
+          {report.flagged.slice(0, FLAGGED_PREVIEW_LIMIT).map((sentence) => (
+            <div key={`${sentence.from}:${sentence.to}`} className="rounded-xl bg-white/5 px-3 py-2">
+              <p className="line-clamp-2 text-sm text-brand-text">{sentence.text}</p>
+              <p className="mt-1 text-xs text-amber-400">{sentence.reasons.join(" · ")}</p>
+            </div>
+          ))}
+          {report.flagged.length > FLAGGED_PREVIEW_LIMIT && (
+            <p className="text-xs text-brand-muted">and {report.flagged.length - FLAGGED_PREVIEW_LIMIT} more highlighted in the draft</p>
+          )}
+        </div>
+      ) : null}
+
+      <div className="mt-4 flex items-center justify-end gap-3">
+        {status && <span className="text-xs text-brand-muted">{status}</span>}
+        <button
+          type="button"
+          onClick={onSimplify}
+          disabled={simplifying || !report.flagged.length}
+          className="inline-flex items-center gap-1.5 rounded-full border border-white/20 bg-white/5 px-3 py-1.5 text-xs font-semibold text-white transition hover:border-brand-blue disabled:cursor-default disabled:opacity-40 disabled:hover:border-white/20"
+        >
+          <span className="material-symbols-outlined text-sm leading-none">{simplifying ? "progress_activity" : "auto_fix_high"}</span>
+          {simplifying ? "Simplifying…" : "Simplify flagged"}
+        </button>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,288 @@
+"use client";
+
+import { useEffect, useRef, useState, type FormEvent } from "react";
+import type { FolderSummary, SourceSummary } from "@/types/writer";
+import { cn, formatTimestamp, readApiErrorMessage } from "@/lib/utils";
+
+type SourcesPanelProps = {
+  personas: Array<{ id: string; name: string }>;
+  folders: FolderSummary[];
+  // Sources are listed per workspace, so switching workspaces reloads the list
+  workspaceId: string | null;
+};
+
+const kindIcons: Record<SourceSummary["kind"], string> = {
+  pdf: "picture_as_pdf",
+  docx: "article",
+  md: "markdown",
+  txt: "notes",
+  url: "link"
+};
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export default function SourcesPanel({ personas, folders, workspaceId }: SourcesPanelProps) {
+  const [loaded, setLoaded] = useState<{ key: string; sources: SourceSummary[]; error: string | null } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [urlValue, setUrlValue] = useState("");
+  const [attachingId, setAttachingId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const listKey = workspaceId ?? "personal";
+  const current = loaded && loaded.key === listKey ? loaded : null;
+  const sources = current?.sources ?? [];
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetch("/api/sources", { signal: controller.signal, cache: "no-store" })
+      .then(async (response) => {
+        const payload = await response.json().catch(() => null);
+        if (!response.ok) {
+          throw new Error(readApiErrorMessage(payload, "Unable to load sources."));
+        }
+        setLoaded({ key: listKey, sources: Array.isArray(payload?.sources) ? payload.sources : [], error: null });
+      })
+      .catch((error: Error) => {
+        if (controller.signal.aborted) return;
+        setLoaded({ key: listKey, sources: [], error: error.message });
+      });
+    return () => controller.abort();
+  }, [listKey]);
+
+  const replaceSources = (update: (list: SourceSummary[]) => SourceSummary[]) => {
+    setLoaded((prev) => (prev && prev.key === listKey ? { ...prev, sources: update(prev.sources) } : prev));
+  };
+
+  const submitSource = async (init: RequestInit) => {
+    setBusy(true);
+    setActionError(null);
+    try {
+      const response = await fetch("/api/sources", { method: "POST", ...init });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload?.source) {
+        throw new Error(readApiErrorMessage(payload, "Unable to add that source."));
+      }
+      replaceSources((list) => [payload.source as SourceSummary, ...list]);
+      return true;
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : "Unable to add that source.");
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFileChange = async (files: FileList | null) => {
+    const file = files?.[0];
+    if (!file) return;
+    const form = new FormData();
+    form.append("file", file);
+    await submitSource({ body: form });
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const handleAddUrl = async (event: FormEvent) => {
+    event.preventDefault();
+    const url = urlValue.trim();
+    if (!url) return;
+    const added = await submitSource({
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ url })
+    });
+    if (added) setUrlValue("");
+  };
+
+  const updateAttachments = async (source: SourceSummary, personaIds: string[], folderIds: string[]) => {
+    setActionError(null);
+    try {
+      const response = await fetch(`/api/sources/${source.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ personaIds, folderIds })
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload?.source) {
+        throw new Error(readApiErrorMessage(payload, "Unable to update that source."));
+      }
+      replaceSources((list) => list.map((item) => (item.id === source.id ? (payload.source as SourceSummary) : item)));
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : "Unable to update that source.");
+    }
+  };
+
+  const togglePersona = (source: SourceSummary, personaId: string) => {
+    const ids = source.personas.map((persona) => persona.id);
+    const next = ids.includes(personaId) ? ids.filter((id) => id !== personaId) : [...ids, personaId];
+    void updateAttachments(source, next, source.folders.map((folder) => folder.id));
+  };
+
+  const toggleFolder = (source: SourceSummary, folderId: string) => {
+    const ids = source.folders.map((folder) => folder.id);
+    const next = ids.includes(folderId) ? ids.filter((id) => id !== folderId) : [...ids, folderId];
+    void updateAttachments(source, source.personas.map((persona) => persona.id), next);
+  };
+
+  const handleDelete = async (source: SourceSummary) => {
+    if (!window.confirm(`Delete "${source.title}"? Personas and folders using it will stop referencing it.`)) return;
+    setActionError(null);
+    try {
+      const response = await fetch(`/api/sources/${source.id}`, { method: "DELETE" });
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new Error(readApiErrorMessage(payload, "Unable to delete that source."));
+      }
+      replaceSources((list) => list.filter((item) => item.id !== source.id));
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : "Unable to delete that source.");
+    }
+  };
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex-shrink-0 space-y-2 px-3 pb-3 pt-2">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".pdf,.docx,.md,.markdown,.txt"
+          className="hidden"
+          onChange={(event) => void handleFileChange(event.target.files)}
+        />
+        <button
+          type="button"
+          disabled={busy}
+          onClick={() => fileInputRef.current?.click()}
+          className="flex w-full items-center justify-center gap-2 rounded-full border border-brand-stroke/70 bg-brand-ink px-4 py-2 text-sm text-brand-text transition hover:border-brand-blue hover:text-brand-blue disabled:opacity-50"
+        >
+          <span className="material-symbols-outlined text-base leading-none">upload_file</span>
+          {busy ? "Adding…" : "Upload PDF, DOCX or text"}
+        </button>
+        <form onSubmit={handleAddUrl} className="flex items-center gap-2">
+          <input
+            type="url"
+            value={urlValue}
+            onChange={(event) => setUrlValue(event.target.value)}
+            placeholder="https://example.com/brand-guide"
+            className="min-w-0 flex-1 rounded-full border border-brand-stroke/60 bg-brand-background/60 px-3 py-1.5 text-sm text-white placeholder:text-brand-muted focus:border-brand-blue focus:outline-none"
+          />
+          <button
+            type="submit"
+            disabled={busy || !urlValue.trim()}
+            className="rounded-full bg-white/10 px-3 py-1.5 text-sm font-semibold text-white transition hover:bg-white/20 disabled:opacity-40"
+          >
+            Add
+          </button>
+        </form>
+        {(actionError || current?.error) && <p className="text-xs text-red-400">{actionError ?? current?.error}</p>}
+      </div>
+
+      <div className="flex-1 min-h-0 space-y-2 overflow-y-auto bg-[#131313] px-3 pt-[4px]">
+        {!current && <p className="px-1 py-2 text-sm text-brand-muted">Loading sources…</p>}
+        {current && !current.error && sources.length === 0 && (
+          <p className="px-1 py-2 text-sm text-brand-muted">
+            Upload brand guidelines or product sheets, then attach them to a persona or folder so compose and rewrite can draw
+            on them.
+          </p>
+        )}
+        {sources.map((source) => (
+          <div key={source.id} className="rounded-2xl border border-brand-stroke/40 bg-[#0A0A0A] p-3 text-sm">
+            <div className="flex items-start gap-2">
+              <span className="material-symbols-outlined mt-0.5 text-base leading-none text-white/60">{kindIcons[source.kind]}</span>
+              <div className="min-w-0 flex-1">
+                <p className="truncate font-semibold text-white" title={source.url ?? source.fileName ?? source.title}>
+                  {source.title}
+                </p>
+                <p className="text-xs text-brand-muted">
+                  {formatSize(source.byteSize)} · {formatTimestamp(source.createdAt)}
+                </p>
+              </div>
+              {source.canEdit && (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => setAttachingId((prev) => (prev === source.id ? null : source.id))}
+                    className={cn(
+                      "rounded-full p-1 transition hover:bg-white/10 hover:text-white",
+                      attachingId === source.id ? "text-white" : "text-brand-muted"
+                    )}
+                    aria-label="Attach to personas and folders"
+                    title="Attach to personas and folders"
+                  >
+                    <span className="material-symbols-outlined text-base leading-none">attach_file</span>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => void handleDelete(source)}
+                    className="rounded-full p-1 text-brand-muted transition hover:bg-white/10 hover:text-[#f00]"
+                    aria-label="Delete source"
+                    title="Delete source"
+                  >
+                    <span className="material-symbols-outlined text-base leading-none">delete</span>
+                  </button>
+                </>
+              )}
+            </div>
+
+            {(source.personas.length > 0 || source.folders.length > 0) && (
+              <div className="mt-2 flex flex-wrap gap-1">
+                {source.personas.map((persona) => (
+                  <span key={persona.id} className="rounded-full bg-white/10 px-2 py-0.5 text-[11px] text-white/80">
+                    {persona.name}
+                  </span>
+                ))}
+                {source.folders.map((folder) => (
+                  <span
+                    key={folder.id}
+                    className="inline-flex items-center gap-1 rounded-full bg-white/10 px-2 py-0.5 text-[11px] text-white/80"
+                  >
+                    <span className="material-symbols-outlined leading-none" style={{ fontSize: "11px" }}>
+                      folder
+                    </span>
+                    {folder.name}
+                  </span>
+                ))}
+              </div>
+            )}
+
+            {attachingId === source.id && (
+              <div className="mt-3 space-y-3 border-t border-brand-stroke/40 pt-3">
+                <div>
+                  <p className="mb-1 text-[11px] font-semibold uppercase tracking-wide text-brand-muted">Personas</p>
+                  {personas.length === 0 && <p className="text-xs text-brand-muted">No personas yet.</p>}
+                  {personas.map((persona) => (
+                    <label key={persona.id} className="flex cursor-pointer items-center gap-2 py-0.5 text-xs text-white">
+                      <input
+                        type="checkbox"
+                        checked={source.personas.some((entry) => entry.id === persona.id)}
+                        onChange={() => togglePersona(source, persona.id)}
+                      />
+                      <span className="truncate">{persona.name}</span>
+                    </label>
+                  ))}
+                </div>
+                <div>
+                  <p className="mb-1 text-[11px] font-semibold uppercase tracking-wide text-brand-muted">Folders</p>
+                  {folders.length === 0 && <p className="text-xs text-brand-muted">No folders yet.</p>}
+                  {folders.map((folder) => (
+                    <label key={folder.id} className="flex cursor-pointer items-center gap-2 py-0.5 text-xs text-white">
+                      <input
+                        type="checkbox"
+                        checked={source.folders.some((entry) => entry.id === folder.id)}
+                        onChange={() => toggleFolder(source, folder.id)}
+                      />
+                      <span className="truncate">{folder.name}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
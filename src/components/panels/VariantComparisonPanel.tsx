@@ -0,0 +1,190 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { ComposeVariant } from "@/types/writer";
+import { cn } from "@/lib/utils";
+import { mergeVariantParagraphs, splitVariantParagraphs } from "@/lib/variants";
+
+type VariantComparisonPanelProps = {
+  prompt: string;
+  variants: ComposeVariant[];
+  /** True while variants are still streaming in. */
+  loading: boolean;
+  onAccept: (content: string) => void;
+  onDiscard: (index: number) => void;
+  onClose: () => void;
+};
+
+export default function VariantComparisonPanel({
+  prompt,
+  variants,
+  loading,
+  onAccept,
+  onDiscard,
+  onClose
+}: VariantComparisonPanelProps) {
+  const [merging, setMerging] = useState(false);
+  // Row -> variant index; rows without an entry fall back to the first variant that has one
+  const [picks, setPicks] = useState<Record<number, number | null>>({});
+
+  const ready = variants.filter((variant) => variant.status === "ready" && variant.content.trim());
+  const paragraphs = useMemo(() => {
+    const byIndex: string[][] = [];
+    variants.forEach((variant) => {
+      byIndex[variant.index] = variant.status === "ready" ? splitVariantParagraphs(variant.content) : [];
+    });
+    return byIndex;
+  }, [variants]);
+  const rowCount = ready.reduce((max, variant) => Math.max(max, paragraphs[variant.index]?.length ?? 0), 0);
+  const resolvedPicks = Array.from({ length: rowCount }, (_, row) => {
+    if (row in picks) return picks[row];
+    return ready.find((variant) => paragraphs[variant.index]?.[row])?.index ?? null;
+  });
+  const merged = merging ? mergeVariantParagraphs(paragraphs, resolvedPicks) : "";
+
+  return (
+    <aside className="flex w-full flex-col gap-3 rounded-2xl border border-brand-stroke/60 bg-brand-panel p-4 lg:sticky lg:top-8 lg:max-h-[calc(100vh-4rem)] lg:w-[380px] lg:shrink-0">
+      <div className="flex items-start gap-2">
+        <div className="min-w-0 flex-1">
+          <p className="text-xs font-semibold uppercase tracking-wider text-brand-muted">
+            {loading ? "Writing variants…" : `${variants.length} ${variants.length === 1 ? "variant" : "variants"}`}
+          </p>
+          <p className="truncate text-sm text-white" title={prompt}>
+            {prompt}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded-full p-1 text-brand-muted transition hover:bg-white/10 hover:text-white"
+          aria-label="Close variants"
+          title="Close variants"
+        >
+          <span className="material-symbols-outlined text-base leading-none">close</span>
+        </button>
+      </div>
+
+      <div className="flex gap-1 rounded-full bg-black/30 p-1 text-xs font-semibold">
+        <button
+          type="button"
+          onClick={() => setMerging(false)}
+          className={cn("flex-1 rounded-full px-3 py-1 transition", !merging ? "bg-white/10 text-white" : "text-brand-muted hover:text-white")}
+        >
+          Compare
+        </button>
+        <button
+          type="button"
+          onClick={() => setMerging(true)}
+          disabled={loading || ready.length < 2}
+          className={cn(
+            "flex-1 rounded-full px-3 py-1 transition disabled:opacity-40",
+            merging ? "bg-white/10 text-white" : "text-brand-muted hover:text-white"
+          )}
+        >
+          Merge
+        </button>
+      </div>
+
+      <div className="min-h-0 flex-1 space-y-3 overflow-y-auto">
+        {!merging &&
+          variants.map((variant) => (
+            <div key={variant.index} className="rounded-2xl border border-brand-stroke/40 bg-[#0A0A0A] p-3 text-sm">
+              <div className="mb-2 flex items-center gap-2">
+                <span className="rounded-full bg-white/10 px-2 py-0.5 text-[11px] font-semibold text-white/80">
+                  {variant.index + 1}. {variant.label}
+                </span>
+                <span className="flex-1" />
+                {variant.length && (
+                  <span
+                    className={cn("text-[11px]", variant.length.met ? "text-brand-muted" : "text-red-400")}
+                    title={variant.length.met ? "Fits the length brief" : "Misses the length brief"}
+                  >
+                    {variant.length.characterLimit !== null ? `${variant.length.characters} chars` : `${variant.length.words} words`}
+                  </span>
+                )}
+                <button
+                  type="button"
+                  onClick={() => onAccept(variant.content)}
+                  disabled={variant.status !== "ready"}
+                  className="rounded-full p-1 text-brand-muted transition hover:bg-white/10 hover:text-white disabled:opacity-40"
+                  aria-label="Accept variant"
+                  title="Accept variant"
+                >
+                  <span className="material-symbols-outlined text-base leading-none">check</span>
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onDiscard(variant.index)}
+                  disabled={variant.status === "streaming"}
+                  className="rounded-full p-1 text-brand-muted transition hover:bg-white/10 hover:text-[#f00] disabled:opacity-40"
+                  aria-label="Discard variant"
+                  title="Discard variant"
+                >
+                  <span className="material-symbols-outlined text-base leading-none">delete</span>
+                </button>
+              </div>
+              {variant.status === "failed" ? (
+                <p className="text-xs text-red-400">This variant could not be generated.</p>
+              ) : (
+                <p className={cn("whitespace-pre-wrap text-brand-text", variant.status === "streaming" ? "shimmer-loading" : null)}>
+                  {variant.content || "…"}
+                </p>
+              )}
+            </div>
+          ))}
+
+        {merging && (
+          <>
+            <p className="text-xs text-brand-muted">Pick a paragraph for each position, or skip it. The merged draft follows this order.</p>
+            {resolvedPicks.map((picked, row) => (
+              <div key={row} className="rounded-2xl border border-brand-stroke/40 bg-[#0A0A0A] p-2 text-sm">
+                <div className="mb-1 flex items-center gap-2 px-1">
+                  <span className="text-[11px] font-semibold uppercase tracking-wide text-brand-muted">Paragraph {row + 1}</span>
+                  <span className="flex-1" />
+                  <button
+                    type="button"
+                    onClick={() => setPicks((prev) => ({ ...prev, [row]: null }))}
+                    className={cn("text-[11px] transition", picked === null ? "text-white" : "text-brand-muted hover:text-white")}
+                  >
+                    Skip
+                  </button>
+                </div>
+                {ready.map((variant) => {
+                  const text = paragraphs[variant.index]?.[row];
+                  if (!text) return null;
+                  return (
+                    <button
+                      key={variant.index}
+                      type="button"
+                      onClick={() => setPicks((prev) => ({ ...prev, [row]: variant.index }))}
+                      className={cn(
+                        "mt-1 block w-full rounded-xl border px-2 py-1.5 text-left text-xs transition",
+                        picked === variant.index
+                          ? "border-brand-blue/70 bg-brand-blue/10 text-white"
+                          : "border-transparent text-brand-muted hover:bg-white/5 hover:text-white"
+                      )}
+                    >
+                      <span className="mr-1 font-semibold">{variant.index + 1}.</span>
+                      <span className="whitespace-pre-wrap">{text}</span>
+                    </button>
+                  );
+                })}
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+
+      {merging && (
+        <button
+          type="button"
+          onClick={() => onAccept(merged)}
+          disabled={!merged.trim()}
+          className="rounded-full bg-brand-blue px-4 py-2 text-sm font-semibold text-white transition hover:bg-brand-blue/80 disabled:opacity-40"
+        >
+          Use merged draft
+        </button>
+      )}
+    </aside>
+  );
+}
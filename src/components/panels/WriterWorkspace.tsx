@@ -7,11 +7,46 @@ import { signOut } from "next-auth/react";
 import NextImage from "next/image";
 import { MinusSmallIcon } from "@heroicons/react/24/outline";
 import DocumentEditor from "../editors/DocumentEditor";
+import type { MarkdownEditorCollaboration } from "../editors/MarkdownEditor";
 import ComposeBar from "../forms/ComposeBar";
+import type { AppliedPromptTemplate } from "../forms/PromptTemplatePicker";
 import SettingsSheet from "../modals/SettingsSheet";
-import { ComposerSettingsInput } from "@/lib/validators";
-import { DocumentFolderReference, FolderSummary, OutputPlaceholder, WriterOutput } from "@/types/writer";
-import { cn, formatTimestamp, smartTitleFromPrompt, deriveTitleFromContent, generateDownloadFilename, addPromptToHistory } from "@/lib/utils";
+import WorkspaceDialog from "../modals/WorkspaceDialog";
+import FolderPlaceholdersDialog from "../modals/FolderPlaceholdersDialog";
+import BatchComposeDialog from "../modals/BatchComposeDialog";
+import SourcesPanel from "./SourcesPanel";
+import ExportTemplatesPanel from "./ExportTemplatesPanel";
+import VariantComparisonPanel from "./VariantComparisonPanel";
+import { ComposerSettingsInput, type ComposeGroundingInput, type DocumentSort, type ExportFormat } from "@/lib/validators";
+import { EXPORT_FORMATS } from "@/lib/export/formats";
+import {
+  CollabSession,
+  ComposeVariant,
+  DocumentFolderReference,
+  DocumentSearchResult,
+  FolderSummary,
+  GroundingSource,
+  PersonaSearchResult,
+  PromptHistorySummary,
+  SearchSnippet,
+  WorkspaceInvitationSummary,
+  WorkspaceSummary,
+  WriterOutput
+} from "@/types/writer";
+import { cn, formatTimestamp, smartTitleFromPrompt, deriveTitleFromContent, generateDownloadFilename, addPromptToHistory, readApiErrorMessage } from "@/lib/utils";
+import { isAbortError, readEventStream } from "@/lib/sse";
+import { isTerminalJobStatus, type JobSummary } from "@/lib/jobs/types";
+import { wordTargetRange, type LengthReport } from "@/lib/length-limits";
+import { channelPreset } from "@/lib/channel-presets";
+import {
+  PERSONA_FACT_FIELDS,
+  readDocumentPlaceholders,
+  resolvePlaceholders,
+  syncPlaceholders,
+  type DocumentPlaceholders,
+  type PersonaFacts
+} from "@/lib/placeholders";
+import type { DocumentAccess } from "@/lib/document-access";
 
 type WriterWorkspaceProps = {
   user: {
@@ -19,6 +54,8 @@ type WriterWorkspaceProps = {
   };
   initialOutputs?: WriterOutput[];
   isGuest?: boolean;
+  /** From a workspace invite link the page was opened with. */
+  pendingInvitation?: { id: string; token: string } | null;
 };
 
 type SavedDoc = {
@@ -34,6 +71,9 @@ type SavedDoc = {
   styleSummary?: string | null;
   pinned?: boolean;
   folders: DocumentFolderReference[];
+  access?: DocumentAccess;
+  shared?: boolean;
+  placeholders?: DocumentPlaceholders;
 };
 
 type StyleDocInput = {
@@ -45,7 +85,9 @@ type StyleDocInput = {
   [key: string]: unknown;
 };
 
-type SidebarTab = "docs" | "styles" | "personas";
+type SidebarTab = "docs" | "styles" | "personas" | "sources" | "templates";
+
+type BulkExportTarget = { folderId: string } | { documentIds: string[] };
 
 type ActiveStyle = {
   id: string;
@@ -134,6 +176,55 @@ function readLocalDocs(): SavedDoc[] {
   }
 }
 
+/** Maps a document from the documents API (list, single fetch) onto the sidebar's SavedDoc shape. */
+function mapApiDocument(doc: any, existing?: SavedDoc): SavedDoc {
+  const folderRefs: DocumentFolderReference[] = Array.isArray(doc.folders)
+    ? doc.folders
+        .map((folder: any) => {
+          if (!folder || typeof folder !== "object") {
+            return null;
+          }
+          const folderId = typeof folder.id === "string" ? folder.id : null;
+          const folderName = typeof folder.name === "string" ? folder.name : null;
+          if (!folderId || !folderName) {
+            return null;
+          }
+          return {
+            id: folderId,
+            name: folderName
+          };
+        })
+        .filter(
+          (folder: DocumentFolderReference | null): folder is DocumentFolderReference => Boolean(folder)
+        )
+    : [];
+  return {
+    id: doc.id,
+    title: doc.title ?? "",
+    createdAt: doc.createdAt ?? new Date().toISOString(),
+    lastEditedAt: existing?.lastEditedAt ?? doc.updatedAt ?? doc.createdAt ?? new Date().toISOString(),
+    prompt: doc.prompt ?? "",
+    content: doc.content ?? "",
+    settings: normalizeSettings({
+      marketTier: doc.tone ?? null,
+      characterLength: doc.characterLength ?? null,
+      wordLength: doc.wordLength ?? null,
+      gradeLevel: doc.gradeLevel ?? null,
+      benchmark: doc.benchmark ?? null,
+      avoidWords: doc.avoidWords ?? null,
+      channelPreset: doc.channelPreset ?? null
+    }),
+    writingStyle: doc.writingStyle ?? null,
+    styleSummary: doc.styleSummary ?? null,
+    styleTitle: doc.styleTitle ?? null,
+    pinned: typeof doc.pinned === "boolean" ? doc.pinned : existing?.pinned ?? false,
+    folders: folderRefs,
+    access: doc.access === "editor" || doc.access === "viewer" ? doc.access : "owner",
+    shared: Boolean(doc.shared),
+    placeholders: readDocumentPlaceholders(doc.placeholders)
+  };
+}
+
 function persistLocalDocEntry(doc: SavedDoc) {
   if (!canUseLocalStorage()) return;
   try {
@@ -160,7 +251,8 @@ const defaultSettings: ComposerSettingsInput = {
   wordLength: null,
   gradeLevel: null,
   benchmark: null,
-  avoidWords: null
+  avoidWords: null,
+  channelPreset: null
 };
 
 function normalizeSettings(next?: Partial<ComposerSettingsInput>): ComposerSettingsInput {
@@ -170,7 +262,9 @@ function normalizeSettings(next?: Partial<ComposerSettingsInput>): ComposerSetti
     wordLength: next?.wordLength ?? null,
     gradeLevel: next?.gradeLevel ?? null,
     benchmark: next?.benchmark ?? null,
-    avoidWords: next?.avoidWords ?? null
+    avoidWords: next?.avoidWords ?? null,
+    // Stored documents may carry a preset id this build no longer knows
+    channelPreset: channelPreset(next?.channelPreset)?.id ?? null
   };
 }
 
@@ -181,23 +275,67 @@ function hasCustomOptions(settings: ComposerSettingsInput): boolean {
     settings.benchmark ||
     settings.avoidWords ||
     settings.characterLength ||
-    settings.wordLength
+    settings.wordLength ||
+    settings.channelPreset
   );
 }
 
-function sortSavedDocs(docs: SavedDoc[]): SavedDoc[] {
+// Mirrors the server ordering in src/lib/pagination.ts so pages merge into the list in place
+function sortSavedDocs(docs: SavedDoc[], sort: DocumentSort = "pinned"): SavedDoc[] {
+  const editedAt = (doc: SavedDoc) => new Date(doc.lastEditedAt ?? doc.createdAt).getTime();
   return [...docs].sort((a, b) => {
-    const aPinned = Boolean(a.pinned);
-    const bPinned = Boolean(b.pinned);
-    if (aPinned !== bPinned) {
-      return aPinned ? -1 : 1;
+    if (sort === "title") {
+      return a.title.localeCompare(b.title, undefined, { sensitivity: "base" }) || (a.id < b.id ? -1 : 1);
     }
-    const aTime = new Date(a.lastEditedAt ?? a.createdAt).getTime();
-    const bTime = new Date(b.lastEditedAt ?? b.createdAt).getTime();
-    return bTime - aTime;
+    if (sort === "created") {
+      return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+    }
+    if (sort === "pinned") {
+      const aPinned = Boolean(a.pinned);
+      const bPinned = Boolean(b.pinned);
+      if (aPinned !== bPinned) {
+        return aPinned ? -1 : 1;
+      }
+    }
+    return editedAt(b) - editedAt(a);
   });
 }
 
+/** A paginated slice of the sidebar: all docs, all styles, or the docs in one folder. */
+type DocFeed = { kind: "docs" | "styles"; folderId?: string | null };
+
+type DocFeedState = { nextCursor: string | null; loading: boolean };
+
+const DOC_PAGE_SIZE = 25;
+
+const documentSortLabels: Record<DocumentSort, string> = {
+  pinned: "Pinned first",
+  updated: "Last edited",
+  created: "Date created",
+  title: "Title"
+};
+
+function docFeedKey(feed: DocFeed): string {
+  return feed.folderId ? `folder:${feed.folderId}` : feed.kind;
+}
+
+function docPageQuery(feed: DocFeed, sort: DocumentSort, cursor?: string | null): string {
+  const params = new URLSearchParams({ kind: feed.kind, sort, limit: String(DOC_PAGE_SIZE) });
+  if (feed.folderId) params.set("folderId", feed.folderId);
+  if (cursor) params.set("cursor", cursor);
+  return params.toString();
+}
+
+function mapApiFolder(folder: any): FolderSummary {
+  return {
+    id: folder.id,
+    name: folder.name ?? "Untitled folder",
+    createdAt: folder.createdAt ?? new Date().toISOString(),
+    documentCount: typeof folder.documentCount === "number" ? folder.documentCount : 0,
+    pinned: folder.pinned ?? false
+  };
+}
+
 function formatErrorMessage(source: unknown, fallback = "Unable to complete that request."): string {
   if (typeof source === "string" && source.trim()) {
     return source;
@@ -260,58 +398,54 @@ function fallbackStyleDescription(description: string | null, content: string, s
   return snippet ? `${snippet}...` : "Use the tone, pacing, and rhythm captured in this saved style.";
 }
 
-function derivePlaceholderMeta(content: string): OutputPlaceholder[] {
-  const meta: OutputPlaceholder[] = [];
-  const regex = /\[([^\]]+)]/g;
-  let match: RegExpExecArray | null;
-  let index = 0;
-  while ((match = regex.exec(content)) !== null) {
-    const label = (match[1] ?? "").trim() || "missing info";
-    meta.push({ id: `ph-${index++}`, label });
+function describeRulesFixed(fixed: number): string {
+  return fixed > 0 ? ` Fixed ${fixed} house-rule ${fixed === 1 ? "issue" : "issues"}.` : "";
+}
+
+function describeLengthMiss(report: LengthReport | null | undefined): string {
+  if (!report || report.met) return "";
+  const misses: string[] = [];
+  if (report.characterLimit !== null && report.characters > report.characterLimit) {
+    misses.push(`${report.characters} of ${report.characterLimit} characters`);
   }
-  return meta;
+  if (report.wordTarget !== null) {
+    const range = wordTargetRange(report.wordTarget);
+    if (report.words < range.min || report.words > range.max) {
+      misses.push(`${report.words} words against a ${report.wordTarget}-word target`);
+    }
+  }
+  return ` Length brief still missed after ${report.revisions} ${report.revisions === 1 ? "revision" : "revisions"}: ${misses.join(", ")}.`;
 }
 
 function ensurePlaceholderState(output: WriterOutput): WriterOutput {
-  const placeholderMeta = derivePlaceholderMeta(output.content);
-  const existingValues = output.placeholderValues ?? {};
-  const nextValues: Record<string, string> = {};
-  placeholderMeta.forEach((placeholder) => {
-    nextValues[placeholder.id] = existingValues[placeholder.id] ?? "";
-  });
   return {
     ...output,
     instanceKey: output.instanceKey ?? output.id,
-    placeholderMeta,
-    placeholderValues: nextValues
+    placeholders: syncPlaceholders(output.content, output.placeholders)
   };
 }
 
 function resolveOutputContent(output: WriterOutput): string {
-  const meta = output.placeholderMeta ?? [];
-  const values = output.placeholderValues ?? {};
-  if (!meta.length) {
-    return output.content;
+  return resolvePlaceholders(output.content, output.placeholders);
+}
+
+/** Follows a background job's events until it finishes; null when the stream ends before a final status. */
+async function waitForJob(jobId: string): Promise<JobSummary | null> {
+  const response = await fetch(`/api/jobs/${jobId}/events`);
+  if (!response.ok) {
+    const payload = await response.json().catch(() => null);
+    throw new Error(readApiErrorMessage(payload, "Unable to follow the job."));
   }
-  
-  // Create a map of placeholder labels to their values for more reliable matching
-  const labelToValue = new Map<string, string>();
-  meta.forEach((placeholder) => {
-    const value = values[placeholder.id];
-    if (value && value.trim()) {
-      labelToValue.set(placeholder.label, value.trim());
+  let finalJob: JobSummary | null = null;
+  await readEventStream(response, (event) => {
+    if (event.type === "job" && event.job && isTerminalJobStatus(event.job.status)) {
+      finalJob = event.job;
     }
   });
-  
-  // Replace placeholders by matching their label content
-  return output.content.replace(/\[([^\]]+)]/g, (match, label) => {
-    const trimmedLabel = label.trim();
-    const value = labelToValue.get(trimmedLabel);
-    return value || match;
-  });
+  return finalJob;
 }
 
-export default function WriterWorkspace({ user, initialOutputs, isGuest = false }: WriterWorkspaceProps) {
+export default function WriterWorkspace({ user, initialOutputs, isGuest = false, pendingInvitation = null }: WriterWorkspaceProps) {
   const guestLimitEnabled = process.env.NEXT_PUBLIC_ENFORCE_GUEST_LIMIT === "true";
   const [composeValue, setComposeValue] = useState("");
   const [settings, setSettings] = useState<ComposerSettingsInput>(defaultSettings);
@@ -342,16 +476,35 @@ export default function WriterWorkspace({ user, initialOutputs, isGuest = false
   const [personaName, setPersonaName] = useState<string | null>(null);
   const [personaSummary, setPersonaSummary] = useState<string | null>(null);
   const [personaKeyMessaging, setPersonaKeyMessaging] = useState<PersonaKeyMessage[]>([]);
-  const [allPersonas, setAllPersonas] = useState<Array<{ id: string; name: string | null; info: string; isActive: boolean }>>([]);
+  const [allPersonas, setAllPersonas] = useState<
+    Array<{ id: string; name: string | null; info: string; isActive: boolean; facts?: PersonaFacts }>
+  >([]);
   const [savedDocs, setSavedDocs] = useState<SavedDoc[]>([]);
   const [folders, setFolders] = useState<FolderSummary[]>([]);
+  const [docSort, setDocSort] = useState<DocumentSort>("pinned");
+  const [docFeeds, setDocFeeds] = useState<Record<string, DocFeedState>>({});
+  const [folderCursor, setFolderCursor] = useState<string | null>(null);
+  const [foldersLoading, setFoldersLoading] = useState(false);
+  const [workspaces, setWorkspaces] = useState<WorkspaceSummary[]>([]);
+  const [workspaceInvitations, setWorkspaceInvitations] = useState<WorkspaceInvitationSummary[]>([]);
+  const [activeWorkspaceId, setActiveWorkspaceId] = useState<string | null>(null);
+  const [workspaceDialogOpen, setWorkspaceDialogOpen] = useState(Boolean(pendingInvitation));
   const [folderDialogState, setFolderDialogState] = useState<{ assignActiveDocument?: boolean; documentId?: string | null } | null>(null);
   const [folderDialogError, setFolderDialogError] = useState<string | null>(null);
   const [folderDialogLoading, setFolderDialogLoading] = useState(false);
   const [folderPickerOpen, setFolderPickerOpen] = useState(false);
+  const [importingDocuments, setImportingDocuments] = useState(false);
+  const [bulkExporting, setBulkExporting] = useState(false);
+  const [placeholderFolderId, setPlaceholderFolderId] = useState<string | null>(null);
+  const [batchDialogOpen, setBatchDialogOpen] = useState(false);
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [sidebarTab, setSidebarTab] = useState<SidebarTab>("docs");
   const [activeStyle, setActiveStyle] = useState<ActiveStyle | null>(null);
+  const [composeGrounding, setComposeGrounding] = useState<ComposeGroundingInput>({ enabled: false, folderId: null });
+  const [composeVariantCount, setComposeVariantCount] = useState(1);
+  const [repairRules, setRepairRules] = useState(false);
+  // Alternative drafts waiting in the comparison view beside the editor
+  const [variantSession, setVariantSession] = useState<{ prompt: string; variants: ComposeVariant[]; loading: boolean } | null>(null);
   const [activePersonaId, setActivePersonaId] = useState<string | null>(null);
   const [isDesktop, setIsDesktop] = useState(true);
   const [activeDocumentId, setActiveDocumentId] = useState<string | null>(() => initialBlankDocRef.current?.id ?? null);
@@ -371,8 +524,13 @@ export default function WriterWorkspace({ user, initialOutputs, isGuest = false
   const editorRef = useRef<any>(null); // Reference to the TipTap editor instance
   const outputsRef = useRef<WriterOutput[]>(outputs);
   const savedDocsRef = useRef<SavedDoc[]>([]);
+  const docSortRef = useRef<DocumentSort>("pinned");
+  // Mirrors docFeeds synchronously so scroll-triggered loads cannot request the same page twice
+  const docFeedsRef = useRef<Record<string, DocFeedState>>({});
+  const foldersLoadingRef = useRef(false);
 const lastSavedContentRef = useRef<Map<string, string>>(new Map());
   const composeInputRef = useRef<HTMLTextAreaElement>(null);
+  const composeAbortRef = useRef<AbortController | null>(null);
   const typingStartTimeRef = useRef<number | null>(null);
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const isAuthenticated = !isGuest;
@@ -392,7 +550,13 @@ const lastSavedContentRef = useRef<Map<string, string>>(new Map());
     }
     try {
       console.log("[fetchSavedDocs] Fetching docs...");
-      const response = await fetch("/api/documents", { cache: "no-store" });
+      // Reloading starts every feed over from its first page; folder feeds load again when opened
+      const sort = docSortRef.current;
+      const sidebarFeeds: DocFeed[] = [{ kind: "docs" }, { kind: "styles" }];
+      const responses = await Promise.all(
+        sidebarFeeds.map((feed) => fetch(`/api/documents?${docPageQuery(feed, sort)}`, { cache: "no-store" }))
+      );
+      const response = responses.find((entry) => !entry.ok) ?? responses[0];
       
       // Log response details for debugging
       const status = response.status;
@@ -458,52 +622,15 @@ const lastSavedContentRef = useRef<Map<string, string>>(new Map());
         return;
       }
       
-      const docs = await response.json();
+      const pages = await Promise.all(responses.map((entry) => entry.json()));
+      const docs: any[] = pages.reduce<any[]>(
+        (all, page) => all.concat(Array.isArray(page?.documents) ? page.documents : []),
+        []
+      );
       console.log("[fetchSavedDocs] fetched", docs.length, "documents from API");
-      const mapped: SavedDoc[] = (docs as any[]).map((doc) => {
-        const existing = savedDocsRef.current.find((entry) => entry.id === doc.id);
-        const folderRefs: DocumentFolderReference[] = Array.isArray(doc.folders)
-          ? doc.folders
-              .map((folder: any) => {
-                if (!folder || typeof folder !== "object") {
-                  return null;
-                }
-                const folderId = typeof folder.id === "string" ? folder.id : null;
-                const folderName = typeof folder.name === "string" ? folder.name : null;
-                if (!folderId || !folderName) {
-                  return null;
-                }
-                return {
-                  id: folderId,
-                  name: folderName
-                };
-              })
-              .filter(
-                (folder: DocumentFolderReference | null): folder is DocumentFolderReference => Boolean(folder)
-              )
-          : [];
-        return {
-          id: doc.id,
-          title: doc.title ?? "",
-          createdAt: doc.createdAt ?? new Date().toISOString(),
-          lastEditedAt: existing?.lastEditedAt ?? doc.updatedAt ?? doc.createdAt ?? new Date().toISOString(),
-          prompt: doc.prompt ?? "",
-          content: doc.content ?? "",
-          settings: normalizeSettings({
-            marketTier: doc.tone ?? null,
-            characterLength: doc.characterLength ?? null,
-            wordLength: doc.wordLength ?? null,
-            gradeLevel: doc.gradeLevel ?? null,
-            benchmark: doc.benchmark ?? null,
-            avoidWords: doc.avoidWords ?? null
-          }),
-          writingStyle: doc.writingStyle ?? null,
-          styleSummary: doc.styleSummary ?? null,
-          styleTitle: doc.styleTitle ?? null,
-          pinned: typeof doc.pinned === "boolean" ? doc.pinned : existing?.pinned ?? false,
-          folders: folderRefs
-        };
-      });
+      const mapped: SavedDoc[] = docs.map((doc) =>
+        mapApiDocument(doc, savedDocsRef.current.find((entry) => entry.id === doc.id))
+      );
       console.log("[fetchSavedDocs] mapped documents:", mapped.length);
       const regularDocs = mapped.filter((doc) => !isStyleDocument(doc));
       const styles = mapped.filter((doc) => isStyleDocument(doc));
@@ -517,7 +644,16 @@ const lastSavedContentRef = useRef<Map<string, string>>(new Map());
           savedContentMap.set(doc.id, doc.content);
         }
       });
-      setSavedDocs(sortSavedDocs(mapped));
+      setSavedDocs(sortSavedDocs(mapped, sort));
+      const feeds: Record<string, DocFeedState> = {};
+      sidebarFeeds.forEach((feed, index) => {
+        feeds[docFeedKey(feed)] = {
+          nextCursor: typeof pages[index]?.nextCursor === "string" ? pages[index].nextCursor : null,
+          loading: false
+        };
+      });
+      docFeedsRef.current = feeds;
+      setDocFeeds(feeds);
       console.log("[fetchSavedDocs] Updated savedDocs state with", mapped.length, "documents");
     } catch (error) {
       // Handle network errors or other exceptions
@@ -548,26 +684,120 @@ const lastSavedContentRef = useRef<Map<string, string>>(new Map());
         }
         return;
       }
-      const data = await response.json().catch(() => []);
-      if (Array.isArray(data)) {
-        // API already returns folders sorted by most recent assignment, so use as-is
-        setFolders(
-          data.map((folder: any) => ({
-            id: folder.id,
-            name: folder.name ?? "Untitled folder",
-            createdAt: folder.createdAt ?? new Date().toISOString(),
-            documentCount: typeof folder.documentCount === "number" ? folder.documentCount : 0,
-            pinned: folder.pinned ?? false
-          }))
-        );
+      const data = await response.json().catch(() => null);
+      if (Array.isArray(data?.folders)) {
+        // API already returns folders pinned first, then by most recent use, so use as-is
+        setFolders(data.folders.map(mapApiFolder));
+        setFolderCursor(typeof data.nextCursor === "string" ? data.nextCursor : null);
       } else {
         setFolders([]);
+        setFolderCursor(null);
       }
     } catch (error) {
       console.error("[fetchFolders] failed", error);
     }
   }, [isAuthenticated]);
 
+  const loadMoreFolders = useCallback(async () => {
+    if (!isAuthenticated || !folderCursor || foldersLoadingRef.current) return;
+    foldersLoadingRef.current = true;
+    setFoldersLoading(true);
+    try {
+      const response = await fetch(`/api/folders?cursor=${encodeURIComponent(folderCursor)}`, { cache: "no-store" });
+      if (!response.ok) {
+        console.warn("[loadMoreFolders] failed", response.status);
+        return;
+      }
+      const data = await response.json().catch(() => null);
+      const page: FolderSummary[] = Array.isArray(data?.folders) ? data.folders.map(mapApiFolder) : [];
+      setFolders((prev) => [...prev, ...page.filter((folder) => !prev.some((entry) => entry.id === folder.id))]);
+      setFolderCursor(typeof data?.nextCursor === "string" ? data.nextCursor : null);
+    } catch (error) {
+      console.error("[loadMoreFolders] failed", error);
+    } finally {
+      foldersLoadingRef.current = false;
+      setFoldersLoading(false);
+    }
+  }, [isAuthenticated, folderCursor]);
+
+  // Loads the first page of a feed that has none yet, otherwise the page after the last one loaded
+  const loadMoreDocs = useCallback(
+    async (feed: DocFeed) => {
+      if (!isAuthenticated) return;
+      const key = docFeedKey(feed);
+      const current = docFeedsRef.current[key];
+      if (current && (current.loading || !current.nextCursor)) return;
+
+      const setFeed = (state: DocFeedState) => {
+        docFeedsRef.current = { ...docFeedsRef.current, [key]: state };
+        setDocFeeds(docFeedsRef.current);
+      };
+      const pending: DocFeedState = { nextCursor: current?.nextCursor ?? null, loading: true };
+      setFeed(pending);
+      // A reload or sort change while this page is in flight replaces the feed; drop the stale page then
+      const isStale = () => docFeedsRef.current[key] !== pending;
+
+      const sort = docSortRef.current;
+      try {
+        const response = await fetch(`/api/documents?${docPageQuery(feed, sort, current?.nextCursor)}`, {
+          cache: "no-store"
+        });
+        const data = await response.json().catch(() => null);
+        if (isStale()) return;
+        if (!response.ok) {
+          console.warn("[loadMoreDocs] failed", response.status, data?.error);
+          setFeed({ ...pending, loading: false });
+          return;
+        }
+
+        const page: SavedDoc[] = (Array.isArray(data?.documents) ? data.documents : []).map((doc: any) =>
+          mapApiDocument(doc, savedDocsRef.current.find((entry) => entry.id === doc.id))
+        );
+        page.forEach((doc) => {
+          if (!lastSavedContentRef.current.has(doc.id)) {
+            lastSavedContentRef.current.set(doc.id, doc.content);
+          }
+        });
+        setSavedDocs((prev) => {
+          const known = new Set(prev.map((doc) => doc.id));
+          return sortSavedDocs([...prev, ...page.filter((doc) => !known.has(doc.id))], sort);
+        });
+        setFeed({ nextCursor: typeof data?.nextCursor === "string" ? data.nextCursor : null, loading: false });
+      } catch (error) {
+        console.error("[loadMoreDocs] failed", error);
+        if (!isStale()) setFeed({ ...pending, loading: false });
+      }
+    },
+    [isAuthenticated]
+  );
+
+  const handleDocSortChange = useCallback(
+    (sort: DocumentSort) => {
+      if (sort === docSortRef.current) return;
+      docSortRef.current = sort;
+      setDocSort(sort);
+      void fetchSavedDocs();
+    },
+    [fetchSavedDocs]
+  );
+
+  const fetchWorkspaces = useCallback(async () => {
+    if (!isAuthenticated) return;
+    try {
+      const response = await fetch("/api/workspaces", { cache: "no-store" });
+      if (!response.ok) {
+        console.warn("[fetchWorkspaces] failed", response.status);
+        return;
+      }
+      const data = await response.json().catch(() => null);
+      setWorkspaces(Array.isArray(data?.workspaces) ? data.workspaces : []);
+      setWorkspaceInvitations(Array.isArray(data?.invitations) ? data.invitations : []);
+      setActiveWorkspaceId(typeof data?.activeWorkspaceId === "string" ? data.activeWorkspaceId : null);
+    } catch (error) {
+      console.error("[fetchWorkspaces] failed", error);
+    }
+  }, [isAuthenticated]);
+
   useEffect(() => {
     if (composeInputRef.current) {
       composeInputRef.current.focus();
@@ -756,7 +986,7 @@ const lastSavedContentRef = useRef<Map<string, string>>(new Map());
       }
     }
     checkPersona();
-  }, []);
+  }, [activeWorkspaceId]);
 
   // Fetch all personas for authenticated users
   const fetchAllPersonas = useCallback(async () => {
@@ -964,6 +1194,41 @@ const lastSavedContentRef = useRef<Map<string, string>>(new Map());
     fetchFolders();
   }, [fetchFolders]);
 
+  useEffect(() => {
+    void fetchWorkspaces();
+  }, [fetchWorkspaces]);
+
+  // Docs, folders, styles and personas are all scoped to the active workspace, so reload them together
+  const handleSwitchWorkspace = useCallback(
+    async (workspaceId: string | null) => {
+      try {
+        const response = await fetch("/api/workspaces/active", {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ workspaceId })
+        });
+        if (!response.ok) {
+          const payload = await response.json().catch(() => null);
+          setToast(readApiErrorMessage(payload, "Unable to switch workspace."));
+          return;
+        }
+        setActiveWorkspaceId(workspaceId);
+        setActiveStyle(null);
+        await Promise.all([fetchSavedDocs(), fetchFolders(), fetchAllPersonas()]);
+      } catch (error) {
+        console.error("[handleSwitchWorkspace] failed", error);
+        setToast("Unable to switch workspace.");
+      }
+    },
+    [fetchSavedDocs, fetchFolders, fetchAllPersonas]
+  );
+
+  const handleWorkspaceLibraryChange = useCallback(() => {
+    void fetchSavedDocs();
+    void fetchFolders();
+    void fetchAllPersonas();
+  }, [fetchSavedDocs, fetchFolders, fetchAllPersonas]);
+
   async function handleSubmit() {
     if (!composeValue.trim()) return;
     if (guestLimitEnabled && isGuest && guestLimitReached) {
@@ -977,11 +1242,15 @@ const lastSavedContentRef = useRef<Map<string, string>>(new Map());
     
     setLoading(true);
     const editorContext = collectEditorContext();
+    const groundingPayload = isAuthenticated && composeGrounding.enabled ? composeGrounding : undefined;
+    // Sources attached to the active persona (and the grounding folder) are looked up server-side
+    const sourceFolderId = groundingPayload?.folderId ?? undefined;
 
     // If there's a selection, rewrite it instead of creating new content
     if (selectedText && editorRef.current && activeDocument) {
       // Store the selection range before making the API call
       const selectionRange = editorRef.current.getSelectionRange ? editorRef.current.getSelectionRange() : null;
+      void snapshotDocumentVersion(activeDocument.id, "rewrite");
       
       try {
         const response = await fetch("/api/rewrite", {
@@ -991,12 +1260,16 @@ const lastSavedContentRef = useRef<Map<string, string>>(new Map());
             selectedText,
             instruction: currentPrompt,
             personaSummary: personaSummary ?? undefined,
+            personaId: activePersonaId ?? undefined,
+            folderId: sourceFolderId,
+            documentId: activeDocument.id,
             styleGuide: activeStyle
               ? {
                   name: activeStyle.name,
                   description: activeStyle.description
                 }
-              : undefined
+              : undefined,
+            styleId: activeStyle?.id
           })
         });
 
@@ -1034,6 +1307,11 @@ const lastSavedContentRef = useRef<Map<string, string>>(new Map());
       }
     }
 
+    if (composeVariantCount > 1) {
+      await composeVariantDrafts(currentPrompt, editorContext, groundingPayload);
+      return;
+    }
+
     // If there's an active document and editor, insert at cursor position
     if (activeDocument && editorRef.current) {
       // Check if the document is untitled and needs to be saved first
@@ -1069,6 +1347,15 @@ const lastSavedContentRef = useRef<Map<string, string>>(new Map());
         documentId: documentIdToUse
       };
       
+      void snapshotDocumentVersion(documentIdToUse, "compose");
+
+      const abortController = new AbortController();
+      composeAbortRef.current = abortController;
+      let streamingInsert: { update: (text: string) => void; finish: (text: string) => void } | null = null;
+      let streamedContent = "";
+      let groundingSources: GroundingSource[] = [];
+      let rulesFixed = 0;
+      let lengthReport: LengthReport | null = null;
       try {
         const response = await fetch("/api/compose", {
           method: "POST",
@@ -1077,14 +1364,19 @@ const lastSavedContentRef = useRef<Map<string, string>>(new Map());
             prompt: currentPrompt,
             settings: settings,
             personaSummary: personaSummary ?? undefined,
+            personaId: activePersonaId ?? undefined,
             styleGuide: activeStyle
               ? {
                   name: activeStyle.name,
                   description: activeStyle.description
                 }
               : undefined,
-            editorContext: editorContextWithDocId ?? undefined
-          })
+            styleId: activeStyle?.id,
+            editorContext: editorContextWithDocId ?? undefined,
+            grounding: groundingPayload,
+            repairRules
+          }),
+          signal: abortController.signal
         });
 
         if (!response.ok) {
@@ -1099,26 +1391,65 @@ const lastSavedContentRef = useRef<Map<string, string>>(new Map());
           return;
         }
 
-        const data = await response.json();
-        const newContent = data.content;
+        // Stream the draft into the editor at the cursor as tokens arrive
+        streamingInsert = editorRef.current.beginStreamingInsert ? editorRef.current.beginStreamingInsert() : null;
+        let streamError: string | null = null;
+        await readEventStream(response, (event) => {
+          if (event.type === "delta" && typeof event.text === "string") {
+            streamedContent += event.text;
+            streamingInsert?.update(streamedContent);
+          } else if (event.type === "content" && typeof event.content === "string") {
+            streamedContent = event.content;
+            if (Array.isArray(event.groundingSources)) groundingSources = event.groundingSources;
+            rulesFixed = event.houseRules?.fixed ?? 0;
+            lengthReport = event.length ?? null;
+          } else if (event.type === "error") {
+            streamError = formatErrorMessage(event.error, "Unable to generate draft content.");
+          }
+        });
 
-        // Insert at cursor position
-        if (editorRef.current.insertText) {
-          editorRef.current.insertText(newContent);
+        if (streamError && !streamedContent.trim()) {
+          streamingInsert?.finish("");
+          setToast(streamError);
+          setLoading(false);
+          return;
+        }
+
+        if (streamingInsert) {
+          streamingInsert.finish(streamedContent);
+        } else if (editorRef.current.insertText) {
+          // Insert at cursor position
+          editorRef.current.insertText(streamedContent);
         } else {
           // Fallback: append to document
-          handleDocumentChange(activeDocument.content + "\n\n" + newContent);
+          handleDocumentChange(activeDocument.content + "\n\n" + streamedContent);
         }
 
         setComposeValue("");
-        setToast("Content added at cursor position.");
+        setToast(
+          (groundingSources.length
+            ? `Content added at cursor position, grounded in ${groundingSources.length} saved ${groundingSources.length === 1 ? "doc" : "docs"}.`
+            : "Content added at cursor position.") +
+            describeRulesFixed(rulesFixed) +
+            describeLengthMiss(lengthReport)
+        );
         setLoading(false);
         return;
       } catch (error) {
-        console.error("Insert failed:", error);
-        setToast("Failed to insert content. Please try again.");
+        if (isAbortError(error)) {
+          // Keep whatever was streamed before the user stopped generation
+          streamingInsert?.finish(streamedContent);
+          setToast("Generation stopped.");
+        } else {
+          console.error("Insert failed:", error);
+          setToast("Failed to insert content. Please try again.");
+        }
         setLoading(false);
         return;
+      } finally {
+        if (composeAbortRef.current === abortController) {
+          composeAbortRef.current = null;
+        }
       }
     }
 
@@ -1145,7 +1476,18 @@ const lastSavedContentRef = useRef<Map<string, string>>(new Map());
       prompt: currentPrompt,
       isPending: true
     });
+    const previousActiveDocumentId = activeDocumentId;
+    const discardPendingOutput = () => {
+      setOutputs((prev) => prev.filter((entry) => entry.id !== tempId));
+      setActiveDocumentId(previousActiveDocumentId);
+    };
     setOutputs((prev) => [pendingOutput, ...prev]);
+    setActiveDocumentId(tempId);
+    const abortController = new AbortController();
+    composeAbortRef.current = abortController;
+    let streamedContent = "";
+    // Signed-in drafts are saved from the start; a stopped draft stays in that document
+    let savedDocumentId: string | null = null;
     try {
       const response = await fetch("/api/compose", {
         method: "POST",
@@ -1154,9 +1496,14 @@ const lastSavedContentRef = useRef<Map<string, string>>(new Map());
           prompt: currentPrompt,
           settings: snapshotSettings,
           personaSummary: personaSummary ?? undefined,
+          personaId: activePersonaId ?? undefined,
           styleGuide: styleGuidePayload,
-          editorContext: editorContext ?? undefined
-        })
+          styleId: activeStyle?.id,
+          editorContext: editorContext ?? undefined,
+          grounding: groundingPayload,
+          repairRules
+        }),
+        signal: abortController.signal
       });
       if (!response.ok) {
         const errorPayload = await response.json().catch(() => null);
@@ -1166,32 +1513,76 @@ const lastSavedContentRef = useRef<Map<string, string>>(new Map());
         } else {
           setToast(formatErrorMessage(errorPayload?.error));
         }
-        setOutputs((prev) => prev.filter((entry) => entry.id !== tempId));
+        discardPendingOutput();
         setLoading(false);
         return;
       }
-      const data = await response.json();
-      const finalId = data.documentId ?? tempId;
-      const nextCount = outputs.length + 1;
-      const newOutput: WriterOutput = ensurePlaceholderState({
-        id: finalId,
-        instanceKey: tempId,
-        title: data.title ?? smartTitleFromPrompt(currentPrompt),
-        content: data.content,
-        createdAt: data.createdAt ?? new Date().toISOString(),
-        settings: normalizeSettings({
-          ...snapshotSettings,
-          marketTier: snapshotSettings.marketTier ?? null
-        }),
-        prompt: currentPrompt,
-        writingStyle: data.writingStyle ?? null,
-        styleSummary: data.styleSummary ?? null,
-        styleTitle: data.styleTitle ?? null,
-        isPending: false
+
+      let finalId = tempId;
+      let data: any = null;
+      let streamError: string | null = null;
+      await readEventStream(response, (event) => {
+        if (event.type === "document" && typeof event.documentId === "string") {
+          savedDocumentId = event.documentId;
+        } else if (event.type === "delta" && typeof event.text === "string") {
+          streamedContent += event.text;
+          const partialContent = streamedContent;
+          setOutputs((prev) =>
+            prev.map((entry) =>
+              entry.id === tempId ? { ...entry, content: partialContent, isPending: false } : entry
+            )
+          );
+        } else if (event.type === "content") {
+          data = event;
+          finalId = event.documentId ?? tempId;
+          const newOutput: WriterOutput = ensurePlaceholderState({
+            id: finalId,
+            instanceKey: tempId,
+            title: event.title ?? smartTitleFromPrompt(currentPrompt),
+            content: event.content,
+            createdAt: event.createdAt ?? new Date().toISOString(),
+            settings: normalizeSettings({
+              ...snapshotSettings,
+              marketTier: snapshotSettings.marketTier ?? null
+            }),
+            prompt: currentPrompt,
+            isPending: false,
+            groundingSources: Array.isArray(event.groundingSources) && event.groundingSources.length ? event.groundingSources : undefined,
+            // Already filled from the active persona's facts
+            placeholders: readDocumentPlaceholders(event.placeholders)
+          });
+          setOutputs((prev) => prev.map((entry) => (entry.id === tempId ? newOutput : entry)));
+          // Set as active document immediately
+          setActiveDocumentId(finalId);
+        } else if (event.type === "style") {
+          // Style metadata arrives after the draft; attach it without disturbing the editor
+          setOutputs((prev) =>
+            prev.map((entry) =>
+              entry.id === finalId
+                ? {
+                    ...entry,
+                    writingStyle: event.writingStyle ?? null,
+                    styleSummary: event.styleSummary ?? null,
+                    styleTitle: event.styleTitle ?? null
+                  }
+                : entry
+            )
+          );
+          if (data) {
+            data = { ...data, writingStyle: event.writingStyle, styleSummary: event.styleSummary };
+          }
+        } else if (event.type === "error") {
+          streamError = formatErrorMessage(event.error, "Unable to generate draft content.");
+        }
       });
-      setOutputs((prev) => prev.map((entry) => (entry.id === tempId ? newOutput : entry)));
-      // Set as active document immediately
-      setActiveDocumentId(finalId);
+
+      if (!data) {
+        setToast(streamError ?? "Could not complete that request.");
+        discardPendingOutput();
+        return;
+      }
+
+      const nextCount = outputs.length + 1;
       
       // Immediately fetch docs - the document is already saved in the database
       if (data.documentId) {
@@ -1205,47 +1596,232 @@ const lastSavedContentRef = useRef<Map<string, string>>(new Map());
         // No documentId means it wasn't saved (guest or error), save locally
         applyLocalDoc({
           id: finalId,
-          title: newOutput.title,
-          createdAt: newOutput.createdAt,
+          title: data.title ?? smartTitleFromPrompt(currentPrompt),
+          createdAt: data.createdAt ?? new Date().toISOString(),
           prompt: currentPrompt,
           content: data.content,
-          settings: newOutput.settings,
-          writingStyle: newOutput.writingStyle ?? null,
-          styleSummary: newOutput.styleSummary ?? null,
-          folders: []
+          settings: normalizeSettings({
+            ...snapshotSettings,
+            marketTier: snapshotSettings.marketTier ?? null
+          }),
+          writingStyle: data.writingStyle ?? null,
+          styleSummary: data.styleSummary ?? null,
+          folders: [],
+          placeholders: readDocumentPlaceholders(data.placeholders)
         });
         fetchSavedDocs();
       }
-      setToast("Doc ready with guardrails applied.");
+      setToast(
+        `Doc ready with guardrails applied.${describeRulesFixed(data.houseRules?.fixed ?? 0)}${describeLengthMiss(data.length)}`
+      );
       if (guestLimitEnabled && isGuest && nextCount >= 5) {
         setGuestLimitReached(true);
       }
     } catch (error) {
-      console.error(error);
-      setToast(error instanceof Error ? error.message : "Could not complete that request.");
-      setOutputs((prev) => prev.filter((entry) => entry.id !== tempId));
+      if (isAbortError(error)) {
+        // Keep the partial draft as a doc the user can keep editing; the server kept it in the saved document
+        if (streamedContent.trim()) {
+          const keptId = savedDocumentId ?? tempId;
+          setOutputs((prev) =>
+            prev.map((entry) =>
+              entry.id === tempId ? ensurePlaceholderState({ ...entry, id: keptId, content: streamedContent, isPending: false }) : entry
+            )
+          );
+          if (savedDocumentId) {
+            setActiveDocumentId(savedDocumentId);
+            fetchSavedDocs();
+          }
+        } else {
+          discardPendingOutput();
+        }
+        setToast("Generation stopped.");
+      } else {
+        console.error(error);
+        setToast(error instanceof Error ? error.message : "Could not complete that request.");
+        discardPendingOutput();
+      }
     } finally {
+      if (composeAbortRef.current === abortController) {
+        composeAbortRef.current = null;
+      }
       setLoading(false);
     }
   }
 
-  function updatePlaceholder(outputId: string, placeholderId: string, value: string | null) {
-    setOutputs((prev) =>
-      prev.map((existing) => {
-        if (existing.id !== outputId) return existing;
-        const current = existing.placeholderValues ? { ...existing.placeholderValues } : {};
-        const trimmed = value?.trim() ?? "";
-        if (trimmed) {
-          current[placeholderId] = trimmed;
+  async function composeVariantDrafts(
+    currentPrompt: string,
+    editorContext: ReturnType<typeof collectEditorContext>,
+    groundingPayload: ComposeGroundingInput | undefined
+  ) {
+    const updateVariants = (update: (variants: ComposeVariant[]) => ComposeVariant[]) =>
+      setVariantSession((prev) => (prev ? { ...prev, variants: update(prev.variants) } : prev));
+    setVariantSession({ prompt: currentPrompt, variants: [], loading: true });
+    const abortController = new AbortController();
+    composeAbortRef.current = abortController;
+    try {
+      const response = await fetch("/api/compose", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          prompt: currentPrompt,
+          settings,
+          personaSummary: personaSummary ?? undefined,
+          personaId: activePersonaId ?? undefined,
+          styleGuide: activeStyle
+            ? {
+                name: activeStyle.name,
+                description: activeStyle.description
+              }
+            : undefined,
+          styleId: activeStyle?.id,
+          editorContext: editorContext ? { ...editorContext, documentId: activeDocument?.id } : undefined,
+          grounding: groundingPayload,
+          variants: composeVariantCount,
+          repairRules
+        }),
+        signal: abortController.signal
+      });
+      if (!response.ok) {
+        const errorPayload = await response.json().catch(() => null);
+        if (response.status === 403 && guestLimitEnabled && errorPayload?.requireAuth) {
+          setGuestLimitReached(true);
+          setToast("You've reached the guest limit. Please register to continue.");
         } else {
-          delete current[placeholderId];
+          setToast(formatErrorMessage(errorPayload?.error));
         }
-        return {
-          ...existing,
-          placeholderValues: current
-        };
-      })
-    );
+        setVariantSession(null);
+        return;
+      }
+
+      let completed = false;
+      let streamError: string | null = null;
+      await readEventStream(response, (event) => {
+        if (event.type === "variants" && Array.isArray(event.variants)) {
+          updateVariants(() =>
+            event.variants.map((variant: { index: number; label: string }) => ({
+              index: variant.index,
+              label: variant.label,
+              content: "",
+              status: "streaming" as const
+            }))
+          );
+        } else if (event.type === "delta" && typeof event.variant === "number" && typeof event.text === "string") {
+          updateVariants((variants) =>
+            variants.map((variant) => (variant.index === event.variant ? { ...variant, content: variant.content + event.text } : variant))
+          );
+        } else if (event.type === "variant-error" && typeof event.variant === "number") {
+          updateVariants((variants) =>
+            variants.map((variant) => (variant.index === event.variant ? { ...variant, status: "failed" as const } : variant))
+          );
+        } else if (event.type === "content" && Array.isArray(event.variants)) {
+          completed = true;
+          const finished = new Map<number, { content: string; length: LengthReport | null }>(
+            event.variants.map(
+              (variant: { index: number; content: string; length?: LengthReport | null }) =>
+                [variant.index, { content: variant.content, length: variant.length ?? null }] as [number, { content: string; length: LengthReport | null }]
+            )
+          );
+          updateVariants((variants) =>
+            variants.map((variant) => {
+              const result = finished.get(variant.index);
+              const content = result?.content ?? "";
+              return {
+                ...variant,
+                content,
+                length: result?.length ?? null,
+                status: content ? ("ready" as const) : ("failed" as const)
+              };
+            })
+          );
+        } else if (event.type === "error") {
+          streamError = formatErrorMessage(event.error, "Unable to generate draft variants.");
+        }
+      });
+
+      if (!completed) {
+        setVariantSession(null);
+        setToast(streamError ?? "Could not complete that request.");
+        return;
+      }
+      setComposeValue("");
+      setToast("Variants ready. Accept one, merge the best paragraphs, or discard the rest.");
+    } catch (error) {
+      if (isAbortError(error)) {
+        // Keep whatever each variant had written before the user stopped generation
+        updateVariants((variants) =>
+          variants
+            .filter((variant) => variant.content.trim())
+            .map((variant) => ({ ...variant, content: variant.content.trim(), status: "ready" as const }))
+        );
+        setToast("Generation stopped.");
+      } else {
+        console.error("Variant compose failed:", error);
+        setVariantSession(null);
+        setToast("Could not complete that request.");
+      }
+    } finally {
+      setVariantSession((prev) => (prev && prev.variants.length ? { ...prev, loading: false } : null));
+      if (composeAbortRef.current === abortController) {
+        composeAbortRef.current = null;
+      }
+      setLoading(false);
+    }
+  }
+
+  async function handleAcceptVariant(content: string) {
+    if (!variantSession || !content.trim()) return;
+    const prompt = variantSession.prompt;
+    setVariantSession(null);
+
+    if (activeDocument && editorRef.current) {
+      void snapshotDocumentVersion(activeDocument.id, "compose");
+      if (editorRef.current.insertText) {
+        editorRef.current.insertText(content);
+      } else {
+        handleDocumentChange(activeDocument.content + "\n\n" + content);
+      }
+      setToast("Variant added at cursor position.");
+      return;
+    }
+
+    const clientId = crypto.randomUUID();
+    const output = ensurePlaceholderState({
+      id: clientId,
+      instanceKey: clientId,
+      title: smartTitleFromPrompt(prompt),
+      content,
+      createdAt: new Date().toISOString(),
+      settings: normalizeSettings({ ...settings, marketTier: settings.marketTier ?? null }),
+      prompt
+    });
+    setOutputs((prev) => [output, ...prev]);
+    setActiveDocumentId(clientId);
+    const savedId = await persistDocumentToServer(output, content);
+    if (savedId && savedId !== clientId) {
+      setOutputs((prev) => prev.map((entry) => (entry.id === clientId ? { ...entry, id: savedId } : entry)));
+      setActiveDocumentId(savedId);
+    }
+    void fetchSavedDocs();
+    setToast("Doc ready with guardrails applied.");
+  }
+
+  function handleDiscardVariant(index: number) {
+    setVariantSession((prev) => {
+      if (!prev) return prev;
+      const variants = prev.variants.filter((variant) => variant.index !== index);
+      return variants.length ? { ...prev, variants } : null;
+    });
+  }
+
+  function handleCloseVariants() {
+    if (variantSession?.loading) {
+      composeAbortRef.current?.abort();
+    }
+    setVariantSession(null);
+  }
+
+  function handleCancelCompose() {
+    composeAbortRef.current?.abort();
   }
 
   async function handleCopy(output: WriterOutput) {
@@ -1502,7 +2078,7 @@ const lastSavedContentRef = useRef<Map<string, string>>(new Map());
   const { docDocuments, styleDocuments } = useMemo(() => {
     const docs: SavedDoc[] = [];
     const styles: SavedDoc[] = [];
-    savedDocs.forEach((doc) => {
+    sortSavedDocs(savedDocs, docSort).forEach((doc) => {
       if (isStyleDocument(doc)) {
         styles.push(doc);
       } else {
@@ -1510,7 +2086,7 @@ const lastSavedContentRef = useRef<Map<string, string>>(new Map());
       }
     });
     return { docDocuments: docs, styleDocuments: styles };
-  }, [savedDocs]);
+  }, [savedDocs, docSort]);
 
   const activeSavedDoc = useMemo(() => {
     if (!activeDocumentId) {
@@ -1519,6 +2095,55 @@ const lastSavedContentRef = useRef<Map<string, string>>(new Map());
     return savedDocs.find((doc) => doc.id === activeDocumentId) ?? null;
   }, [activeDocumentId, savedDocs]);
   const activeDocPinned = activeSavedDoc?.pinned ?? false;
+  const activeDocIsOwned = (activeSavedDoc?.access ?? "owner") === "owner";
+  const activeDocIsShared = Boolean(activeSavedDoc?.shared) || !activeDocIsOwned;
+
+  // Shared documents are edited through the collaboration server; private ones keep the autosave path
+  const [collaboration, setCollaboration] = useState<MarkdownEditorCollaboration | null>(null);
+  const collaborationRef = useRef<MarkdownEditorCollaboration | null>(null);
+  useEffect(() => {
+    collaborationRef.current = collaboration;
+  }, [collaboration]);
+
+  const activeSavedDocId = activeSavedDoc?.id ?? null;
+  useEffect(() => {
+    if (!isAuthenticated || !activeSavedDocId || !activeDocIsShared) {
+      setCollaboration(null);
+      return;
+    }
+    let cancelled = false;
+    fetch(`/api/documents/${activeSavedDocId}/collab`, { cache: "no-store" })
+      .then(async (response) => {
+        const payload = (await response.json().catch(() => null)) as CollabSession | null;
+        if (cancelled) return;
+        if (!response.ok || !payload?.enabled || !payload.url || !payload.token || !payload.user) {
+          setCollaboration(null);
+          return;
+        }
+        setCollaboration({
+          documentId: activeSavedDocId,
+          url: payload.url,
+          token: payload.token,
+          readOnly: Boolean(payload.readOnly),
+          user: payload.user
+        });
+      })
+      .catch((error) => {
+        console.warn("[collab] session request failed", error);
+        if (!cancelled) setCollaboration(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isAuthenticated, activeSavedDocId, activeDocIsShared]);
+
+  const handleCollaboratorsChange = useCallback(
+    (count: number) => {
+      if (!activeSavedDocId) return;
+      bumpSavedDoc(activeSavedDocId, (doc) => ({ ...doc, shared: count > 0 }), false);
+    },
+    [activeSavedDocId, bumpSavedDoc]
+  );
 
   function handleApplyStyle(styleDoc: StyleDocInput) {
     const description = fallbackStyleDescription(
@@ -1541,6 +2166,63 @@ const lastSavedContentRef = useRef<Map<string, string>>(new Map());
     setActiveStyle(null);
   }
 
+  // Only saved personas can be attached to a template
+  const activeSavedPersona = hasPersona ? allPersonas.find((persona) => persona.id === activePersonaId) ?? null : null;
+
+  // Fills the compose bar from a template and applies whatever it carries; the user reviews and sends
+  function handleApplyPromptTemplate({ prompt, template }: AppliedPromptTemplate) {
+    setComposeValue(prompt);
+    if (template.settings) {
+      setSettings(template.settings);
+    }
+    if (template.style) {
+      setActiveStyle({
+        id: template.style.id,
+        name: template.style.title,
+        description: fallbackStyleDescription(template.style.writingStyle, "", template.style.styleSummary)
+      });
+    }
+    if (template.persona && template.persona.id !== activePersonaId) {
+      // Activating the persona reports its own outcome
+      void handleUsePersona(template.persona.id);
+      return;
+    }
+    setToast(`Template "${template.name}" is ready. Review the prompt and send.`);
+  }
+
+  // Set by a history re-run; the compose is sent once the restored state has rendered
+  const [rerunPrompt, setRerunPrompt] = useState<string | null>(null);
+
+  // Restores a history entry's settings, style and persona, then composes its prompt again
+  function handleRerunPrompt(entry: PromptHistorySummary) {
+    setComposeValue(entry.prompt);
+    if (entry.settings) {
+      setSettings(entry.settings);
+    }
+    // A style whose saved document is gone keeps its text under a placeholder id the server ignores
+    setActiveStyle(
+      entry.style
+        ? { id: entry.style.id ?? `history-${entry.id}`, name: entry.style.name, description: entry.style.description }
+        : null
+    );
+    const personaId = entry.persona?.id ?? null;
+    if (personaId && personaId !== activePersonaId && allPersonas.some((persona) => persona.id === personaId)) {
+      void handleUsePersona(personaId);
+    }
+    setRerunPrompt(entry.prompt);
+  }
+
+  useEffect(() => {
+    if (rerunPrompt === null || composeValue !== rerunPrompt) return;
+    const timer = setTimeout(() => {
+      setRerunPrompt(null);
+      void handleSubmit();
+    }, 0);
+    return () => clearTimeout(timer);
+    // handleSubmit is redefined every render; this only waits for the restored prompt to land
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [rerunPrompt, composeValue]);
+
   const handleClearPersonaForComposeBar = () => {
     handleClearPersona().catch((error) => {
       console.error("Failed to clear persona:", error);
@@ -1736,6 +2418,9 @@ const lastSavedContentRef = useRef<Map<string, string>>(new Map());
     if (settingsPayload.gradeLevel) payload.gradeLevel = settingsPayload.gradeLevel;
     if (settingsPayload.benchmark) payload.benchmark = settingsPayload.benchmark;
     if (settingsPayload.avoidWords) payload.avoidWords = settingsPayload.avoidWords;
+    if (settingsPayload.channelPreset) payload.channelPreset = settingsPayload.channelPreset;
+    const placeholders = syncPlaceholders(contentValue, doc.placeholders);
+    if (Object.keys(placeholders).length) payload.placeholders = placeholders;
     if (doc.writingStyle) payload.writingStyle = doc.writingStyle;
     if (doc.styleSummary) payload.styleSummary = doc.styleSummary;
     if (doc.styleTitle) payload.styleTitle = doc.styleTitle;
@@ -1786,7 +2471,8 @@ const lastSavedContentRef = useRef<Map<string, string>>(new Map());
         styleSummary: doc.styleSummary ?? null,
           styleTitle: doc.styleTitle ?? null,
           pinned: doc.pinned ?? false,
-          folders: Array.isArray(doc.folders) ? doc.folders : []
+          folders: Array.isArray(doc.folders) ? doc.folders : [],
+          placeholders: syncPlaceholders(contentValue, doc.placeholders)
         });
         lastSavedContentRef.current.set(doc.id, contentValue);
         return doc.id;
@@ -2514,6 +3200,130 @@ const lastSavedContentRef = useRef<Map<string, string>>(new Map());
     [assignDocumentToFolder, folders, isAuthenticated, setToast]
   );
 
+  const handleImportDocuments = useCallback(
+    async (files: File[], folderId: string | null) => {
+      if (!files.length) {
+        return;
+      }
+      setImportingDocuments(true);
+      try {
+        const form = new FormData();
+        files.forEach((file) => form.append("files", file));
+        if (folderId) {
+          form.append("folderId", folderId);
+        }
+        const response = await fetch("/api/documents/import", { method: "POST", body: form });
+        const payload = await response.json().catch(() => null);
+        if (!response.ok || !Array.isArray(payload?.documents)) {
+          setToast(formatErrorMessage(payload?.error, "Unable to import documents."));
+          return;
+        }
+
+        const imported: SavedDoc[] = payload.documents.map((doc: any) => mapApiDocument(doc));
+        imported.forEach((doc) => lastSavedContentRef.current.set(doc.id, doc.content));
+        setSavedDocs((prev) => sortSavedDocs([...imported, ...prev]));
+
+        const failed: Array<{ fileName: string; error: string }> = Array.isArray(payload.failed) ? payload.failed : [];
+        const summary = `Imported ${imported.length} ${imported.length === 1 ? "document" : "documents"}.`;
+        setToast(
+          failed.length
+            ? `${summary} Skipped ${failed.map((entry) => entry.fileName).join(", ")}: ${failed[0].error}`
+            : summary
+        );
+        if (folderId) {
+          fetchFolders();
+        }
+      } catch (error) {
+        console.error("import documents failed:", error);
+        setToast("Unable to import documents.");
+      } finally {
+        setImportingDocuments(false);
+      }
+    },
+    [fetchFolders]
+  );
+
+  const handleBulkExport = useCallback(async (target: BulkExportTarget, format: ExportFormat) => {
+    setBulkExporting(true);
+    try {
+      // The ZIP is built by an export job, which keeps it for download even if this tab closes first
+      const requestExport = (allowUnresolved: boolean) =>
+        fetch("/api/jobs", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ kind: "export", input: { ...target, format, allowUnresolved } })
+        });
+      let response = await requestExport(false);
+      if (response.status === 409) {
+        // Some documents still have unfilled placeholders; exporting them anyway is an explicit choice
+        const payload = await response.json().catch(() => null);
+        const unresolved: Array<{ title: string; placeholders: string[] }> = Array.isArray(payload?.unresolved) ? payload.unresolved : [];
+        const summary = unresolved
+          .slice(0, 5)
+          .map((doc) => `• ${doc.title || "Untitled"}: ${doc.placeholders.map((label) => `[${label}]`).join(", ")}`)
+          .join("\n");
+        const more = unresolved.length > 5 ? `\n…and ${unresolved.length - 5} more` : "";
+        if (!window.confirm(`${unresolved.length} document(s) still have unfilled placeholders:\n${summary}${more}\n\nExport anyway?`)) {
+          return;
+        }
+        response = await requestExport(true);
+      }
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload?.job?.id) {
+        setToast(readApiErrorMessage(payload, "Unable to export documents."));
+        return;
+      }
+      const job = await waitForJob(payload.job.id);
+      if (job?.status !== "succeeded") {
+        setToast(job?.error || "Unable to export documents.");
+        return;
+      }
+      const link = document.createElement("a");
+      link.href = `/api/jobs/${job.id}/artifact`;
+      link.download = job.artifactName ?? "";
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      setToast("ZIP download started.");
+    } catch (error) {
+      console.error("bulk export failed:", error);
+      setToast("Unable to export documents.");
+    } finally {
+      setBulkExporting(false);
+    }
+  }, []);
+
+  const handleBatchDocumentCreated = useCallback((doc: any) => {
+    const saved = mapApiDocument(doc);
+    lastSavedContentRef.current.set(saved.id, saved.content);
+    // A batch picked up again after a reload reports rows the list already has
+    setSavedDocs((prev) => sortSavedDocs([saved, ...prev.filter((doc) => doc.id !== saved.id)]));
+  }, []);
+
+  const handleBatchFinished = useCallback(
+    (folder: { id: string; name: string }, summary: { completed: number; failed: number }) => {
+      fetchFolders();
+      setToast(
+        `Saved ${summary.completed} document${summary.completed === 1 ? "" : "s"} to ${folder.name}.` +
+          (summary.failed ? ` ${summary.failed} row${summary.failed === 1 ? "" : "s"} failed.` : "")
+      );
+    },
+    [fetchFolders]
+  );
+
+  const handleFolderPlaceholdersFilled = useCallback(
+    (updated: Array<{ id: string; placeholders: DocumentPlaceholders }>, skipped: number) => {
+      const byId = new Map(updated.map((entry) => [entry.id, entry.placeholders]));
+      setOutputs((prev) => prev.map((output) => (byId.has(output.id) ? { ...output, placeholders: byId.get(output.id) } : output)));
+      setSavedDocs((prev) => prev.map((doc) => (byId.has(doc.id) ? { ...doc, placeholders: byId.get(doc.id) } : doc)));
+      setToast(
+        `Filled placeholders in ${updated.length} document${updated.length === 1 ? "" : "s"}.` +
+          (skipped ? ` ${skipped} read-only document${skipped === 1 ? " was" : "s were"} skipped.` : "")
+      );
+    },
+    []
+  );
+
   const handleDocumentMenuPinToggle = useCallback(() => {
     if (!activeDocumentId) {
       setToast("Save the document before pinning.");
@@ -2527,6 +3337,46 @@ const lastSavedContentRef = useRef<Map<string, string>>(new Map());
     void handlePinDocument(savedDoc);
   }, [activeDocumentId, handlePinDocument, setToast]);
 
+  // Snapshot the editor's current markdown so an AI insertion can be rolled back from Version History
+  const snapshotDocumentVersion = useCallback(
+    async (documentId: string, reason: "compose" | "rewrite") => {
+      if (!isAuthenticated || documentId.startsWith("local-")) return;
+      if (!savedDocsRef.current.some((doc) => doc.id === documentId)) return;
+      const content =
+        (editorRef.current?.getMarkdown ? editorRef.current.getMarkdown() : null) ??
+        outputsRef.current.find((output) => output.id === documentId)?.content ??
+        "";
+      if (!content.trim()) return;
+      try {
+        await fetch(`/api/documents/${documentId}/versions`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ reason, content })
+        });
+      } catch (error) {
+        console.warn("[versions] snapshot failed", error);
+      }
+    },
+    [isAuthenticated]
+  );
+
+  const handleRestoreVersion = useCallback(
+    (content: string) => {
+      if (!activeDocumentId) return;
+      if (autosaveTimeout) {
+        clearTimeout(autosaveTimeout);
+      }
+      // The restore endpoint already persisted this content, so mark it saved to skip a redundant PATCH
+      lastSavedContentRef.current.set(activeDocumentId, content);
+      setOutputs((prev) =>
+        prev.map((output) => (output.id === activeDocumentId ? { ...output, content } : output))
+      );
+      bumpSavedDoc(activeDocumentId, (doc) => ({ ...doc, content }));
+      setToast("Version restored.");
+    },
+    [activeDocumentId, autosaveTimeout, bumpSavedDoc, setToast]
+  );
+
   const handleDeleteDocument = useCallback(async () => {
     if (!activeDocumentId) {
       setToast("No document to delete.");
@@ -2629,7 +3479,7 @@ const lastSavedContentRef = useRef<Map<string, string>>(new Map());
         settings: doc.settings,
         prompt: doc.prompt,
         writingStyle: doc.writingStyle ?? null,
-        placeholderValues: {}
+        placeholders: doc.placeholders
       });
 
       setOutputs([restored]);
@@ -2649,6 +3499,34 @@ const lastSavedContentRef = useRef<Map<string, string>>(new Map());
     [activeDocumentId, isDesktop, saveCurrentDocument]
   );
 
+  // Search and "find similar" can surface documents older than the sidebar's recent list, so load those on demand
+  async function handleOpenSearchResult(result: Pick<DocumentSearchResult, "id" | "kind">) {
+    let doc = savedDocsRef.current.find((entry) => entry.id === result.id) ?? null;
+    if (!doc) {
+      try {
+        const response = await fetch(`/api/documents/${result.id}`, { cache: "no-store" });
+        const payload = await response.json().catch(() => null);
+        if (!response.ok) {
+          setToast(readApiErrorMessage(payload, "Unable to open document."));
+          return;
+        }
+        const loaded = mapApiDocument(payload);
+        lastSavedContentRef.current.set(loaded.id, loaded.content);
+        setSavedDocs((prev) => sortSavedDocs([loaded, ...prev.filter((entry) => entry.id !== loaded.id)]));
+        doc = loaded;
+      } catch (error) {
+        console.error("[handleOpenSearchResult] failed", error);
+        setToast("Unable to open document.");
+        return;
+      }
+    }
+    if (result.kind === "style") {
+      handleApplyStyle(doc);
+    } else {
+      await handleLoadDoc(doc);
+    }
+  }
+
   const handleStartNewDoc = useCallback(async () => {
     // Save and close current document if there is one
     if (activeDocumentId) {
@@ -2803,6 +3681,17 @@ const lastSavedContentRef = useRef<Map<string, string>>(new Map());
       }
       
       if (!activeDocumentId) return;
+
+      // The collaboration server persists shared documents, so only mirror the text locally
+      if (collaborationRef.current?.documentId === activeDocumentId) {
+        lastSavedContentRef.current.set(activeDocumentId, content);
+        setOutputs((prev) =>
+          prev.map((output) =>
+            output.id === activeDocumentId ? { ...output, content } : output
+          )
+        );
+        return;
+      }
       
       // Get previous content to detect transition from empty to non-empty
       const currentDoc = outputsRef.current.find((o) => o.id === activeDocumentId);
@@ -2890,6 +3779,43 @@ const lastSavedContentRef = useRef<Map<string, string>>(new Map());
     [activeDocumentId, autosaveTimeout, bumpSavedDoc, persistDocumentToServer]
   );
 
+  // Placeholder values save on their own, so filling one never rewrites the content or its history
+  const placeholderSaveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const handlePlaceholdersChange = useCallback(
+    (placeholders: DocumentPlaceholders) => {
+      const documentId = activeDocumentId;
+      if (!documentId) return;
+      setOutputs((prev) => prev.map((output) => (output.id === documentId ? { ...output, placeholders } : output)));
+      setSavedDocs((prev) => prev.map((doc) => (doc.id === documentId ? { ...doc, placeholders } : doc)));
+
+      if (!isAuthenticated) {
+        const savedDoc = savedDocsRef.current.find((doc) => doc.id === documentId);
+        if (savedDoc) persistLocalDocEntry({ ...savedDoc, placeholders });
+        return;
+      }
+      if (placeholderSaveTimeoutRef.current) {
+        clearTimeout(placeholderSaveTimeoutRef.current);
+      }
+      placeholderSaveTimeoutRef.current = setTimeout(async () => {
+        placeholderSaveTimeoutRef.current = null;
+        try {
+          const response = await fetch(`/api/documents/${documentId}`, {
+            method: "PATCH",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ placeholders })
+          });
+          if (!response.ok) {
+            const payload = await response.json().catch(() => null);
+            setToast(readApiErrorMessage(payload, "Unable to save placeholder values."));
+          }
+        } catch (error) {
+          console.error("placeholder save failed:", error);
+        }
+      }, 800);
+    },
+    [activeDocumentId, isAuthenticated]
+  );
+
   // Cleanup autosave timeouts on unmount
   useEffect(() => {
     return () => {
@@ -2944,6 +3870,7 @@ const lastSavedContentRef = useRef<Map<string, string>>(new Map());
   // Handle selection-based rewriting
   const handleRewriteSelection = useCallback(async (selectedText: string, instruction: string) => {
     if (!activeDocumentId) return;
+    void snapshotDocumentVersion(activeDocumentId, "rewrite");
 
     try {
       const response = await fetch("/api/rewrite", {
@@ -2953,12 +3880,16 @@ const lastSavedContentRef = useRef<Map<string, string>>(new Map());
           selectedText,
           instruction,
           personaSummary: personaSummary ?? undefined,
+          personaId: activePersonaId ?? undefined,
+          folderId: composeGrounding.enabled ? composeGrounding.folderId ?? undefined : undefined,
+          documentId: activeDocumentId,
           styleGuide: activeStyle
             ? {
                 name: activeStyle.name,
                 description: activeStyle.description
               }
-            : undefined
+            : undefined,
+          styleId: activeStyle?.id
         })
       });
 
@@ -2998,13 +3929,18 @@ const lastSavedContentRef = useRef<Map<string, string>>(new Map());
       console.error("Rewrite failed:", error);
       setToast("Failed to rewrite selection. Please try again.");
     }
-  }, [activeDocumentId, personaSummary, activeStyle, outputs, handleDocumentChange]);
+  }, [activeDocumentId, personaSummary, activePersonaId, composeGrounding, activeStyle, outputs, handleDocumentChange, snapshotDocumentVersion]);
 
   // Get the active document
   const activeDocument = useMemo(() => {
     return activeDocumentId ? outputs.find((o) => o.id === activeDocumentId) ?? null : null;
   }, [activeDocumentId, outputs]);
 
+  const activePersonaFacts = useMemo(
+    () => (activePersonaId ? allPersonas.find((persona) => persona.id === activePersonaId)?.facts ?? null : null),
+    [activePersonaId, allPersonas]
+  );
+
   // Calculate persona cards for display
   const personaCards = useMemo(() => {
     if (isAuthenticated && allPersonas.length > 0) {
@@ -3016,7 +3952,8 @@ const lastSavedContentRef = useRef<Map<string, string>>(new Map());
         summary: persona.info,
         hasSummary: Boolean(persona.info?.trim()),
         // Get key messages for this specific persona
-        keyMessages: personaKeyMessagingMap.get(persona.id) || []
+        keyMessages: personaKeyMessagingMap.get(persona.id) || [],
+        facts: persona.facts ?? {}
       }));
     } else if (hasPersona || personaKeyMessaging.length) {
       // For guests or legacy, use single persona from state
@@ -3115,6 +4052,12 @@ const lastSavedContentRef = useRef<Map<string, string>>(new Map());
           onPinDocument={handlePinDocument}
           onPinFolder={handlePinFolder}
           onCreateFolder={handleOpenCreateFolder}
+          onImportDocuments={(files, folderId) => void handleImportDocuments(files, folderId)}
+          importingDocuments={importingDocuments}
+          onOpenBatchCompose={isAuthenticated ? () => setBatchDialogOpen(true) : undefined}
+          onBulkExport={(target, format) => void handleBulkExport(target, format)}
+          bulkExporting={bulkExporting}
+          onFillFolderPlaceholders={setPlaceholderFolderId}
           onDocumentDroppedOnFolder={handleDocDroppedOnFolder}
           settingsOpen={sheetOpen}
           onOpenSettings={(anchorRect) => {
@@ -3122,34 +4065,75 @@ const lastSavedContentRef = useRef<Map<string, string>>(new Map());
             setSheetOpen(true);
           }}
           onOpenPersonaModal={() => setOpenPersonaModal(true)}
+          workspaces={workspaces}
+          activeWorkspaceId={activeWorkspaceId}
+          pendingInvitationCount={workspaceInvitations.length}
+          onSwitchWorkspace={(workspaceId) => void handleSwitchWorkspace(workspaceId)}
+          onManageWorkspaces={() => setWorkspaceDialogOpen(true)}
+          onOpenSearchResult={(result) => void handleOpenSearchResult(result)}
+          onOpenPersonaResult={(personaId) => {
+            void handleUsePersona(personaId);
+            setSidebarTab("personas");
+          }}
+          docSort={docSort}
+          onDocSortChange={handleDocSortChange}
+          docFeeds={docFeeds}
+          onLoadMoreDocs={loadMoreDocs}
+          hasMoreFolders={Boolean(folderCursor)}
+          foldersLoading={foldersLoading}
+          onLoadMoreFolders={loadMoreFolders}
         />
       )}
       <div className={cn("flex min-h-screen flex-1 flex-col pb-[350px] transition-all duration-300", sidebarOpen && isAuthenticated && isDesktop ? "lg:ml-[320px]" : undefined)}>
         <div className="flex-1 px-4 py-8 sm:px-6">
-          <div className="mx-auto w-full max-w-5xl">
+          <div className={cn("mx-auto w-full", variantSession ? "max-w-[1400px]" : "max-w-5xl")}>
             {guestLimitEnabled && isGuest && guestLimitReached && <RegisterGate />}
             {isGuest && showGuestTypingNotice && (
               <GuestTypingNotice onClose={() => setShowGuestTypingNotice(false)} />
             )}
-            <DocumentEditor
-              document={activeDocument}
-              onDocumentChange={handleDocumentChange}
-              onTitleChange={handleTitleChange}
-              onSelectionChange={handleSelectionChange}
-              onEditorReady={handleEditorReady}
-              loading={loading && activeDocument?.isPending}
-              personaSummary={personaSummary}
-              activePersonaId={activePersonaId}
-              styleGuide={activeStyle ? { name: activeStyle.name, description: activeStyle.description } : null}
-              horizontalPadding={documentHorizontalPadding}
-              onTogglePin={isAuthenticated ? handleDocumentMenuPinToggle : undefined}
-              onRequestAddToFolder={isAuthenticated ? handleOpenFolderPicker : undefined}
-              canOrganizeDocuments={isAuthenticated}
-              documentPinned={activeDocPinned}
-              onSaveStyle={handleSaveCurrentStyle}
-              onTyping={handleTyping}
-              onDeleteDocument={isAuthenticated ? handleDeleteDocument : undefined}
-            />
+            <div className={cn(variantSession && "flex flex-col gap-6 lg:flex-row lg:items-start")}>
+              <div className="min-w-0 flex-1">
+                <DocumentEditor
+                  document={activeDocument}
+                  onDocumentChange={handleDocumentChange}
+                  onTitleChange={handleTitleChange}
+                  onSelectionChange={handleSelectionChange}
+                  onEditorReady={handleEditorReady}
+                  loading={loading && activeDocument?.isPending}
+                  personaSummary={personaSummary}
+                  activePersonaId={activePersonaId}
+                  styleGuide={activeStyle ? { name: activeStyle.name, description: activeStyle.description } : null}
+                  horizontalPadding={documentHorizontalPadding}
+                  onTogglePin={isAuthenticated ? handleDocumentMenuPinToggle : undefined}
+                  onRequestAddToFolder={isAuthenticated ? handleOpenFolderPicker : undefined}
+                  canOrganizeDocuments={isAuthenticated}
+                  documentPinned={activeDocPinned}
+                  onSaveStyle={handleSaveCurrentStyle}
+                  onTyping={handleTyping}
+                  onDeleteDocument={isAuthenticated && activeDocIsOwned ? handleDeleteDocument : undefined}
+                  onRestoreVersion={isAuthenticated && !collaboration?.readOnly ? handleRestoreVersion : undefined}
+                  canShareDocument={isAuthenticated && Boolean(activeSavedDoc)}
+                  onOpenSimilarDocument={isAuthenticated ? (result) => void handleOpenSearchResult(result) : undefined}
+                  onOpenGroundingSource={isAuthenticated ? (id) => void handleOpenSearchResult({ id, kind: "doc" }) : undefined}
+                  onCollaboratorsChange={handleCollaboratorsChange}
+                  collaboration={collaboration}
+                  lengthConstraints={settings}
+                  gradeLevel={settings.gradeLevel}
+                  personaFacts={activePersonaFacts}
+                  onPlaceholdersChange={collaboration?.readOnly ? undefined : handlePlaceholdersChange}
+                />
+              </div>
+              {variantSession && (
+                <VariantComparisonPanel
+                  prompt={variantSession.prompt}
+                  variants={variantSession.variants}
+                  loading={variantSession.loading}
+                  onAccept={(content) => void handleAcceptVariant(content)}
+                  onDiscard={handleDiscardVariant}
+                  onClose={handleCloseVariants}
+                />
+              )}
+            </div>
             {/* Forgetaboutit Icon - positioned below document canvas */}
             <div className="flex justify-center mt-20 pointer-events-none" style={{ opacity: 1 }}>
               <div className="w-6 h-auto" style={{ opacity: 1, filter: 'brightness(0) saturate(100%) invert(10%)' }}>
@@ -3183,6 +4167,7 @@ const lastSavedContentRef = useRef<Map<string, string>>(new Map());
               onSubmit={handleSubmit}
               disabled={loading || (guestLimitEnabled && isGuest && guestLimitReached)}
               loading={loading}
+              onCancel={handleCancelCompose}
               onToggleSettings={(anchorRect) => {
                 setSheetAnchor(anchorRect);
                 setSheetOpen((prev) => !prev);
@@ -3196,6 +4181,18 @@ const lastSavedContentRef = useRef<Map<string, string>>(new Map());
               hasSelection={!!selectedText}
               selectedText={selectedText}
               isGuest={isGuest}
+              grounding={composeGrounding}
+              groundingFolders={folders}
+              onGroundingChange={isAuthenticated ? setComposeGrounding : undefined}
+              variantCount={composeVariantCount}
+              onVariantCountChange={setComposeVariantCount}
+              templateContext={{
+                settings: hasCustomOptions(settings) ? settings : null,
+                style: activeStyle ? { id: activeStyle.id, name: activeStyle.name } : null,
+                persona: activeSavedPersona ? { id: activeSavedPersona.id, name: activeSavedPersona.name?.trim() || "Custom Persona" } : null
+              }}
+              onApplyTemplate={isAuthenticated ? handleApplyPromptTemplate : undefined}
+              onRerunPrompt={handleRerunPrompt}
             />
           </div>
         </div>
@@ -3232,7 +4229,45 @@ const lastSavedContentRef = useRef<Map<string, string>>(new Map());
         onApplyStyle={handleApplyStyle}
         onClearStyle={handleClearStyle}
         openPersonaModal={openPersonaModal}
+        repairRules={repairRules}
+        onRepairRulesChange={setRepairRules}
       />
+      {isAuthenticated && (
+        <WorkspaceDialog
+          open={workspaceDialogOpen}
+          onClose={() => setWorkspaceDialogOpen(false)}
+          workspaces={workspaces}
+          invitations={workspaceInvitations}
+          pendingInvitation={pendingInvitation}
+          activeWorkspaceId={activeWorkspaceId}
+          onSwitchWorkspace={handleSwitchWorkspace}
+          onWorkspacesChange={fetchWorkspaces}
+          onLibraryChange={handleWorkspaceLibraryChange}
+        />
+      )}
+      {isAuthenticated && (
+        <BatchComposeDialog
+          open={batchDialogOpen}
+          onClose={() => setBatchDialogOpen(false)}
+          settings={settings}
+          personaId={activePersonaId}
+          personaSummary={personaSummary}
+          styleGuide={activeStyle ? { name: activeStyle.name, description: activeStyle.description } : null}
+          repairRules={repairRules}
+          onDocumentCreated={handleBatchDocumentCreated}
+          onFinished={handleBatchFinished}
+        />
+      )}
+      {isAuthenticated && (
+        <FolderPlaceholdersDialog
+          open={Boolean(placeholderFolderId)}
+          onClose={() => setPlaceholderFolderId(null)}
+          folderId={placeholderFolderId}
+          folderName={folders.find((folder) => folder.id === placeholderFolderId)?.name ?? null}
+          persona={activePersonaId ? personaCards.find((persona) => persona.id === activePersonaId) ?? null : null}
+          onFilled={handleFolderPlaceholdersFilled}
+        />
+      )}
       <Toast message={toast} onClose={() => setToast(null)} />
       <StyleGenerationPopup
         open={styleGenPopup.open}
@@ -3765,6 +4800,8 @@ type PersonaCardData = {
   summary: string | null;
   hasSummary: boolean;
   keyMessages: PersonaKeyMessage[];
+  // Only saved personas have facts; the guest persona omits them
+  facts?: PersonaFacts;
 };
 
 type WorkspaceSidebarProps = {
@@ -3800,10 +4837,30 @@ type WorkspaceSidebarProps = {
   onPinDocument?: (doc: SavedDoc) => void;
   onPinFolder?: (folder: FolderSummary) => void;
   onCreateFolder: () => void;
+  onImportDocuments: (files: File[], folderId: string | null) => void;
+  importingDocuments: boolean;
+  onOpenBatchCompose?: () => void;
+  onBulkExport: (target: BulkExportTarget, format: ExportFormat) => void;
+  bulkExporting: boolean;
+  onFillFolderPlaceholders?: (folderId: string) => void;
   onDocumentDroppedOnFolder?: (folderId: string, docId: string) => void;
   settingsOpen?: boolean;
   onOpenSettings?: (anchorRect: DOMRect) => void;
   onOpenPersonaModal?: () => void;
+  workspaces: WorkspaceSummary[];
+  activeWorkspaceId: string | null;
+  pendingInvitationCount: number;
+  onSwitchWorkspace: (workspaceId: string | null) => void;
+  onManageWorkspaces: () => void;
+  onOpenSearchResult: (result: DocumentSearchResult) => void;
+  onOpenPersonaResult: (personaId: string) => void;
+  docSort: DocumentSort;
+  onDocSortChange: (sort: DocumentSort) => void;
+  docFeeds: Record<string, DocFeedState>;
+  onLoadMoreDocs: (feed: DocFeed) => void;
+  hasMoreFolders: boolean;
+  foldersLoading: boolean;
+  onLoadMoreFolders: () => void;
 };
 
 function WorkspaceSidebar({
@@ -3839,21 +4896,50 @@ function WorkspaceSidebar({
   onPinDocument,
   onPinFolder,
   onCreateFolder,
+  onImportDocuments,
+  importingDocuments,
+  onOpenBatchCompose,
+  onBulkExport,
+  bulkExporting,
+  onFillFolderPlaceholders,
   onDocumentDroppedOnFolder,
   settingsOpen = false,
   onOpenSettings,
-  onOpenPersonaModal
+  onOpenPersonaModal,
+  workspaces,
+  activeWorkspaceId,
+  pendingInvitationCount,
+  onSwitchWorkspace,
+  onManageWorkspaces,
+  onOpenSearchResult,
+  onOpenPersonaResult,
+  docSort,
+  onDocSortChange,
+  docFeeds,
+  onLoadMoreDocs,
+  hasMoreFolders,
+  foldersLoading,
+  onLoadMoreFolders
 }: WorkspaceSidebarProps) {
+  const [workspaceMenuOpen, setWorkspaceMenuOpen] = useState(false);
+  const [searchActive, setSearchActive] = useState(false);
+  const activeWorkspace = workspaces.find((workspace) => workspace.id === activeWorkspaceId) ?? null;
   const [hoveredTimestampId, setHoveredTimestampId] = useState<string | null>(null);
   const timestampTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const [folderFilterId, setFolderFilterId] = useState<string | null>(null);
   const [draggingDocId, setDraggingDocId] = useState<string | null>(null);
   const [dragOverFolderId, setDragOverFolderId] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement | null>(null);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("docx");
+  const [selectingDocs, setSelectingDocs] = useState(false);
+  const [selectedDocIds, setSelectedDocIds] = useState<string[]>([]);
 
   const tabs: { id: SidebarTab; label: string; icon: string }[] = [
     { id: "docs", label: "Docs", icon: "description" },
     { id: "styles", label: "Styles", icon: "draw_abstract" },
-    { id: "personas", label: "Personas", icon: "groucho-mask" }
+    { id: "personas", label: "Personas", icon: "groucho-mask" },
+    { id: "sources", label: "Sources", icon: "library_books" },
+    { id: "templates", label: "Templates", icon: "branding_watermark" }
   ];
   const selectedIndex = Math.max(
     tabs.findIndex((tab) => tab.id === activeTab),
@@ -3931,6 +5017,20 @@ function WorkspaceSidebar({
     return docs.filter((doc) => doc.folders?.some((folder) => folder.id === effectiveFolderFilterId));
   }, [docs, effectiveFolderFilterId]);
 
+  const docListFeed = useMemo<DocFeed>(
+    () => ({ kind: "docs", folderId: effectiveFolderFilterId }),
+    [effectiveFolderFilterId]
+  );
+  const docListFeedState = docFeeds[docFeedKey(docListFeed)];
+  const styleFeedState = docFeeds[docFeedKey({ kind: "styles" })];
+
+  // A folder's own feed pages through everything filed in it, including docs older than the main list
+  useEffect(() => {
+    if (docListFeed.folderId && !docListFeedState) {
+      onLoadMoreDocs(docListFeed);
+    }
+  }, [docListFeed, docListFeedState, onLoadMoreDocs]);
+
   // Helper function to truncate text at word boundaries
   function truncateAtWordBoundary(text: string, maxLength: number): string {
     if (text.length <= maxLength) return text;
@@ -4014,7 +5114,108 @@ function WorkspaceSidebar({
   }
 
 
+  const toggleDocSelected = useCallback((docId: string) => {
+    setSelectedDocIds((current) =>
+      current.includes(docId) ? current.filter((id) => id !== docId) : [...current, docId]
+    );
+  }, []);
+
+  const stopSelectingDocs = useCallback(() => {
+    setSelectingDocs(false);
+    setSelectedDocIds([]);
+  }, []);
+
+  function renderExportFormatSelect() {
+    return (
+      <select
+        value={exportFormat}
+        onChange={(event) => setExportFormat(event.target.value as ExportFormat)}
+        className="bg-transparent text-[11px] font-semibold text-brand-muted transition hover:text-white focus:outline-none"
+        aria-label="Export format"
+      >
+        {EXPORT_FORMATS.map((entry) => (
+          <option key={entry.format} value={entry.format} className="bg-brand-panel text-white">
+            {entry.label}
+          </option>
+        ))}
+      </select>
+    );
+  }
+
+  function renderSelectionBar() {
+    if (!canOrganizeFolders) {
+      return null;
+    }
+    if (!selectingDocs) {
+      return (
+        <div className="flex justify-end px-1.5 pb-[3px]">
+          <button
+            type="button"
+            onMouseDown={handleButtonMouseDown}
+            onClick={() => setSelectingDocs(true)}
+            className="inline-flex items-center gap-1 text-[11px] font-semibold text-brand-muted transition hover:text-white"
+            title="Select docs to export as a ZIP"
+          >
+            <span className="material-symbols-outlined leading-none" style={{ fontSize: "14px" }}>checklist</span>
+            Select
+          </button>
+        </div>
+      );
+    }
+    return (
+      <div className="flex items-center gap-2 px-1.5 pb-[3px] text-[11px] font-semibold text-brand-muted">
+        <span className="text-white">{selectedDocIds.length} selected</span>
+        <div className="ml-auto flex items-center gap-2">
+          {renderExportFormatSelect()}
+          <button
+            type="button"
+            onMouseDown={handleButtonMouseDown}
+            onClick={() => {
+              onBulkExport({ documentIds: selectedDocIds }, exportFormat);
+              stopSelectingDocs();
+            }}
+            disabled={!selectedDocIds.length || bulkExporting}
+            className="rounded-full border border-brand-stroke/50 px-2 py-0.5 transition hover:border-white hover:text-white disabled:opacity-50"
+          >
+            {bulkExporting ? "Exporting…" : "Export"}
+          </button>
+          <button
+            type="button"
+            onMouseDown={handleButtonMouseDown}
+            onClick={stopSelectingDocs}
+            className="transition hover:text-white"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  function renderSortControl() {
+    return (
+      <div className="flex h-[24px] flex-shrink-0 items-center justify-end gap-1 px-3">
+        <span className="material-symbols-outlined leading-none text-brand-muted" style={{ fontSize: "14px" }}>sort</span>
+        <select
+          value={docSort}
+          onChange={(event) => onDocSortChange(event.target.value as DocumentSort)}
+          className="bg-transparent text-[11px] font-semibold text-brand-muted transition hover:text-white focus:outline-none"
+          aria-label="Sort by"
+        >
+          {(Object.keys(documentSortLabels) as DocumentSort[]).map((sort) => (
+            <option key={sort} value={sort} className="bg-brand-panel text-white">
+              {documentSortLabels[sort]}
+            </option>
+          ))}
+        </select>
+      </div>
+    );
+  }
+
   function renderDocList(items: SavedDoc[], emptyLabel: string) {
+    if (!items.length && docListFeedState?.loading) {
+      return <p className="px-3 py-4 text-center text-xs text-brand-muted">Loading…</p>;
+    }
     if (!items.length) {
       return (
         <div className="flex h-full flex-col justify-center pt-[4px] px-[4px] bg-[#131313]">
@@ -4025,16 +5226,20 @@ function WorkspaceSidebar({
       );
     }
     return (
+      <>
+      {renderSelectionBar()}
       <ul className="space-y-[3px]">
         {items.map((doc) => {
           const isActive = activeDocumentId === doc.id;
+          const isSelectable = selectingDocs && !doc.id.startsWith("local-");
+          const isSelected = isSelectable && selectedDocIds.includes(doc.id);
           const hasTitle = doc.title && doc.title.trim().length > 0;
           const displayTitle = hasTitle ? doc.title : getFirstLineAsTitle(doc.content);
           const preview = hasTitle 
             ? getContentPreview(doc.content)
             : getContentPreview(doc.content, 80, true); // Skip first line if no title
           const docFolders = doc.folders ?? [];
-          const canDragDoc = canOrganizeFolders && !doc.id.startsWith("local-");
+          const canDragDoc = canOrganizeFolders && !selectingDocs && !doc.id.startsWith("local-");
           return (
             <li
               key={doc.id}
@@ -4050,15 +5255,31 @@ function WorkspaceSidebar({
               <button
                 type="button"
                 onMouseDown={handleButtonMouseDown}
-                onClick={() => onSelect(doc)}
+                onClick={() => {
+                  if (!selectingDocs) onSelect(doc);
+                  else if (isSelectable) toggleDocSelected(doc.id);
+                }}
                 className={cn(
                   "w-full h-[90px] rounded-[7px] border border-brand-stroke/40 bg-brand-background/60 p-5 text-left transition flex flex-col",
-                  isActive
+                  isActive || isSelected
                     ? "border-white shadow-[0_20px_45px_rgba(0,0,0,0.45)]"
-                    : "hover:border-white/50"
+                    : "hover:border-white/50",
+                  selectingDocs && !isSelectable ? "opacity-50" : undefined
                 )}
                 tabIndex={-1}
+                aria-pressed={selectingDocs ? isSelected : undefined}
               >
+                {isSelectable && (
+                  <span
+                    className={cn(
+                      "material-symbols-outlined absolute left-3 top-2 leading-none",
+                      isSelected ? "text-brand-blue" : "text-white/40"
+                    )}
+                    style={{ fontSize: "14px" }}
+                  >
+                    {isSelected ? "check_box" : "check_box_outline_blank"}
+                  </span>
+                )}
                 <TruncateTitle 
                   text={displayTitle || getFirstLineAsTitle(doc.content) || ""}
                   className="text-lg font-semibold pr-[46px] mb-[2.5px] pb-0.5 overflow-hidden whitespace-nowrap"
@@ -4117,6 +5338,12 @@ function WorkspaceSidebar({
           );
         })}
       </ul>
+      <LoadMoreSentinel
+        hasMore={Boolean(docListFeedState?.nextCursor)}
+        loading={Boolean(docListFeedState?.loading)}
+        onLoadMore={() => onLoadMoreDocs(docListFeed)}
+      />
+      </>
     );
   }
 
@@ -4145,6 +5372,72 @@ function WorkspaceSidebar({
           >
             <span className="material-symbols-outlined leading-none" style={{ fontSize: '16px' }}>add</span>
           </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            multiple
+            accept=".docx,.html,.htm,.md,.markdown"
+            className="hidden"
+            onChange={(event) => {
+              const files = Array.from(event.target.files ?? []);
+              event.target.value = "";
+              // Imports land in the folder currently selected below, if any
+              onImportDocuments(files, effectiveFolderFilterId);
+            }}
+          />
+          {effectiveFolderFilterId && (
+            <div className="ml-auto flex items-center gap-1">
+              {renderExportFormatSelect()}
+              <button
+                type="button"
+                onMouseDown={handleButtonMouseDown}
+                onClick={() => onBulkExport({ folderId: effectiveFolderFilterId }, exportFormat)}
+                disabled={bulkExporting}
+                className="inline-flex items-center gap-1 rounded-full border border-brand-stroke/50 py-0.5 pl-1 pr-2 text-xs text-brand-muted transition hover:border-white hover:text-white disabled:opacity-50"
+                title="Download every doc in the selected folder as a ZIP"
+              >
+                <span className="material-symbols-outlined leading-none" style={{ fontSize: '16px' }}>folder_zip</span>
+                {bulkExporting ? "Exporting…" : "Export folder"}
+              </button>
+              {onFillFolderPlaceholders && (
+                <button
+                  type="button"
+                  onMouseDown={handleButtonMouseDown}
+                  onClick={() => onFillFolderPlaceholders(effectiveFolderFilterId)}
+                  className="inline-flex items-center justify-center rounded-full border border-brand-stroke/50 py-0.5 px-0.5 text-xs text-brand-muted transition hover:border-white hover:text-white"
+                  title="Fill placeholders across the docs in this folder"
+                >
+                  <span className="material-symbols-outlined leading-none" style={{ fontSize: '16px' }}>edit_note</span>
+                </button>
+              )}
+            </div>
+          )}
+          <button
+            type="button"
+            onMouseDown={handleButtonMouseDown}
+            onClick={() => importInputRef.current?.click()}
+            disabled={importingDocuments}
+            className={cn(effectiveFolderFilterId ? undefined : "ml-auto", "inline-flex items-center gap-1 rounded-full border border-brand-stroke/50 py-0.5 pl-1 pr-2 text-xs text-brand-muted transition hover:border-white hover:text-white disabled:opacity-50")}
+            title={
+              effectiveFolderFilterId
+                ? "Import DOCX, HTML or Markdown into the selected folder"
+                : "Import DOCX, HTML or Markdown files"
+            }
+          >
+            <span className="material-symbols-outlined leading-none" style={{ fontSize: '16px' }}>upload_file</span>
+            {importingDocuments ? "Importing…" : "Import"}
+          </button>
+          {onOpenBatchCompose && (
+            <button
+              type="button"
+              onMouseDown={handleButtonMouseDown}
+              onClick={onOpenBatchCompose}
+              className="inline-flex items-center justify-center rounded-full border border-brand-stroke/50 py-0.5 px-0.5 text-xs text-brand-muted transition hover:border-white hover:text-white"
+              title="Generate one doc per row of a CSV"
+            >
+              <span className="material-symbols-outlined leading-none" style={{ fontSize: '16px' }}>table_view</span>
+            </button>
+          )}
         </div>
         {folders.length > 0 && (
           <div className="max-h-[200px] overflow-y-auto px-3 pt-2">
@@ -4224,6 +5517,7 @@ function WorkspaceSidebar({
               );
             })}
             </div>
+            <LoadMoreSentinel hasMore={hasMoreFolders} loading={foldersLoading} onLoadMore={onLoadMoreFolders} />
           </div>
         )}
       </div>
@@ -4265,6 +5559,7 @@ function WorkspaceSidebar({
             </button>
           </div>
         )}
+        {renderSortControl()}
         <div className="flex-1 min-h-0 overflow-y-auto pt-[4px] px-3 bg-[#131313]">
           <ul className="space-y-1.5">
             {items.map((style) => (
@@ -4290,6 +5585,11 @@ function WorkspaceSidebar({
               </li>
             ))}
           </ul>
+          <LoadMoreSentinel
+            hasMore={Boolean(styleFeedState?.nextCursor)}
+            loading={Boolean(styleFeedState?.loading)}
+            onLoadMore={() => onLoadMoreDocs({ kind: "styles" })}
+          />
         </div>
       </div>
     );
@@ -4360,6 +5660,7 @@ function WorkspaceSidebar({
               summary={persona.summary}
               hasSummary={persona.hasSummary}
               keyMessages={persona.keyMessages}
+              facts={persona.facts}
               allowKeyMessageActions={isAuthenticated && Boolean(onAddKeyMessaging)}
               onAddKeyMessage={onAddKeyMessaging}
               onRemoveKeyMessage={onRemoveKeyMessaging}
@@ -4449,7 +5750,13 @@ function WorkspaceSidebar({
               )}
             </Tab.List>
             </div>
-            <div className="flex-1 min-h-0 overflow-hidden">
+            <SidebarSearch
+              folders={folders}
+              onOpenDocument={onOpenSearchResult}
+              onOpenPersona={onOpenPersonaResult}
+              onActiveChange={setSearchActive}
+            />
+            <div className={cn("flex-1 min-h-0 overflow-hidden", searchActive ? "hidden" : null)}>
               <Tab.Panels className="h-full">
                 <Tab.Panel className="h-full flex flex-col focus:outline-none">
                   {(() => {
@@ -4482,6 +5789,7 @@ function WorkspaceSidebar({
                       </div>
                     );
                   })()}
+                  {renderSortControl()}
                   <div className="flex-1 min-h-0 overflow-y-auto pt-[4px] px-[4px] bg-[#131313]">
                     {renderDocList(
                       filteredDocs,
@@ -4498,10 +5806,87 @@ function WorkspaceSidebar({
                 <Tab.Panel className="h-full focus:outline-none">
                   {renderPersonasContent()}
                 </Tab.Panel>
+                <Tab.Panel className="h-full focus:outline-none">
+                  <SourcesPanel personas={personaCards} folders={folders} workspaceId={activeWorkspaceId} />
+                </Tab.Panel>
+                <Tab.Panel className="h-full focus:outline-none">
+                  <ExportTemplatesPanel
+                    personas={personaCards}
+                    activePersonaId={activePersonaId ?? null}
+                    workspaceId={activeWorkspaceId}
+                  />
+                </Tab.Panel>
               </Tab.Panels>
             </div>
           </Tab.Group>
           <div className="mt-auto border-t border-brand-stroke/40 pt-2.5 pb-3 px-5 flex-shrink-0">
+            <div className="relative mb-2.5">
+              <button
+                type="button"
+                onMouseDown={handleButtonMouseDown}
+                onClick={() => setWorkspaceMenuOpen((prev) => !prev)}
+                className="flex w-full items-center gap-2 rounded-xl border border-brand-stroke/50 px-3 py-1.5 text-left text-xs text-white transition hover:border-white/40"
+                aria-haspopup="menu"
+                aria-expanded={workspaceMenuOpen}
+              >
+                <span className="material-symbols-outlined leading-none text-white/60" style={{ fontSize: "16px" }}>
+                  {activeWorkspace ? "groups" : "person"}
+                </span>
+                <span className="flex-1 truncate font-semibold">{activeWorkspace?.name ?? "Personal"}</span>
+                {pendingInvitationCount > 0 && (
+                  <span className="rounded-full bg-brand-blue px-1.5 text-[10px] font-semibold leading-4 text-white">
+                    {pendingInvitationCount}
+                  </span>
+                )}
+                <span className="material-symbols-outlined leading-none text-white/60" style={{ fontSize: "16px" }}>
+                  unfold_more
+                </span>
+              </button>
+              {workspaceMenuOpen && (
+                <div
+                  role="menu"
+                  className="absolute bottom-full left-0 right-0 z-10 mb-2 rounded-2xl border border-brand-stroke/60 bg-brand-panel/95 p-2 shadow-[0_25px_80px_rgba(0,0,0,0.65)]"
+                >
+                  {[{ id: null as string | null, name: "Personal", icon: "person" }]
+                    .concat(workspaces.map((workspace) => ({ id: workspace.id as string | null, name: workspace.name, icon: "groups" })))
+                    .map((entry) => (
+                      <button
+                        key={entry.id ?? "personal"}
+                        type="button"
+                        role="menuitem"
+                        onMouseDown={handleButtonMouseDown}
+                        onClick={() => {
+                          setWorkspaceMenuOpen(false);
+                          if (entry.id !== activeWorkspaceId) onSwitchWorkspace(entry.id);
+                        }}
+                        className={cn(
+                          "flex w-full items-center gap-3 rounded-xl px-3 py-2 text-left text-sm text-white transition hover:bg-white/10",
+                          entry.id === activeWorkspaceId ? "bg-white/10" : undefined
+                        )}
+                      >
+                        <span className="material-symbols-outlined text-base leading-none">{entry.icon}</span>
+                        <span className="flex-1 truncate font-semibold">{entry.name}</span>
+                        {entry.id === activeWorkspaceId && (
+                          <span className="material-symbols-outlined text-base leading-none text-brand-blue">check</span>
+                        )}
+                      </button>
+                    ))}
+                  <button
+                    type="button"
+                    role="menuitem"
+                    onMouseDown={handleButtonMouseDown}
+                    onClick={() => {
+                      setWorkspaceMenuOpen(false);
+                      onManageWorkspaces();
+                    }}
+                    className="mt-1 flex w-full items-center gap-3 rounded-xl border-t border-brand-stroke/40 px-3 py-2 text-left text-sm text-white/80 transition hover:bg-white/10"
+                  >
+                    <span className="material-symbols-outlined text-base leading-none">settings</span>
+                    <span className="font-semibold">Manage workspaces…</span>
+                  </button>
+                </div>
+              )}
+            </div>
             <div className="flex items-center justify-between gap-3">
               <Link href="/membership" className="flex items-center gap-[3px] hover:opacity-80 transition-opacity">
                 <ProfileAvatar name={userName} size={16} />
@@ -4525,12 +5910,337 @@ function WorkspaceSidebar({
   );
 }
 
+type LoadMoreSentinelProps = {
+  hasMore: boolean;
+  loading: boolean;
+  onLoadMore: () => void;
+};
+
+/** Asks for the next page when scrolled into view; renders nothing once the list is exhausted. */
+function LoadMoreSentinel({ hasMore, loading, onLoadMore }: LoadMoreSentinelProps) {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const node = ref.current;
+    if (!node || !hasMore || loading) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) onLoadMore();
+      },
+      { rootMargin: "200px" }
+    );
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, [hasMore, loading, onLoadMore]);
+
+  if (!hasMore) return null;
+  return (
+    <div ref={ref} className="flex h-8 items-center justify-center text-[10px] text-brand-muted">
+      {loading ? "Loading…" : null}
+    </div>
+  );
+}
+
+type SearchDateRange = "any" | "week" | "month" | "year";
+
+const searchDateRangeDays: Record<Exclude<SearchDateRange, "any">, number> = {
+  week: 7,
+  month: 30,
+  year: 365
+};
+
+type SidebarSearchProps = {
+  folders: FolderSummary[];
+  onOpenDocument: (result: DocumentSearchResult) => void;
+  onOpenPersona: (personaId: string) => void;
+  onActiveChange: (active: boolean) => void;
+};
+
+function HighlightedSnippet({ snippet }: { snippet: SearchSnippet }) {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  snippet.highlights.forEach(([start, end], index) => {
+    if (start > cursor) parts.push(snippet.text.slice(cursor, start));
+    parts.push(
+      <mark key={index} className="rounded-sm bg-brand-blue/30 px-px text-white">
+        {snippet.text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  if (cursor < snippet.text.length) parts.push(snippet.text.slice(cursor));
+
+  return (
+    <p className="mt-0.5 line-clamp-2 text-xs text-brand-muted">
+      {snippet.truncatedStart ? "…" : ""}
+      {parts}
+      {snippet.truncatedEnd ? "…" : ""}
+    </p>
+  );
+}
+
+function SidebarSearch({ folders, onOpenDocument, onOpenPersona, onActiveChange }: SidebarSearchProps) {
+  const [query, setQuery] = useState("");
+  const [showFilters, setShowFilters] = useState(false);
+  const [kind, setKind] = useState<"all" | "docs" | "styles">("all");
+  const [folderId, setFolderId] = useState("");
+  const [pinnedOnly, setPinnedOnly] = useState(false);
+  const [dateRange, setDateRange] = useState<SearchDateRange>("any");
+  const [documents, setDocuments] = useState<DocumentSearchResult[]>([]);
+  const [personas, setPersonas] = useState<PersonaSearchResult[]>([]);
+  const [status, setStatus] = useState<"idle" | "loading" | "error">("idle");
+  const [highlightedIndex, setHighlightedIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const resultsRef = useRef<HTMLUListElement>(null);
+
+  const trimmedQuery = query.trim();
+  const active = trimmedQuery.length > 0;
+
+  useEffect(() => {
+    onActiveChange(active);
+  }, [active, onActiveChange]);
+
+  useEffect(() => {
+    if (!trimmedQuery) return;
+
+    const params = new URLSearchParams({ q: trimmedQuery, kind });
+    if (folderId) params.set("folderId", folderId);
+    if (pinnedOnly) params.set("pinned", "true");
+    if (dateRange !== "any") {
+      params.set("from", new Date(Date.now() - searchDateRangeDays[dateRange] * 24 * 60 * 60 * 1000).toISOString());
+    }
+
+    const controller = new AbortController();
+    // Debounce so typing does not fire a query per keystroke
+    const timer = setTimeout(() => {
+      setStatus("loading");
+      fetch(`/api/search?${params.toString()}`, { signal: controller.signal, cache: "no-store" })
+        .then(async (response) => {
+          const payload = await response.json().catch(() => null);
+          if (!response.ok) {
+            throw new Error(readApiErrorMessage(payload, "Search failed."));
+          }
+          setDocuments(Array.isArray(payload?.documents) ? payload.documents : []);
+          setPersonas(Array.isArray(payload?.personas) ? payload.personas : []);
+          setHighlightedIndex(0);
+          setStatus("idle");
+        })
+        .catch((error) => {
+          if (isAbortError(error)) return;
+          console.error("[SidebarSearch] search failed", error);
+          setStatus("error");
+        });
+    }, 250);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [trimmedQuery, kind, folderId, pinnedOnly, dateRange]);
+
+  const resultCount = documents.length + personas.length;
+
+  const openResult = (index: number) => {
+    if (index < documents.length) {
+      onOpenDocument(documents[index]);
+    } else if (personas[index - documents.length]) {
+      onOpenPersona(personas[index - documents.length].id);
+    }
+  };
+
+  useEffect(() => {
+    const item = resultsRef.current?.querySelector<HTMLElement>(`[data-result-index="${highlightedIndex}"]`);
+    item?.scrollIntoView({ block: "nearest" });
+  }, [highlightedIndex]);
+
+  const handleQueryChange = (value: string) => {
+    setQuery(value);
+    if (!value.trim()) {
+      setDocuments([]);
+      setPersonas([]);
+      setStatus("idle");
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "ArrowDown" && resultCount) {
+      event.preventDefault();
+      setHighlightedIndex((prev) => (prev + 1) % resultCount);
+    } else if (event.key === "ArrowUp" && resultCount) {
+      event.preventDefault();
+      setHighlightedIndex((prev) => (prev - 1 + resultCount) % resultCount);
+    } else if (event.key === "Enter" && resultCount) {
+      event.preventDefault();
+      openResult(highlightedIndex);
+    } else if (event.key === "Escape") {
+      event.preventDefault();
+      handleQueryChange("");
+      inputRef.current?.blur();
+    }
+  };
+
+  const filterCount = (kind !== "all" ? 1 : 0) + (folderId ? 1 : 0) + (pinnedOnly ? 1 : 0) + (dateRange !== "any" ? 1 : 0);
+  const filterSelectClassName =
+    "min-w-0 flex-1 rounded-lg border border-brand-stroke/50 bg-[#0A0A0A] px-2 py-1 text-[11px] text-white focus:border-brand-blue focus:outline-none";
+
+  return (
+    <>
+      <div className="flex-shrink-0 px-[7px] pt-[6px] pb-[4px]">
+        <div className="flex items-center gap-1 rounded-xl border border-brand-stroke/50 bg-[#0A0A0A] px-2.5 focus-within:border-brand-blue/70">
+          <span className="material-symbols-outlined leading-none text-brand-muted" style={{ fontSize: "16px" }}>
+            search
+          </span>
+          <input
+            ref={inputRef}
+            type="search"
+            value={query}
+            onChange={(event) => handleQueryChange(event.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Search docs, styles and personas"
+            aria-label="Search"
+            aria-controls="sidebar-search-results"
+            aria-activedescendant={active && resultCount ? `sidebar-search-result-${highlightedIndex}` : undefined}
+            className="min-w-0 flex-1 bg-transparent py-1.5 text-xs text-white placeholder:text-brand-muted focus:outline-none"
+          />
+          <button
+            type="button"
+            onClick={() => setShowFilters((prev) => !prev)}
+            className={cn(
+              "relative rounded-md p-0.5 transition hover:text-white",
+              showFilters || filterCount ? "text-white" : "text-brand-muted"
+            )}
+            aria-label="Search filters"
+            aria-expanded={showFilters}
+          >
+            <span className="material-symbols-outlined leading-none" style={{ fontSize: "16px" }}>tune</span>
+            {filterCount > 0 && (
+              <span className="absolute -right-1 -top-1 h-3 min-w-[12px] rounded-full bg-brand-blue px-0.5 text-[8px] font-semibold leading-3 text-white">
+                {filterCount}
+              </span>
+            )}
+          </button>
+        </div>
+        {showFilters && (
+          <div className="mt-1.5 flex flex-wrap items-center gap-1.5">
+            <select value={kind} onChange={(event) => setKind(event.target.value as typeof kind)} className={filterSelectClassName} aria-label="Type">
+              <option value="all">Docs & styles</option>
+              <option value="docs">Docs only</option>
+              <option value="styles">Styles only</option>
+            </select>
+            <select value={folderId} onChange={(event) => setFolderId(event.target.value)} className={filterSelectClassName} aria-label="Folder">
+              <option value="">Any folder</option>
+              {folders.map((folder) => (
+                <option key={folder.id} value={folder.id}>
+                  {folder.name}
+                </option>
+              ))}
+            </select>
+            <select
+              value={dateRange}
+              onChange={(event) => setDateRange(event.target.value as SearchDateRange)}
+              className={filterSelectClassName}
+              aria-label="Last edited"
+            >
+              <option value="any">Any time</option>
+              <option value="week">Past week</option>
+              <option value="month">Past month</option>
+              <option value="year">Past year</option>
+            </select>
+            <button
+              type="button"
+              onClick={() => setPinnedOnly((prev) => !prev)}
+              className={cn(
+                "flex items-center gap-1 rounded-lg border px-2 py-1 text-[11px] transition",
+                pinnedOnly ? "border-brand-blue bg-brand-blue/20 text-white" : "border-brand-stroke/50 text-brand-muted hover:text-white"
+              )}
+              aria-pressed={pinnedOnly}
+            >
+              <span className="material-symbols-outlined leading-none" style={{ fontSize: "12px" }}>push_pin</span>
+              Pinned
+            </button>
+          </div>
+        )}
+      </div>
+      {active && (
+        <div className="flex-1 min-h-0 overflow-y-auto px-[4px] pt-[4px] bg-[#131313]">
+          {status === "loading" && resultCount === 0 && <p className="px-3 py-2 text-xs text-brand-muted">Searching…</p>}
+          {status === "error" && <p className="px-3 py-2 text-xs text-red-400">Search failed. Try again in a moment.</p>}
+          {status === "idle" && resultCount === 0 && (
+            <p className="px-3 py-2 text-xs text-brand-muted">No matches for &ldquo;{trimmedQuery}&rdquo;.</p>
+          )}
+          <ul id="sidebar-search-results" ref={resultsRef} role="listbox" className="space-y-[3px]">
+            {documents.map((result, index) => (
+              <li
+                key={result.id}
+                id={`sidebar-search-result-${index}`}
+                data-result-index={index}
+                role="option"
+                aria-selected={index === highlightedIndex}
+                onMouseEnter={() => setHighlightedIndex(index)}
+                onMouseDown={(event) => event.preventDefault()}
+                onClick={() => openResult(index)}
+                className={cn(
+                  "cursor-pointer rounded-xl px-3 py-2 transition",
+                  index === highlightedIndex ? "bg-white/15" : "bg-[#0A0A0A] hover:bg-white/10"
+                )}
+              >
+                <div className="flex items-center gap-1.5">
+                  <span className="material-symbols-outlined leading-none text-white/50" style={{ fontSize: "14px" }}>
+                    {result.kind === "style" ? "draw_abstract" : "description"}
+                  </span>
+                  <p className="min-w-0 flex-1 truncate text-sm font-semibold text-white">{result.title || "Untitled"}</p>
+                  {result.pinned && (
+                    <span className="material-symbols-outlined leading-none text-white/50" style={{ fontSize: "12px" }}>push_pin</span>
+                  )}
+                </div>
+                {result.snippet && <HighlightedSnippet snippet={result.snippet} />}
+                <p className="mt-0.5 truncate text-[10px] text-white/40">
+                  {formatTimestamp(result.updatedAt)}
+                  {result.folders.length ? ` · ${result.folders.map((folder) => folder.name).join(", ")}` : ""}
+                </p>
+              </li>
+            ))}
+            {personas.map((persona, personaIndex) => {
+              const index = documents.length + personaIndex;
+              return (
+                <li
+                  key={persona.id}
+                  id={`sidebar-search-result-${index}`}
+                  data-result-index={index}
+                  role="option"
+                  aria-selected={index === highlightedIndex}
+                  onMouseEnter={() => setHighlightedIndex(index)}
+                  onMouseDown={(event) => event.preventDefault()}
+                  onClick={() => openResult(index)}
+                  className={cn(
+                    "cursor-pointer rounded-xl px-3 py-2 transition",
+                    index === highlightedIndex ? "bg-white/15" : "bg-[#0A0A0A] hover:bg-white/10"
+                  )}
+                >
+                  <div className="flex items-center gap-1.5">
+                    <span className="material-symbols-outlined leading-none text-white/50" style={{ fontSize: "14px" }}>
+                      theater_comedy
+                    </span>
+                    <p className="min-w-0 flex-1 truncate text-sm font-semibold text-white">{persona.name || "Untitled persona"}</p>
+                  </div>
+                  {persona.snippet && <HighlightedSnippet snippet={persona.snippet} />}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </>
+  );
+}
+
 type PersonaCardProps = {
   id: string;
   name: string;
   summary: string | null;
   hasSummary: boolean;
   keyMessages: PersonaKeyMessage[];
+  facts?: PersonaFacts;
   allowKeyMessageActions: boolean;
   onAddKeyMessage?: (text: string, personaId?: string) => Promise<{ success: boolean; error?: string }>;
   onRemoveKeyMessage?: (id: string) => Promise<void>;
@@ -4545,6 +6255,7 @@ function PersonaCard({
   summary,
   hasSummary,
   keyMessages,
+  facts,
   allowKeyMessageActions,
   onAddKeyMessage,
   onRemoveKeyMessage,
@@ -4557,6 +6268,7 @@ function PersonaCard({
   const [editModalOpen, setEditModalOpen] = useState(false);
   const [personaName, setPersonaName] = useState(name);
   const [personaInfo, setPersonaInfo] = useState(summary || "");
+  const [factDraft, setFactDraft] = useState<PersonaFacts>(facts ?? {});
   const [personaProcessing, setPersonaProcessing] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [removingMessageId, setRemovingMessageId] = useState<string | null>(null);
@@ -4592,26 +6304,43 @@ function PersonaCard({
     setErrorMessage(null);
 
     try {
-      const requestBody = {
-        personaName: personaName?.trim() || undefined,
-        personaInfo: personaInfo.trim()
-      };
+      // Re-summarizing is slow, so the persona itself is only re-saved when its name or info changed
+      if ((personaName?.trim() || "") !== (name?.trim() || "") || personaInfo.trim() !== (summary || "").trim()) {
+        const requestBody = {
+          personaName: personaName?.trim() || undefined,
+          personaInfo: personaInfo.trim()
+        };
 
-      const response = await fetch("/api/persona", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(requestBody)
-      });
+        const response = await fetch("/api/persona", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(requestBody)
+        });
 
-      const data = await response.json();
+        const data = await response.json();
+        if (!response.ok || data?.error) {
+          setErrorMessage(data?.error || "Failed to update persona");
+          return;
+        }
+      }
 
-      if (response.ok && !data?.error) {
-        setEditModalOpen(false);
-        // Refresh the page or update parent state
-        window.location.reload();
-      } else {
-        setErrorMessage(data?.error || "Failed to update persona");
+      if (facts && PERSONA_FACT_FIELDS.some((field) => (factDraft[field.key] ?? "").trim() !== (facts[field.key] ?? ""))) {
+        const response = await fetch("/api/persona/facts", {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ personaId: id, facts: factDraft })
+        });
+
+        const data = await response.json().catch(() => null);
+        if (!response.ok || data?.error) {
+          setErrorMessage(typeof data?.error === "string" ? data.error : "Failed to save persona facts");
+          return;
+        }
       }
+
+      setEditModalOpen(false);
+      // Refresh the page or update parent state
+      window.location.reload();
     } catch (error) {
       console.error("Failed to update persona", error);
       setErrorMessage("Failed to update persona. Please try again.");
@@ -4703,7 +6432,10 @@ function PersonaCard({
           {(isHovered || localActive || isActive) && (
             <button
               type="button"
-              onClick={() => setEditModalOpen(true)}
+              onClick={() => {
+                setFactDraft(facts ?? {});
+                setEditModalOpen(true);
+              }}
               className={cn(
                 "absolute top-2 right-2 rounded-full p-1.5 transition",
                 isActive
@@ -4768,6 +6500,29 @@ function PersonaCard({
                     />
                   </div>
 
+                  {/* Facts Section */}
+                  {facts && (
+                    <div>
+                      <label className="text-sm text-brand-muted mb-2 block">
+                        Facts — filled into matching placeholders like [company name]
+                      </label>
+                      <div className="mt-2 grid gap-2 sm:grid-cols-2">
+                        {PERSONA_FACT_FIELDS.map((field) => (
+                          <input
+                            key={field.key}
+                            type={field.type === "url" ? "url" : "text"}
+                            value={factDraft[field.key] ?? ""}
+                            onChange={(e) => setFactDraft((prev) => ({ ...prev, [field.key]: e.target.value.substring(0, 300) }))}
+                            placeholder={field.label}
+                            aria-label={field.label}
+                            maxLength={300}
+                            className="w-full rounded-lg border border-brand-stroke/70 bg-brand-ink px-3 py-2 text-sm text-brand-text placeholder:text-brand-muted placeholder:opacity-50 focus:border-brand-blue focus:outline-none"
+                          />
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
                   {/* Key Messages Section */}
                   {keyMessages.length > 0 && (
                     <div>
@@ -5,6 +5,7 @@ import Image from "next/image";
 import { useSession } from "next-auth/react";
 import { useState, useRef, useEffect } from "react";
 import { cn } from "@/lib/utils";
+import type { ExportFormat } from "@/lib/validators";
 
 type SiteHeaderProps = {
   onPanelToggle?: () => void;
@@ -95,7 +96,7 @@ export default function SiteHeader({ onPanelToggle, showPanelButton = false }: S
     }
   }, [showDownloadMenu]);
 
-  async function handleDownload(format: "docx" | "txt" | "pdf" | "md") {
+  async function handleDownload(format: ExportFormat) {
     // Get active document from global event or context
     // For now, we'll dispatch an event that WriterWorkspace can listen to
     window.dispatchEvent(new CustomEvent("download-document", { detail: { format } }));
@@ -4,9 +4,12 @@ import { PrismaAdapter } from "@auth/prisma-adapter";
 import { compare } from "bcryptjs";
 import type { NextAuthConfig } from "next-auth";
 import type { Provider } from "next-auth/providers";
+import { cookies } from "next/headers";
 import { prisma } from "./prisma";
 import { signInSchema } from "./validators";
 import { logEvent } from "./logger";
+import { claimGuestPromptHistory } from "./prompt-history";
+import { readGuestUsageId } from "./token-usage";
 
 const hasDatabase = Boolean(prisma);
 
@@ -86,6 +89,16 @@ export const authConfig = {
       return token;
     }
   },
+  events: {
+    // OAuth sign-ups; password sign-ups claim their guest history in the register route
+    async createUser({ user }) {
+      if (!prisma || !user.id) return;
+      const guestId = readGuestUsageId(await cookies());
+      if (guestId) {
+        await claimGuestPromptHistory(prisma, guestId, user.id);
+      }
+    }
+  },
   pages: {
     signIn: "/sign-in"
   }
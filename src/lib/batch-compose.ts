@@ -0,0 +1,122 @@
+import { throwIfAborted, type LLMProvider } from "@/lib/llm";
+import type { ComposePrompts } from "@/lib/compose-prompt";
+import type { HouseRuleOptions } from "@/lib/house-rules";
+import type { LengthConstraints } from "@/lib/length-limits";
+import { reviseDraft } from "@/lib/draft-revision";
+import { channelFieldsToMarkdown, type ChannelPreset } from "@/lib/channel-presets";
+import { composeChannelFields } from "@/lib/channel-compose";
+
+// Attempts per row, including the first; later ones wait 1s, then 2s
+export const MAX_BATCH_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+
+export type BatchDraft = {
+  content: string;
+  tokensUsed: number;
+};
+
+/**
+ * One row's draft, non-streaming, with the same passes as a single compose: channel presets get
+ * structured fields, other drafts an optional house-rule repair and the length revise loop.
+ * Throws when the model fails or returns nothing, so the caller can retry.
+ */
+export async function composeBatchDraft(
+  prompts: ComposePrompts,
+  options: {
+    provider: LLMProvider;
+    channel: ChannelPreset | null;
+    constraints: LengthConstraints;
+    repair: HouseRuleOptions | null;
+    signal?: AbortSignal;
+  }
+): Promise<BatchDraft> {
+  const { provider, channel, signal } = options;
+  const { systemPrompt, userPrompt, maxOutputTokens } = prompts;
+
+  if (channel) {
+    const result = await composeChannelFields(channel, { provider, systemPrompt, userPrompt, signal });
+    if (!result) {
+      throw new Error(`The model did not return usable ${channel.label} fields.`);
+    }
+    return { content: channelFieldsToMarkdown(channel, result.values), tokensUsed: result.tokensUsed };
+  }
+
+  const draft = await provider.generate({
+    task: "draft",
+    temperature: 0.62,
+    maxOutputTokens,
+    messages: [
+      { role: "system", content: systemPrompt },
+      { role: "user", content: userPrompt }
+    ],
+    signal
+  });
+  const content = draft.text.trim();
+  if (!content) {
+    throw new Error("The writing model returned an empty response.");
+  }
+
+  const revised = await reviseDraft(content, {
+    provider,
+    systemPrompt,
+    maxOutputTokens,
+    rules: options.repair ?? {},
+    repair: Boolean(options.repair),
+    constraints: options.constraints,
+    signal
+  });
+  throwIfAborted(signal);
+  return { content: revised.text, tokensUsed: draft.usage.totalTokens + revised.tokensUsed };
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+}
+
+/**
+ * Runs `task` up to `MAX_BATCH_ATTEMPTS` times with exponential backoff between attempts.
+ * Rethrows the last error, or the first one once `signal` fires.
+ */
+export async function withRetries<T>(
+  task: (attempt: number) => Promise<T>,
+  options: { signal?: AbortSignal; onRetry?: (attempt: number, error: unknown) => void } = {}
+): Promise<T> {
+  for (let attempt = 1; ; attempt += 1) {
+    try {
+      return await task(attempt);
+    } catch (error) {
+      if (attempt >= MAX_BATCH_ATTEMPTS || options.signal?.aborted) throw error;
+      options.onRetry?.(attempt, error);
+      await wait(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), options.signal);
+      if (options.signal?.aborted) throw error;
+    }
+  }
+}
+
+/** Calls `worker` for indexes 0..count-1 in order, at most `concurrency` at a time; stops starting new ones once `signal` fires. */
+export async function runWithConcurrency(
+  count: number,
+  concurrency: number,
+  worker: (index: number) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> {
+  let next = 0;
+  const lanes = Array.from({ length: Math.max(1, Math.min(concurrency, count)) }, async () => {
+    while (next < count && !signal?.aborted) {
+      const index = next;
+      next += 1;
+      await worker(index);
+    }
+  });
+  await Promise.all(lanes);
+}
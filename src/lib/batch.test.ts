@@ -0,0 +1,62 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { batchResultsCsv, csvCell, parseCsv, renderTemplate, templateVariables, unknownTemplateVariables } from "./batch";
+
+describe("parseCsv", () => {
+  it("reads quoted fields with delimiters, escaped quotes and line breaks", () => {
+    assert.deepEqual(parseCsv('Name,Notes\r\n"Acme, Inc.","Say ""hi""\nthen leave"\r\n'), {
+      columns: ["Name", "Notes"],
+      rows: [{ Name: "Acme, Inc.", Notes: 'Say "hi"\nthen leave' }]
+    });
+  });
+
+  it("detects semicolon and tab delimiters and strips the byte order mark", () => {
+    assert.deepEqual(parseCsv("\uFEFFName;Price\nBread;2,50").rows, [{ Name: "Bread", Price: "2,50" }]);
+    assert.deepEqual(parseCsv("Name\tCity\nAda\tLondon").rows, [{ Name: "Ada", City: "London" }]);
+  });
+
+  it("names blank and repeated headers, skips blank rows and pads short ones", () => {
+    assert.deepEqual(parseCsv("Name,,Name\nAda\n,,\n\nBo,x,y\n"), {
+      columns: ["Name", "Column 2", "Name (2)"],
+      rows: [
+        { Name: "Ada", "Column 2": "", "Name (2)": "" },
+        { Name: "Bo", "Column 2": "x", "Name (2)": "y" }
+      ]
+    });
+  });
+});
+
+describe("templates", () => {
+  const columns = ["Product", "City"];
+
+  it("lists distinct variables and the ones that name no column", () => {
+    assert.deepEqual(templateVariables("{{Product}} in {{ city }} and {{Product}} for {{Season}}"), ["Product", "city", "Season"]);
+    assert.deepEqual(unknownTemplateVariables("{{product}} for {{Season}}", columns), ["Season"]);
+  });
+
+  it("fills variables case-insensitively and leaves empty cells as placeholders", () => {
+    assert.equal(
+      renderTemplate("Write about {{product}} in {{City}} ({{Season}}).", { Product: "Bread", City: " " }, columns),
+      "Write about Bread in [City] ({{Season}})."
+    );
+  });
+});
+
+describe("batchResultsCsv", () => {
+  it("appends each row's result after its inputs and quotes cells that need it", () => {
+    const csv = batchResultsCsv(
+      ["Product"],
+      [{ Product: "Bread" }, { Product: "Jam, Inc." }],
+      [{ status: "done", attempts: 1, documentId: "doc1", title: "Fresh bread", content: 'Say "hi"\nnow', error: null }]
+    );
+    assert.equal(
+      csv,
+      '\uFEFFProduct,Status,Title,Output,Document ID,Error\r\nBread,done,Fresh bread,"Say ""hi""\nnow",doc1,\r\n"Jam, Inc.",queued,,,,\r\n'
+    );
+  });
+
+  it("keeps spreadsheet formulas in cells as text", () => {
+    assert.equal(csvCell("=HYPERLINK(\"https://example.com\")"), '"\'=HYPERLINK(""https://example.com"")"');
+    assert.deepEqual(["+1", "-2", "@SUM(A1)", "\tx", "\rx", "a=b"].map(csvCell), ["'+1", "'-2", "'@SUM(A1)", "'\tx", "\"'\rx\"", "a=b"]);
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Batch generation from a spreadsheet: CSV parsing, `{{column}}` prompt templates and the results
+ * CSV written back next to the inputs. Client-safe; `batch-compose.ts` runs the rows on the server.
+ */
+
+export const MAX_BATCH_ROWS = 200;
+export const MAX_BATCH_COLUMNS = 50;
+export const MAX_BATCH_CONCURRENCY = 5;
+export const DEFAULT_BATCH_CONCURRENCY = 3;
+
+export type BatchRow = Record<string, string>;
+
+export type ParsedCsv = {
+  columns: string[];
+  rows: BatchRow[];
+};
+
+// Rows left once the token allowance runs out mid-batch are skipped rather than started
+export type BatchRowStatus = "queued" | "running" | "done" | "failed" | "skipped";
+
+export type BatchRowResult = {
+  status: BatchRowStatus;
+  attempts: number;
+  documentId: string | null;
+  title: string | null;
+  content: string | null;
+  error: string | null;
+};
+
+const TEMPLATE_VARIABLE_PATTERN = /\{\{\s*([^{}\n]+?)\s*\}\}/g;
+
+// Spreadsheet apps in comma-decimal locales export with semicolons; tabs come from pasted sheets
+function detectDelimiter(headerLine: string): string {
+  const counts = [",", ";", "\t"].map((delimiter) => ({ delimiter, count: headerLine.split(delimiter).length }));
+  return counts.sort((a, b) => b.count - a.count)[0].delimiter;
+}
+
+function splitRecords(text: string, delimiter: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && !field) {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") index += 1;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || record.length) {
+    record.push(field);
+    records.push(record);
+  }
+  return records;
+}
+
+/**
+ * Parses CSV text with a header row (RFC 4180 quoting; comma, semicolon or tab delimited). Blank
+ * headers become "Column N", repeated ones get a " (2)" suffix, and blank rows are skipped.
+ */
+export function parseCsv(text: string): ParsedCsv {
+  const source = text.replace(/^\uFEFF/, "");
+  const firstLine = source.split(/\r?\n/, 1)[0] ?? "";
+  const [header = [], ...records] = splitRecords(source, detectDelimiter(firstLine));
+
+  const columns: string[] = [];
+  header.forEach((raw, index) => {
+    const base = raw.trim() || `Column ${index + 1}`;
+    let name = base;
+    for (let suffix = 2; columns.includes(name); suffix += 1) {
+      name = `${base} (${suffix})`;
+    }
+    columns.push(name);
+  });
+
+  const rows = records
+    .filter((record) => record.some((cell) => cell.trim()))
+    .map((record) => {
+      const row: BatchRow = {};
+      columns.forEach((column, index) => {
+        row[column] = (record[index] ?? "").trim();
+      });
+      return row;
+    });
+  return { columns, rows };
+}
+
+/** Distinct `{{variable}}` names in order of first appearance. */
+export function templateVariables(template: string): string[] {
+  const names: string[] = [];
+  template.replace(TEMPLATE_VARIABLE_PATTERN, (match, name: string) => {
+    if (!names.includes(name)) names.push(name);
+    return match;
+  });
+  return names;
+}
+
+/** The column a variable refers to: an exact match, else one that differs only in case. */
+export function resolveTemplateColumn(variable: string, columns: string[]): string | null {
+  if (columns.includes(variable)) return variable;
+  const lower = variable.toLowerCase();
+  return columns.find((column) => column.toLowerCase() === lower) ?? null;
+}
+
+/** Variables in the template that name no column. */
+export function unknownTemplateVariables(template: string, columns: string[]): string[] {
+  return templateVariables(template).filter((variable) => !resolveTemplateColumn(variable, columns));
+}
+
+/**
+ * Fills a template from one row. An empty cell becomes a `[column]` placeholder, which the draft
+ * keeps in brackets so it can be filled in later rather than guessed.
+ */
+export function renderTemplate(template: string, row: BatchRow, columns: string[]): string {
+  return template.replace(TEMPLATE_VARIABLE_PATTERN, (match, variable: string) => {
+    const column = resolveTemplateColumn(variable, columns);
+    if (!column) return match;
+    return row[column]?.trim() || `[${column}]`;
+  });
+}
+
+/**
+ * One CSV cell, quoted when needed. Text a spreadsheet would run as a formula (leading `=`, `+`,
+ * `-`, `@`, tab or carriage return) gets a leading `'` so it opens as plain text.
+ */
+export function csvCell(value: string): string {
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** The input columns followed by each row's status, title, generated text, document id and error. */
+export function batchResultsCsv(columns: string[], rows: BatchRow[], results: Array<BatchRowResult | undefined>): string {
+  const lines = [[...columns, "Status", "Title", "Output", "Document ID", "Error"]];
+  rows.forEach((row, index) => {
+    const result = results[index];
+    lines.push([
+      ...columns.map((column) => row[column] ?? ""),
+      result?.status ?? "queued",
+      result?.title ?? "",
+      result?.content ?? "",
+      result?.documentId ?? "",
+      result?.error ?? ""
+    ]);
+  });
+  // The byte order mark makes Excel read the file as UTF-8
+  return `\uFEFF${lines.map((cells) => cells.map(csvCell).join(",")).join("\r\n")}\r\n`;
+}
@@ -0,0 +1,103 @@
+import type { LLMJsonField, LLMProvider } from "./llm";
+import {
+  describeChannelBrief,
+  parseChannelJson,
+  validateChannelFields,
+  type ChannelFieldIssue,
+  type ChannelFieldValues,
+  type ChannelPreset
+} from "./channel-presets";
+
+// Fix-up passes allowed after the first answer before compose returns the closest one
+export const MAX_CHANNEL_REVISIONS = 2;
+
+export type ChannelComposeResult = {
+  values: ChannelFieldValues;
+  issues: ChannelFieldIssue[];
+  revisions: number;
+  tokensUsed: number;
+};
+
+// Room for every item at its limit, as JSON; unlimited fields get a long-form budget
+function channelOutputTokens(preset: ChannelPreset): number {
+  const characters = preset.fields.reduce((sum, field) => sum + field.count * (field.maxCharacters ?? 3000), 0);
+  return Math.min(Math.ceil(characters / 3) + 200, 2400);
+}
+
+// The brief's keys again as the provider-level hint, which the fake provider answers from
+function channelJsonFields(preset: ChannelPreset): Record<string, LLMJsonField> {
+  return Object.fromEntries(
+    preset.fields.map((field) => [
+      field.key,
+      field.count > 1
+        ? { type: "string[]", count: field.count, maxLength: field.maxCharacters }
+        : { type: "string", maxLength: field.maxCharacters }
+    ])
+  );
+}
+
+/**
+ * Fills a channel preset's fields as JSON, then sends validation failures (over-limit items,
+ * missing or duplicate items) back for up to `MAX_CHANNEL_REVISIONS` fix-up passes. Returns the
+ * answer with the fewest issues; null when the model never produced usable JSON.
+ */
+export async function composeChannelFields(
+  preset: ChannelPreset,
+  options: {
+    provider: LLMProvider;
+    systemPrompt: string;
+    userPrompt: string;
+    signal?: AbortSignal;
+  }
+): Promise<ChannelComposeResult | null> {
+  const maxOutputTokens = channelOutputTokens(preset);
+  const brief = describeChannelBrief(preset);
+  const jsonFields = channelJsonFields(preset);
+  let tokensUsed = 0;
+
+  const first = await options.provider.generate({
+    task: "draft",
+    temperature: 0.62,
+    maxOutputTokens,
+    json: true,
+    jsonFields,
+    messages: [
+      { role: "system", content: options.systemPrompt },
+      { role: "user", content: `${options.userPrompt}\n\n${brief}` }
+    ],
+    signal: options.signal
+  });
+  tokensUsed += first.usage.totalTokens;
+  const values = parseChannelJson(preset, first.text);
+  if (!values) return null;
+
+  let best = { values, issues: validateChannelFields(preset, values) };
+  let revisions = 0;
+  for (let revision = 1; revision <= MAX_CHANNEL_REVISIONS && best.issues.length; revision += 1) {
+    const response = await options.provider.generate({
+      task: "draft",
+      temperature: 0.4,
+      maxOutputTokens,
+      json: true,
+      jsonFields,
+      messages: [
+        { role: "system", content: options.systemPrompt },
+        {
+          role: "user",
+          content: `Fix these problems in the ${preset.label} copy below and keep everything else as it is.\n${best.issues.map((issue) => `- ${issue.message}`).join("\n")}\n\nCurrent copy:\n${JSON.stringify(best.values, null, 2)}\n\n${brief}`
+        }
+      ],
+      signal: options.signal
+    });
+    tokensUsed += response.usage.totalTokens;
+    revisions = revision;
+    const revised = parseChannelJson(preset, response.text);
+    if (!revised) continue;
+    const issues = validateChannelFields(preset, revised);
+    if (issues.length < best.issues.length) {
+      best = { values: revised, issues };
+    }
+  }
+
+  return { ...best, revisions, tokensUsed };
+}
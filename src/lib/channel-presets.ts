@@ -0,0 +1,290 @@
+/**
+ * Output presets for platforms with fixed copy formats (ads, social posts, email, SMS, store
+ * listings). A preset names its fields with hard character limits and item counts; compose fills
+ * them as JSON and the document stores them as markdown sections ("## Headlines" plus a list), so
+ * search, versions and exports keep working on plain `content`. Client-safe.
+ */
+
+export const CHANNEL_PRESET_IDS = ["google-rsa", "meta-ad", "linkedin-post", "x-post", "email", "sms", "app-store"] as const;
+
+export type ChannelPresetId = (typeof CHANNEL_PRESET_IDS)[number];
+
+export type ChannelField = {
+  /** JSON key the model fills. */
+  key: string;
+  /** Section heading in the stored markdown. */
+  label: string;
+  /** Singular noun for one item, used in validation messages. */
+  itemLabel: string;
+  /** Hard per-item limit in characters; null when the platform sets none. */
+  maxCharacters: number | null;
+  /** Items requested; anything from `minCount` up to this passes validation. */
+  count: number;
+  minCount: number;
+  /** Items may span several lines (post bodies, email bodies). */
+  multiline?: boolean;
+  /** Platforms reject duplicate items (RSA headlines, for one). */
+  unique?: boolean;
+};
+
+export type ChannelPreset = {
+  id: ChannelPresetId;
+  label: string;
+  icon: string;
+  fields: ChannelField[];
+  /** Channel-specific direction appended to the compose brief. */
+  guidance: string;
+};
+
+/** Field key -> items; single-item fields hold one entry. */
+export type ChannelFieldValues = Record<string, string[]>;
+
+export type ChannelFieldIssue = {
+  field: string;
+  /** Item the issue is about, or null when it concerns the field as a whole. */
+  index: number | null;
+  message: string;
+};
+
+export const CHANNEL_PRESETS: ChannelPreset[] = [
+  {
+    id: "google-rsa",
+    label: "Google RSA",
+    icon: "ads_click",
+    fields: [
+      { key: "headlines", label: "Headlines", itemLabel: "Headline", maxCharacters: 30, count: 15, minCount: 3, unique: true },
+      { key: "descriptions", label: "Descriptions", itemLabel: "Description", maxCharacters: 90, count: 4, minCount: 2, unique: true }
+    ],
+    guidance:
+      "Google combines headlines and descriptions in any order, so each one must stand alone. Cover different angles across them: the offer, benefits, proof, and a call to action. Include the main keyword in several headlines."
+  },
+  {
+    id: "meta-ad",
+    label: "Meta ad",
+    icon: "campaign",
+    fields: [
+      { key: "primaryText", label: "Primary text", itemLabel: "Primary text", maxCharacters: 125, count: 1, minCount: 1 },
+      { key: "headline", label: "Headline", itemLabel: "Headline", maxCharacters: 40, count: 1, minCount: 1 },
+      { key: "description", label: "Description", itemLabel: "Description", maxCharacters: 30, count: 1, minCount: 1 }
+    ],
+    guidance: "Lead the primary text with the hook; it is cut off after the first line in the feed. Keep the headline concrete."
+  },
+  {
+    id: "linkedin-post",
+    label: "LinkedIn post",
+    icon: "work",
+    fields: [{ key: "post", label: "Post", itemLabel: "Post", maxCharacters: 3000, count: 1, minCount: 1, multiline: true }],
+    guidance:
+      "The first two lines show before \"see more\", so open with the point. Use short paragraphs separated by blank lines and no markdown formatting."
+  },
+  {
+    id: "x-post",
+    label: "X post",
+    icon: "tag",
+    fields: [{ key: "post", label: "Post", itemLabel: "Post", maxCharacters: 280, count: 1, minCount: 1, multiline: true }],
+    guidance: "One idea, stated plainly. At most two hashtags, and only if they add reach."
+  },
+  {
+    id: "email",
+    label: "Email",
+    icon: "mail",
+    fields: [
+      { key: "subject", label: "Subject line", itemLabel: "Subject line", maxCharacters: 60, count: 1, minCount: 1 },
+      { key: "preheader", label: "Preheader", itemLabel: "Preheader", maxCharacters: 100, count: 1, minCount: 1 },
+      { key: "body", label: "Body", itemLabel: "Body", maxCharacters: null, count: 1, minCount: 1, multiline: true }
+    ],
+    guidance:
+      "The preheader continues the subject line in the inbox preview; never repeat it. The body may use markdown paragraphs and lists and ends with one clear call to action."
+  },
+  {
+    id: "sms",
+    label: "SMS",
+    icon: "sms",
+    fields: [{ key: "message", label: "Message", itemLabel: "Message", maxCharacters: 160, count: 1, minCount: 1 }],
+    guidance: "One message segment: plain text, no emojis, and the call to action near the end."
+  },
+  {
+    id: "app-store",
+    label: "App Store",
+    icon: "storefront",
+    fields: [
+      { key: "name", label: "App name", itemLabel: "App name", maxCharacters: 30, count: 1, minCount: 1 },
+      { key: "subtitle", label: "Subtitle", itemLabel: "Subtitle", maxCharacters: 30, count: 1, minCount: 1 },
+      { key: "promotionalText", label: "Promotional text", itemLabel: "Promotional text", maxCharacters: 170, count: 1, minCount: 1 },
+      { key: "description", label: "Description", itemLabel: "Description", maxCharacters: 4000, count: 1, minCount: 1, multiline: true },
+      { key: "keywords", label: "Keywords", itemLabel: "Keyword list", maxCharacters: 100, count: 1, minCount: 1 }
+    ],
+    guidance:
+      "Keywords are comma-separated without spaces and never repeat words from the app name. The description leads with what the app does in its first sentence and uses plain paragraphs."
+  }
+];
+
+export function channelPreset(id: string | null | undefined): ChannelPreset | null {
+  return CHANNEL_PRESETS.find((preset) => preset.id === id) ?? null;
+}
+
+/** Platforms count characters, not UTF-16 units, so an emoji is one. */
+export function channelCharacterCount(text: string): number {
+  return Array.from(text).length;
+}
+
+/** One-line summary of a preset's structure, e.g. "15 headlines ≤30, 4 descriptions ≤90". */
+export function describeChannelStructure(preset: ChannelPreset): string {
+  return preset.fields
+    .map((field) => {
+      const name = field.count > 1 ? `${field.count} ${field.label.toLowerCase()}` : field.label.toLowerCase();
+      return field.maxCharacters === null ? name : `${name} ≤${field.maxCharacters}`;
+    })
+    .join(", ");
+}
+
+function normalizeItem(value: string, field: ChannelField): string {
+  const trimmed = value.replace(/\r/g, "").trim();
+  // List markers belong to the stored markdown of multi-item fields, not to the item
+  const text = (field.count > 1 ? trimmed.replace(/^(?:[-*+]|\d+[.)])\s+/, "") : trimmed)
+    .replace(/^["“]([\s\S]*)["”]$/, "$1")
+    .trim();
+  return field.multiline ? text : text.replace(/\s*\n+\s*/g, " ");
+}
+
+function emptyValues(preset: ChannelPreset): ChannelFieldValues {
+  const values: ChannelFieldValues = {};
+  preset.fields.forEach((field) => {
+    values[field.key] = [];
+  });
+  return values;
+}
+
+/** Serializes field values to the markdown stored as the document's `content`. */
+export function channelFieldsToMarkdown(preset: ChannelPreset, values: ChannelFieldValues): string {
+  return preset.fields
+    .map((field) => {
+      const items = (values[field.key] ?? []).map((item) => normalizeItem(item, field)).filter(Boolean);
+      const body = field.count > 1 ? items.map((item) => `- ${item}`).join("\n") : items.join("\n\n");
+      return body ? `## ${field.label}\n\n${body}` : `## ${field.label}`;
+    })
+    .join("\n\n");
+}
+
+function findField(preset: ChannelPreset, heading: string): ChannelField | null {
+  const name = heading.replace(/[*_:#]/g, "").trim().toLowerCase();
+  return preset.fields.find((field) => field.label.toLowerCase() === name || field.key.toLowerCase() === name) ?? null;
+}
+
+/** Reads field values back out of stored markdown; text outside a known section is ignored. */
+export function parseChannelMarkdown(preset: ChannelPreset, markdown: string): ChannelFieldValues {
+  const values = emptyValues(preset);
+  const single: Record<string, string[]> = {};
+  let current: ChannelField | null = null;
+
+  markdown.replace(/\r/g, "").split("\n").forEach((line) => {
+    const heading = /^#{1,6}\s+(.+?)\s*#*$/.exec(line);
+    const field = heading ? findField(preset, heading[1]) : null;
+    if (field) {
+      current = field;
+      return;
+    }
+    // Other headings end a section, except inside free-form bodies that may carry their own
+    if (heading && !current?.multiline) {
+      current = null;
+      return;
+    }
+    if (!current) return;
+    if (current.count > 1) {
+      const text = normalizeItem(line, current);
+      if (text) values[current.key].push(text);
+    } else {
+      (single[current.key] ??= []).push(line);
+    }
+  });
+
+  preset.fields.forEach((field) => {
+    if (field.count > 1) return;
+    const text = normalizeItem((single[field.key] ?? []).join("\n"), field);
+    values[field.key] = text ? [text] : [];
+  });
+  return values;
+}
+
+/** Reads the model's JSON answer; tolerates prose around the object and string-or-array values. */
+export function parseChannelJson(preset: ChannelPreset, raw: string): ChannelFieldValues | null {
+  let parsed: unknown = null;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    const match = /\{[\s\S]*\}/.exec(raw);
+    if (!match) return null;
+    try {
+      parsed = JSON.parse(match[0]);
+    } catch {
+      return null;
+    }
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return null;
+  const record = parsed as Record<string, unknown>;
+
+  const values = emptyValues(preset);
+  preset.fields.forEach((field) => {
+    const value = record[field.key] ?? record[field.label];
+    const items = Array.isArray(value)
+      ? value.filter((item): item is string => typeof item === "string")
+      : typeof value === "string"
+        ? field.count > 1
+          ? value.split("\n")
+          : [value]
+        : [];
+    values[field.key] = items
+      .map((item) => normalizeItem(item, field))
+      .filter(Boolean)
+      .slice(0, field.count);
+  });
+  return values;
+}
+
+/** Field-level validation: hard limits, item counts and duplicates. */
+export function validateChannelFields(preset: ChannelPreset, values: ChannelFieldValues): ChannelFieldIssue[] {
+  const issues: ChannelFieldIssue[] = [];
+  preset.fields.forEach((field) => {
+    const items = values[field.key] ?? [];
+    const filled = items.filter((item) => item.trim());
+    const plural = field.label.toLowerCase();
+    if (filled.length < field.minCount) {
+      issues.push({
+        field: field.key,
+        index: null,
+        message: field.count > 1 ? `Add at least ${field.minCount} ${plural}.` : `${field.label} is required.`
+      });
+    }
+    if (filled.length > field.count) {
+      issues.push({ field: field.key, index: null, message: `Use at most ${field.count} ${plural}.` });
+    }
+    const seen = new Map<string, number>();
+    items.forEach((item, index) => {
+      const label = field.count > 1 ? `${field.itemLabel} ${index + 1}` : field.itemLabel;
+      const length = channelCharacterCount(item.trim());
+      if (field.maxCharacters !== null && length > field.maxCharacters) {
+        issues.push({ field: field.key, index, message: `${label} is ${length}/${field.maxCharacters} characters.` });
+      }
+      const key = item.trim().toLowerCase();
+      if (!field.unique || !key) return;
+      const first = seen.get(key);
+      if (first === undefined) {
+        seen.set(key, index);
+      } else {
+        issues.push({ field: field.key, index, message: `${label} repeats ${field.itemLabel.toLowerCase()} ${first + 1}.` });
+      }
+    });
+  });
+  return issues;
+}
+
+/** The compose instructions for a preset: the JSON shape, limits and channel guidance. */
+export function describeChannelBrief(preset: ChannelPreset): string {
+  const lines = preset.fields.map((field) => {
+    const limit = field.maxCharacters === null ? "" : `, each at most ${field.maxCharacters} characters including spaces`;
+    return field.count > 1
+      ? `- "${field.key}": array of ${field.count} strings (${field.label.toLowerCase()})${limit}`
+      : `- "${field.key}": string (${field.label.toLowerCase()})${field.maxCharacters === null ? "" : `, at most ${field.maxCharacters} characters including spaces`}`;
+  });
+  return `Channel: ${preset.label}.\n${preset.guidance}\nReturn ONLY a JSON object with exactly these keys:\n${lines.join("\n")}\nCharacter limits are hard limits: count before answering and rewrite anything that runs over. Missing details stay in [brackets].`;
+}
@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { markdownToProseMirrorJSON, proseMirrorJSONToMarkdown } from "./markdown";
+
+describe("markdownToProseMirrorJSON", () => {
+  it("maps blocks and marks onto the editor's node types", () => {
+    assert.deepEqual(markdownToProseMirrorJSON("## Hi\n\nSome **bold** and `code`"), {
+      type: "doc",
+      content: [
+        { type: "heading", attrs: { level: 2 }, content: [{ type: "text", text: "Hi" }] },
+        {
+          type: "paragraph",
+          content: [
+            { type: "text", text: "Some " },
+            { type: "text", text: "bold", marks: [{ type: "bold" }] },
+            { type: "text", text: " and " },
+            { type: "text", text: "code", marks: [{ type: "code" }] }
+          ]
+        }
+      ]
+    });
+  });
+
+  it("gives an empty document one empty paragraph", () => {
+    assert.deepEqual(markdownToProseMirrorJSON(""), { type: "doc", content: [{ type: "paragraph" }] });
+  });
+
+  it("reads the editor's <s> strikethrough", () => {
+    const doc = markdownToProseMirrorJSON("Keep <s>gone</s> here");
+    assert.deepEqual(doc.content?.[0].content?.[1], { type: "text", text: "gone", marks: [{ type: "strike" }] });
+  });
+});
+
+describe("proseMirrorJSONToMarkdown", () => {
+  it("round-trips the block and mark set the editor uses", () => {
+    const markdown = [
+      "# Title",
+      "",
+      "Text with *italic*, **bold** and a [link](https://example.com).",
+      "",
+      "- One",
+      "- Two",
+      "",
+      "3. Three",
+      "4. Four",
+      "",
+      "> Quoted",
+      "",
+      "```ts",
+      "const x = 1;",
+      "```",
+      "",
+      "---",
+      "",
+      "Line one",
+      "line two"
+    ].join("\n");
+    assert.equal(proseMirrorJSONToMarkdown(markdownToProseMirrorJSON(markdown)), markdown);
+  });
+});
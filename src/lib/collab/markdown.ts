@@ -0,0 +1,224 @@
+import MarkdownIt from "markdown-it";
+
+/**
+ * Markdown <-> ProseMirror JSON for the StarterKit schema used by MarkdownEditor.
+ * The collaboration server runs without a DOM, so it cannot reuse the editor's
+ * HTML round-trip; these helpers cover the same node and mark set directly.
+ */
+
+export type PMMark = { type: string; attrs?: Record<string, unknown> };
+export type PMNode = {
+  type: string;
+  attrs?: Record<string, unknown>;
+  content?: PMNode[];
+  marks?: PMMark[];
+  text?: string;
+};
+
+type MarkdownToken = ReturnType<MarkdownIt["parse"]>[number];
+
+// Same options as the editor's parser so seeded documents match what users typed
+const md = new MarkdownIt({ html: true, breaks: true, linkify: true });
+
+const MARK_OPEN: Record<string, PMMark["type"]> = {
+  strong_open: "bold",
+  em_open: "italic",
+  s_open: "strike",
+  link_open: "link"
+};
+const MARK_CLOSE: Record<string, PMMark["type"]> = {
+  strong_close: "bold",
+  em_close: "italic",
+  s_close: "strike",
+  link_close: "link"
+};
+
+function parseInline(tokens: MarkdownToken[]): PMNode[] {
+  const nodes: PMNode[] = [];
+  let marks: PMMark[] = [];
+
+  const pushText = (text: string, extraMarks: PMMark[] = []) => {
+    if (!text) return;
+    const allMarks = [...marks, ...extraMarks];
+    nodes.push(allMarks.length ? { type: "text", text, marks: allMarks } : { type: "text", text });
+  };
+
+  for (const token of tokens) {
+    if (MARK_OPEN[token.type]) {
+      const mark: PMMark =
+        token.type === "link_open" ? { type: "link", attrs: { href: token.attrGet("href") ?? "" } } : { type: MARK_OPEN[token.type] };
+      marks = [...marks, mark];
+    } else if (MARK_CLOSE[token.type]) {
+      const index = marks.map((mark) => mark.type).lastIndexOf(MARK_CLOSE[token.type]);
+      if (index !== -1) marks = [...marks.slice(0, index), ...marks.slice(index + 1)];
+    } else if (token.type === "text") {
+      pushText(token.content);
+    } else if (token.type === "code_inline") {
+      pushText(token.content, [{ type: "code" }]);
+    } else if (token.type === "softbreak" || token.type === "hardbreak") {
+      nodes.push({ type: "hardBreak" });
+    } else if (token.type === "html_inline") {
+      // The editor's own strikethrough round-trips as <s>…</s>; other inline HTML is dropped
+      if (/^<(s|del)[\s>]/i.test(token.content)) marks = [...marks, { type: "strike" }];
+      else if (/^<\/(s|del)>/i.test(token.content)) marks = marks.filter((mark) => mark.type !== "strike");
+    } else if (token.children?.length) {
+      nodes.push(...parseInline(token.children));
+    }
+  }
+
+  return nodes;
+}
+
+function parseBlocks(tokens: MarkdownToken[], start: number, closeType?: string): { nodes: PMNode[]; next: number } {
+  const nodes: PMNode[] = [];
+  let i = start;
+
+  while (i < tokens.length) {
+    const token = tokens[i];
+    if (closeType && token.type === closeType) {
+      return { nodes, next: i + 1 };
+    }
+
+    switch (token.type) {
+      case "paragraph_open": {
+        const inline = tokens[i + 1];
+        const content = parseInline(inline?.children ?? []);
+        nodes.push(content.length ? { type: "paragraph", content } : { type: "paragraph" });
+        i += 3;
+        break;
+      }
+      case "heading_open": {
+        const inline = tokens[i + 1];
+        const content = parseInline(inline?.children ?? []);
+        const level = Number(token.tag.slice(1)) || 1;
+        nodes.push({ type: "heading", attrs: { level }, ...(content.length ? { content } : {}) });
+        i += 3;
+        break;
+      }
+      case "bullet_list_open":
+      case "ordered_list_open": {
+        const ordered = token.type === "ordered_list_open";
+        const inner = parseBlocks(tokens, i + 1, ordered ? "ordered_list_close" : "bullet_list_close");
+        nodes.push({
+          type: ordered ? "orderedList" : "bulletList",
+          ...(ordered ? { attrs: { start: Number(token.attrGet("start") ?? 1) } } : {}),
+          content: inner.nodes
+        });
+        i = inner.next;
+        break;
+      }
+      case "list_item_open": {
+        const inner = parseBlocks(tokens, i + 1, "list_item_close");
+        nodes.push({ type: "listItem", content: inner.nodes.length ? inner.nodes : [{ type: "paragraph" }] });
+        i = inner.next;
+        break;
+      }
+      case "blockquote_open": {
+        const inner = parseBlocks(tokens, i + 1, "blockquote_close");
+        nodes.push({ type: "blockquote", content: inner.nodes.length ? inner.nodes : [{ type: "paragraph" }] });
+        i = inner.next;
+        break;
+      }
+      case "fence":
+      case "code_block": {
+        const text = token.content.replace(/\n$/, "");
+        nodes.push({
+          type: "codeBlock",
+          attrs: { language: token.info?.trim() || null },
+          ...(text ? { content: [{ type: "text", text }] } : {})
+        });
+        i += 1;
+        break;
+      }
+      case "hr":
+        nodes.push({ type: "horizontalRule" });
+        i += 1;
+        break;
+      default:
+        i += 1;
+    }
+  }
+
+  return { nodes, next: i };
+}
+
+export function markdownToProseMirrorJSON(markdown: string): PMNode {
+  const { nodes } = parseBlocks(md.parse(markdown ?? "", {}), 0);
+  return { type: "doc", content: nodes.length ? nodes : [{ type: "paragraph" }] };
+}
+
+function wrapMarks(text: string, marks: PMMark[] = []): string {
+  return marks.reduce((wrapped, mark) => {
+    switch (mark.type) {
+      case "bold":
+        return `**${wrapped}**`;
+      case "italic":
+        return `*${wrapped}*`;
+      case "strike":
+        return `~~${wrapped}~~`;
+      case "code":
+        return `\`${wrapped}\``;
+      case "link":
+        return `[${wrapped}](${String(mark.attrs?.href ?? "")})`;
+      default:
+        return wrapped;
+    }
+  }, text);
+}
+
+function serializeInline(nodes: PMNode[] = []): string {
+  return nodes
+    .map((node) => {
+      if (node.type === "text") return wrapMarks(node.text ?? "", node.marks);
+      if (node.type === "hardBreak") return "\n";
+      return serializeInline(node.content);
+    })
+    .join("");
+}
+
+function serializeBlock(node: PMNode, listPrefix = ""): string {
+  switch (node.type) {
+    case "paragraph":
+      return `${serializeInline(node.content)}\n\n`;
+    case "heading": {
+      const level = Math.min(Math.max(Number(node.attrs?.level ?? 1), 1), 6);
+      return `${"#".repeat(level)} ${serializeInline(node.content)}\n\n`;
+    }
+    case "bulletList":
+    case "orderedList": {
+      const start = Number(node.attrs?.start ?? 1);
+      const items = (node.content ?? []).map((item, index) =>
+        serializeBlock(item, node.type === "orderedList" ? `${start + index}. ` : "- ")
+      );
+      return `${items.join("")}\n`;
+    }
+    case "listItem": {
+      const body = (node.content ?? [])
+        .map((child) => serializeBlock(child).replace(/\n+$/, ""))
+        .join("\n")
+        .replace(/\n/g, "\n  ");
+      return `${listPrefix}${body}\n`;
+    }
+    case "blockquote": {
+      const body = (node.content ?? []).map((child) => serializeBlock(child)).join("").trim();
+      return `${body.replace(/^/gm, "> ")}\n\n`;
+    }
+    case "codeBlock": {
+      const language = typeof node.attrs?.language === "string" ? node.attrs.language : "";
+      return `\`\`\`${language}\n${serializeInline(node.content)}\n\`\`\`\n\n`;
+    }
+    case "horizontalRule":
+      return "---\n\n";
+    default:
+      return (node.content ?? []).map((child) => serializeBlock(child)).join("");
+  }
+}
+
+/** Mirrors the editor's htmlToMarkdown output so autosaved and collaborative content look alike. */
+export function proseMirrorJSONToMarkdown(doc: PMNode): string {
+  return (doc.content ?? [])
+    .map((node) => serializeBlock(node))
+    .join("")
+    .replace(/\n{3,}/g, "\n\n")
+    .trimEnd();
+}
@@ -0,0 +1,33 @@
+import { createCollabToken } from "./token";
+
+const RELOAD_TIMEOUT_MS = 5000;
+
+/** The collaboration server answers HTTP on the same port as its websocket. */
+function collabHttpUrl(): string | null {
+  const url = process.env.NEXT_PUBLIC_COLLAB_URL;
+  return url ? url.replace(/^ws(s?):\/\//i, "http$1://").replace(/\/+$/, "") : null;
+}
+
+/**
+ * Replaces the content of a live collaboration room, so editors still connected after a
+ * version restore receive the restored text instead of writing their old state back over it.
+ * Best-effort: without a collaboration server, or with no open room, there is nothing to do.
+ */
+export async function reloadCollabRoom(documentId: string, content: string, userId: string): Promise<void> {
+  const baseUrl = collabHttpUrl();
+  if (!baseUrl) return;
+  try {
+    const token = createCollabToken({ documentId, userId, name: "restore", readOnly: false }, 60);
+    const response = await fetch(`${baseUrl}/${encodeURIComponent(documentId)}/reload`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+      body: JSON.stringify({ content }),
+      signal: AbortSignal.timeout(RELOAD_TIMEOUT_MS)
+    });
+    if (!response.ok) {
+      console.error("[collab] room reload failed", documentId, response.status);
+    }
+  } catch (error) {
+    console.error("[collab] room reload failed", documentId, error);
+  }
+}
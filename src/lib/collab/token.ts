@@ -0,0 +1,56 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+export type CollabTokenPayload = {
+  documentId: string;
+  userId: string;
+  name: string;
+  readOnly: boolean;
+  /** Unix seconds */
+  exp: number;
+};
+
+const TOKEN_TTL_SECONDS = 60 * 60;
+
+function resolveSecret(): string {
+  const secret = process.env.COLLAB_SECRET || process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error("COLLAB_SECRET missing");
+  }
+  return secret;
+}
+
+function sign(body: string, secret: string): string {
+  return createHmac("sha256", secret).update(body).digest("base64url");
+}
+
+/**
+ * Short-lived HMAC token the collaboration server accepts instead of a NextAuth session.
+ * Both sides only need to share COLLAB_SECRET (falls back to NEXTAUTH_SECRET).
+ */
+export function createCollabToken(payload: Omit<CollabTokenPayload, "exp">, ttlSeconds = TOKEN_TTL_SECONDS): string {
+  const body = Buffer.from(
+    JSON.stringify({ ...payload, exp: Math.floor(Date.now() / 1000) + ttlSeconds })
+  ).toString("base64url");
+  return `${body}.${sign(body, resolveSecret())}`;
+}
+
+export function verifyCollabToken(token: string): CollabTokenPayload | null {
+  const [body, signature] = token.split(".");
+  if (!body || !signature) return null;
+
+  const expected = Buffer.from(sign(body, resolveSecret()));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(body, "base64url").toString("utf8")) as CollabTokenPayload;
+    if (!payload.documentId || !payload.userId || payload.exp * 1000 < Date.now()) {
+      return null;
+    }
+    return payload;
+  } catch {
+    return null;
+  }
+}
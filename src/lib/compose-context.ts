@@ -0,0 +1,91 @@
+import type { PrismaClient } from "@prisma/client";
+import { resolveRecordRole, resolveWorkspaceScope } from "@/lib/workspaces";
+import { buildGroundingSection, retrieveGroundingContext, type GroundingContext } from "@/lib/grounding";
+import { buildSourcesSection, loadSourceContext } from "@/lib/sources/context";
+import { readPersonaFacts, type PersonaFacts } from "@/lib/placeholders";
+import type { ComposeGroundingInput } from "@/lib/validators";
+import type { GroundingSource } from "@/types/writer";
+
+export type ComposeContext = {
+  personaInfo: string | null;
+  personaFacts: PersonaFacts | null;
+  groundingSection: string;
+  /** The uploaded sources and saved documents behind `groundingSection`, for the client to cite. */
+  groundingSources: GroundingSource[];
+};
+
+/**
+ * What a signed-in compose draws on besides the prompt, for the streaming route and the compose
+ * and batch jobs alike: the persona summary (the saved one when none is passed), the persona's
+ * facts and sources, and saved-document grounding when enabled. Every lookup is best-effort; a
+ * failed one composes as if it had found nothing.
+ */
+export async function loadComposeContext(
+  db: PrismaClient,
+  params: {
+    userId: string;
+    query: string;
+    personaSummary?: string | null;
+    personaId?: string | null;
+    grounding?: ComposeGroundingInput | null;
+    /** Left out of grounding, e.g. the document being written into. */
+    excludeDocumentId?: string | null;
+  }
+): Promise<ComposeContext> {
+  const { userId, query, personaId, grounding } = params;
+  let personaInfo = params.personaSummary?.trim() || null;
+  if (!personaInfo) {
+    try {
+      const user = await db.user.findUnique({ where: { id: userId }, select: { personaInfo: true } });
+      personaInfo = user?.personaInfo ?? null;
+    } catch (error) {
+      console.error("[compose] persona info lookup failed", error);
+    }
+  }
+
+  // The persona's facts fill matching placeholders ([company name], [website], ...) in the draft
+  let personaFacts: PersonaFacts | null = null;
+  if (personaId) {
+    try {
+      const persona = await db.persona.findUnique({ where: { id: personaId } });
+      if (persona && (await resolveRecordRole(db, persona, userId))) {
+        personaFacts = readPersonaFacts(persona.facts);
+      }
+    } catch (error) {
+      console.error("[compose] persona facts lookup failed", error);
+    }
+  }
+
+  // Uploaded sources follow the active persona, and the grounding folder when one is chosen
+  const sourceContext =
+    personaId || grounding?.folderId
+      ? await loadSourceContext(db, {
+          userId,
+          personaId,
+          folderId: grounding?.enabled ? grounding.folderId : null,
+          query
+        })
+      : { passages: [], sources: [] };
+
+  let groundingContext: GroundingContext = { passages: [], sources: [] };
+  if (grounding?.enabled) {
+    try {
+      groundingContext = await retrieveGroundingContext(db, {
+        userId,
+        scope: await resolveWorkspaceScope(db, userId),
+        query,
+        folderId: grounding.folderId ?? null,
+        excludeId: params.excludeDocumentId ?? null
+      });
+    } catch (error) {
+      console.error("[compose] grounding retrieval failed", error);
+    }
+  }
+
+  return {
+    personaInfo,
+    personaFacts,
+    groundingSection: `${buildSourcesSection(sourceContext.passages)}${buildGroundingSection(groundingContext.passages)}`,
+    groundingSources: [...sourceContext.sources, ...groundingContext.sources]
+  };
+}
@@ -0,0 +1,118 @@
+/**
+ * Prompt assembly shared by compose and batch generation: house rules in the system prompt, then
+ * the request followed by editor context, persona, writing style, reference material, execution
+ * requirements and the brief.
+ */
+
+import type { ComposerSettingsInput } from "@/lib/validators";
+
+const SHORT_RULES =
+  "RULES: No em/en dashes, AI clichés, or repeated lines. Every word must earn its place and feel bespoke + human. Missing info stays in [brackets]; never ask follow-ups. Skip emojis unless requested. Vary pacing to avoid tidy triads or recap paragraphs. Never use 'X instead of Y' phrasing patterns. Vary list lengths—avoid always defaulting to exactly 3 bullet points. Favor sensory detail over filler.";
+const EXTENDED_RULES = `VITAL RULES FOR ALL OUTPUT:
+
+1. DO NOT USE EM DASHES OR EN DASHES.
+2. DO NOT WRITE WITH ANY AI WRITING TELLS OR RED FLAGS, ESPECIALLY NOT "NOT _, but _"-esque phrasing OR "X instead of Y" patterns (e.g., "Clicking instead of crafting", "Supervising instead of doing", "Approving instead of owning").
+3. DO NOT REPEAT SOMETHING THAT MEANS ESSENTIALLY THE SAME THING BUT IN DIFFERENT WORDS. 
+4. MAKE SURE THAT EVERY WORD SERVES A PURPOSE AND BRINGS ADDITIONAL MEANING OR DON'T USE IT AT ALL.
+5. ONLY PROVIDE TEXT THAT FEELS BESPOKE AND HUMAN.
+6. All missing info should be formatted in [] like [persona name], etc. Don't guess product name, service name, business name etc.
+7. DO NOT use emojis unless the user EXPLICITLY asks you to.
+8. NEVER ask the user for more information—provide the best possible answer immediately.
+9. Keep tone sharply specific; inject real-world detail and asymmetric sentence lengths.
+10. Avoid recap paragraphs, tidy triads, or BuzzFeed-style bullets. Vary list lengths—never default to exactly 3 bullet points. Use 2, 4, 5, or other counts naturally based on content needs.`;
+
+function buildSystemPrompt(personaInfo: string | null, useExtendedRules: boolean): string {
+  const base = useExtendedRules ? EXTENDED_RULES : SHORT_RULES;
+  if (!personaInfo) {
+    return base;
+  }
+  return `${base}\n\nPERSONA GUIDELINES:\n${personaInfo}\n\nAlways follow the persona guidance above.`;
+}
+
+export type ComposePromptInput = {
+  prompt: string;
+  settings: ComposerSettingsInput;
+  personaInfo: string | null;
+  styleGuide?: { name: string; description: string } | null;
+  editorContext?: { before?: string | null; selection?: string | null; after?: string | null } | null;
+  /** Formatted source and grounding excerpts, if any. */
+  groundingSection?: string;
+  /** Channel presets draft JSON fields and bring their own limits. */
+  channel?: boolean;
+};
+
+export type ComposePrompts = {
+  systemPrompt: string;
+  userPrompt: string;
+  maxOutputTokens: number;
+};
+
+export function buildComposePrompts({
+  prompt,
+  settings,
+  personaInfo,
+  styleGuide,
+  editorContext,
+  groundingSection = "",
+  channel = false
+}: ComposePromptInput): ComposePrompts {
+  const wantsLongForm = /\b(long|longer|lengthy|detailed|essay|story|paragraphs?|pages?|novella|novel)\b/i.test(prompt);
+  const conciseDirective =
+    !channel && !wantsLongForm && !settings.wordLength && !settings.characterLength
+      ? "Keep the full response under ~180 words (roughly 12 lines) unless the user explicitly demands more length."
+      : null;
+
+  const directiveLines = [
+    conciseDirective,
+    settings.marketTier ? `Target market: ${settings.marketTier}.` : null,
+    settings.gradeLevel 
+      ? settings.gradeLevel === "ESL (English as Second Language)"
+        ? `Write for ESL (English as a Second Language) readers: Use literal, direct language. Avoid colloquialisms, idioms, slang, and figurative expressions. Prefer straightforward, concrete words over abstract or metaphorical language. Use clear, simple sentence structures.`
+        : `Write at approximately a ${settings.gradeLevel} reading level.`
+      : null,
+    settings.benchmark ? `Mirror the tone and polish of ${settings.benchmark}.` : null,
+    settings.characterLength && !channel
+      ? `Keep the entire response within ${settings.characterLength} characters. If it exceeds this limit, revise until it fits.`
+      : null,
+    settings.wordLength && !channel
+      ? `Aim for roughly ${settings.wordLength} words. Shorten or expand as needed to stay near that count.`
+      : null,
+    settings.avoidWords
+      ? `Do not use any of these words or close variants: ${settings.avoidWords}. If they are unavoidable, replace them with luxury synonyms.`
+      : null
+  ].filter(Boolean);
+
+  const briefSection = directiveLines.length ? `\n\nBrief:\n- ${directiveLines.join("\n- ")}` : "";
+  const personaSection = personaInfo
+    ? `\n\nPersona Summary (follow this precisely):\n${personaInfo}\n\nUse the persona summary above to fill in any missing context, voice, or positioning.`
+    : "";
+  const styleSection = styleGuide
+    ? `\n\nWriting Style (${styleGuide.name}):\n${styleGuide.description}\n\nMirror the cadence, vocabulary, and structure of the style described above in every sentence.`
+    : "";
+  const editorContextLines: string[] = [];
+  if (editorContext?.before) {
+    editorContextLines.push(`Text before cursor:\n${editorContext.before}`);
+  }
+  if (editorContext?.selection) {
+    editorContextLines.push(`Selected text (if any):\n${editorContext.selection}`);
+  }
+  if (editorContext?.after) {
+    editorContextLines.push(`Text after cursor:\n${editorContext.after}`);
+  }
+  const editorContextSection = editorContextLines.length
+    ? `\n\nEditor Cursor Context:\n${editorContextLines.join("\n\n")}\n\nUse this context to understand what surrounds the cursor so that instructions like "fill in the blank" or "finish the sentence" align with the existing copy. Continue directly after the "before" text without repeating or paraphrasing it, and flow cleanly into the "after" text if it exists. Only produce the missing connective copy.`
+    : "";
+
+  const instructionSection = `\n\nExecution Requirements:\n- Do not ask the user for more details.\n- Produce the final copy immediately.\n- If specific details are missing, infer them from the persona summary and the prompt.\n- When editor context is provided, start precisely after the "before" text and transition into the "after" text without repeating either.\n- Never return placeholder instructions to the user.\n${
+    channel
+      ? "- Output ONLY the JSON object described in the channel brief.\n"
+      : "- Output ONLY in markdown format. Use markdown syntax for headings (# for H1, ## for H2, ### for H3), bold (**text**), italic (*text*), lists (- or 1.), etc.\n"
+  }`;
+  const userPrompt = `${prompt}${editorContextSection}${personaSection}${styleSection}${groundingSection}${instructionSection}${briefSection}`;
+  const wantsExtendedRules = /(?:long|full|detailed|extended)\s+rules?/i.test(prompt);
+
+  const systemPrompt = buildSystemPrompt(personaInfo, wantsExtendedRules);
+  const maxOutputTokens = conciseDirective ? 600 : 900;
+
+  return { systemPrompt, userPrompt, maxOutputTokens };
+}
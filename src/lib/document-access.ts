@@ -0,0 +1,53 @@
+import type { PrismaClient } from "@prisma/client";
+import { getWorkspaceRole, strongerRole } from "@/lib/workspaces";
+
+export const collaboratorRoles = ["editor", "viewer"] as const;
+export type CollaboratorRole = (typeof collaboratorRoles)[number];
+export type DocumentAccess = "owner" | CollaboratorRole;
+
+/**
+ * Resolves what `userId` may do with a document: the owner, a collaborator listed in
+ * DocumentCollaborator, a member of the document's workspace (workspace owners manage it
+ * like the document owner), or null when the document is missing or not shared with them.
+ */
+export async function resolveDocumentAccess(
+  db: PrismaClient,
+  documentId: string,
+  userId: string
+): Promise<DocumentAccess | null> {
+  const document = await db.document.findUnique({
+    where: { id: documentId },
+    select: {
+      ownerId: true,
+      workspaceId: true,
+      DocumentCollaborator: {
+        where: { userId },
+        select: { role: true }
+      }
+    }
+  });
+  if (!document) return null;
+  if (document.ownerId === userId) return "owner";
+
+  const role = document.DocumentCollaborator[0]?.role;
+  const collaboratorAccess: DocumentAccess | null = role === "editor" || role === "viewer" ? role : null;
+  const workspaceAccess: DocumentAccess | null = document.workspaceId
+    ? await getWorkspaceRole(db, document.workspaceId, userId)
+    : null;
+  return strongerRole(collaboratorAccess, workspaceAccess);
+}
+
+export function canEditDocument(access: DocumentAccess | null): boolean {
+  return access === "owner" || access === "editor";
+}
+
+/** Prisma `where` fragment for every document resolveDocumentAccess would grant `userId` some access to. */
+export function readableDocumentsWhere(userId: string) {
+  return {
+    OR: [
+      { ownerId: userId },
+      { DocumentCollaborator: { some: { userId } } },
+      { Workspace: { WorkspaceMember: { some: { userId } } } }
+    ]
+  };
+}
@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { convertImportFile, detectImportFormat, DocumentImportError, htmlToMarkdown } from "./document-import";
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+describe("detectImportFormat", () => {
+  it("goes by extension first, then MIME type", () => {
+    assert.equal(detectImportFormat("Notes.HTM", ""), "html");
+    assert.equal(detectImportFormat("README.markdown", "text/plain"), "md");
+    assert.equal(detectImportFormat("upload", "application/vnd.openxmlformats-officedocument.wordprocessingml.document"), "docx");
+    assert.equal(detectImportFormat("photo.png", "image/png"), null);
+  });
+});
+
+describe("htmlToMarkdown", () => {
+  it("converts headings, marks, links and lists", () => {
+    const { title, markdown } = htmlToMarkdown(
+      "<html><head><title>Launch &amp; plan</title><style>p{}</style></head><body>" +
+        "<h2>Goals</h2><p>Ship <strong>fast</strong> and <em>well</em>, see <a href=\"https://example.com\">docs</a>.</p>" +
+        "<ul><li>One</li><li>Two</li></ul><ol start=\"3\"><li>Three</li></ol></body></html>"
+    );
+    assert.equal(title, "Launch & plan");
+    assert.equal(
+      markdown,
+      "## Goals\n\nShip **fast** and *well*, see [docs](https://example.com).\n\n- One\n- Two\n\n3. Three"
+    );
+  });
+
+  it("drops scripts and flattens table rows into lines", () => {
+    const { title, markdown } = htmlToMarkdown(
+      "<script>alert(1)</script><table><tr><th>Plan</th><th>Price</th></tr><tr><td>Pro</td><td>$9</td></tr></table>"
+    );
+    assert.equal(title, null);
+    assert.equal(markdown, "Plan | Price\n\nPro | $9");
+  });
+
+  it("keeps going through unclosed and stray tags", () => {
+    assert.equal(htmlToMarkdown("<p>One<p>Two</span></p>").markdown, "One\n\nTwo");
+  });
+});
+
+describe("convertImportFile", () => {
+  it("strips Markdown front matter and titles the document from its first line", async () => {
+    const imported = await convertImportFile({
+      name: "launch_notes.md",
+      type: "text/markdown",
+      bytes: encode("---\nlayout: post\n---\n\n# Launch notes\r\n\r\n\r\n\r\nBody")
+    });
+    assert.deepEqual(imported, { format: "md", title: "Launch notes", content: "# Launch notes\n\nBody" });
+  });
+
+  it("prefers the HTML title", async () => {
+    const imported = await convertImportFile({
+      name: "page.html",
+      type: "text/html",
+      bytes: encode("<title>Page title</title><p>Hello</p>")
+    });
+    assert.equal(imported.title, "Page title");
+    assert.equal(imported.content, "Hello");
+  });
+
+  it("rejects unsupported and empty files with a message for the user", async () => {
+    await assert.rejects(convertImportFile({ name: "a.pdf", type: "application/pdf", bytes: encode("%PDF") }), DocumentImportError);
+    await assert.rejects(
+      convertImportFile({ name: "empty.html", type: "text/html", bytes: encode("<p> </p>") }),
+      /No text was found/
+    );
+  });
+});
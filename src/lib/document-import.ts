@@ -0,0 +1,375 @@
+import mammoth from "mammoth";
+import { proseMirrorJSONToMarkdown, type PMMark, type PMNode } from "@/lib/collab/markdown";
+import { decodeEntities } from "@/lib/sources/parse";
+import { deriveTitleFromContent } from "@/lib/utils";
+
+export const IMPORT_FORMATS = ["docx", "html", "md"] as const;
+export type ImportFormat = (typeof IMPORT_FORMATS)[number];
+
+export const MAX_IMPORT_BYTES = 10 * 1024 * 1024;
+export const MAX_IMPORT_FILES = 20;
+
+export type ImportedDocument = {
+  format: ImportFormat;
+  title: string;
+  content: string;
+};
+
+/** Raised for files the user can fix (wrong type, empty, too large); the route reports it per file. */
+export class DocumentImportError extends Error {}
+
+const EXTENSION_FORMATS: Record<string, ImportFormat> = {
+  docx: "docx",
+  html: "html",
+  htm: "html",
+  md: "md",
+  markdown: "md"
+};
+
+export function detectImportFormat(fileName: string, mimeType: string): ImportFormat | null {
+  const extension = fileName.split(".").pop()?.toLowerCase() ?? "";
+  if (EXTENSION_FORMATS[extension]) return EXTENSION_FORMATS[extension];
+  if (mimeType === "application/vnd.openxmlformats-officedocument.wordprocessingml.document") return "docx";
+  if (mimeType === "text/html") return "html";
+  if (mimeType === "text/markdown") return "md";
+  return null;
+}
+
+type HtmlElement = { tag: string; attrs: Record<string, string>; children: HtmlNode[] };
+type HtmlNode = HtmlElement | string;
+
+const VOID_TAGS = new Set(["area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "source", "track", "wbr"]);
+const SKIPPED_TAGS = new Set(["head", "script", "style", "noscript", "svg", "template", "title", "iframe", "object"]);
+const TOKEN_PATTERN = /<!--[\s\S]*?-->|<!(?:doctype)?[^>]*>|<(\/?)([a-zA-Z][\w:-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>|[^<]+|</gi;
+const ATTR_PATTERN = /([^\s=/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+function parseAttrs(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of Array.from(source.matchAll(ATTR_PATTERN))) {
+    attrs[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? "");
+  }
+  return attrs;
+}
+
+/** Lenient tag-soup parser: unmatched closers are ignored and a closer pops back to its opener. */
+function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = { tag: "#root", attrs: {}, children: [] };
+  const stack: HtmlElement[] = [root];
+  let skipUntil: string | null = null;
+
+  for (const match of Array.from(html.matchAll(TOKEN_PATTERN))) {
+    const [token, closing, rawTag, rawAttrs] = match;
+    const tag = rawTag?.toLowerCase();
+    if (skipUntil) {
+      if (closing && tag === skipUntil) skipUntil = null;
+      continue;
+    }
+    if (!tag) {
+      if (!token.startsWith("<!")) stack[stack.length - 1].children.push(decodeEntities(token));
+      continue;
+    }
+    if (closing) {
+      const index = stack.map((element) => element.tag).lastIndexOf(tag);
+      if (index > 0) stack.length = index;
+      continue;
+    }
+    if (SKIPPED_TAGS.has(tag)) {
+      if (!rawAttrs?.trim().endsWith("/")) skipUntil = tag;
+      continue;
+    }
+    const element: HtmlElement = { tag, attrs: parseAttrs(rawAttrs ?? ""), children: [] };
+    stack[stack.length - 1].children.push(element);
+    if (!VOID_TAGS.has(tag) && !rawAttrs?.trim().endsWith("/")) stack.push(element);
+  }
+
+  return root;
+}
+
+/** Simple `.class { … }` rules, which is all Google Docs' HTML export uses for character styles. */
+function collectClassStyles(html: string): Map<string, string> {
+  const styles = new Map<string, string>();
+  for (const block of html.match(/<style[^>]*>[\s\S]*?<\/style>/gi) ?? []) {
+    for (const rule of Array.from(block.matchAll(/\.([\w-]+)\s*\{([^}]*)\}/g))) {
+      styles.set(rule[1], `${styles.get(rule[1]) ?? ""};${rule[2]}`);
+    }
+  }
+  return styles;
+}
+
+type ConvertContext = { classStyles: Map<string, string> };
+
+function elementStyle(element: HtmlElement, context: ConvertContext): string {
+  const classRules = (element.attrs.class ?? "")
+    .split(/\s+/)
+    .map((name) => context.classStyles.get(name) ?? "")
+    .join(";");
+  return `${classRules};${element.attrs.style ?? ""}`.toLowerCase();
+}
+
+function styleValue(style: string, property: string): string | null {
+  const matches = Array.from(style.matchAll(new RegExp(`(?:^|;)\\s*${property}\\s*:\\s*([^;]+)`, "g")));
+  return matches.length ? matches[matches.length - 1][1].trim() : null;
+}
+
+function addMark(marks: PMMark[], mark: PMMark): PMMark[] {
+  return marks.some((existing) => existing.type === mark.type) ? marks : [...marks, mark];
+}
+
+// Google Docs routes every link through google.com/url?q=<target>
+function unwrapLink(href: string): string {
+  try {
+    const url = new URL(href);
+    if (/(^|\.)google\.com$/.test(url.hostname) && url.pathname === "/url" && url.searchParams.get("q")) {
+      return url.searchParams.get("q")!;
+    }
+  } catch {
+    // Relative or malformed; keep as written
+  }
+  return href;
+}
+
+function inlineMarks(element: HtmlElement, marks: PMMark[], context: ConvertContext): PMMark[] {
+  const style = elementStyle(element, context);
+  const weight = styleValue(style, "font-weight");
+  let next = marks;
+
+  if (element.tag === "strong" || (element.tag === "b" && weight !== "normal" && weight !== "400")) {
+    next = addMark(next, { type: "bold" });
+  } else if (weight === "bold" || Number(weight) >= 600) {
+    next = addMark(next, { type: "bold" });
+  } else if (weight === "normal" || weight === "400") {
+    next = next.filter((mark) => mark.type !== "bold");
+  }
+  if (element.tag === "em" || element.tag === "i" || styleValue(style, "font-style") === "italic") {
+    next = addMark(next, { type: "italic" });
+  }
+  if (
+    element.tag === "s" ||
+    element.tag === "del" ||
+    element.tag === "strike" ||
+    styleValue(style, "text-decoration")?.includes("line-through") ||
+    styleValue(style, "text-decoration-line")?.includes("line-through")
+  ) {
+    next = addMark(next, { type: "strike" });
+  }
+  if (element.tag === "code") {
+    next = addMark(next, { type: "code" });
+  }
+  if (element.tag === "a" && element.attrs.href && !element.attrs.href.startsWith("#")) {
+    next = addMark(next, { type: "link", attrs: { href: unwrapLink(element.attrs.href) } });
+  }
+  return next;
+}
+
+function convertInline(nodes: HtmlNode[], marks: PMMark[], context: ConvertContext): PMNode[] {
+  const result: PMNode[] = [];
+  for (const node of nodes) {
+    if (typeof node === "string") {
+      const text = node.replace(/\s+/g, " ");
+      if (text) result.push(marks.length ? { type: "text", text, marks } : { type: "text", text });
+    } else if (node.tag === "br") {
+      result.push({ type: "hardBreak" });
+    } else if (node.tag !== "img") {
+      result.push(...convertInline(node.children, inlineMarks(node, marks, context), context));
+    }
+  }
+  return result;
+}
+
+const sameMarks = (a: PMNode, b: PMNode) => JSON.stringify(a.marks ?? []) === JSON.stringify(b.marks ?? []);
+
+/**
+ * Moves edge whitespace outside of marks (`** bold**` is not bold in markdown), merges neighbours
+ * with identical marks and trims the run, so the serializer emits clean `**…**` spans.
+ */
+function tidyInline(nodes: PMNode[]): PMNode[] {
+  const split: PMNode[] = [];
+  for (const node of nodes) {
+    if (node.type !== "text" || !node.marks?.length) {
+      split.push(node);
+      continue;
+    }
+    const [, lead, body, trail] = (node.text ?? "").match(/^(\s*)([\s\S]*?)(\s*)$/) ?? [];
+    if (lead) split.push({ type: "text", text: lead });
+    if (body) split.push({ ...node, text: body });
+    if (trail) split.push({ type: "text", text: trail });
+  }
+
+  const merged: PMNode[] = [];
+  for (const node of split) {
+    const previous = merged[merged.length - 1];
+    if (previous?.type === "text" && node.type === "text" && sameMarks(previous, node)) {
+      previous.text = `${previous.text}${node.text}`.replace(/ {2,}/g, " ");
+    } else if (
+      node.type === "text" &&
+      !node.marks &&
+      /^ +$/.test(node.text ?? "") &&
+      (!previous || previous.type === "hardBreak" || / $/.test(previous.text ?? ""))
+    ) {
+      continue;
+    } else {
+      merged.push({ ...node });
+    }
+  }
+
+  while (merged.length && merged[0].type === "text" && !merged[0].text?.trim()) merged.shift();
+  while (merged.length && merged[merged.length - 1].type === "hardBreak") merged.pop();
+  const last = merged[merged.length - 1];
+  if (last?.type === "text") {
+    last.text = last.text?.trimEnd();
+    if (!last.text) merged.pop();
+  }
+  if (merged[0]?.type === "text") merged[0].text = merged[0].text?.trimStart();
+  return merged;
+}
+
+const HEADING_TAGS: Record<string, number> = { h1: 1, h2: 2, h3: 3, h4: 4, h5: 5, h6: 6 };
+const BLOCK_TAGS = new Set([
+  "p", "h1", "h2", "h3", "h4", "h5", "h6", "ul", "ol", "li", "blockquote", "pre", "hr", "div", "section", "article",
+  "main", "header", "footer", "aside", "nav", "body", "html", "table", "thead", "tbody", "tfoot", "tr", "td", "th",
+  "figure", "figcaption", "dl", "dt", "dd", "address"
+]);
+
+function textContent(node: HtmlNode): string {
+  if (typeof node === "string") return node;
+  if (node.tag === "br") return "\n";
+  return node.children.map(textContent).join("");
+}
+
+function convertBlocks(nodes: HtmlNode[], context: ConvertContext): PMNode[] {
+  const blocks: PMNode[] = [];
+  let pending: HtmlNode[] = [];
+
+  const flush = () => {
+    const content = tidyInline(convertInline(pending, [], context));
+    if (content.length) blocks.push({ type: "paragraph", content });
+    pending = [];
+  };
+
+  for (const node of nodes) {
+    if (typeof node === "string" || !BLOCK_TAGS.has(node.tag)) {
+      pending.push(node);
+      continue;
+    }
+    flush();
+
+    const classes = (node.attrs.class ?? "").split(/\s+/);
+    // Google Docs marks its Title and Subtitle paragraph styles with these classes
+    const level = HEADING_TAGS[node.tag] ?? (classes.includes("title") ? 1 : classes.includes("subtitle") ? 2 : 0);
+
+    if (level) {
+      const content = tidyInline(convertInline(node.children, [], context)).map((child) =>
+        // Headings are bold already; drop the mark so titles do not serialize as `# **Title**`
+        child.marks ? { ...child, marks: child.marks.filter((mark) => mark.type !== "bold") } : child
+      );
+      if (content.length) blocks.push({ type: "heading", attrs: { level }, content: tidyInline(content) });
+    } else if (node.tag === "p") {
+      blocks.push(...convertBlocks(node.children, context));
+    } else if (node.tag === "ul" || node.tag === "ol") {
+      const items = node.children
+        .filter((child): child is HtmlElement => typeof child !== "string" && child.tag === "li")
+        .map((item) => {
+          const content = convertBlocks(item.children, context);
+          return { type: "listItem", content: content.length ? content : [{ type: "paragraph" }] };
+        });
+      if (items.length) {
+        blocks.push({
+          type: node.tag === "ol" ? "orderedList" : "bulletList",
+          ...(node.tag === "ol" ? { attrs: { start: Number(node.attrs.start) || 1 } } : {}),
+          content: items
+        });
+      }
+    } else if (node.tag === "blockquote") {
+      const content = convertBlocks(node.children, context);
+      if (content.length) blocks.push({ type: "blockquote", content });
+    } else if (node.tag === "pre") {
+      const text = textContent(node).replace(/\n$/, "");
+      if (text.trim()) blocks.push({ type: "codeBlock", attrs: { language: null }, content: [{ type: "text", text }] });
+    } else if (node.tag === "hr") {
+      blocks.push({ type: "horizontalRule" });
+    } else if (node.tag === "tr") {
+      // The editor has no tables; keep each row readable as one line
+      const cells = node.children
+        .filter((child): child is HtmlElement => typeof child !== "string")
+        .map((cell) => textContent(cell).replace(/\s+/g, " ").trim())
+        .filter(Boolean);
+      if (cells.length) blocks.push({ type: "paragraph", content: [{ type: "text", text: cells.join(" | ") }] });
+    } else {
+      blocks.push(...convertBlocks(node.children, context));
+    }
+  }
+  flush();
+
+  return blocks;
+}
+
+/** Converts an HTML document or fragment into the editor's markdown (headings, marks, lists, quotes). */
+export function htmlToMarkdown(html: string): { title: string | null; markdown: string } {
+  const root = parseHtml(html);
+  const context: ConvertContext = { classStyles: collectClassStyles(html) };
+  const titleMatch = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+  const title = titleMatch ? decodeEntities(titleMatch[1]).replace(/\s+/g, " ").trim() : "";
+  return {
+    title: title || null,
+    markdown: proseMirrorJSONToMarkdown({ type: "doc", content: convertBlocks(root.children, context) })
+  };
+}
+
+async function docxToHtml(bytes: Uint8Array): Promise<string> {
+  const result = await mammoth.convertToHtml(
+    { buffer: Buffer.from(bytes) },
+    {
+      styleMap: ["p[style-name='Title'] => h1:fresh", "p[style-name='Subtitle'] => h2:fresh"],
+      // Images are not imported; skip base64-encoding them
+      convertImage: mammoth.images.imgElement(async () => ({ src: "" }))
+    }
+  );
+  return result.value;
+}
+
+function stripFrontMatter(markdown: string): string {
+  return markdown.replace(/^---\n[\s\S]*?\n---\n+/, "");
+}
+
+function titleFromFileName(fileName: string): string {
+  return fileName.replace(/\.[^.]+$/, "").replace(/[_-]+/g, " ").trim();
+}
+
+export async function convertImportFile(file: { name: string; type: string; bytes: Uint8Array }): Promise<ImportedDocument> {
+  const format = detectImportFormat(file.name, file.type);
+  if (!format) {
+    throw new DocumentImportError("Import DOCX, HTML or Markdown files.");
+  }
+  if (file.bytes.byteLength > MAX_IMPORT_BYTES) {
+    throw new DocumentImportError("Imports are limited to 10 MB per file.");
+  }
+
+  let markdown: string;
+  let htmlTitle: string | null = null;
+  if (format === "docx") {
+    let html: string;
+    try {
+      html = await docxToHtml(file.bytes);
+    } catch (error) {
+      console.error("[import] docx conversion failed", { name: file.name, error });
+      throw new DocumentImportError("That DOCX file could not be read.");
+    }
+    markdown = htmlToMarkdown(html).markdown;
+  } else if (format === "html") {
+    const converted = htmlToMarkdown(new TextDecoder("utf-8").decode(file.bytes));
+    markdown = converted.markdown;
+    htmlTitle = converted.title;
+  } else {
+    markdown = stripFrontMatter(new TextDecoder("utf-8").decode(file.bytes).replace(/\r\n?/g, "\n"))
+      .replace(/\n{3,}/g, "\n\n")
+      .trim();
+  }
+
+  if (!markdown.trim()) {
+    throw new DocumentImportError("No text was found in that file.");
+  }
+
+  const firstLine = markdown.split("\n").find((line) => line.trim()) ?? "";
+  const title = htmlTitle ?? deriveTitleFromContent(firstLine, titleFromFileName(file.name));
+  return { format, title: title.slice(0, 255), content: markdown };
+}
@@ -0,0 +1,100 @@
+import type { PrismaClient } from "@prisma/client";
+import type { DocumentVersionReason } from "./validators";
+import type { DocumentVersionDetail, DocumentVersionSummary } from "@/types/writer";
+
+// Autosave fires every couple of seconds while typing; only keep one checkpoint per window
+export const AUTOSAVE_CHECKPOINT_INTERVAL_MS = 10 * 60 * 1000;
+export const MAX_VERSIONS_PER_DOCUMENT = 100;
+
+type SnapshotSource = {
+  documentId: string;
+  ownerId: string;
+  title: string;
+  content: string;
+  reason: DocumentVersionReason;
+};
+
+type VersionRecord = {
+  id: string;
+  title: string;
+  reason: string;
+  createdAt: Date;
+  content: string;
+};
+
+export function serializeVersionSummary(version: VersionRecord): DocumentVersionSummary {
+  return {
+    id: version.id,
+    title: version.title,
+    reason: version.reason as DocumentVersionReason,
+    createdAt: version.createdAt.toISOString(),
+    characterCount: version.content.length
+  };
+}
+
+export function serializeVersionDetail(version: VersionRecord): DocumentVersionDetail {
+  return {
+    ...serializeVersionSummary(version),
+    content: version.content
+  };
+}
+
+/**
+ * Stores a snapshot unless it would duplicate the newest one, then trims the document's
+ * history to MAX_VERSIONS_PER_DOCUMENT. Returns null when nothing was written.
+ */
+export async function recordDocumentVersion(db: PrismaClient, source: SnapshotSource) {
+  if (!source.content.trim()) {
+    return null;
+  }
+
+  const latest = await db.documentVersion.findFirst({
+    where: { documentId: source.documentId },
+    orderBy: { createdAt: "desc" },
+    select: { content: true }
+  });
+  if (latest && latest.content === source.content) {
+    return null;
+  }
+
+  const version = await db.documentVersion.create({
+    data: {
+      documentId: source.documentId,
+      ownerId: source.ownerId,
+      title: source.title.slice(0, 255),
+      content: source.content,
+      reason: source.reason
+    }
+  });
+
+  const stale = await db.documentVersion.findMany({
+    where: { documentId: source.documentId },
+    orderBy: { createdAt: "desc" },
+    skip: MAX_VERSIONS_PER_DOCUMENT,
+    select: { id: true }
+  });
+  if (stale.length) {
+    await db.documentVersion.deleteMany({
+      where: { id: { in: stale.map((entry: { id: string }) => entry.id) } }
+    });
+  }
+
+  return version;
+}
+
+/**
+ * Called before an autosave overwrites `content`. Snapshots the outgoing content only when the
+ * newest version is older than AUTOSAVE_CHECKPOINT_INTERVAL_MS, so typing bursts collapse into
+ * one checkpoint.
+ */
+export async function recordAutosaveCheckpoint(db: PrismaClient, source: Omit<SnapshotSource, "reason">) {
+  const latest = await db.documentVersion.findFirst({
+    where: { documentId: source.documentId },
+    orderBy: { createdAt: "desc" },
+    select: { createdAt: true }
+  });
+  if (latest && Date.now() - latest.createdAt.getTime() < AUTOSAVE_CHECKPOINT_INTERVAL_MS) {
+    return null;
+  }
+  return recordDocumentVersion(db, { ...source, reason: "autosave" });
+}
@@ -0,0 +1,87 @@
+import type { LLMProvider } from "@/lib/llm";
+import { lintDraft, type HouseRuleOptions, type HouseRuleViolation } from "@/lib/house-rules";
+import { repairHouseRuleViolations } from "@/lib/house-rules-repair";
+import {
+  enforceLengthConstraints,
+  evaluateLength,
+  LengthRevisionError,
+  measureDraft,
+  type LengthConstraints,
+  type LengthReport
+} from "@/lib/length-limits";
+
+export type DraftRevision = {
+  text: string;
+  /** What the house rules still flag in `text`. */
+  violations: HouseRuleViolation[];
+  fixed: number;
+  length: LengthReport;
+  tokensUsed: number;
+};
+
+/**
+ * The passes a finished draft gets before it is delivered, streamed or not: the optional
+ * house-rule repair, then the length revise loop. A failed pass is logged and leaves the draft as
+ * it was, with the tokens of finished passes still counted. Once `signal` fires no further pass
+ * starts, so callers check it before using the result.
+ */
+export async function reviseDraft(
+  draft: string,
+  options: {
+    provider: LLMProvider;
+    systemPrompt: string;
+    maxOutputTokens: number;
+    rules: HouseRuleOptions;
+    repair: boolean;
+    constraints: LengthConstraints;
+    signal?: AbortSignal;
+  }
+): Promise<DraftRevision> {
+  const { provider, systemPrompt, maxOutputTokens, signal } = options;
+  let text = draft;
+  let violations = lintDraft(text, options.rules);
+  let fixed = 0;
+  let tokensUsed = 0;
+
+  if (options.repair && violations.length && !signal?.aborted) {
+    try {
+      const repair = await repairHouseRuleViolations(text, violations, {
+        ...options.rules,
+        provider,
+        systemPrompt,
+        maxOutputTokens,
+        signal
+      });
+      tokensUsed += repair.tokensUsed;
+      text = repair.text;
+      violations = repair.violations;
+      fixed = repair.fixed;
+    } catch (error) {
+      if (!signal?.aborted) console.error("[compose] house-rule repair failed", error);
+    }
+  }
+
+  // The brief's character/word lengths are enforced, not just requested
+  let length = evaluateLength(measureDraft(text), options.constraints);
+  if (!length.met && !signal?.aborted) {
+    try {
+      const enforced = await enforceLengthConstraints(text, options.constraints, {
+        provider,
+        systemPrompt,
+        maxOutputTokens,
+        signal
+      });
+      tokensUsed += enforced.tokensUsed;
+      if (enforced.text !== text) {
+        text = enforced.text;
+        violations = lintDraft(text, options.rules);
+      }
+      length = enforced.report;
+    } catch (error) {
+      if (error instanceof LengthRevisionError) tokensUsed += error.tokensUsed;
+      if (!signal?.aborted) console.error("[compose] length revision failed", error);
+    }
+  }
+
+  return { text, violations, fixed, length, tokensUsed };
+}
@@ -0,0 +1,227 @@
+import { createHash } from "crypto";
+import { after } from "next/server";
+import type { PrismaClient } from "@prisma/client";
+import { getEmbeddingProvider, resolveEmbeddingModel } from "@/lib/llm";
+import { markdownToPlainText } from "@/lib/utils";
+import { visibleDocumentsWhere, type WorkspaceScope } from "@/lib/workspaces";
+
+export const EMBEDDED_FIELDS = ["content", "writingStyle"] as const;
+export type EmbeddedField = (typeof EMBEDDED_FIELDS)[number];
+
+// Roughly 2k tokens: the opening of a document carries most of its voice and subject
+const MAX_EMBEDDING_CHARS = 8000;
+// Autosave writes every few seconds; re-embed a changed document at most this often
+const REINDEX_INTERVAL_MS = 5 * 60 * 1000;
+// Cosine search runs in-process over the most recently indexed vectors in scope
+const MAX_CANDIDATES = 5000;
+
+export type EmbeddingQuery = {
+  vector: number[];
+  model: string;
+};
+
+export type SimilarDocumentHit = {
+  documentId: string;
+  field: EmbeddedField;
+  score: number;
+};
+
+type StoredEmbedding = {
+  field: string;
+  model: string;
+  contentHash: string;
+  updatedAt: Date;
+};
+
+export function prepareEmbeddingText(source: string | null | undefined): string {
+  return markdownToPlainText(source ?? "").replace(/\s+/g, " ").trim().slice(0, MAX_EMBEDDING_CHARS);
+}
+
+function hashText(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+export function encodeVector(vector: number[]): Uint8Array<ArrayBuffer> {
+  return new Uint8Array(new Float32Array(vector).buffer);
+}
+
+export function decodeVector(bytes: Uint8Array): Float32Array {
+  // Copy into an aligned buffer; Prisma hands back slices of a larger pool
+  const copy = new Uint8Array(bytes.byteLength);
+  copy.set(bytes);
+  return new Float32Array(copy.buffer);
+}
+
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i += 1) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Embeds the document's content and writing style when they changed since the stored vectors.
+ * `force` skips the autosave throttle (used when the document itself is the similarity query).
+ * Returns how many fields were (re)embedded; 0 when no embedding provider is configured.
+ */
+export async function indexDocumentEmbeddings(
+  db: PrismaClient,
+  documentId: string,
+  options: { force?: boolean } = {}
+): Promise<number> {
+  const provider = getEmbeddingProvider();
+  if (!provider?.embed) return 0;
+  const model = resolveEmbeddingModel(provider.name);
+
+  const doc = await db.document.findUnique({
+    where: { id: documentId },
+    select: {
+      content: true,
+      writingStyle: true,
+      DocumentEmbedding: { select: { field: true, model: true, contentHash: true, updatedAt: true } }
+    }
+  });
+  if (!doc) return 0;
+
+  const stored: StoredEmbedding[] = doc.DocumentEmbedding;
+  const pending: Array<{ field: EmbeddedField; text: string; hash: string }> = [];
+  const emptied: EmbeddedField[] = [];
+
+  EMBEDDED_FIELDS.forEach((field) => {
+    const text = prepareEmbeddingText(doc[field]);
+    const existing = stored.find((entry) => entry.field === field);
+    if (!text) {
+      if (existing) emptied.push(field);
+      return;
+    }
+    const hash = hashText(text);
+    if (existing && existing.model === model) {
+      if (existing.contentHash === hash) return;
+      if (!options.force && Date.now() - existing.updatedAt.getTime() < REINDEX_INTERVAL_MS) return;
+    }
+    pending.push({ field, text, hash });
+  });
+
+  if (emptied.length) {
+    await db.documentEmbedding.deleteMany({ where: { documentId, field: { in: emptied } } });
+  }
+  if (!pending.length) return 0;
+
+  const result = await provider.embed({ input: pending.map((entry) => entry.text), model });
+  await Promise.all(
+    pending.map((entry, index) => {
+      const vector = result.vectors[index];
+      const data = {
+        model: result.model,
+        contentHash: entry.hash,
+        dimensions: vector.length,
+        vector: encodeVector(vector)
+      };
+      return db.documentEmbedding.upsert({
+        where: { documentId_field: { documentId, field: entry.field } },
+        create: { documentId, field: entry.field, ...data },
+        update: data
+      });
+    })
+  );
+  return pending.length;
+}
+
+/**
+ * Re-indexes after the response is sent so saves never wait on the embeddings API.
+ * Failures are logged and retried naturally on the next save.
+ */
+export function scheduleDocumentIndexing(db: PrismaClient, documentId: string) {
+  after(async () => {
+    try {
+      await indexDocumentEmbeddings(db, documentId);
+    } catch (error) {
+      console.error("[embeddings] indexing failed", { documentId, error });
+    }
+  });
+}
+
+/** Embeds free text (an editor selection) for use as a similarity query. */
+export async function embedQueryText(text: string): Promise<EmbeddingQuery | null> {
+  const provider = getEmbeddingProvider();
+  const prepared = prepareEmbeddingText(text);
+  if (!provider?.embed || !prepared) return null;
+  const result = await provider.embed({ input: [prepared] });
+  return { vector: result.vectors[0], model: result.model };
+}
+
+/** The stored vector for one field of a document, if it was indexed with `model`. */
+export async function loadDocumentEmbedding(
+  db: PrismaClient,
+  documentId: string,
+  field: EmbeddedField
+): Promise<EmbeddingQuery | null> {
+  const row = await db.documentEmbedding.findUnique({
+    where: { documentId_field: { documentId, field } },
+    select: { model: true, vector: true }
+  });
+  return row ? { vector: Array.from(decodeVector(row.vector)), model: row.model } : null;
+}
+
+/**
+ * Scores every indexed document visible in `scope` against `query` and keeps each document's
+ * best-matching field. Vectors from other models are not comparable and are skipped.
+ * `fields`, `folderId` and `kind` narrow the candidates (grounding only wants document content).
+ */
+export async function findSimilarDocuments(
+  db: PrismaClient,
+  params: {
+    userId: string;
+    scope: WorkspaceScope;
+    query: EmbeddingQuery;
+    excludeId?: string | null;
+    limit: number;
+    fields?: readonly EmbeddedField[];
+    folderId?: string | null;
+    kind?: "docs" | "styles";
+  }
+): Promise<SimilarDocumentHit[]> {
+  const { userId, scope, query, excludeId, limit, fields, folderId, kind } = params;
+  const documentFilters: Array<Record<string, unknown>> = [visibleDocumentsWhere(scope, userId)];
+  if (folderId) {
+    documentFilters.push({ DocumentFolder: { some: { folderId } } });
+  }
+  if (kind) {
+    documentFilters.push({ styleTitle: kind === "styles" ? { not: null } : null });
+  }
+  const candidates = await db.documentEmbedding.findMany({
+    where: {
+      model: query.model,
+      dimensions: query.vector.length,
+      ...(excludeId ? { documentId: { not: excludeId } } : {}),
+      ...(fields ? { field: { in: [...fields] } } : {}),
+      Document: { AND: documentFilters }
+    },
+    select: { documentId: true, field: true, vector: true },
+    orderBy: { updatedAt: "desc" },
+    take: MAX_CANDIDATES
+  });
+
+  const best = new Map<string, SimilarDocumentHit>();
+  candidates.forEach((candidate: { documentId: string; field: string; vector: Uint8Array }) => {
+    const score = cosineSimilarity(query.vector, decodeVector(candidate.vector));
+    const current = best.get(candidate.documentId);
+    if (!current || score > current.score) {
+      best.set(candidate.documentId, {
+        documentId: candidate.documentId,
+        field: candidate.field as EmbeddedField,
+        score
+      });
+    }
+  });
+
+  const hits: SimilarDocumentHit[] = [];
+  best.forEach((hit) => hits.push(hit));
+  return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+}
@@ -0,0 +1,176 @@
+import MarkdownIt from "markdown-it";
+
+type MarkdownToken = ReturnType<MarkdownIt["parse"]>[number];
+
+export type ExportMark = "bold" | "italic" | "strike" | "code";
+
+export type ExportInline =
+  | { type: "text"; text: string; marks: ExportMark[]; href: string | null }
+  | { type: "break" };
+
+export type ExportBlock =
+  | { type: "heading"; level: number; content: ExportInline[] }
+  | { type: "paragraph"; content: ExportInline[] }
+  | { type: "list"; ordered: boolean; start: number; tight: boolean; items: ExportBlock[][] }
+  | { type: "blockquote"; children: ExportBlock[] }
+  | { type: "code"; text: string; language: string | null }
+  | { type: "rule" };
+
+/** What every export writer receives: the title (null when untitled), the source markdown and its AST. */
+export type ExportDocument = {
+  title: string | null;
+  markdown: string;
+  blocks: ExportBlock[];
+};
+
+const md = new MarkdownIt({ html: true }); // HTML stays on for the editor's <s> tags
+
+const MARK_TOKENS: Record<string, { mark: Exclude<ExportMark, "code">; open: boolean }> = {
+  strong_open: { mark: "bold", open: true },
+  strong_close: { mark: "bold", open: false },
+  em_open: { mark: "italic", open: true },
+  em_close: { mark: "italic", open: false },
+  s_open: { mark: "strike", open: true },
+  s_close: { mark: "strike", open: false }
+};
+
+function parseInline(tokens: MarkdownToken[]): ExportInline[] {
+  const nodes: ExportInline[] = [];
+  const counts: Record<Exclude<ExportMark, "code">, number> = { bold: 0, italic: 0, strike: 0 };
+  let href: string | null = null;
+
+  const push = (text: string, code = false) => {
+    if (!text) return;
+    const marks: ExportMark[] = (["bold", "italic", "strike"] as const).filter((mark) => counts[mark] > 0);
+    if (code) marks.push("code");
+    const previous = nodes[nodes.length - 1];
+    if (previous?.type === "text" && previous.href === href && previous.marks.join() === marks.join()) {
+      previous.text += text;
+    } else {
+      nodes.push({ type: "text", text, marks, href });
+    }
+  };
+
+  const walk = (children: MarkdownToken[]) => {
+    for (const token of children) {
+      const markToken = MARK_TOKENS[token.type];
+      if (markToken) {
+        counts[markToken.mark] = Math.max(counts[markToken.mark] + (markToken.open ? 1 : -1), 0);
+      } else if (token.type === "text") {
+        push(token.content);
+      } else if (token.type === "code_inline") {
+        push(token.content, true);
+      } else if (token.type === "link_open") {
+        href = token.attrGet("href");
+      } else if (token.type === "link_close") {
+        href = null;
+      } else if (token.type === "softbreak" || token.type === "hardbreak") {
+        // The editor stores single newlines as line breaks
+        nodes.push({ type: "break" });
+      } else if (token.type === "html_inline") {
+        if (/^<(s|del)[\s>]/i.test(token.content)) counts.strike += 1;
+        else if (/^<\/(s|del)>/i.test(token.content)) counts.strike = Math.max(counts.strike - 1, 0);
+      } else if (token.type === "image") {
+        push(token.content);
+      } else if (token.children) {
+        walk(token.children);
+      }
+    }
+  };
+
+  walk(tokens);
+  return nodes;
+}
+
+function parseBlocks(tokens: MarkdownToken[], start: number, closeType?: string): { blocks: ExportBlock[]; next: number } {
+  const blocks: ExportBlock[] = [];
+  let i = start;
+
+  while (i < tokens.length) {
+    const token = tokens[i];
+    if (closeType && token.type === closeType) {
+      return { blocks, next: i + 1 };
+    }
+
+    switch (token.type) {
+      case "heading_open": {
+        const level = Math.min(Math.max(Number(token.tag.slice(1)) || 1, 1), 6);
+        blocks.push({ type: "heading", level, content: parseInline(tokens[i + 1]?.children ?? []) });
+        i += 3;
+        break;
+      }
+      case "paragraph_open": {
+        blocks.push({ type: "paragraph", content: parseInline(tokens[i + 1]?.children ?? []) });
+        i += 3;
+        break;
+      }
+      case "bullet_list_open":
+      case "ordered_list_open": {
+        const ordered = token.type === "ordered_list_open";
+        const closing = ordered ? "ordered_list_close" : "bullet_list_close";
+        const items: ExportBlock[][] = [];
+        let tight = true;
+        i += 1;
+        while (i < tokens.length && tokens[i].type !== closing) {
+          if (tokens[i].type === "list_item_open") {
+            // markdown-it hides the paragraphs of tight lists
+            if (tokens[i + 1]?.type === "paragraph_open" && !tokens[i + 1].hidden) tight = false;
+            const item = parseBlocks(tokens, i + 1, "list_item_close");
+            items.push(item.blocks);
+            i = item.next;
+          } else {
+            i += 1;
+          }
+        }
+        blocks.push({ type: "list", ordered, start: Number(token.attrGet("start") ?? 1), tight, items });
+        i += 1;
+        break;
+      }
+      case "blockquote_open": {
+        const inner = parseBlocks(tokens, i + 1, "blockquote_close");
+        blocks.push({ type: "blockquote", children: inner.blocks });
+        i = inner.next;
+        break;
+      }
+      case "fence":
+      case "code_block":
+        blocks.push({ type: "code", text: token.content.replace(/\n$/, ""), language: token.info?.trim() || null });
+        i += 1;
+        break;
+      case "hr":
+        blocks.push({ type: "rule" });
+        i += 1;
+        break;
+      case "html_block": {
+        const text = token.content.replace(/<[^>]+>/g, " ").replace(/\s+/g, " ").trim();
+        if (text) blocks.push({ type: "paragraph", content: [{ type: "text", text, marks: [], href: null }] });
+        i += 1;
+        break;
+      }
+      default:
+        i += 1;
+    }
+  }
+
+  return { blocks, next: i };
+}
+
+export function isUntitledTitle(title: string | null | undefined): boolean {
+  const normalized = (title ?? "").trim().toLowerCase();
+  return !normalized || normalized === "untitled doc" || normalized === "untitled document";
+}
+
+/** Parses document markdown once into the AST all export writers share. */
+export function parseExportDocument(params: { title: string | null; content: string }): ExportDocument {
+  // The editor writes strikethrough as ~~text~~; route it through the <s> handling above
+  const preprocessed = params.content.replace(/~~([^~]+)~~/g, "<s>$1</s>");
+  return {
+    title: isUntitledTitle(params.title) ? null : params.title,
+    markdown: params.content,
+    blocks: parseBlocks(md.parse(preprocessed, {}), 0).blocks
+  };
+}
+
+export function inlinePlainText(nodes: ExportInline[]): string {
+  return nodes.map((node) => (node.type === "break" ? "\n" : node.text)).join("");
+}
@@ -0,0 +1,157 @@
+import JSZip from "jszip";
+import type { PrismaClient } from "@prisma/client";
+import { generateDownloadFilename, markdownToPlainText } from "@/lib/utils";
+import type { ExportFormat, PdfExportOptions } from "@/lib/validators";
+import { readableDocumentsWhere } from "@/lib/document-access";
+import { resolveRecordRole } from "@/lib/workspaces";
+import { readDocumentPlaceholders, resolvePlaceholders, unresolvedPlaceholders } from "@/lib/placeholders";
+import { parseExportDocument } from "./ast";
+import type { DocxWriterOptions } from "./docx";
+import { exportFormatInfo } from "./formats";
+import { renderExport } from "./index";
+
+export const MANIFEST_FILENAME = "index.json";
+
+export type BulkExportSource = {
+  id: string;
+  title: string;
+  content: string;
+  updatedAt: Date;
+};
+
+export type BulkExportDocument = BulkExportSource & {
+  /** Labels of placeholders still empty; their `[brackets]` stay in the exported text. */
+  unresolved: string[];
+};
+
+export type BulkExportEntry = {
+  id: string;
+  title: string;
+  file: string | null;
+  updatedAt: string;
+  error?: string;
+};
+
+/**
+ * The documents of a folder (`folderId`) or a selection (`documentIds`, kept in the order they
+ * were picked) that `userId` can read, with filled placeholder values substituted in. Resolves
+ * to null when the folder is missing or not visible to the user.
+ */
+export async function loadBulkExportDocuments(
+  db: PrismaClient,
+  userId: string,
+  params: { folderId?: string | null; documentIds?: string[] | null }
+): Promise<{ label: string | null; documents: BulkExportDocument[] } | null> {
+  const { folderId, documentIds } = params;
+  let label: string | null = null;
+  if (folderId) {
+    const folder = await db.folder.findUnique({ where: { id: folderId } });
+    const role = folder ? await resolveRecordRole(db, folder, userId) : null;
+    if (!folder || !role) return null;
+    label = folder.name;
+  }
+
+  const found = await db.document.findMany({
+    where: {
+      AND: [
+        readableDocumentsWhere(userId),
+        folderId ? { DocumentFolder: { some: { folderId } } } : { id: { in: documentIds ?? [] } }
+      ]
+    },
+    select: { id: true, title: true, content: true, updatedAt: true, placeholders: true },
+    orderBy: { updatedAt: "desc" }
+  });
+  const resolved = found.map((document): BulkExportDocument => {
+    const placeholders = readDocumentPlaceholders(document.placeholders);
+    return {
+      id: document.id,
+      title: document.title,
+      content: resolvePlaceholders(document.content, placeholders),
+      updatedAt: document.updatedAt,
+      unresolved: unresolvedPlaceholders(document.content, placeholders)
+    };
+  });
+  const documents = documentIds
+    ? Array.from(new Set(documentIds)).flatMap((id) => resolved.filter((document) => document.id === id))
+    : resolved;
+  return { label, documents };
+}
+
+/** The 409 body listing documents that still have unfilled placeholders. */
+export function unresolvedExportError(blocked: BulkExportDocument[]) {
+  return {
+    error: `${blocked.length} ${blocked.length === 1 ? "document has" : "documents have"} unfilled placeholders.`,
+    unresolved: blocked.map((document) => ({ id: document.id, title: document.title, placeholders: document.unresolved }))
+  };
+}
+
+/** Appends -2, -3… before the extension until the name is free; names compare case-insensitively. */
+function uniqueFilename(name: string, taken: Set<string>): string {
+  const dot = name.lastIndexOf(".");
+  const base = dot > 0 ? name.slice(0, dot) : name;
+  const extension = dot > 0 ? name.slice(dot) : "";
+  let candidate = name;
+  for (let suffix = 2; taken.has(candidate.toLowerCase()); suffix += 1) {
+    candidate = `${base}-${suffix}${extension}`;
+  }
+  taken.add(candidate.toLowerCase());
+  return candidate;
+}
+
+/**
+ * Renders each document with the format's writer into a ZIP alongside an `index.json`
+ * manifest mapping files back to documents. A document that fails to render is listed
+ * in the manifest with its error instead of failing the whole archive.
+ */
+export async function buildExportArchive(params: {
+  documents: BulkExportSource[];
+  format: ExportFormat;
+  pdf: PdfExportOptions;
+  docx?: DocxWriterOptions;
+  label: string | null;
+}): Promise<JSZip> {
+  const { documents, format, pdf, docx, label } = params;
+  const info = exportFormatInfo(format);
+  const zip = new JSZip();
+  const taken = new Set<string>([MANIFEST_FILENAME]);
+  const entries: BulkExportEntry[] = [];
+
+  for (const source of documents) {
+    const entry: BulkExportEntry = {
+      id: source.id,
+      title: source.title,
+      file: null,
+      updatedAt: source.updatedAt.toISOString()
+    };
+    try {
+      const document = parseExportDocument({ title: markdownToPlainText(source.title), content: source.content });
+      const body = await renderExport(format, document, { pdf, docx });
+      entry.file = uniqueFilename(generateDownloadFilename(source.title, source.content, info.extension), taken);
+      zip.file(entry.file, body);
+    } catch (error) {
+      console.error(`[export][bulk] ${format} render failed`, { documentId: source.id, error });
+      entry.error = `Unable to export .${info.extension}.`;
+    }
+    entries.push(entry);
+  }
+
+  zip.file(
+    MANIFEST_FILENAME,
+    JSON.stringify({ exportedAt: new Date().toISOString(), format, label, documents: entries }, null, 2)
+  );
+  return zip;
+}
+
+/** Streams the archive as it is compressed rather than buffering the whole ZIP first. */
+export function streamArchive(zip: JSZip): ReadableStream<Uint8Array> {
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      zip
+        .generateInternalStream({ type: "uint8array", compression: "DEFLATE", streamFiles: true })
+        .on("data", (chunk) => controller.enqueue(chunk))
+        .on("error", (error) => controller.error(error))
+        .on("end", () => controller.close())
+        .resume();
+    }
+  });
+}
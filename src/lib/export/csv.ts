@@ -0,0 +1,40 @@
+import { csvCell } from "@/lib/batch";
+import { channelCharacterCount } from "@/lib/channel-presets";
+import { inlinePlainText, type ExportBlock, type ExportDocument } from "./ast";
+import { blocksToText } from "./txt";
+
+type CsvRow = [field: string, item: string, text: string, characters: string];
+
+function row(field: string, item: number, text: string): CsvRow {
+  return [field, String(item), text, String(channelCharacterCount(text))];
+}
+
+/**
+ * One row per item, keyed by the heading above it: a section that is a single list (channel
+ * headlines, descriptions) gives a row per list item, any other section one row with its text.
+ * Channel documents store each field as such a section, so their CSV matches the form.
+ */
+export function writeCsv(document: ExportDocument): string {
+  const rows: CsvRow[] = [["Field", "Item", "Text", "Characters"]];
+  const sections: Array<{ field: string; blocks: ExportBlock[] }> = [{ field: document.title ?? "", blocks: [] }];
+  document.blocks.forEach((block) => {
+    if (block.type === "heading") {
+      sections.push({ field: inlinePlainText(block.content).trim(), blocks: [] });
+    } else if (block.type !== "rule") {
+      sections[sections.length - 1].blocks.push(block);
+    }
+  });
+
+  sections.forEach(({ field, blocks }) => {
+    const [only] = blocks;
+    if (blocks.length === 1 && only.type === "list") {
+      only.items.forEach((item, index) => rows.push(row(field, index + 1, blocksToText(item).join("\n").trim())));
+      return;
+    }
+    const text = blocksToText(blocks).join("\n\n").trim();
+    if (text) rows.push(row(field, 1, text));
+  });
+
+  // The byte order mark makes Excel read the file as UTF-8
+  return `\uFEFF${rows.map((cells) => cells.map(csvCell).join(",")).join("\r\n")}\r\n`;
+}
@@ -0,0 +1,101 @@
+import JSZip from "jszip";
+
+const DOCUMENT_PATH = "word/document.xml";
+const RELATIONSHIPS_PATH = "word/_rels/document.xml.rels";
+const CONTENT_TYPES_PATH = "[Content_Types].xml";
+const TEMPLATE_MAIN_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml.template.main+xml";
+const DOCUMENT_MAIN_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml";
+const HYPERLINK_RELATIONSHIP = /<Relationship\b[^>]*Type="[^"]*\/hyperlink"[^>]*\/>/g;
+const RELATIONSHIPS_NAMESPACE = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+export const MAX_TEMPLATE_BYTES = 5 * 1024 * 1024;
+
+export class DocxTemplateError extends Error {}
+
+type BodyParts = { before: string; content: string; sectPr: string; after: string };
+
+/** Splits document.xml around its body; `sectPr` is the body-level section (page size, margins, header/footer refs). */
+function splitBody(xml: string): BodyParts | null {
+  const open = /<w:body(\s[^>]*)?>/.exec(xml);
+  const close = xml.lastIndexOf("</w:body>");
+  if (!open || close < open.index) return null;
+  const start = open.index + open[0].length;
+  const body = xml.slice(start, close);
+
+  // Paragraph-level sections sit inside <w:pPr>, so only a sectPr after the last block belongs to the body
+  const sectStart = body.lastIndexOf("<w:sectPr");
+  const lastBlock = Math.max(body.lastIndexOf("</w:p>"), body.lastIndexOf("</w:tbl>"), body.lastIndexOf("</w:sdt>"));
+  const hasSectPr = sectStart > lastBlock;
+  return {
+    before: xml.slice(0, start),
+    content: hasSectPr ? body.slice(0, sectStart) : body,
+    sectPr: hasSectPr ? body.slice(sectStart) : "",
+    after: xml.slice(close)
+  };
+}
+
+async function loadTemplate(bytes: Uint8Array): Promise<{ zip: JSZip; documentXml: string }> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(bytes);
+  } catch {
+    throw new DocxTemplateError("That file is not a valid .docx.");
+  }
+  const documentXml = await zip.file(DOCUMENT_PATH)?.async("string");
+  if (!documentXml || !splitBody(documentXml)) {
+    throw new DocxTemplateError("That file is not a Word document.");
+  }
+  if (zip.file("word/vbaProject.bin")) {
+    throw new DocxTemplateError("Macro-enabled templates are not supported.");
+  }
+  return { zip, documentXml };
+}
+
+/** Throws DocxTemplateError unless `bytes` is a .docx/.dotx that exports can be merged into. */
+export async function validateDocxTemplate(bytes: Uint8Array): Promise<void> {
+  if (bytes.byteLength > MAX_TEMPLATE_BYTES) {
+    throw new DocxTemplateError("Templates must be 5 MB or smaller.");
+  }
+  await loadTemplate(bytes);
+}
+
+/**
+ * Pours the body of a generated .docx into a reference template. The template keeps its
+ * styles, fonts, numbering, headers/footers (and their logos) and page setup; its own body
+ * text is replaced. Hyperlink relationships are carried over so links keep working.
+ */
+export async function applyDocxTemplate(generated: ArrayBuffer, template: Uint8Array): Promise<ArrayBuffer> {
+  const source = await JSZip.loadAsync(generated);
+  const sourceBody = splitBody((await source.file(DOCUMENT_PATH)?.async("string")) ?? "");
+  if (!sourceBody) {
+    throw new Error("Generated document has no body.");
+  }
+  const { zip, documentXml } = await loadTemplate(template);
+  const target = splitBody(documentXml)!;
+
+  let before = target.before;
+  // Hyperlinks use r:id; templates saved by other tools may not declare the prefix
+  if (!/xmlns:r=/.test(before)) {
+    before = before.replace(/<w:document\b/, `<w:document xmlns:r="${RELATIONSHIPS_NAMESPACE}"`);
+  }
+  zip.file(DOCUMENT_PATH, `${before}${sourceBody.content}${target.sectPr}${target.after}`);
+
+  const links = ((await source.file(RELATIONSHIPS_PATH)?.async("string")) ?? "").match(HYPERLINK_RELATIONSHIP) ?? [];
+  if (links.length) {
+    const relationships = await zip.file(RELATIONSHIPS_PATH)?.async("string");
+    zip.file(
+      RELATIONSHIPS_PATH,
+      relationships
+        ? relationships.replace("</Relationships>", `${links.join("")}</Relationships>`)
+        : `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${links.join("")}</Relationships>`
+    );
+  }
+
+  // A .dotx opens as a new document only once its main part is typed as one
+  const contentTypes = await zip.file(CONTENT_TYPES_PATH)?.async("string");
+  if (contentTypes?.includes(TEMPLATE_MAIN_TYPE)) {
+    zip.file(CONTENT_TYPES_PATH, contentTypes.replace(TEMPLATE_MAIN_TYPE, DOCUMENT_MAIN_TYPE));
+  }
+
+  return zip.generateAsync({ type: "arraybuffer", compression: "DEFLATE" });
+}
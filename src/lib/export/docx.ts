@@ -0,0 +1,162 @@
+import { Document, ExternalHyperlink, HeadingLevel, Packer, PageBreak, Paragraph, TextRun, type ParagraphChild } from "docx";
+import type { DocxTitlePage } from "@/lib/validators";
+import type { ExportBlock, ExportDocument, ExportInline } from "./ast";
+import { applyDocxTemplate } from "./docx-template";
+
+const HEADING_LEVELS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6
+];
+const LIST_INDENT = 400;
+
+type RunStyle = { italic?: boolean };
+
+export type DocxWriterOptions = {
+  // Reference .docx whose styles, headers/footers and page setup the export inherits
+  template: Uint8Array | null;
+  titlePage: DocxTitlePage | null;
+};
+
+function toRuns(nodes: ExportInline[], style: RunStyle = {}): ParagraphChild[] {
+  const children: ParagraphChild[] = [];
+  for (const node of nodes) {
+    if (node.type === "break") {
+      children.push(new TextRun({ text: "", break: 1 }));
+      continue;
+    }
+    const run = new TextRun({
+      text: node.text,
+      // Unset marks stay undefined so paragraph styles (e.g. a template's bold headings) still apply
+      bold: node.marks.includes("bold") || undefined,
+      italics: node.marks.includes("italic") || style.italic || undefined,
+      strike: node.marks.includes("strike") || undefined,
+      font: node.marks.includes("code") ? "Courier New" : undefined,
+      style: node.href ? "Hyperlink" : undefined
+    });
+    children.push(node.href ? new ExternalHyperlink({ link: node.href, children: [run] }) : run);
+  }
+  return children;
+}
+
+function toParagraphs(blocks: ExportBlock[], indent = 0, style: RunStyle = {}): Paragraph[] {
+  const paragraphs: Paragraph[] = [];
+  for (const block of blocks) {
+    switch (block.type) {
+      case "heading":
+        paragraphs.push(
+          new Paragraph({
+            children: toRuns(block.content),
+            heading: HEADING_LEVELS[block.level - 1],
+            spacing: { after: 200 }
+          })
+        );
+        break;
+      case "paragraph":
+        paragraphs.push(
+          new Paragraph({
+            children: block.content.length ? toRuns(block.content, style) : [new TextRun({ text: "" })],
+            spacing: { after: 120 },
+            indent: indent ? { left: indent } : undefined
+          })
+        );
+        break;
+      case "list":
+        block.items.forEach((item, index) => {
+          const marker = block.ordered ? `${block.start + index}. ` : "• ";
+          const [first, ...rest] = item;
+          const itemIndent = indent + LIST_INDENT;
+          paragraphs.push(
+            new Paragraph({
+              children: [
+                new TextRun({ text: marker, bold: true }),
+                ...(first && first.type === "paragraph" ? toRuns(first.content, style) : [])
+              ],
+              spacing: { after: 60 },
+              indent: { left: itemIndent }
+            })
+          );
+          const remaining = first && first.type === "paragraph" ? rest : item;
+          paragraphs.push(...toParagraphs(remaining, itemIndent, style));
+        });
+        break;
+      case "blockquote":
+        paragraphs.push(...toParagraphs(block.children, indent + LIST_INDENT, { italic: true }));
+        break;
+      case "code":
+        paragraphs.push(
+          new Paragraph({
+            children: block.text.split("\n").map((line, index) => new TextRun({ text: line, font: "Courier New", break: index ? 1 : 0 })),
+            spacing: { after: 120 },
+            indent: indent ? { left: indent } : undefined
+          })
+        );
+        break;
+      case "rule":
+        paragraphs.push(
+          new Paragraph({
+            children: [],
+            border: { bottom: { style: "single", size: 6, color: "BBBBBB", space: 1 } },
+            spacing: { after: 120 }
+          })
+        );
+        break;
+    }
+  }
+  return paragraphs;
+}
+
+function titleParagraph(title: string, styled: boolean): Paragraph {
+  // With a template the title takes its "Title" style; otherwise it is formatted directly
+  return styled
+    ? new Paragraph({ style: "Title", children: [new TextRun({ text: title })] })
+    : new Paragraph({ children: [new TextRun({ text: title, bold: true, size: 32 })], spacing: { after: 200 } });
+}
+
+function titlePageParagraphs(title: string | null, titlePage: DocxTitlePage, styled: boolean): Paragraph[] {
+  const paragraphs: Paragraph[] = [new Paragraph({ children: [], spacing: { before: 2400 } })];
+  if (title) {
+    paragraphs.push(
+      styled
+        ? titleParagraph(title, true)
+        : new Paragraph({ children: [new TextRun({ text: title, bold: true, size: 48 })], spacing: { after: 240 } })
+    );
+  }
+  if (titlePage.subtitle) {
+    paragraphs.push(
+      styled
+        ? new Paragraph({ style: "Subtitle", children: [new TextRun({ text: titlePage.subtitle })] })
+        : new Paragraph({ children: [new TextRun({ text: titlePage.subtitle, size: 28, color: "555555" })], spacing: { after: 480 } })
+    );
+  }
+  const details = [
+    titlePage.preparedFor ? `Prepared for ${titlePage.preparedFor}` : null,
+    titlePage.preparedBy ? `Prepared by ${titlePage.preparedBy}` : null,
+    titlePage.showDate ? new Date().toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric" }) : null
+  ];
+  details.forEach((line) => {
+    if (line) paragraphs.push(new Paragraph({ children: [new TextRun({ text: line })], spacing: { after: 80 } }));
+  });
+  paragraphs.push(new Paragraph({ children: [new PageBreak()] }));
+  return paragraphs;
+}
+
+export async function writeDocx(
+  document: ExportDocument,
+  options: DocxWriterOptions = { template: null, titlePage: null }
+): Promise<ArrayBuffer> {
+  const styled = Boolean(options.template);
+  const paragraphs: Paragraph[] = [];
+  if (options.titlePage?.enabled) {
+    paragraphs.push(...titlePageParagraphs(document.title, options.titlePage, styled));
+  } else if (document.title) {
+    paragraphs.push(titleParagraph(document.title, styled));
+  }
+  paragraphs.push(...toParagraphs(document.blocks));
+
+  const generated = await Packer.toArrayBuffer(new Document({ sections: [{ children: paragraphs }] }));
+  return options.template ? applyDocxTemplate(generated, options.template) : generated;
+}
@@ -0,0 +1,101 @@
+import { randomUUID } from "crypto";
+import JSZip from "jszip";
+import { inlinePlainText, type ExportBlock, type ExportDocument } from "./ast";
+import { escapeXml, renderHtmlBlocks } from "./html";
+
+type Chapter = { title: string; blocks: ExportBlock[] };
+
+const STYLESHEET = `body { font-family: serif; line-height: 1.5; margin: 0 5%; }
+h1, h2, h3, h4, h5, h6 { font-family: sans-serif; line-height: 1.25; }
+blockquote { margin: 1em 0; padding-left: 1em; border-left: 3px solid #ccc; font-style: italic; }
+pre { white-space: pre-wrap; font-size: 0.85em; background: #f4f4f5; padding: 0.5em; }
+`;
+
+/** Splits the document into chapters at its top heading level (h1, falling back to h2). */
+function splitChapters(document: ExportDocument): Chapter[] {
+  const headingLevel = [1, 2].find((level) => document.blocks.some((block) => block.type === "heading" && block.level === level));
+  const fallbackTitle = document.title ?? "Untitled Document";
+  const chapters: Chapter[] = [];
+  for (const block of document.blocks) {
+    if (headingLevel && block.type === "heading" && block.level === headingLevel) {
+      chapters.push({ title: inlinePlainText(block.content).trim() || fallbackTitle, blocks: [block] });
+    } else if (chapters.length) {
+      chapters[chapters.length - 1].blocks.push(block);
+    } else {
+      // Content before the first heading becomes an opening chapter under the document title
+      chapters.push({ title: fallbackTitle, blocks: [block] });
+    }
+  }
+  return chapters.length ? chapters : [{ title: fallbackTitle, blocks: [] }];
+}
+
+function xhtmlPage(title: string, body: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="en" lang="en">
+<head>
+<title>${escapeXml(title)}</title>
+<link rel="stylesheet" type="text/css" href="style.css" />
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+/** EPUB 3 package with one XHTML file per chapter and a navigation document. */
+export async function writeEpub(document: ExportDocument): Promise<ArrayBuffer> {
+  const title = document.title ?? "Untitled Document";
+  const chapters = splitChapters(document);
+  const modified = new Date().toISOString().replace(/\.\d+Z$/, "Z");
+  const zip = new JSZip();
+
+  zip.file("mimetype", "application/epub+zip", { compression: "STORE" });
+  zip.file(
+    "META-INF/container.xml",
+    `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container"><rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles></container>`
+  );
+  zip.file("OEBPS/style.css", STYLESHEET);
+
+  chapters.forEach((chapter, index) => {
+    zip.file(`OEBPS/chapter-${index + 1}.xhtml`, xhtmlPage(chapter.title, renderHtmlBlocks(chapter.blocks, { xhtml: true })));
+  });
+
+  const navItems = chapters.map(
+    (chapter, index) => `<li><a href="chapter-${index + 1}.xhtml">${escapeXml(chapter.title)}</a></li>`
+  );
+  zip.file(
+    "OEBPS/nav.xhtml",
+    xhtmlPage(title, `<nav epub:type="toc" id="toc">\n<h1>${escapeXml(title)}</h1>\n<ol>\n${navItems.join("\n")}\n</ol>\n</nav>`)
+  );
+
+  const manifest = chapters.map(
+    (_, index) => `<item id="chapter-${index + 1}" href="chapter-${index + 1}.xhtml" media-type="application/xhtml+xml"/>`
+  );
+  const spine = chapters.map((_, index) => `<itemref idref="chapter-${index + 1}"/>`);
+  zip.file(
+    "OEBPS/content.opf",
+    `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="en">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:identifier id="book-id">urn:uuid:${randomUUID()}</dc:identifier>
+<dc:title>${escapeXml(title)}</dc:title>
+<dc:language>en</dc:language>
+<meta property="dcterms:modified">${modified}</meta>
+</metadata>
+<manifest>
+<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+<item id="style" href="style.css" media-type="text/css"/>
+${manifest.join("\n")}
+</manifest>
+<spine>
+${spine.join("\n")}
+</spine>
+</package>
+`
+  );
+
+  return zip.generateAsync({ type: "arraybuffer", compression: "DEFLATE", mimeType: "application/epub+zip" });
+}
@@ -0,0 +1,32 @@
+import type { ExportFormat } from "@/lib/validators";
+
+export type ExportFormatInfo = {
+  format: ExportFormat;
+  extension: string;
+  mimeType: string;
+  label: string;
+  detail: string;
+};
+
+/** Format metadata shared by the download menu and the export route; writers live in ./index. */
+export const EXPORT_FORMATS: ExportFormatInfo[] = [
+  {
+    format: "docx",
+    extension: "docx",
+    mimeType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    label: ".docx",
+    detail: "MS Word"
+  },
+  { format: "pdf", extension: "pdf", mimeType: "application/pdf", label: ".pdf", detail: "PDF" },
+  { format: "txt", extension: "txt", mimeType: "text/plain; charset=utf-8", label: ".txt", detail: "Plaintext" },
+  { format: "md", extension: "md", mimeType: "text/markdown; charset=utf-8", label: ".md", detail: "Markdown" },
+  { format: "html", extension: "html", mimeType: "text/html; charset=utf-8", label: ".html", detail: "Clean HTML for CMS" },
+  { format: "rtf", extension: "rtf", mimeType: "application/rtf", label: ".rtf", detail: "Rich Text" },
+  { format: "odt", extension: "odt", mimeType: "application/vnd.oasis.opendocument.text", label: ".odt", detail: "OpenDocument" },
+  { format: "epub", extension: "epub", mimeType: "application/epub+zip", label: ".epub", detail: "E-book" },
+  { format: "csv", extension: "csv", mimeType: "text/csv; charset=utf-8", label: ".csv", detail: "Spreadsheet, one row per item" }
+];
+
+export function exportFormatInfo(format: ExportFormat): ExportFormatInfo {
+  return EXPORT_FORMATS.find((entry) => entry.format === format) ?? EXPORT_FORMATS[0];
+}
@@ -0,0 +1,80 @@
+import type { ExportBlock, ExportDocument, ExportInline, ExportMark } from "./ast";
+
+const MARK_TAGS: Record<ExportMark, string> = { bold: "strong", italic: "em", strike: "s", code: "code" };
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+type HtmlOptions = { xhtml?: boolean };
+
+function renderInline(nodes: ExportInline[], options: HtmlOptions): string {
+  let html = "";
+  let openHref: string | null = null;
+  for (const node of nodes) {
+    const href = node.type === "text" ? node.href : null;
+    if (openHref !== null && href !== openHref) {
+      html += "</a>";
+      openHref = null;
+    }
+    if (node.type === "break") {
+      html += options.xhtml ? "<br />" : "<br>";
+      continue;
+    }
+    if (href !== null && openHref === null) {
+      html += `<a href="${escapeXml(href)}">`;
+      openHref = href;
+    }
+    const tags = node.marks.map((mark) => MARK_TAGS[mark]);
+    html += tags.map((tag) => `<${tag}>`).join("") + escapeXml(node.text) + tags.reverse().map((tag) => `</${tag}>`).join("");
+  }
+  return openHref !== null ? `${html}</a>` : html;
+}
+
+/** Semantic HTML for the AST: no classes or inline styles, so it pastes cleanly into a CMS. */
+export function renderHtmlBlocks(blocks: ExportBlock[], options: HtmlOptions = {}, tight = false): string {
+  return blocks
+    .map((block) => {
+      switch (block.type) {
+        case "heading":
+          return `<h${block.level}>${renderInline(block.content, options)}</h${block.level}>`;
+        case "paragraph":
+          return tight ? renderInline(block.content, options) : `<p>${renderInline(block.content, options)}</p>`;
+        case "list": {
+          const tag = block.ordered ? "ol" : "ul";
+          const start = block.ordered && block.start !== 1 ? ` start="${block.start}"` : "";
+          const items = block.items.map((item) => `<li>${renderHtmlBlocks(item, options, block.tight)}</li>`);
+          return `<${tag}${start}>\n${items.join("\n")}\n</${tag}>`;
+        }
+        case "blockquote":
+          return `<blockquote>\n${renderHtmlBlocks(block.children, options)}\n</blockquote>`;
+        case "code":
+          return `<pre><code>${escapeXml(block.text)}</code></pre>`;
+        case "rule":
+          return options.xhtml ? "<hr />" : "<hr>";
+      }
+    })
+    .join("\n");
+}
+
+export function writeHtml(document: ExportDocument): string {
+  const title = document.title ? escapeXml(document.title) : "";
+  const heading = document.title ? `<h1>${title}</h1>\n` : "";
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    `<title>${title || "Document"}</title>`,
+    "</head>",
+    "<body>",
+    `${heading}${renderHtmlBlocks(document.blocks)}`,
+    "</body>",
+    "</html>",
+    ""
+  ].join("\n");
+}
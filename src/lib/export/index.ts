@@ -0,0 +1,42 @@
+import type { ExportFormat, PdfExportOptions } from "@/lib/validators";
+import type { ExportDocument } from "./ast";
+import { writeCsv } from "./csv";
+import { writeDocx, type DocxWriterOptions } from "./docx";
+import { writeEpub } from "./epub";
+import { writeHtml } from "./html";
+import { writeMarkdown } from "./md";
+import { writeOdt } from "./odt";
+import { writePdf } from "./pdf";
+import { writeRtf } from "./rtf";
+import { writeTxt } from "./txt";
+
+export type ExportWriterOptions = { pdf: PdfExportOptions; docx?: DocxWriterOptions };
+
+/** A format writer turns the shared AST into file contents; text formats return strings. */
+export type ExportWriter = (
+  document: ExportDocument,
+  options: ExportWriterOptions
+) => string | ArrayBuffer | Promise<string | ArrayBuffer>;
+
+const WRITERS: Record<ExportFormat, ExportWriter> = {
+  docx: (document, options) => writeDocx(document, options.docx),
+  pdf: (document, options) => writePdf(document, options.pdf),
+  txt: writeTxt,
+  md: writeMarkdown,
+  html: writeHtml,
+  rtf: writeRtf,
+  odt: writeOdt,
+  epub: writeEpub,
+  csv: writeCsv
+};
+
+export async function renderExport(
+  format: ExportFormat,
+  document: ExportDocument,
+  options: ExportWriterOptions
+): Promise<string | ArrayBuffer> {
+  return WRITERS[format](document, options);
+}
+
+export { parseExportDocument, type ExportDocument } from "./ast";
+export { EXPORT_FORMATS, exportFormatInfo } from "./formats";
@@ -0,0 +1,6 @@
+import type { ExportDocument } from "./ast";
+
+/** Markdown is already the storage format; only the title is prepended as a heading. */
+export function writeMarkdown(document: ExportDocument): string {
+  return document.title ? `# ${document.title}\n\n${document.markdown}` : document.markdown;
+}
@@ -0,0 +1,142 @@
+import JSZip from "jszip";
+import type { ExportBlock, ExportDocument, ExportInline, ExportMark } from "./ast";
+import { escapeXml } from "./html";
+
+const MIME_TYPE = "application/vnd.oasis.opendocument.text";
+const NAMESPACES = [
+  'xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0"',
+  'xmlns:style="urn:oasis:names:tc:opendocument:xmlns:style:1.0"',
+  'xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0"',
+  'xmlns:fo="urn:oasis:names:tc:opendocument:xmlns:xsl-fo-compatible:1.0"',
+  'xmlns:svg="urn:oasis:names:tc:opendocument:xmlns:svg-compatible:1.0"',
+  'xmlns:xlink="http://www.w3.org/1999/xlink"',
+  'xmlns:dc="http://purl.org/dc/elements/1.1/"',
+  'xmlns:meta="urn:oasis:names:tc:opendocument:xmlns:meta:1.0"'
+].join(" ");
+const HEADING_SIZES = ["18pt", "15pt", "13pt", "12pt", "11pt", "11pt"];
+
+const MARK_PROPERTIES: Record<ExportMark, string> = {
+  bold: 'fo:font-weight="bold"',
+  italic: 'fo:font-style="italic"',
+  strike: 'style:text-line-through-style="solid"',
+  code: 'style:font-name="Courier New"'
+};
+
+/** Collects one automatic text style per combination of marks used in the document. */
+class TextStyles {
+  private names = new Map<string, string>();
+
+  nameFor(marks: ExportMark[]): string | null {
+    if (!marks.length) return null;
+    const key = marks.join(" ");
+    let name = this.names.get(key);
+    if (!name) {
+      name = `T${this.names.size + 1}`;
+      this.names.set(key, name);
+    }
+    return name;
+  }
+
+  toXml(): string {
+    const styles: string[] = [];
+    this.names.forEach((name, key) => {
+      const properties = key.split(" ").map((mark) => MARK_PROPERTIES[mark as ExportMark]);
+      styles.push(`<style:style style:name="${name}" style:family="text"><style:text-properties ${properties.join(" ")}/></style:style>`);
+    });
+    return styles.join("");
+  }
+}
+
+/** ODF collapses runs of whitespace, so spaces after the first and tabs need their own elements. */
+function textXml(value: string): string {
+  return escapeXml(value)
+    .replace(/\t/g, "<text:tab/>")
+    .replace(/ {2,}/g, (spaces) => ` <text:s text:c="${spaces.length - 1}"/>`);
+}
+
+function inlineXml(nodes: ExportInline[], styles: TextStyles): string {
+  return nodes
+    .map((node) => {
+      if (node.type === "break") return "<text:line-break/>";
+      const styleName = styles.nameFor(node.marks);
+      const span = styleName ? `<text:span text:style-name="${styleName}">${textXml(node.text)}</text:span>` : textXml(node.text);
+      return node.href ? `<text:a xlink:type="simple" xlink:href="${escapeXml(node.href)}">${span}</text:a>` : span;
+    })
+    .join("");
+}
+
+function blocksXml(blocks: ExportBlock[], styles: TextStyles, paragraphStyle = "Text_20_body"): string {
+  return blocks
+    .map((block) => {
+      switch (block.type) {
+        case "heading":
+          return `<text:h text:style-name="Heading_20_${block.level}" text:outline-level="${block.level}">${inlineXml(block.content, styles)}</text:h>`;
+        case "paragraph":
+          return `<text:p text:style-name="${paragraphStyle}">${inlineXml(block.content, styles)}</text:p>`;
+        case "list": {
+          const items = block.items.map((item) => `<text:list-item>${blocksXml(item, styles, paragraphStyle)}</text:list-item>`);
+          // Ordered lists that don't start at 1 continue numbering from the right value
+          const start = block.ordered && block.start !== 1 ? ` text:start-value="${block.start}"` : "";
+          return `<text:list text:style-name="${block.ordered ? "L2" : "L1"}"${start}>${items.join("")}</text:list>`;
+        }
+        case "blockquote":
+          return blocksXml(block.children, styles, "Quotations");
+        case "code":
+          return block.text
+            .split("\n")
+            .map((line) => `<text:p text:style-name="Preformatted_20_Text">${textXml(line)}</text:p>`)
+            .join("");
+        case "rule":
+          return '<text:p text:style-name="Horizontal_20_Line"/>';
+      }
+    })
+    .join("");
+}
+
+function listStyleXml(name: string, ordered: boolean): string {
+  const levels = Array.from({ length: 10 }, (_, index) => {
+    const level = index + 1;
+    const indent = `<style:list-level-properties text:list-level-position-and-space-mode="label-alignment"><style:list-level-label-alignment text:label-followed-by="listtab" fo:text-indent="-0.25in" fo:margin-left="${(level * 0.35).toFixed(2)}in"/></style:list-level-properties>`;
+    return ordered
+      ? `<text:list-level-style-number text:level="${level}" style:num-suffix="." style:num-format="1">${indent}</text:list-level-style-number>`
+      : `<text:list-level-style-bullet text:level="${level}" text:bullet-char="•">${indent}</text:list-level-style-bullet>`;
+  });
+  return `<text:list-style style:name="${name}">${levels.join("")}</text:list-style>`;
+}
+
+function contentXml(document: ExportDocument): string {
+  const styles = new TextStyles();
+  const title = document.title ? `<text:p text:style-name="Title">${textXml(document.title)}</text:p>` : "";
+  const body = blocksXml(document.blocks, styles);
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<office:document-content ${NAMESPACES} office:version="1.2"><office:automatic-styles>${styles.toXml()}${listStyleXml("L1", false)}${listStyleXml("L2", true)}</office:automatic-styles><office:body><office:text>${title}${body}</office:text></office:body></office:document-content>`;
+}
+
+function stylesXml(): string {
+  const headings = HEADING_SIZES.map(
+    (size, index) =>
+      `<style:style style:name="Heading_20_${index + 1}" style:display-name="Heading ${index + 1}" style:family="paragraph" style:parent-style-name="Standard" style:next-style-name="Text_20_body" style:default-outline-level="${index + 1}"><style:paragraph-properties fo:margin-top="0.17in" fo:margin-bottom="0.08in" fo:keep-with-next="always"/><style:text-properties fo:font-size="${size}" fo:font-weight="bold"/></style:style>`
+  ).join("");
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<office:document-styles ${NAMESPACES} office:version="1.2"><office:font-face-decls><style:font-face style:name="Times New Roman" svg:font-family="'Times New Roman'" style:font-family-generic="roman"/><style:font-face style:name="Courier New" svg:font-family="'Courier New'" style:font-family-generic="modern" style:font-pitch="fixed"/></office:font-face-decls><office:styles><style:default-style style:family="paragraph"><style:text-properties style:font-name="Times New Roman" fo:font-size="11pt" fo:language="en"/></style:default-style><style:style style:name="Standard" style:family="paragraph"/><style:style style:name="Text_20_body" style:display-name="Text body" style:family="paragraph" style:parent-style-name="Standard"><style:paragraph-properties fo:margin-top="0in" fo:margin-bottom="0.08in"/></style:style><style:style style:name="Title" style:family="paragraph" style:parent-style-name="Standard" style:next-style-name="Text_20_body"><style:paragraph-properties fo:margin-bottom="0.17in"/><style:text-properties fo:font-size="16pt" fo:font-weight="bold"/></style:style>${headings}<style:style style:name="Quotations" style:family="paragraph" style:parent-style-name="Text_20_body"><style:paragraph-properties fo:margin-left="0.4in" fo:margin-right="0.4in"/><style:text-properties fo:font-style="italic"/></style:style><style:style style:name="Preformatted_20_Text" style:display-name="Preformatted Text" style:family="paragraph" style:parent-style-name="Standard"><style:paragraph-properties fo:margin-top="0in" fo:margin-bottom="0in" fo:background-color="#f4f4f5"/><style:text-properties style:font-name="Courier New" fo:font-size="10pt"/></style:style><style:style style:name="Horizontal_20_Line" style:display-name="Horizontal Line" style:family="paragraph" style:parent-style-name="Standard"><style:paragraph-properties fo:margin-bottom="0.1in" fo:border-bottom="0.75pt solid #bbbbbb"/></style:style></office:styles></office:document-styles>`;
+}
+
+function metaXml(document: ExportDocument): string {
+  const title = document.title ? `<dc:title>${escapeXml(document.title)}</dc:title>` : "";
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<office:document-meta ${NAMESPACES} office:version="1.2"><office:meta><meta:generator>Forgetaboutit Writer</meta:generator>${title}<dc:date>${new Date().toISOString()}</dc:date></office:meta></office:document-meta>`;
+}
+
+const MANIFEST_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<manifest:manifest xmlns:manifest="urn:oasis:names:tc:opendocument:xmlns:manifest:1.0" manifest:version="1.2"><manifest:file-entry manifest:full-path="/" manifest:version="1.2" manifest:media-type="${MIME_TYPE}"/><manifest:file-entry manifest:full-path="content.xml" manifest:media-type="text/xml"/><manifest:file-entry manifest:full-path="styles.xml" manifest:media-type="text/xml"/><manifest:file-entry manifest:full-path="meta.xml" manifest:media-type="text/xml"/></manifest:manifest>`;
+
+/** OpenDocument Text package; the uncompressed `mimetype` entry must come first in the zip. */
+export async function writeOdt(document: ExportDocument): Promise<ArrayBuffer> {
+  const zip = new JSZip();
+  zip.file("mimetype", MIME_TYPE, { compression: "STORE" });
+  zip.file("content.xml", contentXml(document));
+  zip.file("styles.xml", stylesXml());
+  zip.file("meta.xml", metaXml(document));
+  zip.file("META-INF/manifest.xml", MANIFEST_XML);
+  return zip.generateAsync({ type: "arraybuffer", compression: "DEFLATE" });
+}
@@ -0,0 +1,317 @@
+import { jsPDF } from "jspdf";
+import type { PdfExportOptions } from "@/lib/validators";
+import type { ExportBlock, ExportDocument, ExportInline } from "./ast";
+
+const DEFAULT_MARGIN = 72;
+const HEADING_SCALE = [1.9, 1.55, 1.3, 1.15, 1, 0.9];
+const LIST_INDENT = 22;
+const QUOTE_INDENT = 16;
+const LINK_COLOR: [number, number, number] = [29, 78, 216];
+
+type Run = {
+  text: string;
+  bold: boolean;
+  italic: boolean;
+  strike: boolean;
+  code: boolean;
+  href: string | null;
+  lineBreak?: boolean;
+};
+
+type Piece = { run: Run; text: string; width: number };
+
+type PdfLayout = {
+  pdf: jsPDF;
+  font: PdfExportOptions["font"];
+  fontSize: number;
+  y: number;
+  pageWidth: number;
+  pageHeight: number;
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+};
+
+type BlockContext = {
+  indent: number;
+  quoteDepth: number;
+  italic: boolean;
+  // List marker waiting for the first line of its item
+  marker: { text: string } | null;
+};
+
+function applyFont(layout: PdfLayout, run: Pick<Run, "bold" | "italic" | "code">, size: number) {
+  const style = run.bold && run.italic ? "bolditalic" : run.bold ? "bold" : run.italic ? "italic" : "normal";
+  layout.pdf.setFont(run.code ? "courier" : layout.font, style);
+  layout.pdf.setFontSize(size);
+}
+
+function ensureSpace(layout: PdfLayout, height: number) {
+  if (layout.y + height > layout.pageHeight - layout.bottom && layout.y > layout.top) {
+    layout.pdf.addPage();
+    layout.y = layout.top;
+  }
+}
+
+function drawQuoteBars(layout: PdfLayout, context: BlockContext, height: number) {
+  for (let depth = 0; depth < context.quoteDepth; depth += 1) {
+    const x = layout.left + context.indent - QUOTE_INDENT * (context.quoteDepth - depth) + 3;
+    layout.pdf.setDrawColor(190, 190, 190);
+    layout.pdf.setLineWidth(1.5);
+    layout.pdf.line(x, layout.y, x, layout.y + height);
+  }
+}
+
+/** Converts AST inline nodes into styled text runs; `base` adds block-level bold/italic. */
+function collectRuns(nodes: ExportInline[], base: Partial<Run> = {}): Run[] {
+  return nodes.map((node) =>
+    node.type === "break"
+      ? // The editor stores single newlines as line breaks
+        { text: "", bold: false, italic: false, strike: false, code: false, href: null, lineBreak: true }
+      : {
+          text: node.text,
+          bold: Boolean(base.bold) || node.marks.includes("bold"),
+          italic: Boolean(base.italic) || node.marks.includes("italic"),
+          strike: node.marks.includes("strike"),
+          code: node.marks.includes("code"),
+          href: node.href
+        }
+  );
+}
+
+function breakLines(layout: PdfLayout, runs: Run[], size: number, maxWidth: number): Piece[][] {
+  const lines: Piece[][] = [[]];
+  let lineWidth = 0;
+  const newLine = () => {
+    const line = lines[lines.length - 1];
+    while (line.length && !line[line.length - 1].text.trim()) line.pop();
+    lines.push([]);
+    lineWidth = 0;
+  };
+
+  for (const run of runs) {
+    if (run.lineBreak) {
+      newLine();
+      continue;
+    }
+    applyFont(layout, run, size);
+    for (const part of run.text.split(/(\s+)/)) {
+      if (!part) continue;
+      const line = lines[lines.length - 1];
+      if (!part.trim()) {
+        if (line.length) {
+          const width = layout.pdf.getTextWidth(" ");
+          line.push({ run, text: " ", width });
+          lineWidth += width;
+        }
+        continue;
+      }
+      let word = part;
+      let width = layout.pdf.getTextWidth(word);
+      if (lineWidth + width > maxWidth && line.length) newLine();
+      // Words wider than the column (URLs, hashes) are split across lines
+      while (width > maxWidth && word.length > 1) {
+        let cut = word.length - 1;
+        while (cut > 1 && layout.pdf.getTextWidth(word.slice(0, cut)) > maxWidth - lineWidth) cut -= 1;
+        const head = word.slice(0, cut);
+        lines[lines.length - 1].push({ run, text: head, width: layout.pdf.getTextWidth(head) });
+        newLine();
+        word = word.slice(cut);
+        width = layout.pdf.getTextWidth(word);
+      }
+      lines[lines.length - 1].push({ run, text: word, width });
+      lineWidth += width;
+    }
+  }
+
+  const last = lines[lines.length - 1];
+  while (last.length && !last[last.length - 1].text.trim()) last.pop();
+  return lines;
+}
+
+function drawRuns(layout: PdfLayout, runs: Run[], context: BlockContext, size: number, lineHeight: number) {
+  const x0 = layout.left + context.indent;
+  const lines = breakLines(layout, runs, size, layout.pageWidth - layout.right - x0);
+  const { pdf } = layout;
+
+  for (const line of lines) {
+    ensureSpace(layout, lineHeight);
+    drawQuoteBars(layout, context, lineHeight);
+    const baseline = layout.y + size;
+    if (context.marker) {
+      applyFont(layout, { bold: false, italic: false, code: false }, size);
+      pdf.setTextColor(0, 0, 0);
+      const markerWidth = pdf.getTextWidth(context.marker.text);
+      pdf.text(context.marker.text, x0 - markerWidth - 6, baseline);
+      context.marker = null;
+    }
+    let x = x0;
+    for (const piece of line) {
+      applyFont(layout, piece.run, size);
+      if (piece.run.href) pdf.setTextColor(...LINK_COLOR);
+      else pdf.setTextColor(0, 0, 0);
+      pdf.text(piece.text, x, baseline);
+      if (piece.run.strike && piece.text.trim()) {
+        pdf.setDrawColor(0, 0, 0);
+        pdf.setLineWidth(Math.max(size / 18, 0.5));
+        pdf.line(x, baseline - size * 0.3, x + piece.width, baseline - size * 0.3);
+      }
+      if (piece.run.href) {
+        pdf.link(x, layout.y, piece.width, lineHeight, { url: piece.run.href });
+      }
+      x += piece.width;
+    }
+    layout.y += lineHeight;
+  }
+  pdf.setTextColor(0, 0, 0);
+}
+
+function drawCodeBlock(layout: PdfLayout, text: string, context: BlockContext) {
+  const { pdf } = layout;
+  const size = layout.fontSize * 0.85;
+  const lineHeight = size * 1.4;
+  const x0 = layout.left + context.indent;
+  const width = layout.pageWidth - layout.right - x0;
+  applyFont(layout, { bold: false, italic: false, code: true }, size);
+  const charWidth = pdf.getTextWidth("M");
+  const perLine = Math.max(Math.floor((width - 12) / charWidth), 1);
+
+  const lines = text.split("\n").flatMap((line) => {
+    if (line.length <= perLine) return [line];
+    const chunks: string[] = [];
+    for (let index = 0; index < line.length; index += perLine) chunks.push(line.slice(index, index + perLine));
+    return chunks;
+  });
+
+  layout.y += size * 0.3;
+  for (const line of lines) {
+    ensureSpace(layout, lineHeight);
+    drawQuoteBars(layout, context, lineHeight);
+    pdf.setFillColor(244, 244, 245);
+    pdf.rect(x0, layout.y, width, lineHeight, "F");
+    applyFont(layout, { bold: false, italic: false, code: true }, size);
+    pdf.text(line, x0 + 6, layout.y + size);
+    layout.y += lineHeight;
+  }
+  layout.y += layout.fontSize * 0.6;
+}
+
+function renderBlocks(layout: PdfLayout, blocks: ExportBlock[], context: BlockContext, tight = false) {
+  const base = layout.fontSize;
+
+  for (const block of blocks) {
+    switch (block.type) {
+      case "heading": {
+        const size = base * HEADING_SCALE[block.level - 1];
+        if (layout.y > layout.top) layout.y += size * 0.5;
+        // Keep a heading with at least the first lines of what follows it
+        ensureSpace(layout, size * 1.3 + base * 3);
+        drawRuns(layout, collectRuns(block.content, { bold: true, italic: context.italic }), context, size, size * 1.3);
+        layout.y += size * 0.35;
+        break;
+      }
+      case "paragraph":
+        drawRuns(layout, collectRuns(block.content, { italic: context.italic }), context, base, base * 1.45);
+        layout.y += tight ? base * 0.2 : base * 0.7;
+        break;
+      case "list":
+        block.items.forEach((item, index) => {
+          const itemContext: BlockContext = {
+            ...context,
+            indent: context.indent + LIST_INDENT,
+            marker: { text: block.ordered ? `${block.start + index}.` : "•" }
+          };
+          renderBlocks(layout, item, itemContext, block.tight);
+        });
+        layout.y += base * 0.4;
+        break;
+      case "blockquote":
+        renderBlocks(layout, block.children, {
+          ...context,
+          indent: context.indent + QUOTE_INDENT,
+          quoteDepth: context.quoteDepth + 1,
+          italic: true
+        });
+        break;
+      case "code":
+        drawCodeBlock(layout, block.text, context);
+        break;
+      case "rule": {
+        ensureSpace(layout, base * 1.5);
+        const y = layout.y + base * 0.75;
+        layout.pdf.setDrawColor(200, 200, 200);
+        layout.pdf.setLineWidth(0.75);
+        layout.pdf.line(layout.left + context.indent, y, layout.pageWidth - layout.right, y);
+        layout.y += base * 1.5;
+        break;
+      }
+    }
+  }
+}
+
+function fillPlaceholders(template: string, values: { page: number; pages: number; title: string }): string {
+  return template
+    .replace(/\{page\}/g, String(values.page))
+    .replace(/\{pages\}/g, String(values.pages))
+    .replace(/\{title\}/g, values.title);
+}
+
+function drawPageChrome(layout: PdfLayout, options: PdfExportOptions, title: string) {
+  const { pdf } = layout;
+  const pages = pdf.getNumberOfPages();
+  const size = Math.max(layout.fontSize * 0.75, 7);
+
+  for (let page = 1; page <= pages; page += 1) {
+    pdf.setPage(page);
+    applyFont(layout, { bold: false, italic: false, code: false }, size);
+    pdf.setTextColor(110, 110, 110);
+    const values = { page, pages, title };
+    if (options.header) {
+      pdf.text(fillPlaceholders(options.header, values), layout.pageWidth / 2, layout.top / 2 + size / 2, { align: "center" });
+    }
+    const footerY = layout.pageHeight - layout.bottom / 2 + size / 2;
+    if (options.footer) {
+      pdf.text(fillPlaceholders(options.footer, values), layout.left, footerY);
+    }
+    if (options.pageNumbers) {
+      pdf.text(`Page ${page} of ${pages}`, layout.pageWidth - layout.right, footerY, { align: "right" });
+    }
+  }
+  pdf.setTextColor(0, 0, 0);
+}
+
+/**
+ * Lays the export AST out on PDF pages with jsPDF's standard fonts. The document title is
+ * drawn above the content when set; header, footer and page numbers go in the margins.
+ */
+export function writePdf(document: ExportDocument, options: PdfExportOptions): ArrayBuffer {
+  const { title } = document;
+  const pdf = new jsPDF({ unit: "pt", format: options.pageSize });
+  const layout: PdfLayout = {
+    pdf,
+    font: options.font,
+    fontSize: options.fontSize,
+    y: 0,
+    pageWidth: pdf.internal.pageSize.getWidth(),
+    pageHeight: pdf.internal.pageSize.getHeight(),
+    top: options.margins.top ?? DEFAULT_MARGIN,
+    right: options.margins.right ?? DEFAULT_MARGIN,
+    bottom: options.margins.bottom ?? DEFAULT_MARGIN,
+    left: options.margins.left ?? DEFAULT_MARGIN
+  };
+  layout.y = layout.top;
+  const context: BlockContext = { indent: 0, quoteDepth: 0, italic: false, marker: null };
+
+  if (title) {
+    pdf.setProperties({ title });
+    const size = options.fontSize * 1.8;
+    drawRuns(layout, [{ text: title, bold: true, italic: false, strike: false, code: false, href: null }], context, size, size * 1.25);
+    layout.y += size * 0.5;
+  }
+
+  renderBlocks(layout, document.blocks, context);
+  drawPageChrome(layout, options, title ?? "");
+
+  return pdf.output("arraybuffer");
+}
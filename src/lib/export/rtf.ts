@@ -0,0 +1,105 @@
+import type { ExportBlock, ExportDocument, ExportInline } from "./ast";
+
+// Half-point sizes, matching the DOCX export's heading scale
+const HEADING_SIZES = [36, 30, 26, 24, 22, 22];
+const BODY_SIZE = 22;
+const LIST_INDENT = 360;
+const QUOTE_INDENT = 480;
+
+function escapeRtf(value: string): string {
+  let out = "";
+  for (let index = 0; index < value.length; index += 1) {
+    const char = value[index];
+    const code = value.charCodeAt(index);
+    if (char === "\\" || char === "{" || char === "}") {
+      out += `\\${char}`;
+    } else if (char === "\t") {
+      out += "\\tab ";
+    } else if (code > 0x7f) {
+      // \u takes a signed 16-bit UTF-16 unit; surrogate pairs are written unit by unit
+      out += `\\u${code > 0x7fff ? code - 0x10000 : code}?`;
+    } else {
+      out += char;
+    }
+  }
+  return out;
+}
+
+function renderInline(nodes: ExportInline[]): string {
+  return nodes
+    .map((node) => {
+      if (node.type === "break") return "\\line ";
+      const controls = [
+        node.marks.includes("bold") ? "\\b" : "",
+        node.marks.includes("italic") ? "\\i" : "",
+        node.marks.includes("strike") ? "\\strike" : "",
+        node.marks.includes("code") ? "\\f1" : "",
+        node.href ? "\\cf1\\ul" : ""
+      ].join("");
+      const run = `{${controls}${controls ? " " : ""}${escapeRtf(node.text)}}`;
+      if (!node.href) return run;
+      return `{\\field{\\*\\fldinst{HYPERLINK "${escapeRtf(node.href.replace(/"/g, "%22"))}"}}{\\fldrslt${run}}}`;
+    })
+    .join("");
+}
+
+type RtfContext = { indent: number; italic: boolean };
+
+function renderBlocks(blocks: ExportBlock[], context: RtfContext, tight = false, marker: string | null = null): string[] {
+  const paragraphs: string[] = [];
+  const spaceAfter = tight ? 60 : 160;
+  const style = context.italic ? "\\i" : "";
+
+  blocks.forEach((block, index) => {
+    // A list marker hangs off the first paragraph of its item
+    const lead = index === 0 && marker ? `\\fi-${LIST_INDENT} ${marker}\\tab ` : "";
+    const pard = `\\pard\\li${context.indent}`;
+    switch (block.type) {
+      case "heading":
+        paragraphs.push(`{${pard}\\sb240\\sa120\\b\\fs${HEADING_SIZES[block.level - 1]}${style} ${lead}${renderInline(block.content)}\\par}`);
+        break;
+      case "paragraph":
+        paragraphs.push(`{${pard}\\sa${spaceAfter}\\fs${BODY_SIZE}${style} ${lead}${renderInline(block.content)}\\par}`);
+        break;
+      case "list":
+        block.items.forEach((item, itemIndex) => {
+          const itemMarker = block.ordered ? `${block.start + itemIndex}.` : "\\bullet";
+          paragraphs.push(
+            ...renderBlocks(item, { ...context, indent: context.indent + LIST_INDENT }, block.tight, itemMarker)
+          );
+        });
+        break;
+      case "blockquote":
+        paragraphs.push(...renderBlocks(block.children, { indent: context.indent + QUOTE_INDENT, italic: true }));
+        break;
+      case "code":
+        paragraphs.push(
+          `{${pard}\\sa${spaceAfter}\\f1\\fs${BODY_SIZE - 2} ${lead}${block.text.split("\n").map(escapeRtf).join("\\line ")}\\par}`
+        );
+        break;
+      case "rule":
+        paragraphs.push(`{${pard}\\sa${spaceAfter}\\brdrb\\brdrs\\brdrw10\\brsp20 \\par}`);
+        break;
+    }
+  });
+  return paragraphs;
+}
+
+/** RTF 1.x with Times for body text, Courier New for code and a blue link colour. */
+export function writeRtf(document: ExportDocument): string {
+  const body = renderBlocks(document.blocks, { indent: 0, italic: false });
+  if (document.title) {
+    body.unshift(`{\\pard\\sa240\\b\\fs32 ${escapeRtf(document.title)}\\par}`);
+  }
+  return [
+    "{\\rtf1\\ansi\\ansicpg1252\\deff0",
+    "{\\fonttbl{\\f0\\froman Times New Roman;}{\\f1\\fmodern Courier New;}}",
+    "{\\colortbl;\\red29\\green78\\blue216;}",
+    document.title ? `{\\info{\\title ${escapeRtf(document.title)}}}` : "",
+    "\\fs22",
+    ...body,
+    "}"
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
@@ -0,0 +1,130 @@
+import type { Prisma, PrismaClient } from "@prisma/client";
+import { docxTitlePageSchema, type DocxTitlePage, type WorkspaceRole } from "@/lib/validators";
+import { canWriteWorkspace, resolveRecordRole, resolveWorkspaceScope, scopeWhere } from "@/lib/workspaces";
+import type { ExportTemplateSummary } from "@/types/writer";
+import type { DocxWriterOptions } from "./docx";
+
+export const exportTemplateSummarySelect = {
+  id: true,
+  name: true,
+  fileName: true,
+  byteSize: true,
+  isDefault: true,
+  titlePage: true,
+  createdAt: true,
+  ownerId: true,
+  workspaceId: true,
+  Persona: { select: { id: true, name: true } }
+} as const;
+
+type ExportTemplateSummaryRow = {
+  id: string;
+  name: string;
+  fileName: string;
+  byteSize: number;
+  isDefault: boolean;
+  titlePage: Prisma.JsonValue | null;
+  createdAt: Date;
+  Persona: Array<{ id: string; name: string | null }>;
+};
+
+export class ExportTemplateNotFoundError extends Error {}
+
+export function parseTitlePage(value: Prisma.JsonValue | null | undefined): DocxTitlePage | null {
+  const parsed = docxTitlePageSchema.safeParse(value);
+  return value && parsed.success ? parsed.data : null;
+}
+
+export function mapExportTemplateSummary(row: ExportTemplateSummaryRow, role: WorkspaceRole | null): ExportTemplateSummary {
+  return {
+    id: row.id,
+    name: row.name,
+    fileName: row.fileName,
+    byteSize: row.byteSize,
+    isDefault: row.isDefault,
+    titlePage: parseTitlePage(row.titlePage),
+    personas: row.Persona.map((persona) => ({ id: persona.id, name: persona.name || "Untitled persona" })),
+    createdAt: row.createdAt.toISOString(),
+    canEdit: canWriteWorkspace(role)
+  };
+}
+
+/** Clears `isDefault` on the other templates in the same workspace or personal space. */
+export function clearOtherDefaults(db: PrismaClient, template: { id: string; ownerId: string; workspaceId: string | null }) {
+  const sameScope = template.workspaceId
+    ? { workspaceId: template.workspaceId }
+    : { ownerId: template.ownerId, workspaceId: null };
+  return db.exportTemplate.updateMany({
+    where: { ...sameScope, id: { not: template.id }, isDefault: true },
+    data: { isDefault: false }
+  });
+}
+
+/**
+ * Points the given personas at the template and detaches any others that used it. Personas
+ * outside the template's scope are dropped, like source attachments.
+ */
+export async function replaceTemplatePersonas(
+  db: PrismaClient,
+  template: { id: string; ownerId: string; workspaceId: string | null },
+  personaIds: string[]
+) {
+  const sameScope = template.workspaceId
+    ? { workspaceId: template.workspaceId }
+    : { ownerId: template.ownerId, workspaceId: null };
+  await db.$transaction([
+    db.persona.updateMany({
+      where: { exportTemplateId: template.id, id: { notIn: personaIds } },
+      data: { exportTemplateId: null }
+    }),
+    db.persona.updateMany({
+      where: { ...sameScope, id: { in: personaIds } },
+      data: { exportTemplateId: template.id }
+    })
+  ]);
+}
+
+/**
+ * Picks the template a DOCX export uses: an explicit `templateId` (null for none), else the
+ * active persona's template, else the default template of the user's current workspace.
+ * Throws ExportTemplateNotFoundError when an explicit id is missing or not visible to the user.
+ */
+async function resolveExportTemplate(db: PrismaClient, userId: string, templateId: string | null | undefined) {
+  const select = { id: true, data: true, titlePage: true, ownerId: true, workspaceId: true } as const;
+  if (templateId === null) return null;
+
+  if (templateId) {
+    const template = await db.exportTemplate.findUnique({ where: { id: templateId }, select });
+    if (!template || !(await resolveRecordRole(db, template, userId))) {
+      throw new ExportTemplateNotFoundError("Export template not found.");
+    }
+    return template;
+  }
+
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: { Persona_User_activePersonaIdToPersona: { select: { ExportTemplate: { select } } } }
+  });
+  const personaTemplate = user?.Persona_User_activePersonaIdToPersona?.ExportTemplate;
+  if (personaTemplate) return personaTemplate;
+
+  const scope = await resolveWorkspaceScope(db, userId);
+  return db.exportTemplate.findFirst({
+    where: { ...scopeWhere(scope, userId), isDefault: true },
+    select,
+    orderBy: { updatedAt: "desc" }
+  });
+}
+
+/** DOCX writer options for a request: the resolved template's file and its title page, unless overridden. */
+export async function resolveDocxWriterOptions(
+  db: PrismaClient,
+  userId: string,
+  request: { templateId?: string | null; titlePage?: DocxTitlePage }
+): Promise<DocxWriterOptions> {
+  const template = await resolveExportTemplate(db, userId, request.templateId);
+  return {
+    template: template ? new Uint8Array(template.data) : null,
+    titlePage: request.titlePage ?? parseTitlePage(template?.titlePage)
+  };
+}
@@ -0,0 +1,39 @@
+import { inlinePlainText, type ExportBlock, type ExportDocument } from "./ast";
+
+export function blocksToText(blocks: ExportBlock[], indent = ""): string[] {
+  const chunks: string[] = [];
+  for (const block of blocks) {
+    switch (block.type) {
+      case "heading":
+      case "paragraph":
+        chunks.push(indent + inlinePlainText(block.content).replace(/\n/g, `\n${indent}`));
+        break;
+      case "list": {
+        const lines = block.items.map((item, index) => {
+          const marker = block.ordered ? `${block.start + index}. ` : "- ";
+          const body = blocksToText(item, " ".repeat(marker.length)).join(block.tight ? "\n" : "\n\n");
+          // The first line carries the marker in place of the item indent
+          return indent + marker + body.slice(marker.length).replace(/\n(?!\n)/g, `\n${indent}`);
+        });
+        chunks.push(lines.join(block.tight ? "\n" : "\n\n"));
+        break;
+      }
+      case "blockquote":
+        chunks.push(...blocksToText(block.children, `${indent}> `));
+        break;
+      case "code":
+        chunks.push(block.text.replace(/^/gm, indent));
+        break;
+      case "rule":
+        chunks.push(`${indent}----------`);
+        break;
+    }
+  }
+  return chunks;
+}
+
+/** Plain text: formatting dropped, lists keep simple markers and quotes keep "> ". */
+export function writeTxt(document: ExportDocument): string {
+  const body = blocksToText(document.blocks).join("\n\n");
+  return document.title ? `${document.title}\n\n${body}` : body;
+}
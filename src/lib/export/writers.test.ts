@@ -0,0 +1,202 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { exportFormats, pdfExportOptionsSchema } from "@/lib/validators";
+import { htmlToMarkdown } from "@/lib/document-import";
+import { EXPORT_FORMATS, exportFormatInfo, parseExportDocument, renderExport } from "./index";
+
+const options = { pdf: pdfExportOptionsSchema.parse({}) };
+
+const content = [
+  "## Headlines",
+  "",
+  '- Fast, "fresh" bread',
+  "- Café hours",
+  "",
+  "## Body",
+  "",
+  "Bake **daily** at [our shop](https://example.com) {now} \\ {later}.",
+  ""
+].join("\n");
+
+const document = parseExportDocument({ title: "Launch notes", content });
+
+async function renderText(format: (typeof exportFormats)[number]): Promise<string> {
+  const output = await renderExport(format, document, options);
+  assert.equal(typeof output, "string", `${format} should render as text`);
+  return output as string;
+}
+
+// Just enough RTF reading to get the visible text back: control words dropped, escapes decoded
+function rtfToText(rtf: string): string {
+  const body = rtf
+    .replace(/\{\\fonttbl(\{[^}]*\})*\}/, "")
+    .replace(/\{\\colortbl[^}]*\}/, "")
+    .replace(/\{\\info\{[^}]*\}\}/, "")
+    .replace(/\{\\\*\\fldinst\{[^}]*\}\}/g, "");
+  let text = "";
+  for (let index = 0; index < body.length; index += 1) {
+    const char = body[index];
+    if (char === "{" || char === "}" || char === "\n") continue;
+    if (char !== "\\") {
+      text += char;
+      continue;
+    }
+    const next = body[index + 1];
+    if (next === "\\" || next === "{" || next === "}") {
+      text += next;
+      index += 1;
+      continue;
+    }
+    // \uN is followed by a one-character fallback instead of a delimiting space
+    const control = /^\\(?:(u)(-?\d+)\?|([a-z]+)(-?\d+)? ?)/.exec(body.slice(index));
+    if (!control) continue;
+    const [match, unicode, value, word] = control;
+    if (unicode) text += String.fromCharCode(Number(value) < 0 ? Number(value) + 0x10000 : Number(value));
+    else if (word === "par" || word === "line") text += "\n";
+    else if (word === "tab") text += "\t";
+    else if (word === "bullet") text += "•";
+    index += match.length - 1;
+  }
+  return text;
+}
+
+function parseCsv(csv: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let index = 0; index < csv.length; index += 1) {
+    const char = csv[index];
+    if (quoted) {
+      if (char === '"' && csv[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\r" && csv[index + 1] === "\n") {
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+      index += 1;
+    } else {
+      cell += char;
+    }
+  }
+  return rows;
+}
+
+describe("export format registry", () => {
+  it("describes every export format once", () => {
+    assert.deepEqual(
+      EXPORT_FORMATS.map((entry) => entry.format).sort(),
+      [...exportFormats].sort()
+    );
+  });
+
+  it("maps each format to its MIME type and extension", () => {
+    const expected: Record<(typeof exportFormats)[number], [string, string]> = {
+      docx: ["docx", "application/vnd.openxmlformats-officedocument.wordprocessingml.document"],
+      pdf: ["pdf", "application/pdf"],
+      txt: ["txt", "text/plain; charset=utf-8"],
+      md: ["md", "text/markdown; charset=utf-8"],
+      html: ["html", "text/html; charset=utf-8"],
+      rtf: ["rtf", "application/rtf"],
+      odt: ["odt", "application/vnd.oasis.opendocument.text"],
+      epub: ["epub", "application/epub+zip"],
+      csv: ["csv", "text/csv; charset=utf-8"]
+    };
+    exportFormats.forEach((format) => {
+      const info = exportFormatInfo(format);
+      assert.equal(info.format, format);
+      assert.deepEqual([info.extension, info.mimeType], expected[format], format);
+    });
+  });
+
+  it("renders the binary formats with their file signatures", async () => {
+    const signatures = { docx: "PK", odt: "PK", epub: "PK", pdf: "%PDF" } as const;
+    for (const [format, signature] of Object.entries(signatures) as Array<[keyof typeof signatures, string]>) {
+      const output = await renderExport(format, document, options);
+      assert.ok(output instanceof ArrayBuffer, `${format} should render as binary`);
+      assert.equal(Buffer.from(output).subarray(0, signature.length).toString("latin1"), signature, format);
+    }
+  });
+});
+
+describe("text export writers", () => {
+  it("txt keeps the title, list markers and text without formatting", async () => {
+    assert.equal(
+      await renderText("txt"),
+      [
+        "Launch notes",
+        "",
+        "Headlines",
+        "",
+        '- Fast, "fresh" bread',
+        "- Café hours",
+        "",
+        "Body",
+        "",
+        "Bake daily at our shop {now} \\ {later}."
+      ].join("\n")
+    );
+  });
+
+  it("md prepends the title and parses back to the same document", async () => {
+    const markdown = await renderText("md");
+    assert.equal(markdown, `# Launch notes\n\n${content}`);
+    assert.deepEqual(parseExportDocument({ title: "Launch notes", content: markdown.replace(/^# Launch notes\n\n/, "") }), document);
+  });
+
+  it("html imports back to the same markdown", async () => {
+    const html = await renderText("html");
+    assert.match(html, /<title>Launch notes<\/title>/);
+    assert.match(html, /<li>Fast, &quot;fresh&quot; bread<\/li>/);
+    const imported = htmlToMarkdown(html);
+    assert.equal(imported.title, "Launch notes");
+    assert.equal(imported.markdown, `# Launch notes\n\n${content.trim()}`);
+  });
+
+  it("rtf escapes braces, backslashes and non-ASCII text so it reads back unchanged", async () => {
+    const rtf = await renderText("rtf");
+    assert.ok(rtf.startsWith("{\\rtf1"));
+    assert.match(rtf, /HYPERLINK "https:\/\/example\.com"/);
+    assert.deepEqual(
+      rtfToText(rtf)
+        .split("\n")
+        .filter((line) => line.trim()),
+      [
+        "Launch notes",
+        "Headlines",
+        '•\tFast, "fresh" bread',
+        "•\tCafé hours",
+        "Body",
+        "Bake daily at our shop {now} \\ {later}."
+      ]
+    );
+  });
+
+  it("csv gives one row per item under its heading with quoting and character counts", async () => {
+    const csv = await renderText("csv");
+    assert.ok(csv.startsWith("\uFEFF"), "csv should start with a byte order mark");
+    assert.deepEqual(parseCsv(csv.slice(1)), [
+      ["Field", "Item", "Text", "Characters"],
+      ["Headlines", "1", 'Fast, "fresh" bread', "19"],
+      ["Headlines", "2", "Café hours", "10"],
+      ["Body", "1", "Bake daily at our shop {now} \\ {later}.", "39"]
+    ]);
+  });
+
+  it("csv keeps formula-like text as plain text", async () => {
+    const output = await renderExport("csv", parseExportDocument({ title: null, content: "## =Total\n\n@SUM(A1:A9)" }), options);
+    assert.deepEqual(parseCsv((output as string).slice(1)).slice(1), [["'=Total", "1", "'@SUM(A1:A9)", "11"]]);
+  });
+});
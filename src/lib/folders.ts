@@ -0,0 +1,28 @@
+import type { PrismaClient } from "@prisma/client";
+
+/**
+ * Folder names are unique per space: a workspace, or one user's personal folders. MySQL treats
+ * NULL workspaceIds as distinct, so the unique index cannot catch personal duplicates and every
+ * create, rename or move checks here first.
+ */
+export async function folderNameTaken(
+  db: PrismaClient,
+  space: { ownerId: string; workspaceId: string | null },
+  name: string,
+  excludeFolderId?: string
+): Promise<boolean> {
+  const duplicate = await db.folder.findFirst({
+    where: {
+      ...(space.workspaceId ? { workspaceId: space.workspaceId } : { ownerId: space.ownerId, workspaceId: null }),
+      name,
+      ...(excludeFolderId ? { id: { not: excludeFolderId } } : {})
+    },
+    select: { id: true }
+  });
+  return Boolean(duplicate);
+}
+
+/** The folder grid lists recently used folders first, so filing documents bumps the folder. */
+export async function touchFolder(db: PrismaClient, folderId: string): Promise<void> {
+  await db.folder.update({ where: { id: folderId }, data: { updatedAt: new Date() } });
+}
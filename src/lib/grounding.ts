@@ -0,0 +1,172 @@
+import type { PrismaClient } from "@prisma/client";
+import { embedQueryText, findSimilarDocuments } from "@/lib/embeddings";
+import { getEmbeddingProvider } from "@/lib/llm";
+import { rankDocumentsForText } from "@/lib/search";
+import { markdownToPlainText } from "@/lib/utils";
+import { visibleDocumentsWhere, type WorkspaceScope } from "@/lib/workspaces";
+import type { GroundingSource } from "@/types/writer";
+
+const MAX_SOURCE_DOCUMENTS = 4;
+const PASSAGES_PER_DOCUMENT = 2;
+const PASSAGE_CHARS = 700;
+// Keeps the reference block well under the draft's own prompt budget
+const MAX_CONTEXT_CHARS = 4000;
+// Below this cosine score a document shares vocabulary at best, not facts
+const MIN_SIMILARITY = 0.2;
+
+const STOPWORDS = new Set(
+  "a an and are as at be but by for from has have how i in is it its me my of on or our so that the this to us was we what when which who will with write you your about into than then them they their".split(
+    " "
+  )
+);
+
+export type GroundingPassage = {
+  documentId: string;
+  title: string;
+  text: string;
+};
+
+export type GroundingContext = {
+  passages: GroundingPassage[];
+  sources: GroundingSource[];
+};
+
+function queryTerms(text: string): string[] {
+  const terms = text
+    .toLowerCase()
+    .split(/[^a-z0-9\u00c0-\u024f]+/)
+    .filter((term) => term.length > 2 && !STOPWORDS.has(term));
+  return Array.from(new Set(terms));
+}
+
+/** Splits a document into paragraph-aligned passages of at most roughly `maxChars`. */
+export function splitPassages(markdown: string, maxChars = PASSAGE_CHARS): string[] {
+  const paragraphs = markdownToPlainText(markdown)
+    .split(/\n{2,}/)
+    .map((paragraph) => paragraph.replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+
+  const passages: string[] = [];
+  let current = "";
+  paragraphs.forEach((paragraph) => {
+    if (current && current.length + paragraph.length + 1 > maxChars) {
+      passages.push(current);
+      current = "";
+    }
+    current = current ? `${current}\n${paragraph}` : paragraph;
+    while (current.length > maxChars) {
+      const cut = current.lastIndexOf(" ", maxChars);
+      const end = cut > maxChars / 2 ? cut : maxChars;
+      passages.push(current.slice(0, end).trim());
+      current = current.slice(end).trim();
+    }
+  });
+  if (current) passages.push(current);
+  return passages;
+}
+
+function scorePassage(passage: string, terms: string[]): number {
+  if (!terms.length) return 0;
+  const lower = passage.toLowerCase();
+  return terms.reduce((score, term) => (lower.includes(term) ? score + 1 : score), 0) / terms.length;
+}
+
+async function findCandidateDocumentIds(
+  db: PrismaClient,
+  params: { userId: string; scope: WorkspaceScope; query: string; folderId?: string | null; excludeId?: string | null }
+): Promise<string[]> {
+  const { userId, scope, query, folderId, excludeId } = params;
+  if (getEmbeddingProvider()) {
+    try {
+      const embedded = await embedQueryText(query);
+      if (embedded) {
+        const hits = await findSimilarDocuments(db, {
+          userId,
+          scope,
+          query: embedded,
+          excludeId,
+          folderId,
+          kind: "docs",
+          fields: ["content"],
+          limit: MAX_SOURCE_DOCUMENTS
+        });
+        const relevant = hits.filter((hit) => hit.score >= MIN_SIMILARITY);
+        if (relevant.length) return relevant.map((hit) => hit.documentId);
+      }
+    } catch (error) {
+      console.error("[grounding] embedding lookup failed; falling back to full-text", error);
+    }
+  }
+
+  const hits = await rankDocumentsForText(db, { userId, scope, text: query, folderId, excludeId, limit: MAX_SOURCE_DOCUMENTS });
+  if (hits.length || !folderId) return hits.map((hit) => hit.id);
+
+  // A small reference folder ("Product facts") is worth including even when nothing matches lexically
+  const recent = await db.document.findMany({
+    where: {
+      ...visibleDocumentsWhere(scope, userId),
+      styleTitle: null,
+      DocumentFolder: { some: { folderId } },
+      ...(excludeId ? { id: { not: excludeId } } : {})
+    },
+    select: { id: true },
+    orderBy: { updatedAt: "desc" },
+    take: MAX_SOURCE_DOCUMENTS
+  });
+  return recent.map((row: { id: string }) => row.id);
+}
+
+/**
+ * Retrieves the passages of the user's saved documents (or one folder's) most relevant to a
+ * compose prompt. Documents are found by embedding when a provider is configured, otherwise by
+ * full-text relevance; passages within them are ranked by prompt-term overlap.
+ */
+export async function retrieveGroundingContext(
+  db: PrismaClient,
+  params: { userId: string; scope: WorkspaceScope; query: string; folderId?: string | null; excludeId?: string | null }
+): Promise<GroundingContext> {
+  const ids = await findCandidateDocumentIds(db, params);
+  if (!ids.length) return { passages: [], sources: [] };
+
+  const rows = await db.document.findMany({
+    where: { id: { in: ids } },
+    select: { id: true, title: true, content: true }
+  });
+  const rowsById = new Map<string, { id: string; title: string; content: string }>(
+    rows.map((row: { id: string; title: string; content: string }) => [row.id, row])
+  );
+
+  const terms = queryTerms(params.query);
+  const passages: GroundingPassage[] = [];
+  const sources: GroundingSource[] = [];
+  let budget = MAX_CONTEXT_CHARS;
+
+  ids.forEach((id) => {
+    const row = rowsById.get(id);
+    if (!row || budget <= 0) return;
+    const ranked = splitPassages(row.content)
+      .map((text, index) => ({ text, index, score: scorePassage(text, terms) }))
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .slice(0, PASSAGES_PER_DOCUMENT)
+      // Keep the document's own order so the excerpts read naturally
+      .sort((a, b) => a.index - b.index);
+
+    let used = false;
+    ranked.forEach((passage) => {
+      if (budget <= 0) return;
+      const text = passage.text.slice(0, budget);
+      budget -= text.length;
+      passages.push({ documentId: row.id, title: row.title || "Untitled", text });
+      used = true;
+    });
+    if (used) sources.push({ id: row.id, kind: "document", title: row.title || "Untitled" });
+  });
+
+  return { passages, sources };
+}
+
+export function buildGroundingSection(passages: GroundingPassage[]): string {
+  if (!passages.length) return "";
+  const excerpts = passages.map((passage) => `From "${passage.title}":\n${passage.text}`).join("\n\n");
+  return `\n\nReference Material (excerpts from the user's own saved documents):\n${excerpts}\n\nTreat the reference material as the source of truth for product names, features, figures and claims. Use it to fill details that would otherwise stay in [brackets]; anything it does not cover still stays in [brackets]. Never contradict it or invent details beyond it, and do not mention or cite it in the copy.`;
+}
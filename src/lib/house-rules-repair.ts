@@ -0,0 +1,49 @@
+import type { LLMProvider } from "./llm";
+import { describeViolations, lintDraft, type HouseRuleOptions, type HouseRuleViolation } from "./house-rules";
+
+export type HouseRuleRepairResult = {
+  /** The repaired draft, or the original when the pass failed or did not reduce violations. */
+  text: string;
+  violations: HouseRuleViolation[];
+  fixed: number;
+  tokensUsed: number;
+};
+
+/**
+ * One rewrite pass over a draft the linter flagged. The model sees the exact spans and rules;
+ * its output is kept only if it lints cleaner than the original.
+ */
+export async function repairHouseRuleViolations(
+  draft: string,
+  violations: HouseRuleViolation[],
+  options: HouseRuleOptions & {
+    provider: LLMProvider;
+    systemPrompt: string;
+    maxOutputTokens: number;
+    signal?: AbortSignal;
+  }
+): Promise<HouseRuleRepairResult> {
+  const unchanged = { text: draft, violations, fixed: 0, tokensUsed: 0 };
+  if (!violations.length) return unchanged;
+
+  const response = await options.provider.generate({
+    task: "draft",
+    temperature: 0.3,
+    maxOutputTokens: options.maxOutputTokens,
+    messages: [
+      { role: "system", content: options.systemPrompt },
+      {
+        role: "user",
+        content: `Revise this draft so it breaks none of the house rules. Fix every flagged span below, rephrasing around it where needed, and keep everything else (facts, structure, markdown, [bracketed placeholders]) as it is.\n\nFlagged spans:\n${describeViolations(violations)}\n\nDraft:\n${draft}\n\nReturn only the revised draft in markdown.`
+      }
+    ],
+    signal: options.signal
+  });
+
+  const text = response.text.trim();
+  const remaining = text ? lintDraft(text, { avoidWords: options.avoidWords }) : violations;
+  if (!text || remaining.length >= violations.length) {
+    return { ...unchanged, tokensUsed: response.usage.totalTokens };
+  }
+  return { text, violations: remaining, fixed: violations.length - remaining.length, tokensUsed: response.usage.totalTokens };
+}
@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { describeViolations, lintDraft, parseAvoidWords } from "./house-rules";
+
+const ruleIds = (text: string, avoidWords?: string) => lintDraft(text, { avoidWords }).map((violation) => violation.ruleId);
+const triads = (text: string) =>
+  lintDraft(text)
+    .filter((violation) => violation.ruleId === "triad")
+    .map((violation) => violation.text);
+
+describe("triads", () => {
+  it("flags inline lists of three with a serial comma", () => {
+    assert.deepEqual(triads("We bake fresh bread, jam, and butter."), ["fresh bread, jam, and butter"]);
+    assert.deepEqual(triads("Pick one: red, green, or blue."), ["red, green, or blue"]);
+  });
+
+  it("does not count an introductory phrase as the first item", () => {
+    assert.deepEqual(triads("Yes, we can and will."), []);
+    assert.deepEqual(triads("In March, we shipped and celebrated."), []);
+    assert.deepEqual(triads("After launch, sales rose and churn fell."), []);
+    assert.deepEqual(triads("Call us today, or email and we will reply."), []);
+    assert.deepEqual(triads("In March, we shipped, and we celebrated."), []);
+  });
+
+  it("flags markdown lists with exactly three items", () => {
+    assert.deepEqual(triads("- One\n- Two\n- Three\n\nAfter."), ["- One\n- Two\n- Three"]);
+    assert.deepEqual(triads("1. One\n2. Two\n3. Three\n4. Four"), []);
+  });
+});
+
+describe("lintDraft", () => {
+  it("finds dashes, contrasts and stock phrasing in position order", () => {
+    assert.deepEqual(ruleIds("Let's delve in — it's not magic, but it's close."), ["ai-cliche", "dash", "not-but"]);
+    assert.deepEqual(ruleIds("Use butter instead of oil."), ["instead-of"]);
+    assert.deepEqual(ruleIds("Plain sentence, nothing wrong here."), []);
+  });
+
+  it("matches avoid words with common endings", () => {
+    assert.deepEqual(parseAvoidWords(" cheap, ,Cheap,robust "), ["cheap", "robust"]);
+    assert.deepEqual(ruleIds("Cheaper and robustly built.", "cheap, robust"), ["avoid-word", "avoid-word"]);
+  });
+
+  it("flags the later copy of a repeated four-word phrase", () => {
+    const violations = lintDraft("Fresh bread baked daily here. We sell fresh bread baked daily too.");
+    assert.deepEqual(
+      violations.map((violation) => violation.text),
+      ["fresh bread baked daily"]
+    );
+    assert.equal(describeViolations(violations), `- [repeated-phrase] "fresh bread baked daily": Repeats "fresh bread baked daily".`);
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * Deterministic checks for the house writing rules that compose and rewrite put in the system
+ * prompt. Pure string scanning, so it runs both in the editor and in API routes.
+ */
+
+export type HouseRuleId =
+  | "dash"
+  | "instead-of"
+  | "not-but"
+  | "emoji"
+  | "triad"
+  | "ai-cliche"
+  | "avoid-word"
+  | "repeated-phrase";
+
+export type HouseRuleViolation = {
+  ruleId: HouseRuleId;
+  message: string;
+  /** Offsets into the linted text, end exclusive. */
+  from: number;
+  to: number;
+  text: string;
+};
+
+export type HouseRuleOptions = {
+  /** Comma-separated words from `ComposerSettingsInput.avoidWords`. */
+  avoidWords?: string | null;
+};
+
+// One line per rule, reused as the fix instruction in the repair prompt
+export const HOUSE_RULES: Record<HouseRuleId, string> = {
+  dash: "Em and en dashes are not allowed; use commas, periods or colons.",
+  "instead-of": "Avoid \"X instead of Y\" phrasing.",
+  "not-but": "Avoid \"not X, but Y\" contrasts.",
+  emoji: "No emojis unless the brief asks for them.",
+  triad: "Avoid tidy groups of three; vary list lengths.",
+  "ai-cliche": "Cut stock AI phrasing.",
+  "avoid-word": "This word is on the brief's avoid list.",
+  "repeated-phrase": "This phrase repeats earlier copy."
+};
+
+const REPEAT_WINDOW = 4;
+const WORD = "[A-Za-z0-9'’-]+";
+
+const AI_CLICHES = [
+  "delve",
+  "delves",
+  "delving",
+  "tapestry",
+  "testament to",
+  "in today['’]s fast-paced world",
+  "fast-paced world",
+  "game[- ]changer",
+  "unlock the power",
+  "harness the power",
+  "elevate your",
+  "seamless",
+  "seamlessly",
+  "ever-evolving",
+  "navigate the complexities",
+  "in the realm of",
+  "embark on",
+  "look no further",
+  "cutting-edge",
+  "rest assured",
+  "it['’]s worth noting"
+];
+
+// "A, B, and C" with items of one or two words. The serial comma is required: with a single comma
+// the text before it is as often an introductory phrase ("In March, we shipped and celebrated")
+const TRIAD_PATTERN = new RegExp(`\\b${WORD}(?: ${WORD})?, (${WORD})(?: ${WORD})?, (?:and|or) (${WORD})(?: ${WORD})?\\b`, "g");
+
+// An item opening with one of these is a clause ("Yes, we can, and will"), not a list entry
+const CLAUSE_OPENERS = new Set("and but or so yet then i we you they he she it there".split(" "));
+
+const STOPWORDS = new Set(
+  "a an and are as at be but by for from has have i in is it its of on or our so that the this to was we with you your".split(" ")
+);
+
+const PATTERNS: Array<{ ruleId: HouseRuleId; pattern: RegExp }> = [
+  { ruleId: "dash", pattern: /[\u2013\u2014]|\s--\s/g },
+  { ruleId: "instead-of", pattern: new RegExp(`\\b${WORD}\\s+instead\\s+of\\s+${WORD}`, "gi") },
+  {
+    ruleId: "not-but",
+    pattern: new RegExp(`\\bnot\\s+(?:just\\s+|only\\s+|merely\\s+)?[^.!?;\\n]{1,80}?,?\\s+but\\s+(?:also\\s+|rather\\s+)?${WORD}`, "gi")
+  },
+  {
+    ruleId: "not-but",
+    pattern: new RegExp(`\\b(?:it|this|that)['’]?s\\s+not\\s+[^.!?\\n]{1,60}[.;]\\s+(?:it|this|that)['’]?s\\s+${WORD}`, "gi")
+  },
+  { ruleId: "emoji", pattern: /(?:\uD83C[\uDC00-\uDFFF]|\uD83D[\uDC00-\uDFFF]|\uD83E[\uDD00-\uDFFF]|[\u2600-\u27BF])\uFE0F?/g },
+  { ruleId: "ai-cliche", pattern: new RegExp(`\\b(?:${AI_CLICHES.join("|")})\\b`, "gi") }
+];
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export function parseAvoidWords(value: string | null | undefined): string[] {
+  const words = (value ?? "")
+    .split(/[,;\n]+/)
+    .map((word) => word.trim().toLowerCase())
+    .filter(Boolean);
+  return Array.from(new Set(words));
+}
+
+function matchAll(text: string, pattern: RegExp, ruleId: HouseRuleId, message: string): HouseRuleViolation[] {
+  const violations: HouseRuleViolation[] = [];
+  pattern.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    if (!match[0]) {
+      pattern.lastIndex += 1;
+      continue;
+    }
+    violations.push({ ruleId, message, from: match.index, to: match.index + match[0].length, text: match[0] });
+  }
+  return violations;
+}
+
+// Inline three-item lists, skipping matches whose second or third item is really a clause
+function findTriads(text: string): HouseRuleViolation[] {
+  const violations: HouseRuleViolation[] = [];
+  TRIAD_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = TRIAD_PATTERN.exec(text))) {
+    if ([match[1], match[2]].some((word) => CLAUSE_OPENERS.has(word.toLowerCase()))) {
+      TRIAD_PATTERN.lastIndex = match.index + 1;
+      continue;
+    }
+    violations.push({ ruleId: "triad", message: HOUSE_RULES.triad, from: match.index, to: match.index + match[0].length, text: match[0] });
+  }
+  return violations;
+}
+
+// Markdown lists with exactly three top-level items
+function findThreeItemLists(text: string): HouseRuleViolation[] {
+  const violations: HouseRuleViolation[] = [];
+  const lines = text.split("\n");
+  let offset = 0;
+  let run: { from: number; to: number; count: number } | null = null;
+  const flush = () => {
+    if (run && run.count === 3) {
+      violations.push({ ruleId: "triad", message: HOUSE_RULES.triad, from: run.from, to: run.to, text: text.slice(run.from, run.to) });
+    }
+    run = null;
+  };
+
+  lines.forEach((line) => {
+    if (/^(?:[-*+]|\d+[.)])\s+\S/.test(line)) {
+      if (run) {
+        run.count += 1;
+        run.to = offset + line.length;
+      } else {
+        run = { from: offset, to: offset + line.length, count: 1 };
+      }
+    } else if (line.trim() && !/^\s+\S/.test(line)) {
+      // Blank lines (loose lists) and indented continuations keep the list open
+      flush();
+    }
+    offset += line.length + 1;
+  });
+  flush();
+  return violations;
+}
+
+function findAvoidWords(text: string, avoidWords: string[]): HouseRuleViolation[] {
+  return avoidWords.flatMap((word) =>
+    matchAll(
+      text,
+      new RegExp(`\\b${escapeRegExp(word)}(?:s|es|ed|d|ing|ly|er|est)?\\b`, "gi"),
+      "avoid-word",
+      `"${word}" is on the brief's avoid list.`
+    )
+  );
+}
+
+// Later occurrences of any four-word run already used, merged into one range per repeat
+function findRepeatedPhrases(text: string): HouseRuleViolation[] {
+  const words: Array<{ word: string; from: number; to: number }> = [];
+  const pattern = /[A-Za-z0-9'’]+/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    words.push({ word: match[0].toLowerCase().replace(/’/g, "'"), from: match.index, to: match.index + match[0].length });
+  }
+
+  const firstSeen = new Map<string, number>();
+  const ranges: Array<{ from: number; to: number }> = [];
+  for (let index = 0; index + REPEAT_WINDOW <= words.length; index += 1) {
+    const window = words.slice(index, index + REPEAT_WINDOW);
+    if (window.filter((entry) => !STOPWORDS.has(entry.word)).length < 2) continue;
+    const key = window.map((entry) => entry.word).join(" ");
+    const first = firstSeen.get(key);
+    if (first === undefined) {
+      firstSeen.set(key, index);
+      continue;
+    }
+    // A window overlapping its own first occurrence is a stutter, not a repeat
+    if (index - first < REPEAT_WINDOW) continue;
+    const from = window[0].from;
+    const to = window[REPEAT_WINDOW - 1].to;
+    const last = ranges[ranges.length - 1];
+    if (last && from <= last.to) {
+      last.to = Math.max(last.to, to);
+    } else {
+      ranges.push({ from, to });
+    }
+  }
+
+  return ranges.map((range) => {
+    const phrase = text.slice(range.from, range.to);
+    return { ruleId: "repeated-phrase" as const, message: `Repeats "${phrase}".`, from: range.from, to: range.to, text: phrase };
+  });
+}
+
+/** Scans a draft (markdown or plain text) for house-rule violations, ordered by position. */
+export function lintDraft(text: string, options: HouseRuleOptions = {}): HouseRuleViolation[] {
+  const violations = [
+    ...PATTERNS.flatMap(({ ruleId, pattern }) => matchAll(text, pattern, ruleId, HOUSE_RULES[ruleId])),
+    ...findTriads(text),
+    ...findThreeItemLists(text),
+    ...findAvoidWords(text, parseAvoidWords(options.avoidWords)),
+    ...findRepeatedPhrases(text)
+  ];
+  return violations.sort((a, b) => a.from - b.from || a.to - b.to);
+}
+
+/** The violation list as prompt lines for a repair pass. */
+export function describeViolations(violations: HouseRuleViolation[]): string {
+  return violations
+    .map((violation) => `- [${violation.ruleId}] "${violation.text.replace(/\s+/g, " ").slice(0, 160)}": ${violation.message}`)
+    .join("\n");
+}
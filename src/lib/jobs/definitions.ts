@@ -0,0 +1,47 @@
+import type { PrismaClient } from "@prisma/client";
+import type { z } from "zod";
+import type { JobRow } from "./queue";
+import type { JobKind } from "./types";
+
+export type JobContext<Payload> = {
+  db: PrismaClient;
+  job: JobRow;
+  payload: Payload;
+  /** Fires when the owner cancels the job or the worker loses its lock. */
+  signal: AbortSignal;
+  /** Stores kind-specific progress for `/api/jobs/[id]` readers; writes are applied in order. */
+  reportProgress: (progress: Record<string, unknown>) => Promise<void>;
+};
+
+export type JobOutcome = {
+  result?: Record<string, unknown> | null;
+  /** The document the job wrote, linked on the job row. */
+  documentId?: string | null;
+  artifact?: { data: Buffer; filename: string } | null;
+};
+
+/** Refuses a job before it is queued; surfaced by `POST /api/jobs` with `status`. */
+export class JobRequestError extends Error {
+  constructor(
+    message: string,
+    readonly status = 400,
+    readonly details: Record<string, unknown> = {}
+  ) {
+    super(message);
+  }
+}
+
+export type JobDefinition<Payload> = {
+  kind: JobKind;
+  /** Validates the request input, and the stored payload again when a worker picks it up. */
+  inputSchema: z.ZodType<Payload, z.ZodTypeDef, unknown>;
+  maxAttempts: number;
+  /** Stored as the job's error when a run fails for a reason the user cannot act on. */
+  failureMessage: string;
+  /**
+   * Runs in the enqueuing request: access and allowance checks worth refusing up front.
+   * Returns the document the job will write, if any.
+   */
+  prepare?: (db: PrismaClient, userId: string, payload: Payload) => Promise<{ documentId?: string | null } | void>;
+  run: (context: JobContext<Payload>) => Promise<JobOutcome>;
+};
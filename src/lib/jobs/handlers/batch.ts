@@ -0,0 +1,200 @@
+import { randomUUID } from "crypto";
+import type { PrismaClient } from "@prisma/client";
+import { batchComposeRequestSchema, type BatchComposeRequest } from "@/lib/validators";
+import { smartTitleFromPrompt } from "@/lib/utils";
+import { getLLMProvider } from "@/lib/llm";
+import { creationWorkspaceId, resolveWorkspaceScope } from "@/lib/workspaces";
+import { indexDocumentEmbeddings } from "@/lib/embeddings";
+import { folderNameTaken, touchFolder } from "@/lib/folders";
+import { buildComposePrompts } from "@/lib/compose-prompt";
+import { loadComposeContext } from "@/lib/compose-context";
+import { channelPreset } from "@/lib/channel-presets";
+import { autofillPlaceholders, syncPlaceholders } from "@/lib/placeholders";
+import { incrementTokenUsage, tokenAllowanceReached } from "@/lib/token-usage";
+import { renderTemplate, unknownTemplateVariables } from "@/lib/batch";
+import { composeBatchDraft, runWithConcurrency, withRetries } from "@/lib/batch-compose";
+import { JobRequestError, type JobDefinition } from "../definitions";
+import { PermanentJobError } from "../queue";
+import type { BatchJobProgress } from "../types";
+
+// Folder names are unique per space, so a rerun with the same name gets a numbered folder
+async function createBatchFolder(db: PrismaClient, userId: string, folderName: string) {
+  const workspaceId = creationWorkspaceId(await resolveWorkspaceScope(db, userId));
+  let name = folderName;
+  for (let suffix = 2; ; suffix += 1) {
+    if (!(await folderNameTaken(db, { ownerId: userId, workspaceId }, name))) break;
+    name = `${folderName.slice(0, 112)} (${suffix})`;
+  }
+  const folder = await db.folder.create({
+    data: { id: randomUUID(), name, ownerId: userId, workspaceId, updatedAt: new Date() }
+  });
+  return { id: folder.id, name: folder.name, workspaceId };
+}
+
+// A retried job keeps its folder and the rows that already produced a document
+function resumeProgress(previous: unknown, total: number): BatchJobProgress {
+  const saved = previous as BatchJobProgress | null;
+  const rows: BatchJobProgress["rows"] = Array.from({ length: total }, (_, index) => {
+    const row = saved?.rows?.[index];
+    return row?.status === "done" ? row : { status: "queued", attempts: 0, documentId: null, title: null, error: null };
+  });
+  return {
+    folder: saved?.folder ?? null,
+    total,
+    completed: rows.filter((row) => row.status === "done").length,
+    failed: 0,
+    rows
+  };
+}
+
+/**
+ * Mail merge: one document per CSV row from a `{{column}}` template, filed in a new folder.
+ * Rows run `concurrency` at a time with per-row retries; progress lists every row's status and
+ * document. Rows finished before a cancel stay saved; once the token allowance runs out, the rows
+ * not yet started are skipped.
+ */
+export const batchJob: JobDefinition<BatchComposeRequest> = {
+  kind: "batch",
+  inputSchema: batchComposeRequestSchema,
+  // Rows already retry on their own; a second run only resumes after a lost worker
+  maxAttempts: 2,
+  failureMessage: "Batch generation failed.",
+  async prepare(_db, userId, input) {
+    const unknownColumns = unknownTemplateVariables(`${input.template}\n${input.titleTemplate ?? ""}`, input.columns);
+    if (unknownColumns.length) {
+      throw new JobRequestError(`The template uses columns the CSV does not have: ${unknownColumns.join(", ")}.`);
+    }
+    if (await tokenAllowanceReached({ userId })) {
+      throw new JobRequestError("Token allowance reached. Please upgrade to continue.", 403, { requireUpgrade: true });
+    }
+  },
+  async run({ db, job, payload, signal, reportProgress }) {
+    const { folderName, template, titleTemplate, columns, rows, settings, personaSummary, styleGuide, personaId, repairRules, concurrency } =
+      payload;
+    const userId = job.ownerId;
+    if (await tokenAllowanceReached({ userId })) {
+      throw new PermanentJobError("Token allowance reached. Please upgrade to continue.");
+    }
+    const llm = getLLMProvider();
+    const channel = channelPreset(settings.channelPreset);
+    // Retrieved once for the whole batch: the template is the shared part of every row's prompt
+    const { personaInfo, personaFacts, groundingSection } = await loadComposeContext(db, {
+      userId,
+      query: template,
+      personaSummary,
+      personaId
+    });
+
+    const progress = resumeProgress(job.progress, rows.length);
+    let workspaceId: string | null = null;
+    if (progress.folder) {
+      const existing = await db.folder.findUnique({ where: { id: progress.folder.id }, select: { workspaceId: true } });
+      if (!existing) throw new PermanentJobError("The batch folder was deleted.");
+      workspaceId = existing.workspaceId;
+    } else {
+      const created = await createBatchFolder(db, userId, folderName);
+      progress.folder = { id: created.id, name: created.name };
+      workspaceId = created.workspaceId;
+    }
+    const folder = progress.folder;
+    await reportProgress(progress);
+
+    const pending = progress.rows.flatMap((row, index) => (row.status === "done" ? [] : [index]));
+    // Usage is recorded row by row, so the allowance check sees it before the next row starts
+    let allowanceReached = false;
+    try {
+      await runWithConcurrency(
+        pending.length,
+        concurrency,
+        async (position) => {
+          const index = pending[position];
+          if (allowanceReached) {
+            progress.rows[index] = { ...progress.rows[index], status: "skipped", error: "Token allowance reached." };
+            await reportProgress(progress);
+            return;
+          }
+          const row = rows[index];
+          const prompt = renderTemplate(template, row, columns);
+          const prompts = buildComposePrompts({ prompt, settings, personaInfo, styleGuide, groundingSection, channel: Boolean(channel) });
+          try {
+            const draft = await withRetries(
+              (attempt) => {
+                progress.rows[index] = { ...progress.rows[index], status: "running", attempts: attempt };
+                void reportProgress(progress);
+                return composeBatchDraft(prompts, {
+                  provider: llm,
+                  channel,
+                  constraints: channel ? {} : settings,
+                  repair: repairRules && !channel ? { avoidWords: settings.avoidWords } : null,
+                  signal
+                });
+              },
+              {
+                signal,
+                onRetry: (attempt, error) => console.warn("[jobs][batch] row", index, "attempt", attempt, "failed; retrying", error)
+              }
+            );
+            if (draft.tokensUsed > 0) {
+              try {
+                await incrementTokenUsage({ userId }, draft.tokensUsed);
+              } catch (error) {
+                console.error("[jobs][batch] token usage increment failed", error);
+              }
+              allowanceReached = await tokenAllowanceReached({ userId });
+            }
+
+            const title = (titleTemplate?.trim() ? renderTemplate(titleTemplate, row, columns).trim() : "") || smartTitleFromPrompt(prompt);
+            const placeholders = autofillPlaceholders(syncPlaceholders(draft.content), personaFacts).placeholders;
+            const document = await db.document.create({
+              data: {
+                id: randomUUID(),
+                title,
+                content: draft.content,
+                tone: settings.marketTier ?? undefined,
+                prompt,
+                characterLength: settings.characterLength ?? undefined,
+                wordLength: settings.wordLength ?? undefined,
+                gradeLevel: settings.gradeLevel ?? undefined,
+                benchmark: settings.benchmark ?? undefined,
+                avoidWords: settings.avoidWords ?? undefined,
+                channelPreset: channel?.id,
+                placeholders: Object.keys(placeholders).length ? placeholders : undefined,
+                ownerId: userId,
+                workspaceId,
+                updatedAt: new Date(),
+                DocumentFolder: { create: { folderId: folder.id } }
+              }
+            });
+            try {
+              await indexDocumentEmbeddings(db, document.id);
+            } catch (error) {
+              console.error("[embeddings] indexing failed", { documentId: document.id, error });
+            }
+            progress.rows[index] = { ...progress.rows[index], status: "done", documentId: document.id, title, error: null };
+            progress.completed += 1;
+          } catch (error) {
+            if (signal.aborted) {
+              progress.rows[index] = { ...progress.rows[index], status: "queued" };
+              return;
+            }
+            console.error("[jobs][batch] row failed", index, error);
+            progress.rows[index] = { ...progress.rows[index], status: "failed", error: "Unable to generate this row." };
+            progress.failed += 1;
+          }
+          await reportProgress(progress);
+        },
+        signal
+      );
+    } finally {
+      try {
+        await touchFolder(db, folder.id);
+      } catch (error) {
+        console.error("[jobs][batch] folder touch failed", error);
+      }
+    }
+
+    await reportProgress(progress);
+    const skipped = progress.rows.filter((row) => row.status === "skipped").length;
+    return { result: { folderId: folder.id, completed: progress.completed, failed: progress.failed, skipped, total: rows.length } };
+  }
+};
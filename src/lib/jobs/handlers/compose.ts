@@ -0,0 +1,122 @@
+import { randomUUID } from "crypto";
+import { composeJobSchema, type ComposeJobInput } from "@/lib/validators";
+import { smartTitleFromPrompt } from "@/lib/utils";
+import { getLLMProvider } from "@/lib/llm";
+import { creationWorkspaceId, resolveRecordRole, resolveWorkspaceScope } from "@/lib/workspaces";
+import { indexDocumentEmbeddings } from "@/lib/embeddings";
+import { buildComposePrompts } from "@/lib/compose-prompt";
+import { loadComposeContext } from "@/lib/compose-context";
+import { channelPreset } from "@/lib/channel-presets";
+import { autofillPlaceholders, syncPlaceholders } from "@/lib/placeholders";
+import { incrementTokenUsage, tokenAllowanceReached } from "@/lib/token-usage";
+import { composeBatchDraft } from "@/lib/batch-compose";
+import { JobRequestError, type JobDefinition } from "../definitions";
+import { PermanentJobError } from "../queue";
+import { extractWritingStyle } from "./style";
+
+/**
+ * A single compose that outlives the tab: the draft (with the same repair and length passes as
+ * the streaming route) is saved as a new document, then its style metadata is added.
+ */
+export const composeJob: JobDefinition<ComposeJobInput> = {
+  kind: "compose",
+  inputSchema: composeJobSchema,
+  maxAttempts: 3,
+  failureMessage: "Unable to compose the draft.",
+  async prepare(db, userId, input) {
+    if (input.folderId) {
+      const folder = await db.folder.findUnique({ where: { id: input.folderId } });
+      if (!folder || !(await resolveRecordRole(db, folder, userId))) {
+        throw new JobRequestError("Folder not found.", 404);
+      }
+    }
+    if (await tokenAllowanceReached({ userId })) {
+      throw new JobRequestError("Token allowance reached. Please upgrade to continue.", 403, { requireUpgrade: true });
+    }
+  },
+  async run({ db, job, payload, signal, reportProgress }) {
+    const { prompt, settings, personaSummary, styleGuide, grounding, personaId, repairRules, folderId } = payload;
+    const userId = job.ownerId;
+    if (await tokenAllowanceReached({ userId })) {
+      throw new PermanentJobError("Token allowance reached. Please upgrade to continue.");
+    }
+    const llm = getLLMProvider();
+    const channel = channelPreset(settings.channelPreset);
+
+    await reportProgress({ status: "Drafting" });
+    const { personaInfo, personaFacts, groundingSection } = await loadComposeContext(db, {
+      userId,
+      query: prompt,
+      personaSummary,
+      personaId,
+      grounding
+    });
+    const prompts = buildComposePrompts({ prompt, settings, personaInfo, styleGuide, groundingSection, channel: Boolean(channel) });
+    const draft = await composeBatchDraft(prompts, {
+      provider: llm,
+      channel,
+      constraints: channel ? {} : settings,
+      repair: repairRules && !channel ? { avoidWords: settings.avoidWords } : null,
+      signal
+    });
+    let tokensUsed = draft.tokensUsed;
+
+    // The folder may have been deleted or unshared while the job waited
+    const folder = folderId ? await db.folder.findUnique({ where: { id: folderId } }) : null;
+    const fileInFolder = Boolean(folder && (await resolveRecordRole(db, folder, userId)));
+    const placeholders = autofillPlaceholders(syncPlaceholders(draft.content), personaFacts).placeholders;
+    const title = smartTitleFromPrompt(prompt);
+    const document = await db.document.create({
+      data: {
+        id: randomUUID(),
+        title,
+        content: draft.content,
+        tone: settings.marketTier ?? undefined,
+        prompt,
+        characterLength: settings.characterLength ?? undefined,
+        wordLength: settings.wordLength ?? undefined,
+        gradeLevel: settings.gradeLevel ?? undefined,
+        benchmark: settings.benchmark ?? undefined,
+        avoidWords: settings.avoidWords ?? undefined,
+        channelPreset: channel?.id,
+        placeholders: Object.keys(placeholders).length ? placeholders : undefined,
+        ownerId: userId,
+        workspaceId: creationWorkspaceId(await resolveWorkspaceScope(db, userId)),
+        updatedAt: new Date(),
+        ...(fileInFolder && folderId ? { DocumentFolder: { create: { folderId } } } : {})
+      }
+    });
+
+    // The draft is saved at this point; style metadata is best-effort, like the streaming route's
+    await reportProgress({ status: "Analyzing style", documentId: document.id });
+    try {
+      const style = await extractWritingStyle(draft.content, { provider: llm, signal });
+      tokensUsed += style.tokensUsed;
+      if (style.writingStyle || style.styleTitle || style.styleSummary) {
+        await db.document.update({
+          where: { id: document.id },
+          data: {
+            writingStyle: style.writingStyle ?? undefined,
+            styleSummary: style.styleSummary ?? undefined,
+            styleTitle: style.styleTitle ?? undefined
+          }
+        });
+      }
+    } catch (error) {
+      console.error("[jobs][compose] style metadata failed", error);
+    }
+    try {
+      await indexDocumentEmbeddings(db, document.id);
+    } catch (error) {
+      console.error("[embeddings] indexing failed", { documentId: document.id, error });
+    }
+    try {
+      await incrementTokenUsage({ userId }, tokensUsed);
+    } catch (error) {
+      console.error("[jobs][compose] token usage increment failed", error);
+    }
+
+    console.log("[jobs][compose] document saved:", document.id, "title:", title);
+    return { documentId: document.id, result: { documentId: document.id, title } };
+  }
+};
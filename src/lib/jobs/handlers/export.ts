@@ -0,0 +1,57 @@
+import { bulkExportRequestSchema, type BulkExportRequest } from "@/lib/validators";
+import { generateDownloadFilename } from "@/lib/utils";
+import { buildExportArchive, loadBulkExportDocuments, unresolvedExportError } from "@/lib/export/bulk";
+import { ExportTemplateNotFoundError, resolveDocxWriterOptions } from "@/lib/export/templates";
+import { JobRequestError, type JobDefinition } from "../definitions";
+import { PermanentJobError } from "../queue";
+
+/**
+ * The bulk export ZIP built off-request and kept on the job as its artifact. The same checks as
+ * `POST /api/export/bulk` refuse the job up front, including the unfilled-placeholder 409.
+ */
+export const exportJob: JobDefinition<BulkExportRequest> = {
+  kind: "export",
+  inputSchema: bulkExportRequestSchema,
+  maxAttempts: 2,
+  failureMessage: "Unable to export documents.",
+  async prepare(db, userId, input) {
+    const loaded = await loadBulkExportDocuments(db, userId, input);
+    if (!loaded) {
+      throw new JobRequestError("Folder not found.", 404);
+    }
+    if (!loaded.documents.length) {
+      throw new JobRequestError("No documents to export.", 404);
+    }
+    const blocked = loaded.documents.filter((document) => document.unresolved.length);
+    if (blocked.length && !input.allowUnresolved) {
+      const { error, unresolved } = unresolvedExportError(blocked);
+      throw new JobRequestError(error, 409, { unresolved });
+    }
+  },
+  async run({ db, job, payload, reportProgress }) {
+    const userId = job.ownerId;
+    const loaded = await loadBulkExportDocuments(db, userId, payload);
+    if (!loaded?.documents.length) {
+      throw new PermanentJobError("There are no documents left to export.");
+    }
+    const { label, documents } = loaded;
+
+    await reportProgress({ status: "Rendering", total: documents.length });
+    let docx;
+    try {
+      docx = payload.format === "docx" ? await resolveDocxWriterOptions(db, userId, payload.docx) : undefined;
+    } catch (error) {
+      if (error instanceof ExportTemplateNotFoundError) throw new PermanentJobError(error.message);
+      throw error;
+    }
+    const zip = await buildExportArchive({ documents, format: payload.format, pdf: payload.pdf, docx, label });
+    const data = await zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+    const filename = generateDownloadFilename(label ?? "Documents", "", "zip");
+
+    console.log("[jobs][export] exported", documents.length, "documents for user", userId, { format: payload.format });
+    return {
+      artifact: { data, filename },
+      result: { documentCount: documents.length, byteSize: data.length, format: payload.format }
+    };
+  }
+};
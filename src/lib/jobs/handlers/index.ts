@@ -0,0 +1,13 @@
+import type { JobDefinition } from "../definitions";
+import type { JobKind } from "../types";
+import { batchJob } from "./batch";
+import { composeJob } from "./compose";
+import { exportJob } from "./export";
+import { styleJob } from "./style";
+
+export const jobDefinitions: Record<JobKind, JobDefinition<any>> = {
+  compose: composeJob,
+  batch: batchJob,
+  style: styleJob,
+  export: exportJob
+};
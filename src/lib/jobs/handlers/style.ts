@@ -0,0 +1,110 @@
+import { styleJobSchema, type StyleJobInput } from "@/lib/validators";
+import { getLLMProvider, type LLMProvider } from "@/lib/llm";
+import { stripMarkdownFromTitle } from "@/lib/utils";
+import { canEditDocument, resolveDocumentAccess } from "@/lib/document-access";
+import { indexDocumentEmbeddings } from "@/lib/embeddings";
+import { describeWritingStyle, generateStyleMetadata } from "@/lib/style-metadata";
+import { incrementTokenUsage } from "@/lib/token-usage";
+import { JobRequestError, type JobDefinition } from "../definitions";
+import { PermanentJobError } from "../queue";
+import type { StyleJobProgress } from "../types";
+
+export type ExtractedStyle = {
+  writingStyle: string | null;
+  styleTitle: string | null;
+  styleSummary: string | null;
+  tokensUsed: number;
+};
+
+/**
+ * The style description (unless one is passed in), then a title and summary for it. The
+ * description call throws so a job can retry it; metadata is best-effort.
+ */
+export async function extractWritingStyle(
+  content: string,
+  options: {
+    provider: LLMProvider;
+    writingStyle?: string | null;
+    signal?: AbortSignal;
+    onStep?: (progress: StyleJobProgress) => void | Promise<void>;
+  }
+): Promise<ExtractedStyle> {
+  let writingStyle = options.writingStyle?.trim() || null;
+  let tokensUsed = 0;
+  if (!writingStyle && content.trim()) {
+    await options.onStep?.({ progress: 40, status: "Analyzing style", step: `Analyzing writing style (${content.length} chars)...` });
+    const description = await describeWritingStyle(content, { provider: options.provider, signal: options.signal });
+    writingStyle = description.writingStyle;
+    tokensUsed += description.tokensUsed;
+  }
+
+  await options.onStep?.({ progress: 65, status: "Generating metadata", step: "Generating style title and summary..." });
+  const metadata = await generateStyleMetadata({ writingStyle, content }, { provider: options.provider });
+  tokensUsed += metadata.tokensUsed;
+  return { writingStyle, styleTitle: metadata.styleTitle, styleSummary: metadata.styleSummary, tokensUsed };
+}
+
+/** Writes a style description, title and summary onto a saved document. */
+export const styleJob: JobDefinition<StyleJobInput> = {
+  kind: "style",
+  inputSchema: styleJobSchema,
+  maxAttempts: 3,
+  failureMessage: "Unable to analyze the writing style.",
+  async prepare(db, userId, input) {
+    if (!canEditDocument(await resolveDocumentAccess(db, input.documentId, userId))) {
+      throw new JobRequestError("Document not found", 404);
+    }
+    return { documentId: input.documentId };
+  },
+  async run({ db, job, payload, signal, reportProgress }) {
+    const userId = job.ownerId;
+    if (!canEditDocument(await resolveDocumentAccess(db, payload.documentId, userId))) {
+      throw new PermanentJobError("The document was deleted or is no longer shared with you.");
+    }
+    const document = await db.document.findUnique({
+      where: { id: payload.documentId },
+      select: { title: true, content: true, writingStyle: true }
+    });
+    if (!document) {
+      throw new PermanentJobError("The document was deleted.");
+    }
+
+    const style = await extractWritingStyle(document.content, {
+      provider: getLLMProvider(),
+      writingStyle: document.writingStyle,
+      signal,
+      onStep: (progress) => reportProgress(progress)
+    });
+    const styleTitle = style.styleTitle ? stripMarkdownFromTitle(style.styleTitle).trim().slice(0, 100) || null : null;
+
+    await reportProgress({ progress: 90, status: "Saving", step: "Saving style to the document..." } satisfies StyleJobProgress);
+    await db.document.update({
+      where: { id: payload.documentId },
+      data: {
+        writingStyle: style.writingStyle ?? undefined,
+        styleSummary: style.styleSummary ?? undefined,
+        styleTitle: styleTitle ?? undefined,
+        ...(payload.titleFromStyle && styleTitle ? { title: styleTitle } : {}),
+        updatedAt: new Date()
+      }
+    });
+    try {
+      await indexDocumentEmbeddings(db, payload.documentId);
+    } catch (error) {
+      console.error("[embeddings] indexing failed", { documentId: payload.documentId, error });
+    }
+    if (style.tokensUsed > 0) {
+      try {
+        await incrementTokenUsage({ userId }, style.tokensUsed);
+      } catch (error) {
+        console.error("[jobs][style] token usage increment failed", error);
+      }
+    }
+
+    await reportProgress({ progress: 100, status: "Complete", step: `Style saved: "${styleTitle ?? document.title}"` } satisfies StyleJobProgress);
+    return {
+      documentId: payload.documentId,
+      result: { styleTitle, styleSummary: style.styleSummary }
+    };
+  }
+};
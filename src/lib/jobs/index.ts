@@ -0,0 +1,79 @@
+import type { PrismaClient } from "@prisma/client";
+import { JobRequestError } from "./definitions";
+import { jobDefinitions } from "./handlers";
+import { createWorkerId, enqueueJob, nextQueuedJobDue, type JobRow } from "./queue";
+import { drainJobs } from "./worker";
+import type { JobKind } from "./types";
+
+export { JobRequestError } from "./definitions";
+
+/**
+ * `JOB_RUNNER=worker` leaves jobs to `npm run jobs:worker`; otherwise (the default, for local
+ * development) the web server drains the queue itself after each enqueue.
+ */
+const INLINE_RUNNER = process.env.JOB_RUNNER !== "worker";
+
+const inlineRunner = globalThis as unknown as {
+  jobDrain?: Promise<void> | null;
+  jobDrainAgain?: boolean;
+  jobDrainTimer?: ReturnType<typeof setTimeout> | null;
+  jobWorkerId?: string;
+};
+
+/**
+ * Starts draining the queue in this process unless a drain is already running or jobs run in a
+ * separate worker. Retries waiting out their backoff are picked up by a timer. Job routes call
+ * this too, so a restarted server resumes queued work as soon as anyone checks on it.
+ */
+export function ensureJobRunner(db: PrismaClient) {
+  if (!INLINE_RUNNER) return;
+  if (inlineRunner.jobDrain) {
+    // The running drain looks again once it empties, so the new job is not left behind
+    inlineRunner.jobDrainAgain = true;
+    return;
+  }
+  inlineRunner.jobWorkerId ??= createWorkerId();
+  const workerId = inlineRunner.jobWorkerId;
+  inlineRunner.jobDrain = (async () => {
+    do {
+      inlineRunner.jobDrainAgain = false;
+      try {
+        await drainJobs(db, { workerId });
+      } catch (error) {
+        console.error("[jobs] inline drain failed", error);
+      }
+    } while (inlineRunner.jobDrainAgain);
+    inlineRunner.jobDrain = null;
+
+    const due = await nextQueuedJobDue(db).catch(() => null);
+    if (due && !inlineRunner.jobDrainTimer) {
+      inlineRunner.jobDrainTimer = setTimeout(() => {
+        inlineRunner.jobDrainTimer = null;
+        ensureJobRunner(db);
+      }, Math.max(1000, due.getTime() - Date.now()));
+    }
+  })();
+}
+
+/**
+ * Validates `input` for `kind`, runs the kind's up-front checks and queues the job. Throws
+ * `JobRequestError` for input the user should fix; the route maps it to a response.
+ */
+export async function submitJob(db: PrismaClient, userId: string, kind: JobKind, input: unknown): Promise<JobRow> {
+  const definition = jobDefinitions[kind];
+  const parsed = definition.inputSchema.safeParse(input);
+  if (!parsed.success) {
+    // The same 400 body the request routes send for a failed parse
+    throw new JobRequestError("Invalid job input.", 400, { error: parsed.error.flatten() });
+  }
+  const prepared = (await definition.prepare?.(db, userId, parsed.data)) ?? {};
+  const job = await enqueueJob(db, {
+    kind,
+    ownerId: userId,
+    payload: parsed.data,
+    documentId: prepared.documentId ?? null,
+    maxAttempts: definition.maxAttempts
+  });
+  ensureJobRunner(db);
+  return job;
+}
@@ -0,0 +1,324 @@
+import { hostname } from "os";
+import { Prisma, type PrismaClient } from "@prisma/client";
+import { isTerminalJobStatus, type JobKind, type JobStatus, type JobSummary } from "./types";
+
+// Failed attempts wait 5s, 10s, 20s… before the next one, capped at five minutes
+const RETRY_BASE_DELAY_MS = 5000;
+const RETRY_MAX_DELAY_MS = 5 * 60 * 1000;
+// A running job whose worker has not checked in for this long is presumed dead and requeued
+export const JOB_LOCK_TIMEOUT_MS = 2 * 60 * 1000;
+
+export type JobRow = {
+  id: string;
+  kind: JobKind;
+  status: JobStatus;
+  payload: unknown;
+  progress: unknown;
+  result: unknown;
+  error: string | null;
+  artifactName: string | null;
+  attempts: number;
+  maxAttempts: number;
+  runAfter: Date;
+  lockedBy: string | null;
+  lockedAt: Date | null;
+  cancelRequested: boolean;
+  ownerId: string;
+  documentId: string | null;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+/** Everything but the artifact bytes, which only the download route reads. */
+const jobRowSelect = {
+  id: true,
+  kind: true,
+  status: true,
+  payload: true,
+  progress: true,
+  result: true,
+  error: true,
+  artifactName: true,
+  attempts: true,
+  maxAttempts: true,
+  runAfter: true,
+  lockedBy: true,
+  lockedAt: true,
+  cancelRequested: true,
+  ownerId: true,
+  documentId: true,
+  startedAt: true,
+  finishedAt: true,
+  createdAt: true,
+  updatedAt: true
+} satisfies Prisma.JobSelect;
+
+type JobRecord = Prisma.JobGetPayload<{ select: typeof jobRowSelect }>;
+
+// `kind` and `status` are plain strings in the schema; only this module writes them
+function toJobRow(record: JobRecord): JobRow {
+  return record as JobRow;
+}
+
+/** A job's outcome that should not be retried (missing document, lost access, spent allowance). */
+export class PermanentJobError extends Error {}
+
+/** Identifies one worker process in `lockedBy`. */
+export function createWorkerId(): string {
+  return `${hostname()}:${process.pid}:${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function retryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_DELAY_MS);
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+}
+
+export function serializeJob(job: JobRow): JobSummary {
+  return {
+    id: job.id,
+    kind: job.kind,
+    status: job.status,
+    progress: asRecord(job.progress),
+    result: asRecord(job.result),
+    error: job.error,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    cancelRequested: job.cancelRequested,
+    documentId: job.documentId,
+    artifactName: job.artifactName,
+    createdAt: job.createdAt.toISOString(),
+    startedAt: job.startedAt?.toISOString() ?? null,
+    finishedAt: job.finishedAt?.toISOString() ?? null,
+    updatedAt: job.updatedAt.toISOString()
+  };
+}
+
+export async function enqueueJob(
+  db: PrismaClient,
+  params: {
+    kind: JobKind;
+    ownerId: string;
+    payload: Record<string, unknown>;
+    documentId?: string | null;
+    maxAttempts?: number;
+  }
+): Promise<JobRow> {
+  const job = await db.job.create({
+    data: {
+      kind: params.kind,
+      ownerId: params.ownerId,
+      payload: params.payload as Prisma.InputJsonValue,
+      documentId: params.documentId ?? null,
+      maxAttempts: params.maxAttempts ?? 3
+    },
+    select: jobRowSelect
+  });
+  return toJobRow(job);
+}
+
+/** The job if `ownerId` owns it; other users' jobs read as missing. */
+export async function findOwnedJob(db: PrismaClient, id: string, ownerId: string): Promise<JobRow | null> {
+  const job = await db.job.findUnique({ where: { id }, select: jobRowSelect });
+  return job && job.ownerId === ownerId ? toJobRow(job) : null;
+}
+
+export async function listOwnedJobs(
+  db: PrismaClient,
+  ownerId: string,
+  filter: { kind?: JobKind; active?: boolean; limit: number }
+): Promise<JobRow[]> {
+  const jobs = await db.job.findMany({
+    where: {
+      ownerId,
+      ...(filter.kind ? { kind: filter.kind } : {}),
+      ...(filter.active ? { status: { in: ["queued", "running"] } } : {})
+    },
+    select: jobRowSelect,
+    orderBy: { createdAt: "desc" },
+    take: filter.limit
+  });
+  return jobs.map(toJobRow);
+}
+
+export async function loadJobArtifact(
+  db: PrismaClient,
+  id: string,
+  ownerId: string
+): Promise<{ data: Buffer; filename: string } | null> {
+  const job = await db.job.findUnique({
+    where: { id },
+    select: { ownerId: true, artifact: true, artifactName: true }
+  });
+  if (!job || job.ownerId !== ownerId || !job.artifact) return null;
+  return { data: Buffer.from(job.artifact), filename: job.artifactName ?? "download" };
+}
+
+/**
+ * Claims the next due job for `workerId`. Candidates are taken oldest first and locked with a
+ * conditional update, so two workers racing for the same row cannot both win it.
+ */
+export async function claimNextJob(db: PrismaClient, workerId: string): Promise<JobRow | null> {
+  const candidates = await db.job.findMany({
+    where: { status: "queued", runAfter: { lte: new Date() } },
+    select: { id: true },
+    orderBy: { runAfter: "asc" },
+    take: 5
+  });
+  for (const { id } of candidates) {
+    const now = new Date();
+    const claimed = await db.job.updateMany({
+      where: { id, status: "queued" },
+      data: { status: "running", lockedBy: workerId, lockedAt: now, startedAt: now, attempts: { increment: 1 } }
+    });
+    if (claimed.count === 1) {
+      const job = await db.job.findUnique({ where: { id }, select: jobRowSelect });
+      return job ? toJobRow(job) : null;
+    }
+  }
+  return null;
+}
+
+/** When the soonest queued job becomes due, or null when the queue is empty. */
+export async function nextQueuedJobDue(db: PrismaClient): Promise<Date | null> {
+  const next = await db.job.findFirst({
+    where: { status: "queued" },
+    select: { runAfter: true },
+    orderBy: { runAfter: "asc" }
+  });
+  return next?.runAfter ?? null;
+}
+
+/**
+ * Refreshes the lock on a running job and records its progress when given. Resolves to whether
+ * the owner asked to cancel it, or `null` when this worker no longer holds the lock.
+ */
+export async function touchJob(
+  db: PrismaClient,
+  id: string,
+  workerId: string,
+  progress?: Record<string, unknown>
+): Promise<boolean | null> {
+  const updated = await db.job.updateMany({
+    where: { id, lockedBy: workerId, status: "running" },
+    data: { lockedAt: new Date(), ...(progress ? { progress: progress as Prisma.InputJsonValue } : {}) }
+  });
+  if (!updated.count) return null;
+  const job = await db.job.findUnique({ where: { id }, select: { cancelRequested: true } });
+  return Boolean(job?.cancelRequested);
+}
+
+export async function completeJob(
+  db: PrismaClient,
+  id: string,
+  workerId: string,
+  outcome: {
+    result?: Record<string, unknown> | null;
+    documentId?: string | null;
+    artifact?: { data: Buffer; filename: string } | null;
+  }
+): Promise<void> {
+  await db.job.updateMany({
+    where: { id, lockedBy: workerId },
+    data: {
+      status: "succeeded",
+      result: outcome.result ? (outcome.result as Prisma.InputJsonValue) : Prisma.JsonNull,
+      documentId: outcome.documentId || undefined,
+      artifact: outcome.artifact ? new Uint8Array(outcome.artifact.data) : undefined,
+      artifactName: outcome.artifact?.filename,
+      error: null,
+      lockedBy: null,
+      lockedAt: null,
+      finishedAt: new Date()
+    }
+  });
+}
+
+/**
+ * Records a failed attempt. The job goes back in the queue with backoff while attempts remain
+ * and the error is retryable; otherwise it fails for good with `message`.
+ */
+export async function failJob(
+  db: PrismaClient,
+  job: Pick<JobRow, "id" | "attempts" | "maxAttempts">,
+  workerId: string,
+  message: string,
+  options: { retryable: boolean }
+): Promise<"retrying" | "failed"> {
+  const retrying = options.retryable && job.attempts < job.maxAttempts;
+  await db.job.updateMany({
+    where: { id: job.id, lockedBy: workerId },
+    data: retrying
+      ? { status: "queued", error: message, lockedBy: null, lockedAt: null, runAfter: new Date(Date.now() + retryDelayMs(job.attempts)) }
+      : { status: "failed", error: message, lockedBy: null, lockedAt: null, finishedAt: new Date() }
+  });
+  return retrying ? "retrying" : "failed";
+}
+
+/**
+ * Marks a running job cancelled once its handler has stopped, keeping whatever it finished
+ * before stopping (a batch's saved rows, a compose's saved draft).
+ */
+export async function markJobCancelled(
+  db: PrismaClient,
+  id: string,
+  workerId: string,
+  outcome: { result?: Record<string, unknown> | null; documentId?: string | null } = {}
+): Promise<void> {
+  await db.job.updateMany({
+    where: { id, lockedBy: workerId },
+    data: {
+      status: "cancelled",
+      ...(outcome.result ? { result: outcome.result as Prisma.InputJsonValue } : {}),
+      ...(outcome.documentId ? { documentId: outcome.documentId } : {}),
+      lockedBy: null,
+      lockedAt: null,
+      finishedAt: new Date()
+    }
+  });
+}
+
+/**
+ * Cancels a queued job outright; a running one is flagged and stops at its worker's next
+ * check-in. Finished jobs are returned unchanged.
+ */
+export async function requestJobCancel(db: PrismaClient, job: JobRow): Promise<JobRow> {
+  if (isTerminalJobStatus(job.status)) return job;
+  await db.job.updateMany({
+    where: { id: job.id, status: "queued" },
+    data: { status: "cancelled", cancelRequested: true, finishedAt: new Date() }
+  });
+  await db.job.updateMany({
+    where: { id: job.id, status: "running" },
+    data: { cancelRequested: true }
+  });
+  const updated = await db.job.findUnique({ where: { id: job.id }, select: jobRowSelect });
+  return updated ? toJobRow(updated) : job;
+}
+
+/**
+ * Returns running jobs whose worker stopped checking in (a crash or a deploy) to the queue,
+ * counting the lost run as a failed attempt. Returns how many were recovered.
+ */
+export async function recoverStaleJobs(db: PrismaClient): Promise<number> {
+  const stale = await db.job.findMany({
+    where: { status: "running", lockedAt: { lt: new Date(Date.now() - JOB_LOCK_TIMEOUT_MS) } },
+    select: { id: true, attempts: true, maxAttempts: true, lockedBy: true, cancelRequested: true },
+    take: 50
+  });
+  let recovered = 0;
+  for (const job of stale) {
+    if (!job.lockedBy) continue;
+    if (job.cancelRequested) {
+      await markJobCancelled(db, job.id, job.lockedBy);
+    } else {
+      await failJob(db, job, job.lockedBy, "The worker running this job stopped responding.", { retryable: true });
+    }
+    recovered += 1;
+  }
+  return recovered;
+}
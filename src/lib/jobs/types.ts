@@ -0,0 +1,60 @@
+/**
+ * Job kinds, statuses and the shape `/api/jobs` returns. Client-safe; the queue and the
+ * handlers that run each kind live next to this file and are server-only.
+ */
+
+import type { BatchRowStatus } from "@/lib/batch";
+
+export const JOB_KINDS = ["compose", "batch", "style", "export"] as const;
+export type JobKind = (typeof JOB_KINDS)[number];
+
+export const JOB_STATUSES = ["queued", "running", "succeeded", "failed", "cancelled"] as const;
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+export const TERMINAL_JOB_STATUSES: JobStatus[] = ["succeeded", "failed", "cancelled"];
+
+export function isTerminalJobStatus(status: string): boolean {
+  return (TERMINAL_JOB_STATUSES as string[]).includes(status);
+}
+
+export type JobSummary = {
+  id: string;
+  kind: JobKind;
+  status: JobStatus;
+  /** Kind-specific; see the handler for each kind. */
+  progress: Record<string, unknown> | null;
+  result: Record<string, unknown> | null;
+  error: string | null;
+  attempts: number;
+  maxAttempts: number;
+  cancelRequested: boolean;
+  documentId: string | null;
+  /** Set when the job produced a file, downloadable from `/api/jobs/[id]/artifact`. */
+  artifactName: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  updatedAt: string;
+};
+
+/** Progress a batch job records after every row change. */
+export type BatchJobProgress = {
+  folder: { id: string; name: string } | null;
+  total: number;
+  completed: number;
+  failed: number;
+  rows: Array<{
+    status: BatchRowStatus;
+    attempts: number;
+    documentId: string | null;
+    title: string | null;
+    error: string | null;
+  }>;
+};
+
+/** Progress a style extraction job records as it moves through its steps. */
+export type StyleJobProgress = {
+  progress: number;
+  status: string;
+  step: string;
+};
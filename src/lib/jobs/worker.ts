@@ -0,0 +1,119 @@
+import type { PrismaClient } from "@prisma/client";
+import { jobDefinitions } from "./handlers";
+import {
+  claimNextJob,
+  completeJob,
+  failJob,
+  markJobCancelled,
+  PermanentJobError,
+  recoverStaleJobs,
+  touchJob,
+  type JobRow
+} from "./queue";
+
+// How often a running job refreshes its lock and notices a cancel request
+const CHECK_IN_INTERVAL_MS = 2000;
+
+/** Jobs run side by side per worker (`JOB_CONCURRENCY`). */
+export const JOB_CONCURRENCY = Math.max(1, Number(process.env.JOB_CONCURRENCY ?? "2") || 2);
+
+/**
+ * Runs one claimed job to its next state: succeeded, cancelled, failed, or back in the queue
+ * with backoff. Progress writes and the periodic check-in share one chain so they land in order.
+ */
+export async function runJob(db: PrismaClient, job: JobRow, workerId: string): Promise<void> {
+  const definition = jobDefinitions[job.kind];
+  const parsed = definition?.inputSchema.safeParse(job.payload);
+  if (!definition || !parsed?.success) {
+    console.error("[jobs] unrunnable job", job.id, job.kind);
+    await failJob(db, job, workerId, "This job can no longer be run.", { retryable: false });
+    return;
+  }
+
+  const abort = new AbortController();
+  let lockLost = false;
+  let pendingProgress: Record<string, unknown> | undefined;
+  let checkIns = Promise.resolve();
+  const checkIn = () => {
+    checkIns = checkIns
+      .then(async () => {
+        const progress = pendingProgress;
+        pendingProgress = undefined;
+        const cancelRequested = await touchJob(db, job.id, workerId, progress);
+        if (cancelRequested === null) lockLost = true;
+        if (cancelRequested !== false) abort.abort();
+      })
+      .catch((error) => console.error("[jobs] check-in failed", job.id, error));
+    return checkIns;
+  };
+  const timer = setInterval(checkIn, CHECK_IN_INTERVAL_MS);
+  const settle = async () => {
+    clearInterval(timer);
+    await checkIns;
+  };
+
+  console.log("[jobs] running", job.kind, job.id, "attempt", job.attempts, "of", job.maxAttempts);
+  try {
+    const outcome = await definition.run({
+      db,
+      job,
+      payload: parsed.data,
+      signal: abort.signal,
+      reportProgress: (progress) => {
+        pendingProgress = progress;
+        return checkIn();
+      }
+    });
+    await settle();
+    if (lockLost) return;
+    if (abort.signal.aborted) {
+      await markJobCancelled(db, job.id, workerId, outcome);
+    } else {
+      await completeJob(db, job.id, workerId, outcome);
+    }
+    console.log("[jobs]", job.kind, job.id, abort.signal.aborted ? "cancelled" : "succeeded");
+  } catch (error) {
+    await settle();
+    // Another worker recovered the job after this one went quiet; its outcome no longer counts
+    if (lockLost) return;
+    if (abort.signal.aborted) {
+      await markJobCancelled(db, job.id, workerId);
+      console.log("[jobs]", job.kind, job.id, "cancelled");
+      return;
+    }
+    const permanent = error instanceof PermanentJobError;
+    const state = await failJob(db, job, workerId, permanent ? error.message : definition.failureMessage, {
+      retryable: !permanent
+    });
+    console.error("[jobs]", job.kind, job.id, state === "retrying" ? "failed; retrying" : "failed", error);
+  }
+}
+
+/**
+ * Claims and runs due jobs, `concurrency` at a time, until none are left or `shouldStop`
+ * returns true. Stale jobs from a lost worker are requeued first.
+ */
+export async function drainJobs(
+  db: PrismaClient,
+  options: { workerId: string; concurrency?: number; shouldStop?: () => boolean }
+): Promise<number> {
+  const { workerId, shouldStop } = options;
+  try {
+    const recovered = await recoverStaleJobs(db);
+    if (recovered) console.warn("[jobs] requeued", recovered, "stale jobs");
+  } catch (error) {
+    console.error("[jobs] stale job recovery failed", error);
+  }
+
+  let ran = 0;
+  const lanes = Array.from({ length: options.concurrency ?? JOB_CONCURRENCY }, async () => {
+    while (!shouldStop?.()) {
+      const job = await claimNextJob(db, workerId);
+      if (!job) return;
+      ran += 1;
+      await runJob(db, job, workerId);
+    }
+  });
+  await Promise.all(lanes);
+  return ran;
+}
@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { LLMProvider } from "./llm";
+import { enforceLengthConstraints, evaluateLength, LengthRevisionError, measureDraft, wordTargetRange } from "./length-limits";
+
+// Answers each generate call with the next reply, or throws when the reply is an Error
+function scriptedProvider(replies: Array<string | Error>): LLMProvider {
+  let call = 0;
+  return {
+    name: "fake",
+    async generate() {
+      const reply = replies[call];
+      call += 1;
+      if (reply instanceof Error) throw reply;
+      return { text: reply, model: "scripted", usage: { inputTokens: 5, outputTokens: 5, totalTokens: 10 } };
+    }
+  } as unknown as LLMProvider;
+}
+
+const words = (count: number) => Array.from({ length: count }, () => "word").join(" ");
+
+describe("measureDraft", () => {
+  it("counts the visible text, not markdown syntax", () => {
+    assert.deepEqual(measureDraft("## Hello\n\n**Bold** and [a link](https://example.com)."), {
+      characters: "Hello\n\nBold and a link.".length,
+      words: 5
+    });
+  });
+
+  it("does not count stray punctuation as words", () => {
+    assert.equal(measureDraft("Fast - and fresh — bread").words, 4);
+    assert.deepEqual(measureDraft("   "), { characters: 0, words: 0 });
+  });
+});
+
+describe("evaluateLength", () => {
+  it("treats wordLength as a target within 15%, at least five words either way", () => {
+    assert.deepEqual(wordTargetRange(100), { min: 85, max: 115 });
+    assert.deepEqual(wordTargetRange(10), { min: 5, max: 15 });
+    assert.equal(evaluateLength({ characters: 0, words: 84 }, { wordLength: 100 }).met, false);
+    assert.equal(evaluateLength({ characters: 0, words: 115 }, { wordLength: 100 }).met, true);
+  });
+
+  it("treats characterLength as a cap", () => {
+    assert.equal(evaluateLength({ characters: 280, words: 40 }, { characterLength: 280 }).met, true);
+    assert.deepEqual(evaluateLength({ characters: 281, words: 40 }, { characterLength: 280 }, 1), {
+      characters: 281,
+      words: 40,
+      characterLimit: 280,
+      wordTarget: null,
+      met: false,
+      revisions: 1
+    });
+  });
+});
+
+describe("enforceLengthConstraints", () => {
+  const options = { systemPrompt: "Write.", maxOutputTokens: 200 };
+
+  it("returns the first revision that fits", async () => {
+    const result = await enforceLengthConstraints(words(40), { wordLength: 10 }, {
+      ...options,
+      provider: scriptedProvider([words(10)])
+    });
+    assert.equal(result.text, words(10));
+    assert.equal(result.report.met, true);
+    assert.equal(result.report.revisions, 1);
+    assert.equal(result.tokensUsed, 10);
+  });
+
+  it("keeps the closest attempt when no revision fits", async () => {
+    const result = await enforceLengthConstraints(words(40), { wordLength: 10 }, {
+      ...options,
+      provider: scriptedProvider([words(30), words(50)])
+    });
+    assert.equal(result.text, words(30));
+    assert.equal(result.report.met, false);
+    assert.equal(result.tokensUsed, 20);
+  });
+
+  it("reports the tokens of finished passes when a later pass fails", async () => {
+    await assert.rejects(
+      enforceLengthConstraints(words(40), { wordLength: 10 }, {
+        ...options,
+        provider: scriptedProvider([words(30), new Error("upstream down")])
+      }),
+      (error: unknown) => error instanceof LengthRevisionError && error.tokensUsed === 10
+    );
+  });
+});
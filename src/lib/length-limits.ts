@@ -0,0 +1,153 @@
+import type { LLMProvider, LLMResult } from "./llm";
+import { markdownToPlainText } from "./utils";
+
+// Revise passes allowed after the first draft before compose returns the closest attempt
+export const MAX_LENGTH_REVISIONS = 2;
+// `wordLength` is a target, not a cap: within 15% (at least 5 words) counts as met
+const WORD_TOLERANCE = 0.15;
+const MIN_WORD_SLACK = 5;
+
+export type LengthConstraints = {
+  characterLength?: number | null;
+  wordLength?: number | null;
+};
+
+export type DraftCounts = {
+  characters: number;
+  words: number;
+};
+
+/** Counts and whether they satisfy the brief, as reported by compose and shown in the editor. */
+export type LengthReport = DraftCounts & {
+  characterLimit: number | null;
+  wordTarget: number | null;
+  met: boolean;
+  revisions: number;
+};
+
+/** Characters and words of the visible text: markdown syntax does not count toward either. */
+export function measureDraft(markdown: string): DraftCounts {
+  const plain = markdownToPlainText(markdown);
+  const normalized = plain.replace(/[\s\u00A0\u2000-\u200B\u2028\u2029\u3000\uFEFF]+/g, " ").trim();
+  return {
+    characters: plain.length,
+    // Stray punctuation such as a spaced hyphen is not a word
+    words: normalized ? normalized.split(" ").filter((word) => /[^!-/:-@[-`{-~\u2013\u2014]/.test(word)).length : 0
+  };
+}
+
+export function wordTargetRange(target: number): { min: number; max: number } {
+  const slack = Math.max(Math.round(target * WORD_TOLERANCE), MIN_WORD_SLACK);
+  return { min: Math.max(target - slack, 1), max: target + slack };
+}
+
+export function evaluateLength(counts: DraftCounts, constraints: LengthConstraints, revisions = 0): LengthReport {
+  const characterLimit = constraints.characterLength ?? null;
+  const wordTarget = constraints.wordLength ?? null;
+  const charactersMet = characterLimit === null || counts.characters <= characterLimit;
+  const range = wordTarget === null ? null : wordTargetRange(wordTarget);
+  const wordsMet = range === null || (counts.words >= range.min && counts.words <= range.max);
+  return { ...counts, characterLimit, wordTarget, met: charactersMet && wordsMet, revisions };
+}
+
+// How far a draft is from its constraints, relative to their size; 0 when met
+function lengthDistance(report: LengthReport): number {
+  let distance = 0;
+  if (report.characterLimit !== null && report.characters > report.characterLimit) {
+    distance += (report.characters - report.characterLimit) / report.characterLimit;
+  }
+  if (report.wordTarget !== null) {
+    const range = wordTargetRange(report.wordTarget);
+    if (report.words > range.max) distance += (report.words - range.max) / report.wordTarget;
+    if (report.words < range.min) distance += (range.min - report.words) / report.wordTarget;
+  }
+  return distance;
+}
+
+function describeGoal(report: LengthReport): string {
+  const goals: string[] = [];
+  if (report.characterLimit !== null && report.characters > report.characterLimit) {
+    goals.push(
+      `It has ${report.characters} characters; bring it to at most ${report.characterLimit} characters (spaces count, markdown symbols do not). Aim a little under the limit.`
+    );
+  }
+  if (report.wordTarget !== null) {
+    const range = wordTargetRange(report.wordTarget);
+    if (report.words > range.max) {
+      goals.push(`It has ${report.words} words; shorten it to about ${report.wordTarget} words (between ${range.min} and ${range.max}).`);
+    } else if (report.words < range.min) {
+      goals.push(`It has ${report.words} words; expand it to about ${report.wordTarget} words (between ${range.min} and ${range.max}) with concrete detail, not filler.`);
+    }
+  }
+  return goals.join("\n");
+}
+
+export type LengthEnforcementResult = {
+  text: string;
+  report: LengthReport;
+  tokensUsed: number;
+};
+
+/** A revise pass failed; `tokensUsed` still counts the passes that finished so callers can bill them. */
+export class LengthRevisionError extends Error {
+  constructor(
+    readonly cause: unknown,
+    readonly tokensUsed: number
+  ) {
+    super(cause instanceof Error ? cause.message : "Length revision failed.");
+  }
+}
+
+/**
+ * Measures a draft against `characterLength`/`wordLength` and, while it misses them, asks the
+ * model to shorten or expand it, up to `MAX_LENGTH_REVISIONS` times. Returns the first attempt
+ * that fits, otherwise the closest one. A failed pass throws a `LengthRevisionError`.
+ */
+export async function enforceLengthConstraints(
+  draft: string,
+  constraints: LengthConstraints,
+  options: {
+    provider: LLMProvider;
+    systemPrompt: string;
+    maxOutputTokens: number;
+    signal?: AbortSignal;
+  }
+): Promise<LengthEnforcementResult> {
+  let best = { text: draft, report: evaluateLength(measureDraft(draft), constraints) };
+  let revisions = 0;
+  let tokensUsed = 0;
+  const maxOutputTokens = Math.max(options.maxOutputTokens, Math.ceil((constraints.wordLength ?? 0) * 2));
+
+  for (let revision = 1; revision <= MAX_LENGTH_REVISIONS && !best.report.met; revision += 1) {
+    let response: LLMResult;
+    try {
+      response = await options.provider.generate({
+        task: "draft",
+        temperature: 0.4,
+        maxOutputTokens,
+        messages: [
+          { role: "system", content: options.systemPrompt },
+          {
+            role: "user",
+            content: `Revise this draft to fit its length brief.\n${describeGoal(best.report)}\nKeep the voice, key facts, markdown formatting and [bracketed placeholders]; change only what the length requires.\n\nDraft:\n${best.text}\n\nReturn only the revised draft in markdown.`
+          }
+        ],
+        signal: options.signal
+      });
+    } catch (error) {
+      throw new LengthRevisionError(error, tokensUsed);
+    }
+    tokensUsed += response.usage.totalTokens;
+    revisions = revision;
+    const text = response.text.trim();
+    if (!text) break;
+    // Each pass revises the closest attempt so far, so a bad pass cannot compound
+    const report = evaluateLength(measureDraft(text), constraints);
+    if (report.met || lengthDistance(report) < lengthDistance(best.report)) {
+      best = { text, report };
+    }
+  }
+
+  // Report every pass that ran, even when the original draft stayed the closest
+  return { text: best.text, report: { ...best.report, revisions }, tokensUsed };
+}
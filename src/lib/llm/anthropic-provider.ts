@@ -0,0 +1,122 @@
+import { resolveModel } from "./config";
+import { normalizeJsonText } from "./shared";
+import type { LLMProvider, LLMRequest, LLMResult, LLMStreamEvent } from "./types";
+
+const ANTHROPIC_API_URL = "https://api.anthropic.com/v1/messages";
+const ANTHROPIC_VERSION = "2023-06-01";
+// The Messages API requires max_tokens; match the longest compose budget
+const DEFAULT_MAX_TOKENS = 900;
+
+type AnthropicUsage = {
+  input_tokens?: number;
+  output_tokens?: number;
+};
+
+function buildBody(request: LLMRequest) {
+  const systemParts = request.messages.filter((message) => message.role === "system").map((message) => message.content);
+  if (request.json) {
+    systemParts.push("Respond with a single JSON object and nothing else.");
+  }
+  return {
+    model: resolveModel("anthropic", request.task, request.model),
+    max_tokens: request.maxOutputTokens ?? DEFAULT_MAX_TOKENS,
+    ...(request.temperature !== undefined ? { temperature: Math.min(request.temperature, 1) } : {}),
+    ...(systemParts.length ? { system: systemParts.join("\n\n") } : {}),
+    messages: request.messages
+      .filter((message) => message.role !== "system")
+      .map((message) => ({ role: message.role, content: message.content }))
+  };
+}
+
+function sumUsage(usage: AnthropicUsage | undefined): number {
+  return (usage?.input_tokens ?? 0) + (usage?.output_tokens ?? 0);
+}
+
+export function createAnthropicProvider(): LLMProvider {
+  const apiKey = process.env.ANTHROPIC_API_KEY;
+  if (!apiKey) {
+    throw new Error("ANTHROPIC_API_KEY missing");
+  }
+
+  async function post(body: Record<string, unknown>, signal?: AbortSignal) {
+    const response = await fetch(ANTHROPIC_API_URL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": apiKey!,
+        "anthropic-version": ANTHROPIC_VERSION
+      },
+      body: JSON.stringify(body),
+      signal
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw new Error(`Anthropic request failed (${response.status}): ${detail.slice(0, 300)}`);
+    }
+    return response;
+  }
+
+  return {
+    name: "anthropic",
+
+    async generate(request: LLMRequest): Promise<LLMResult> {
+      const body = buildBody(request);
+      const response = await post(body, request.signal);
+      const payload = await response.json();
+      const text = (Array.isArray(payload.content) ? payload.content : [])
+        .filter((block: any) => block?.type === "text")
+        .map((block: any) => block.text)
+        .join("")
+        .trim();
+      return {
+        text: request.json ? normalizeJsonText(text) : text,
+        model: body.model,
+        usage: { totalTokens: sumUsage(payload.usage) }
+      };
+    },
+
+    async *stream(request: LLMRequest): AsyncIterable<LLMStreamEvent> {
+      const body = buildBody(request);
+      const response = await post({ ...body, stream: true }, request.signal);
+      if (!response.body) {
+        throw new Error("Anthropic stream returned no body");
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+      let inputTokens = 0;
+      let outputTokens = 0;
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const messages = buffer.split("\n\n");
+        buffer = messages.pop() || "";
+
+        for (const message of messages) {
+          const dataLine = message.split("\n").find((line) => line.startsWith("data: "));
+          if (!dataLine) continue;
+          let event: any;
+          try {
+            event = JSON.parse(dataLine.slice(6));
+          } catch {
+            continue;
+          }
+          if (event.type === "content_block_delta" && event.delta?.type === "text_delta") {
+            yield { type: "delta", text: event.delta.text };
+          } else if (event.type === "message_start") {
+            inputTokens = event.message?.usage?.input_tokens ?? 0;
+          } else if (event.type === "message_delta") {
+            outputTokens = event.usage?.output_tokens ?? outputTokens;
+          } else if (event.type === "error") {
+            throw new Error(`Anthropic stream error: ${event.error?.message ?? "unknown"}`);
+          }
+        }
+      }
+
+      yield { type: "done", model: body.model, usage: { totalTokens: inputTokens + outputTokens } };
+    }
+  };
+}
@@ -0,0 +1,85 @@
+import type { LLMProviderName, LLMTask } from "./types";
+
+const PROVIDER_NAMES: LLMProviderName[] = ["openai", "anthropic", "local", "fake"];
+
+const DEFAULT_MODELS: Record<LLMProviderName, Record<LLMTask, string>> = {
+  openai: {
+    draft: "gpt-5.1",
+    analysis: "gpt-4.1-mini",
+    summarization: "gpt-5.1"
+  },
+  anthropic: {
+    draft: "claude-sonnet-4-5",
+    analysis: "claude-haiku-4-5",
+    summarization: "claude-haiku-4-5"
+  },
+  local: {
+    draft: "llama3.1",
+    analysis: "llama3.1",
+    summarization: "llama3.1"
+  },
+  fake: {
+    draft: "fake-draft",
+    analysis: "fake-analysis",
+    summarization: "fake-summarization"
+  }
+};
+
+// Anthropic has no embeddings API; deployments on it set EMBEDDING_PROVIDER instead
+const DEFAULT_EMBEDDING_MODELS: Partial<Record<LLMProviderName, string>> = {
+  openai: "text-embedding-3-small",
+  local: "nomic-embed-text",
+  fake: "fake-embedding"
+};
+
+const TASK_MODEL_ENV: Record<LLMTask, string> = {
+  draft: "LLM_MODEL_DRAFT",
+  analysis: "LLM_MODEL_ANALYSIS",
+  summarization: "LLM_MODEL_SUMMARIZATION"
+};
+
+/**
+ * Reads `LLM_PROVIDER` (openai | anthropic | local | fake). Defaults to OpenAI so existing
+ * deployments keep working without new env vars.
+ */
+export function resolveProviderName(): LLMProviderName {
+  const raw = process.env.LLM_PROVIDER?.trim().toLowerCase();
+  if (!raw) return "openai";
+  if ((PROVIDER_NAMES as string[]).includes(raw)) {
+    return raw as LLMProviderName;
+  }
+  throw new Error(`Unknown LLM_PROVIDER "${raw}". Use one of: ${PROVIDER_NAMES.join(", ")}.`);
+}
+
+/**
+ * Reads `EMBEDDING_PROVIDER`, falling back to the chat provider. Returns null when neither
+ * names a provider that can embed, which turns "find similar" off rather than failing saves.
+ */
+export function resolveEmbeddingProviderName(): LLMProviderName | null {
+  const raw = process.env.EMBEDDING_PROVIDER?.trim().toLowerCase();
+  const name = raw ? raw : resolveProviderName();
+  if (!(PROVIDER_NAMES as string[]).includes(name)) {
+    throw new Error(`Unknown EMBEDDING_PROVIDER "${name}". Use one of: ${PROVIDER_NAMES.join(", ")}.`);
+  }
+  return DEFAULT_EMBEDDING_MODELS[name as LLMProviderName] ? (name as LLMProviderName) : null;
+}
+
+/** `LLM_MODEL_EMBEDDING` wins, then the provider default. */
+export function resolveEmbeddingModel(provider: LLMProviderName, override?: string): string {
+  if (override?.trim()) return override.trim();
+  const fromEnv = process.env.LLM_MODEL_EMBEDDING?.trim();
+  if (fromEnv) return fromEnv;
+  const fallback = DEFAULT_EMBEDDING_MODELS[provider];
+  if (!fallback) {
+    throw new Error(`The ${provider} provider does not support embeddings.`);
+  }
+  return fallback;
+}
+
+/** Per-task model routing: `LLM_MODEL_<TASK>` wins, then the provider default. */
+export function resolveModel(provider: LLMProviderName, task: LLMTask, override?: string): string {
+  if (override?.trim()) return override.trim();
+  const fromEnv = process.env[TASK_MODEL_ENV[task]]?.trim();
+  if (fromEnv) return fromEnv;
+  return DEFAULT_MODELS[provider][task];
+}
@@ -0,0 +1,149 @@
+import { resolveEmbeddingModel, resolveModel } from "./config";
+import { estimateTokens, throwIfAborted } from "./shared";
+import type {
+  EmbeddingRequest,
+  EmbeddingResult,
+  LLMJsonField,
+  LLMProvider,
+  LLMRequest,
+  LLMResult,
+  LLMStreamEvent
+} from "./types";
+
+// Trimmed to the field's limit at a word boundary; list items end in their number so they stay distinct
+function fakeJsonValue(field: LLMJsonField, excerpt: string): string | string[] {
+  const base = excerpt || "Fake provider copy";
+  const fit = (text: string, suffix = "") => {
+    const limit = field.maxLength ? field.maxLength - suffix.length : Infinity;
+    if (text.length <= limit) return text + suffix;
+    const cut = text.slice(0, Math.max(limit, 1));
+    const boundary = cut.lastIndexOf(" ");
+    return (boundary > 0 ? cut.slice(0, boundary) : cut).trim() + suffix;
+  };
+  if (field.type === "string") return fit(base);
+  return Array.from({ length: field.count ?? 1 }, (_, index) => fit(base, ` ${index + 1}`));
+}
+
+/**
+ * Deterministic provider for tests, CI and offline development. The reply is derived from the
+ * last user message so the same request always produces the same text, with no network calls.
+ */
+function buildReply(request: LLMRequest): string {
+  const lastUser = [...request.messages].reverse().find((message) => message.role === "user")?.content ?? "";
+  const excerpt = lastUser.replace(/\s+/g, " ").trim().slice(0, 160);
+
+  if (request.json && request.jsonFields) {
+    // The first line only, so the format instructions after the brief stay out of the copy
+    const brief = lastUser.split("\n")[0].replace(/\s+/g, " ").trim().slice(0, 160);
+    return JSON.stringify(
+      Object.fromEntries(Object.entries(request.jsonFields).map(([key, field]) => [key, fakeJsonValue(field, brief)]))
+    );
+  }
+
+  if (request.json) {
+    // Covers every key the style analysis prompts ask for
+    return JSON.stringify({
+      description: "Plain, direct prose with short declarative sentences and a neutral tone.",
+      title: "Plain Direct Prose",
+      summary: "Neutral tone, short sentences, everyday vocabulary and a steady, even pace."
+    });
+  }
+
+  if (request.task === "summarization") {
+    return `Summary: ${excerpt || "No details provided."}`;
+  }
+
+  return [
+    "This is a deterministic draft from the fake LLM provider.",
+    "",
+    `It responds to: ${excerpt || "[empty prompt]"}`,
+    "",
+    "Set LLM_PROVIDER to openai, anthropic or local to generate real copy."
+  ].join("\n");
+}
+
+function countUsage(request: LLMRequest, text: string): number {
+  return request.messages.reduce((sum, message) => sum + estimateTokens(message.content), 0) + estimateTokens(text);
+}
+
+const FAKE_EMBEDDING_DIMENSIONS = 256;
+
+/**
+ * Hashed bag of words: texts sharing vocabulary land close together, which is enough to
+ * exercise "find similar" end to end without a model.
+ */
+function fakeEmbedding(text: string): number[] {
+  const vector = new Array<number>(FAKE_EMBEDDING_DIMENSIONS).fill(0);
+  (text.toLowerCase().match(/[a-z0-9']+/g) ?? []).forEach((word) => {
+    let hash = 2166136261;
+    for (let i = 0; i < word.length; i += 1) {
+      hash = Math.imul(hash ^ word.charCodeAt(i), 16777619);
+    }
+    vector[Math.abs(hash) % FAKE_EMBEDDING_DIMENSIONS] += 1;
+  });
+  return vector;
+}
+
+function resolveDelayMs(): number {
+  const delay = Number(process.env.LLM_FAKE_DELAY_MS ?? "0");
+  return Number.isFinite(delay) && delay > 0 ? delay : 0;
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+}
+
+export function createFakeProvider(): LLMProvider {
+  return {
+    name: "fake",
+
+    async generate(request: LLMRequest): Promise<LLMResult> {
+      throwIfAborted(request.signal);
+      const text = buildReply(request);
+      return {
+        text,
+        model: resolveModel("fake", request.task, request.model),
+        usage: { totalTokens: countUsage(request, text) }
+      };
+    },
+
+    async *stream(request: LLMRequest): AsyncIterable<LLMStreamEvent> {
+      const text = buildReply(request);
+      const delayMs = resolveDelayMs();
+      // Split on word boundaries but keep the whitespace so deltas concatenate back to `text`
+      const pieces = text.match(/\S+\s*|\s+/g) ?? [];
+      for (const piece of pieces) {
+        throwIfAborted(request.signal);
+        if (delayMs) {
+          await sleep(delayMs, request.signal);
+          throwIfAborted(request.signal);
+        }
+        yield { type: "delta", text: piece };
+      }
+      yield {
+        type: "done",
+        model: resolveModel("fake", request.task, request.model),
+        usage: { totalTokens: countUsage(request, text) }
+      };
+    },
+
+    async embed(request: EmbeddingRequest): Promise<EmbeddingResult> {
+      throwIfAborted(request.signal);
+      return {
+        vectors: request.input.map(fakeEmbedding),
+        model: resolveEmbeddingModel("fake", request.model),
+        usage: { totalTokens: request.input.reduce((sum, text) => sum + estimateTokens(text), 0) }
+      };
+    }
+  };
+}
@@ -0,0 +1,63 @@
+import { createAnthropicProvider } from "./anthropic-provider";
+import { resolveEmbeddingProviderName, resolveProviderName } from "./config";
+import { createFakeProvider } from "./fake-provider";
+import { createOpenAICompatibleProvider } from "./openai-compatible-provider";
+import { createOpenAIProvider } from "./openai-provider";
+import type { LLMProvider, LLMProviderName } from "./types";
+
+export type {
+  EmbeddingRequest,
+  EmbeddingResult,
+  LLMJsonField,
+  LLMMessage,
+  LLMProvider,
+  LLMProviderName,
+  LLMRequest,
+  LLMResult,
+  LLMStreamEvent,
+  LLMTask,
+  LLMUsage
+} from "./types";
+export { resolveEmbeddingModel, resolveEmbeddingProviderName, resolveModel, resolveProviderName } from "./config";
+export { estimateTokens, throwIfAborted } from "./shared";
+
+let cachedProvider: LLMProvider | null = null;
+let cachedEmbeddingProvider: LLMProvider | null = null;
+
+function createProvider(name: LLMProviderName): LLMProvider {
+  switch (name) {
+    case "anthropic":
+      return createAnthropicProvider();
+    case "local":
+      return createOpenAICompatibleProvider();
+    case "fake":
+      return createFakeProvider();
+    default:
+      return createOpenAIProvider();
+  }
+}
+
+/**
+ * Returns the provider selected by `LLM_PROVIDER`. Throws when the provider's credentials are
+ * missing, mirroring `getOpenAIClient()`, so routes can fail fast before doing any work.
+ */
+export function getLLMProvider(): LLMProvider {
+  const name = resolveProviderName();
+  if (cachedProvider?.name !== name) {
+    cachedProvider = createProvider(name);
+  }
+  return cachedProvider;
+}
+
+/**
+ * The provider used for document embeddings (`EMBEDDING_PROVIDER`, else `LLM_PROVIDER`), or null
+ * when it cannot embed. Throws on missing credentials like `getLLMProvider()`.
+ */
+export function getEmbeddingProvider(): LLMProvider | null {
+  const name = resolveEmbeddingProviderName();
+  if (!name) return null;
+  if (cachedEmbeddingProvider?.name !== name) {
+    cachedEmbeddingProvider = name === cachedProvider?.name ? cachedProvider : createProvider(name);
+  }
+  return cachedEmbeddingProvider.embed ? cachedEmbeddingProvider : null;
+}
@@ -0,0 +1,75 @@
+import OpenAI from "openai";
+import { resolveEmbeddingModel, resolveModel } from "./config";
+import { normalizeJsonText } from "./shared";
+import type { EmbeddingRequest, EmbeddingResult, LLMProvider, LLMRequest, LLMResult, LLMStreamEvent } from "./types";
+
+/**
+ * Local OpenAI-compatible servers (Ollama, llama.cpp, LM Studio, vLLM) implement Chat Completions
+ * but not the Responses API, so this provider talks Chat Completions against `LLM_BASE_URL`.
+ */
+export function createOpenAICompatibleProvider(): LLMProvider {
+  const baseURL = process.env.LLM_BASE_URL?.trim();
+  if (!baseURL) {
+    throw new Error("LLM_BASE_URL missing");
+  }
+  // Most local servers ignore the key, but the SDK requires a value
+  const client = new OpenAI({ baseURL, apiKey: process.env.LLM_API_KEY || "local" });
+
+  function buildParams(request: LLMRequest) {
+    return {
+      model: resolveModel("local", request.task, request.model),
+      temperature: request.temperature,
+      max_tokens: request.maxOutputTokens,
+      ...(request.json ? { response_format: { type: "json_object" as const } } : {}),
+      messages: request.messages.map((message) => ({
+        role: message.role,
+        content: message.content
+      }))
+    };
+  }
+
+  return {
+    name: "local",
+
+    async generate(request: LLMRequest): Promise<LLMResult> {
+      const params = buildParams(request);
+      const completion = await client.chat.completions.create(params, { signal: request.signal });
+      const text = completion.choices[0]?.message?.content?.trim() ?? "";
+      return {
+        text: request.json ? normalizeJsonText(text) : text,
+        model: params.model,
+        usage: { totalTokens: completion.usage?.total_tokens ?? 0 }
+      };
+    },
+
+    async *stream(request: LLMRequest): AsyncIterable<LLMStreamEvent> {
+      const params = buildParams(request);
+      const stream = await client.chat.completions.create(
+        { ...params, stream: true, stream_options: { include_usage: true } },
+        { signal: request.signal }
+      );
+      let totalTokens = 0;
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          yield { type: "delta", text: delta };
+        }
+        if (chunk.usage) {
+          totalTokens = chunk.usage.total_tokens;
+        }
+      }
+      yield { type: "done", model: params.model, usage: { totalTokens } };
+    },
+
+    // Ollama, llama.cpp and vLLM all serve /v1/embeddings when started with an embedding model
+    async embed(request: EmbeddingRequest): Promise<EmbeddingResult> {
+      const model = resolveEmbeddingModel("local", request.model);
+      const response = await client.embeddings.create({ model, input: request.input }, { signal: request.signal });
+      return {
+        vectors: [...response.data].sort((a, b) => a.index - b.index).map((entry) => entry.embedding),
+        model,
+        usage: { totalTokens: response.usage?.total_tokens ?? 0 }
+      };
+    }
+  };
+}
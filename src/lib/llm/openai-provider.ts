@@ -0,0 +1,61 @@
+import { getOpenAIClient } from "../openai";
+import { resolveEmbeddingModel, resolveModel } from "./config";
+import { normalizeJsonText } from "./shared";
+import type { EmbeddingRequest, EmbeddingResult, LLMProvider, LLMRequest, LLMResult, LLMStreamEvent } from "./types";
+
+function buildParams(request: LLMRequest) {
+  return {
+    model: resolveModel("openai", request.task, request.model),
+    temperature: request.temperature,
+    max_output_tokens: request.maxOutputTokens,
+    ...(request.json ? { text: { format: { type: "json_object" as const } } } : {}),
+    input: request.messages.map((message) => ({
+      role: message.role,
+      content: message.content
+    }))
+  };
+}
+
+export function createOpenAIProvider(): LLMProvider {
+  // Throws "OPENAI_API_KEY missing" up front so callers can fail fast like before
+  const client = getOpenAIClient();
+
+  return {
+    name: "openai",
+
+    async generate(request: LLMRequest): Promise<LLMResult> {
+      const params = buildParams(request);
+      const response = await client.responses.create(params, { signal: request.signal });
+      const text = response.output_text?.trim() ?? "";
+      return {
+        text: request.json ? normalizeJsonText(text) : text,
+        model: params.model,
+        usage: { totalTokens: response.usage?.total_tokens ?? 0 }
+      };
+    },
+
+    async *stream(request: LLMRequest): AsyncIterable<LLMStreamEvent> {
+      const params = buildParams(request);
+      const stream = await client.responses.create({ ...params, stream: true }, { signal: request.signal });
+      let totalTokens = 0;
+      for await (const event of stream) {
+        if (event.type === "response.output_text.delta") {
+          yield { type: "delta", text: event.delta };
+        } else if (event.type === "response.completed") {
+          totalTokens = event.response.usage?.total_tokens ?? 0;
+        }
+      }
+      yield { type: "done", model: params.model, usage: { totalTokens } };
+    },
+
+    async embed(request: EmbeddingRequest): Promise<EmbeddingResult> {
+      const model = resolveEmbeddingModel("openai", request.model);
+      const response = await client.embeddings.create({ model, input: request.input }, { signal: request.signal });
+      return {
+        vectors: [...response.data].sort((a, b) => a.index - b.index).map((entry) => entry.embedding),
+        model,
+        usage: { totalTokens: response.usage?.total_tokens ?? 0 }
+      };
+    }
+  };
+}
@@ -0,0 +1,27 @@
+// Rough chars-per-token heuristic, used when a provider never reports usage (aborted streams, fake provider)
+export function estimateTokens(text: string): number {
+  return text ? Math.ceil(text.length / 4) : 0;
+}
+
+/** Models outside OpenAI's JSON mode often wrap JSON in markdown fences; unwrap them. */
+export function normalizeJsonText(text: string): string {
+  const trimmed = text.trim();
+  const fenced = trimmed.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+  if (fenced) return fenced[1].trim();
+  const start = trimmed.indexOf("{");
+  const end = trimmed.lastIndexOf("}");
+  if (start > 0 && end > start) return trimmed.slice(start, end + 1);
+  return trimmed;
+}
+
+export function createAbortError(): Error {
+  const error = new Error("The operation was aborted.");
+  error.name = "AbortError";
+  return error;
+}
+
+export function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+}
@@ -0,0 +1,73 @@
+export type LLMProviderName = "openai" | "anthropic" | "local" | "fake";
+
+/**
+ * What a call is for. Each task routes to its own model so drafting can use the strongest
+ * model while analysis and summarization use cheaper ones.
+ */
+export type LLMTask = "draft" | "analysis" | "summarization";
+
+export type LLMMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+};
+
+/** One key of a JSON reply: a string, or `count` distinct strings, each at most `maxLength` characters. */
+export type LLMJsonField = {
+  type: "string" | "string[]";
+  count?: number;
+  maxLength?: number | null;
+};
+
+export type LLMRequest = {
+  task: LLMTask;
+  messages: LLMMessage[];
+  temperature?: number;
+  maxOutputTokens?: number;
+  /** Ask the model for a single JSON object. Providers strip code fences from the reply. */
+  json?: boolean;
+  /**
+   * Keys the JSON object must have, when the prompt spells them out. Real models follow the
+   * prompt; the fake provider builds its reply from this.
+   */
+  jsonFields?: Record<string, LLMJsonField>;
+  /** Overrides the task's routed model. */
+  model?: string;
+  signal?: AbortSignal;
+};
+
+export type LLMUsage = {
+  totalTokens: number;
+};
+
+export type LLMResult = {
+  text: string;
+  model: string;
+  usage: LLMUsage;
+};
+
+export type EmbeddingRequest = {
+  input: string[];
+  /** Overrides the provider's embedding model. */
+  model?: string;
+  signal?: AbortSignal;
+};
+
+export type EmbeddingResult = {
+  /** One vector per input, in input order. */
+  vectors: number[][];
+  model: string;
+  usage: LLMUsage;
+};
+
+export type LLMStreamEvent =
+  | { type: "delta"; text: string }
+  | { type: "done"; model: string; usage: LLMUsage };
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  generate(request: LLMRequest): Promise<LLMResult>;
+  /** Yields text deltas, then exactly one `done` event with usage. Throws an AbortError when `signal` fires. */
+  stream(request: LLMRequest): AsyncIterable<LLMStreamEvent>;
+  /** Absent on providers without an embeddings API (Anthropic). */
+  embed?(request: EmbeddingRequest): Promise<EmbeddingResult>;
+}
@@ -0,0 +1,62 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { cursorFor, cursorWhere, decodeCursor, encodeCursor, takePage } from "./pagination";
+
+const updatedAt = new Date("2026-03-01T10:00:00.000Z");
+
+describe("cursors", () => {
+  it("round-trips a cursor", () => {
+    const cursor = { id: "doc1", pinned: true, at: updatedAt.toISOString() };
+    assert.deepEqual(decodeCursor(encodeCursor(cursor)), cursor);
+  });
+
+  it("rejects anything this module did not issue", () => {
+    assert.equal(decodeCursor(undefined), null);
+    assert.equal(decodeCursor("not base64 json"), null);
+    assert.equal(decodeCursor(encodeCursor({ id: 5 } as unknown as { id: string })), null);
+    assert.equal(decodeCursor(encodeCursor({ id: "doc1", at: "yesterday" })), null);
+  });
+
+  it("records the sort keys of the row for each sort", () => {
+    const row = { id: "doc1", pinned: true, createdAt: updatedAt, updatedAt, title: "Notes" };
+    assert.deepEqual(decodeCursor(cursorFor("title", row)), { id: "doc1", title: "Notes" });
+    assert.deepEqual(decodeCursor(cursorFor("pinned", row)), { id: "doc1", pinned: true, at: updatedAt.toISOString() });
+  });
+});
+
+describe("cursorWhere", () => {
+  it("selects rows after the cursor, using the id as a tiebreaker", () => {
+    assert.deepEqual(cursorWhere("created", { id: "doc1", at: updatedAt.toISOString() }), {
+      OR: [{ createdAt: { lt: updatedAt } }, { createdAt: updatedAt, id: { lt: "doc1" } }]
+    });
+    assert.deepEqual(cursorWhere("title", { id: "doc1", title: "Notes" }), {
+      OR: [{ title: { gt: "Notes" } }, { title: "Notes", id: { gt: "doc1" } }]
+    });
+  });
+
+  it("moves on to the unpinned rows after the last pinned one", () => {
+    const where = cursorWhere("pinned", { id: "doc1", pinned: true, at: updatedAt.toISOString() });
+    assert.deepEqual(where.OR, [
+      { pinned: false },
+      { pinned: true, updatedAt: { lt: updatedAt } },
+      { pinned: true, updatedAt, id: { lt: "doc1" } }
+    ]);
+  });
+});
+
+describe("takePage", () => {
+  const rows = ["a", "b", "c"].map((id) => ({ id, updatedAt }));
+
+  it("uses the extra row only to signal another page", () => {
+    const page = takePage(rows, 2, "updated");
+    assert.deepEqual(
+      page.items.map((row) => row.id),
+      ["a", "b"]
+    );
+    assert.deepEqual(decodeCursor(page.nextCursor ?? undefined), { id: "b", at: updatedAt.toISOString() });
+  });
+
+  it("has no next cursor on the last page", () => {
+    assert.equal(takePage(rows, 3, "updated").nextCursor, null);
+  });
+});
@@ -0,0 +1,106 @@
+import type { DocumentSort } from "@/lib/validators";
+
+/**
+ * Keyset cursor: the sort-key values of the last row on a page plus its id as a tiebreaker,
+ * so pages stay stable while rows are inserted or edited between requests.
+ */
+export type ListCursor = {
+  id: string;
+  pinned?: boolean;
+  at?: string;
+  title?: string;
+};
+
+export type CursorRow = {
+  id: string;
+  pinned?: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+  title?: string;
+};
+
+type WhereClause = Record<string, unknown>;
+
+export function encodeCursor(cursor: ListCursor): string {
+  return Buffer.from(JSON.stringify(cursor), "utf8").toString("base64url");
+}
+
+/** Returns null for anything that is not a cursor this module issued. */
+export function decodeCursor(raw: string | undefined): ListCursor | null {
+  if (!raw) return null;
+  try {
+    const value = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+    if (!value || typeof value !== "object" || typeof value.id !== "string") return null;
+    if (value.at !== undefined && Number.isNaN(new Date(value.at).getTime())) return null;
+    return value as ListCursor;
+  } catch {
+    return null;
+  }
+}
+
+export function sortOrderBy(sort: DocumentSort): WhereClause[] {
+  switch (sort) {
+    case "created":
+      return [{ createdAt: "desc" }, { id: "desc" }];
+    case "updated":
+      return [{ updatedAt: "desc" }, { id: "desc" }];
+    case "title":
+      return [{ title: "asc" }, { id: "asc" }];
+    default:
+      return [{ pinned: "desc" }, { updatedAt: "desc" }, { id: "desc" }];
+  }
+}
+
+export function cursorFor(sort: DocumentSort, row: CursorRow): string {
+  switch (sort) {
+    case "created":
+      return encodeCursor({ id: row.id, at: row.createdAt?.toISOString() });
+    case "updated":
+      return encodeCursor({ id: row.id, at: row.updatedAt?.toISOString() });
+    case "title":
+      return encodeCursor({ id: row.id, title: row.title ?? "" });
+    default:
+      return encodeCursor({ id: row.id, pinned: Boolean(row.pinned), at: row.updatedAt?.toISOString() });
+  }
+}
+
+/** The `where` fragment selecting rows strictly after `cursor` in `sortOrderBy(sort)` order. */
+export function cursorWhere(sort: DocumentSort, cursor: ListCursor): WhereClause {
+  const at = cursor.at ? new Date(cursor.at) : new Date(0);
+  switch (sort) {
+    case "created":
+      return { OR: [{ createdAt: { lt: at } }, { createdAt: at, id: { lt: cursor.id } }] };
+    case "updated":
+      return { OR: [{ updatedAt: { lt: at } }, { updatedAt: at, id: { lt: cursor.id } }] };
+    case "title": {
+      const title = cursor.title ?? "";
+      return { OR: [{ title: { gt: title } }, { title, id: { gt: cursor.id } }] };
+    }
+    default: {
+      const pinned = Boolean(cursor.pinned);
+      const after: WhereClause[] = [
+        { pinned, updatedAt: { lt: at } },
+        { pinned, updatedAt: at, id: { lt: cursor.id } }
+      ];
+      // Once past the pinned rows, every unpinned row follows
+      if (pinned) after.unshift({ pinned: false });
+      return { OR: after };
+    }
+  }
+}
+
+/**
+ * Callers fetch `limit + 1` rows; the extra row only signals that another page exists.
+ */
+export function takePage<T extends CursorRow>(
+  rows: T[],
+  limit: number,
+  sort: DocumentSort
+): { items: T[]; nextCursor: string | null } {
+  const items = rows.slice(0, limit);
+  const last = items[items.length - 1];
+  return {
+    items,
+    nextCursor: rows.length > limit && last ? cursorFor(sort, last) : null
+  };
+}
@@ -0,0 +1,115 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  autofillPlaceholders,
+  fillPlaceholders,
+  findPlaceholders,
+  inferPlaceholderType,
+  matchPersonaFact,
+  readDocumentPlaceholders,
+  readPersonaFacts,
+  resolvePlaceholders,
+  syncPlaceholders,
+  unresolvedPlaceholders,
+  validatePlaceholderValue
+} from "./placeholders";
+
+describe("findPlaceholders", () => {
+  it("collects distinct labels in order with their counts", () => {
+    assert.deepEqual(findPlaceholders("Visit [Website]. Call [phone] or see [website]."), [
+      { key: "website", label: "Website", count: 2 },
+      { key: "phone", label: "phone", count: 1 }
+    ]);
+  });
+
+  it("skips links, task boxes, footnotes and numbered citations", () => {
+    assert.deepEqual(findPlaceholders("- [x] done\n- [ ] todo\nSee [docs](https://example.com)[^1] and [3]."), []);
+  });
+});
+
+describe("persona facts", () => {
+  it("matches labels to facts by alias, ending or contained words", () => {
+    assert.equal(matchPersonaFact("Company Name"), "companyName");
+    assert.equal(matchPersonaFact("your website"), "url");
+    assert.equal(matchPersonaFact("main landing page URL"), "url");
+    assert.equal(matchPersonaFact("phone number for support"), "phone");
+    assert.equal(matchPersonaFact("launch date"), null);
+  });
+
+  it("infers a type from the label", () => {
+    assert.equal(inferPlaceholderType("Website"), "url");
+    assert.equal(inferPlaceholderType("launch date"), "date");
+    assert.equal(inferPlaceholderType("monthly price"), "price");
+    assert.equal(inferPlaceholderType("customer quote"), "text");
+  });
+
+  it("reads only known, non-empty facts", () => {
+    assert.deepEqual(readPersonaFacts({ companyName: "  Acme ", url: "", extra: "x", phone: 5 }), { companyName: "Acme" });
+    assert.deepEqual(readPersonaFacts(["Acme"]), {});
+  });
+});
+
+describe("placeholder entries", () => {
+  it("keeps stored entries, adds new labels and drops removed ones", () => {
+    const stored = {
+      website: { label: "Website", type: "url" as const, value: "acme.com" },
+      gone: { label: "Gone", type: "text" as const, value: "x" }
+    };
+    assert.deepEqual(syncPlaceholders("Go to [Website] before [launch date].", stored), {
+      website: stored.website,
+      "launch date": { label: "launch date", type: "date", value: "" }
+    });
+  });
+
+  it("drops malformed stored JSON", () => {
+    assert.deepEqual(
+      readDocumentPlaceholders({ ok: { label: "OK", type: "text" }, bad: { label: "Bad", type: "color" }, worse: "x" }),
+      { ok: { label: "OK", type: "text", value: "" } }
+    );
+  });
+
+  it("autofills empty entries from facts without overwriting filled ones", () => {
+    const placeholders = syncPlaceholders("[Company name] at [website], call [phone]", {
+      website: { label: "website", type: "url", value: "example.org" }
+    });
+    const { placeholders: filled, filled: count } = autofillPlaceholders(placeholders, {
+      companyName: "Acme",
+      url: "acme.com"
+    });
+    assert.equal(count, 1);
+    assert.equal(filled["company name"].value, "Acme");
+    assert.equal(filled.website.value, "example.org");
+    assert.equal(filled.phone.value, "");
+  });
+
+  it("fills by key and overwrites only when asked", () => {
+    const placeholders = syncPlaceholders("[Price] and [CTA]", { price: { label: "Price", type: "price", value: "$10" } });
+    assert.equal(fillPlaceholders(placeholders, { PRICE: "$12", cta: "Buy now" }).filled, 1);
+    const overwritten = fillPlaceholders(placeholders, { PRICE: "$12" }, true);
+    assert.equal(overwritten.filled, 1);
+    assert.equal(overwritten.placeholders.price.value, "$12");
+  });
+});
+
+describe("placeholder values", () => {
+  it("validates values by type and treats empty values as unresolved", () => {
+    assert.equal(validatePlaceholderValue("url", "acme.com"), null);
+    assert.ok(validatePlaceholderValue("url", "not a site"));
+    assert.equal(validatePlaceholderValue("date", "2026-03-01"), null);
+    assert.ok(validatePlaceholderValue("date", "someday"));
+    assert.equal(validatePlaceholderValue("price", "49.99 USD"), null);
+    assert.ok(validatePlaceholderValue("price", "cheap"));
+    assert.equal(validatePlaceholderValue("price", "  "), null);
+  });
+
+  it("substitutes filled values, formats dates and keeps unfilled brackets", () => {
+    const content = "Launch on [launch date] at [website]. Ask [contact].";
+    const placeholders = syncPlaceholders(content, {
+      "launch date": { label: "launch date", type: "date", value: "2026-03-01" },
+      website: { label: "website", type: "url", value: "acme.com" }
+    });
+    assert.equal(resolvePlaceholders(content, placeholders), "Launch on March 1, 2026 at acme.com. Ask [contact].");
+    assert.deepEqual(unresolvedPlaceholders(content, placeholders), ["contact"]);
+    assert.equal(resolvePlaceholders(content, null), content);
+  });
+});
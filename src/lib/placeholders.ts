@@ -0,0 +1,271 @@
+/**
+ * Placeholders are the `[company name]`-style gaps compose leaves for details it must not guess.
+ * The content keeps the brackets; each distinct label gets a typed entry in `Document.placeholders`
+ * whose value is substituted on copy and export. Persona facts (company name, website, CTA, phone)
+ * fill matching labels automatically. Client-safe.
+ */
+
+export const PLACEHOLDER_TYPES = ["text", "url", "date", "price"] as const;
+
+export type PlaceholderType = (typeof PLACEHOLDER_TYPES)[number];
+
+export type PlaceholderEntry = {
+  /** The label as first written in the content, without brackets. */
+  label: string;
+  type: PlaceholderType;
+  /** Empty until filled; dates are stored as YYYY-MM-DD. */
+  value: string;
+};
+
+/** Placeholder key (normalized label) -> entry. */
+export type DocumentPlaceholders = Record<string, PlaceholderEntry>;
+
+export type FoundPlaceholder = {
+  key: string;
+  label: string;
+  count: number;
+};
+
+export const PERSONA_FACT_FIELDS = [
+  {
+    key: "companyName",
+    label: "Company name",
+    type: "text",
+    aliases: ["company", "company name", "brand", "brand name", "business", "business name", "organization", "organisation"]
+  },
+  {
+    key: "productName",
+    label: "Product name",
+    type: "text",
+    aliases: ["product", "product name", "service", "service name", "app", "app name"]
+  },
+  {
+    key: "url",
+    label: "Website",
+    type: "url",
+    aliases: ["url", "website", "website url", "link", "landing page", "landing page url", "site", "web address", "domain"]
+  },
+  {
+    key: "cta",
+    label: "Call to action",
+    type: "text",
+    aliases: ["cta", "call to action", "cta text", "button text"]
+  },
+  {
+    key: "phone",
+    label: "Phone",
+    type: "text",
+    aliases: ["phone", "phone number", "telephone", "contact number"]
+  },
+  {
+    key: "email",
+    label: "Email",
+    type: "text",
+    aliases: ["email", "email address", "contact email"]
+  }
+] as const satisfies ReadonlyArray<{ key: string; label: string; type: PlaceholderType; aliases: readonly string[] }>;
+
+export type PersonaFactKey = (typeof PERSONA_FACT_FIELDS)[number]["key"];
+
+export type PersonaFacts = Partial<Record<PersonaFactKey, string>>;
+
+// "[x]" task boxes, "[^1]" footnotes and "[3]" citations are not gaps; "[text](url)" is a link
+const PLACEHOLDER_PATTERN = /\[([^\[\]\n]{1,80})\](?!\()/g;
+
+function isPlaceholderLabel(label: string): boolean {
+  const trimmed = label.trim();
+  return Boolean(trimmed) && !/^[ xX]$/.test(label) && !/^\^/.test(trimmed) && !/^\d+$/.test(trimmed);
+}
+
+export function placeholderKey(label: string): string {
+  return label.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/** Distinct placeholders in order of first appearance. */
+export function findPlaceholders(content: string): FoundPlaceholder[] {
+  const found = new Map<string, FoundPlaceholder>();
+  content.replace(PLACEHOLDER_PATTERN, (match, label: string) => {
+    if (!isPlaceholderLabel(label)) return match;
+    const key = placeholderKey(label);
+    const existing = found.get(key);
+    if (existing) {
+      existing.count += 1;
+    } else {
+      found.set(key, { key, label: label.trim(), count: 1 });
+    }
+    return match;
+  });
+  return Array.from(found.values());
+}
+
+// Words compared with fact aliases: lowercase, no punctuation, no leading "your"/"the"
+function factWords(label: string): string {
+  return placeholderKey(label)
+    .replace(/[^a-z0-9 ]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/^(?:(?:your|our|the|insert|add|enter)\s+)+/, "");
+}
+
+/** The persona fact a label asks for: an exact alias, else the alias the label ends with, else one it contains. */
+export function matchPersonaFact(label: string): PersonaFactKey | null {
+  const words = factWords(label);
+  if (!words) return null;
+  let ending: { key: PersonaFactKey; length: number } | null = null;
+  let contained: { key: PersonaFactKey; length: number } | null = null;
+  for (const field of PERSONA_FACT_FIELDS) {
+    for (const alias of field.aliases) {
+      if (words === alias) return field.key;
+      if (words.endsWith(` ${alias}`) && (!ending || alias.length > ending.length)) {
+        ending = { key: field.key, length: alias.length };
+      } else if (` ${words} `.includes(` ${alias} `) && (!contained || alias.length > contained.length)) {
+        contained = { key: field.key, length: alias.length };
+      }
+    }
+  }
+  return ending?.key ?? contained?.key ?? null;
+}
+
+export function inferPlaceholderType(label: string): PlaceholderType {
+  const fact = matchPersonaFact(label);
+  if (fact) {
+    return PERSONA_FACT_FIELDS.find((field) => field.key === fact)?.type ?? "text";
+  }
+  const words = factWords(label);
+  if (/\b(?:url|link|website|domain)\b/.test(words)) return "url";
+  if (/\b(?:date|deadline|day)\b/.test(words)) return "date";
+  if (/\b(?:price|cost|fee|amount|rate)\b/.test(words) || /[$€£]/.test(label)) return "price";
+  return "text";
+}
+
+function isPlaceholderType(value: unknown): value is PlaceholderType {
+  return typeof value === "string" && (PLACEHOLDER_TYPES as readonly string[]).includes(value);
+}
+
+/** Reads the stored JSON defensively; malformed entries are dropped. */
+export function readDocumentPlaceholders(raw: unknown): DocumentPlaceholders {
+  const placeholders: DocumentPlaceholders = {};
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return placeholders;
+  Object.entries(raw as Record<string, unknown>).forEach(([key, entry]) => {
+    if (!entry || typeof entry !== "object") return;
+    const { label, type, value } = entry as Record<string, unknown>;
+    if (typeof label !== "string" || !isPlaceholderType(type)) return;
+    placeholders[key] = { label, type, value: typeof value === "string" ? value : "" };
+  });
+  return placeholders;
+}
+
+export function readPersonaFacts(raw: unknown): PersonaFacts {
+  const facts: PersonaFacts = {};
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return facts;
+  const record = raw as Record<string, unknown>;
+  PERSONA_FACT_FIELDS.forEach((field) => {
+    const value = record[field.key];
+    if (typeof value === "string" && value.trim()) {
+      facts[field.key] = value.trim();
+    }
+  });
+  return facts;
+}
+
+/**
+ * Entries for the placeholders currently in `content`: stored types and values carry over, new
+ * labels get an inferred type and no value, and labels no longer in the text are dropped.
+ */
+export function syncPlaceholders(content: string, stored?: DocumentPlaceholders | null): DocumentPlaceholders {
+  const placeholders: DocumentPlaceholders = {};
+  findPlaceholders(content).forEach(({ key, label }) => {
+    placeholders[key] = stored?.[key] ?? { label, type: inferPlaceholderType(label), value: "" };
+  });
+  return placeholders;
+}
+
+/** Fills empty entries that ask for a persona fact; filled entries are never overwritten. */
+export function autofillPlaceholders(
+  placeholders: DocumentPlaceholders,
+  facts: PersonaFacts | null | undefined
+): { placeholders: DocumentPlaceholders; filled: number } {
+  if (!facts) return { placeholders, filled: 0 };
+  const next: DocumentPlaceholders = { ...placeholders };
+  let filled = 0;
+  Object.entries(placeholders).forEach(([key, entry]) => {
+    if (entry.value.trim()) return;
+    const fact = matchPersonaFact(entry.label);
+    const value = fact ? facts[fact]?.trim() : undefined;
+    if (value) {
+      next[key] = { ...entry, value };
+      filled += 1;
+    }
+  });
+  return { placeholders: next, filled };
+}
+
+/** Applies values by placeholder key; filled entries change only with `overwrite`. */
+export function fillPlaceholders(
+  placeholders: DocumentPlaceholders,
+  values: Record<string, string>,
+  overwrite = false
+): { placeholders: DocumentPlaceholders; filled: number } {
+  const next: DocumentPlaceholders = { ...placeholders };
+  let filled = 0;
+  Object.entries(values).forEach(([key, value]) => {
+    const entry = next[placeholderKey(key)];
+    const trimmed = value.trim();
+    if (!entry || !trimmed || entry.value === trimmed || (entry.value.trim() && !overwrite)) return;
+    next[placeholderKey(key)] = { ...entry, value: trimmed };
+    filled += 1;
+  });
+  return { placeholders: next, filled };
+}
+
+/** Why a value does not fit its type, or null when it does (empty values are unresolved, not invalid). */
+export function validatePlaceholderValue(type: PlaceholderType, value: string): string | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  switch (type) {
+    case "url":
+      try {
+        const url = new URL(/^[a-z][a-z0-9+.-]*:/i.test(trimmed) ? trimmed : `https://${trimmed}`);
+        if ((url.protocol === "http:" || url.protocol === "https:") && url.hostname.includes(".")) return null;
+      } catch {
+        // Falls through to the message below
+      }
+      return "Enter a web address, like https://example.com.";
+    case "date":
+      return Number.isNaN(Date.parse(trimmed)) ? "Enter a date." : null;
+    case "price":
+      return /^(?:[A-Z]{3}\s?)?[$€£¥]?\s?\d[\d,]*(?:\.\d{1,2})?(?:\s?(?:[A-Z]{3}|[$€£¥]))?$/.test(trimmed)
+        ? null
+        : "Enter a price, like $49 or 49.99 USD.";
+    default:
+      return null;
+  }
+}
+
+/** The text substituted for a filled entry; ISO dates read as "March 1, 2026". */
+export function formatPlaceholderValue(entry: PlaceholderEntry): string {
+  const value = entry.value.trim();
+  const iso = entry.type === "date" ? /^(\d{4})-(\d{2})-(\d{2})$/.exec(value) : null;
+  if (!iso) return value;
+  return new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3])).toLocaleDateString("en-US", {
+    month: "long",
+    day: "numeric",
+    year: "numeric"
+  });
+}
+
+/** Content with every filled placeholder replaced by its value; unfilled ones keep their brackets. */
+export function resolvePlaceholders(content: string, placeholders: DocumentPlaceholders | null | undefined): string {
+  if (!placeholders) return content;
+  return content.replace(PLACEHOLDER_PATTERN, (match, label: string) => {
+    const entry = isPlaceholderLabel(label) ? placeholders[placeholderKey(label)] : undefined;
+    return entry?.value.trim() ? formatPlaceholderValue(entry) : match;
+  });
+}
+
+/** Labels in `content` that still have no value. */
+export function unresolvedPlaceholders(content: string, placeholders: DocumentPlaceholders | null | undefined): string[] {
+  return findPlaceholders(content)
+    .filter(({ key }) => !placeholders?.[key]?.value.trim())
+    .map(({ label }) => label);
+}
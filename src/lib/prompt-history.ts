@@ -0,0 +1,183 @@
+import { Prisma, type PrismaClient } from "@prisma/client";
+import { composerSettingsSchema, type ComposerSettingsInput, type PromptHistoryKind } from "@/lib/validators";
+import { readableDocumentsWhere } from "@/lib/document-access";
+import { cursorWhere, decodeCursor, sortOrderBy, takePage } from "@/lib/pagination";
+import { readGuestUsageId, type UsageIdentifier } from "@/lib/token-usage";
+import type { PromptHistorySummary } from "@/types/writer";
+
+/** Long pasted briefs are kept up to this length. */
+const MAX_PROMPT_LENGTH = 20000;
+
+const promptHistorySelect = {
+  id: true,
+  kind: true,
+  prompt: true,
+  settings: true,
+  personaId: true,
+  personaName: true,
+  styleDocumentId: true,
+  styleGuide: true,
+  documentId: true,
+  tokens: true,
+  createdAt: true
+} satisfies Prisma.PromptHistorySelect;
+
+type PromptHistoryRow = Prisma.PromptHistoryGetPayload<{ select: typeof promptHistorySelect }>;
+
+export type PromptHistoryEntryInput = {
+  kind: PromptHistoryKind;
+  prompt: string;
+  settings?: ComposerSettingsInput | null;
+  personaId?: string | null;
+  styleId?: string | null;
+  styleGuide?: { name: string; description: string } | null;
+  documentId?: string | null;
+  tokens: number;
+};
+
+/** Whose history a request reads: the signed-in user, else the guest cookie (null before a guest's first compose). */
+export function promptHistoryOwner(
+  userId: string | null | undefined,
+  cookieStore: Parameters<typeof readGuestUsageId>[0]
+): UsageIdentifier | null {
+  if (userId) return { userId };
+  const guestId = readGuestUsageId(cookieStore);
+  return guestId ? { guestId } : null;
+}
+
+function ownerWhere(owner: UsageIdentifier) {
+  return "userId" in owner ? { userId: owner.userId } : { guestId: owner.guestId };
+}
+
+function parseStyleGuide(value: Prisma.JsonValue | null): { name: string; description: string } | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  const { name, description } = value as Record<string, unknown>;
+  return typeof name === "string" && typeof description === "string" ? { name, description } : null;
+}
+
+export function mapPromptHistorySummary(row: PromptHistoryRow): PromptHistorySummary {
+  const settings = composerSettingsSchema.safeParse(row.settings);
+  const styleGuide = parseStyleGuide(row.styleGuide);
+  return {
+    id: row.id,
+    kind: row.kind === "rewrite" ? "rewrite" : "compose",
+    prompt: row.prompt,
+    settings: row.settings && settings.success ? settings.data : null,
+    persona: row.personaName ? { id: row.personaId, name: row.personaName } : null,
+    style: styleGuide ? { id: row.styleDocumentId, ...styleGuide } : null,
+    documentId: row.documentId,
+    tokens: row.tokens,
+    createdAt: row.createdAt.toISOString()
+  };
+}
+
+/**
+ * Keeps the persona, saved style and document only when the user can open them. Guests have no
+ * saved records, so their entries keep just the style text.
+ */
+async function resolveReferences(db: PrismaClient, owner: UsageIdentifier, entry: PromptHistoryEntryInput) {
+  if (!("userId" in owner)) {
+    return { personaId: null, personaName: null, styleDocumentId: null, documentId: null };
+  }
+  const userId = owner.userId;
+  const [persona, style, document] = await Promise.all([
+    entry.personaId
+      ? db.persona.findFirst({
+          where: {
+            id: entry.personaId,
+            OR: [{ ownerId: userId }, { Workspace: { WorkspaceMember: { some: { userId } } } }]
+          },
+          select: { id: true, name: true }
+        })
+      : null,
+    entry.styleId
+      ? db.document.findFirst({
+          where: { AND: [{ id: entry.styleId, styleTitle: { not: null } }, readableDocumentsWhere(userId)] },
+          select: { id: true }
+        })
+      : null,
+    entry.documentId
+      ? db.document.findFirst({
+          where: { AND: [{ id: entry.documentId }, readableDocumentsWhere(userId)] },
+          select: { id: true }
+        })
+      : null
+  ]);
+  return {
+    personaId: persona?.id ?? null,
+    personaName: persona ? persona.name || "Untitled persona" : null,
+    styleDocumentId: style?.id ?? null,
+    documentId: document?.id ?? null
+  };
+}
+
+/** Best-effort: a failed write is logged and never fails the compose or rewrite it describes. */
+export async function recordPromptHistory(
+  db: PrismaClient,
+  owner: UsageIdentifier,
+  entry: PromptHistoryEntryInput
+): Promise<void> {
+  try {
+    const references = await resolveReferences(db, owner, entry);
+    await db.promptHistory.create({
+      data: {
+        kind: entry.kind,
+        prompt: entry.prompt.slice(0, MAX_PROMPT_LENGTH),
+        settings: entry.settings ? (entry.settings as Prisma.InputJsonValue) : Prisma.JsonNull,
+        styleGuide: entry.styleGuide ? (entry.styleGuide as Prisma.InputJsonValue) : Prisma.JsonNull,
+        tokens: Math.max(0, Math.round(entry.tokens)),
+        ...references,
+        ...ownerWhere(owner)
+      }
+    });
+  } catch (error) {
+    console.error("[prompt-history] record failed", error);
+  }
+}
+
+/**
+ * Newest first. `q` matches anywhere in the prompt (case-insensitive under the default collation).
+ * Returns null for a cursor this module did not issue.
+ */
+export async function listPromptHistory(
+  db: PrismaClient,
+  owner: UsageIdentifier,
+  options: { q?: string; kind?: PromptHistoryKind; cursor?: string; limit: number }
+): Promise<{ entries: PromptHistorySummary[]; nextCursor: string | null } | null> {
+  const cursor = decodeCursor(options.cursor);
+  if (options.cursor && !cursor) return null;
+
+  const filters: Prisma.PromptHistoryWhereInput[] = [ownerWhere(owner)];
+  if (options.kind) filters.push({ kind: options.kind });
+  if (options.q) filters.push({ prompt: { contains: options.q } });
+  if (cursor) filters.push(cursorWhere("created", cursor));
+
+  const rows = await db.promptHistory.findMany({
+    where: { AND: filters },
+    orderBy: sortOrderBy("created"),
+    take: options.limit + 1,
+    select: promptHistorySelect
+  });
+  const { items, nextCursor } = takePage(rows, options.limit, "created");
+  return { entries: items.map(mapPromptHistorySummary), nextCursor };
+}
+
+/** Removes one entry, or the owner's whole history when `id` is omitted. Returns the number removed. */
+export async function deletePromptHistory(db: PrismaClient, owner: UsageIdentifier, id?: string): Promise<number> {
+  const result = await db.promptHistory.deleteMany({
+    where: { ...ownerWhere(owner), ...(id ? { id } : {}) }
+  });
+  return result.count;
+}
+
+/** Moves the history a guest built up before signing up to their new account. */
+export async function claimGuestPromptHistory(db: PrismaClient, guestId: string, userId: string): Promise<void> {
+  try {
+    await db.promptHistory.updateMany({
+      where: { guestId },
+      data: { userId, guestId: null }
+    });
+  } catch (error) {
+    console.error("[prompt-history] guest claim failed", error);
+  }
+}
@@ -0,0 +1,187 @@
+import { Prisma, type PrismaClient } from "@prisma/client";
+import {
+  composerSettingsSchema,
+  type PromptTemplateInput,
+  type PromptTemplateUpdateInput,
+  type WorkspaceRole
+} from "@/lib/validators";
+import { canWriteWorkspace } from "@/lib/workspaces";
+import { normalizeTemplateTags, normalizeTemplateVariables, parseTemplateVariables } from "@/lib/prompt-templates";
+import type { PromptTemplateSummary } from "@/types/writer";
+
+const promptTemplateSummarySelect = {
+  id: true,
+  name: true,
+  description: true,
+  body: true,
+  variables: true,
+  settings: true,
+  folder: true,
+  tags: true,
+  ownerId: true,
+  workspaceId: true,
+  createdAt: true,
+  updatedAt: true,
+  Document: { select: { id: true, title: true, styleTitle: true, writingStyle: true, styleSummary: true } },
+  Persona: { select: { id: true, name: true } }
+} satisfies Prisma.PromptTemplateSelect;
+
+type PromptTemplateRow = Prisma.PromptTemplateGetPayload<{ select: typeof promptTemplateSummarySelect }>;
+
+type TemplateScope = { ownerId: string; workspaceId: string | null };
+
+function sameScopeWhere(scope: TemplateScope) {
+  return scope.workspaceId ? { workspaceId: scope.workspaceId } : { ownerId: scope.ownerId, workspaceId: null };
+}
+
+export function mapPromptTemplateSummary(row: PromptTemplateRow, role: WorkspaceRole | null): PromptTemplateSummary {
+  const settings = composerSettingsSchema.safeParse(row.settings);
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    body: row.body,
+    variables: parseTemplateVariables(row.body, row.variables),
+    settings: row.settings && settings.success ? settings.data : null,
+    folder: row.folder,
+    tags: Array.isArray(row.tags) ? normalizeTemplateTags(row.tags.filter((tag): tag is string => typeof tag === "string")) : [],
+    style: row.Document
+      ? {
+          id: row.Document.id,
+          title: row.Document.styleTitle || row.Document.title || "Saved Style",
+          writingStyle: row.Document.writingStyle,
+          styleSummary: row.Document.styleSummary
+        }
+      : null,
+    persona: row.Persona ? { id: row.Persona.id, name: row.Persona.name || "Untitled persona" } : null,
+    shared: Boolean(row.workspaceId),
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+    canEdit: canWriteWorkspace(role)
+  };
+}
+
+/**
+ * Keeps the style and persona only when they live in the template's workspace (or personal
+ * space), so a shared template never points members at something they cannot open.
+ */
+async function resolveAttachments(
+  db: PrismaClient,
+  scope: TemplateScope,
+  ids: { styleDocumentId?: string | null; personaId?: string | null }
+): Promise<{ styleDocumentId?: string | null; personaId?: string | null }> {
+  const where = sameScopeWhere(scope);
+  const [style, persona] = await Promise.all([
+    ids.styleDocumentId
+      ? db.document.findFirst({
+          where: { ...where, id: ids.styleDocumentId, styleTitle: { not: null } },
+          select: { id: true }
+        })
+      : null,
+    ids.personaId ? db.persona.findFirst({ where: { ...where, id: ids.personaId }, select: { id: true } }) : null
+  ]);
+  return {
+    ...(ids.styleDocumentId !== undefined ? { styleDocumentId: style?.id ?? null } : {}),
+    ...(ids.personaId !== undefined ? { personaId: persona?.id ?? null } : {})
+  };
+}
+
+/** Templates in a workspace or personal space, grouped by folder and then by name. */
+export async function listPromptTemplates(db: PrismaClient, scope: TemplateScope): Promise<PromptTemplateRow[]> {
+  return db.promptTemplate.findMany({
+    where: sameScopeWhere(scope),
+    select: promptTemplateSummarySelect,
+    orderBy: [{ folder: "asc" }, { name: "asc" }],
+    take: 500
+  });
+}
+
+export async function findPromptTemplate(db: PrismaClient, id: string): Promise<PromptTemplateRow | null> {
+  return db.promptTemplate.findUnique({ where: { id }, select: promptTemplateSummarySelect });
+}
+
+export async function createPromptTemplate(
+  db: PrismaClient,
+  scope: TemplateScope,
+  input: PromptTemplateInput
+): Promise<PromptTemplateRow> {
+  const attachments = await resolveAttachments(db, scope, input);
+  return db.promptTemplate.create({
+    data: {
+      name: input.name,
+      description: input.description || null,
+      body: input.body,
+      variables: normalizeTemplateVariables(input.body, input.variables) as Prisma.InputJsonValue,
+      settings: input.settings ? (input.settings as Prisma.InputJsonValue) : Prisma.JsonNull,
+      folder: input.folder || null,
+      tags: normalizeTemplateTags(input.tags) as Prisma.InputJsonValue,
+      ...attachments,
+      ownerId: scope.ownerId,
+      workspaceId: scope.workspaceId
+    },
+    select: promptTemplateSummarySelect
+  });
+}
+
+/** Applies a partial update. A new body re-derives the variables, keeping labels and defaults by name. */
+export async function updatePromptTemplate(
+  db: PrismaClient,
+  template: PromptTemplateRow,
+  input: PromptTemplateUpdateInput
+): Promise<PromptTemplateRow> {
+  const body = input.body ?? template.body;
+  const data: Prisma.PromptTemplateUncheckedUpdateInput = {
+    ...(await resolveAttachments(db, template, input))
+  };
+  if (input.name !== undefined) data.name = input.name;
+  if (input.description !== undefined) data.description = input.description || null;
+  if (input.body !== undefined) data.body = body;
+  if (input.body !== undefined || input.variables !== undefined) {
+    const variables = input.variables ?? parseTemplateVariables(template.body, template.variables);
+    data.variables = normalizeTemplateVariables(body, variables) as Prisma.InputJsonValue;
+  }
+  if (input.settings !== undefined) {
+    data.settings = input.settings ? (input.settings as Prisma.InputJsonValue) : Prisma.JsonNull;
+  }
+  if (input.folder !== undefined) data.folder = input.folder || null;
+  if (input.tags !== undefined) data.tags = normalizeTemplateTags(input.tags) as Prisma.InputJsonValue;
+
+  return db.promptTemplate.update({ where: { id: template.id }, data, select: promptTemplateSummarySelect });
+}
+
+export async function deletePromptTemplate(db: PrismaClient, id: string): Promise<void> {
+  await db.promptTemplate.delete({ where: { id } });
+}
+
+/** A user's personal templates, for the workspace "share" picker. */
+export async function listPersonalPromptTemplates(
+  db: PrismaClient,
+  userId: string
+): Promise<Array<{ id: string; name: string }>> {
+  return db.promptTemplate.findMany({
+    where: { ownerId: userId, workspaceId: null },
+    select: { id: true, name: true },
+    orderBy: { createdAt: "desc" },
+    take: 100
+  });
+}
+
+/**
+ * Moves a personal template into a workspace. Its style and persona stay attached only if they
+ * are already in that workspace. Returns false when the user has no such personal template.
+ */
+export async function sharePromptTemplate(
+  db: PrismaClient,
+  userId: string,
+  id: string,
+  workspaceId: string
+): Promise<boolean> {
+  const template = await db.promptTemplate.findFirst({
+    where: { id, ownerId: userId, workspaceId: null },
+    select: { styleDocumentId: true, personaId: true }
+  });
+  if (!template) return false;
+  const attachments = await resolveAttachments(db, { ownerId: userId, workspaceId }, template);
+  await db.promptTemplate.update({ where: { id }, data: { workspaceId, ...attachments } });
+  return true;
+}
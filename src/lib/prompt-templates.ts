@@ -0,0 +1,74 @@
+/**
+ * Saved prompt templates: `{{variable}}` slots (the same syntax as batch templates), their form
+ * metadata and rendering. Client-safe; `prompt-template-library.ts` reads and writes the records.
+ */
+import { renderTemplate, templateVariables } from "@/lib/batch";
+
+export const MAX_PROMPT_TEMPLATE_VARIABLES = 20;
+export const MAX_PROMPT_TEMPLATE_TAGS = 10;
+
+export type PromptTemplateVariable = {
+  name: string;
+  /** Shown above the field; defaults to the variable name. */
+  label: string | null;
+  defaultValue: string | null;
+  multiline: boolean;
+};
+
+/**
+ * One entry per variable the body uses, in order of first use. Labels and defaults are kept from
+ * `provided` by name (ignoring case); variables the body no longer uses are dropped.
+ */
+export function normalizeTemplateVariables(
+  body: string,
+  provided: Array<Partial<PromptTemplateVariable> & { name: string }> = []
+): PromptTemplateVariable[] {
+  return templateVariables(body)
+    .slice(0, MAX_PROMPT_TEMPLATE_VARIABLES)
+    .map((name) => {
+      const match = provided.find((variable) => variable.name.trim().toLowerCase() === name.toLowerCase());
+      return {
+        name,
+        label: match?.label?.trim() || null,
+        defaultValue: match?.defaultValue ?? null,
+        multiline: Boolean(match?.multiline)
+      };
+    });
+}
+
+/** Reads stored variables, falling back to plain entries for whatever the body uses. */
+export function parseTemplateVariables(body: string, value: unknown): PromptTemplateVariable[] {
+  const provided = Array.isArray(value)
+    ? value.filter(
+        (entry): entry is Partial<PromptTemplateVariable> & { name: string } =>
+          Boolean(entry) && typeof entry === "object" && typeof (entry as { name?: unknown }).name === "string"
+      )
+    : [];
+  return normalizeTemplateVariables(body, provided);
+}
+
+/** Distinct, trimmed tags in the order given. */
+export function normalizeTemplateTags(tags: string[] = []): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const raw of tags) {
+    const tag = raw.trim();
+    if (!tag || seen.has(tag.toLowerCase())) continue;
+    seen.add(tag.toLowerCase());
+    result.push(tag);
+  }
+  return result.slice(0, MAX_PROMPT_TEMPLATE_TAGS);
+}
+
+/** The default values, keyed by variable name, that prefill the variable form. */
+export function initialTemplateValues(variables: PromptTemplateVariable[]): Record<string, string> {
+  return Object.fromEntries(variables.map((variable) => [variable.name, variable.defaultValue ?? ""]));
+}
+
+/**
+ * Fills the body from the form. A variable left blank becomes a `[name]` placeholder, as in
+ * batch rows, so the draft keeps it in brackets instead of guessing.
+ */
+export function renderPromptTemplate(body: string, values: Record<string, string>): string {
+  return renderTemplate(body, values, templateVariables(body));
+}
@@ -0,0 +1,87 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  ESL_GRADE_LEVEL,
+  analyzeReadability,
+  countSyllables,
+  flagSentences,
+  readabilityTarget,
+  splitSentences
+} from "./readability";
+
+describe("readabilityTarget", () => {
+  it("reads numeric, named and ESL grade levels", () => {
+    assert.deepEqual(readabilityTarget("Grade 8"), { label: "Grade 8", grade: 8, esl: false, maxSentenceWords: 26 });
+    assert.equal(readabilityTarget("Collegiate")?.grade, 14);
+    assert.equal(readabilityTarget("PhD")?.maxSentenceWords, 40);
+    assert.deepEqual(readabilityTarget(ESL_GRADE_LEVEL), { label: "ESL", grade: 6, esl: true, maxSentenceWords: 15 });
+  });
+
+  it("has no target for Auto, blank or unknown levels", () => {
+    assert.equal(readabilityTarget(null), null);
+    assert.equal(readabilityTarget("  "), null);
+    assert.equal(readabilityTarget("Auto"), null);
+  });
+});
+
+describe("countSyllables", () => {
+  it("counts vowel groups and drops silent endings", () => {
+    assert.equal(countSyllables("cat"), 1);
+    assert.equal(countSyllables("bake"), 1);
+    assert.equal(countSyllables("baked"), 1);
+    assert.equal(countSyllables("wanted"), 2);
+    assert.equal(countSyllables("beautiful"), 3);
+    assert.equal(countSyllables("2024"), 1);
+  });
+});
+
+describe("splitSentences", () => {
+  it("splits on end punctuation with offsets into the text", () => {
+    const text = "We ship today. Will it arrive soon? Yes!";
+    const sentences = splitSentences(text);
+    assert.deepEqual(
+      sentences.map((sentence) => sentence.text),
+      ["We ship today.", "Will it arrive soon?", "Yes!"]
+    );
+    sentences.forEach((sentence) => assert.equal(text.slice(sentence.from, sentence.to), sentence.text));
+  });
+
+  it("keeps abbreviations inside a sentence and never spans lines", () => {
+    assert.deepEqual(
+      splitSentences("Dr. Lee met Mr. Park at noon.\n## Next steps\nCall them").map((sentence) => sentence.text),
+      ["Dr. Lee met Mr. Park at noon.", "## Next steps", "Call them"]
+    );
+  });
+});
+
+describe("analyzeReadability", () => {
+  it("scores plain text and leaves short headings out of the counts", () => {
+    const report = analyzeReadability("Welcome\nThe cat sat on the mat. The dog ran to the park.", null);
+    assert.equal(report.sentences, 2);
+    assert.equal(report.words, 12);
+    assert.equal(report.averageSentenceLength, 6);
+    assert.equal(report.met, null);
+    assert.deepEqual(report.flagged, []);
+  });
+
+  it("meets an easy target and misses it with dense prose", () => {
+    const target = readabilityTarget("Grade 6");
+    assert.equal(analyzeReadability("The cat sat on the mat. The dog ran to the park.", target).met, true);
+    const dense =
+      "Organizational transformation initiatives necessitate comprehensive stakeholder communication methodologies.";
+    const report = analyzeReadability(dense, target);
+    assert.equal(report.met, false);
+    assert.equal(report.flagged.length, 1);
+    assert.match(report.flagged[0].reasons[0], /^Reads at grade \d+$/);
+  });
+
+  it("flags passive voice and idioms only for ESL readers", () => {
+    const text = "The report was written by our team. It is a piece of cake.";
+    assert.deepEqual(flagSentences(text, readabilityTarget("Grade 8")), []);
+    const flagged = flagSentences(text, readabilityTarget(ESL_GRADE_LEVEL));
+    assert.deepEqual(
+      flagged.map((sentence) => sentence.reasons),
+      [["Passive voice"], ['Idiom: "piece of cake"']]
+    );
+  });
+});
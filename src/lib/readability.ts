@@ -0,0 +1,263 @@
+/**
+ * Local readability scoring for drafts: Flesch-Kincaid, Gunning Fog, SMOG, sentence length,
+ * passive voice and (for ESL) idioms, plus per-sentence flags against the brief's grade level.
+ * Pure string work, so it runs in the editor on every change.
+ */
+
+export type ReadabilityTarget = {
+  /** The `gradeLevel` setting this target was derived from. */
+  label: string;
+  grade: number;
+  esl: boolean;
+  /** Sentences longer than this are flagged regardless of their grade. */
+  maxSentenceWords: number;
+};
+
+export type SentenceReadability = {
+  /** Offsets into the analyzed text, end exclusive. */
+  from: number;
+  to: number;
+  text: string;
+  words: number;
+  grade: number;
+  passive: boolean;
+  idioms: string[];
+  /** Why the sentence misses the target; empty when it does not. */
+  reasons: string[];
+};
+
+export type ReadabilityReport = {
+  sentences: number;
+  words: number;
+  fleschKincaid: number;
+  gunningFog: number;
+  smog: number;
+  averageSentenceLength: number;
+  /** Share of sentences in the passive voice, 0-1. */
+  passiveRate: number;
+  idioms: string[];
+  flagged: SentenceReadability[];
+  target: ReadabilityTarget | null;
+  /** Whether the overall grade is within reach of the target; null without a target. */
+  met: boolean | null;
+};
+
+export const ESL_GRADE_LEVEL = "ESL (English as Second Language)";
+
+// Sentence-level grades are noisy, so a sentence has to clear the target by this much to be flagged
+const SENTENCE_GRADE_SLACK = 2;
+const OVERALL_GRADE_SLACK = 1;
+// Very short sentences get no grade flag: one long word would dominate the formula
+const MIN_GRADED_WORDS = 6;
+// Lines without end punctuation and this few words are headings or labels, not sentences
+const MAX_FRAGMENT_WORDS = 3;
+
+const NAMED_GRADES: Record<string, number> = {
+  collegiate: 14,
+  phd: 17
+};
+
+const ABBREVIATIONS = new Set("mr mrs ms dr st vs etc e.g i.e inc ltd jr sr no fig approx dept est".split(" "));
+
+const IRREGULAR_PARTICIPLES = [
+  "been", "begun", "bought", "brought", "built", "caught", "chosen", "done", "drawn", "driven",
+  "eaten", "fallen", "felt", "found", "forgotten", "given", "gone", "grown", "heard", "held",
+  "hidden", "kept", "known", "laid", "led", "left", "lent", "lost", "made", "meant", "met",
+  "paid", "put", "read", "run", "said", "seen", "sent", "set", "shown", "shut", "sold", "spent",
+  "spoken", "stolen", "struck", "taken", "taught", "thought", "told", "understood", "won", "worn",
+  "written"
+];
+
+const PASSIVE_PATTERN = new RegExp(
+  `\\b(?:am|is|are|was|were|be|been|being|get|gets|got|gotten)\\s+(?:[a-z]+ly\\s+)?(?:[a-z]+ed|${IRREGULAR_PARTICIPLES.join("|")})\\b`,
+  "i"
+);
+
+// Figurative phrases a second-language reader is likely to take literally
+const IDIOMS = [
+  "at the end of the day",
+  "back to square one",
+  "ballpark (?:figure|number|estimate)",
+  "best of both worlds",
+  "bite the bullet",
+  "break(?:s|ing)? the ice",
+  "by the book",
+  "call(?:s|ed|ing)? it a day",
+  "circle back",
+  "cut(?:s|ting)? corners",
+  "deep dive",
+  "drop in the bucket",
+  "from scratch",
+  "get the ball rolling",
+  "go(?:es|ing)? the extra mile",
+  "hands down",
+  "hit the ground running",
+  "hit(?:s|ting)? the nail on the head",
+  "in a nutshell",
+  "in hot water",
+  "in the same boat",
+  "jump(?:s|ed|ing)? on the bandwagon",
+  "keep(?:s|ing)? an eye on",
+  "learn(?:s|ed|ing)? the ropes",
+  "low-hanging fruit",
+  "move(?:s|d)? the needle",
+  "no-brainer",
+  "on the ball",
+  "on the fence",
+  "on the same page",
+  "once in a blue moon",
+  "piece of cake",
+  "pull(?:s|ed|ing)? (?:your|their|our|his|her|my) weight",
+  "rais(?:e|es|ed|ing) the bar",
+  "spill(?:s|ed|ing)? the beans",
+  "the ball is in (?:your|their|our) court",
+  "the bottom line",
+  "the last straw",
+  "think(?:ing)? outside the box",
+  "touch(?:es|ed|ing)? base",
+  "under the weather",
+  "up in the air",
+  "win-win"
+];
+
+const IDIOM_PATTERN = new RegExp(`\\b(?:${IDIOMS.join("|")})\\b`, "gi");
+const WORD_PATTERN = /[A-Za-z0-9][A-Za-z0-9'’-]*/g;
+
+/** Maps the `gradeLevel` setting to a numeric target; null for "Auto" and unrecognized values. */
+export function readabilityTarget(gradeLevel: string | null | undefined): ReadabilityTarget | null {
+  const label = gradeLevel?.trim();
+  if (!label) return null;
+  if (label === ESL_GRADE_LEVEL || /^esl\b/i.test(label)) {
+    return { label: "ESL", grade: 6, esl: true, maxSentenceWords: 15 };
+  }
+  const named = NAMED_GRADES[label.toLowerCase()];
+  const numeric = /(\d{1,2})/.exec(label);
+  const grade = named ?? (numeric ? Number(numeric[1]) : null);
+  if (grade === null) return null;
+  return { label, grade, esl: false, maxSentenceWords: Math.min(grade * 2 + 10, 40) };
+}
+
+export function countSyllables(word: string): number {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, "");
+  if (!letters) return 1;
+  if (letters.length <= 3) return 1;
+  const trimmed = letters.replace(/(?:[^laeiouy]es|[^laeiouydt]ed|[^laeiouy]e)$/, (ending) => ending.charAt(0)).replace(/^y/, "");
+  const groups = trimmed.match(/[aeiouy]+/g);
+  return Math.max(groups ? groups.length : 1, 1);
+}
+
+function wordsOf(text: string): string[] {
+  return text.match(WORD_PATTERN) ?? [];
+}
+
+// Sentence end: terminal punctuation (plus closing quotes/brackets) followed by whitespace or the end
+function isSentenceEnd(line: string, index: number): boolean {
+  const before = /([A-Za-z.]+)\.$/.exec(line.slice(0, index + 1));
+  if (line.charAt(index) === "." && before && ABBREVIATIONS.has(before[1].toLowerCase().replace(/\.$/, ""))) return false;
+  return true;
+}
+
+/** Splits text into sentences with offsets. Sentences never span lines, so headings and list items stand alone. */
+export function splitSentences(text: string): Array<{ from: number; to: number; text: string }> {
+  const sentences: Array<{ from: number; to: number; text: string }> = [];
+  let lineStart = 0;
+  text.split("\n").forEach((line) => {
+    const boundary = /[.!?]+["'’”)\]]*(?=\s|$)/g;
+    let start = 0;
+    let match: RegExpExecArray | null;
+    const push = (end: number) => {
+      const raw = line.slice(start, end);
+      const leading = raw.length - raw.replace(/^\s+/, "").length;
+      const body = raw.trim();
+      if (body && wordsOf(body).length) {
+        const from = lineStart + start + leading;
+        sentences.push({ from, to: from + body.length, text: body });
+      }
+      start = end;
+    };
+    while ((match = boundary.exec(line))) {
+      if (!isSentenceEnd(line, match.index)) continue;
+      push(match.index + match[0].length);
+    }
+    push(line.length);
+    lineStart += line.length + 1;
+  });
+  return sentences;
+}
+
+function fleschKincaidGrade(words: number, sentences: number, syllables: number): number {
+  if (!words || !sentences) return 0;
+  return 0.39 * (words / sentences) + 11.8 * (syllables / words) - 15.59;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+type ScoredSentence = { sentence: SentenceReadability; syllables: number; polysyllables: number };
+
+function analyzeSentence(span: { from: number; to: number; text: string }, target: ReadabilityTarget | null): ScoredSentence {
+  const words = wordsOf(span.text);
+  const syllableCounts = words.map(countSyllables);
+  const syllables = syllableCounts.reduce((sum, count) => sum + count, 0);
+  const polysyllables = syllableCounts.filter((count) => count >= 3).length;
+  const grade = round(fleschKincaidGrade(words.length, 1, syllables));
+  const passive = PASSIVE_PATTERN.test(span.text);
+  const idioms = Array.from(new Set((span.text.match(IDIOM_PATTERN) ?? []).map((idiom) => idiom.toLowerCase())));
+
+  const reasons: string[] = [];
+  if (target) {
+    if (words.length >= MIN_GRADED_WORDS && grade > target.grade + SENTENCE_GRADE_SLACK) {
+      reasons.push(`Reads at grade ${Math.round(grade)}`);
+    }
+    if (words.length > target.maxSentenceWords) reasons.push(`${words.length} words long`);
+    if (target.esl && passive) reasons.push("Passive voice");
+    if (target.esl && idioms.length) reasons.push(`Idiom: ${idioms.map((idiom) => `"${idiom}"`).join(", ")}`);
+  }
+  return { sentence: { ...span, words: words.length, grade, passive, idioms, reasons }, syllables, polysyllables };
+}
+
+/** Sentences of `text` that miss the target, for highlighting one editor block at a time. */
+export function flagSentences(text: string, target: ReadabilityTarget | null): SentenceReadability[] {
+  if (!target) return [];
+  return splitSentences(text)
+    .map((span) => analyzeSentence(span, target).sentence)
+    .filter((sentence) => sentence.reasons.length);
+}
+
+/** Scores plain text (run `markdownToPlainText` on markdown first) against an optional target. */
+export function analyzeReadability(text: string, target: ReadabilityTarget | null): ReadabilityReport {
+  const analyzed = splitSentences(text)
+    .map((span) => analyzeSentence(span, target))
+    .filter(({ sentence }) => sentence.words > MAX_FRAGMENT_WORDS || /[.!?]["'’”)\]]*$/.test(sentence.text));
+
+  const sentences = analyzed.length;
+  const words = analyzed.reduce((sum, entry) => sum + entry.sentence.words, 0);
+  const syllables = analyzed.reduce((sum, entry) => sum + entry.syllables, 0);
+  const polysyllables = analyzed.reduce((sum, entry) => sum + entry.polysyllables, 0);
+  const fleschKincaid = Math.max(round(fleschKincaidGrade(words, sentences, syllables)), 0);
+  const averageSentenceLength = sentences ? round(words / sentences) : 0;
+  const gunningFog = words ? round(0.4 * (averageSentenceLength + 100 * (polysyllables / words))) : 0;
+  // SMOG is normalized to 30 sentences, so short drafts are extrapolated
+  const smog = sentences ? round(1.043 * Math.sqrt(polysyllables * (30 / sentences)) + 3.1291) : 0;
+
+  return {
+    sentences,
+    words,
+    fleschKincaid,
+    gunningFog,
+    smog,
+    averageSentenceLength,
+    passiveRate: sentences ? analyzed.filter((entry) => entry.sentence.passive).length / sentences : 0,
+    idioms: Array.from(new Set(analyzed.flatMap((entry) => entry.sentence.idioms))),
+    flagged: analyzed.map((entry) => entry.sentence).filter((sentence) => sentence.reasons.length),
+    target,
+    met: target && sentences ? fleschKincaid <= target.grade + OVERALL_GRADE_SLACK : null
+  };
+}
+
+/** The `/api/rewrite` instruction for simplifying one flagged sentence. */
+export function simplifyInstruction(sentence: Pick<SentenceReadability, "reasons">, target: ReadabilityTarget): string {
+  const level = target.esl ? "an English-as-a-second-language reader" : `a ${target.label} reading level`;
+  return `Simplify this sentence for ${level} (${sentence.reasons.join("; ")}). Use short, common words and the active voice, replace idioms with literal wording, and split it into two sentences if that helps. Keep its meaning, facts and any [bracketed placeholders]. Return plain text without markdown.`;
+}
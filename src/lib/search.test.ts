@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { buildSnippet, parseSearchTerms } from "./search";
+
+describe("parseSearchTerms", () => {
+  it("requires each word as a prefix and each quoted phrase exactly", () => {
+    assert.deepEqual(parseSearchTerms('Launch "spring plan"'), {
+      highlight: ["launch", "spring plan"],
+      booleanQuery: '+launch* +"spring plan"',
+      likeTerms: []
+    });
+  });
+
+  it("matches words too short for the index with LIKE", () => {
+    assert.deepEqual(parseSearchTerms("ai launch"), { highlight: ["ai", "launch"], booleanQuery: "+launch*", likeTerms: ["ai"] });
+    assert.deepEqual(parseSearchTerms("ai"), { highlight: ["ai"], booleanQuery: null, likeTerms: ["ai"] });
+  });
+
+  it("splits words joined by operator characters instead of sending them as one token", () => {
+    assert.deepEqual(parseSearchTerms("e-mail"), { highlight: ["e-mail"], booleanQuery: "+mail*", likeTerms: ["e"] });
+    assert.deepEqual(parseSearchTerms("(follow-up)"), { highlight: ["follow-up"], booleanQuery: "+follow*", likeTerms: ["up"] });
+  });
+
+  it("drops operators so input cannot change the query", () => {
+    assert.deepEqual(parseSearchTerms('-draft +(launch)* "a<b" ~ @'), {
+      highlight: ["draft", "launch", "a b"],
+      booleanQuery: '+draft* +launch* +"a b"',
+      likeTerms: []
+    });
+  });
+});
+
+describe("buildSnippet", () => {
+  it("cuts a window around the first hit and marks every term in it", () => {
+    const source = `## Notes\n\n${"filler ".repeat(30)}The **launch plan** covers launch week.`;
+    const snippet = buildSnippet(source, ["launch", "launch plan"], 20);
+    assert.ok(snippet);
+    assert.equal(snippet.text, "filler filler The launch plan covers launch week.");
+    assert.deepEqual(
+      snippet.highlights.map(([start, end]) => snippet.text.slice(start, end)),
+      ["launch plan", "launch"]
+    );
+    assert.equal(snippet.truncatedStart, true);
+    assert.equal(snippet.truncatedEnd, false);
+  });
+
+  it("returns null when nothing matches", () => {
+    assert.equal(buildSnippet("Nothing here", ["launch"]), null);
+    assert.equal(buildSnippet(null, ["launch"]), null);
+  });
+});
@@ -0,0 +1,265 @@
+import { Prisma, type PrismaClient } from "@prisma/client";
+import { markdownToPlainText } from "@/lib/utils";
+import type { WorkspaceScope } from "@/lib/workspaces";
+import type { SearchSnippet } from "@/types/writer";
+
+// InnoDB ignores tokens shorter than innodb_ft_min_token_size (3 by default)
+const MIN_FULLTEXT_TOKEN = 3;
+const SNIPPET_RADIUS = 80;
+const OPERATOR_PATTERN = /[+\-<>()~*"@]/g;
+const EDGE_OPERATOR_PATTERN = /^[+\-<>()~*"@]+|[+\-<>()~*"@]+$/g;
+
+export type SearchTerms = {
+  /** Every word or quoted phrase, lowercased, used for highlighting. */
+  highlight: string[];
+  /** BOOLEAN MODE expression requiring each indexable term, or null when none qualify. */
+  booleanQuery: string | null;
+  /** Terms too short for the FULLTEXT index; matched with LIKE instead. */
+  likeTerms: string[];
+};
+
+export type DocumentSearchFilters = {
+  folderId?: string | null;
+  pinned?: boolean;
+  kind?: "all" | "docs" | "styles";
+  from?: Date | null;
+  to?: Date | null;
+};
+
+export type DocumentSearchHit = {
+  id: string;
+  score: number;
+};
+
+export type PersonaSearchHit = {
+  id: string;
+  name: string | null;
+  info: string;
+  score: number;
+};
+
+export function parseSearchTerms(query: string): SearchTerms {
+  const highlight: string[] = [];
+  const booleanParts: string[] = [];
+  const likeTerms: string[] = [];
+
+  const pattern = /"([^"]+)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(query)) !== null) {
+    const phrase = match[1];
+    // Strip BOOLEAN MODE operators so user input cannot change the query semantics
+    const cleaned = (phrase ?? match[2]).replace(OPERATOR_PATTERN, " ").replace(/\s+/g, " ").trim().toLowerCase();
+    if (!cleaned) continue;
+
+    if (phrase) {
+      highlight.push(cleaned);
+      booleanParts.push(`+"${cleaned}"`);
+      continue;
+    }
+    // A word joined by operator characters ("e-mail") is required word by word, but highlighted as typed
+    const words = cleaned.split(" ");
+    highlight.push(words.length > 1 ? match[2].toLowerCase().replace(EDGE_OPERATOR_PATTERN, "") : cleaned);
+    words.forEach((word) => {
+      if (word.length >= MIN_FULLTEXT_TOKEN) {
+        // Prefix match so "launch" finds "launches" and the box can search as the user types
+        booleanParts.push(`+${word}*`);
+      } else {
+        likeTerms.push(word);
+      }
+    });
+  }
+
+  return {
+    highlight,
+    booleanQuery: booleanParts.length ? booleanParts.join(" ") : null,
+    likeTerms
+  };
+}
+
+function escapeLike(term: string): string {
+  return term.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+function documentScopeSql(scope: WorkspaceScope, userId: string): Prisma.Sql {
+  if (scope.workspaceId) {
+    return Prisma.sql`d.workspaceId = ${scope.workspaceId}`;
+  }
+  return Prisma.sql`((d.ownerId = ${userId} AND d.workspaceId IS NULL)
+    OR EXISTS (SELECT 1 FROM DocumentCollaborator c WHERE c.documentId = d.id AND c.userId = ${userId}))`;
+}
+
+/**
+ * Ranks documents visible in `scope` against the FULLTEXT index on title, content, prompt and
+ * style metadata. Returns ids in relevance order; callers load the rows they need.
+ */
+export async function searchDocumentIds(
+  db: PrismaClient,
+  params: { userId: string; scope: WorkspaceScope; terms: SearchTerms; filters: DocumentSearchFilters; limit: number }
+): Promise<DocumentSearchHit[]> {
+  const { userId, scope, terms, filters, limit } = params;
+  const conditions: Prisma.Sql[] = [documentScopeSql(scope, userId)];
+
+  const matchSql = terms.booleanQuery
+    ? Prisma.sql`MATCH(d.title, d.content, d.prompt, d.styleTitle, d.styleSummary) AGAINST (${terms.booleanQuery} IN BOOLEAN MODE)`
+    : null;
+  if (matchSql) {
+    conditions.push(matchSql);
+  }
+  terms.likeTerms.forEach((term) => {
+    const like = `%${escapeLike(term)}%`;
+    conditions.push(Prisma.sql`(d.title LIKE ${like} OR d.content LIKE ${like} OR d.prompt LIKE ${like})`);
+  });
+
+  if (filters.folderId) {
+    conditions.push(
+      Prisma.sql`EXISTS (SELECT 1 FROM DocumentFolder f WHERE f.documentId = d.id AND f.folderId = ${filters.folderId})`
+    );
+  }
+  if (filters.pinned) {
+    conditions.push(Prisma.sql`d.pinned = true`);
+  }
+  if (filters.kind === "styles") {
+    conditions.push(Prisma.sql`d.styleTitle IS NOT NULL`);
+  } else if (filters.kind === "docs") {
+    conditions.push(Prisma.sql`d.styleTitle IS NULL`);
+  }
+  if (filters.from) {
+    conditions.push(Prisma.sql`d.updatedAt >= ${filters.from}`);
+  }
+  if (filters.to) {
+    conditions.push(Prisma.sql`d.updatedAt <= ${filters.to}`);
+  }
+
+  const rows = await db.$queryRaw<Array<{ id: string; score: number | null }>>`
+    SELECT d.id, ${matchSql ?? Prisma.sql`0`} AS score
+    FROM Document d
+    WHERE ${Prisma.join(conditions, " AND ")}
+    ORDER BY score DESC, d.updatedAt DESC
+    LIMIT ${limit}
+  `;
+  return rows.map((row: { id: string; score: number | null }) => ({ id: row.id, score: Number(row.score ?? 0) }));
+}
+
+/**
+ * Ranks non-style documents by NATURAL LANGUAGE relevance to free text such as a compose prompt.
+ * Unlike `searchDocumentIds` no term is required, so long prompts still find partial matches.
+ */
+export async function rankDocumentsForText(
+  db: PrismaClient,
+  params: { userId: string; scope: WorkspaceScope; text: string; folderId?: string | null; excludeId?: string | null; limit: number }
+): Promise<DocumentSearchHit[]> {
+  const { userId, scope, text, folderId, excludeId, limit } = params;
+  const query = text.replace(/[+\-<>()~*"@]/g, " ").replace(/\s+/g, " ").trim();
+  if (!query) return [];
+
+  const matchSql = Prisma.sql`MATCH(d.title, d.content, d.prompt, d.styleTitle, d.styleSummary) AGAINST (${query} IN NATURAL LANGUAGE MODE)`;
+  const conditions: Prisma.Sql[] = [documentScopeSql(scope, userId), Prisma.sql`d.styleTitle IS NULL`, matchSql];
+  if (folderId) {
+    conditions.push(
+      Prisma.sql`EXISTS (SELECT 1 FROM DocumentFolder f WHERE f.documentId = d.id AND f.folderId = ${folderId})`
+    );
+  }
+  if (excludeId) {
+    conditions.push(Prisma.sql`d.id <> ${excludeId}`);
+  }
+
+  const rows = await db.$queryRaw<Array<{ id: string; score: number | null }>>`
+    SELECT d.id, ${matchSql} AS score
+    FROM Document d
+    WHERE ${Prisma.join(conditions, " AND ")}
+    ORDER BY score DESC
+    LIMIT ${limit}
+  `;
+  return rows.map((row: { id: string; score: number | null }) => ({ id: row.id, score: Number(row.score ?? 0) }));
+}
+
+/** Personas visible in `scope`, ranked against the FULLTEXT index on name and info. */
+export async function searchPersonas(
+  db: PrismaClient,
+  params: { userId: string; scope: WorkspaceScope; terms: SearchTerms; limit: number }
+): Promise<PersonaSearchHit[]> {
+  const { userId, scope, terms, limit } = params;
+  const conditions: Prisma.Sql[] = [
+    scope.workspaceId
+      ? Prisma.sql`p.workspaceId = ${scope.workspaceId}`
+      : Prisma.sql`p.ownerId = ${userId} AND p.workspaceId IS NULL`
+  ];
+
+  const matchSql = terms.booleanQuery
+    ? Prisma.sql`MATCH(p.name, p.info) AGAINST (${terms.booleanQuery} IN BOOLEAN MODE)`
+    : null;
+  if (matchSql) {
+    conditions.push(matchSql);
+  }
+  terms.likeTerms.forEach((term) => {
+    const like = `%${escapeLike(term)}%`;
+    conditions.push(Prisma.sql`(p.name LIKE ${like} OR p.info LIKE ${like})`);
+  });
+
+  const rows = await db.$queryRaw<Array<Omit<PersonaSearchHit, "score"> & { score: number | null }>>`
+    SELECT p.id, p.name, p.info, ${matchSql ?? Prisma.sql`0`} AS score
+    FROM Persona p
+    WHERE ${Prisma.join(conditions, " AND ")}
+    ORDER BY score DESC, p.updatedAt DESC
+    LIMIT ${limit}
+  `;
+  return rows.map((row) => ({ ...row, score: Number(row.score ?? 0) }));
+}
+
+/**
+ * Cuts a window of plain text around the first matching term and records every term
+ * occurrence inside it as [start, end) offsets, so the client can highlight without HTML.
+ */
+export function buildSnippet(source: string | null | undefined, terms: string[], radius = SNIPPET_RADIUS): SearchSnippet | null {
+  const text = markdownToPlainText(source ?? "").replace(/\s+/g, " ").trim();
+  if (!text) return null;
+
+  const lower = text.toLowerCase();
+  const firstHit = terms.reduce((best, term) => {
+    const index = lower.indexOf(term);
+    return index !== -1 && (best === -1 || index < best) ? index : best;
+  }, -1);
+  if (firstHit === -1) return null;
+
+  let start = Math.max(0, firstHit - radius);
+  let end = Math.min(text.length, firstHit + radius * 2);
+  // Snap to word boundaries so the snippet does not open or close mid-word
+  if (start > 0) {
+    const space = text.indexOf(" ", start);
+    if (space !== -1 && space < firstHit) start = space + 1;
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(" ", end);
+    if (space > firstHit) end = space;
+  }
+
+  const excerpt = text.slice(start, end);
+  const excerptLower = excerpt.toLowerCase();
+  const highlights: Array<[number, number]> = [];
+  terms.forEach((term) => {
+    let index = excerptLower.indexOf(term);
+    while (index !== -1) {
+      highlights.push([index, index + term.length]);
+      index = excerptLower.indexOf(term, index + term.length);
+    }
+  });
+
+  // Merge overlapping ranges (e.g. "launch" inside "launch plan")
+  highlights.sort((a, b) => a[0] - b[0]);
+  const merged = highlights.reduce<Array<[number, number]>>((acc, range) => {
+    const last = acc[acc.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      acc.push([range[0], range[1]]);
+    }
+    return acc;
+  }, []);
+
+  return {
+    text: excerpt,
+    highlights: merged,
+    truncatedStart: start > 0,
+    truncatedEnd: end < text.length
+  };
+}
@@ -0,0 +1,128 @@
+import { Prisma, type PrismaClient } from "@prisma/client";
+import { resolveRecordRole } from "@/lib/workspaces";
+import type { GroundingSource } from "@/types/writer";
+
+const MAX_SOURCE_CHUNKS = 5;
+const MAX_SOURCE_CONTEXT_CHARS = 5000;
+
+export type SourcePassage = {
+  sourceId: string;
+  title: string;
+  text: string;
+};
+
+export type SourceContext = {
+  passages: SourcePassage[];
+  sources: GroundingSource[];
+};
+
+const EMPTY_CONTEXT: SourceContext = { passages: [], sources: [] };
+
+/**
+ * Sources attached to the persona and folder in play, skipping any the user cannot read
+ * (a stale persona id from another workspace must not leak its attachments).
+ */
+export async function resolveContextSourceIds(
+  db: PrismaClient,
+  params: { userId: string; personaId?: string | null; folderId?: string | null }
+): Promise<string[]> {
+  const { userId, personaId, folderId } = params;
+  const [persona, folder] = await Promise.all([
+    personaId
+      ? db.persona.findUnique({
+          where: { id: personaId },
+          select: { ownerId: true, workspaceId: true, PersonaSource: { select: { sourceId: true } } }
+        })
+      : null,
+    folderId
+      ? db.folder.findUnique({
+          where: { id: folderId },
+          select: { ownerId: true, workspaceId: true, FolderSource: { select: { sourceId: true } } }
+        })
+      : null
+  ]);
+
+  const ids = new Set<string>();
+  if (persona && (await resolveRecordRole(db, persona, userId))) {
+    persona.PersonaSource.forEach((entry: { sourceId: string }) => ids.add(entry.sourceId));
+  }
+  if (folder && (await resolveRecordRole(db, folder, userId))) {
+    folder.FolderSource.forEach((entry: { sourceId: string }) => ids.add(entry.sourceId));
+  }
+  return Array.from(ids);
+}
+
+/**
+ * The chunks of `sourceIds` most relevant to `query` by FULLTEXT natural-language ranking.
+ * When nothing matches (short or off-topic prompts) each source contributes its opening chunk,
+ * which for guidelines and product sheets usually holds the essentials.
+ */
+export async function retrieveSourceContext(
+  db: PrismaClient,
+  params: { sourceIds: string[]; query: string }
+): Promise<SourceContext> {
+  const { sourceIds } = params;
+  if (!sourceIds.length) return EMPTY_CONTEXT;
+  const query = params.query.replace(/[+\-<>()~*"@]/g, " ").replace(/\s+/g, " ").trim();
+
+  let rows: Array<{ sourceId: string; position: number; content: string }> = [];
+  if (query) {
+    rows = await db.$queryRaw<Array<{ sourceId: string; position: number; content: string }>>`
+      SELECT c.sourceId, c.position, c.content
+      FROM SourceChunk c
+      WHERE c.sourceId IN (${Prisma.join(sourceIds)})
+        AND MATCH(c.content) AGAINST (${query} IN NATURAL LANGUAGE MODE)
+      ORDER BY MATCH(c.content) AGAINST (${query} IN NATURAL LANGUAGE MODE) DESC
+      LIMIT ${MAX_SOURCE_CHUNKS}
+    `;
+  }
+  if (!rows.length) {
+    rows = await db.sourceChunk.findMany({
+      where: { sourceId: { in: sourceIds }, position: 0 },
+      select: { sourceId: true, position: true, content: true },
+      take: MAX_SOURCE_CHUNKS
+    });
+  }
+  if (!rows.length) return EMPTY_CONTEXT;
+
+  const titles = await db.source.findMany({
+    where: { id: { in: Array.from(new Set(rows.map((row) => row.sourceId))) } },
+    select: { id: true, title: true }
+  });
+  const titleById = new Map<string, string>(titles.map((row: { id: string; title: string }) => [row.id, row.title]));
+
+  const passages: SourcePassage[] = [];
+  const sources: GroundingSource[] = [];
+  let budget = MAX_SOURCE_CONTEXT_CHARS;
+  rows.forEach((row) => {
+    if (budget <= 0) return;
+    const title = titleById.get(row.sourceId) ?? "Source";
+    const text = row.content.slice(0, budget);
+    budget -= text.length;
+    passages.push({ sourceId: row.sourceId, title, text });
+    if (!sources.some((source) => source.id === row.sourceId)) {
+      sources.push({ id: row.sourceId, kind: "source", title });
+    }
+  });
+  return { passages, sources };
+}
+
+/** Source context for one compose or rewrite request; failures only cost the extra context. */
+export async function loadSourceContext(
+  db: PrismaClient,
+  params: { userId: string; personaId?: string | null; folderId?: string | null; query: string }
+): Promise<SourceContext> {
+  try {
+    const sourceIds = await resolveContextSourceIds(db, params);
+    return await retrieveSourceContext(db, { sourceIds, query: params.query });
+  } catch (error) {
+    console.error("[sources] context retrieval failed", error);
+    return EMPTY_CONTEXT;
+  }
+}
+
+export function buildSourcesSection(passages: SourcePassage[]): string {
+  if (!passages.length) return "";
+  const excerpts = passages.map((passage) => `From "${passage.title}":\n${passage.text}`).join("\n\n");
+  return `\n\nReference Sources (uploaded brand guidelines and product material):\n${excerpts}\n\nFollow the guidelines in these sources and take facts from them. Anything they do not cover stays in [brackets]; do not quote or mention the sources themselves.`;
+}
@@ -0,0 +1,337 @@
+import { lookup } from "dns/promises";
+import { isIP, type LookupFunction } from "net";
+import mammoth from "mammoth";
+import { Agent, fetch, type Response } from "undici";
+import { extractText, getDocumentProxy } from "unpdf";
+
+export const SOURCE_KINDS = ["pdf", "docx", "md", "txt", "url"] as const;
+export type SourceKind = (typeof SOURCE_KINDS)[number];
+
+export const MAX_SOURCE_BYTES = 10 * 1024 * 1024;
+const URL_FETCH_TIMEOUT_MS = 15_000;
+const MAX_URL_REDIRECTS = 5;
+
+export type ParsedSource = {
+  kind: SourceKind;
+  title: string;
+  text: string;
+  byteSize: number;
+};
+
+/** Raised for input the user can fix (wrong file type, unreachable URL); routes return it as a 400. */
+export class SourceParseError extends Error {}
+
+const EXTENSION_KINDS: Record<string, Exclude<SourceKind, "url">> = {
+  pdf: "pdf",
+  docx: "docx",
+  md: "md",
+  markdown: "md",
+  txt: "txt",
+  text: "txt"
+};
+
+export function detectFileKind(fileName: string, mimeType: string): Exclude<SourceKind, "url"> | null {
+  const extension = fileName.split(".").pop()?.toLowerCase() ?? "";
+  if (EXTENSION_KINDS[extension]) return EXTENSION_KINDS[extension];
+  if (mimeType === "application/pdf") return "pdf";
+  if (mimeType === "application/vnd.openxmlformats-officedocument.wordprocessingml.document") return "docx";
+  if (mimeType === "text/markdown") return "md";
+  if (mimeType === "text/plain") return "txt";
+  return null;
+}
+
+function titleFromFileName(fileName: string): string {
+  const base = fileName.replace(/\.[^.]+$/, "").replace(/[_-]+/g, " ").trim();
+  return base || "Untitled source";
+}
+
+function normalizeText(text: string): string {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .replace(/[ \t\f\v]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+async function extractPdfText(bytes: Uint8Array): Promise<string> {
+  const pdf = await getDocumentProxy(bytes);
+  const { text } = await extractText(pdf, { mergePages: false });
+  return text.join("\n\n");
+}
+
+async function extractDocxText(bytes: Uint8Array): Promise<string> {
+  const result = await mammoth.extractRawText({ buffer: Buffer.from(bytes) });
+  return result.value;
+}
+
+async function extractTextByKind(kind: Exclude<SourceKind, "url">, bytes: Uint8Array): Promise<string> {
+  try {
+    if (kind === "pdf") return await extractPdfText(bytes);
+    if (kind === "docx") return await extractDocxText(bytes);
+  } catch (error) {
+    console.error("[sources] parse failed", { kind, error });
+    throw new SourceParseError(`That ${kind.toUpperCase()} file could not be read.`);
+  }
+  return new TextDecoder("utf-8").decode(bytes);
+}
+
+export async function parseSourceFile(file: { name: string; type: string; bytes: Uint8Array }): Promise<ParsedSource> {
+  const kind = detectFileKind(file.name, file.type);
+  if (!kind) {
+    throw new SourceParseError("Upload a PDF, DOCX, Markdown or plain text file.");
+  }
+  if (file.bytes.byteLength > MAX_SOURCE_BYTES) {
+    throw new SourceParseError("Sources are limited to 10 MB.");
+  }
+  const text = normalizeText(await extractTextByKind(kind, file.bytes));
+  if (!text) {
+    // Scanned PDFs have no text layer; OCR is out of scope
+    throw new SourceParseError("No readable text was found in that file.");
+  }
+  return { kind, title: titleFromFileName(file.name), text, byteSize: file.bytes.byteLength };
+}
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " " };
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCharCode(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/** Readable text of an HTML page: drops scripts, styles and chrome, keeps block breaks. */
+export function htmlToText(html: string): { title: string | null; text: string } {
+  const titleMatch = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+  const body = html
+    .replace(/<(script|style|noscript|svg|nav|footer|header|form)[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<!--[\s\S]*?-->/g, " ")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|section|article|li|h[1-6]|tr|blockquote|pre)>/gi, "\n\n")
+    .replace(/<[^>]+>/g, " ");
+  const text = decodeEntities(body)
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .join("\n");
+  return {
+    title: titleMatch ? decodeEntities(titleMatch[1]).replace(/\s+/g, " ").trim() || null : null,
+    text: normalizeText(text)
+  };
+}
+
+function parseIpv6(address: string): number[] | null {
+  let text = address;
+  // An embedded IPv4 tail (::ffff:10.0.0.1) becomes its two hextets
+  const ipv4Tail = /(\d+)\.(\d+)\.(\d+)\.(\d+)$/.exec(text);
+  if (ipv4Tail) {
+    const [a, b, c, d] = ipv4Tail.slice(1).map(Number);
+    text = `${text.slice(0, ipv4Tail.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+  const [head, tail, ...rest] = text.split("::");
+  if (rest.length) return null;
+  const headParts = head ? head.split(":") : [];
+  const tailParts = tail ? tail.split(":") : [];
+  const missing = 8 - headParts.length - tailParts.length;
+  if (tail === undefined ? missing !== 0 : missing < 1) return null;
+  const hextets = [...headParts, ...Array<string>(tail === undefined ? 0 : missing).fill("0"), ...tailParts].map((part) =>
+    /^[0-9a-f]{1,4}$/i.test(part) ? parseInt(part, 16) : NaN
+  );
+  return hextets.some(Number.isNaN) ? null : hextets;
+}
+
+function isPrivateIpv4(address: string): boolean {
+  const [a, b] = address.split(".").map(Number);
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    a >= 224 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168)
+  );
+}
+
+/** Loopback, private, link-local, unique-local, carrier-grade NAT, multicast and unspecified addresses. */
+function isPrivateAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 4) return isPrivateIpv4(address);
+  if (version !== 6) return true;
+  const hextets = parseIpv6(address);
+  if (!hextets) return true;
+  const [first] = hextets;
+  const upperZero = hextets.slice(0, 5).every((hextet) => hextet === 0);
+  // IPv4-mapped (::ffff:a.b.c.d) and IPv4-compatible (::a.b.c.d) addresses reach the IPv4 host
+  if (upperZero && (hextets[5] === 0xffff || hextets[5] === 0)) {
+    if (hextets[5] === 0 && hextets[6] === 0 && hextets[7] <= 1) return true;
+    const ipv4 = [hextets[6] >> 8, hextets[6] & 0xff, hextets[7] >> 8, hextets[7] & 0xff].join(".");
+    return isPrivateIpv4(ipv4);
+  }
+  return (first & 0xfe00) === 0xfc00 || (first & 0xffc0) === 0xfe80 || (first & 0xff00) === 0xff00;
+}
+
+/**
+ * Resolves a host and rejects it unless it is, or resolves to, only public addresses. Every
+ * address must pass, since the fetch may connect to any of them.
+ */
+async function resolvePublicHost(hostname: string): Promise<string[]> {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, "");
+  if (host === "localhost" || host.endsWith(".localhost") || host.endsWith(".local") || host.endsWith(".internal")) {
+    throw new SourceParseError("Only public http(s) URLs can be added as sources.");
+  }
+  let addresses: string[];
+  if (isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      addresses = (await lookup(host, { all: true, verbatim: true })).map((entry) => entry.address);
+    } catch {
+      throw new SourceParseError("That URL could not be reached.");
+    }
+  }
+  if (!addresses.length || addresses.some(isPrivateAddress)) {
+    throw new SourceParseError("Only public http(s) URLs can be added as sources.");
+  }
+  return addresses;
+}
+
+// Connects only to the addresses already checked; resolving the name again at connect time would
+// let a DNS answer that changes in between (rebinding) point the request at an internal host
+function pinnedAgent(addresses: string[]): Agent {
+  const entries = addresses.map((address) => ({ address, family: isIP(address) }));
+  const lookup: LookupFunction = (_hostname, options, callback) => {
+    if (options.all) callback(null, entries);
+    else callback(null, entries[0].address, entries[0].family);
+  };
+  return new Agent({ connect: { lookup } });
+}
+
+function assertFetchableUrl(url: URL): void {
+  if ((url.protocol !== "https:" && url.protocol !== "http:") || url.username || url.password) {
+    throw new SourceParseError("Only public http(s) URLs can be added as sources.");
+  }
+}
+
+/**
+ * Follows redirects by hand so every hop's host is checked before it is contacted; automatic
+ * following would let a public page bounce the server to an internal one. Each hop connects to
+ * the addresses its check resolved. Call `close` once the final response body is read.
+ */
+async function fetchPublicUrl(
+  url: URL,
+  signal: AbortSignal
+): Promise<{ response: Response; url: URL; close: () => Promise<void> }> {
+  let current = url;
+  for (let hop = 0; ; hop += 1) {
+    assertFetchableUrl(current);
+    const agent = pinnedAgent(await resolvePublicHost(current.hostname));
+    let response: Response;
+    try {
+      response = await fetch(current, {
+        headers: { Accept: "text/html,text/plain,text/markdown,application/pdf;q=0.9,*/*;q=0.5" },
+        redirect: "manual",
+        signal,
+        dispatcher: agent
+      });
+    } catch {
+      await agent.destroy();
+      throw new SourceParseError("That URL could not be reached.");
+    }
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return { response, url: current, close: () => agent.destroy() };
+    }
+    await response.body?.cancel();
+    await agent.destroy();
+    if (hop >= MAX_URL_REDIRECTS) {
+      throw new SourceParseError("That URL redirects too many times.");
+    }
+    try {
+      current = new URL(location, current);
+    } catch {
+      throw new SourceParseError("That URL redirects to an invalid address.");
+    }
+  }
+}
+
+// Stops reading as soon as the body passes the cap instead of buffering whatever the server sends
+async function readBodyWithLimit(response: Response): Promise<Uint8Array> {
+  if (!response.body) return new Uint8Array(0);
+  const reader = response.body.getReader() as ReadableStreamDefaultReader<Uint8Array>;
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    let chunk: ReadableStreamReadResult<Uint8Array>;
+    try {
+      chunk = await reader.read();
+    } catch {
+      throw new SourceParseError("That URL could not be reached.");
+    }
+    if (chunk.done) break;
+    total += chunk.value.byteLength;
+    if (total > MAX_SOURCE_BYTES) {
+      await reader.cancel().catch(() => undefined);
+      throw new SourceParseError("Sources are limited to 10 MB.");
+    }
+    chunks.push(chunk.value);
+  }
+  const bytes = new Uint8Array(total);
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  });
+  return bytes;
+}
+
+export async function fetchUrlSource(rawUrl: string): Promise<ParsedSource> {
+  let requested: URL;
+  try {
+    requested = new URL(rawUrl);
+  } catch {
+    throw new SourceParseError("Enter a valid URL.");
+  }
+
+  const { response, url, close } = await fetchPublicUrl(requested, AbortSignal.timeout(URL_FETCH_TIMEOUT_MS));
+  let bytes: Uint8Array;
+  try {
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new SourceParseError(`That URL responded with ${response.status}.`);
+    }
+    const declaredLength = Number(response.headers.get("content-length") ?? "0");
+    if (declaredLength > MAX_SOURCE_BYTES) {
+      await response.body?.cancel();
+      throw new SourceParseError("Sources are limited to 10 MB.");
+    }
+    bytes = await readBodyWithLimit(response);
+  } finally {
+    await close();
+  }
+  const contentType = response.headers.get("content-type")?.split(";")[0].trim().toLowerCase() ?? "";
+  const fallbackTitle = url.hostname + (url.pathname === "/" ? "" : url.pathname);
+
+  let title: string | null = null;
+  let text: string;
+  if (contentType === "application/pdf") {
+    text = await extractTextByKind("pdf", bytes);
+  } else if (contentType.includes("html") || !contentType) {
+    const page = htmlToText(new TextDecoder("utf-8").decode(bytes));
+    title = page.title;
+    text = page.text;
+  } else if (contentType.startsWith("text/")) {
+    text = new TextDecoder("utf-8").decode(bytes);
+  } else {
+    throw new SourceParseError("That URL does not point to a web page, PDF or text file.");
+  }
+
+  text = normalizeText(text);
+  if (!text) {
+    throw new SourceParseError("No readable text was found at that URL.");
+  }
+  return { kind: "url", title: (title || fallbackTitle).slice(0, 255), text, byteSize: bytes.byteLength };
+}
@@ -0,0 +1,132 @@
+import type { Prisma, PrismaClient } from "@prisma/client";
+import { splitPassages } from "@/lib/grounding";
+import type { WorkspaceRole } from "@/lib/validators";
+import { canWriteWorkspace } from "@/lib/workspaces";
+import type { SourceSummary } from "@/types/writer";
+import type { ParsedSource } from "./parse";
+
+// Larger than grounding passages: a source chunk is retrieved whole, a document passage is an excerpt
+const SOURCE_CHUNK_CHARS = 1200;
+const MAX_SOURCE_CHUNKS = 400;
+
+export const sourceSummarySelect = {
+  id: true,
+  title: true,
+  kind: true,
+  fileName: true,
+  url: true,
+  byteSize: true,
+  characterCount: true,
+  createdAt: true,
+  ownerId: true,
+  workspaceId: true,
+  _count: { select: { SourceChunk: true } },
+  PersonaSource: { select: { Persona: { select: { id: true, name: true } } } },
+  FolderSource: { select: { Folder: { select: { id: true, name: true } } } }
+} as const;
+
+type SourceSummaryRow = {
+  id: string;
+  title: string;
+  kind: string;
+  fileName: string | null;
+  url: string | null;
+  byteSize: number;
+  characterCount: number;
+  createdAt: Date;
+  _count: { SourceChunk: number };
+  PersonaSource: Array<{ Persona: { id: string; name: string | null } }>;
+  FolderSource: Array<{ Folder: { id: string; name: string } }>;
+};
+
+export function mapSourceSummary(row: SourceSummaryRow, role: WorkspaceRole | null): SourceSummary {
+  return {
+    id: row.id,
+    title: row.title,
+    kind: row.kind as SourceSummary["kind"],
+    fileName: row.fileName,
+    url: row.url,
+    byteSize: row.byteSize,
+    characterCount: row.characterCount,
+    chunkCount: row._count.SourceChunk,
+    createdAt: row.createdAt.toISOString(),
+    personas: row.PersonaSource.map((entry) => ({ id: entry.Persona.id, name: entry.Persona.name || "Untitled persona" })),
+    folders: row.FolderSource.map((entry) => entry.Folder),
+    canEdit: canWriteWorkspace(role)
+  };
+}
+
+export function chunkSourceText(text: string): string[] {
+  return splitPassages(text, SOURCE_CHUNK_CHARS).slice(0, MAX_SOURCE_CHUNKS);
+}
+
+/** Stores a parsed upload with its chunks in one transaction. */
+export async function createSource(
+  db: PrismaClient,
+  params: { parsed: ParsedSource; ownerId: string; workspaceId: string | null; fileName?: string | null; url?: string | null }
+) {
+  const { parsed, ownerId, workspaceId } = params;
+  const chunks = chunkSourceText(parsed.text);
+  return db.$transaction(async (tx: Prisma.TransactionClient) => {
+    const source = await tx.source.create({
+      data: {
+        title: parsed.title,
+        kind: parsed.kind,
+        fileName: params.fileName ?? null,
+        url: params.url ?? null,
+        byteSize: parsed.byteSize,
+        characterCount: parsed.text.length,
+        ownerId,
+        workspaceId
+      }
+    });
+    await tx.sourceChunk.createMany({
+      data: chunks.map((content, position) => ({ sourceId: source.id, position, content }))
+    });
+    return source;
+  });
+}
+
+/**
+ * Replaces a source's persona and/or folder attachments. Ids outside the source's own scope
+ * (another workspace, someone else's personal space) are dropped rather than rejected.
+ */
+export async function replaceSourceAttachments(
+  db: PrismaClient,
+  params: {
+    source: { id: string; ownerId: string; workspaceId: string | null };
+    personaIds?: string[];
+    folderIds?: string[];
+  }
+) {
+  const { source, personaIds, folderIds } = params;
+  const sameScope = source.workspaceId
+    ? { workspaceId: source.workspaceId }
+    : { ownerId: source.ownerId, workspaceId: null };
+
+  const [personas, folders] = await Promise.all([
+    personaIds ? db.persona.findMany({ where: { id: { in: personaIds }, ...sameScope }, select: { id: true } }) : null,
+    folderIds ? db.folder.findMany({ where: { id: { in: folderIds }, ...sameScope }, select: { id: true } }) : null
+  ]);
+
+  const operations: Prisma.PrismaPromise<unknown>[] = [];
+  if (personas) {
+    operations.push(
+      db.personaSource.deleteMany({ where: { sourceId: source.id } }),
+      db.personaSource.createMany({
+        data: personas.map((persona: { id: string }) => ({ personaId: persona.id, sourceId: source.id }))
+      })
+    );
+  }
+  if (folders) {
+    operations.push(
+      db.folderSource.deleteMany({ where: { sourceId: source.id } }),
+      db.folderSource.createMany({
+        data: folders.map((folder: { id: string }) => ({ folderId: folder.id, sourceId: source.id }))
+      })
+    );
+  }
+  if (operations.length) {
+    await db.$transaction(operations);
+  }
+}
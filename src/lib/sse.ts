@@ -0,0 +1,51 @@
+export type ServerSentEvent = {
+  type: string;
+  [key: string]: any;
+};
+
+/**
+ * Reads a `text/event-stream` response body and hands every `data:` payload to `onEvent`.
+ * Resolves when the stream ends; rejects with an AbortError if the request signal fires.
+ */
+export async function readEventStream(
+  response: Response,
+  onEvent: (event: ServerSentEvent) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error("Response has no body to stream.");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const flush = (chunk: string) => {
+    for (const line of chunk.split("\n")) {
+      if (!line.startsWith("data: ")) continue;
+      try {
+        onEvent(JSON.parse(line.slice(6)));
+      } catch (parseError) {
+        console.warn("Failed to parse SSE message", parseError);
+      }
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const messages = buffer.split("\n\n");
+    buffer = messages.pop() || "";
+    messages.forEach(flush);
+  }
+
+  buffer += decoder.decode();
+  if (buffer.trim()) {
+    flush(buffer);
+  }
+}
+
+export function isAbortError(error: unknown): boolean {
+  return typeof error === "object" && error !== null && (error as { name?: unknown }).name === "AbortError";
+}
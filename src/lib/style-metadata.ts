@@ -1,5 +1,4 @@
-import type OpenAI from "openai";
-import { getOpenAIClient } from "./openai";
+import { getLLMProvider, type LLMProvider } from "./llm";
 import { stripMarkdownFromTitle } from "./utils";
 
 export type StyleMetadataInput = {
@@ -15,7 +14,7 @@ export type StyleMetadataResult = {
   tokensUsed: number;
 };
 
-function sanitizeStyleTitle(rawTitle: string | null | undefined): string | null {
+export function sanitizeStyleTitle(rawTitle: string | null | undefined): string | null {
   if (!rawTitle) return null;
   let clean = stripMarkdownFromTitle(rawTitle)
     .replace(/^["']|["']$/g, "")
@@ -36,42 +35,42 @@ function sanitizeStyleTitle(rawTitle: string | null | undefined): string | null
   return clean;
 }
 
-function sanitizeStyleSummary(rawSummary: string | null | undefined): string | null {
+export function sanitizeStyleSummary(rawSummary: string | null | undefined): string | null {
   if (!rawSummary) return null;
   const normalized = rawSummary.replace(/\s+/g, " ").trim();
   if (!normalized) return null;
   return normalized.length > 200 ? normalized.slice(0, 200) : normalized;
 }
 
-function resolveOpenAIClient(explicitClient?: OpenAI | null): OpenAI | null {
-  if (explicitClient !== undefined) return explicitClient;
+function resolveProvider(explicitProvider?: LLMProvider | null): LLMProvider | null {
+  if (explicitProvider !== undefined) return explicitProvider;
   try {
-    return getOpenAIClient();
+    return getLLMProvider();
   } catch (error) {
-    console.warn("[style-metadata] OpenAI unavailable, skipping AI style metadata generation.", error);
+    console.warn("[style-metadata] LLM provider unavailable, skipping AI style metadata generation.", error);
     return null;
   }
 }
 
 export async function generateStyleMetadata(
   input: StyleMetadataInput,
-  options: { openai?: OpenAI | null } = {}
+  options: { provider?: LLMProvider | null } = {}
 ): Promise<StyleMetadataResult> {
-  const openai = resolveOpenAIClient(options.openai);
+  const llm = resolveProvider(options.provider);
   let tokensUsed = 0;
   let styleTitle = sanitizeStyleTitle(input.styleTitle);
   let styleSummary = sanitizeStyleSummary(input.styleSummary);
   const descriptor = (input.writingStyle ?? input.content ?? "")?.trim();
 
-  if (openai && descriptor) {
+  if (llm && descriptor) {
     if (!styleTitle || !styleSummary) {
       try {
-        const response = await openai.responses.create({
-          model: "gpt-5.1",
+        const response = await llm.generate({
+          task: "analysis",
           temperature: 0.5,
-          max_output_tokens: 200,
-          response_format: { type: "json_object" },
-          input: [
+          maxOutputTokens: 200,
+          json: true,
+          messages: [
             {
               role: "system",
               content: `You are a writing style analyst. Analyze the given writing style and return a JSON object with exactly these fields:
@@ -86,10 +85,10 @@ Return ONLY valid JSON, no other text.`
             }
           ]
         });
-        tokensUsed += response.usage?.total_tokens ?? 0;
+        tokensUsed += response.usage.totalTokens;
         
         try {
-          const jsonText = response.output_text?.trim() ?? null;
+          const jsonText = response.text || null;
           if (jsonText) {
             const parsed = JSON.parse(jsonText);
             if (!styleTitle && parsed.title) {
@@ -100,7 +99,7 @@ Return ONLY valid JSON, no other text.`
             }
           }
         } catch (parseError) {
-          console.error("[style-metadata] Failed to parse JSON response", parseError, response.output_text);
+          console.error("[style-metadata] Failed to parse JSON response", parseError, response.text);
         }
       } catch (error) {
         console.error("[style-metadata] Failed to generate style metadata", error);
@@ -115,3 +114,42 @@ Return ONLY valid JSON, no other text.`
   };
 }
 
+/**
+ * A 2-3 sentence description of the text's writing style. Falls back to the raw response when
+ * the model does not return JSON; throws when the call itself fails.
+ */
+export async function describeWritingStyle(
+  content: string,
+  options: { provider: LLMProvider; signal?: AbortSignal }
+): Promise<{ writingStyle: string | null; tokensUsed: number }> {
+  const response = await options.provider.generate({
+    task: "analysis",
+    temperature: 0.4,
+    maxOutputTokens: 200,
+    json: true,
+    messages: [
+      {
+        role: "system",
+        content: `You are a writing analyst. Analyze the writing style of the given text and return a JSON object with exactly this field:
+- "description": A 2-3 sentence description of the writing style focusing on tone, voice, structure, vocabulary choices, and any distinctive characteristics.
+
+Return ONLY valid JSON with the "description" field, no other text.`
+      },
+      {
+        role: "user",
+        content: `Analyze the writing style of this text:\n\n${content}\n\nReturn JSON with "description" field.`
+      }
+    ],
+    signal: options.signal
+  });
+
+  let writingStyle: string | null = null;
+  try {
+    const parsed = response.text ? JSON.parse(response.text) : null;
+    writingStyle = parsed?.description?.trim() || null;
+  } catch (parseError) {
+    console.error("[style-metadata] Failed to parse style description JSON", parseError, response.text);
+    writingStyle = response.text || null;
+  }
+  return { writingStyle, tokensUsed: response.usage.totalTokens };
+}
@@ -0,0 +1,103 @@
+export type DiffLineType = "same" | "added" | "removed" | "empty";
+
+export type DiffCell = {
+  type: DiffLineType;
+  text: string;
+  lineNumber: number | null;
+};
+
+export type DiffRow = {
+  left: DiffCell;
+  right: DiffCell;
+};
+
+// LCS is O(n*m) in memory; beyond this many cells fall back to a whole-block replacement
+const MAX_LCS_CELLS = 4_000_000;
+
+const EMPTY_CELL: DiffCell = { type: "empty", text: "", lineNumber: null };
+
+type LineOp = { type: "same" | "added" | "removed"; text: string };
+
+function diffLineOps(before: string[], after: string[]): LineOp[] {
+  const n = before.length;
+  const m = after.length;
+
+  if (n * m > MAX_LCS_CELLS) {
+    return [
+      ...before.map((text) => ({ type: "removed" as const, text })),
+      ...after.map((text) => ({ type: "added" as const, text }))
+    ];
+  }
+
+  // lengths[i][j] = LCS length of before[i..] and after[j..]
+  const lengths: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i][j] =
+        before[i] === after[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const ops: LineOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (before[i] === after[j]) {
+      ops.push({ type: "same", text: before[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      ops.push({ type: "removed", text: before[i++] });
+    } else {
+      ops.push({ type: "added", text: after[j++] });
+    }
+  }
+  while (i < n) ops.push({ type: "removed", text: before[i++] });
+  while (j < m) ops.push({ type: "added", text: after[j++] });
+  return ops;
+}
+
+/**
+ * Line-level diff laid out for a side-by-side view. Runs of removed/added lines are paired
+ * row by row so edited paragraphs line up; unmatched lines get an empty cell opposite.
+ */
+export function diffMarkdownSideBySide(before: string, after: string): DiffRow[] {
+  const ops = diffLineOps(before.split("\n"), after.split("\n"));
+  const rows: DiffRow[] = [];
+  let leftLine = 1;
+  let rightLine = 1;
+  let index = 0;
+
+  while (index < ops.length) {
+    const op = ops[index];
+    if (op.type === "same") {
+      rows.push({
+        left: { type: "same", text: op.text, lineNumber: leftLine++ },
+        right: { type: "same", text: op.text, lineNumber: rightLine++ }
+      });
+      index++;
+      continue;
+    }
+
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (index < ops.length && ops[index].type !== "same") {
+      if (ops[index].type === "removed") removed.push(ops[index].text);
+      else added.push(ops[index].text);
+      index++;
+    }
+    const span = Math.max(removed.length, added.length);
+    for (let k = 0; k < span; k++) {
+      rows.push({
+        left: k < removed.length ? { type: "removed", text: removed[k], lineNumber: leftLine++ } : EMPTY_CELL,
+        right: k < added.length ? { type: "added", text: added[k], lineNumber: rightLine++ } : EMPTY_CELL
+      });
+    }
+  }
+
+  return rows;
+}
+
+export function countChangedRows(rows: DiffRow[]): number {
+  return rows.filter((row) => row.left.type !== "same").length;
+}
@@ -0,0 +1,75 @@
+import type { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+
+/** Token allowance per user or guest (`LLM_TOKEN_LIMIT`); 0 disables the check. */
+export const TOKEN_LIMIT = Number(process.env.LLM_TOKEN_LIMIT ?? "500000");
+
+export type UsageIdentifier = { userId: string } | { guestId: string };
+export type UsageContext = { identifier: UsageIdentifier; guestCookie?: string };
+
+/** Identifies a guest for token usage and prompt history; claimed by the account they sign up with. */
+export const GUEST_USAGE_COOKIE = "guest_usage_id";
+
+type CookieReader = { get(name: string): { value: string } | undefined };
+
+export function readGuestUsageId(cookieStore: CookieReader): string | null {
+  return cookieStore.get(GUEST_USAGE_COOKIE)?.value || null;
+}
+
+/** The signed-in user, or the guest cookie; a first-time guest gets a new id to set on the response. */
+export function resolveUsageContext(userId: string | null | undefined, cookieStore: CookieReader): UsageContext {
+  if (userId) {
+    return { identifier: { userId } };
+  }
+  const guestId = readGuestUsageId(cookieStore);
+  if (guestId) {
+    return { identifier: { guestId } };
+  }
+  const guestCookie = crypto.randomUUID();
+  return { identifier: { guestId: guestCookie }, guestCookie };
+}
+
+export function attachGuestUsageCookie(response: NextResponse, context?: UsageContext | null) {
+  if (!context?.guestCookie) return;
+  response.cookies.set(GUEST_USAGE_COOKIE, context.guestCookie, {
+    maxAge: 60 * 60 * 24 * 30,
+    path: "/"
+  });
+}
+
+export async function findTokenUsage(identifier: UsageIdentifier) {
+  if (!prisma) return null;
+  if ("userId" in identifier) {
+    return prisma.tokenUsage.findUnique({ where: { userId: identifier.userId } });
+  }
+  return prisma.tokenUsage.findUnique({ where: { guestId: identifier.guestId } });
+}
+
+export async function incrementTokenUsage(identifier: UsageIdentifier, amount: number) {
+  if (!prisma || amount <= 0) return;
+  if ("userId" in identifier) {
+    await prisma.tokenUsage.upsert({
+      where: { userId: identifier.userId },
+      update: { tokens: { increment: amount } },
+      create: { userId: identifier.userId, tokens: amount }
+    });
+    return;
+  }
+  await prisma.tokenUsage.upsert({
+    where: { guestId: identifier.guestId },
+    update: { tokens: { increment: amount } },
+    create: { guestId: identifier.guestId, tokens: amount }
+  });
+}
+
+/** Whether the allowance is used up; a failed lookup does not block. */
+export async function tokenAllowanceReached(identifier: UsageIdentifier): Promise<boolean> {
+  if (TOKEN_LIMIT <= 0) return false;
+  try {
+    const usage = await findTokenUsage(identifier);
+    return (usage?.tokens ?? 0) >= TOKEN_LIMIT;
+  } catch (error) {
+    console.error("[token-usage] usage lookup failed", error);
+    return false;
+  }
+}
@@ -224,3 +224,19 @@ export function markdownToPlainText(markdown: string): string {
     .trim();
 }
 
+
+/**
+ * Pulls a user-facing message out of an API error payload: either a plain `error` string
+ * or the first field (or form-level) error from a flattened zod error.
+ */
+export function readApiErrorMessage(payload: any, fallback: string): string {
+  if (typeof payload?.error === "string") return payload.error;
+  const fieldErrors = payload?.error?.fieldErrors;
+  if (fieldErrors && typeof fieldErrors === "object") {
+    const first = Object.values(fieldErrors).flat()[0];
+    if (typeof first === "string") return first;
+  }
+  const formError = payload?.error?.formErrors?.[0];
+  if (typeof formError === "string") return formError;
+  return fallback;
+}
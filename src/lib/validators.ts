@@ -1,4 +1,10 @@
 import { z } from "zod";
+import { MAX_COMPOSE_VARIANTS, MIN_COMPOSE_VARIANTS } from "@/lib/variants";
+import { CHANNEL_PRESET_IDS } from "@/lib/channel-presets";
+import { PLACEHOLDER_TYPES } from "@/lib/placeholders";
+import { DEFAULT_BATCH_CONCURRENCY, MAX_BATCH_COLUMNS, MAX_BATCH_CONCURRENCY, MAX_BATCH_ROWS } from "@/lib/batch";
+import { JOB_KINDS } from "@/lib/jobs/types";
+import { MAX_PROMPT_TEMPLATE_TAGS, MAX_PROMPT_TEMPLATE_VARIABLES } from "@/lib/prompt-templates";
 
 export const marketTiers = ["MASS", "PREMIUM", "LUXURY", "UHNW"] as const;
 
@@ -23,7 +29,9 @@ export const composerSettingsSchema = z.object({
   wordLength: z.number().int().positive().max(1500).nullable(),
   gradeLevel: z.string().max(32).nullable(),
   benchmark: z.string().max(120).nullable(),
-  avoidWords: z.string().max(200).nullable()
+  avoidWords: z.string().max(200).nullable(),
+  // Platform format (ad, post, email, SMS, store listing); compose returns its fields instead of free copy
+  channelPreset: z.enum(CHANNEL_PRESET_IDS).nullable().optional()
 });
 
 export type ComposerSettingsInput = z.infer<typeof composerSettingsSchema>;
@@ -35,6 +43,12 @@ const editorContextSchema = z.object({
   documentId: z.string().optional()
 });
 
+// Ground the draft in passages from the user's saved documents, optionally one folder's
+export const composeGroundingSchema = z.object({
+  enabled: z.boolean(),
+  folderId: z.string().min(1).nullable().optional()
+});
+
 export const composeRequestSchema = z.object({
   prompt: z.string().min(10, "Share more detail"),
   settings: composerSettingsSchema,
@@ -45,7 +59,98 @@ export const composeRequestSchema = z.object({
       description: z.string().min(1).max(1500)
     })
     .optional(),
-  editorContext: editorContextSchema.optional()
+  // The saved style `styleGuide` was taken from, kept with the prompt history entry
+  styleId: z.string().min(1).nullable().optional(),
+  editorContext: editorContextSchema.optional(),
+  grounding: composeGroundingSchema.optional(),
+  // Selects which persona's attached sources join the context
+  personaId: z.string().min(1).nullable().optional(),
+  // Alternative drafts generated side by side; omitted for a single draft
+  variants: z.number().int().min(MIN_COMPOSE_VARIANTS).max(MAX_COMPOSE_VARIANTS).optional(),
+  // Runs a second pass over drafts the house-rule linter flags
+  repairRules: z.boolean().optional()
+});
+
+// One compose per CSV row; `template` and `titleTemplate` use {{column}} variables
+export const batchComposeRequestSchema = z.object({
+  folderName: z.string().trim().min(1, "Name the folder").max(120),
+  template: z.string().min(10, "Share more detail").max(8000),
+  titleTemplate: z.string().max(200).nullable().optional(),
+  columns: z.array(z.string().min(1).max(200)).min(1).max(MAX_BATCH_COLUMNS),
+  rows: z
+    .array(z.record(z.string(), z.string().max(5000)))
+    .min(1, "The CSV has no rows.")
+    .max(MAX_BATCH_ROWS, `Batches are limited to ${MAX_BATCH_ROWS} rows.`),
+  settings: composerSettingsSchema,
+  personaSummary: composeRequestSchema.shape.personaSummary,
+  styleGuide: composeRequestSchema.shape.styleGuide,
+  personaId: composeRequestSchema.shape.personaId,
+  repairRules: z.boolean().optional(),
+  concurrency: z.number().int().min(1).max(MAX_BATCH_CONCURRENCY).default(DEFAULT_BATCH_CONCURRENCY)
+});
+
+// A compose run as a background job; the draft is saved as a new document, optionally in `folderId`
+export const composeJobSchema = composeRequestSchema
+  .pick({ prompt: true, settings: true, personaSummary: true, styleGuide: true, grounding: true, personaId: true, repairRules: true })
+  .extend({ folderId: z.string().min(1).nullable().optional() });
+
+// Describes a saved document's writing style; `titleFromStyle` renames it after the generated style title
+export const styleJobSchema = z.object({
+  documentId: z.string().min(1),
+  titleFromStyle: z.boolean().optional().default(false)
+});
+
+// `input` is validated by the schema of the job kind
+export const jobCreateSchema = z.object({
+  kind: z.enum(JOB_KINDS),
+  input: z.unknown()
+});
+
+export const jobListQuerySchema = z.object({
+  kind: z.enum(JOB_KINDS).optional(),
+  // Only queued and running jobs
+  active: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((value) => value === "true"),
+  limit: z.coerce.number().int().min(1).max(100).default(20)
+});
+
+export const placeholderEntrySchema = z.object({
+  label: z.string().trim().min(1).max(80),
+  type: z.enum(PLACEHOLDER_TYPES),
+  value: z.string().max(500)
+});
+
+// Keyed by normalized label, so one value fills every occurrence
+export const documentPlaceholdersSchema = z
+  .record(z.string().min(1).max(80), placeholderEntrySchema)
+  .refine((value) => Object.keys(value).length <= 100, { message: "Limit documents to 100 placeholders." });
+
+const personaFactSchema = z.string().trim().max(300).nullable().optional();
+
+// One entry per PERSONA_FACT_FIELDS key
+export const personaFactsSchema = z.object({
+  companyName: personaFactSchema,
+  productName: personaFactSchema,
+  url: personaFactSchema,
+  cta: personaFactSchema,
+  phone: personaFactSchema,
+  email: personaFactSchema
+});
+
+export const personaFactsUpdateSchema = z.object({
+  personaId: z.string().min(1),
+  facts: personaFactsSchema
+});
+
+export const folderPlaceholderFillSchema = z.object({
+  // Placeholder key -> value; empty values are skipped
+  values: z.record(z.string().min(1).max(80), z.string().max(500)).optional().default({}),
+  // Also fill labels that match this persona's facts
+  personaId: z.string().min(1).nullable().optional(),
+  // Replace values documents already have
+  overwrite: z.boolean().optional().default(false)
 });
 
 export const documentSchema = z.object({
@@ -58,6 +163,8 @@ export const documentSchema = z.object({
   gradeLevel: z.string().max(32).nullable().optional(),
   benchmark: z.string().max(120).nullable().optional(),
   avoidWords: z.string().max(200).nullable().optional(),
+  channelPreset: z.enum(CHANNEL_PRESET_IDS).nullable().optional(),
+  placeholders: documentPlaceholdersSchema.nullable().optional(),
   writingStyle: z.string().nullable().optional(),
   styleTitle: z.string().max(100).nullable().optional(),
   styleSummary: z.string().max(200).nullable().optional(),
@@ -80,6 +187,217 @@ export const folderAssignSchema = z.object({
   documentId: z.string().min(1, "Document is required.")
 });
 
+export const documentSorts = ["pinned", "updated", "created", "title"] as const;
+
+export const documentListQuerySchema = z.object({
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+  sort: z.enum(documentSorts).default("pinned"),
+  kind: z.enum(["all", "docs", "styles"]).default("all"),
+  folderId: z.string().min(1).optional()
+});
+
+export const folderListQuerySchema = z.object({
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(60)
+});
+
+const attachmentIdsSchema = z.array(z.string().min(1)).max(50, "Attach a source to at most 50 items.");
+
+export const sourceUrlSchema = z.object({
+  url: z.string().trim().url("Enter a valid URL.").max(2000),
+  personaIds: attachmentIdsSchema.optional(),
+  folderIds: attachmentIdsSchema.optional()
+});
+
+export const sourceUpdateSchema = z.object({
+  title: z.string().trim().min(1, "Title is required.").max(255).optional(),
+  personaIds: attachmentIdsSchema.optional(),
+  folderIds: attachmentIdsSchema.optional()
+});
+
+export const similarDocumentsQuerySchema = z.object({
+  // An editor selection to match instead of the whole document
+  text: z.string().trim().max(4000).optional(),
+  limit: z.coerce.number().int().min(1).max(20).default(8)
+});
+
+export const searchQuerySchema = z.object({
+  q: z.string().trim().min(1, "Enter something to search for.").max(200),
+  folderId: z.string().min(1).optional(),
+  pinned: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((value) => value === "true"),
+  kind: z.enum(["all", "docs", "styles"]).default("all"),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20)
+});
+
+export const documentVersionReasons = ["autosave", "compose", "rewrite", "restore", "manual"] as const;
+
+export const documentVersionCreateSchema = z.object({
+  reason: z.enum(documentVersionReasons).default("manual"),
+  // Unsaved editor content; falls back to the stored document when omitted
+  content: z.string().optional(),
+  title: z.string().max(255).optional()
+});
+
+export const documentCollaboratorSchema = z.object({
+  email: z.string().email("Enter a valid email address."),
+  role: z.enum(["editor", "viewer"]).default("editor")
+});
+
+export const workspaceRoles = ["owner", "editor", "viewer"] as const;
+
+export const workspaceCreateSchema = z.object({
+  name: z.string().trim().min(1, "Workspace name is required.").max(120, "Workspace name must be 120 characters or less.")
+});
+
+export const workspaceActivateSchema = z.object({
+  // null switches back to the personal space
+  workspaceId: z.string().min(1).nullable()
+});
+
+export const workspaceInvitationSchema = z.object({
+  email: z.string().email("Enter a valid email address."),
+  role: z.enum(workspaceRoles).default("editor")
+});
+
+export const workspaceInvitationAcceptSchema = z.object({
+  token: z.string().min(1).max(200)
+});
+
+export const workspaceMemberUpdateSchema = z.object({
+  role: z.enum(workspaceRoles)
+});
+
+export const workspaceShareSchema = z.object({
+  kind: z.enum(["persona", "style", "folder", "prompt"]),
+  id: z.string().min(1)
+});
+
+export const exportFormats = ["docx", "pdf", "txt", "md", "html", "rtf", "odt", "epub", "csv"] as const;
+export const pdfPageSizes = ["letter", "a4", "legal"] as const;
+export const pdfFonts = ["helvetica", "times", "courier"] as const;
+
+// Margins are in points (72 per inch)
+const pdfMarginSchema = z.number().min(18).max(144);
+
+export const pdfExportOptionsSchema = z.object({
+  pageSize: z.enum(pdfPageSizes).default("letter"),
+  margins: z
+    .object({ top: pdfMarginSchema, right: pdfMarginSchema, bottom: pdfMarginSchema, left: pdfMarginSchema })
+    .partial()
+    .default({}),
+  font: z.enum(pdfFonts).default("helvetica"),
+  fontSize: z.number().min(8).max(18).default(11),
+  // `{page}`, `{pages}` and `{title}` are filled in on every page
+  header: z.string().trim().max(200).nullable().optional(),
+  footer: z.string().trim().max(200).nullable().optional(),
+  pageNumbers: z.boolean().default(true)
+});
+
+export const docxTitlePageSchema = z.object({
+  enabled: z.boolean().default(false),
+  subtitle: z.string().trim().max(200).nullable().optional(),
+  preparedFor: z.string().trim().max(200).nullable().optional(),
+  preparedBy: z.string().trim().max(200).nullable().optional(),
+  showDate: z.boolean().default(true)
+});
+
+export const docxExportOptionsSchema = z.object({
+  // Omitted: the active persona's template, else the workspace default. null exports without one.
+  templateId: z.string().min(1).nullable().optional(),
+  // Overrides the template's saved title page settings
+  titlePage: docxTitlePageSchema.optional()
+});
+
+export const exportRequestSchema = z.object({
+  title: z.string().min(1, "Title and content required"),
+  content: z.string().min(1, "Title and content required"),
+  format: z.enum(exportFormats).default("docx"),
+  pdf: pdfExportOptionsSchema.default({}),
+  docx: docxExportOptionsSchema.default({})
+});
+
+export const bulkExportRequestSchema = z
+  .object({
+    folderId: z.string().min(1).optional(),
+    documentIds: z.array(z.string().min(1)).min(1).max(200, "Export at most 200 documents at a time.").optional(),
+    format: z.enum(exportFormats).default("docx"),
+    pdf: pdfExportOptionsSchema.default({}),
+    docx: docxExportOptionsSchema.default({}),
+    // Documents with unfilled placeholders are refused unless this is set
+    allowUnresolved: z.boolean().optional().default(false)
+  })
+  .refine((value) => Boolean(value.folderId) !== Boolean(value.documentIds), {
+    message: "Choose a folder or a list of documents to export."
+  });
+
+export const exportTemplateUpdateSchema = z.object({
+  name: z.string().trim().min(1).max(120).optional(),
+  isDefault: z.boolean().optional(),
+  titlePage: docxTitlePageSchema.nullable().optional(),
+  personaIds: z.array(z.string().min(1)).max(50).optional()
+});
+
+export const promptTemplateVariableSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  label: z.string().trim().max(80).nullable().optional(),
+  defaultValue: z.string().max(1000).nullable().optional(),
+  multiline: z.boolean().optional()
+});
+
+// A reusable compose prompt; `body` uses {{variable}} slots filled in before composing
+export const promptTemplateSchema = z.object({
+  name: z.string().trim().min(1, "Name the template").max(120),
+  description: z.string().trim().max(300).nullable().optional(),
+  body: z.string().trim().min(10, "Share more detail").max(8000),
+  variables: z.array(promptTemplateVariableSchema).max(MAX_PROMPT_TEMPLATE_VARIABLES).optional(),
+  settings: composerSettingsSchema.nullable().optional(),
+  folder: z.string().trim().max(80).nullable().optional(),
+  tags: z.array(z.string().trim().min(1).max(40)).max(MAX_PROMPT_TEMPLATE_TAGS).optional(),
+  // A saved style (a document with a writing style) and persona applied with the template
+  styleDocumentId: z.string().min(1).nullable().optional(),
+  personaId: z.string().min(1).nullable().optional()
+});
+
+export const promptTemplateUpdateSchema = promptTemplateSchema.partial();
+
+export const promptHistoryKinds = ["compose", "rewrite"] as const;
+
+export const promptHistoryQuerySchema = z.object({
+  // Matched against the prompt text
+  q: z.string().trim().max(200).optional(),
+  kind: z.enum(promptHistoryKinds).optional(),
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20)
+});
+
+export type ComposeGroundingInput = z.infer<typeof composeGroundingSchema>;
+export type BatchComposeRequest = z.infer<typeof batchComposeRequestSchema>;
+export type ComposeJobInput = z.infer<typeof composeJobSchema>;
+export type StyleJobInput = z.infer<typeof styleJobSchema>;
+export type DocumentVersionReason = (typeof documentVersionReasons)[number];
+export type DocumentVersionCreateInput = z.infer<typeof documentVersionCreateSchema>;
+export type DocumentCollaboratorInput = z.infer<typeof documentCollaboratorSchema>;
+export type WorkspaceRole = (typeof workspaceRoles)[number];
+export type WorkspaceInvitationInput = z.infer<typeof workspaceInvitationSchema>;
+export type WorkspaceShareInput = z.infer<typeof workspaceShareSchema>;
+export type DocumentSort = (typeof documentSorts)[number];
+export type DocumentListQueryInput = z.infer<typeof documentListQuerySchema>;
+export type SourceUpdateInput = z.infer<typeof sourceUpdateSchema>;
+export type SearchQueryInput = z.infer<typeof searchQuerySchema>;
 export type FolderCreateInput = z.infer<typeof folderCreateSchema>;
 export type FolderAssignInput = z.infer<typeof folderAssignSchema>;
-
+export type ExportFormat = (typeof exportFormats)[number];
+export type PdfExportOptions = z.infer<typeof pdfExportOptionsSchema>;
+export type BulkExportRequest = z.infer<typeof bulkExportRequestSchema>;
+export type DocxTitlePage = z.infer<typeof docxTitlePageSchema>;
+export type ExportTemplateUpdateInput = z.infer<typeof exportTemplateUpdateSchema>;
+export type PromptTemplateInput = z.infer<typeof promptTemplateSchema>;
+export type PromptTemplateUpdateInput = z.infer<typeof promptTemplateUpdateSchema>;
+export type PromptHistoryKind = (typeof promptHistoryKinds)[number];
+export type PromptHistoryQueryInput = z.infer<typeof promptHistoryQuerySchema>;
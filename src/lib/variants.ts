@@ -0,0 +1,59 @@
+export const MIN_COMPOSE_VARIANTS = 2;
+export const MAX_COMPOSE_VARIANTS = 5;
+
+export type VariantAngle = {
+  label: string;
+  temperature: number;
+  /** Extra brief line steering this variant away from the others; null keeps the base brief. */
+  directive: string | null;
+};
+
+// The first angle is the regular draft, so variant 1 always matches a single-draft compose
+export const VARIANT_ANGLES: VariantAngle[] = [
+  { label: "Balanced", temperature: 0.62, directive: null },
+  {
+    label: "Bold",
+    temperature: 0.85,
+    directive: "Take a bolder angle: lead with the most striking point and let the sentences land harder."
+  },
+  {
+    label: "Tight",
+    temperature: 0.45,
+    directive: "Take the leanest angle: keep only what the reader needs and cut every soft sentence."
+  },
+  {
+    label: "Story-led",
+    temperature: 0.8,
+    directive: "Open with a concrete moment or example and let the message grow out of it."
+  },
+  {
+    label: "Plainspoken",
+    temperature: 0.55,
+    directive: "Take a plainspoken angle: say the benefit up front in everyday words, as one person talking to another."
+  }
+];
+
+export function variantAngles(count: number): VariantAngle[] {
+  const clamped = Math.min(Math.max(Math.round(count), MIN_COMPOSE_VARIANTS), MAX_COMPOSE_VARIANTS);
+  return VARIANT_ANGLES.slice(0, clamped);
+}
+
+/** Splits a markdown draft into blank-line separated blocks, the unit variants are merged by. */
+export function splitVariantParagraphs(markdown: string): string[] {
+  return markdown
+    .replace(/\r\n/g, "\n")
+    .split(/\n\s*\n/)
+    .map((block) => block.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Builds a merged draft from one pick per paragraph row: `picks[row]` is the index of the
+ * variant whose paragraph at that row is kept, or null to drop the row.
+ */
+export function mergeVariantParagraphs(paragraphs: string[][], picks: Array<number | null>): string {
+  return picks
+    .map((variant, row) => (variant === null ? null : paragraphs[variant]?.[row] ?? null))
+    .filter((block): block is string => Boolean(block))
+    .join("\n\n");
+}
@@ -0,0 +1,113 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import type { PrismaClient } from "@prisma/client";
+import type { WorkspaceRole } from "@/lib/validators";
+
+/**
+ * The content a user sees: their personal space (workspaceId null, where they own everything)
+ * or the workspace selected in the sidebar, stored on User.activeWorkspaceId.
+ */
+export type WorkspaceScope = {
+  workspaceId: string | null;
+  role: WorkspaceRole;
+};
+
+const PERSONAL_SCOPE: WorkspaceScope = { workspaceId: null, role: "owner" };
+
+const ROLE_RANK: Record<WorkspaceRole, number> = { viewer: 0, editor: 1, owner: 2 };
+
+export function normalizeWorkspaceRole(value: unknown): WorkspaceRole | null {
+  return value === "owner" || value === "editor" || value === "viewer" ? value : null;
+}
+
+export function strongerRole<T extends WorkspaceRole>(a: T | null, b: T | null): T | null {
+  if (!a) return b;
+  if (!b) return a;
+  return ROLE_RANK[a] >= ROLE_RANK[b] ? a : b;
+}
+
+export function canWriteWorkspace(role: WorkspaceRole | null): boolean {
+  return role === "owner" || role === "editor";
+}
+
+export async function getWorkspaceRole(
+  db: PrismaClient,
+  workspaceId: string,
+  userId: string
+): Promise<WorkspaceRole | null> {
+  const member = await db.workspaceMember.findUnique({
+    where: { workspaceId_userId: { workspaceId, userId } },
+    select: { role: true }
+  });
+  return normalizeWorkspaceRole(member?.role);
+}
+
+export async function resolveWorkspaceScope(db: PrismaClient, userId: string): Promise<WorkspaceScope> {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: { activeWorkspaceId: true }
+  });
+  if (!user?.activeWorkspaceId) return PERSONAL_SCOPE;
+
+  const role = await getWorkspaceRole(db, user.activeWorkspaceId, userId);
+  // Membership was revoked since the user switched; quietly fall back to the personal space
+  if (!role) return PERSONAL_SCOPE;
+  return { workspaceId: user.activeWorkspaceId, role };
+}
+
+/** Prisma `where` fragment selecting the personas, folders and documents visible in a scope. */
+export function scopeWhere(scope: WorkspaceScope, userId: string) {
+  return scope.workspaceId ? { workspaceId: scope.workspaceId } : { ownerId: userId, workspaceId: null };
+}
+
+/** Like scopeWhere, but the personal space also includes documents shared with the user directly. */
+export function visibleDocumentsWhere(scope: WorkspaceScope, userId: string) {
+  return scope.workspaceId
+    ? { workspaceId: scope.workspaceId }
+    : {
+        OR: [{ ownerId: userId, workspaceId: null }, { DocumentCollaborator: { some: { userId } } }]
+      };
+}
+
+/** Viewers cannot add to a workspace, so anything they create lands in their personal space. */
+export function creationWorkspaceId(scope: WorkspaceScope): string | null {
+  return scope.workspaceId && canWriteWorkspace(scope.role) ? scope.workspaceId : null;
+}
+
+/** Role over a persona or folder: personal records belong to their owner alone. */
+export async function resolveRecordRole(
+  db: PrismaClient,
+  record: { ownerId: string; workspaceId?: string | null },
+  userId: string
+): Promise<WorkspaceRole | null> {
+  if (!record.workspaceId) {
+    return record.ownerId === userId ? "owner" : null;
+  }
+  return getWorkspaceRole(db, record.workspaceId, userId);
+}
+
+function hashInvitationToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * A fresh secret for an invite link. Only its hash is stored, so the link is the sole proof that
+ * the person accepting received the invitation rather than just registering the invited address.
+ */
+export function createInvitationToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(24).toString("base64url");
+  return { token, tokenHash: hashInvitationToken(token) };
+}
+
+export function invitationTokenMatches(tokenHash: string | null, token: string): boolean {
+  if (!tokenHash || !token) return false;
+  const expected = Buffer.from(tokenHash, "hex");
+  const received = Buffer.from(hashInvitationToken(token), "hex");
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+/** Where the invitee opens the invitation; the token never leaves this response or the link. */
+export function invitationUrl(invitationId: string, token: string): string {
+  const base = process.env.NEXT_PUBLIC_APP_URL ?? "http://localhost:3000";
+  const params = new URLSearchParams({ invitation: invitationId, token });
+  return `${base.replace(/\/+$/, "")}/?${params.toString()}`;
+}
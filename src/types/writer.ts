@@ -1,9 +1,7 @@
-import { ComposerSettingsInput } from "@/lib/validators";
-
-export type OutputPlaceholder = {
-  id: string;
-  label: string;
-};
+import { ComposerSettingsInput, DocumentVersionReason, DocxTitlePage, PromptHistoryKind, WorkspaceRole } from "@/lib/validators";
+import type { LengthReport } from "@/lib/length-limits";
+import type { DocumentPlaceholders, PlaceholderType } from "@/lib/placeholders";
+import type { PromptTemplateVariable } from "@/lib/prompt-templates";
 
 export type DocumentFolderReference = {
   id: string;
@@ -22,14 +20,16 @@ export type WriterOutput = {
   createdAt: string;
   settings: ComposerSettingsInput;
   prompt: string;
-  placeholderValues?: Record<string, string>;
-  placeholderMeta?: OutputPlaceholder[];
+  /** Typed values for the document's `[label]` placeholders, persisted with the document. */
+  placeholders?: DocumentPlaceholders;
   isPending?: boolean;
   writingStyle?: string | null;
   styleTitle?: string | null;
   styleSummary?: string | null;
   pinned?: boolean;
   folders?: DocumentFolderReference[];
+  /** Documents retrieved as reference material when this draft was composed (not persisted). */
+  groundingSources?: GroundingSource[];
 };
 
 export type FolderSummary = {
@@ -40,3 +40,192 @@ export type FolderSummary = {
   pinned?: boolean;
 };
 
+export type DocumentVersionSummary = {
+  id: string;
+  title: string;
+  reason: DocumentVersionReason;
+  createdAt: string;
+  characterCount: number;
+};
+
+export type DocumentVersionDetail = DocumentVersionSummary & {
+  content: string;
+};
+
+export type DocumentCollaboratorSummary = {
+  userId: string;
+  name: string | null;
+  email: string | null;
+  role: "editor" | "viewer";
+  addedAt: string;
+};
+
+export type WorkspaceSummary = {
+  id: string;
+  name: string;
+  role: WorkspaceRole;
+  memberCount: number;
+};
+
+export type WorkspaceMemberSummary = {
+  userId: string;
+  name: string | null;
+  email: string | null;
+  role: WorkspaceRole;
+  joinedAt: string;
+};
+
+export type WorkspaceInvitationSummary = {
+  id: string;
+  workspaceId: string;
+  workspaceName: string;
+  email: string;
+  role: WorkspaceRole;
+  invitedBy: string | null;
+  createdAt: string;
+};
+
+export type WorkspaceShareableItem = {
+  kind: "persona" | "style" | "folder" | "prompt";
+  id: string;
+  name: string;
+};
+
+export type CollabSession = {
+  enabled: boolean;
+  url?: string;
+  token?: string;
+  readOnly?: boolean;
+  user?: {
+    name: string;
+    color: string;
+  };
+};
+
+export type SearchSnippet = {
+  text: string;
+  /** [start, end) offsets into `text` for each matched term. */
+  highlights: Array<[number, number]>;
+  truncatedStart: boolean;
+  truncatedEnd: boolean;
+};
+
+export type DocumentSearchResult = {
+  id: string;
+  kind: "doc" | "style";
+  title: string;
+  pinned: boolean;
+  createdAt: string;
+  updatedAt: string;
+  folders: DocumentFolderReference[];
+  snippet: SearchSnippet | null;
+};
+
+export type PersonaSearchResult = {
+  id: string;
+  name: string | null;
+  snippet: SearchSnippet | null;
+};
+
+export type SimilarDocumentResult = {
+  id: string;
+  kind: "doc" | "style";
+  title: string;
+  /** Cosine similarity of the best-matching field, 0–1. */
+  score: number;
+  matchedOn: "content" | "writingStyle";
+  preview: string;
+  updatedAt: string;
+};
+
+/** A saved document or uploaded source whose passages grounded a draft. */
+export type GroundingSource = {
+  id: string;
+  kind: "document" | "source";
+  title: string;
+};
+
+/** One alternative draft from a multi-variant compose, shown in the comparison view. */
+export type ComposeVariant = {
+  index: number;
+  label: string;
+  content: string;
+  status: "streaming" | "ready" | "failed";
+  /** Counts against the brief's length limits, once the draft is final. */
+  length?: LengthReport | null;
+};
+
+export type SourceSummary = {
+  id: string;
+  title: string;
+  kind: "pdf" | "docx" | "md" | "txt" | "url";
+  fileName: string | null;
+  url: string | null;
+  byteSize: number;
+  characterCount: number;
+  chunkCount: number;
+  createdAt: string;
+  personas: Array<{ id: string; name: string }>;
+  folders: DocumentFolderReference[];
+  canEdit: boolean;
+};
+
+/** A reference .docx that DOCX exports inherit; `data` stays on the server. */
+export type ExportTemplateSummary = {
+  id: string;
+  name: string;
+  fileName: string;
+  byteSize: number;
+  isDefault: boolean;
+  titlePage: DocxTitlePage | null;
+  personas: Array<{ id: string; name: string }>;
+  createdAt: string;
+  canEdit: boolean;
+};
+
+/** A saved compose prompt; applying it also applies its settings, style and persona when set. */
+export type PromptTemplateSummary = {
+  id: string;
+  name: string;
+  description: string | null;
+  body: string;
+  variables: PromptTemplateVariable[];
+  settings: ComposerSettingsInput | null;
+  folder: string | null;
+  tags: string[];
+  style: { id: string; title: string; writingStyle: string | null; styleSummary: string | null } | null;
+  persona: { id: string; name: string } | null;
+  /** Shared with the members of its workspace. */
+  shared: boolean;
+  createdAt: string;
+  updatedAt: string;
+  canEdit: boolean;
+};
+
+/** A compose or rewrite request from the server-side prompt history. */
+export type PromptHistorySummary = {
+  id: string;
+  kind: PromptHistoryKind;
+  prompt: string;
+  /** Compose settings as sent; null for rewrites. */
+  settings: ComposerSettingsInput | null;
+  persona: { id: string | null; name: string } | null;
+  /** `id` is the saved style it came from, null when it was not saved or has been deleted. */
+  style: { id: string | null; name: string; description: string } | null;
+  documentId: string | null;
+  tokens: number;
+  createdAt: string;
+};
+
+/** One placeholder label across the documents of a folder (bulk fill). */
+export type FolderPlaceholderSummary = {
+  key: string;
+  label: string;
+  type: PlaceholderType;
+  /** Documents whose text contains the label. */
+  documentCount: number;
+  /** Of those, documents with no value yet. */
+  unresolvedCount: number;
+  /** The most common value already in use, if any. */
+  suggestedValue: string | null;
+};